@@ -10,6 +10,11 @@ import { basename, join, resolve } from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 
 import { computeEdgeField, type ImageBuffer } from '../src/pipeline/edgeDetection.js';
+import { runMediaPipeline } from '../src/media/mediaPipeline.js';
+import { loadManifestFromJson } from '../src/manifest/loader.js';
+import type { ManifestNode } from '../src/manifest/types.js';
+import { beamSplitterConfigFromNode } from '../src/optics/beamSplitterCommon.js';
+import { CpuBeamSplitterRenderer } from '../src/optics/beamSplitterCpu.js';
 import {
   renderRainbowFrame,
   type CouplingConfig,
@@ -125,6 +130,9 @@ type CliOptions = {
   fpsOverride?: number;
   keepTemp: boolean;
   useKuramoto: boolean;
+  manifestPath?: string;
+  /** Write the manifest's `BeamSplitter` render instead of the composer frame. */
+  beamSplitter: boolean;
 };
 
 type VideoProbe = {
@@ -140,6 +148,7 @@ const parseArgs = (argv: string[]): CliOptions => {
     ffprobe: 'ffprobe',
     keepTemp: false,
     useKuramoto: false,
+    beamSplitter: false,
     input: '',
     output: '',
   };
@@ -186,6 +195,15 @@ const parseArgs = (argv: string[]): CliOptions => {
         options.useKuramoto = true;
         break;
       }
+      case '--manifest':
+      case '-m': {
+        options.manifestPath = argv[++i];
+        break;
+      }
+      case '--beam-splitter': {
+        options.beamSplitter = true;
+        break;
+      }
       default: {
         if (arg.startsWith('-')) {
           throw new Error(`Unknown option: ${arg}`);
@@ -199,6 +217,9 @@ const parseArgs = (argv: string[]): CliOptions => {
   if (!options.output) {
     throw new Error('Missing --output path');
   }
+  if (options.beamSplitter && !options.manifestPath) {
+    throw new Error('--beam-splitter requires a --manifest path');
+  }
   return options;
 };
 
@@ -537,6 +558,7 @@ const processFrames = async (
   decodeDir: string,
   processedDir: string,
   timeline: TimelinePlayer | null,
+  beamSplitterNode: ManifestNode | null,
 ): Promise<OfflineProcessSummary> => {
   const files = (await fsPromises.readdir(decodeDir))
     .filter((name) => name.toLowerCase().endsWith('.png'))
@@ -581,6 +603,7 @@ const processFrames = async (
   let kurDerived: ReturnType<typeof createDerivedViews> | null = null;
   const kurParams: KuramotoParams = { ...DEFAULT_KUR_PARAMS };
   const frameDt = 1 / info.fps;
+  const beamSplitter = beamSplitterNode ? new CpuBeamSplitterRenderer() : null;
   const clampSeed = (seed: number) => seed >>> 0;
 
   for (let index = 0; index < files.length; index++) {
@@ -722,6 +745,24 @@ const processFrames = async (
     su7Accumulator.geodesicFallbacks += su.geodesicFallbacks;
 
     const outputPath = join(processedDir, filename);
+    if (beamSplitter && beamSplitterNode) {
+      await beamSplitter.configure({
+        ...beamSplitterConfigFromNode(beamSplitterNode),
+        canvasWidth: info.width,
+        canvasHeight: info.height,
+        asset: {
+          id: filename,
+          previewUrl: '',
+          width: info.width,
+          height: info.height,
+          pixels: rgbaClamped,
+        },
+        pipeline: runMediaPipeline(image, { kuramoto: { enabled: false } }),
+      });
+      const pixels = beamSplitter.render(info.width, info.height);
+      await encodeRgbaToPng(options.ffmpeg, pixels, info.width, info.height, outputPath);
+      continue;
+    }
     const frameBuffer = Buffer.from(
       frameResult.output10Bit.buffer,
       frameResult.output10Bit.byteOffset ?? 0,
@@ -732,6 +773,7 @@ const processFrames = async (
     });
   }
 
+  beamSplitter?.dispose();
   const performance = renderer.getPerformanceSnapshot();
   const frames = su7Accumulator.frames || files.length;
 
@@ -809,6 +851,19 @@ const writeMetadata = async (
   await fsPromises.writeFile(metaPath, `${JSON.stringify(metadata, null, 2)}\n`, 'utf8');
 };
 
+const loadBeamSplitterNode = async (path: string): Promise<ManifestNode> => {
+  const resolved = resolve(process.cwd(), path);
+  const result = await loadManifestFromJson(await fsPromises.readFile(resolved, 'utf8'), resolved);
+  if (result.kind === 'error') {
+    throw new Error(`Manifest ${resolved} invalid: ${result.message}`);
+  }
+  const node = result.manifest.nodes.find((entry) => entry.type === 'BeamSplitter');
+  if (!node) {
+    throw new Error(`Manifest ${resolved} has no BeamSplitter node`);
+  }
+  return node;
+};
+
 const main = async () => {
   const options = parseArgs(process.argv.slice(2));
   const resolvedInput = resolve(process.cwd(), options.input);
@@ -816,6 +871,9 @@ const main = async () => {
 
   const videoInfo = await probeVideo(options.ffprobe, resolvedInput);
   const fps = options.fpsOverride ?? videoInfo.fps;
+  const beamSplitterNode = options.beamSplitter
+    ? await loadBeamSplitterNode(options.manifestPath!)
+    : null;
   const { root, decodeDir, processedDir } = await ensureTempDirs();
   try {
     await runCommand(options.ffmpeg, [
@@ -844,6 +902,7 @@ const main = async () => {
       decodeDir,
       processedDir,
       timeline,
+      beamSplitterNode,
     );
 
     const processedFrames = (await fsPromises.readdir(processedDir)).filter((name) =>
@@ -858,7 +917,7 @@ const main = async () => {
     await encodeVideoFromPng(options.ffmpeg, pattern, fps, resolvedOutput);
     await writeMetadata(resolvedOutput, { ...videoInfo, fps }, timeline, summary);
     console.log(
-      `[video] wrote ${summary.frameCount} 10-bit frames → ${resolvedOutput} (${videoInfo.width}×${videoInfo.height} @ ${fps.toFixed(
+      `[video] wrote ${summary.frameCount} ${beamSplitterNode ? '8-bit beam-splitter' : '10-bit'} frames → ${resolvedOutput} (${videoInfo.width}×${videoInfo.height} @ ${fps.toFixed(
         3,
       )} fps; avg frame ${summary.performance.frameMsAvg.toFixed(2)}ms, max ${summary.performance.frameMsMax.toFixed(
         2,
@@ -37,6 +37,8 @@ export interface SimulateRequest {
   frames?: number;
   dt?: number;
   seed?: number;
+  integrator?: 'euler' | 'rk4' | 'rk45' | 'etd';
+  tolerance?: number;
   ffmpeg?: string;
   ffprobe?: string;
 }
@@ -51,6 +53,13 @@ export interface SimulateResponse {
     cohMean: number;
     indraIndex: number;
   };
+  integrator?: {
+    method: 'euler' | 'rk4' | 'rk45' | 'etd';
+    substeps: number;
+    rejections: number;
+    minAcceptedDt: number;
+    maxErrorEstimate: number;
+  };
 }
 
 export interface CaptureRequest {
@@ -6,6 +6,7 @@ import {
   derivedBufferSize,
   deriveKuramotoFields as deriveKuramotoFieldsCore,
   initKuramotoState,
+  resetKuramotoNoise,
   stepKuramotoState,
   createWavePlateStep,
   createPolarizerStep,
@@ -18,7 +19,26 @@ import {
   type KuramotoInstrumentationSnapshot,
   type ThinElementSchedule,
   type PolarizationMatrix,
+  KURAMOTO_PLASTICITY_MODES,
+  type KuramotoPlasticityMode,
+  KURAMOTO_NOISE_COUPLINGS,
+  KURAMOTO_NOISE_MODELS,
+  type KuramotoNoiseCoupling,
+  type KuramotoNoiseModel,
 } from './kuramotoCore';
+import { opticalTrainSteps, readOpticalTrain } from './state/opticalTrain';
+import type { OpticalElementSpec } from './optics/elements';
+import { computeAberrationPointSpread, zernikeTermCount } from './optics/zernike';
+import {
+  createMultiLayerPhaseFields,
+  deriveMultiLayerKuramotoFields,
+  stepMultiLayerKuramoto,
+  syncMultiLayerKuramoto,
+  type KuramotoLayerConfig,
+  type MultiLayerKuramotoState,
+  type MultiLayerKuramotoTelemetry,
+  type MultiLayerStepOptions,
+} from './kuramoto/multiLayer';
 import {
   createGpuRenderer,
   type GpuRenderer,
@@ -30,6 +50,7 @@ import {
   applyOp,
   clamp,
   computeComposerBlendGain,
+  computeRimDispersionOffsets,
   createDefaultComposerConfig,
   groupOps,
   hash2,
@@ -84,6 +105,8 @@ import {
   runGpuSubstep,
   runCpuSweep,
   runTemperatureScan,
+  runQcdWilsonFlow,
+  runQcdQuarkPropagator,
   buildQcdOverlay,
   buildQcdProbeFrame,
   buildQcdSnapshot,
@@ -92,8 +115,13 @@ import {
   type QcdRuntimeState,
   type QcdSnapshot,
   type QcdAnnealConfig,
+  type QcdFermionConfig,
   type QcdObservables,
+  type QcdOverlaySource,
+  type QcdUpdateMethod,
 } from './qcd/runtime';
+import type { HmcIntegrator } from './qcd/hmc';
+import { GAUGE_ACTION_C1, type GaugeActionKind } from './qcd/gaugeAction';
 import type { ProbeTransportFrameData } from './qcd/probeTransport.js';
 import { mulberry32 } from './qcd/updateCpu';
 import {
@@ -123,11 +151,15 @@ import {
   type HyperbolicAtlas,
 } from './hyperbolic/atlas';
 import {
+  COUPLING_BOUNDARIES,
+  COUPLING_INTEGRATORS,
   COUPLING_KERNEL_PRESETS,
   clampKernelSpec,
   createKernelSpec,
   getDefaultKernelSpec,
   kernelSpecToJSON,
+  type CouplingBoundary,
+  type CouplingIntegrator,
   type CouplingKernelPreset,
   type KernelSpec,
 } from './kernel/kernelSpec';
@@ -144,6 +176,7 @@ import {
   type FieldKind,
   type FieldResolution,
   type RimField,
+  type StokesField,
   type SurfaceField,
   type VolumeField,
 } from './fields/contracts';
@@ -161,6 +194,40 @@ import {
   stepVolumeStub,
   type VolumeStubState,
 } from './volumeStub';
+import {
+  createBeamPropagationVolume,
+  setVolumeIndexFromLuminance,
+  snapshotBeamPropagationVolume,
+  stepBeamPropagationVolume,
+  type BeamPropagationVolumeState,
+} from './optics/beamPropagation';
+import {
+  inflateVolumeRecording,
+  VolumeRecordingReader,
+  VolumeRecordingWriter,
+  type VolumeRecordingPrecision,
+} from './volumeRecording';
+import {
+  decodeDepthMap,
+  depthMapToVolumeField,
+  resampleDepthMap,
+  type DepthMap,
+  type DepthVolumeOptions,
+} from './media/depthImport';
+import {
+  compareRimDispersion,
+  computeSpectralRimField,
+  createSpectralSampling,
+  reliefFromSurface,
+  type RimDispersionComparison,
+  type SpectralRimField,
+} from './optics/spectral';
+import {
+  STOKES_MAP_MODES,
+  computeStokesField,
+  renderStokesMap,
+  type StokesMapMode,
+} from './optics/polarization';
 import {
   DEFAULT_TRACER_CONFIG,
   applyTracerFeedback,
@@ -607,6 +674,17 @@ type PresetKuramoto = {
   p_sw: number;
   smallWorldSeed: number;
   smallWorldDegree: number;
+  kurLayersEnabled: boolean;
+  kurLayerCoupling: number;
+  kurLayerLag: number;
+  kurLayerDetune: number;
+  plasticityRate: number;
+  plasticityMode: KuramotoPlasticityMode;
+  plasticityMax: number;
+  noiseModel: KuramotoNoiseModel;
+  noiseCoupling: KuramotoNoiseCoupling;
+  noiseCorrelationTime: number;
+  noiseCorrelationLength: number;
   polarizationEnabled: boolean;
   wavePlateEnabled: boolean;
   wavePlatePhaseDeg: number;
@@ -924,6 +1002,26 @@ const COUPLING_PRESET_OPTIONS = (
   label: COUPLING_PRESET_LABELS[value] ?? value,
 }));
 
+const COUPLING_INTEGRATOR_LABELS: Record<CouplingIntegrator, string> = {
+  direct: 'Direct stencil',
+  spectral: 'Spectral (FFT)',
+};
+
+const COUPLING_INTEGRATOR_OPTIONS = COUPLING_INTEGRATORS.map((value) => ({
+  value,
+  label: COUPLING_INTEGRATOR_LABELS[value],
+}));
+
+const COUPLING_BOUNDARY_LABELS: Record<CouplingBoundary, string> = {
+  periodic: 'Periodic',
+  zeroPadded: 'Zero-padded',
+};
+
+const COUPLING_BOUNDARY_OPTIONS = COUPLING_BOUNDARIES.map((value) => ({
+  value,
+  label: COUPLING_BOUNDARY_LABELS[value],
+}));
+
 const WALLPAPER_GROUP_VALUES: WallpaperGroup[] = [
   'off',
   'p1',
@@ -1091,6 +1189,17 @@ const PRESETS: Preset[] = [
       p_sw: 0.05,
       smallWorldSeed: 1337,
       smallWorldDegree: 12,
+      kurLayersEnabled: false,
+      kurLayerCoupling: 0.4,
+      kurLayerLag: 0,
+      kurLayerDetune: 0.2,
+      plasticityRate: 0,
+      plasticityMode: 'offset',
+      plasticityMax: 1,
+      noiseModel: 'white',
+      noiseCoupling: 'additive',
+      noiseCorrelationTime: 1,
+      noiseCorrelationLength: 2,
       polarizationEnabled: false,
       wavePlateEnabled: true,
       wavePlatePhaseDeg: 90,
@@ -1236,6 +1345,17 @@ const PRESETS: Preset[] = [
       p_sw: 0,
       smallWorldSeed: 2048,
       smallWorldDegree: 10,
+      kurLayersEnabled: false,
+      kurLayerCoupling: 0.4,
+      kurLayerLag: 0,
+      kurLayerDetune: 0.2,
+      plasticityRate: 0,
+      plasticityMode: 'offset',
+      plasticityMax: 1,
+      noiseModel: 'white',
+      noiseCoupling: 'additive',
+      noiseCorrelationTime: 1,
+      noiseCorrelationLength: 2,
       polarizationEnabled: true,
       wavePlateEnabled: true,
       wavePlatePhaseDeg: 90,
@@ -1381,6 +1501,17 @@ const PRESETS: Preset[] = [
       p_sw: 0.05,
       smallWorldSeed: 1337,
       smallWorldDegree: 12,
+      kurLayersEnabled: false,
+      kurLayerCoupling: 0.4,
+      kurLayerLag: 0,
+      kurLayerDetune: 0.2,
+      plasticityRate: 0,
+      plasticityMode: 'offset',
+      plasticityMax: 1,
+      noiseModel: 'white',
+      noiseCoupling: 'additive',
+      noiseCorrelationTime: 1,
+      noiseCorrelationLength: 2,
       polarizationEnabled: false,
       wavePlateEnabled: true,
       wavePlatePhaseDeg: 90,
@@ -1869,6 +2000,14 @@ const sanitizePresetPayload = (raw: unknown, fallback: Preset): Preset | null =>
           typeof kernelSource.couplingPreset === 'string'
             ? (kernelSource.couplingPreset as CouplingKernelPreset)
             : fallbackParams.kernel.couplingPreset,
+        couplingIntegrator:
+          typeof kernelSource.couplingIntegrator === 'string'
+            ? (kernelSource.couplingIntegrator as CouplingIntegrator)
+            : fallbackParams.kernel.couplingIntegrator,
+        couplingBoundary:
+          typeof kernelSource.couplingBoundary === 'string'
+            ? (kernelSource.couplingBoundary as CouplingBoundary)
+            : fallbackParams.kernel.couplingBoundary,
       }),
       dmt: sanitizeNumber(paramsSource.dmt, fallbackParams.dmt),
       arousal: sanitizeNumber(paramsSource.arousal, fallbackParams.arousal),
@@ -2066,6 +2205,60 @@ const sanitizePresetPayload = (raw: unknown, fallback: Preset): Preset | null =>
         0,
         64,
       ),
+      kurLayersEnabled: sanitizeBoolean(
+        kuramotoSource.kurLayersEnabled,
+        fallbackKuramoto.kurLayersEnabled ?? false,
+      ),
+      kurLayerCoupling: sanitizeNumber(
+        kuramotoSource.kurLayerCoupling,
+        fallbackKuramoto.kurLayerCoupling ?? 0.4,
+      ),
+      kurLayerLag: sanitizeNumber(kuramotoSource.kurLayerLag, fallbackKuramoto.kurLayerLag ?? 0),
+      kurLayerDetune: sanitizeNumber(
+        kuramotoSource.kurLayerDetune,
+        fallbackKuramoto.kurLayerDetune ?? 0.2,
+      ),
+      plasticityRate: clamp(
+        sanitizeNumber(kuramotoSource.plasticityRate, fallbackKuramoto.plasticityRate ?? 0),
+        0,
+        0.5,
+      ),
+      plasticityMode: sanitizeEnum(
+        kuramotoSource.plasticityMode,
+        KURAMOTO_PLASTICITY_MODES,
+        fallbackKuramoto.plasticityMode ?? 'offset',
+      ),
+      plasticityMax: clamp(
+        sanitizeNumber(kuramotoSource.plasticityMax, fallbackKuramoto.plasticityMax ?? 1),
+        0,
+        2,
+      ),
+      noiseModel: sanitizeEnum(
+        kuramotoSource.noiseModel,
+        KURAMOTO_NOISE_MODELS,
+        fallbackKuramoto.noiseModel ?? 'white',
+      ),
+      noiseCoupling: sanitizeEnum(
+        kuramotoSource.noiseCoupling,
+        KURAMOTO_NOISE_COUPLINGS,
+        fallbackKuramoto.noiseCoupling ?? 'additive',
+      ),
+      noiseCorrelationTime: clamp(
+        sanitizeNumber(
+          kuramotoSource.noiseCorrelationTime,
+          fallbackKuramoto.noiseCorrelationTime ?? 1,
+        ),
+        0.01,
+        10,
+      ),
+      noiseCorrelationLength: clamp(
+        sanitizeNumber(
+          kuramotoSource.noiseCorrelationLength,
+          fallbackKuramoto.noiseCorrelationLength ?? 2,
+        ),
+        0,
+        16,
+      ),
       polarizationEnabled: sanitizeBoolean(
         kuramotoSource.polarizationEnabled,
         fallbackKuramoto.polarizationEnabled ?? false,
@@ -2275,6 +2468,8 @@ type KurFrameView = {
   kernelVersion: number;
   meta: OpticalFieldMetadata;
   instrumentation: KuramotoInstrumentationSnapshot;
+  layers: MultiLayerKuramotoTelemetry | null;
+  stokes: StokesField | null;
 };
 
 type WorkerFrameMessage = {
@@ -2286,6 +2481,8 @@ type WorkerFrameMessage = {
   kernelVersion?: number;
   meta: OpticalFieldMetadata;
   instrumentation: KuramotoInstrumentationSnapshot;
+  layers?: MultiLayerKuramotoTelemetry;
+  stokes?: StokesField;
 };
 
 type WorkerReadyMessage = { kind: 'ready'; width: number; height: number };
@@ -2298,6 +2495,59 @@ type WorkerSimulateResultMessage = {
   frameCount: number;
 };
 
+/** Rim/surface population pair; the surface layer runs detuned from ω₀ by `detune`. */
+const buildKurLayerConfig = (
+  omega0: number,
+  coupling: number,
+  phaseLag: number,
+  detune: number,
+): KuramotoLayerConfig => ({
+  layers: [{ id: 'rim' }, { id: 'surface', params: { omega0: omega0 + detune } }],
+  coupling: {
+    strength: [
+      [0, coupling],
+      [coupling, 0],
+    ],
+    phaseLag,
+  },
+});
+
+/** Steps the lattice alone, or the whole stack it heads when `layers` is set. */
+const stepKurLattice = (
+  state: KuramotoState,
+  layers: MultiLayerKuramotoState | null,
+  params: KuramotoParams,
+  dt: number,
+  randn: () => number,
+  timestamp: number,
+  options: MultiLayerStepOptions,
+) => {
+  if (layers) {
+    stepMultiLayerKuramoto(layers, dt, randn, timestamp, options);
+  } else {
+    stepKuramotoState(state, params, dt, randn, timestamp, options);
+  }
+};
+
+/** Derives `phase` from the lattice, or from the weighted composite of its layer stack. */
+const deriveKurLattice = (
+  state: KuramotoState,
+  layers: MultiLayerKuramotoState | null,
+  layerPhases: readonly PhaseField[] | null,
+  phase: PhaseField,
+  options: Pick<MultiLayerStepOptions, 'controls' | 'kernel' | 'schedule'>,
+) => {
+  if (layers) {
+    const phases =
+      layerPhases?.length === layers.layers.length
+        ? layerPhases
+        : createMultiLayerPhaseFields(layers).layers;
+    deriveMultiLayerKuramotoFields(layers, { layers: [...phases], composite: phase }, options);
+  } else {
+    deriveKuramotoFieldsCore(state, phase, options);
+  }
+};
+
 type WorkerIncomingMessage =
   | WorkerFrameMessage
   | WorkerReadyMessage
@@ -2394,6 +2644,66 @@ declare global {
   }
 }
 
+/** Deep copy handed to React state so later lattice updates never mutate rendered values. */
+const cloneQcdObservables = (obs: QcdObservables): QcdObservables => ({
+  averagePlaquette: obs.averagePlaquette,
+  plaquetteHistory: [...obs.plaquetteHistory],
+  plaquetteEstimate: { ...obs.plaquetteEstimate },
+  wilsonLoops: obs.wilsonLoops.map((entry) => ({ ...entry })),
+  creutzRatio: obs.creutzRatio ? { ...obs.creutzRatio } : undefined,
+  polyakovSamples: obs.polyakovSamples
+    ? obs.polyakovSamples.map((sample) => ({
+        axis: sample.axis,
+        extent: sample.extent,
+        magnitude: sample.magnitude,
+        sampleCount: sample.sampleCount,
+        average: { ...sample.average },
+      }))
+    : undefined,
+  hmc: obs.hmc ? { ...obs.hmc } : undefined,
+  actionDensity: obs.actionDensity,
+  flow: obs.flow
+    ? { ...obs.flow, history: obs.flow.history.map((entry) => ({ ...entry })) }
+    : undefined,
+  propagator: obs.propagator
+    ? { ...obs.propagator, pionCorrelator: [...obs.propagator.pionCorrelator] }
+    : undefined,
+  hadrons: obs.hadrons
+    ? {
+        ...obs.hadrons,
+        sweeps: [...obs.hadrons.sweeps],
+        channels: obs.hadrons.channels.map((entry) => ({
+          channel: entry.channel,
+          samples: entry.samples.map((sample) => [...sample]),
+          analysis: entry.analysis
+            ? {
+                ...entry.analysis,
+                rows: entry.analysis.rows.map((row) => ({ ...row })),
+                fit: entry.analysis.fit ? { ...entry.analysis.fit } : null,
+              }
+            : null,
+        })),
+      }
+    : undefined,
+});
+
+/** Radial order and Noll terms exposed by the eye-aberration controls. */
+const ZERNIKE_EYE_ORDER = 4;
+const ZERNIKE_EYE_TERMS = [
+  { j: 4, label: 'Defocus Z4' },
+  { j: 5, label: 'Oblique astigmatism Z5' },
+  { j: 6, label: 'Vertical astigmatism Z6' },
+  { j: 7, label: 'Vertical coma Z7' },
+  { j: 8, label: 'Horizontal coma Z8' },
+  { j: 11, label: 'Spherical Z11' },
+] as const;
+
+/** Blank or non-numeric text means "unset" for optional numeric inputs. */
+const parseOptionalNumber = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) ? value : null;
+};
+
 const formatBytes = (bytes: number) => {
   if (bytes <= 0) return '0 B';
   const units = ['B', 'KB', 'MB', 'GB'];
@@ -2511,6 +2821,12 @@ export default function App() {
   const basePixelsRef = useRef<ImageData | null>(null);
   const surfaceFieldRef = useRef<SurfaceField | null>(null);
   const rimFieldRef = useRef<RimField | null>(null);
+  const spectralRimRef = useRef<{
+    surface: SurfaceField;
+    bands: number;
+    distanceUm: number;
+    field: SpectralRimField;
+  } | null>(null);
   const earlyVisionFrameRef = useRef(0);
   const earlyVisionForceUpdateRef = useRef(false);
   const timelinePlayerRef = useRef<TimelinePlayer | null>(null);
@@ -2519,6 +2835,8 @@ export default function App() {
   const timelineActiveRef = useRef(false);
   const timelineLastFrameRef = useRef<number | null>(null);
   const timelineClockRef = useRef(0);
+  // Bumped whenever the clock jumps instead of advancing; see `kurNoiseSeekRef`.
+  const timelineSeekRef = useRef(0);
   const [timelineCurrentTime, setTimelineCurrentTime] = useState(0);
   const [timelinePlaying, setTimelinePlaying] = useState(false);
   const [timelineLoop, setTimelineLoop] = useState(true);
@@ -2857,8 +3175,29 @@ export default function App() {
   }, [width, height]);
 
   const [beta2, setBeta2] = useState(1.1);
+  const [spectralRimsEnabled, setSpectralRimsEnabled] = useState(false);
+  const [spectralBandCount, setSpectralBandCount] = useState(16);
+  const [spectralDistanceUm, setSpectralDistanceUm] = useState(60);
+  const [spectralRimVersion, setSpectralRimVersion] = useState(0);
+  const [spectralComparison, setSpectralComparison] = useState<RimDispersionComparison | null>(
+    null,
+  );
   const [jitter, setJitter] = useState(0.5);
   const [sigma, setSigma] = useState(1.4);
+  const [zernikeEnabled, setZernikeEnabled] = useState(false);
+  const [zernikePupilMm, setZernikePupilMm] = useState(3);
+  // Noll coefficients in µm, keyed by term index (see `ZERNIKE_EYE_TERMS`).
+  const [zernikeTerms, setZernikeTerms] = useState<Record<number, number>>({});
+  const zernikePointSpread = useMemo(() => {
+    if (!zernikeEnabled) return null;
+    const coefficients = new Float64Array(zernikeTermCount(ZERNIKE_EYE_ORDER));
+    for (const { j } of ZERNIKE_EYE_TERMS) coefficients[j - 1] = zernikeTerms[j] ?? 0;
+    return computeAberrationPointSpread({
+      maxOrder: ZERNIKE_EYE_ORDER,
+      coefficients,
+      pupilRadiusMeters: (zernikePupilMm * 1e-3) / 2,
+    });
+  }, [zernikeEnabled, zernikePupilMm, zernikeTerms]);
   const [microsaccade, setMicrosaccade] = useState(true);
   const [speed, setSpeed] = useState(1.0);
   const [contrast, setContrast] = useState(1.0);
@@ -4174,6 +4513,7 @@ export default function App() {
     (timeSeconds: number) => {
       const clamped = Math.max(0, Math.min(timelineMaxSeconds, timeSeconds));
       timelineClockRef.current = clamped;
+      timelineSeekRef.current += 1;
       setTimelineCurrentTime(clamped);
       updateTimelineForTime(clamped);
     },
@@ -4224,6 +4564,7 @@ export default function App() {
   const handleTimelineClear = useCallback(() => {
     setTimelinePlaying(false);
     timelineClockRef.current = 0;
+    timelineSeekRef.current += 1;
     setTimelineCurrentTime(0);
     setTimelineLanes([]);
     clearTimeline();
@@ -4343,6 +4684,7 @@ export default function App() {
       if (next > timelineMaxSeconds) {
         if (timelineLoop && timelineMaxSeconds > 0) {
           next = next % timelineMaxSeconds;
+          timelineSeekRef.current += 1;
         } else {
           next = timelineMaxSeconds;
           setTimelinePlaying(false);
@@ -4374,6 +4716,7 @@ export default function App() {
     }
     if (Math.abs(clamped - timelineClockRef.current) > 1e-6) {
       timelineClockRef.current = clamped;
+      timelineSeekRef.current += 1;
       setTimelineCurrentTime(clamped);
       updateTimelineForTime(clamped);
     }
@@ -4671,6 +5014,10 @@ export default function App() {
   const [epsKur, setEpsKur] = useState(0.002);
   const [fluxX, setFluxX] = useState(0);
   const [fluxY, setFluxY] = useState(0);
+  const [opticalTrain, setOpticalTrain] = useState<{
+    name: string;
+    elements: OpticalElementSpec[];
+  } | null>(null);
   const [polarizationEnabled, setPolarizationEnabled] = useState(false);
   const [wavePlateEnabled, setWavePlateEnabled] = useState(true);
   const [wavePlatePhaseDeg, setWavePlatePhaseDeg] = useState(90);
@@ -4678,6 +5025,8 @@ export default function App() {
   const [polarizerEnabled, setPolarizerEnabled] = useState(false);
   const [polarizerOrientationDeg, setPolarizerOrientationDeg] = useState(0);
   const [polarizerExtinction, setPolarizerExtinction] = useState(0);
+  const [stokesMapMode, setStokesMapMode] = useState<StokesMapMode>('ellipse');
+  const [stokesOverlayAlpha, setStokesOverlayAlpha] = useState(0);
   const [su7PolarizationEnabled, setSu7PolarizationEnabled] = useState(false);
   const [su7PolarizationColumn, setSu7PolarizationColumn] = useState(0);
   const [su7PolarizationGain, setSu7PolarizationGain] = useState(1);
@@ -4694,10 +5043,19 @@ export default function App() {
     });
   }, [su7PolarizationEnabled, su7Unitary, su7PolarizationColumn, su7PolarizationGain]);
   const polarizationSchedule = useMemo<ThinElementSchedule | undefined>(() => {
-    if (!polarizationEnabled) {
+    const trainSteps = opticalTrain ? opticalTrainSteps(opticalTrain.elements) : [];
+    if (!polarizationEnabled && trainSteps.length === 0) {
       return undefined;
     }
-    const steps: any[] = [];
+    // Optical train elements act on every component ahead of the polarization optics.
+    const steps: any[] = [...trainSteps];
+    if (!polarizationEnabled) {
+      return [
+        ...steps,
+        { kind: 'operator', operator: 'amplitude' as const },
+        { kind: 'operator', operator: 'phase' as const },
+      ] as ThinElementSchedule;
+    }
     const toRad = (deg: number) => (Number.isFinite(deg) ? (deg * Math.PI) / 180 : 0);
     if (wavePlateEnabled) {
       const phaseRad = toRad(wavePlatePhaseDeg);
@@ -4740,6 +5098,7 @@ export default function App() {
       { kind: 'operator', operator: 'phase' as const },
     ] as ThinElementSchedule;
   }, [
+    opticalTrain,
     polarizationEnabled,
     wavePlateEnabled,
     wavePlatePhaseDeg,
@@ -4751,8 +5110,22 @@ export default function App() {
     polarizerOrientationDeg,
     polarizerExtinction,
   ]);
+  const loadOpticalTrain = useCallback((payload: unknown, name = 'Optical train') => {
+    const elements = readOpticalTrain(typeof payload === 'string' ? JSON.parse(payload) : payload);
+    setOpticalTrain(elements.length > 0 ? { name, elements } : null);
+    return elements.length;
+  }, []);
+  const clearOpticalTrain = useCallback(() => setOpticalTrain(null), []);
   const [fluxSources, setFluxSources] = useState<FluxSource[]>([]);
   const [qcdBeta, setQcdBeta] = useState(5.25);
+  const [qcdUpdateMethod, setQcdUpdateMethod] = useState<QcdUpdateMethod>('heatbath');
+  const [qcdHmcIntegrator, setQcdHmcIntegrator] = useState<HmcIntegrator>('omelyan');
+  const [qcdHmcSteps, setQcdHmcSteps] = useState(8);
+  const [qcdGaugeAction, setQcdGaugeAction] = useState<GaugeActionKind>('wilson');
+  const [qcdFlowTime, setQcdFlowTime] = useState(1);
+  const [qcdOverlaySource, setQcdOverlaySource] = useState<QcdOverlaySource>('plaquette');
+  const [qcdFermion, setQcdFermion] = useState<'wilson' | 'clover' | 'staggered'>('wilson');
+  const [qcdQuarkMass, setQcdQuarkMass] = useState(0.2);
   const [qcdStepsPerSecond, setQcdStepsPerSecond] = useState(3);
   const [qcdSmearingAlpha, setQcdSmearingAlpha] = useState(0.5);
   const [qcdSmearingIterations, setQcdSmearingIterations] = useState(1);
@@ -4812,6 +5185,17 @@ export default function App() {
   const [pSw, setPSw] = useState(0.05);
   const [smallWorldSeed, setSmallWorldSeed] = useState(1337);
   const [smallWorldDegree, setSmallWorldDegree] = useState(12);
+  const [kurLayersEnabled, setKurLayersEnabled] = useState(false);
+  const [kurLayerCoupling, setKurLayerCoupling] = useState(0.4);
+  const [kurLayerLag, setKurLayerLag] = useState(0);
+  const [kurLayerDetune, setKurLayerDetune] = useState(0.2);
+  const [plasticityRate, setPlasticityRate] = useState(0);
+  const [plasticityMode, setPlasticityMode] = useState<KuramotoPlasticityMode>('offset');
+  const [plasticityMax, setPlasticityMax] = useState(1);
+  const [noiseModel, setNoiseModel] = useState<KuramotoNoiseModel>('white');
+  const [noiseCoupling, setNoiseCoupling] = useState<KuramotoNoiseCoupling>('additive');
+  const [noiseCorrelationTime, setNoiseCorrelationTime] = useState(1);
+  const [noiseCorrelationLength, setNoiseCorrelationLength] = useState(2);
   const [presetIndex, setPresetIndex] = useState(0);
   const [telemetryEnabled, setTelemetryEnabled] = useState(false);
   const [telemetryOverlayEnabled, setTelemetryOverlayEnabled] = useState(false);
@@ -5208,22 +5592,6 @@ export default function App() {
   const qcdCpuRngRef = useRef<(() => number) | null>(null);
   const qcdBaseSeedRef = useRef(qcdBaseSeed);
   const qcdSweeps = qcdRuntimeRef.current?.sweepIndex ?? 0;
-  const cloneQcdObservables = (obs: QcdObservables): QcdObservables => ({
-    averagePlaquette: obs.averagePlaquette,
-    plaquetteHistory: [...obs.plaquetteHistory],
-    plaquetteEstimate: { ...obs.plaquetteEstimate },
-    wilsonLoops: obs.wilsonLoops.map((entry) => ({ ...entry })),
-    creutzRatio: obs.creutzRatio ? { ...obs.creutzRatio } : undefined,
-    polyakovSamples: obs.polyakovSamples
-      ? obs.polyakovSamples.map((sample) => ({
-          axis: sample.axis,
-          extent: sample.extent,
-          magnitude: sample.magnitude,
-          sampleCount: sample.sampleCount,
-          average: { ...sample.average },
-        }))
-      : undefined,
-  });
 
   const removeFluxSource = useCallback((index: number) => {
     setFluxSources((prev) => prev.filter((_, idx) => idx !== index));
@@ -5296,10 +5664,29 @@ export default function App() {
   }, []);
 
   const getQcdConfig = useCallback((): QcdAnnealConfig => {
+    const fermion: QcdFermionConfig =
+      qcdFermion === 'staggered'
+        ? { kind: 'staggered', mass: qcdQuarkMass, solver: 'cg' }
+        : {
+            kind: 'wilson',
+            mass: qcdQuarkMass,
+            csw: qcdFermion === 'clover' ? 1 : 0,
+            solver: 'bicgstab',
+          };
     const maxBatchLayers = Math.max(1, qcdDepthInt * qcdTemporalExtentInt);
     const batchLayers = Math.min(qcdBatchLayersInt, maxBatchLayers);
     return {
       beta: qcdBeta,
+      updateMethod: qcdUpdateMethod,
+      hmc: {
+        integrator: qcdHmcIntegrator,
+        steps: Math.max(1, Math.round(qcdHmcSteps)),
+        trajectoryLength: 1,
+      },
+      gaugeAction: { kind: qcdGaugeAction },
+      flow: { stepSize: 0.02, maxFlowTime: qcdFlowTime },
+      overlaySource: qcdOverlaySource,
+      fermion,
       overRelaxationSteps: 1,
       smearing: {
         alpha: clamp(qcdSmearingAlpha, 0, 1),
@@ -5312,6 +5699,14 @@ export default function App() {
     };
   }, [
     qcdBeta,
+    qcdUpdateMethod,
+    qcdHmcIntegrator,
+    qcdHmcSteps,
+    qcdGaugeAction,
+    qcdFlowTime,
+    qcdOverlaySource,
+    qcdFermion,
+    qcdQuarkMass,
     qcdSmearingAlpha,
     qcdSmearingIterations,
     qcdDepthInt,
@@ -5476,7 +5871,6 @@ export default function App() {
     },
     [
       appendQcdPerfLog,
-      cloneQcdObservables,
       fluxSources,
       getQcdConfig,
       height,
@@ -5520,7 +5914,12 @@ export default function App() {
           qcdCpuRngRef.current = mulberry32(runtime.baseSeed >>> 0);
         }
         runCpuSweep(runtime, qcdCpuRngRef.current!);
-        appendQcdPerfLog('[cpu] heatbath sweep completed');
+        const hmc = runtime.config.updateMethod === 'hmc' ? runtime.hmcTelemetry : null;
+        appendQcdPerfLog(
+          hmc
+            ? `[cpu] hmc trajectory ΔH ${hmc.lastDeltaH.toExponential(2)} · acceptance ${(hmc.acceptanceRate * 100).toFixed(0)}%`
+            : '[cpu] heatbath sweep completed',
+        );
       }
       if (runtime.phaseIndex === 0) {
         setQcdObservables(cloneQcdObservables(runtime.observables));
@@ -5538,7 +5937,7 @@ export default function App() {
     } finally {
       qcdStepInFlightRef.current = false;
     }
-  }, [appendQcdPerfLog, cloneQcdObservables, ensureQcdRuntime, fluxSources, height, width]);
+  }, [appendQcdPerfLog, ensureQcdRuntime, fluxSources, height, width]);
 
   const stopQcdAnneal = useCallback(() => {
     if (qcdTimerRef.current != null) {
@@ -5593,7 +5992,38 @@ export default function App() {
     setQcdPolyakovSchedule([...schedule]);
     setQcdObservables(cloneQcdObservables(runtime.observables));
     appendQcdPerfLog(`[polyakov] manual scan: ${schedule.length} β along ${axis}`);
-  }, [appendQcdPerfLog, cloneQcdObservables, ensureQcdRuntime, qcdTemperatureSchedule]);
+  }, [appendQcdPerfLog, ensureQcdRuntime, qcdTemperatureSchedule]);
+
+  const handleWilsonFlow = useCallback(() => {
+    const runtime = ensureQcdRuntime();
+    if (!runtime) {
+      appendQcdPerfLog('[flow] skipped: runtime unavailable');
+      return;
+    }
+    const summary = runQcdWilsonFlow(runtime);
+    setQcdObservables(cloneQcdObservables(runtime.observables));
+    setQcdOverlayState(buildQcdOverlay(runtime, fluxSources, width, height));
+    const scale = (label: string, value: number | null) =>
+      value != null ? `${label} ${value.toFixed(3)}` : `${label} –`;
+    appendQcdPerfLog(
+      `[flow] t ${summary.flowTime.toFixed(2)} · ${scale('t0', summary.t0)} · ${scale('w0', summary.w0)} · Q ${summary.topologicalCharge.toFixed(3)}`,
+    );
+  }, [appendQcdPerfLog, ensureQcdRuntime, fluxSources, width, height]);
+
+  const handleQuarkPropagator = useCallback(() => {
+    const runtime = ensureQcdRuntime();
+    if (!runtime) {
+      appendQcdPerfLog('[propagator] skipped: runtime unavailable');
+      return;
+    }
+    const { summary, frame } = runQcdQuarkPropagator(runtime, fluxSources);
+    setQcdObservables(cloneQcdObservables(runtime.observables));
+    setQcdProbeFrame(frame);
+    const correlator = summary.pionCorrelator.map((value) => value.toExponential(2)).join(' ');
+    appendQcdPerfLog(
+      `[propagator] ${summary.kind} ${summary.solver}${summary.evenOdd ? ' e/o' : ''} · ${summary.iterations} it · ${summary.converged ? 'converged' : 'not converged'} · C_π ${correlator}`,
+    );
+  }, [appendQcdPerfLog, ensureQcdRuntime, fluxSources]);
 
   useEffect(() => {
     if (!qcdRunning) {
@@ -5614,7 +6044,7 @@ export default function App() {
       qcdSnapshotRef.current = snapshot;
       setQcdSnapshotHash(hash);
     }
-  }, [fluxSources, width, height, qcdRunning]);
+  }, [fluxSources, width, height, qcdRunning, qcdOverlaySource]);
 
   useEffect(() => {
     if (qcdBaseSeedRef.current === qcdBaseSeed) {
@@ -5632,7 +6062,16 @@ export default function App() {
 
   const kurSyncRef = useRef(false);
   const kurStateRef = useRef<KuramotoState | null>(null);
+  const stokesFieldRef = useRef<StokesField | null>(null);
+  // Bumped per Stokes update so `StokesMapPanel` redraws on rAF without re-rendering the app.
+  const stokesVersionRef = useRef(0);
   const kurTelemetryRef = useRef<KuramotoTelemetrySnapshot | null>(null);
+  const kurLayersRef = useRef<MultiLayerKuramotoState | null>(null);
+  const kurLayerPhasesRef = useRef<PhaseField[] | null>(null);
+  const kurLayerTelemetryRef = useRef<MultiLayerKuramotoTelemetry | null>(null);
+  // Last `timelineSeekRef` the coloured noise was re-primed for, so OU state never leaks across
+  // a seek and each frame's noise depends only on its `kuramotoNoise` seed.
+  const kurNoiseSeekRef = useRef(0);
   const kurIrradianceRef = useRef<IrradianceFrameBuffer | null>(null);
   const kurLogRef = useRef<{ kernelVersion: number; frameId: number }>({
     kernelVersion: -1,
@@ -5646,7 +6085,46 @@ export default function App() {
   const cohRef = useRef<Float32Array | null>(null);
   const ampRef = useRef<Float32Array | null>(null);
   const volumeStubRef = useRef<VolumeStubState | null>(null);
+  const volumeSolverRef = useRef<{
+    state: BeamPropagationVolumeState;
+    surface: SurfaceField;
+  } | null>(null);
   const volumeFieldRef = useRef<VolumeField | null>(null);
+  const volumeReplayRef = useRef<{
+    reader: VolumeRecordingReader;
+    clock: number;
+    field?: VolumeField;
+  } | null>(null);
+  const volumeCaptureRef = useRef<{ writer: VolumeRecordingWriter; clock: number } | null>(null);
+  const volumeDepthRef = useRef<{
+    map: DepthMap;
+    field: VolumeField | null;
+    options?: DepthVolumeOptions;
+  } | null>(null);
+  const [depthAsset, setDepthAsset] = useState<{
+    name: string;
+    format: DepthMap['format'];
+    width: number;
+    height: number;
+  } | null>(null);
+  const [depthNear, setDepthNear] = useState<number | null>(null);
+  const [depthFar, setDepthFar] = useState<number | null>(null);
+  const [depthInvert, setDepthInvert] = useState(false);
+  const [depthWavelength, setDepthWavelength] = useState<number | null>(null);
+  const [depthRange, setDepthRange] = useState(1e-6);
+  // Same semantics as `indra-cli apply --depth-*`: blank near/far use the map's own range.
+  const depthVolumeOptions = useMemo<DepthVolumeOptions>(
+    () => ({
+      near: depthNear ?? undefined,
+      far: depthFar ?? undefined,
+      invert: depthInvert,
+      phase:
+        depthWavelength != null && depthWavelength > 0
+          ? { wavelengthNm: depthWavelength, rangeMeters: depthRange }
+          : null,
+    }),
+    [depthNear, depthFar, depthInvert, depthWavelength, depthRange],
+  );
   const workerRef = useRef<Worker | null>(null);
   const workerReadyRef = useRef(false);
   const workerInflightRef = useRef(0);
@@ -6143,9 +6621,27 @@ export default function App() {
   const ensureVolumeState = useCallback(() => {
     if (width <= 0 || height <= 0) {
       volumeStubRef.current = null;
+      volumeSolverRef.current = null;
       volumeFieldRef.current = null;
       return;
     }
+    // Once a scene is loaded the volume tier is solved from its luminance; the stub only
+    // covers the empty canvas.
+    const surface = surfaceFieldRef.current;
+    if (surface && surface.resolution.width === width && surface.resolution.height === height) {
+      const solver = volumeSolverRef.current;
+      if (!solver || solver.surface !== surface) {
+        const state =
+          solver && solver.state.width === width && solver.state.height === height
+            ? solver.state
+            : createBeamPropagationVolume(width, height);
+        setVolumeIndexFromLuminance(state, surface);
+        volumeSolverRef.current = { state, surface };
+      }
+      volumeStubRef.current = null;
+      return;
+    }
+    volumeSolverRef.current = null;
     const stub = volumeStubRef.current;
     if (!stub || stub.width !== width || stub.height !== height) {
       volumeStubRef.current = createVolumeStubState(
@@ -6446,6 +6942,7 @@ export default function App() {
       ensureKurCpuState();
       if (!kurStateRef.current || !cpuDerivedRef.current) return;
       initKuramotoState(kurStateRef.current, q, cpuDerivedRef.current);
+      kurLayersRef.current = null;
     },
     [ensureKurCpuState],
   );
@@ -6464,6 +6961,16 @@ export default function App() {
       smallWorldEnabled,
       smallWorldSeed,
       smallWorldDegree,
+      plasticityRate,
+      plasticityMode,
+      plasticityMax,
+      noiseModel,
+      noiseCoupling,
+      noiseCorrelationTime,
+      noiseCorrelationLength,
+      layers: kurLayersEnabled
+        ? buildKurLayerConfig(omega0, kurLayerCoupling, kurLayerLag, kurLayerDetune)
+        : undefined,
     };
   }, [
     alphaKur,
@@ -6478,8 +6985,35 @@ export default function App() {
     pSw,
     smallWorldSeed,
     smallWorldDegree,
+    plasticityRate,
+    plasticityMode,
+    plasticityMax,
+    noiseModel,
+    noiseCoupling,
+    noiseCorrelationTime,
+    noiseCorrelationLength,
+    kurLayersEnabled,
+    kurLayerCoupling,
+    kurLayerLag,
+    kurLayerDetune,
   ]);
 
+  const syncKurLayersCpu = useCallback(
+    (params: KuramotoParams) => {
+      const state = kurStateRef.current;
+      const layers = state
+        ? syncMultiLayerKuramoto(state, params, kurLayersRef.current, { qInit })
+        : null;
+      if (layers !== kurLayersRef.current) {
+        kurLayerPhasesRef.current = layers ? createMultiLayerPhaseFields(layers).layers : null;
+      }
+      kurLayersRef.current = layers;
+      kurLayerTelemetryRef.current = layers?.telemetry ?? null;
+      return layers;
+    },
+    [qInit],
+  );
+
   // Re-initialize the Kuramoto field whenever the canvas size or twist changes.
   useEffect(() => {
     if (kurEnabled) {
@@ -6503,11 +7037,19 @@ export default function App() {
     if (!volumeEnabled) {
       volumeFieldRef.current = null;
       volumeStubRef.current = null;
+      volumeSolverRef.current = null;
       markFieldGone('volume', 'volume-disabled');
       return;
     }
     ensureVolumeState();
-    if (volumeStubRef.current) {
+    const solver = volumeSolverRef.current;
+    if (solver) {
+      stepBeamPropagationVolume(solver.state, 0);
+      const field = snapshotBeamPropagationVolume(solver.state);
+      assertVolumeField(field, 'volume:init');
+      volumeFieldRef.current = field;
+      markFieldFresh('volume', field.resolution, 'volume:bpm');
+    } else if (volumeStubRef.current) {
       const field = snapshotVolumeStub(volumeStubRef.current);
       assertVolumeField(field, 'volume:init');
       volumeFieldRef.current = field;
@@ -6526,27 +7068,28 @@ export default function App() {
       const timelineTime = timelineClockRef.current;
       const seed = getTimelineSeed('kuramotoNoise', timelineTime);
       const frameRand = createNormalGenerator(seed);
-      const result = stepKuramotoState(
-        kurStateRef.current,
-        getKurParams(),
-        dt,
-        frameRand,
-        timestamp,
-        {
-          kernel: kernelSnapshot.spec,
-          controls: { dmt },
-          telemetry: { kernelVersion: kernelSnapshot.version },
-          schedule: polarizationSchedule,
-        },
-      );
-      kurTelemetryRef.current = result.telemetry;
-      kurIrradianceRef.current = result.irradiance;
-      logKurTelemetry(result.telemetry);
+      const params = getKurParams();
+      const layers = syncKurLayersCpu(params);
+      if (kurNoiseSeekRef.current !== timelineSeekRef.current) {
+        kurNoiseSeekRef.current = timelineSeekRef.current;
+        resetKuramotoNoise(kurStateRef.current);
+        layers?.layers.forEach((layer) => resetKuramotoNoise(layer.state));
+      }
+      stepKurLattice(kurStateRef.current, layers, params, dt, frameRand, timestamp, {
+        kernel: kernelSnapshot.spec,
+        controls: { dmt },
+        telemetry: { kernelVersion: kernelSnapshot.version },
+        schedule: polarizationSchedule,
+      });
+      kurTelemetryRef.current = kurStateRef.current.telemetry;
+      kurIrradianceRef.current = kurStateRef.current.irradiance;
+      logKurTelemetry(kurStateRef.current.telemetry);
     },
     [
       kurEnabled,
       ensureKurCpuState,
       getKurParams,
+      syncKurLayersCpu,
       getTimelineSeed,
       dmt,
       logKurTelemetry,
@@ -6560,13 +7103,42 @@ export default function App() {
     if (!kurStateRef.current || !cpuDerivedRef.current) return;
     const kernelSnapshot = kernelEventRef.current;
     const activeDmt = getTimelineNumber('dmt', dmt);
-    deriveKuramotoFieldsCore(kurStateRef.current, cpuDerivedRef.current, {
-      kernel: kernelSnapshot.spec,
-      controls: { dmt: activeDmt },
-      schedule: polarizationSchedule,
-    });
+    deriveKurLattice(
+      kurStateRef.current,
+      kurLayersRef.current,
+      kurLayerPhasesRef.current,
+      cpuDerivedRef.current,
+      {
+        kernel: kernelSnapshot.spec,
+        controls: { dmt: activeDmt },
+        schedule: polarizationSchedule,
+      },
+    );
     markFieldFresh('phase', cpuDerivedRef.current.resolution, 'cpu');
-  }, [kurEnabled, ensureKurCpuState, dmt, markFieldFresh, getTimelineNumber, polarizationSchedule]);
+    const jones = kurStateRef.current.field;
+    if (polarizationEnabled && jones.componentCount > 1) {
+      const previous = stokesFieldRef.current;
+      const reuse =
+        previous &&
+        previous.resolution.width === jones.resolution.width &&
+        previous.resolution.height === jones.resolution.height;
+      stokesFieldRef.current = computeStokesField(jones, reuse ? previous : undefined);
+      markFieldFresh('stokes', jones.resolution, 'cpu:jones');
+      stokesVersionRef.current += 1;
+    } else if (stokesFieldRef.current) {
+      stokesFieldRef.current = null;
+      markFieldGone('stokes', 'polarization-off');
+    }
+  }, [
+    kurEnabled,
+    ensureKurCpuState,
+    dmt,
+    markFieldFresh,
+    markFieldGone,
+    getTimelineNumber,
+    polarizationSchedule,
+    polarizationEnabled,
+  ]);
 
   const resetKuramotoField = useCallback(() => {
     initKuramotoCpu(qInit);
@@ -6644,12 +7216,21 @@ export default function App() {
     cohRef.current = next.coh;
     ampRef.current = next.amp;
     kurTelemetryRef.current = next.instrumentation.telemetry;
+    kurLayerTelemetryRef.current = next.layers;
     kurIrradianceRef.current = null;
+    if (next.stokes) {
+      stokesFieldRef.current = next.stokes;
+      stokesVersionRef.current += 1;
+      markFieldFresh('stokes', next.stokes.resolution, 'worker:jones');
+    } else if (stokesFieldRef.current) {
+      stokesFieldRef.current = null;
+      markFieldGone('stokes', 'polarization-off');
+    }
     logKurTelemetry(next.instrumentation.telemetry);
     if (prev) {
       releaseFrameToWorker(prev);
     }
-  }, [releaseFrameToWorker, logKurTelemetry]);
+  }, [releaseFrameToWorker, logKurTelemetry, markFieldFresh, markFieldGone]);
 
   const handleWorkerFrame = useCallback(
     (msg: WorkerFrameMessage) => {
@@ -6670,6 +7251,8 @@ export default function App() {
         kernelVersion: msg.kernelVersion ?? 0,
         meta: msg.meta,
         instrumentation: msg.instrumentation,
+        layers: msg.layers ?? null,
+        stokes: msg.stokes ?? null,
       };
       if (msg.meta && msg.meta.frameId !== msg.frameId) {
         console.warn(
@@ -6898,6 +7481,57 @@ export default function App() {
     [setGuardrailConsole],
   );
 
+  const ensureSpectralRim = useCallback(
+    (surface: SurfaceField | null): SpectralRimField | null => {
+      if (!spectralRimsEnabled || !surface) return null;
+      const cached = spectralRimRef.current;
+      if (
+        cached &&
+        cached.surface === surface &&
+        cached.bands === spectralBandCount &&
+        cached.distanceUm === spectralDistanceUm
+      ) {
+        return cached.field;
+      }
+      // One angular-spectrum pass per band; rebuilt only when the image or settings change.
+      const field = computeSpectralRimField(
+        reliefFromSurface(surface),
+        surface.resolution.width,
+        surface.resolution.height,
+        {
+          sampling: createSpectralSampling({ count: spectralBandCount }),
+          dzMeters: spectralDistanceUm * 1e-6,
+        },
+      );
+      spectralRimRef.current = {
+        surface,
+        bands: spectralBandCount,
+        distanceUm: spectralDistanceUm,
+        field,
+      };
+      setSpectralRimVersion((version) => version + 1);
+      return field;
+    },
+    [spectralRimsEnabled, spectralBandCount, spectralDistanceUm],
+  );
+
+  useEffect(() => {
+    const cached = spectralRimRef.current;
+    const rim = rimFieldRef.current;
+    if (!spectralRimsEnabled || !cached || !rim) {
+      setSpectralComparison(null);
+      return;
+    }
+    setSpectralComparison(
+      compareRimDispersion(
+        cached.field,
+        rim,
+        computeRimDispersionOffsets(lambdaRef, lambdas, beta2),
+        { edgeThreshold },
+      ),
+    );
+  }, [spectralRimsEnabled, spectralRimVersion, beta2, lambdas, edgeThreshold]);
+
   const renderFrameCore = useCallback(
     (
       out: Uint8ClampedArray,
@@ -6916,6 +7550,7 @@ export default function App() {
       if (rimField) {
         assertRimField(rimField, 'cpu:rim');
       }
+      const spectralRim = ensureSpectralRim(surfaceField);
       const volumeField = options?.volumeFieldOverride ?? volumeFieldRef.current;
       if (volumeField) {
         assertVolumeField(volumeField, 'cpu:volume');
@@ -7033,7 +7668,12 @@ export default function App() {
         guardrailOptions: guardrailOpts,
         composer,
         kurTelemetry: kurTelemetryRef.current ?? undefined,
+        kurLayers: kurLayerTelemetryRef.current ?? undefined,
         fluxOverlay: activeFluxOverlay ?? undefined,
+        spectralRim,
+        stokes: stokesFieldRef.current,
+        stokesOverlay: { mode: stokesMapMode, alpha: stokesOverlayAlpha },
+        pointSpread: zernikePointSpread,
       });
       const shouldApplyTracer = tracerRuntime.enabled && (options?.applyTracer ?? true);
       if (shouldApplyTracer) {
@@ -7120,6 +7760,10 @@ export default function App() {
       getTimelineBoolean,
       getTimelineString,
       updateTimelineForTime,
+      ensureSpectralRim,
+      stokesMapMode,
+      stokesOverlayAlpha,
+      zernikePointSpread,
     ],
   );
 
@@ -7232,11 +7876,7 @@ export default function App() {
         ? Math.pow((normTargetRef.current + eps) / (lastObsRef.current + eps), 0.5)
         : 1.0;
 
-      const baseOffsets = {
-        L: activeBeta2 * (lambdaRef / lambdas.L - 1),
-        M: activeBeta2 * (lambdaRef / lambdas.M - 1),
-        S: activeBeta2 * (lambdaRef / lambdas.S - 1),
-      } as const;
+      const baseOffsets = computeRimDispersionOffsets(lambdaRef, lambdas, activeBeta2);
 
       const jitterPhase = activeMicrosaccade ? tSeconds * 6.0 : 0.0;
       const breath = activeAlive ? 0.15 * Math.sin(2 * Math.PI * 0.55 * tSeconds) : 0.0;
@@ -7373,6 +8013,7 @@ export default function App() {
           },
           composer,
           kurTelemetry: kurTelemetryRef.current ?? undefined,
+          kurLayers: kurLayerTelemetryRef.current ?? undefined,
           fluxOverlay: activeFluxOverlay ?? undefined,
         });
         metricDebug = metricsResult.debug;
@@ -7778,18 +8419,111 @@ export default function App() {
   const advanceVolume = useCallback(
     (dt: number) => {
       if (!volumeEnabled) return;
+      const publish = (field: VolumeField, source: string) => {
+        assertVolumeField(field, source);
+        volumeFieldRef.current = field;
+        markFieldFresh('volume', field.resolution, source);
+        const capture = volumeCaptureRef.current;
+        if (capture && capture.writer.width === width && capture.writer.height === height) {
+          capture.writer.append(field, capture.clock);
+          capture.clock += dt;
+        }
+      };
+      const replay = volumeReplayRef.current;
+      if (
+        replay &&
+        replay.reader.header.width === width &&
+        replay.reader.header.height === height
+      ) {
+        // Recordings follow the timeline clock when one is active, otherwise their own.
+        replay.clock += dt;
+        const player = timelinePlayerRef.current;
+        replay.field =
+          player && timelineActiveRef.current
+            ? replay.reader.readAtTimelineFrame(
+                player,
+                player.getFrameForTime(timelineClockRef.current),
+                replay.field,
+              )
+            : replay.reader.readAtTime(replay.clock, replay.field);
+        publish(replay.field, 'volume:recording');
+        return;
+      }
+      const imported = volumeDepthRef.current;
+      if (imported && width > 0 && height > 0) {
+        // Imported depth is static; it is only re-normalised when the resolution or options change.
+        let field = imported.field;
+        if (
+          !field ||
+          imported.options !== depthVolumeOptions ||
+          field.resolution.width !== width ||
+          field.resolution.height !== height
+        ) {
+          field = depthMapToVolumeField(
+            resampleDepthMap(imported.map, width, height),
+            depthVolumeOptions,
+          );
+          imported.field = field;
+          imported.options = depthVolumeOptions;
+        }
+        publish(field, 'volume:depth');
+        return;
+      }
       ensureVolumeState();
+      const solver = volumeSolverRef.current;
+      if (solver) {
+        stepBeamPropagationVolume(solver.state, dt);
+        publish(snapshotBeamPropagationVolume(solver.state), 'volume:bpm');
+        return;
+      }
       const stub = volumeStubRef.current;
       if (!stub) return;
       stepVolumeStub(stub, dt);
-      const field = snapshotVolumeStub(stub);
-      assertVolumeField(field, 'volume:stub');
-      volumeFieldRef.current = field;
-      markFieldFresh('volume', field.resolution, 'volume:stub');
+      publish(snapshotVolumeStub(stub), 'volume:stub');
+    },
+    [volumeEnabled, width, height, ensureVolumeState, markFieldFresh, depthVolumeOptions],
+  );
+
+  const loadVolumeRecording = useCallback(async (bytes: ArrayBuffer | Uint8Array) => {
+    // CLI captures deflate their chunks; the browser inflates them once up front.
+    const reader = new VolumeRecordingReader(await inflateVolumeRecording(bytes));
+    volumeReplayRef.current = { reader, clock: 0 };
+    console.info(
+      `[volumeRecording] loaded ${reader.header.width}x${reader.header.height} frames=${reader.frameCount} precision=${reader.header.precision}`,
+    );
+    return { ...reader.header, duration: reader.duration };
+  }, []);
+
+  const clearVolumeRecording = useCallback(() => {
+    volumeReplayRef.current = null;
+    console.info('[volumeRecording] cleared');
+  }, []);
+
+  const startVolumeCapture = useCallback(
+    (options?: { precision?: VolumeRecordingPrecision; framesPerChunk?: number }) => {
+      if (width <= 0 || height <= 0) {
+        throw new Error('[volumeRecording] nothing to capture before a scene is loaded');
+      }
+      volumeCaptureRef.current = {
+        writer: new VolumeRecordingWriter({
+          width,
+          height,
+          precision: options?.precision,
+          framesPerChunk: options?.framesPerChunk,
+          metadata: { timelineHash: timelineHashRef.current },
+        }),
+        clock: 0,
+      };
     },
-    [volumeEnabled, ensureVolumeState, markFieldFresh],
+    [width, height],
   );
 
+  const stopVolumeCapture = useCallback((): Uint8Array | null => {
+    const capture = volumeCaptureRef.current;
+    volumeCaptureRef.current = null;
+    return capture ? capture.writer.finish() : null;
+  }, []);
+
   const advanceKuramoto = useCallback(
     (dt: number, tSeconds: number) => {
       if (!kurEnabled) return;
@@ -7806,12 +8540,15 @@ export default function App() {
           if (inflight < 2) {
             const frameId = workerNextFrameIdRef.current++;
             const seed = getTimelineSeed('kuramotoNoise', timelineTime);
+            const resetNoise = kurNoiseSeekRef.current !== timelineSeekRef.current;
+            kurNoiseSeekRef.current = timelineSeekRef.current;
             worker.postMessage({
               kind: 'tick',
               dt,
               timestamp: tSeconds,
               frameId,
               seed,
+              resetNoise,
               schedule: polarizationSchedule ?? null,
               componentCount: polarizationEnabled ? 2 : 1,
             });
@@ -7919,15 +8656,17 @@ export default function App() {
       const cpuDerived = createDerivedViews(cpuBuffer, width, height);
       const cpuRand = createNormalGenerator(seed);
       initKuramotoState(cpuState, qInit, cpuDerived);
+      const cpuLayers = syncMultiLayerKuramoto(cpuState, params, null, { qInit });
+      const cpuLayerPhases = cpuLayers ? createMultiLayerPhaseFields(cpuLayers).layers : null;
 
       const baselineFrames: Uint8ClampedArray[] = [];
       for (let i = 0; i < frameCount; i++) {
-        stepKuramotoState(cpuState, params, dt, cpuRand, dt * (i + 1), {
+        stepKurLattice(cpuState, cpuLayers, params, dt, cpuRand, dt * (i + 1), {
           kernel: operatorKernel,
           controls: { dmt },
           schedule: polarizationSchedule,
         });
-        deriveKuramotoFieldsCore(cpuState, cpuDerived, {
+        deriveKurLattice(cpuState, cpuLayers, cpuLayerPhases, cpuDerived, {
           kernel: operatorKernel,
           controls: { dmt },
           schedule: polarizationSchedule,
@@ -8564,6 +9303,12 @@ export default function App() {
     w.__clearTimeline = clearTimeline;
     w.__exportTimeline = exportTimeline;
     w.__getTimelineHash = () => timelineHashRef.current;
+    w.__loadVolumeRecording = loadVolumeRecording;
+    w.__clearVolumeRecording = clearVolumeRecording;
+    w.__loadOpticalTrain = loadOpticalTrain;
+    w.__clearOpticalTrain = clearOpticalTrain;
+    w.__startVolumeCapture = startVolumeCapture;
+    w.__stopVolumeCapture = stopVolumeCapture;
     return () => {
       if (w.__setFrameProfiler === setFrameProfiler) {
         delete w.__setFrameProfiler;
@@ -8598,6 +9343,24 @@ export default function App() {
       if (w.__getTimelineHash) {
         delete w.__getTimelineHash;
       }
+      if (w.__loadVolumeRecording === loadVolumeRecording) {
+        delete w.__loadVolumeRecording;
+      }
+      if (w.__clearVolumeRecording === clearVolumeRecording) {
+        delete w.__clearVolumeRecording;
+      }
+      if (w.__loadOpticalTrain === loadOpticalTrain) {
+        delete w.__loadOpticalTrain;
+      }
+      if (w.__clearOpticalTrain === clearOpticalTrain) {
+        delete w.__clearOpticalTrain;
+      }
+      if (w.__startVolumeCapture === startVolumeCapture) {
+        delete w.__startVolumeCapture;
+      }
+      if (w.__stopVolumeCapture === stopVolumeCapture) {
+        delete w.__stopVolumeCapture;
+      }
     };
   }, [
     setFrameProfiler,
@@ -8610,6 +9373,12 @@ export default function App() {
     loadTimelineFromJson,
     clearTimeline,
     exportTimeline,
+    loadVolumeRecording,
+    clearVolumeRecording,
+    startVolumeCapture,
+    stopVolumeCapture,
+    loadOpticalTrain,
+    clearOpticalTrain,
   ]);
 
   useEffect(() => {
@@ -8980,6 +9749,43 @@ export default function App() {
     [ingestImageData, uploadImageBlob],
   );
 
+  const onDepthFile = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const map = await decodeDepthMap(await file.arrayBuffer());
+      volumeDepthRef.current = { map, field: null };
+      setDepthAsset({ name: file.name, format: map.format, width: map.width, height: map.height });
+      setVolumeEnabled(true);
+    } catch (error) {
+      console.error('[depth] failed to import depth map', error);
+      volumeDepthRef.current = null;
+      setDepthAsset(null);
+    }
+  }, []);
+
+  const clearDepthMap = useCallback(() => {
+    volumeDepthRef.current = null;
+    setDepthAsset(null);
+  }, []);
+
+  const onOpticalTrainFile = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+      try {
+        if (loadOpticalTrain(await file.text(), file.name) === 0) {
+          console.warn('[optics] no OpticalTrain elements found in', file.name);
+        }
+      } catch (error) {
+        console.error('[optics] failed to load optical train', error);
+        setOpticalTrain(null);
+      }
+      event.target.value = '';
+    },
+    [loadOpticalTrain],
+  );
+
   const applyPreset = useCallback(
     (preset: Preset) => {
       pendingStaticUploadRef.current = true;
@@ -9151,6 +9957,17 @@ export default function App() {
       setPSw(kuramoto.p_sw);
       setSmallWorldSeed(kuramoto.smallWorldSeed);
       setSmallWorldDegree(kuramoto.smallWorldDegree);
+      setKurLayersEnabled(kuramoto.kurLayersEnabled ?? false);
+      setKurLayerCoupling(kuramoto.kurLayerCoupling ?? 0.4);
+      setKurLayerLag(kuramoto.kurLayerLag ?? 0);
+      setKurLayerDetune(kuramoto.kurLayerDetune ?? 0.2);
+      setPlasticityRate(kuramoto.plasticityRate ?? 0);
+      setPlasticityMode(kuramoto.plasticityMode ?? 'offset');
+      setPlasticityMax(kuramoto.plasticityMax ?? 1);
+      setNoiseModel(kuramoto.noiseModel ?? 'white');
+      setNoiseCoupling(kuramoto.noiseCoupling ?? 'additive');
+      setNoiseCorrelationTime(kuramoto.noiseCorrelationTime ?? 1);
+      setNoiseCorrelationLength(kuramoto.noiseCorrelationLength ?? 2);
       setPolarizationEnabled(kuramoto.polarizationEnabled ?? false);
       setWavePlateEnabled(kuramoto.wavePlateEnabled ?? true);
       setWavePlatePhaseDeg(kuramoto.wavePlatePhaseDeg ?? 90);
@@ -9425,6 +10242,17 @@ export default function App() {
         p_sw: pSw,
         smallWorldSeed,
         smallWorldDegree,
+        kurLayersEnabled,
+        kurLayerCoupling,
+        kurLayerLag,
+        kurLayerDetune,
+        plasticityRate,
+        plasticityMode,
+        plasticityMax,
+        noiseModel,
+        noiseCoupling,
+        noiseCorrelationTime,
+        noiseCorrelationLength,
         polarizationEnabled,
         wavePlateEnabled,
         wavePlatePhaseDeg,
@@ -9522,6 +10350,17 @@ export default function App() {
     pSw,
     smallWorldSeed,
     smallWorldDegree,
+    kurLayersEnabled,
+    kurLayerCoupling,
+    kurLayerLag,
+    kurLayerDetune,
+    plasticityRate,
+    plasticityMode,
+    plasticityMax,
+    noiseModel,
+    noiseCoupling,
+    noiseCorrelationTime,
+    noiseCorrelationLength,
     polarizationEnabled,
     wavePlateEnabled,
     wavePlatePhaseDeg,
@@ -9796,14 +10635,31 @@ export default function App() {
       updateTimelineForTime(0);
       const initialDmt = getTimelineNumber('dmt', dmt);
 
-      const localVolumeStub = volumeEnabled
-        ? createVolumeStubState(width, height, getTimelineSeed('volumeNoise', 0))
-        : null;
-      let localVolumeField =
-        volumeEnabled && localVolumeStub ? snapshotVolumeStub(localVolumeStub) : null;
+      const exportSurface = surfaceFieldRef.current;
+      let localVolumeSolver: BeamPropagationVolumeState | null = null;
+      if (
+        volumeEnabled &&
+        exportSurface &&
+        exportSurface.resolution.width === width &&
+        exportSurface.resolution.height === height
+      ) {
+        localVolumeSolver = createBeamPropagationVolume(width, height);
+        setVolumeIndexFromLuminance(localVolumeSolver, exportSurface);
+      }
+      const localVolumeStub =
+        volumeEnabled && !localVolumeSolver
+          ? createVolumeStubState(width, height, getTimelineSeed('volumeNoise', 0))
+          : null;
+      let localVolumeField = localVolumeSolver
+        ? snapshotBeamPropagationVolume(localVolumeSolver)
+        : volumeEnabled && localVolumeStub
+          ? snapshotVolumeStub(localVolumeStub)
+          : null;
 
       let localKurState: KuramotoState | null = null;
       let localDerived: ReturnType<typeof createDerivedViews> | null = null;
+      let localLayers: MultiLayerKuramotoState | null = null;
+      let localLayerPhases: PhaseField[] | null = null;
       const params = getKurParams();
       if (kurEnabled) {
         localKurState = createKuramotoState(width, height, undefined, {
@@ -9812,6 +10668,8 @@ export default function App() {
         const derivedBuffer = new ArrayBuffer(derivedBufferSize(width, height));
         localDerived = createDerivedViews(derivedBuffer, width, height);
         initKuramotoState(localKurState, qInit, localDerived);
+        localLayers = syncMultiLayerKuramoto(localKurState, params, null, { qInit });
+        localLayerPhases = localLayers ? createMultiLayerPhaseFields(localLayers).layers : null;
         deriveKuramotoFieldsCore(localKurState, localDerived, {
           kernel: kernelSpec,
           controls: { dmt: initialDmt },
@@ -9830,7 +10688,10 @@ export default function App() {
         updateTimelineForTime(tSeconds);
         const frameDmt = getTimelineNumber('dmt', dmt);
 
-        if (volumeEnabled && localVolumeStub) {
+        if (localVolumeSolver) {
+          stepBeamPropagationVolume(localVolumeSolver, dt);
+          localVolumeField = snapshotBeamPropagationVolume(localVolumeSolver);
+        } else if (volumeEnabled && localVolumeStub) {
           stepVolumeStub(localVolumeStub, dt);
           localVolumeField = snapshotVolumeStub(localVolumeStub);
         }
@@ -9838,12 +10699,12 @@ export default function App() {
         if (kurEnabled && localKurState && localDerived) {
           const frameSeed = getTimelineSeed('kuramotoNoise', tSeconds);
           const localRand = createNormalGenerator(frameSeed);
-          stepKuramotoState(localKurState, params, dt, localRand, (i + 1) * dt, {
+          stepKurLattice(localKurState, localLayers, params, dt, localRand, (i + 1) * dt, {
             kernel: kernelSpec,
             controls: { dmt: frameDmt },
             schedule: polarizationSchedule,
           });
-          deriveKuramotoFieldsCore(localKurState, localDerived, {
+          deriveKurLattice(localKurState, localLayers, localLayerPhases, localDerived, {
             kernel: kernelSpec,
             controls: { dmt: frameDmt },
             schedule: polarizationSchedule,
@@ -9965,6 +10826,10 @@ export default function App() {
     createVolumeStubState,
     snapshotVolumeStub,
     stepVolumeStub,
+    createBeamPropagationVolume,
+    setVolumeIndexFromLuminance,
+    snapshotBeamPropagationVolume,
+    stepBeamPropagationVolume,
     getKurParams,
     kurEnabled,
     createKuramotoState,
@@ -10127,6 +10992,70 @@ export default function App() {
               <label htmlFor="file-input">Upload image</label>
               <input id="file-input" type="file" accept="image/*" onChange={onFile} />
             </div>
+            <div className="control">
+              <label htmlFor="depth-input">Depth map (PNG, PGM, PFM)</label>
+              <input
+                id="depth-input"
+                type="file"
+                accept=".png,.pgm,.pfm,image/png,image/x-portable-graymap"
+                onChange={onDepthFile}
+              />
+              {depthAsset && (
+                <small>
+                  {depthAsset.name} · {depthAsset.format.toUpperCase()} {depthAsset.width}×
+                  {depthAsset.height}{' '}
+                  <button type="button" onClick={clearDepthMap}>
+                    Clear
+                  </button>
+                </small>
+              )}
+              <div className="control-row" style={{ gap: '0.5rem' }}>
+                <input
+                  type="number"
+                  step="any"
+                  aria-label="Depth near"
+                  placeholder="near (auto)"
+                  value={depthNear ?? ''}
+                  onChange={(event) => setDepthNear(parseOptionalNumber(event.target.value))}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  aria-label="Depth far"
+                  placeholder="far (auto)"
+                  value={depthFar ?? ''}
+                  onChange={(event) => setDepthFar(parseOptionalNumber(event.target.value))}
+                />
+              </div>
+              <div className="control-row" style={{ gap: '0.5rem' }}>
+                <input
+                  type="number"
+                  min={1}
+                  aria-label="Depth phase wavelength (nm)"
+                  placeholder="λ nm (no phase)"
+                  value={depthWavelength ?? ''}
+                  onChange={(event) => setDepthWavelength(parseOptionalNumber(event.target.value))}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  aria-label="Depth range (m)"
+                  title="Physical near→far span used for the phase"
+                  value={depthRange}
+                  disabled={depthWavelength == null}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (value > 0 && Number.isFinite(value)) setDepthRange(value);
+                  }}
+                />
+              </div>
+            </div>
+            <ToggleControl
+              label="Invert depth (disparity maps)"
+              value={depthInvert}
+              onChange={setDepthInvert}
+            />
             <SelectControl
               label="Preset"
               value={presetIndex.toString()}
@@ -11361,6 +12290,44 @@ export default function App() {
               step={0.01}
               onChange={handleBeta2Change}
             />
+            <ToggleControl
+              label="Spectral rims (CIE, CPU renderer)"
+              value={spectralRimsEnabled}
+              onChange={setSpectralRimsEnabled}
+            />
+            {spectralRimsEnabled ? (
+              <>
+                <SliderControl
+                  label="Spectral bands"
+                  value={spectralBandCount}
+                  min={4}
+                  max={32}
+                  step={1}
+                  onChange={(value) => setSpectralBandCount(Math.round(value))}
+                  format={(v) => `${v.toFixed(0)} (400–700 nm)`}
+                />
+                <SliderControl
+                  label="Propagation distance"
+                  value={spectralDistanceUm}
+                  min={5}
+                  max={400}
+                  step={5}
+                  onChange={setSpectralDistanceUm}
+                  format={(v) => `${v.toFixed(0)} µm`}
+                />
+                {spectralComparison ? (
+                  <small style={{ color: '#94a3b8' }}>
+                    Fringe spread L/M/S {spectralComparison.spectral.L.toFixed(2)} /{' '}
+                    {spectralComparison.spectral.M.toFixed(2)} /{' '}
+                    {spectralComparison.spectral.S.toFixed(2)} px vs heuristic{' '}
+                    {spectralComparison.heuristic.L.toFixed(2)} /{' '}
+                    {spectralComparison.heuristic.M.toFixed(2)} /{' '}
+                    {spectralComparison.heuristic.S.toFixed(2)} px (rank agreement{' '}
+                    {(spectralComparison.rankAgreement * 100).toFixed(0)}%)
+                  </small>
+                ) : null}
+              </>
+            ) : null}
             <SliderControl
               label="Rim Thickness σ"
               value={sigma}
@@ -11368,16 +12335,52 @@ export default function App() {
               max={6}
               step={0.05}
               onChange={handleSigmaChange}
+              disabled={zernikeEnabled}
             />
-            <SliderControl
-              label="Phase Jitter"
-              value={jitter}
-              min={0}
-              max={2}
-              step={0.02}
-              onChange={handleJitterChange}
+            <ToggleControl
+              label="Zernike eye PSF (replaces σ, CPU renderer)"
+              value={zernikeEnabled}
+              onChange={setZernikeEnabled}
             />
-            <SliderControl
+            {zernikeEnabled ? (
+              <>
+                <SliderControl
+                  label="Pupil diameter"
+                  value={zernikePupilMm}
+                  min={1}
+                  max={8}
+                  step={0.1}
+                  onChange={setZernikePupilMm}
+                  format={(v) => `${v.toFixed(1)} mm`}
+                />
+                {ZERNIKE_EYE_TERMS.map(({ j, label }) => (
+                  <SliderControl
+                    key={j}
+                    label={label}
+                    value={zernikeTerms[j] ?? 0}
+                    min={-1}
+                    max={1}
+                    step={0.01}
+                    onChange={(value) => setZernikeTerms((terms) => ({ ...terms, [j]: value }))}
+                    format={(v) => `${v.toFixed(2)} µm`}
+                  />
+                ))}
+                {zernikePointSpread ? (
+                  <small style={{ color: '#94a3b8' }}>
+                    Strehl ratio {zernikePointSpread.strehl.toFixed(3)}
+                  </small>
+                ) : null}
+              </>
+            ) : null}
+            <SliderControl
+              label="Phase Jitter"
+              value={jitter}
+              min={0}
+              max={2}
+              step={0.02}
+              onChange={handleJitterChange}
+            />
+            <SliderControl
               label="Contrast"
               value={contrast}
               min={0.25}
@@ -11466,6 +12469,18 @@ export default function App() {
               onChange={(v) => updateKernel({ couplingPreset: v as CouplingKernelPreset })}
               options={COUPLING_PRESET_OPTIONS}
             />
+            <SelectControl
+              label="Coupling Integrator"
+              value={kernel.couplingIntegrator ?? 'direct'}
+              onChange={(v) => updateKernel({ couplingIntegrator: v as CouplingIntegrator })}
+              options={COUPLING_INTEGRATOR_OPTIONS}
+            />
+            <SelectControl
+              label="Coupling Boundary"
+              value={kernel.couplingBoundary ?? 'periodic'}
+              onChange={(v) => updateKernel({ couplingBoundary: v as CouplingBoundary })}
+              options={COUPLING_BOUNDARY_OPTIONS}
+            />
             <SliderControl
               label="DMT Gain"
               value={dmt}
@@ -12064,6 +13079,164 @@ export default function App() {
               }}
               format={(v) => `${(v / Math.PI).toFixed(2)}π`}
             />
+            <h3 style={{ marginTop: '0.75rem' }}>Noise</h3>
+            <SelectControl
+              label="Noise model"
+              value={noiseModel}
+              onChange={(value) => {
+                markKurCustom();
+                setNoiseModel(value as KuramotoNoiseModel);
+              }}
+              options={[
+                { value: 'white', label: 'White' },
+                { value: 'ou', label: 'Coloured (OU)' },
+                { value: 'spatial', label: 'Spatially correlated' },
+              ]}
+            />
+            <SelectControl
+              label="Noise coupling"
+              value={noiseCoupling}
+              onChange={(value) => {
+                markKurCustom();
+                setNoiseCoupling(value as KuramotoNoiseCoupling);
+              }}
+              options={[
+                { value: 'additive', label: 'Additive' },
+                { value: 'multiplicative', label: 'Multiplicative' },
+              ]}
+            />
+            {noiseModel === 'ou' && (
+              <SliderControl
+                label="Correlation time τ"
+                value={noiseCorrelationTime}
+                min={0.01}
+                max={10}
+                step={0.01}
+                onChange={(value) => {
+                  markKurCustom();
+                  setNoiseCorrelationTime(value);
+                }}
+                format={(v) => `${v.toFixed(2)} s`}
+              />
+            )}
+            {noiseModel === 'spatial' && (
+              <SliderControl
+                label="Correlation length"
+                value={noiseCorrelationLength}
+                min={0}
+                max={16}
+                step={0.25}
+                onChange={(value) => {
+                  markKurCustom();
+                  setNoiseCorrelationLength(value);
+                }}
+                format={(v) => `${v.toFixed(2)} px`}
+              />
+            )}
+            <h3 style={{ marginTop: '0.75rem' }}>Plasticity</h3>
+            <SliderControl
+              label="Plasticity ε"
+              value={plasticityRate}
+              min={0}
+              max={0.5}
+              step={0.005}
+              onChange={(value) => {
+                markKurCustom();
+                setPlasticityRate(value);
+              }}
+              format={(v) => v.toFixed(3)}
+            />
+            <SelectControl
+              label="Plasticity mode"
+              value={plasticityMode}
+              onChange={(value) => {
+                markKurCustom();
+                setPlasticityMode(value as KuramotoPlasticityMode);
+              }}
+              options={[
+                { value: 'offset', label: 'Per offset' },
+                { value: 'edge', label: 'Per edge' },
+              ]}
+            />
+            <SliderControl
+              label="Plasticity bound"
+              value={plasticityMax}
+              min={0}
+              max={2}
+              step={0.05}
+              onChange={(value) => {
+                markKurCustom();
+                setPlasticityMax(value);
+              }}
+              format={(v) => v.toFixed(2)}
+            />
+            <h3 style={{ marginTop: '0.75rem' }}>Layers</h3>
+            <ToggleControl
+              label="Rim/surface populations"
+              value={kurLayersEnabled}
+              onChange={(value) => {
+                markKurCustom();
+                setKurLayersEnabled(value);
+              }}
+            />
+            <SliderControl
+              label="Inter-layer coupling K_ab"
+              value={kurLayerCoupling}
+              min={0}
+              max={2}
+              step={0.05}
+              onChange={(value) => {
+                markKurCustom();
+                setKurLayerCoupling(value);
+              }}
+              format={(v) => v.toFixed(2)}
+              disabled={!kurLayersEnabled}
+            />
+            <SliderControl
+              label="Inter-layer lag α_ab"
+              value={kurLayerLag}
+              min={-Math.PI}
+              max={Math.PI}
+              step={0.05}
+              onChange={(value) => {
+                markKurCustom();
+                setKurLayerLag(value);
+              }}
+              format={(v) => `${(v / Math.PI).toFixed(2)}π`}
+              disabled={!kurLayersEnabled}
+            />
+            <SliderControl
+              label="Surface detuning Δω"
+              value={kurLayerDetune}
+              min={-1}
+              max={1}
+              step={0.02}
+              onChange={(value) => {
+                markKurCustom();
+                setKurLayerDetune(value);
+              }}
+              format={(v) => v.toFixed(2)}
+              disabled={!kurLayersEnabled}
+            />
+            <h3 style={{ marginTop: '0.75rem' }}>Optical train</h3>
+            <div className="control">
+              <label htmlFor="optical-train-input">OpticalTrain node or manifest (JSON)</label>
+              <input
+                id="optical-train-input"
+                type="file"
+                accept="application/json,.json"
+                onChange={onOpticalTrainFile}
+              />
+              {opticalTrain && (
+                <small>
+                  {opticalTrain.name} ·{' '}
+                  {opticalTrain.elements.map((element) => element.type).join(' → ')}{' '}
+                  <button type="button" onClick={clearOpticalTrain}>
+                    Clear
+                  </button>
+                </small>
+              )}
+            </div>
             <h3 style={{ marginTop: '0.75rem' }}>Polarization</h3>
             <ToggleControl
               label="Enable polarization"
@@ -12190,6 +13363,29 @@ export default function App() {
                   format={(v) => v.toFixed(2)}
                   disabled={!polarizerEnabled}
                 />
+                <SelectControl
+                  label="Stokes map"
+                  value={stokesMapMode}
+                  onChange={(value) => setStokesMapMode(value as StokesMapMode)}
+                  options={STOKES_MAP_MODES.map((mode) => ({
+                    value: mode,
+                    label: STOKES_MAP_LABELS[mode],
+                  }))}
+                />
+                <SliderControl
+                  label="Stokes overlay"
+                  value={stokesOverlayAlpha}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onChange={setStokesOverlayAlpha}
+                  format={(v) => v.toFixed(2)}
+                />
+                <StokesMapPanel
+                  fieldRef={stokesFieldRef}
+                  versionRef={stokesVersionRef}
+                  mode={stokesMapMode}
+                />
               </>
             ) : null}
             <SliderControl
@@ -12316,6 +13512,101 @@ export default function App() {
 
           <section className="panel">
             <h2>QCD Anneal</h2>
+            <label
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.35rem',
+                color: '#94a3b8',
+                fontSize: '0.85rem',
+              }}
+            >
+              CPU update
+              <select
+                value={qcdUpdateMethod}
+                onChange={(event) => setQcdUpdateMethod(event.target.value as QcdUpdateMethod)}
+                style={{
+                  background: 'rgba(15,23,42,0.6)',
+                  border: '1px solid rgba(148,163,184,0.35)',
+                  borderRadius: '0.5rem',
+                  color: '#e2e8f0',
+                  padding: '0.35rem 0.5rem',
+                  fontSize: '0.85rem',
+                }}
+              >
+                <option value="heatbath">Heat-bath + over-relaxation</option>
+                <option value="hmc">Hybrid Monte Carlo (CPU only)</option>
+              </select>
+            </label>
+            {qcdUpdateMethod === 'hmc' ? (
+              <>
+                <label
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '0.35rem',
+                    color: '#94a3b8',
+                    fontSize: '0.85rem',
+                  }}
+                >
+                  Integrator
+                  <select
+                    value={qcdHmcIntegrator}
+                    onChange={(event) => setQcdHmcIntegrator(event.target.value as HmcIntegrator)}
+                    style={{
+                      background: 'rgba(15,23,42,0.6)',
+                      border: '1px solid rgba(148,163,184,0.35)',
+                      borderRadius: '0.5rem',
+                      color: '#e2e8f0',
+                      padding: '0.35rem 0.5rem',
+                      fontSize: '0.85rem',
+                    }}
+                  >
+                    <option value="leapfrog">Leapfrog</option>
+                    <option value="omelyan">Omelyan (2MN)</option>
+                  </select>
+                </label>
+                <SliderControl
+                  label="MD steps per trajectory"
+                  value={qcdHmcSteps}
+                  min={1}
+                  max={32}
+                  step={1}
+                  onChange={(value) => setQcdHmcSteps(Math.max(1, Math.round(value)))}
+                  format={(v) => v.toFixed(0)}
+                />
+              </>
+            ) : null}
+            <label
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.35rem',
+                color: '#94a3b8',
+                fontSize: '0.85rem',
+              }}
+            >
+              Gauge action
+              <select
+                value={qcdGaugeAction}
+                onChange={(event) => setQcdGaugeAction(event.target.value as GaugeActionKind)}
+                style={{
+                  background: 'rgba(15,23,42,0.6)',
+                  border: '1px solid rgba(148,163,184,0.35)',
+                  borderRadius: '0.5rem',
+                  color: '#e2e8f0',
+                  padding: '0.35rem 0.5rem',
+                  fontSize: '0.85rem',
+                }}
+              >
+                <option value="wilson">Wilson plaquette</option>
+                <option value="symanzik">
+                  Tree-level Symanzik (c1 = {GAUGE_ACTION_C1.symanzik.toFixed(3)}, CPU only)
+                </option>
+                <option value="iwasaki">Iwasaki (c1 = {GAUGE_ACTION_C1.iwasaki}, CPU only)</option>
+                <option value="dbw2">DBW2 (c1 = {GAUGE_ACTION_C1.dbw2}, CPU only)</option>
+              </select>
+            </label>
             <SliderControl
               label="Heatbath β"
               value={qcdBeta}
@@ -12467,6 +13758,129 @@ export default function App() {
                 </button>
               </div>
             </div>
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.4rem',
+                marginTop: '0.75rem',
+              }}
+            >
+              <SliderControl
+                label="Wilson flow time t/a²"
+                value={qcdFlowTime}
+                min={0.1}
+                max={4}
+                step={0.1}
+                onChange={setQcdFlowTime}
+                format={(v) => v.toFixed(1)}
+              />
+              <label
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '0.35rem',
+                  color: '#94a3b8',
+                  fontSize: '0.85rem',
+                }}
+              >
+                Flux overlay
+                <select
+                  value={qcdOverlaySource}
+                  onChange={(event) => setQcdOverlaySource(event.target.value as QcdOverlaySource)}
+                  style={{
+                    background: 'rgba(15,23,42,0.6)',
+                    border: '1px solid rgba(148,163,184,0.35)',
+                    borderRadius: '0.5rem',
+                    color: '#e2e8f0',
+                    padding: '0.35rem 0.5rem',
+                    fontSize: '0.85rem',
+                  }}
+                >
+                  <option value="plaquette">Plaquette energy</option>
+                  <option value="topology">Topological density (after flow, 4D only)</option>
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={handleWilsonFlow}
+                disabled={qcdRunning}
+                style={{
+                  padding: '0.4rem 0.65rem',
+                  borderRadius: '0.5rem',
+                  border: '1px solid rgba(147,197,253,0.45)',
+                  background: qcdRunning ? 'rgba(71,85,105,0.35)' : 'rgba(59,130,246,0.2)',
+                  color: '#bfdbfe',
+                  cursor: qcdRunning ? 'not-allowed' : 'pointer',
+                  fontWeight: 600,
+                }}
+              >
+                Run Wilson flow
+              </button>
+            </div>
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.4rem',
+                marginTop: '0.75rem',
+              }}
+            >
+              <SliderControl
+                label="Quark mass am"
+                value={qcdQuarkMass}
+                min={0.05}
+                max={1}
+                step={0.05}
+                onChange={setQcdQuarkMass}
+                format={(v) => v.toFixed(2)}
+              />
+              <label
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '0.35rem',
+                  color: '#94a3b8',
+                  fontSize: '0.85rem',
+                }}
+              >
+                Fermions
+                <select
+                  value={qcdFermion}
+                  onChange={(event) =>
+                    setQcdFermion(event.target.value as 'wilson' | 'clover' | 'staggered')
+                  }
+                  style={{
+                    background: 'rgba(15,23,42,0.6)',
+                    border: '1px solid rgba(148,163,184,0.35)',
+                    borderRadius: '0.5rem',
+                    color: '#e2e8f0',
+                    padding: '0.35rem 0.5rem',
+                    fontSize: '0.85rem',
+                  }}
+                >
+                  <option value="wilson">Wilson (BiCGStab)</option>
+                  <option value="clover">Wilson clover c_sw = 1 (BiCGStab)</option>
+                  <option value="staggered">Staggered (CG)</option>
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={handleQuarkPropagator}
+                disabled={qcdRunning}
+                style={{
+                  padding: '0.4rem 0.65rem',
+                  borderRadius: '0.5rem',
+                  border: '1px solid rgba(147,197,253,0.45)',
+                  background: qcdRunning ? 'rgba(71,85,105,0.35)' : 'rgba(59,130,246,0.2)',
+                  color: '#bfdbfe',
+                  cursor: qcdRunning ? 'not-allowed' : 'pointer',
+                  fontWeight: 600,
+                }}
+              >
+                Solve quark propagator
+              </button>
+            </div>
             <div
               style={{
                 display: 'flex',
@@ -12525,6 +13939,60 @@ export default function App() {
                 <div>
                   σ<sub>P</sub> {qcdObservables.plaquetteEstimate.standardError.toExponential(2)}
                 </div>
+                {qcdObservables.hmc ? (
+                  <div>
+                    HMC acceptance {(qcdObservables.hmc.acceptanceRate * 100).toFixed(0)}% · ⟨e
+                    <sup>−ΔH</sup>⟩ {qcdObservables.hmc.meanExpMinusDeltaH.toFixed(3)}
+                  </div>
+                ) : null}
+                {qcdObservables.actionDensity !== undefined ? (
+                  <div>S / (β·V) {qcdObservables.actionDensity.toFixed(4)}</div>
+                ) : null}
+                {qcdObservables.flow ? (
+                  <div>
+                    Flow t {qcdObservables.flow.flowTime.toFixed(2)} · t<sub>0</sub>{' '}
+                    {qcdObservables.flow.t0?.toFixed(3) ?? '–'} · w<sub>0</sub>{' '}
+                    {qcdObservables.flow.w0?.toFixed(3) ?? '–'} · Q{' '}
+                    {qcdObservables.flow.topologicalCharge.toFixed(3)}
+                  </div>
+                ) : null}
+                {qcdObservables.propagator ? (
+                  <div>
+                    C<sub>π</sub>(1)/C<sub>π</sub>(0){' '}
+                    {(
+                      (qcdObservables.propagator.pionCorrelator[1] ?? 0) /
+                      Math.max(qcdObservables.propagator.pionCorrelator[0] ?? 0, 1e-30)
+                    ).toExponential(2)}{' '}
+                    · {qcdObservables.propagator.iterations} it
+                  </div>
+                ) : null}
+                {qcdObservables.hadrons
+                  ? qcdObservables.hadrons.channels.map((entry) => {
+                      const analysis = entry.analysis;
+                      const effectiveMasses =
+                        analysis?.rows
+                          .map((row) => row.effectiveMass)
+                          .filter((value): value is number => value != null) ?? [];
+                      return (
+                        <div key={`hadron-${entry.channel}`}>
+                          <div>
+                            m<sub>{entry.channel === 'pion' ? 'π' : 'ρ'}</sub>{' '}
+                            {analysis?.fit
+                              ? `${analysis.fit.mass.toFixed(3)} ± ${analysis.fit.massError.toFixed(3)} · χ²/dof ${analysis.fit.chiSquaredPerDof.toFixed(2)}${analysis.fit.correlated ? '' : ' (uncorr.)'}`
+                              : '–'}{' '}
+                            · {entry.samples.length} cfg
+                          </div>
+                          {effectiveMasses.length > 1 ? (
+                            <Sparkline
+                              values={effectiveMasses}
+                              color={entry.channel === 'pion' ? '#60a5fa' : '#f472b6'}
+                              height={36}
+                            />
+                          ) : null}
+                        </div>
+                      );
+                    })
+                  : null}
                 {qcdObservables.creutzRatio ? (
                   <div>
                     χ
@@ -14300,6 +15768,64 @@ const Su7GlyphControl: React.FC<Su7GlyphControlProps> = ({
   );
 };
 
+const STOKES_MAP_LABELS: Record<StokesMapMode, string> = {
+  s0: 'S0 intensity',
+  s1: 'S1 horizontal/vertical',
+  s2: 'S2 diagonal',
+  s3: 'S3 circular',
+  dop: 'Degree of polarization',
+  ellipse: 'Ellipse (hue = orientation)',
+};
+
+const StokesMapPanel = ({
+  fieldRef,
+  versionRef,
+  mode,
+}: {
+  fieldRef: React.MutableRefObject<StokesField | null>;
+  versionRef: React.MutableRefObject<number>;
+  mode: StokesMapMode;
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    // Polls the shared refs once per animation frame and repaints only on a new Stokes update.
+    let drawnVersion = -1;
+    let animationFrame = 0;
+    const draw = () => {
+      animationFrame = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const field = fieldRef.current;
+      if (!canvas || !field || versionRef.current === drawnVersion) return;
+      drawnVersion = versionRef.current;
+      const { width, height } = field.resolution;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const image = ctx.createImageData(width, height);
+      renderStokesMap(field, image.data, mode);
+      ctx.putImageData(image, 0, 0);
+    };
+    animationFrame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [fieldRef, versionRef, mode]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        width: '160px',
+        height: '160px',
+        borderRadius: '0.6rem',
+        border: '1px solid rgba(148,163,184,0.35)',
+        background: 'rgba(15,23,42,0.35)',
+      }}
+    />
+  );
+};
+
 const PhaseHeatmapPanel = ({ snapshot }: { snapshot: PhaseHeatmapSnapshot }) => {
   const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
   useEffect(() => {
@@ -104,6 +104,11 @@ const RECOMBINE_OPTION_DEFS: ReadonlyArray<{
     labelKey: 'beamSplitter.recombine.phase',
     descriptionKey: 'beamSplitter.recombine.phase.description',
   },
+  {
+    value: 'interferometer',
+    labelKey: 'beamSplitter.recombine.interferometer',
+    descriptionKey: 'beamSplitter.recombine.interferometer.description',
+  },
 ];
 
 type BranchDiagnosticsMap = Map<string, BeamSplitterBranchMetrics>;
@@ -1,7 +1,7 @@
 import React, { useCallback, useId, useMemo, useRef, useState } from 'react';
 import { PanelFrame } from '../layout/PanelFrame';
 import type { ManifestValidationIssue } from '../../manifest/types';
-import { useMediaController } from '../../media/useMediaController';
+import { isImportableMediaFile, useMediaController } from '../../media/useMediaController';
 import {
   useControlPanels,
   useManifestStatus,
@@ -168,9 +168,7 @@ export function PresetsPanel({
     (event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
       const items = Array.from(event.dataTransfer?.files ?? []);
-      const files = items.filter(
-        (file) => file.type.startsWith('image/') || file.type.startsWith('video/'),
-      );
+      const files = items.filter(isImportableMediaFile);
       if (files.length > 0) {
         void importMedia(files);
       }
@@ -274,7 +272,7 @@ export function PresetsPanel({
               ref={mediaInputRef}
               className="hidden-input"
               type="file"
-              accept="image/*,video/*"
+              accept="image/*,video/*,.pgm,.pfm"
               multiple
               onChange={handleMediaInput}
             />
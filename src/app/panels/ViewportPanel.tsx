@@ -3,13 +3,15 @@ import { PanelFrame } from '../layout/PanelFrame';
 import { useViewportRenderer } from '../../gpu/useViewportRenderer';
 import { useMediaController } from '../../media/useMediaController';
 import { useSceneGraph } from '../../state/AppState';
-import { parseBranches } from '../../state/beamSplitter';
+import { beamSplitterConfigFromNode } from '../../optics/beamSplitterCommon';
 import type { BeamSplitterRendererConfig } from '../../optics/beamSplitterRenderer';
 import type { PhaseField, RimField } from '../../fields/contracts';
 import { useI18n } from '../../i18n/LocalizationProvider';
 
 type OverlayMode = 'source' | 'edges' | 'phase';
 
+const EMPTY_BRANCHES: BeamSplitterRendererConfig['branches'] = [];
+
 const createCanvas = (width: number, height: number): HTMLCanvasElement | null => {
   if (typeof document === 'undefined') {
     return null;
@@ -100,25 +102,12 @@ export function ViewportPanel({ onCanvasReady }: ViewportPanelProps) {
     [scene.nodes],
   );
 
-  const branchConfig = useMemo((): BeamSplitterRendererConfig['branches'] => {
-    if (!beamSplitterNode) {
-      return [];
-    }
-    const branches = parseBranches(beamSplitterNode.metadata ?? {});
-    return branches.map((branch) => ({
-      id: branch.id,
-      label: branch.label,
-      weight: branch.weight ?? 1,
-      priority: branch.priority ?? 0,
-      source: branch.source ?? 'source',
-      transformStack: branch.transformStack.map((step) => ({ ...step })),
-    }));
-  }, [beamSplitterNode]);
-
-  const recombineMode = useMemo(() => {
-    const parameter = beamSplitterNode?.parameters.find((entry) => entry.id === 'recombine');
-    return typeof parameter?.value === 'string' ? parameter.value : 'sum';
-  }, [beamSplitterNode]);
+  const splitterConfig = useMemo(
+    () => (beamSplitterNode ? beamSplitterConfigFromNode(beamSplitterNode) : null),
+    [beamSplitterNode],
+  );
+  const branchConfig = splitterConfig?.branches ?? EMPTY_BRANCHES;
+  const recombineMode = splitterConfig?.recombine ?? 'sum';
 
   const pipelineResult = useMemo(
     () => (selectedAsset ? getPipelineResult(selectedAsset.id) : undefined),
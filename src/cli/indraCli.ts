@@ -1,12 +1,25 @@
 #!/usr/bin/env node
 import { createWriteStream } from 'node:fs';
-import { readFile, writeFile } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
 import process from 'node:process';
 import { WebSocketServer } from 'ws';
 
 import { diffValues } from './utils/diff.js';
+import { encodePngRgb } from './utils/png.js';
 import { applyFrame, captureVideo, simulate } from '../runtime/services.js';
+import { KURAMOTO_INTEGRATORS, type KuramotoIntegrator } from '../kuramotoCore.js';
+import {
+  buildSweepHeatmap,
+  encodePpm,
+  parseSweepAxis,
+  renderSweepHeatmap,
+  runParameterSweep,
+  SWEEP_METRICS,
+  type SweepAxis,
+  type SweepMetric,
+  type SweepSampling,
+} from '../validation/parameterSweep.js';
 
 const exitWithError = (message: string): never => {
   console.error(message);
@@ -22,6 +35,7 @@ Commands:
   apply --input <media> --output <image> [--manifest <path>] [--preset <id>]
   simulate --input <image> --frames 120 [--manifest <path>] [--preset <id>] [--output metrics.json]
   capture --input <video> --output <video> [--manifest <path>] [--preset <id>]
+  sweep --axis K0=0:3:9 --axis alphaKur=0:1.5:9 [--out-dir sweep]
   telemetry [--port 8090] [--output metrics.jsonl]
 
 Run "indra-cli <command> --help" to learn more about a command.`);
@@ -51,6 +65,14 @@ Optional:
   --ffmpeg <path>        ffmpeg executable (default "ffmpeg")
   --ffprobe <path>       ffprobe executable (default "ffprobe")
   --bit-depth <8|10|16>  Output bit depth (default 8)
+  --depth <file>         Depth map (16-bit PNG/PGM or PFM) driving the volume field
+  --depth-near <value>   Raw depth mapped to the near plane (default: map minimum)
+  --depth-far <value>    Raw depth mapped to the far plane (default: map maximum)
+  --depth-invert         Larger raw values are nearer (disparity maps)
+  --depth-wavelength <nm>
+                         Derive volume phase from depth at this wavelength
+  --depth-range <meters> Physical near→far span used for the phase (default 1e-6)
+  --beam-splitter        Write the manifest's BeamSplitter render instead of the composer frame
   --json                 Emit metrics JSON instead of human-readable summary
 `);
 };
@@ -69,6 +91,10 @@ Optional:
   --frames <count>            Frame count (default 120)
   --dt <seconds>              Step duration (default 1/60)
   --seed <number>             Seed for Kuramoto noise (default 1337)
+  --integrator <method>       Kuramoto integrator: euler, rk4, rk45, etd (default euler)
+  --tolerance <value>         RK45 error tolerance (default 1e-4)
+  --volume <file.ivol>        Replay a volume recording into the volume field
+  --record-volume <file.ivol> Record the run's volume frames (BPM of the input unless replaying)
   --ffmpeg <path>             ffmpeg executable for input decode (default "ffmpeg")
   --ffprobe <path>            ffprobe executable (default "ffprobe")
   --output <metrics.json>     Write aggregated metrics to file
@@ -76,6 +102,31 @@ Optional:
 `);
 };
 
+const printSweepUsage = () => {
+  console.log(`indra-cli sweep
+
+Sweep Kuramoto/kernel parameters headlessly and write a canonical-JSON table plus one
+heatmap per axis pair.
+
+Required:
+  --axis <name=min:max[:steps]>  Sweep axis; repeat for more axes. Names are KuramotoParams
+                                 fields (K0, alphaKur, …) or kernel.<field> (kernel.gain, …)
+
+Optional:
+  --lhs <samples>             Latin-hypercube sampling instead of a full grid
+  --size <WxH>                Lattice size (default 24x24)
+  --steps <count>             Steps per point (default 160)
+  --dt <seconds>              Step duration (default 0.05)
+  --seed <number>             Base seed; each point derives its own (default 1337)
+  --integrator <method>       Kuramoto integrator: euler, rk4, rk45, etd (default euler)
+  --metric <name>             Heatmap metric: ${SWEEP_METRICS.join(', ')} (default orderMean)
+  --format <ppm|png>          Heatmap image format (default ppm)
+  --cell <pixels>             Heatmap pixels per cell (default 16)
+  --out-dir <path>            Output directory (default "sweep")
+  --json                      Print the table JSON to stdout
+`);
+};
+
 const printCaptureUsage = () => {
   console.log(`indra-cli capture
 
@@ -92,6 +143,7 @@ Optional:
   --ffprobe <path>       ffprobe executable (default "ffprobe")
   --frames <count>       Limit processed frames (default: all)
   --keep-temp            Keep intermediate decoded frames for inspection
+  --beam-splitter        Encode the manifest's BeamSplitter render of each frame
   --json                 Emit processing summary as JSON
 `);
 };
@@ -248,11 +300,21 @@ const handleApplyCommand = async (args: string[]) => {
     ffmpeg: string;
     ffprobe: string;
     bitDepth: 8 | 10 | 16;
+    depth?: string;
+    depthNear?: number;
+    depthFar?: number;
+    depthInvert: boolean;
+    depthWavelength?: number;
+    depthRange: number;
+    beamSplitter: boolean;
     json: boolean;
   } = {
     ffmpeg: 'ffmpeg',
     ffprobe: 'ffprobe',
     bitDepth: 8,
+    depthInvert: false,
+    depthRange: 1e-6,
+    beamSplitter: false,
     json: false,
   };
 
@@ -295,6 +357,27 @@ const handleApplyCommand = async (args: string[]) => {
         }
         break;
       }
+      case '--depth':
+        options.depth = args[++i];
+        break;
+      case '--depth-near':
+        options.depthNear = Number(args[++i]);
+        break;
+      case '--depth-far':
+        options.depthFar = Number(args[++i]);
+        break;
+      case '--depth-invert':
+        options.depthInvert = true;
+        break;
+      case '--depth-wavelength':
+        options.depthWavelength = Number(args[++i]);
+        break;
+      case '--depth-range':
+        options.depthRange = Number(args[++i]);
+        break;
+      case '--beam-splitter':
+        options.beamSplitter = true;
+        break;
       case '--json':
         options.json = true;
         break;
@@ -306,6 +389,12 @@ const handleApplyCommand = async (args: string[]) => {
   if (!options.input || !options.output) {
     exitWithError('apply requires --input and --output.');
   }
+  if (options.depthWavelength != null && !(options.depthWavelength > 0)) {
+    exitWithError('--depth-wavelength must be a positive number of nanometres');
+  }
+  if (!(options.depthRange > 0)) {
+    exitWithError('--depth-range must be a positive number of metres');
+  }
 
   const summary = await applyFrame({
     input: options.input,
@@ -315,6 +404,17 @@ const handleApplyCommand = async (args: string[]) => {
     manifest: options.manifest,
     preset: options.preset,
     bitDepth: options.bitDepth,
+    depth: options.depth,
+    depthOptions: {
+      near: options.depthNear,
+      far: options.depthFar,
+      invert: options.depthInvert,
+      phase:
+        options.depthWavelength != null
+          ? { wavelengthNm: options.depthWavelength, rangeMeters: options.depthRange }
+          : null,
+    },
+    beamSplitter: options.beamSplitter,
   });
 
   if (options.json) {
@@ -337,6 +437,12 @@ const handleApplyCommand = async (args: string[]) => {
         `         edge pixels ${summary.telemetry.metrics.edgePixelCount} | durations edge=${summary.telemetry.durations.edgeMs?.toFixed(2)}ms phase=${summary.telemetry.durations.phaseMs?.toFixed(2)}ms`,
       );
     }
+    if (summary.beamSplitter) {
+      const { nodeId, recombineMode, branches, visibility } = summary.beamSplitter;
+      console.log(
+        `         beam splitter ${nodeId} (${recombineMode}, ${branches.length} branches${visibility != null ? `, V=${visibility.toFixed(3)}` : ''})`,
+      );
+    }
   }
 };
 
@@ -353,6 +459,10 @@ const handleSimulateCommand = async (args: string[]) => {
     frames: number;
     dt: number;
     seed: number;
+    integrator?: KuramotoIntegrator;
+    tolerance?: number;
+    volume?: string;
+    recordVolume?: string;
     ffmpeg: string;
     ffprobe: string;
     output?: string;
@@ -394,6 +504,23 @@ const handleSimulateCommand = async (args: string[]) => {
       case '--seed':
         options.seed = Number(args[++i] ?? options.seed);
         break;
+      case '--integrator': {
+        const value = args[++i] as KuramotoIntegrator | undefined;
+        if (!value || !KURAMOTO_INTEGRATORS.includes(value)) {
+          exitWithError(`--integrator must be one of ${KURAMOTO_INTEGRATORS.join(', ')}`);
+        }
+        options.integrator = value;
+        break;
+      }
+      case '--tolerance':
+        options.tolerance = Number(args[++i]);
+        break;
+      case '--volume':
+        options.volume = args[++i];
+        break;
+      case '--record-volume':
+        options.recordVolume = args[++i];
+        break;
       case '--ffmpeg':
         options.ffmpeg = args[++i] ?? options.ffmpeg;
         break;
@@ -414,6 +541,9 @@ const handleSimulateCommand = async (args: string[]) => {
   if (!options.input) {
     exitWithError('simulate requires --input');
   }
+  if (options.tolerance != null && !(options.tolerance > 0)) {
+    exitWithError('--tolerance must be a positive number');
+  }
 
   const summary = await simulate({
     input: options.input,
@@ -424,6 +554,11 @@ const handleSimulateCommand = async (args: string[]) => {
     frames: options.frames,
     dt: options.dt,
     seed: options.seed,
+    integrator: options.integrator
+      ? { method: options.integrator, tolerance: options.tolerance }
+      : undefined,
+    volumeRecording: options.volume,
+    recordVolume: options.recordVolume,
   });
 
   const payload = {
@@ -444,6 +579,175 @@ const handleSimulateCommand = async (args: string[]) => {
     if (options.output) {
       console.log(`            metrics written to ${resolve(process.cwd(), options.output)}`);
     }
+    if (options.recordVolume) {
+      console.log(`            volume recorded to ${resolve(process.cwd(), options.recordVolume)}`);
+    }
+  }
+};
+
+const handleSweepCommand = async (args: string[]) => {
+  if (args.includes('--help') || args.includes('-h')) {
+    printSweepUsage();
+    process.exit(0);
+  }
+  const options: {
+    axes: SweepAxis[];
+    sampling: SweepSampling;
+    samples?: number;
+    width: number;
+    height: number;
+    steps: number;
+    dt: number;
+    seed: number;
+    integrator?: KuramotoIntegrator;
+    metric: SweepMetric;
+    format: 'ppm' | 'png';
+    cell: number;
+    outDir: string;
+    json: boolean;
+  } = {
+    axes: [],
+    sampling: 'grid',
+    width: 24,
+    height: 24,
+    steps: 160,
+    dt: 0.05,
+    seed: 1337,
+    metric: 'orderMean',
+    format: 'ppm',
+    cell: 16,
+    outDir: 'sweep',
+    json: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg) continue;
+    switch (arg) {
+      case '--axis':
+        try {
+          options.axes.push(parseSweepAxis(args[++i] ?? ''));
+        } catch (error) {
+          exitWithError((error as Error).message);
+        }
+        break;
+      case '--lhs':
+        options.sampling = 'latinHypercube';
+        options.samples = Math.max(1, Number.parseInt(args[++i] ?? '0', 10));
+        break;
+      case '--size': {
+        const match = /^(\d+)x(\d+)$/.exec(args[++i] ?? '');
+        if (!match) exitWithError('--size expects <width>x<height>');
+        options.width = Number(match![1]);
+        options.height = Number(match![2]);
+        break;
+      }
+      case '--steps':
+        options.steps = Math.max(1, Number.parseInt(args[++i] ?? '0', 10));
+        break;
+      case '--dt':
+        options.dt = Number(args[++i] ?? options.dt);
+        break;
+      case '--seed':
+        options.seed = Number(args[++i] ?? options.seed);
+        break;
+      case '--integrator': {
+        const value = args[++i] as KuramotoIntegrator | undefined;
+        if (!value || !KURAMOTO_INTEGRATORS.includes(value)) {
+          exitWithError(`--integrator must be one of ${KURAMOTO_INTEGRATORS.join(', ')}`);
+        }
+        options.integrator = value;
+        break;
+      }
+      case '--metric': {
+        const value = args[++i] as SweepMetric | undefined;
+        if (!value || !SWEEP_METRICS.includes(value)) {
+          exitWithError(`--metric must be one of ${SWEEP_METRICS.join(', ')}`);
+        }
+        options.metric = value!;
+        break;
+      }
+      case '--format': {
+        const value = args[++i];
+        if (value !== 'ppm' && value !== 'png') exitWithError('--format must be ppm or png');
+        options.format = value as 'ppm' | 'png';
+        break;
+      }
+      case '--cell':
+        options.cell = Math.max(1, Number.parseInt(args[++i] ?? '16', 10));
+        break;
+      case '--out-dir':
+        options.outDir = args[++i] ?? options.outDir;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        exitWithError(`Unknown flag "${arg}"`);
+    }
+  }
+
+  if (options.axes.length === 0) {
+    exitWithError('sweep requires at least one --axis');
+  }
+  if (!(Number.isFinite(options.dt) && options.dt > 0)) {
+    exitWithError('--dt must be a positive finite number');
+  }
+  if (!Number.isFinite(options.seed)) {
+    exitWithError('--seed must be a finite number');
+  }
+
+  const result = runParameterSweep({
+    axes: options.axes,
+    sampling: options.sampling,
+    samples: options.samples,
+    width: options.width,
+    height: options.height,
+    steps: options.steps,
+    dt: options.dt,
+    seed: options.seed,
+    integrator: options.integrator,
+    onPoint: options.json
+      ? undefined
+      : (point, index, total) => {
+          process.stdout.write(
+            `\r[sweep] ${index + 1}/${total} — |R| ${point.metrics.orderMean.toFixed(3)}   `,
+          );
+        },
+  });
+  if (!options.json) process.stdout.write('\n');
+
+  const outDir = resolve(process.cwd(), options.outDir);
+  await mkdir(outDir, { recursive: true });
+  await writeFile(join(outDir, 'sweep.json'), `${result.json}\n`, 'utf8');
+  const images: string[] = [];
+  const { axes } = result.table;
+  for (let a = 0; a < axes.length; a++) {
+    for (let b = a + 1; b < axes.length; b++) {
+      const heatmap = buildSweepHeatmap(result.table, axes[a]!.name, axes[b]!.name, options.metric);
+      const image = renderSweepHeatmap(heatmap, options.cell);
+      const bytes =
+        options.format === 'png'
+          ? encodePngRgb(image.width, image.height, image.data)
+          : encodePpm(image);
+      const file = join(
+        outDir,
+        `${options.metric}-${axes[a]!.name}-${axes[b]!.name}.${options.format}`,
+      );
+      await writeFile(file, bytes);
+      images.push(file);
+    }
+  }
+
+  if (options.json) {
+    console.log(result.json);
+  } else {
+    console.log(
+      `[sweep] ${result.table.points.length} points → ${join(outDir, 'sweep.json')} (hash ${result.hash.slice(0, 12)})`,
+    );
+    for (const file of images) {
+      console.log(`        heatmap ${file}`);
+    }
   }
 };
 
@@ -461,11 +765,13 @@ const handleCaptureCommand = async (args: string[]) => {
     ffprobe: string;
     framesLimit?: number;
     keepTemp: boolean;
+    beamSplitter: boolean;
     json: boolean;
   } = {
     ffmpeg: 'ffmpeg',
     ffprobe: 'ffprobe',
     keepTemp: false,
+    beamSplitter: false,
     json: false,
   };
 
@@ -502,6 +808,9 @@ const handleCaptureCommand = async (args: string[]) => {
       case '--keep-temp':
         options.keepTemp = true;
         break;
+      case '--beam-splitter':
+        options.beamSplitter = true;
+        break;
       case '--json':
         options.json = true;
         break;
@@ -523,6 +832,7 @@ const handleCaptureCommand = async (args: string[]) => {
     ffprobe: options.ffprobe,
     framesLimit: options.framesLimit,
     keepTemp: options.keepTemp,
+    beamSplitter: options.beamSplitter,
   });
 
   if (options.json) {
@@ -636,6 +946,9 @@ const main = async () => {
     case 'capture':
       await handleCaptureCommand(rest);
       break;
+    case 'sweep':
+      await handleSweepCommand(rest);
+      break;
     case 'telemetry':
       await runTelemetryServer(rest);
       break;
@@ -17,6 +17,7 @@ import {
   type KernelSpec,
 } from '../../kernel/kernelSpec.js';
 import type { KuramotoParams } from '../../kuramotoCore.js';
+import { coerceKuramotoLayerConfig } from '../../kuramoto/multiLayer.js';
 import { loadManifestFromJson, type ManifestLoadResultSuccess } from '../../manifest/loader.js';
 import type { ManifestPreset, SceneManifest } from '../../manifest/types.js';
 
@@ -219,6 +220,19 @@ const applyKuramotoOverrides = (preset: ManifestPreset | undefined): KuramotoPar
     smallWorldEnabled: coerceBoolean(panel.smallWorldEnabled, base.smallWorldEnabled ?? false),
     smallWorldDegree: coerceNumber(panel.smallWorldDegree, base.smallWorldDegree ?? 12),
     smallWorldSeed: coerceNumber(panel.smallWorldSeed, base.smallWorldSeed ?? 1337),
+    plasticityRate: coerceNumber(panel.plasticityRate, base.plasticityRate ?? 0),
+    plasticityMode: panel.plasticityMode === 'edge' ? 'edge' : 'offset',
+    plasticityMin: coerceNumber(panel.plasticityMin, base.plasticityMin ?? -1),
+    plasticityMax: coerceNumber(panel.plasticityMax, base.plasticityMax ?? 1),
+    noiseModel:
+      panel.noiseModel === 'ou' || panel.noiseModel === 'spatial' ? panel.noiseModel : 'white',
+    noiseCoupling: panel.noiseCoupling === 'multiplicative' ? 'multiplicative' : 'additive',
+    noiseCorrelationTime: coerceNumber(panel.noiseCorrelationTime, base.noiseCorrelationTime ?? 1),
+    noiseCorrelationLength: coerceNumber(
+      panel.noiseCorrelationLength,
+      base.noiseCorrelationLength ?? 2,
+    ),
+    layers: coerceKuramotoLayerConfig(panel.layers),
   };
 };
 
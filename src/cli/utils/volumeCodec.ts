@@ -0,0 +1,10 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+
+import type { VolumeChunkCodec } from '../../volumeRecording.js';
+
+/** zlib deflate for volume-recording chunks (Node hosts only). */
+export const deflateVolumeCodec: VolumeChunkCodec = {
+  id: 'deflate',
+  compress: (bytes) => new Uint8Array(deflateSync(bytes)),
+  decompress: (bytes) => new Uint8Array(inflateSync(bytes)),
+};
@@ -4,7 +4,7 @@ export type ImageDataLike = {
   data: Uint8ClampedArray;
 };
 
-const FIELD_KIND_LIST = ['rim', 'surface', 'phase', 'volume'] as const;
+const FIELD_KIND_LIST = ['rim', 'surface', 'phase', 'volume', 'stokes'] as const;
 export type FieldKind = (typeof FIELD_KIND_LIST)[number];
 export const FIELD_KINDS = FIELD_KIND_LIST;
 
@@ -25,6 +25,7 @@ export const FIELD_KIND_CODES: Record<FieldKind, number> = {
   surface: 1,
   phase: 2,
   volume: 3,
+  stokes: 4,
 };
 
 export const FIELD_STORAGE = {
@@ -67,6 +68,10 @@ export const CHANNEL_SEMANTICS = {
   volumePhase: 11,
   volumeDepth: 12,
   volumeIntensity: 13,
+  stokesS0: 14,
+  stokesS1: 15,
+  stokesS2: 16,
+  stokesS3: 17,
 } as const;
 export type ChannelSemantic = keyof typeof CHANNEL_SEMANTICS;
 
@@ -85,6 +90,10 @@ export const CHANNEL_DESCRIPTIONS: Record<ChannelSemantic, string> = {
   volumePhase: 'Volume phase slice',
   volumeDepth: 'Volume depth slice',
   volumeIntensity: 'Volume intensity slice',
+  stokesS0: 'Stokes S0 (total intensity)',
+  stokesS1: 'Stokes S1 (horizontal − vertical)',
+  stokesS2: 'Stokes S2 (+45° − −45°)',
+  stokesS3: 'Stokes S3 (circular)',
 };
 
 export type FieldChannelDescriptor = {
@@ -220,6 +229,23 @@ export const FIELD_CONTRACTS: Record<FieldKind, FieldContract> = {
       staleMs: 250,
     },
   },
+  stokes: {
+    kind: 'stokes',
+    label: 'StokesField',
+    storage: 'planar',
+    format: 'float32',
+    channels: [
+      { id: 's0', semantic: 'stokesS0', description: CHANNEL_DESCRIPTIONS.stokesS0, components: 1 },
+      { id: 's1', semantic: 'stokesS1', description: CHANNEL_DESCRIPTIONS.stokesS1, components: 1 },
+      { id: 's2', semantic: 'stokesS2', description: CHANNEL_DESCRIPTIONS.stokesS2, components: 1 },
+      { id: 's3', semantic: 'stokesS3', description: CHANNEL_DESCRIPTIONS.stokesS3, components: 1 },
+    ],
+    lifetime: {
+      kind: 'dynamic',
+      expectedMs: 16,
+      staleMs: 250,
+    },
+  },
 };
 
 const uppercaseSnake = (value: string) =>
@@ -378,6 +404,11 @@ export type PhaseField = {
   vort: Float32Buf;
   coh: Float32Buf;
   amp: Float32Buf;
+  /**
+   * Wrapped phase in (−π, π]. Only present on synthesised fields (e.g. phase retrieval) that
+   * are meant to seed oscillator phases; derived Kuramoto fields leave it out.
+   */
+  theta?: Float32Buf;
 };
 
 export type VolumeField = {
@@ -388,6 +419,15 @@ export type VolumeField = {
   intensity: Float32Buf;
 };
 
+export type StokesField = {
+  kind: 'stokes';
+  resolution: FieldResolution;
+  s0: Float32Buf;
+  s1: Float32Buf;
+  s2: Float32Buf;
+  s3: Float32Buf;
+};
+
 const assert = (condition: boolean, message: string): void => {
   if (!condition) {
     throw new Error(message);
@@ -426,6 +466,7 @@ export const assertPhaseField = (field: PhaseField, source: string) => {
   assertLength(field.vort, expected, 'vort', 'phase', source);
   assertLength(field.coh, expected, 'coh', 'phase', source);
   assertLength(field.amp, expected, 'amp', 'phase', source);
+  if (field.theta) assertLength(field.theta, expected, 'theta', 'phase', source);
 };
 
 export const assertVolumeField = (field: VolumeField, source: string) => {
@@ -435,11 +476,20 @@ export const assertVolumeField = (field: VolumeField, source: string) => {
   assertLength(field.intensity, expected, 'intensity', 'volume', source);
 };
 
+export const assertStokesField = (field: StokesField, source: string) => {
+  const expected = field.resolution.texels;
+  assertLength(field.s0, expected, 's0', 'stokes', source);
+  assertLength(field.s1, expected, 's1', 'stokes', source);
+  assertLength(field.s2, expected, 's2', 'stokes', source);
+  assertLength(field.s3, expected, 's3', 'stokes', source);
+};
+
 export type FieldBundle = {
   rim: RimField | null;
   surface: SurfaceField | null;
   phase: PhaseField | null;
   volume: VolumeField | null;
+  stokes?: StokesField | null;
 };
 
 export const describeImageData = (image: ImageDataLike): SurfaceField => ({
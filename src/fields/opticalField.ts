@@ -4,10 +4,23 @@ export const OPTICAL_FIELD_SCHEMA_VERSION = 3 as const;
 
 export type OpticalSpace = 'screen' | 'pupil' | 'volumeSlice';
 
-export type OpticalSolverId = 'kuramoto' | 'angularSpectrum' | 'volumeStub' | 'dispatcher' | string;
+export type OpticalSolverId =
+  | 'kuramoto'
+  | 'angularSpectrum'
+  | 'beamPropagation'
+  | 'volumeStub'
+  | 'dispatcher'
+  | string;
 
 export type PhaseReferenceKind = 'wrapped' | 'aligned';
 
+/** Position of a frame within a sampled spectrum; `wavelengthNm` is the band centre. */
+export type OpticalSpectralBand = {
+  index: number;
+  count: number;
+  bandwidthNm: number;
+};
+
 export type OpticalFieldMetadata = {
   schemaVersion: number;
   solver: OpticalSolverId;
@@ -17,6 +30,7 @@ export type OpticalFieldMetadata = {
   timestamp: number;
   dt: number;
   wavelengthNm: number;
+  spectralBand?: OpticalSpectralBand;
   pixelPitchMeters: number;
   space: OpticalSpace;
   phaseReference: PhaseReferenceKind;
@@ -39,6 +53,7 @@ export type OpticalFieldAcquireOptions = {
   dt?: number;
   timestamp?: number;
   wavelengthNm?: number;
+  spectralBand?: OpticalSpectralBand;
   pixelPitchMeters?: number;
   space?: OpticalSpace;
   phaseReference?: PhaseReferenceKind;
@@ -335,6 +350,7 @@ export class OpticalFieldManager {
       timestamp: options?.timestamp ?? defaultTimestamp(),
       dt: options?.dt ?? prev.dt ?? this.defaults.dt,
       wavelengthNm: options?.wavelengthNm ?? prev.wavelengthNm ?? this.defaults.wavelengthNm,
+      spectralBand: options?.spectralBand ?? prev.spectralBand,
       pixelPitchMeters:
         options?.pixelPitchMeters ?? prev.pixelPitchMeters ?? this.defaults.pixelPitchMeters,
       space: options?.space ?? prev.space ?? this.defaults.space,
@@ -396,6 +412,7 @@ export class OpticalFieldManager {
       timestamp: options?.timestamp ?? prev?.timestamp ?? 0,
       dt: options?.dt ?? prev?.dt ?? this.defaults.dt,
       wavelengthNm: options?.wavelengthNm ?? prev?.wavelengthNm ?? this.defaults.wavelengthNm,
+      spectralBand: options?.spectralBand ?? prev?.spectralBand,
       pixelPitchMeters:
         options?.pixelPitchMeters ?? prev?.pixelPitchMeters ?? this.defaults.pixelPitchMeters,
       space: options?.space ?? prev?.space ?? this.defaults.space,
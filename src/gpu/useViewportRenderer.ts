@@ -3,8 +3,20 @@ import {
   BeamSplitterRenderer,
   type BeamSplitterRendererConfig,
 } from '../optics/beamSplitterRenderer';
+import { CpuBeamSplitterRenderer } from '../optics/beamSplitterCpu';
+import {
+  runBeamSplitterParity,
+  type BeamSplitterFrameComparison,
+} from '../optics/beamSplitterParity';
 import { useGpuState } from '../state/AppState';
 
+declare global {
+  interface Window {
+    /** Renders the current beam-splitter frame with WebGL and the CPU backend and compares them. */
+    __runBeamSplitterParity?: (tolerance?: number) => Promise<BeamSplitterFrameComparison>;
+  }
+}
+
 const CLEAR_COLOR = { r: 0.02, g: 0.06, b: 0.12, a: 1 };
 const TARGET_REFRESH_HZ = 120;
 
@@ -27,6 +39,7 @@ export function useViewportRenderer(
   const engineRef = useRef<BeamSplitterRenderer | null>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
   const rafRef = useRef<number>(0);
+  const configRef = useRef<BeamSplitterRendererConfig | null>(null);
 
   useEffect(() => {
     if (!canvas) {
@@ -72,7 +85,43 @@ export function useViewportRenderer(
 
     renderLoop();
 
+    // Render and read back within one task: the drawing buffer is not preserved across frames.
+    const runParity = async (tolerance?: number) => {
+      if (!configRef.current) {
+        throw new Error('[gpu] beam splitter renderer has not been configured');
+      }
+      ensureCanvasSize(canvas);
+      const { width, height } = canvas;
+      const cpu = new CpuBeamSplitterRenderer({
+        loadAsset: async () => {
+          const source = engine.sourcePixels();
+          if (!source) {
+            throw new Error('[gpu] beam splitter asset has not been decoded yet');
+          }
+          return source;
+        },
+      });
+      try {
+        const comparison = await runBeamSplitterParity(
+          engine,
+          cpu,
+          { ...configRef.current, canvasWidth: width, canvasHeight: height },
+          width,
+          height,
+          tolerance,
+        );
+        console.info('[gpu] beam splitter parity', comparison);
+        return comparison;
+      } finally {
+        cpu.dispose();
+      }
+    };
+    window.__runBeamSplitterParity = runParity;
+
     return () => {
+      if (window.__runBeamSplitterParity === runParity) {
+        delete window.__runBeamSplitterParity;
+      }
       window.cancelAnimationFrame(rafRef.current);
       resizeObserver.disconnect();
       engine.dispose();
@@ -102,6 +151,7 @@ export function useViewportRenderer(
       branches: config?.branches ?? [],
       recombine: config?.recombine ?? 'sum',
     };
+    configRef.current = finalConfig;
     void engine.configure(finalConfig).catch((error: unknown) => {
       console.error('[gpu] Failed to configure beam splitter renderer', error);
     });
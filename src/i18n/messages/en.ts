@@ -43,7 +43,7 @@ const enMessages = {
   'presetsPanel.media.count.plural': '{count} media assets',
   'presetsPanel.loadManifest': 'Load manifest…',
   'presetsPanel.mediaInput.title': 'Media input',
-  'presetsPanel.mediaInput.drop': 'Drop images or videos here, or',
+  'presetsPanel.mediaInput.drop': 'Drop images, videos or depth maps here, or',
   'presetsPanel.mediaInput.drop.label': 'Drop media files here or browse to import',
   'presetsPanel.mediaInput.browse': 'Browse media…',
   'presetsPanel.mediaInput.empty':
@@ -167,6 +167,9 @@ const enMessages = {
   'beamSplitter.recombine.phase': 'Phase interference',
   'beamSplitter.recombine.phase.description':
     'Sum complex fields and resolve interference fringes.',
+  'beamSplitter.recombine.interferometer': 'Interferometer',
+  'beamSplitter.recombine.interferometer.description':
+    'Recombine branches coherently from their path lengths, tilts and polarization elements.',
   'beamSplitter.recombine.unknown': 'Unknown mode',
   'beamSplitter.summary.single': '{count} branch · {mode}',
   'beamSplitter.summary.plural': '{count} branches · {mode}',
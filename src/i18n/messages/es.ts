@@ -43,7 +43,7 @@ const esMessages = {
   'presetsPanel.media.count.plural': '{count} recursos multimedia',
   'presetsPanel.loadManifest': 'Cargar manifiesto…',
   'presetsPanel.mediaInput.title': 'Entrada multimedia',
-  'presetsPanel.mediaInput.drop': 'Suelta imágenes o videos aquí, o',
+  'presetsPanel.mediaInput.drop': 'Suelta imágenes, videos o mapas de profundidad aquí, o',
   'presetsPanel.mediaInput.drop.label': 'Suelta archivos multimedia aquí o examina para importar',
   'presetsPanel.mediaInput.browse': 'Examinar multimedia…',
   'presetsPanel.mediaInput.empty':
@@ -170,6 +170,9 @@ const esMessages = {
   'beamSplitter.recombine.phase': 'Interferencia de fase',
   'beamSplitter.recombine.phase.description':
     'Suma campos complejos y resuelve las interferencias.',
+  'beamSplitter.recombine.interferometer': 'Interferómetro',
+  'beamSplitter.recombine.interferometer.description':
+    'Recombina las ramas de forma coherente según la longitud de camino, inclinación y polarización de cada una.',
   'beamSplitter.recombine.unknown': 'Modo desconocido',
   'beamSplitter.summary.single': '{count} rama · {mode}',
   'beamSplitter.summary.plural': '{count} ramas · {mode}',
@@ -29,7 +29,8 @@ const EPS = 1e-6;
 
 const computeChangedKeys = (prev: KernelSpec, next: KernelSpec): (keyof KernelSpec)[] => {
   const keys: (keyof KernelSpec)[] = [];
-  (Object.keys(prev) as (keyof KernelSpec)[]).forEach((key) => {
+  const candidates = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof KernelSpec>;
+  candidates.forEach((key) => {
     const prevValue = prev[key];
     const nextValue = next[key];
     if (typeof prevValue === 'number' && typeof nextValue === 'number') {
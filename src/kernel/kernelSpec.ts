@@ -11,6 +11,14 @@ type KernelScalarKey = (typeof KERNEL_SCALAR_KEYS)[number];
 
 export type CouplingKernelPreset = 'dmt' | '5meo';
 
+export type CouplingIntegrator = 'direct' | 'spectral';
+
+export type CouplingBoundary = 'periodic' | 'zeroPadded';
+
+export const COUPLING_INTEGRATORS: readonly CouplingIntegrator[] = ['direct', 'spectral'];
+
+export const COUPLING_BOUNDARIES: readonly CouplingBoundary[] = ['periodic', 'zeroPadded'];
+
 export type CouplingKernelParams = {
   preset: CouplingKernelPreset;
   radius: number;
@@ -74,6 +82,10 @@ const DEFAULT_COUPLING_PRESET: CouplingKernelPreset = 'dmt';
  *  - chirality: handedness bias, radians of phase twist scaled to unit gain
  *  - transparency: normalized transmission coefficient [0,1]
  *  - couplingPreset: oscillator coupling profile (categorical)
+ *  - couplingIntegrator: evaluate the coupling stencil directly or as an FFT
+ *    convolution (optional, defaults to 'direct')
+ *  - couplingBoundary: periodic (flux-twisted) or zero-padded lattice edges
+ *    (optional, defaults to 'periodic')
  */
 export type KernelSpec = {
   gain: number;
@@ -83,6 +95,8 @@ export type KernelSpec = {
   chirality: number;
   transparency: number;
   couplingPreset: CouplingKernelPreset;
+  couplingIntegrator?: CouplingIntegrator;
+  couplingBoundary?: CouplingBoundary;
 };
 
 export type KernelSpecInit = Partial<KernelSpec>;
@@ -119,6 +133,13 @@ const sanitizeScalar = <K extends KernelScalarKey>(
 const sanitizeCouplingPreset = (preset: CouplingKernelPreset | undefined): CouplingKernelPreset =>
   preset && COUPLING_KERNEL_PRESETS[preset] ? preset : DEFAULT_COUPLING_PRESET;
 
+const sanitizeCouplingIntegrator = (
+  integrator: CouplingIntegrator | undefined,
+): CouplingIntegrator => (integrator === 'spectral' ? 'spectral' : 'direct');
+
+const sanitizeCouplingBoundary = (boundary: CouplingBoundary | undefined): CouplingBoundary =>
+  boundary === 'zeroPadded' ? 'zeroPadded' : 'periodic';
+
 const cloneCouplingParams = (params: CouplingKernelParams): CouplingKernelParams => {
   const reference = COUPLING_KERNEL_PRESETS_INTERNAL[params.preset];
   const normalization: CouplingKernelParams['normalization'] =
@@ -143,6 +164,12 @@ export const createKernelSpec = (init?: KernelSpecInit): KernelSpec => ({
   chirality: sanitizeScalar('chirality', init?.chirality),
   transparency: sanitizeScalar('transparency', init?.transparency),
   couplingPreset: sanitizeCouplingPreset(init?.couplingPreset),
+  ...(init?.couplingIntegrator != null
+    ? { couplingIntegrator: sanitizeCouplingIntegrator(init.couplingIntegrator) }
+    : {}),
+  ...(init?.couplingBoundary != null
+    ? { couplingBoundary: sanitizeCouplingBoundary(init.couplingBoundary) }
+    : {}),
 });
 
 export const clampKernelSpec = (spec: KernelSpecInit): KernelSpec => createKernelSpec(spec);
@@ -157,6 +184,8 @@ export const kernelSpecToJSON = (spec: KernelSpec): KernelSpec => ({
   chirality: spec.chirality,
   transparency: spec.transparency,
   couplingPreset: spec.couplingPreset,
+  ...(spec.couplingIntegrator != null ? { couplingIntegrator: spec.couplingIntegrator } : {}),
+  ...(spec.couplingBoundary != null ? { couplingBoundary: spec.couplingBoundary } : {}),
 });
 
 export const KERNEL_SPEC_DEFAULT: Readonly<KernelSpec> = Object.freeze(
@@ -170,6 +199,8 @@ export const getDefaultKernelSpec = (): KernelSpec => cloneKernelSpec(INTERNAL_D
 export const getKernelSpecBounds = () => ({
   scalars: { ...KERNEL_SPEC_BOUNDS },
   couplingPresets: Object.keys(COUPLING_KERNEL_PRESETS) as CouplingKernelPreset[],
+  couplingIntegrators: [...COUPLING_INTEGRATORS],
+  couplingBoundaries: [...COUPLING_BOUNDARIES],
 });
 
 export const getCouplingKernelParams = (preset: CouplingKernelPreset): CouplingKernelParams =>
@@ -0,0 +1,811 @@
+import type { KuramotoParams, KuramotoState } from '../kuramotoCore.js';
+import { mulberry32 } from '../qcd/updateCpu.js';
+
+/**
+ * Compressed sparse-row graph. Row `i` lists the nodes that pull on node `i` in
+ * `neighbors[offsets[i] .. offsets[i + 1])` with matching `weights`. Undirected inputs are
+ * stored symmetrically. `positions` is an optional embedding in `[0, 1]²` (x, y interleaved).
+ */
+export type KuramotoGraph = {
+  nodeCount: number;
+  ids: readonly string[];
+  directed: boolean;
+  offsets: Int32Array;
+  neighbors: Int32Array;
+  weights: Float32Array;
+  positions: Float32Array | null;
+};
+
+export type GraphEdge = readonly [source: number, target: number, weight?: number];
+
+export type KuramotoGraphOptions = {
+  directed?: boolean;
+  ids?: readonly string[];
+  positions?: Float32Array | null;
+};
+
+export type KuramotoGraphFormat = 'json' | 'csv';
+
+export type GraphKuramotoMethod = 'euler' | 'rk4';
+
+/** How the neighbour sum is normalised before the `K0 / 2` gain is applied. */
+export type GraphCouplingNormalization = 'degree' | 'none';
+
+export type GraphKuramotoTelemetry = {
+  step: number;
+  dt: number;
+  orderParameter: {
+    magnitude: number;
+    phase: number;
+    real: number;
+    imag: number;
+    sampleCount: number;
+  };
+  meanAmplitude: number;
+};
+
+export type GraphKuramotoState = {
+  graph: KuramotoGraph;
+  Zr: Float64Array;
+  Zi: Float64Array;
+  telemetry: GraphKuramotoTelemetry;
+};
+
+export type GraphKuramotoStepOptions = {
+  method?: GraphKuramotoMethod;
+  normalization?: GraphCouplingNormalization;
+  /** Per-node detuning added to `omega0` (length `nodeCount`). */
+  naturalFrequencies?: ArrayLike<number> | null;
+};
+
+export type HyperbolicLatticeOptions = {
+  /** Polygon sides. */
+  p: number;
+  /** Polygons meeting at each vertex; `(p − 2)(q − 2) > 4` is required. */
+  q: number;
+  /** Rings of polygons grown around the central one. */
+  depth: number;
+};
+
+const DEFAULT_SEED = 0x9e3779b9;
+const HYPERBOLIC_MAX_NODES = 200_000;
+const HYPERBOLIC_DEDUP_EPS = 1e-7;
+
+const assertNodeIndex = (node: number, nodeCount: number) => {
+  if (!Number.isInteger(node) || node < 0 || node >= nodeCount) {
+    throw new Error(`[graph] edge endpoint ${node} is outside 0..${nodeCount - 1}`);
+  }
+};
+
+/**
+ * Builds a CSR graph from an edge list. Self-loops are dropped and parallel edges are merged
+ * by summing their weights.
+ */
+export const createKuramotoGraph = (
+  nodeCount: number,
+  edges: Iterable<GraphEdge>,
+  options?: KuramotoGraphOptions,
+): KuramotoGraph => {
+  if (!Number.isInteger(nodeCount) || nodeCount < 0) {
+    throw new Error(`[graph] invalid node count ${nodeCount}`);
+  }
+  const directed = options?.directed ?? false;
+  const positions = options?.positions ?? null;
+  if (positions && positions.length !== nodeCount * 2) {
+    throw new Error(
+      `[graph] embedding has ${positions.length / 2} positions; expected ${nodeCount}`,
+    );
+  }
+  const ids = options?.ids ?? Array.from({ length: nodeCount }, (_, i) => String(i));
+  if (ids.length !== nodeCount) {
+    throw new Error(`[graph] expected ${nodeCount} node ids, got ${ids.length}`);
+  }
+  const rows: Map<number, number>[] = Array.from({ length: nodeCount }, () => new Map());
+  const add = (target: number, source: number, weight: number) => {
+    const row = rows[target]!;
+    row.set(source, (row.get(source) ?? 0) + weight);
+  };
+  for (const [source, target, rawWeight] of edges) {
+    assertNodeIndex(source, nodeCount);
+    assertNodeIndex(target, nodeCount);
+    if (source === target) continue;
+    const weight = rawWeight ?? 1;
+    if (!Number.isFinite(weight)) {
+      throw new Error(`[graph] edge ${source}→${target} has non-finite weight`);
+    }
+    // Edges are read as "source influences target".
+    add(target, source, weight);
+    if (!directed) add(source, target, weight);
+  }
+  const offsets = new Int32Array(nodeCount + 1);
+  for (let i = 0; i < nodeCount; i++) {
+    offsets[i + 1] = offsets[i]! + rows[i]!.size;
+  }
+  const neighbors = new Int32Array(offsets[nodeCount]!);
+  const weights = new Float32Array(offsets[nodeCount]!);
+  for (let i = 0; i < nodeCount; i++) {
+    const entries = Array.from(rows[i]!.entries()).sort((a, b) => a[0] - b[0]);
+    let cursor = offsets[i]!;
+    for (const [neighbor, weight] of entries) {
+      neighbors[cursor] = neighbor;
+      weights[cursor] = weight;
+      cursor++;
+    }
+  }
+  return { nodeCount, ids, directed, offsets, neighbors, weights, positions };
+};
+
+export const graphDegree = (graph: KuramotoGraph, node: number) =>
+  graph.offsets[node + 1]! - graph.offsets[node]!;
+
+export const graphEdgeCount = (graph: KuramotoGraph) =>
+  graph.directed ? graph.neighbors.length : graph.neighbors.length / 2;
+
+type NodeRegistry = {
+  ids: string[];
+  index: Map<string, number>;
+  resolve: (id: unknown) => number;
+};
+
+const createNodeRegistry = (): NodeRegistry => {
+  const ids: string[] = [];
+  const index = new Map<string, number>();
+  return {
+    ids,
+    index,
+    resolve: (id) => {
+      if (typeof id !== 'string' && typeof id !== 'number') {
+        throw new Error(`[graph] node ids must be strings or numbers, got ${typeof id}`);
+      }
+      const key = String(id).trim();
+      if (key.length === 0) throw new Error('[graph] empty node id');
+      let node = index.get(key);
+      if (node == null) {
+        node = ids.length;
+        ids.push(key);
+        index.set(key, node);
+      }
+      return node;
+    },
+  };
+};
+
+const readWeight = (value: unknown, label: string) => {
+  if (value == null || value === '') return 1;
+  const weight = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(weight)) {
+    throw new Error(`[graph] invalid weight "${String(value)}" for ${label}`);
+  }
+  return weight;
+};
+
+type JsonNode = string | number | { id: string | number; x?: number; y?: number };
+type JsonEdge =
+  | [string | number, string | number, number?]
+  | { source: string | number; target: string | number; weight?: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parses either `{ nodes?, edges, directed? }` (edges as `[s, t, w?]` tuples or
+ * `{ source, target, weight? }` objects, nodes optionally carrying `x`/`y` in `[0, 1]`),
+ * `{ adjacency: number[][] }`, or a bare edge array.
+ */
+export const parseKuramotoGraphJson = (text: string): KuramotoGraph => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`[graph] invalid JSON: ${(error as Error).message}`);
+  }
+  const doc = Array.isArray(raw) ? { edges: raw } : raw;
+  if (!isRecord(doc)) {
+    throw new Error('[graph] expected an object with "edges" or "adjacency"');
+  }
+  const directed = doc.directed === true;
+  if (Array.isArray(doc.adjacency)) {
+    const matrix = doc.adjacency as unknown[];
+    const count = matrix.length;
+    const edges: GraphEdge[] = [];
+    matrix.forEach((row, target) => {
+      if (!Array.isArray(row) || row.length !== count) {
+        throw new Error(`[graph] adjacency row ${target} must have ${count} entries`);
+      }
+      row.forEach((value, source) => {
+        const weight = readWeight(value, `adjacency[${target}][${source}]`);
+        // Undirected matrices are read from the upper triangle to avoid double counting.
+        if (weight !== 0 && (directed || source > target)) edges.push([source, target, weight]);
+      });
+    });
+    return createKuramotoGraph(count, edges, { directed });
+  }
+  if (!Array.isArray(doc.edges)) {
+    throw new Error('[graph] expected an object with "edges" or "adjacency"');
+  }
+  const registry = createNodeRegistry();
+  let positions: number[] | null = null;
+  if (Array.isArray(doc.nodes)) {
+    const nodes = doc.nodes as JsonNode[];
+    const placed = nodes.filter(
+      (node) => isRecord(node) && typeof node.x === 'number' && typeof node.y === 'number',
+    ).length;
+    if (placed > 0 && placed !== nodes.length) {
+      throw new Error('[graph] either every node or no node must carry x/y');
+    }
+    if (placed > 0) positions = [];
+    for (const node of nodes) {
+      if (isRecord(node)) {
+        registry.resolve(node.id);
+        positions?.push(node.x as number, node.y as number);
+      } else {
+        registry.resolve(node);
+      }
+    }
+  }
+  const declared = registry.ids.length;
+  const edges: GraphEdge[] = (doc.edges as JsonEdge[]).map((edge, index) => {
+    const [source, target, weight] = Array.isArray(edge)
+      ? edge
+      : isRecord(edge)
+        ? [edge.source, edge.target, edge.weight]
+        : [];
+    if (source == null || target == null) {
+      throw new Error(`[graph] edge ${index} needs a source and a target`);
+    }
+    return [
+      registry.resolve(source),
+      registry.resolve(target),
+      readWeight(weight, `edge ${index}`),
+    ];
+  });
+  if (positions && registry.ids.length !== declared) {
+    throw new Error('[graph] edges reference nodes missing from the embedded node list');
+  }
+  return createKuramotoGraph(registry.ids.length, edges, {
+    directed,
+    ids: registry.ids,
+    positions: positions ? Float32Array.from(positions) : null,
+  });
+};
+
+const CSV_HEADER = /^(source|from|src|node1|i)$/i;
+
+/**
+ * Parses a `source,target[,weight]` edge list. Blank lines and `#` comments are skipped and
+ * a leading header row is detected by its column names. Tabs, semicolons and whitespace are
+ * accepted as separators too.
+ */
+export const parseKuramotoGraphCsv = (
+  text: string,
+  options?: { directed?: boolean },
+): KuramotoGraph => {
+  const registry = createNodeRegistry();
+  const edges: GraphEdge[] = [];
+  const lines = text.split(/\r?\n/);
+  let seenRow = false;
+  lines.forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || trimmed.startsWith('#')) return;
+    const cells = trimmed.split(/\s*[,;\t]\s*|\s+/);
+    if (!seenRow) {
+      seenRow = true;
+      if (CSV_HEADER.test(cells[0] ?? '')) return;
+    }
+    if (cells.length < 2) {
+      throw new Error(`[graph] line ${lineIndex + 1}: expected "source,target[,weight]"`);
+    }
+    edges.push([
+      registry.resolve(cells[0]),
+      registry.resolve(cells[1]),
+      readWeight(cells[2], `line ${lineIndex + 1}`),
+    ]);
+  });
+  return createKuramotoGraph(registry.ids.length, edges, {
+    directed: options?.directed ?? false,
+    ids: registry.ids,
+  });
+};
+
+/** Dispatches on `format`, or sniffs JSON by its leading bracket when omitted. */
+export const parseKuramotoGraph = (
+  text: string,
+  format?: KuramotoGraphFormat,
+  options?: { directed?: boolean },
+): KuramotoGraph => {
+  const resolved = format ?? (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  return resolved === 'json' ? parseKuramotoGraphJson(text) : parseKuramotoGraphCsv(text, options);
+};
+
+/** Lays nodes out row-major on the smallest square grid that holds them. */
+export const createGridEmbedding = (nodeCount: number): Float32Array => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(nodeCount)));
+  const rows = Math.max(1, Math.ceil(nodeCount / columns));
+  const positions = new Float32Array(nodeCount * 2);
+  for (let i = 0; i < nodeCount; i++) {
+    positions[i * 2] = ((i % columns) + 0.5) / columns;
+    positions[i * 2 + 1] = (Math.floor(i / columns) + 0.5) / rows;
+  }
+  return positions;
+};
+
+/** G(n, p): every unordered pair is connected independently with probability `p`. */
+export const createErdosRenyiGraph = (
+  nodeCount: number,
+  probability: number,
+  seed = DEFAULT_SEED,
+): KuramotoGraph => {
+  const rng = mulberry32(seed);
+  const p = Math.max(0, Math.min(1, probability));
+  const edges: GraphEdge[] = [];
+  for (let i = 0; i < nodeCount; i++) {
+    for (let j = i + 1; j < nodeCount; j++) {
+      if (rng() < p) edges.push([i, j]);
+    }
+  }
+  return createKuramotoGraph(nodeCount, edges, { positions: createGridEmbedding(nodeCount) });
+};
+
+/**
+ * Preferential attachment: starts from a clique of `m + 1` nodes and attaches every new node
+ * to `m` distinct existing nodes with probability proportional to their degree.
+ */
+export const createBarabasiAlbertGraph = (
+  nodeCount: number,
+  m: number,
+  seed = DEFAULT_SEED,
+): KuramotoGraph => {
+  const attach = Math.floor(m);
+  if (attach < 1 || attach >= nodeCount) {
+    throw new Error(`[graph] Barabási–Albert needs 1 ≤ m < n, got m=${m}, n=${nodeCount}`);
+  }
+  const rng = mulberry32(seed);
+  const edges: GraphEdge[] = [];
+  // Every edge endpoint appears once here, so uniform picks are degree-proportional.
+  const endpoints: number[] = [];
+  const seedNodes = attach + 1;
+  for (let i = 0; i < seedNodes; i++) {
+    for (let j = i + 1; j < seedNodes; j++) {
+      edges.push([i, j]);
+      endpoints.push(i, j);
+    }
+  }
+  const chosen = new Set<number>();
+  for (let node = seedNodes; node < nodeCount; node++) {
+    chosen.clear();
+    while (chosen.size < attach) {
+      chosen.add(endpoints[Math.floor(rng() * endpoints.length)]!);
+    }
+    for (const target of chosen) {
+      edges.push([node, target]);
+      endpoints.push(node, target);
+    }
+  }
+  return createKuramotoGraph(nodeCount, edges, { positions: createGridEmbedding(nodeCount) });
+};
+
+type Complex = { re: number; im: number };
+
+const cdiv = (a: Complex, b: Complex): Complex => {
+  const denom = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denom,
+    im: (a.im * b.re - a.re * b.im) / denom,
+  };
+};
+
+/** Disk automorphism taking 0 to `m`: `(z + m) / (1 + m̄ z)`. */
+const mobiusFrom = (m: Complex, z: Complex): Complex =>
+  cdiv(
+    { re: z.re + m.re, im: z.im + m.im },
+    { re: 1 + m.re * z.re + m.im * z.im, im: m.re * z.im - m.im * z.re },
+  );
+
+/** Inverse of `mobiusFrom`: `(z − m) / (1 − m̄ z)`. */
+const mobiusTo = (m: Complex, z: Complex): Complex =>
+  cdiv(
+    { re: z.re - m.re, im: z.im - m.im },
+    { re: 1 - (m.re * z.re + m.im * z.im), im: -(m.re * z.im - m.im * z.re) },
+  );
+
+const hyperbolicMidpoint = (a: Complex, b: Complex): Complex => {
+  const local = mobiusTo(a, b);
+  const r = Math.hypot(local.re, local.im);
+  if (r < 1e-15) return a;
+  // Halving the hyperbolic distance: |local| = tanh(d/2) → tanh(d/4).
+  const half = (1 - Math.sqrt(Math.max(0, 1 - r * r))) / r;
+  return mobiusFrom(a, { re: (local.re / r) * half, im: (local.im / r) * half });
+};
+
+/** Half-turn about `m`; for a regular tiling it maps a tile onto its neighbour across an edge. */
+const halfTurn = (m: Complex, z: Complex): Complex => {
+  const local = mobiusTo(m, z);
+  return mobiusFrom(m, { re: -local.re, im: -local.im });
+};
+
+/** Deduplicates disk points on a hash grid whose cells are much larger than `eps`. */
+const createPointIndex = (eps: number) => {
+  const points: Complex[] = [];
+  const buckets = new Map<string, number[]>();
+  const cell = 1e-4;
+  return {
+    points,
+    findOrAdd: (z: Complex) => {
+      const cx = Math.floor(z.re / cell);
+      const cy = Math.floor(z.im / cell);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          for (const index of buckets.get(`${cx + dx},${cy + dy}`) ?? []) {
+            const v = points[index]!;
+            if (Math.hypot(v.re - z.re, v.im - z.im) < eps) return index;
+          }
+        }
+      }
+      const index = points.length;
+      points.push(z);
+      const key = `${cx},${cy}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+      return index;
+    },
+  };
+};
+
+/**
+ * Vertices and edges of the `{p, q}` hyperbolic tiling, grown tile by tile from a central
+ * `p`-gon in the Poincaré disk. The embedding maps the disk onto `[0, 1]²`. The tiling is
+ * fully determined by `(p, q, depth)`, so there is no seed.
+ */
+export const createHyperbolicLatticeGraph = ({
+  p,
+  q,
+  depth,
+}: HyperbolicLatticeOptions): KuramotoGraph => {
+  if (!Number.isInteger(p) || !Number.isInteger(q) || p < 3 || q < 3 || (p - 2) * (q - 2) <= 4) {
+    throw new Error(`[graph] {${p},${q}} is not a hyperbolic tiling; need (p−2)(q−2) > 4`);
+  }
+  const rings = Math.max(0, Math.floor(depth));
+  // Circumradius of the central tile: cosh R = cot(π/p) cot(π/q), Poincaré radius tanh(R/2).
+  const coshR = 1 / (Math.tan(Math.PI / p) * Math.tan(Math.PI / q));
+  const radius = Math.tanh(Math.acosh(coshR) / 2);
+
+  const vertices = createPointIndex(HYPERBOLIC_DEDUP_EPS);
+  const centres = createPointIndex(HYPERBOLIC_DEDUP_EPS);
+  const findOrAdd = (z: Complex) => {
+    const index = vertices.findOrAdd(z);
+    if (vertices.points.length > HYPERBOLIC_MAX_NODES) {
+      throw new Error(`[graph] {${p},${q}} depth ${rings} exceeds ${HYPERBOLIC_MAX_NODES} nodes`);
+    }
+    return index;
+  };
+
+  const edgeSet = new Set<string>();
+  const edges: GraphEdge[] = [];
+  const registerTile = (corners: Complex[]) => {
+    const indices = corners.map(findOrAdd);
+    for (let k = 0; k < p; k++) {
+      const a = indices[k]!;
+      const b = indices[(k + 1) % p]!;
+      const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+      if (!edgeSet.has(key)) {
+        edgeSet.add(key);
+        edges.push([a, b]);
+      }
+    }
+  };
+
+  const central: Complex[] = Array.from({ length: p }, (_, k) => ({
+    re: radius * Math.cos((2 * Math.PI * k) / p),
+    im: radius * Math.sin((2 * Math.PI * k) / p),
+  }));
+  centres.findOrAdd({ re: 0, im: 0 });
+  registerTile(central);
+  let frontier: { centre: Complex; corners: Complex[] }[] = [
+    { centre: { re: 0, im: 0 }, corners: central },
+  ];
+  for (let ring = 0; ring < rings; ring++) {
+    const next: typeof frontier = [];
+    for (const tile of frontier) {
+      for (let k = 0; k < p; k++) {
+        const mid = hyperbolicMidpoint(tile.corners[k]!, tile.corners[(k + 1) % p]!);
+        const centre = halfTurn(mid, tile.centre);
+        const known = centres.points.length;
+        if (centres.findOrAdd(centre) < known) continue;
+        const corners = tile.corners.map((corner) => halfTurn(mid, corner));
+        registerTile(corners);
+        next.push({ centre, corners });
+      }
+    }
+    frontier = next;
+  }
+
+  const positions = new Float32Array(vertices.points.length * 2);
+  vertices.points.forEach((v, i) => {
+    positions[i * 2] = 0.5 + 0.5 * v.re;
+    positions[i * 2 + 1] = 0.5 + 0.5 * v.im;
+  });
+  return createKuramotoGraph(vertices.points.length, edges, { positions });
+};
+
+/**
+ * Assigns every pixel to its nearest embedded node (a Voronoi rasterisation). Pixels farther
+ * than `maxDistance` (in `[0, 1]` units) from every node map to −1.
+ */
+export const createGraphPixelMap = (
+  positions: Float32Array,
+  width: number,
+  height: number,
+  maxDistance = Number.POSITIVE_INFINITY,
+): Int32Array => {
+  const nodeCount = positions.length >> 1;
+  const map = new Int32Array(width * height).fill(-1);
+  if (nodeCount === 0) return map;
+  const cells = Math.max(1, Math.ceil(Math.sqrt(nodeCount)));
+  const toCell = (v: number) => Math.max(0, Math.min(cells - 1, Math.floor(v * cells)));
+  const grid: number[][] = Array.from({ length: cells * cells }, () => []);
+  for (let i = 0; i < nodeCount; i++) {
+    grid[toCell(positions[i * 2 + 1]!) * cells + toCell(positions[i * 2]!)]!.push(i);
+  }
+  const limitSq = maxDistance * maxDistance;
+  for (let y = 0; y < height; y++) {
+    const py = (y + 0.5) / height;
+    const cy = toCell(py);
+    for (let x = 0; x < width; x++) {
+      const px = (x + 0.5) / width;
+      const cx = toCell(px);
+      let best = -1;
+      let bestSq = Number.POSITIVE_INFINITY;
+      for (let ring = 0; ring < cells; ring++) {
+        // Every node in ring r+1 or beyond is at least r / cells away.
+        const reach = Math.max(0, ring - 1) / cells;
+        if (best >= 0 && reach * reach > bestSq) break;
+        for (let gy = cy - ring; gy <= cy + ring; gy++) {
+          if (gy < 0 || gy >= cells) continue;
+          const edgeRow = gy === cy - ring || gy === cy + ring;
+          for (let gx = cx - ring; gx <= cx + ring; gx++) {
+            if (gx < 0 || gx >= cells) continue;
+            if (!edgeRow && gx !== cx - ring && gx !== cx + ring) continue;
+            for (const node of grid[gy * cells + gx]!) {
+              const dx = positions[node * 2]! - px;
+              const dy = positions[node * 2 + 1]! - py;
+              const distSq = dx * dx + dy * dy;
+              if (distSq < bestSq || (distSq === bestSq && node < best)) {
+                bestSq = distSq;
+                best = node;
+              }
+            }
+          }
+        }
+      }
+      if (best >= 0 && bestSq <= limitSq) map[y * width + x] = best;
+    }
+  }
+  return map;
+};
+
+const createGraphTelemetry = (): GraphKuramotoTelemetry => ({
+  step: 0,
+  dt: 0,
+  orderParameter: { magnitude: 0, phase: 0, real: 0, imag: 0, sampleCount: 0 },
+  meanAmplitude: 0,
+});
+
+export const createGraphKuramotoState = (graph: KuramotoGraph): GraphKuramotoState => ({
+  graph,
+  Zr: new Float64Array(graph.nodeCount),
+  Zi: new Float64Array(graph.nodeCount),
+  telemetry: createGraphTelemetry(),
+});
+
+const updateGraphTelemetry = (state: GraphKuramotoState, dt: number) => {
+  const { Zr, Zi } = state;
+  let sumR = 0;
+  let sumI = 0;
+  let ampSum = 0;
+  let samples = 0;
+  for (let i = 0; i < Zr.length; i++) {
+    const amp = Math.hypot(Zr[i]!, Zi[i]!);
+    ampSum += amp;
+    if (amp > 1e-12) {
+      sumR += Zr[i]! / amp;
+      sumI += Zi[i]! / amp;
+      samples += 1;
+    }
+  }
+  const inv = samples > 0 ? 1 / samples : 0;
+  const telemetry = state.telemetry;
+  telemetry.dt = dt;
+  telemetry.orderParameter.real = sumR * inv;
+  telemetry.orderParameter.imag = sumI * inv;
+  telemetry.orderParameter.magnitude = Math.hypot(sumR * inv, sumI * inv);
+  telemetry.orderParameter.phase = Math.atan2(sumI * inv, sumR * inv);
+  telemetry.orderParameter.sampleCount = samples;
+  telemetry.meanAmplitude = Zr.length > 0 ? ampSum / Zr.length : 0;
+};
+
+/** Unit-amplitude start: given phases, seeded uniform phases, or all-zero when neither is set. */
+export const initGraphKuramotoState = (
+  state: GraphKuramotoState,
+  init?: { phases?: ArrayLike<number>; seed?: number },
+) => {
+  const count = state.graph.nodeCount;
+  const rng = init?.seed != null ? mulberry32(init.seed) : null;
+  if (init?.phases && init.phases.length !== count) {
+    throw new Error(`[graph] expected ${count} initial phases, got ${init.phases.length}`);
+  }
+  for (let i = 0; i < count; i++) {
+    const theta = init?.phases ? init.phases[i]! : rng ? 2 * Math.PI * rng() : 0;
+    state.Zr[i] = Math.cos(theta);
+    state.Zi[i] = Math.sin(theta);
+  }
+  state.telemetry = createGraphTelemetry();
+  updateGraphTelemetry(state, 0);
+};
+
+type GraphDerivative = (
+  Zr: Float64Array,
+  Zi: Float64Array,
+  outR: Float64Array,
+  outI: Float64Array,
+) => void;
+
+/**
+ * The lattice right-hand side from `stepKuramotoState` with the neighbour sum taken over graph
+ * edges: `dZ = (iω − γ) Z + ½ K0 (e^{−iα} H − e^{iα} Z² H̄)`.
+ */
+const createGraphDerivative = (
+  graph: KuramotoGraph,
+  params: KuramotoParams,
+  options?: GraphKuramotoStepOptions,
+): GraphDerivative => {
+  const { alphaKur, gammaKur, omega0, K0 } = params;
+  const ca = Math.cos(alphaKur);
+  const sa = Math.sin(alphaKur);
+  const gain = 0.5 * K0;
+  const detuning = options?.naturalFrequencies ?? null;
+  const normalize = (options?.normalization ?? 'degree') === 'degree';
+  const { offsets, neighbors, weights } = graph;
+  const norms = new Float64Array(graph.nodeCount);
+  for (let i = 0; i < graph.nodeCount; i++) {
+    let total = 0;
+    for (let e = offsets[i]!; e < offsets[i + 1]!; e++) total += Math.abs(weights[e]!);
+    norms[i] = normalize ? (total > 0 ? 1 / total : 0) : 1;
+  }
+  return (Zr, Zi, outR, outI) => {
+    for (let i = 0; i < graph.nodeCount; i++) {
+      let Hr = 0;
+      let Hi = 0;
+      for (let e = offsets[i]!; e < offsets[i + 1]!; e++) {
+        const j = neighbors[e]!;
+        Hr += weights[e]! * Zr[j]!;
+        Hi += weights[e]! * Zi[j]!;
+      }
+      Hr *= norms[i]!;
+      Hi *= norms[i]!;
+      const zr = Zr[i]!;
+      const zi = Zi[i]!;
+      const Z2r = zr * zr - zi * zi;
+      const Z2i = 2 * zr * zi;
+      const H1r = ca * Hr + sa * Hi;
+      const H1i = -sa * Hr + ca * Hi;
+      const Tr = Z2r * Hr + Z2i * Hi;
+      const Ti = Z2i * Hr - Z2r * Hi;
+      const H2r = ca * Tr - sa * Ti;
+      const H2i = sa * Tr + ca * Ti;
+      const omega = detuning ? omega0 + detuning[i]! : omega0;
+      outR[i] = -gammaKur * zr - omega * zi + gain * (H1r - H2r);
+      outI[i] = -gammaKur * zi + omega * zr + gain * (H1i - H2i);
+    }
+  };
+};
+
+const GRAPH_SCRATCH = new WeakMap<GraphKuramotoState, Float64Array[]>();
+
+const getScratch = (state: GraphKuramotoState, count: number) => {
+  const n = state.graph.nodeCount;
+  let scratch = GRAPH_SCRATCH.get(state);
+  if (!scratch || scratch.length < count || scratch[0]!.length !== n) {
+    scratch = Array.from({ length: count }, () => new Float64Array(n));
+    GRAPH_SCRATCH.set(state, scratch);
+  }
+  return scratch;
+};
+
+/**
+ * Advances the graph oscillators by `dt` with the same parameter block and Euler–Maruyama
+ * noise convention (real then imaginary draw per node) as the lattice solver. Lattice-only
+ * parameters such as flux and small-world rewiring are ignored.
+ */
+export const stepGraphKuramotoState = (
+  state: GraphKuramotoState,
+  params: KuramotoParams,
+  dt: number,
+  randn: () => number,
+  options?: GraphKuramotoStepOptions,
+): GraphKuramotoTelemetry => {
+  const { graph, Zr, Zi } = state;
+  const n = graph.nodeCount;
+  const detuning = options?.naturalFrequencies;
+  if (detuning && detuning.length !== n) {
+    throw new Error(
+      `[graph] natural frequency field has ${detuning.length} entries; expected ${n}`,
+    );
+  }
+  const derivative = createGraphDerivative(graph, params, options);
+  const method = options?.method ?? 'euler';
+  if (method === 'rk4') {
+    const [k1r, k1i, k2r, k2i, k3r, k3i, k4r, k4i, tr, ti] = getScratch(state, 10) as [
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+      Float64Array,
+    ];
+    const stage = (kr: Float64Array, ki: Float64Array, h: number) => {
+      for (let i = 0; i < n; i++) {
+        tr[i] = Zr[i]! + h * kr[i]!;
+        ti[i] = Zi[i]! + h * ki[i]!;
+      }
+    };
+    derivative(Zr, Zi, k1r, k1i);
+    stage(k1r, k1i, 0.5 * dt);
+    derivative(tr, ti, k2r, k2i);
+    stage(k2r, k2i, 0.5 * dt);
+    derivative(tr, ti, k3r, k3i);
+    stage(k3r, k3i, dt);
+    derivative(tr, ti, k4r, k4i);
+    const sixth = dt / 6;
+    for (let i = 0; i < n; i++) {
+      Zr[i] += sixth * (k1r[i]! + 2 * k2r[i]! + 2 * k3r[i]! + k4r[i]!);
+      Zi[i] += sixth * (k1i[i]! + 2 * k2i[i]! + 2 * k3i[i]! + k4i[i]!);
+    }
+  } else if (method === 'euler') {
+    const [dr, di] = getScratch(state, 2) as [Float64Array, Float64Array];
+    derivative(Zr, Zi, dr, di);
+    for (let i = 0; i < n; i++) {
+      Zr[i] += dt * dr[i]!;
+      Zi[i] += dt * di[i]!;
+    }
+  } else {
+    throw new Error(`[graph] unsupported integrator "${String(method)}"`);
+  }
+  const noiseScale = Math.sqrt(Math.max(dt * params.epsKur, 0));
+  if (noiseScale !== 0) {
+    for (let i = 0; i < n; i++) {
+      Zr[i] += noiseScale * randn();
+      Zi[i] += noiseScale * randn();
+    }
+  }
+  state.telemetry.step += 1;
+  updateGraphTelemetry(state, dt);
+  return state.telemetry;
+};
+
+/**
+ * Writes node states onto a lattice through a pixel map from `createGraphPixelMap`, so the
+ * regular `deriveKuramotoFields` / composer path can consume graph runs. Unmapped pixels are
+ * zeroed. Every optical component receives the same node value.
+ */
+export const projectGraphToLattice = (
+  state: GraphKuramotoState,
+  pixelMap: Int32Array,
+  target: KuramotoState,
+) => {
+  const texels = target.width * target.height;
+  if (pixelMap.length !== texels) {
+    throw new Error(`[graph] pixel map has ${pixelMap.length} entries; expected ${texels}`);
+  }
+  for (const view of target.components) {
+    for (let idx = 0; idx < texels; idx++) {
+      const node = pixelMap[idx]!;
+      view.real[idx] = node >= 0 ? state.Zr[node]! : 0;
+      view.imag[idx] = node >= 0 ? state.Zi[node]! : 0;
+    }
+  }
+};
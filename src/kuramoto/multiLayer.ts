@@ -0,0 +1,576 @@
+import type { PhaseField } from '../fields/contracts.js';
+import type { KernelSpec } from '../kernel/kernelSpec.js';
+import {
+  createDerivedViews,
+  createKuramotoState,
+  deriveKuramotoFields,
+  derivedBufferSize,
+  initKuramotoState,
+  stepKuramotoState,
+  type KuramotoIntegrator,
+  type KuramotoIntegratorOptions,
+  type KuramotoParams,
+  type KuramotoState,
+  type KuramotoTelemetryRequest,
+  type KuramotoTelemetrySnapshot,
+  type ThinElementOperatorControls,
+  type ThinElementSchedule,
+} from '../kuramotoCore.js';
+import {
+  resolveNaturalFrequencyField,
+  type NaturalFrequencyInput,
+  type NaturalFrequencySources,
+} from './naturalFrequency.js';
+
+/**
+ * One oscillator population. Ids are free-form; the intended use is one layer per LMS channel
+ * or per `ComposerFieldId` (e.g. `rim` and `surface`).
+ */
+export type KuramotoLayerSpec = {
+  id: string;
+  params: KuramotoParams;
+  /** Contribution to the composed `kur` field; defaults to 1. */
+  weight?: number;
+  kernel?: KernelSpec;
+  integrator?: KuramotoIntegrator | KuramotoIntegratorOptions;
+  naturalFrequencies?: NaturalFrequencyInput | null;
+  componentCount?: number;
+};
+
+/**
+ * Inter-layer Sakaguchi coupling. `strength[a][b]` is the pull of layer `b` on layer `a` and
+ * `phaseLag[a][b]` its lag `α_ab`, so that for unit-modulus sites
+ * `dθ_a/dt ⊃ Σ_b K_ab sin(θ_b − θ_a − α_ab)`. The diagonal is ignored; intra-layer
+ * coupling stays with each layer's `K0`.
+ */
+export type InterLayerCouplingSpec = {
+  strength: readonly (readonly number[])[];
+  phaseLag?: readonly (readonly number[])[] | number;
+};
+
+/**
+ * Layer stack carried on `KuramotoParams.layers`. Entry 0 is the lattice the params already
+ * drive; each entry's `params` override the base params for that layer only.
+ */
+export type KuramotoLayerConfig = {
+  layers: readonly { id: string; weight?: number; params?: Partial<KuramotoParams> }[];
+  coupling?: InterLayerCouplingSpec | null;
+};
+
+export type KuramotoLayer = {
+  id: string;
+  state: KuramotoState;
+  params: KuramotoParams;
+  weight: number;
+  kernel?: KernelSpec;
+  integrator?: KuramotoIntegrator | KuramotoIntegratorOptions;
+  naturalFrequencies: Float32Array | null;
+};
+
+export type KuramotoLayerTelemetry = {
+  id: string;
+  weight: number;
+  telemetry: KuramotoTelemetrySnapshot;
+};
+
+/** Site-averaged phase locking `|⟨u_a ū_b⟩|` between two layers and its mean offset. */
+export type InterLayerLockingTelemetry = {
+  source: string;
+  target: string;
+  strength: number;
+  phaseLag: number;
+  locking: number;
+  phaseOffset: number;
+};
+
+export type MultiLayerKuramotoTelemetry = {
+  layers: KuramotoLayerTelemetry[];
+  pairs: InterLayerLockingTelemetry[];
+};
+
+export type MultiLayerKuramotoState = {
+  width: number;
+  height: number;
+  layers: KuramotoLayer[];
+  /** Row-major `N × N` strengths, `coupling[a · N + b] = K_ab`. */
+  coupling: Float64Array;
+  phaseLag: Float64Array;
+  telemetry: MultiLayerKuramotoTelemetry;
+};
+
+/** `kernel` applies to layers without their own; `schedule` applies to every layer. */
+export type MultiLayerStepOptions = {
+  controls?: ThinElementOperatorControls;
+  telemetry?: KuramotoTelemetryRequest;
+  kernel?: KernelSpec;
+  schedule?: ThinElementSchedule;
+};
+
+export type MultiLayerSyncOptions = {
+  /** Twist for companion layers created by the sync; defaults to 0. */
+  qInit?: number;
+  /** Detuning for layer 0, which otherwise has none. */
+  naturalFrequencies?: Float32Array | null;
+};
+
+export type MultiLayerPhaseFields = {
+  layers: PhaseField[];
+  composite: PhaseField;
+};
+
+const DELTA_CACHE = new WeakMap<MultiLayerKuramotoState, Float64Array>();
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  value != null && Number.isFinite(value) ? value : fallback;
+
+const readMatrix = (
+  label: string,
+  matrix: readonly (readonly number[])[],
+  count: number,
+  out: Float64Array,
+) => {
+  if (matrix.length !== count) {
+    throw new Error(`[multiLayer] ${label} matrix has ${matrix.length} rows; expected ${count}`);
+  }
+  for (let a = 0; a < count; a++) {
+    const row = matrix[a]!;
+    if (row.length !== count) {
+      throw new Error(
+        `[multiLayer] ${label} row ${a} has ${row.length} entries; expected ${count}`,
+      );
+    }
+    for (let b = 0; b < count; b++) {
+      out[a * count + b] = a === b ? 0 : finiteOr(row[b], 0);
+    }
+  }
+};
+
+/** Validates an inter-layer spec against `count` layers and returns flat row-major matrices. */
+export const resolveInterLayerCoupling = (
+  count: number,
+  spec?: InterLayerCouplingSpec | null,
+): { coupling: Float64Array; phaseLag: Float64Array } => {
+  const coupling = new Float64Array(count * count);
+  const phaseLag = new Float64Array(count * count);
+  if (!spec) return { coupling, phaseLag };
+  readMatrix('coupling', spec.strength, count, coupling);
+  if (typeof spec.phaseLag === 'number') {
+    const lag = finiteOr(spec.phaseLag, 0);
+    for (let a = 0; a < count; a++) {
+      for (let b = 0; b < count; b++) {
+        if (a !== b) phaseLag[a * count + b] = lag;
+      }
+    }
+  } else if (spec.phaseLag) {
+    readMatrix('phase lag', spec.phaseLag, count, phaseLag);
+  }
+  return { coupling, phaseLag };
+};
+
+const createPairTelemetry = (layers: readonly KuramotoLayer[]): InterLayerLockingTelemetry[] => {
+  const pairs: InterLayerLockingTelemetry[] = [];
+  for (let a = 0; a < layers.length; a++) {
+    for (let b = a + 1; b < layers.length; b++) {
+      pairs.push({
+        source: layers[a]!.id,
+        target: layers[b]!.id,
+        strength: 0,
+        phaseLag: 0,
+        locking: 0,
+        phaseOffset: 0,
+      });
+    }
+  }
+  return pairs;
+};
+
+const buildMultiLayerKuramoto = (
+  width: number,
+  height: number,
+  specs: readonly KuramotoLayerSpec[],
+  coupling: InterLayerCouplingSpec | null | undefined,
+  sources: NaturalFrequencySources | undefined,
+  primary: KuramotoState | null,
+): MultiLayerKuramotoState => {
+  if (specs.length === 0) {
+    throw new Error('[multiLayer] at least one layer is required');
+  }
+  const seen = new Set<string>();
+  const layers = specs.map((spec, index): KuramotoLayer => {
+    if (seen.has(spec.id)) {
+      throw new Error(`[multiLayer] duplicate layer id "${spec.id}"`);
+    }
+    seen.add(spec.id);
+    return {
+      id: spec.id,
+      state:
+        index === 0 && primary
+          ? primary
+          : createKuramotoState(width, height, { componentCount: spec.componentCount }),
+      params: spec.params,
+      weight: Math.max(0, finiteOr(spec.weight, 1)),
+      kernel: spec.kernel,
+      integrator: spec.integrator,
+      naturalFrequencies: resolveNaturalFrequencyField(
+        width,
+        height,
+        spec.naturalFrequencies,
+        sources,
+      ),
+    };
+  });
+  const matrices = resolveInterLayerCoupling(layers.length, coupling);
+  return {
+    width,
+    height,
+    layers,
+    coupling: matrices.coupling,
+    phaseLag: matrices.phaseLag,
+    telemetry: {
+      layers: layers.map((layer) => ({
+        id: layer.id,
+        weight: layer.weight,
+        telemetry: layer.state.telemetry,
+      })),
+      pairs: createPairTelemetry(layers),
+    },
+  };
+};
+
+export const createMultiLayerKuramoto = (
+  width: number,
+  height: number,
+  specs: readonly KuramotoLayerSpec[],
+  coupling?: InterLayerCouplingSpec | null,
+  sources?: NaturalFrequencySources,
+): MultiLayerKuramotoState =>
+  buildMultiLayerKuramoto(width, height, specs, coupling, sources, null);
+
+/**
+ * Keeps the stack configured by `params.layers` in step with `primary`, which becomes layer 0.
+ * Companion layers survive parameter edits and are re-created only when the ids, size or
+ * component count change. Returns null when fewer than two layers are configured.
+ */
+export const syncMultiLayerKuramoto = (
+  primary: KuramotoState,
+  params: KuramotoParams,
+  previous: MultiLayerKuramotoState | null,
+  options?: MultiLayerSyncOptions,
+): MultiLayerKuramotoState | null => {
+  const config = params.layers;
+  if (!config || config.layers.length < 2) return null;
+  const specs = config.layers.map(
+    (layer): KuramotoLayerSpec => ({
+      id: layer.id,
+      weight: layer.weight,
+      params: { ...params, ...layer.params },
+      componentCount: primary.componentCount,
+    }),
+  );
+  const reusable =
+    previous !== null &&
+    previous.width === primary.width &&
+    previous.height === primary.height &&
+    previous.layers.length === specs.length &&
+    previous.layers.every(
+      (layer, index) =>
+        layer.id === specs[index]!.id && layer.state.componentCount === primary.componentCount,
+    );
+  let state: MultiLayerKuramotoState;
+  if (reusable) {
+    state = previous;
+    state.layers[0]!.state = primary;
+    state.telemetry.layers[0]!.telemetry = primary.telemetry;
+    setInterLayerCoupling(state, config.coupling ?? null);
+  } else {
+    state = buildMultiLayerKuramoto(
+      primary.width,
+      primary.height,
+      specs,
+      config.coupling,
+      undefined,
+      primary,
+    );
+    state.layers.slice(1).forEach((layer) => initKuramotoState(layer.state, options?.qInit ?? 0));
+  }
+  state.layers.forEach((layer, index) => {
+    layer.params = specs[index]!.params;
+    layer.weight = Math.max(0, finiteOr(specs[index]!.weight, 1));
+  });
+  state.layers[0]!.naturalFrequencies = options?.naturalFrequencies ?? null;
+  return state;
+};
+
+/**
+ * Reads a layer stack from untrusted JSON (presets, manifests). Malformed stacks, duplicate
+ * ids and coupling matrices of the wrong shape yield undefined; non-numeric overrides are dropped.
+ */
+export const coerceKuramotoLayerConfig = (value: unknown): KuramotoLayerConfig | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as { layers?: unknown; coupling?: unknown };
+  if (!Array.isArray(raw.layers) || raw.layers.length < 2) return undefined;
+  const layers: KuramotoLayerConfig['layers'][number][] = [];
+  const seen = new Set<string>();
+  for (const entry of raw.layers as unknown[]) {
+    if (!entry || typeof entry !== 'object') return undefined;
+    const { id, weight, params } = entry as { id?: unknown; weight?: unknown; params?: unknown };
+    if (typeof id !== 'string' || id.length === 0 || seen.has(id)) return undefined;
+    seen.add(id);
+    const overrides: Record<string, number> = {};
+    if (params && typeof params === 'object') {
+      for (const [key, override] of Object.entries(params)) {
+        if (typeof override === 'number' && Number.isFinite(override)) overrides[key] = override;
+      }
+    }
+    layers.push({
+      id,
+      weight: typeof weight === 'number' && Number.isFinite(weight) ? weight : undefined,
+      params: overrides as Partial<KuramotoParams>,
+    });
+  }
+  const coupling = raw.coupling as InterLayerCouplingSpec | null | undefined;
+  if (coupling != null) {
+    try {
+      resolveInterLayerCoupling(layers.length, coupling);
+    } catch {
+      return undefined;
+    }
+  }
+  return { layers, coupling: coupling ?? null };
+};
+
+export const setInterLayerCoupling = (
+  state: MultiLayerKuramotoState,
+  spec: InterLayerCouplingSpec | null,
+) => {
+  const matrices = resolveInterLayerCoupling(state.layers.length, spec);
+  state.coupling.set(matrices.coupling);
+  state.phaseLag.set(matrices.phaseLag);
+};
+
+export const getKuramotoLayer = (state: MultiLayerKuramotoState, id: string) =>
+  state.layers.find((layer) => layer.id === id) ?? null;
+
+/** Seeds every layer with a twisted state; `q` may be given per layer. */
+export const initMultiLayerKuramoto = (
+  state: MultiLayerKuramotoState,
+  q: number | readonly number[],
+  phase?: PhaseField,
+) => {
+  state.layers.forEach((layer, index) => {
+    const layerQ = typeof q === 'number' ? q : (q[index] ?? 0);
+    initKuramotoState(layer.state, layerQ, phase);
+  });
+};
+
+/**
+ * Explicit Euler kick of the inter-layer term, evaluated Jacobi-style from the pre-step
+ * fields: `dZ_a = ½ (H_a − Z_a² H̄_a)` with `H_a = Σ_b K_ab e^{−iα_ab} Z_b`, the same
+ * Ott–Antonsen form the intra-layer flux operator uses. Components pair by index, falling
+ * back to component 0 when a layer has fewer.
+ */
+const applyInterLayerCoupling = (state: MultiLayerKuramotoState, dt: number) => {
+  const { layers, coupling, phaseLag } = state;
+  const count = layers.length;
+  const texels = state.width * state.height;
+  let active = false;
+  for (let i = 0; i < coupling.length; i++) {
+    if (coupling[i] !== 0) {
+      active = true;
+      break;
+    }
+  }
+  if (!active) return;
+
+  const maxComponents = layers.reduce((acc, layer) => Math.max(acc, layer.state.componentCount), 1);
+  const stride = 2 * texels * maxComponents;
+  let deltas = DELTA_CACHE.get(state);
+  if (!deltas || deltas.length !== stride * count) {
+    deltas = new Float64Array(stride * count);
+    DELTA_CACHE.set(state, deltas);
+  }
+
+  for (let a = 0; a < count; a++) {
+    const target = layers[a]!.state;
+    const base = a * stride;
+    for (let c = 0; c < target.componentCount; c++) {
+      const view = target.components[c]!;
+      for (let idx = 0; idx < texels; idx++) {
+        let Hr = 0;
+        let Hi = 0;
+        for (let b = 0; b < count; b++) {
+          const strength = coupling[a * count + b]!;
+          if (strength === 0) continue;
+          const source = layers[b]!.state;
+          const sourceView = source.components[c] ?? source.components[0]!;
+          const Zr = sourceView.real[idx];
+          const Zi = sourceView.imag[idx];
+          const lag = phaseLag[a * count + b]!;
+          const cl = Math.cos(lag);
+          const sl = Math.sin(lag);
+          Hr += strength * (cl * Zr + sl * Zi);
+          Hi += strength * (cl * Zi - sl * Zr);
+        }
+        const Zr = view.real[idx];
+        const Zi = view.imag[idx];
+        const Z2r = Zr * Zr - Zi * Zi;
+        const Z2i = 2 * Zr * Zi;
+        // Z² · conj(H)
+        const Tr = Z2r * Hr + Z2i * Hi;
+        const Ti = Z2i * Hr - Z2r * Hi;
+        const offset = base + 2 * (c * texels + idx);
+        deltas[offset] = 0.5 * dt * (Hr - Tr);
+        deltas[offset + 1] = 0.5 * dt * (Hi - Ti);
+      }
+    }
+  }
+
+  for (let a = 0; a < count; a++) {
+    const target = layers[a]!.state;
+    const base = a * stride;
+    for (let c = 0; c < target.componentCount; c++) {
+      const view = target.components[c]!;
+      for (let idx = 0; idx < texels; idx++) {
+        const offset = base + 2 * (c * texels + idx);
+        view.real[idx] += deltas[offset]!;
+        view.imag[idx] += deltas[offset + 1]!;
+      }
+    }
+  }
+};
+
+const updatePairTelemetry = (state: MultiLayerKuramotoState) => {
+  const { layers, coupling, phaseLag } = state;
+  const count = layers.length;
+  const texels = state.width * state.height;
+  let pairIndex = 0;
+  for (let a = 0; a < count; a++) {
+    const viewA = layers[a]!.state.components[0]!;
+    for (let b = a + 1; b < count; b++) {
+      const viewB = layers[b]!.state.components[0]!;
+      let sumR = 0;
+      let sumI = 0;
+      let samples = 0;
+      for (let idx = 0; idx < texels; idx++) {
+        const ar = viewA.real[idx];
+        const ai = viewA.imag[idx];
+        const br = viewB.real[idx];
+        const bi = viewB.imag[idx];
+        const norm = Math.hypot(ar, ai) * Math.hypot(br, bi);
+        if (norm <= 1e-12) continue;
+        // u_a · conj(u_b)
+        sumR += (ar * br + ai * bi) / norm;
+        sumI += (ai * br - ar * bi) / norm;
+        samples += 1;
+      }
+      const pair = state.telemetry.pairs[pairIndex++]!;
+      const inv = samples > 0 ? 1 / samples : 0;
+      pair.strength = 0.5 * (coupling[a * count + b]! + coupling[b * count + a]!);
+      pair.phaseLag = phaseLag[a * count + b]!;
+      pair.locking = Math.hypot(sumR * inv, sumI * inv);
+      pair.phaseOffset = Math.atan2(sumI * inv, sumR * inv);
+    }
+  }
+};
+
+/**
+ * Advances every layer by `dt`. The inter-layer term is Lie-split ahead of the per-layer
+ * steps so each layer's own integrator, detuning and noise run unchanged and its telemetry
+ * reflects the coupled state. Layers draw noise from `randn` in layer order.
+ */
+export const stepMultiLayerKuramoto = (
+  state: MultiLayerKuramotoState,
+  dt: number,
+  randn: () => number,
+  timestamp?: number,
+  options?: MultiLayerStepOptions,
+): MultiLayerKuramotoTelemetry => {
+  applyInterLayerCoupling(state, dt);
+  state.layers.forEach((layer, index) => {
+    stepKuramotoState(layer.state, layer.params, dt, randn, timestamp, {
+      kernel: layer.kernel ?? options?.kernel,
+      schedule: options?.schedule,
+      controls: options?.controls,
+      telemetry: options?.telemetry,
+      integrator: layer.integrator,
+      naturalFrequencies: layer.naturalFrequencies,
+    });
+    const entry = state.telemetry.layers[index]!;
+    entry.weight = layer.weight;
+    entry.telemetry = layer.state.telemetry;
+  });
+  updatePairTelemetry(state);
+  return state.telemetry;
+};
+
+export const createMultiLayerPhaseFields = (
+  state: MultiLayerKuramotoState,
+): MultiLayerPhaseFields => {
+  const { width, height } = state;
+  const allocate = () =>
+    createDerivedViews(new ArrayBuffer(derivedBufferSize(width, height)), width, height);
+  return {
+    layers: state.layers.map(allocate),
+    composite: allocate(),
+  };
+};
+
+/**
+ * Blends per-layer derived fields into the single phase field consumed by the `kur` composer
+ * field, weighting each layer by its `weight`. Zero total weight leaves `out` zeroed.
+ */
+export const composeLayerPhaseFields = (
+  state: MultiLayerKuramotoState,
+  phases: readonly PhaseField[],
+  out: PhaseField,
+): PhaseField => {
+  if (phases.length !== state.layers.length) {
+    throw new Error(
+      `[multiLayer] expected ${state.layers.length} phase fields, got ${phases.length}`,
+    );
+  }
+  const channels = ['gradX', 'gradY', 'vort', 'coh', 'amp'] as const;
+  for (const channel of channels) out[channel].fill(0);
+  const totalWeight = state.layers.reduce((acc, layer) => acc + layer.weight, 0);
+  if (totalWeight <= 0) return out;
+  state.layers.forEach((layer, index) => {
+    if (layer.weight === 0) return;
+    const phase = phases[index]!;
+    const w = layer.weight / totalWeight;
+    for (const channel of channels) {
+      const src = phase[channel];
+      const dst = out[channel];
+      for (let i = 0; i < dst.length; i++) dst[i] += w * src[i];
+    }
+  });
+  return out;
+};
+
+/**
+ * Runs `deriveKuramotoFields` for every layer with its own params and kernel, then composes
+ * the weighted `kur` field into `fields.composite`.
+ */
+export const deriveMultiLayerKuramotoFields = (
+  state: MultiLayerKuramotoState,
+  fields: MultiLayerPhaseFields,
+  options?: Pick<MultiLayerStepOptions, 'controls' | 'kernel' | 'schedule'>,
+): PhaseField => {
+  state.layers.forEach((layer, index) => {
+    const phase = fields.layers[index];
+    if (!phase) {
+      throw new Error(`[multiLayer] missing phase field for layer "${layer.id}"`);
+    }
+    if (phase.resolution.width !== state.width || phase.resolution.height !== state.height) {
+      throw new Error(
+        `[multiLayer] phase field for "${layer.id}" is ${phase.resolution.width}x${phase.resolution.height}; expected ${state.width}x${state.height}`,
+      );
+    }
+    deriveKuramotoFields(layer.state, phase, {
+      params: layer.params,
+      kernel: layer.kernel ?? options?.kernel,
+      controls: options?.controls,
+      schedule: options?.schedule,
+    });
+  });
+  return composeLayerPhaseFields(state, fields.layers, fields.composite);
+};
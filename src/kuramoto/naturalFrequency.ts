@@ -0,0 +1,237 @@
+import type { PhaseField, SurfaceField } from '../fields/contracts.js';
+import { mulberry32 } from '../qcd/updateCpu.js';
+
+export type NaturalFrequencyDistribution =
+  | 'uniform'
+  | 'lorentzian'
+  | 'gaussian'
+  | 'bimodal'
+  | 'surface'
+  | 'phase';
+
+export const NATURAL_FREQUENCY_DISTRIBUTIONS: readonly NaturalFrequencyDistribution[] = [
+  'uniform',
+  'lorentzian',
+  'gaussian',
+  'bimodal',
+  'surface',
+  'phase',
+];
+
+export type SurfaceFrequencyChannel = 'luminance' | 'r' | 'g' | 'b' | 'alpha';
+export type PhaseFrequencyChannel = 'coh' | 'amp' | 'vort';
+
+/**
+ * Per-site natural-frequency distribution. Every variant describes the detuning `δω_i`
+ * that is added to the scalar `omega0`, so `{ kind: 'uniform' }` reproduces the
+ * homogeneous lattice.
+ *  - lorentzian: Cauchy samples with half-width `width`, truncated at `±cutoff`
+ *    (default `8 · width`) so explicit integrators stay usable
+ *  - gaussian: normal samples with standard deviation `sigma`
+ *  - bimodal: two Gaussian peaks at `±separation / 2` with standard deviation `sigma`
+ *  - surface / phase: a channel of the supplied field mapped linearly onto `[min, max]`
+ */
+export type NaturalFrequencySpec =
+  | { kind: 'uniform' }
+  | { kind: 'lorentzian'; width: number; cutoff?: number; seed?: number }
+  | { kind: 'gaussian'; sigma: number; seed?: number }
+  | { kind: 'bimodal'; separation: number; sigma?: number; seed?: number }
+  | { kind: 'surface'; min: number; max: number; channel?: SurfaceFrequencyChannel }
+  | { kind: 'phase'; min: number; max: number; channel?: PhaseFrequencyChannel };
+
+export type NaturalFrequencySources = {
+  surface?: SurfaceField | null;
+  phase?: PhaseField | null;
+};
+
+/** Either a spec to materialise or an already materialised per-site detuning field. */
+export type NaturalFrequencyInput = NaturalFrequencySpec | Float32Array;
+
+export type NaturalFrequencyStats = {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+};
+
+const DEFAULT_SEED = 0x5eed;
+const LORENTZIAN_CUTOFF_WIDTHS = 8;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  value != null && Number.isFinite(value) ? value : fallback;
+
+const openUnit = (rng: () => number) => {
+  let u = 0;
+  while (u === 0) u = rng();
+  return u;
+};
+
+const gaussian = (rng: () => number) =>
+  Math.sqrt(-2 * Math.log(openUnit(rng))) * Math.cos(2 * Math.PI * rng());
+
+const assertResolution = (
+  label: string,
+  resolution: { width: number; height: number },
+  width: number,
+  height: number,
+) => {
+  if (resolution.width !== width || resolution.height !== height) {
+    throw new Error(
+      `[naturalFrequency] ${label} field is ${resolution.width}x${resolution.height}; expected ${width}x${height}`,
+    );
+  }
+};
+
+const sampleSurfaceChannel = (
+  rgba: ArrayLike<number>,
+  index: number,
+  channel: SurfaceFrequencyChannel,
+) => {
+  const base = index * 4;
+  switch (channel) {
+    case 'r':
+      return rgba[base] / 255;
+    case 'g':
+      return rgba[base + 1] / 255;
+    case 'b':
+      return rgba[base + 2] / 255;
+    case 'alpha':
+      return rgba[base + 3] / 255;
+    default:
+      // Rec. 709 relative luminance on the stored (display-referred) values.
+      return (0.2126 * rgba[base] + 0.7152 * rgba[base + 1] + 0.0722 * rgba[base + 2]) / 255;
+  }
+};
+
+const samplePhaseChannel = (phase: PhaseField, index: number, channel: PhaseFrequencyChannel) => {
+  switch (channel) {
+    case 'amp':
+      return clamp(phase.amp[index], 0, 1);
+    case 'vort':
+      // Vorticity is signed; map [-π, π] onto [0, 1].
+      return clamp(0.5 + phase.vort[index] / (2 * Math.PI), 0, 1);
+    default:
+      return clamp(phase.coh[index], 0, 1);
+  }
+};
+
+/**
+ * Materialises a per-site detuning field (length `width · height`) from a distribution
+ * spec. Random distributions are reproducible for a given seed and resolution; field-derived
+ * distributions require the matching source in `sources`.
+ */
+export const createNaturalFrequencyField = (
+  width: number,
+  height: number,
+  spec: NaturalFrequencySpec,
+  sources?: NaturalFrequencySources,
+): Float32Array => {
+  const texels = width * height;
+  const field = new Float32Array(texels);
+  switch (spec.kind) {
+    case 'uniform':
+      return field;
+    case 'lorentzian': {
+      const rng = mulberry32(finiteOr(spec.seed, DEFAULT_SEED));
+      const halfWidth = Math.max(0, finiteOr(spec.width, 0));
+      const cutoff = Math.max(0, finiteOr(spec.cutoff, LORENTZIAN_CUTOFF_WIDTHS * halfWidth));
+      for (let i = 0; i < texels; i++) {
+        const value = halfWidth * Math.tan(Math.PI * (openUnit(rng) - 0.5));
+        field[i] = clamp(value, -cutoff, cutoff);
+      }
+      return field;
+    }
+    case 'gaussian': {
+      const rng = mulberry32(finiteOr(spec.seed, DEFAULT_SEED));
+      const sigma = Math.max(0, finiteOr(spec.sigma, 0));
+      for (let i = 0; i < texels; i++) {
+        field[i] = sigma * gaussian(rng);
+      }
+      return field;
+    }
+    case 'bimodal': {
+      const rng = mulberry32(finiteOr(spec.seed, DEFAULT_SEED));
+      const half = 0.5 * finiteOr(spec.separation, 0);
+      const sigma = Math.max(0, finiteOr(spec.sigma, 0));
+      for (let i = 0; i < texels; i++) {
+        const centre = rng() < 0.5 ? -half : half;
+        field[i] = centre + sigma * gaussian(rng);
+      }
+      return field;
+    }
+    case 'surface': {
+      const surface = sources?.surface;
+      if (!surface) {
+        throw new Error('[naturalFrequency] surface distribution requires a SurfaceField');
+      }
+      assertResolution('surface', surface.resolution, width, height);
+      const channel = spec.channel ?? 'luminance';
+      const span = spec.max - spec.min;
+      for (let i = 0; i < texels; i++) {
+        field[i] = spec.min + span * sampleSurfaceChannel(surface.rgba, i, channel);
+      }
+      return field;
+    }
+    case 'phase': {
+      const phase = sources?.phase;
+      if (!phase) {
+        throw new Error('[naturalFrequency] phase distribution requires a PhaseField');
+      }
+      assertResolution('phase', phase.resolution, width, height);
+      const channel = spec.channel ?? 'coh';
+      const span = spec.max - spec.min;
+      for (let i = 0; i < texels; i++) {
+        field[i] = spec.min + span * samplePhaseChannel(phase, i, channel);
+      }
+      return field;
+    }
+    default:
+      throw new Error(
+        `[naturalFrequency] unknown distribution "${(spec as { kind?: string }).kind}"`,
+      );
+  }
+};
+
+/**
+ * Accepts either a spec or a ready-made field (e.g. computed on the main thread and posted to
+ * the worker) and returns a field sized for `width × height`, or null for the homogeneous
+ * lattice.
+ */
+export const resolveNaturalFrequencyField = (
+  width: number,
+  height: number,
+  input: NaturalFrequencyInput | null | undefined,
+  sources?: NaturalFrequencySources,
+): Float32Array | null => {
+  if (!input) return null;
+  if (input instanceof Float32Array) {
+    if (input.length !== width * height) {
+      throw new Error(
+        `[naturalFrequency] field has ${input.length} entries; expected ${width * height}`,
+      );
+    }
+    return input;
+  }
+  if (input.kind === 'uniform') return null;
+  return createNaturalFrequencyField(width, height, input, sources);
+};
+
+export const summarizeNaturalFrequencies = (field: ArrayLike<number>): NaturalFrequencyStats => {
+  const count = field.length;
+  if (count === 0) return { mean: 0, std: 0, min: 0, max: 0 };
+  let sum = 0;
+  let sumSq = 0;
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < count; i++) {
+    const value = field[i];
+    sum += value;
+    sumSq += value * value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const mean = sum / count;
+  return { mean, std: Math.sqrt(Math.max(0, sumSq / count - mean * mean)), min, max };
+};
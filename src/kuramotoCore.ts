@@ -14,9 +14,13 @@ import {
   KERNEL_SPEC_DEFAULT,
   COUPLING_KERNEL_PRESETS,
   cloneKernelSpec,
+  type CouplingBoundary,
   type CouplingKernelParams,
   type KernelSpec,
 } from './kernel/kernelSpec.js';
+import type { KuramotoLayerConfig } from './kuramoto/multiLayer.js';
+import { fft2d, nextFastLength } from './math/fft.js';
+import { applyOpticalElement, type OpticalElementSpec } from './optics/elements.js';
 export type { PhaseField, VolumeField } from './fields/contracts.js';
 
 const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
@@ -104,12 +108,113 @@ const getSmallWorldRewiring = (
 
 export const IRRADIANCE_FRAME_SCHEMA_VERSION = 1 as const;
 
+export type KuramotoIntegrator = 'euler' | 'rk4' | 'rk45' | 'etd';
+
+export const KURAMOTO_INTEGRATORS: readonly KuramotoIntegrator[] = ['euler', 'rk4', 'rk45', 'etd'];
+
+/**
+ * Time integrator for the Ott–Antonsen envelope.
+ *  - euler: single explicit in-place sweep (default, matches the historical path)
+ *  - rk4: classical fourth-order Runge–Kutta over the whole lattice
+ *  - rk45: Dormand–Prince 5(4) with embedded error control and adaptive sub-steps
+ *  - etd: second-order exponential time differencing (ETD2RK) that integrates the
+ *    linear damping/rotation term `(-gammaKur + i·omega0)·Z` exactly
+ * Noise is added once per `dt` as an Euler–Maruyama increment for every method.
+ */
+export type KuramotoIntegratorOptions = {
+  method: KuramotoIntegrator;
+  /** RK45 absolute and relative tolerance on the per-site error estimate. */
+  tolerance?: number;
+  /** Upper bound on RK45 attempts (accepted + rejected) within one `dt`. */
+  maxSubsteps?: number;
+  /** RK45 sub-steps shorter than this fraction of `dt` are accepted regardless of error. */
+  minStepFraction?: number;
+};
+
+export type KuramotoIntegratorTelemetry = {
+  method: KuramotoIntegrator;
+  substeps: number;
+  rejections: number;
+  /**
+   * RK45 sub-steps accepted with an error estimate above tolerance because the `maxSubsteps`
+   * budget ran out (the rest of `dt` is then taken in one step) or the step hit `minStepFraction`.
+   */
+  forcedAcceptances: number;
+  acceptedDt: number;
+  errorEstimate: number;
+};
+
+export type KuramotoPlasticityMode = 'offset' | 'edge';
+
+export const KURAMOTO_PLASTICITY_MODES: readonly KuramotoPlasticityMode[] = ['offset', 'edge'];
+
+/**
+ * Learned multipliers on the coupling stencil taps. `edge` stores one weight per site and tap
+ * (`weights[idx · taps + tap]`), `offset` one weight per tap shared by every site. A field only
+ * applies to the stencil it was learned on (`kernelKey`) and forces the direct coupling sum,
+ * since per-edge weights cannot be folded into the spectral kernel.
+ */
+export type KuramotoPlasticityField = {
+  mode: KuramotoPlasticityMode;
+  kernelKey: string;
+  taps: number;
+  width: number;
+  height: number;
+  weights: Float32Array;
+};
+
+export type KuramotoPlasticitySnapshot = KuramotoPlasticityField;
+
+export type KuramotoPlasticityTelemetry = {
+  mode: KuramotoPlasticityMode | 'off';
+  rate: number;
+  mean: number;
+  variance: number;
+  min: number;
+  max: number;
+};
+
+export type KuramotoNoiseModel = 'white' | 'ou' | 'spatial';
+
+export const KURAMOTO_NOISE_MODELS: readonly KuramotoNoiseModel[] = ['white', 'ou', 'spatial'];
+
+export type KuramotoNoiseCoupling = 'additive' | 'multiplicative';
+
+export const KURAMOTO_NOISE_COUPLINGS: readonly KuramotoNoiseCoupling[] = [
+  'additive',
+  'multiplicative',
+];
+
+/**
+ * Persistent noise buffers. `colour` holds the Ornstein–Uhlenbeck process per site, component
+ * and quadrature (packed like the integrator state) and is re-drawn from its stationary law
+ * whenever `primed` is cleared, e.g. by `initKuramotoState` or `resetKuramotoNoise`.
+ */
+export type KuramotoNoiseState = {
+  increments: Float32Array;
+  colour: Float32Array | null;
+  primed: boolean;
+  blur: Float32Array | null;
+};
+
+export type KuramotoNoiseTelemetry = {
+  model: KuramotoNoiseModel | 'off';
+  coupling: KuramotoNoiseCoupling;
+  correlationTime: number;
+  correlationLength: number;
+  /** RMS magnitude of the complex increment applied per site and component this step. */
+  rms: number;
+};
+
 export type KuramotoTelemetrySnapshot = {
   frameId: number;
   timestamp: number;
   dt: number;
   kernelVersion: number;
   kernel: KernelSpec;
+  integrator: KuramotoIntegratorTelemetry;
+  plasticity: KuramotoPlasticityTelemetry;
+  noise: KuramotoNoiseTelemetry;
   orderParameter: {
     magnitude: number;
     phase: number;
@@ -185,7 +290,8 @@ export type ThinElementOperatorStep =
       recombine?: BeamSplitRecombine;
       label?: string;
     }
-  | PolarizationOperatorStep;
+  | PolarizationOperatorStep
+  | OpticalElementStep;
 
 export type ThinElementSchedule = readonly ThinElementOperatorStep[];
 
@@ -208,6 +314,36 @@ export type KuramotoParams = {
   smallWorldEnabled?: boolean;
   smallWorldDegree?: number;
   smallWorldSeed?: number;
+  /**
+   * Hebbian rate `ε` in `dK/dt = ε · (cos Δθ − K)` for the stencil weights. Zero or unset
+   * freezes any learned field; it is only cleared by `restoreKuramotoPlasticity(state, null)`.
+   */
+  plasticityRate?: number;
+  /**
+   * Defaults to `offset`, one weight per stencil tap. `edge` learns `width · height · taps`
+   * weights, which wide kernels (e.g. high DMT radii) make very large.
+   */
+  plasticityMode?: KuramotoPlasticityMode;
+  /** Bounds on the learned multipliers; default `[-1, 1]`, the range of `cos Δθ`. */
+  plasticityMin?: number;
+  plasticityMax?: number;
+  /**
+   * Temporal/spatial structure of the `epsKur` forcing; defaults to `white`. Every model draws
+   * from the step's `randn` in lattice order, so seeding it per frame from
+   * `deriveSeedFromHash(hash, 'kuramotoNoise', frame)` keeps noisy runs bit-reproducible.
+   */
+  noiseModel?: KuramotoNoiseModel;
+  /** `additive` (default) adds `dW`; `multiplicative` adds `Z · dW`. */
+  noiseCoupling?: KuramotoNoiseCoupling;
+  /** Ornstein–Uhlenbeck correlation time `τ` in seconds (default 1). */
+  noiseCorrelationTime?: number;
+  /** Gaussian correlation length in pixels for the `spatial` model (default 2). */
+  noiseCorrelationLength?: number;
+  /**
+   * Companion populations stepped with this lattice as layer 0; see
+   * `syncMultiLayerKuramoto`. Ignored by `stepKuramotoState` itself.
+   */
+  layers?: KuramotoLayerConfig;
 };
 
 export type KuramotoState = {
@@ -221,6 +357,8 @@ export type KuramotoState = {
   Zi: Float32Array;
   telemetry: KuramotoTelemetrySnapshot;
   irradiance: IrradianceFrameBuffer;
+  plasticity?: KuramotoPlasticityField | null;
+  noise?: KuramotoNoiseState | null;
 };
 
 export type ThinElementOperatorOptions = {
@@ -229,6 +367,12 @@ export type ThinElementOperatorOptions = {
   schedule?: ThinElementSchedule;
   params?: KuramotoParams;
   telemetry?: KuramotoTelemetryRequest;
+  integrator?: KuramotoIntegrator | KuramotoIntegratorOptions;
+  /**
+   * Per-site detuning `δω_i` added to `omega0` (length `width · height`); see
+   * `kuramoto/naturalFrequency.ts` for the distribution builders.
+   */
+  naturalFrequencies?: Float32Array | null;
 };
 
 type OperatorGains = {
@@ -278,6 +422,13 @@ export type PolarizationOperatorStep = {
   label?: string;
 };
 
+/** Multiplies the field by a compiled element mask (see `optics/elements`). */
+export type OpticalElementStep = {
+  kind: 'element';
+  spec: OpticalElementSpec;
+  label?: string;
+};
+
 export type KuramotoStateOptions = {
   componentCount?: number;
 };
@@ -351,7 +502,10 @@ const computeRotationDiagRotation = (
   return sanitizeMatrix({ m00, m01, m10, m11 });
 };
 
-const resolvePolarizationMatrix = (spec: PolarizationTransformSpec): PolarizationMatrix | null => {
+/** Jones matrix of a polarization spec in the (component 0, component 1) = (x, y) basis. */
+export const resolvePolarizationMatrix = (
+  spec: PolarizationTransformSpec,
+): PolarizationMatrix | null => {
   switch (spec.type) {
     case 'wavePlate': {
       const half = 0.5 * spec.phaseDelayRad;
@@ -502,6 +656,186 @@ const getCouplingKernelTable = (params: CouplingKernelParams): CouplingKernelTab
   return table;
 };
 
+const resolveCouplingKernelTable = (kernel: KernelSpec) =>
+  getCouplingKernelTable(
+    COUPLING_KERNEL_PRESETS[kernel.couplingPreset] ?? COUPLING_KERNEL_PRESETS.dmt,
+  );
+
+type SpectralCouplingKernel = {
+  key: string;
+  width: number;
+  height: number;
+  real: Float64Array;
+  imag: Float64Array;
+};
+
+type SpectralCouplingPlane = {
+  real: Float32Array;
+  imag: Float32Array;
+};
+
+const SPECTRAL_KERNEL_CACHE = new Map<string, SpectralCouplingKernel>();
+const SPECTRAL_KERNEL_CACHE_LIMIT = 8;
+
+const spectralScratch: {
+  workReal: Float64Array;
+  workImag: Float64Array;
+  planes: SpectralCouplingPlane[];
+} = {
+  workReal: new Float64Array(0),
+  workImag: new Float64Array(0),
+  planes: [],
+};
+
+/**
+ * Builds the frequency-domain image of the coupling stencil. The stencil is a correlation
+ * (`H(x) = Σ_d w(d) Z(x + d)`), so each tap is written at `-d`. Periodic lattices fold the
+ * flux twist into the taps as `e^{i(fluxX·dx/W + fluxY·dy/H)}`; the caller applies the
+ * matching gauge rotation to the field before and after the convolution.
+ */
+const getSpectralCouplingKernel = (
+  table: CouplingKernelTable,
+  width: number,
+  height: number,
+  boundary: CouplingBoundary,
+  anisWeight: number,
+  fluxX: number,
+  fluxY: number,
+): SpectralCouplingKernel => {
+  const periodic = boundary === 'periodic';
+  const twistX = periodic ? fluxX : 0;
+  const twistY = periodic ? fluxY : 0;
+  const key = `${table.key}:${width}x${height}:${boundary}:${anisWeight}:${twistX}:${twistY}`;
+  const cached = SPECTRAL_KERNEL_CACHE.get(key);
+  if (cached) return cached;
+  const paddedWidth = periodic ? width : nextFastLength(width + table.radius);
+  const paddedHeight = periodic ? height : nextFastLength(height + table.radius);
+  const real = new Float64Array(paddedWidth * paddedHeight);
+  const imag = new Float64Array(paddedWidth * paddedHeight);
+  const place = (dx: number, dy: number, weight: number) => {
+    const ix = ((-dx % paddedWidth) + paddedWidth) % paddedWidth | 0;
+    const iy = ((-dy % paddedHeight) + paddedHeight) % paddedHeight | 0;
+    const idx = iy * paddedWidth + ix;
+    const twist = (twistX * dx) / width + (twistY * dy) / height;
+    real[idx] += weight * Math.cos(twist);
+    imag[idx] += weight * Math.sin(twist);
+  };
+  place(0, 0, table.selfWeight);
+  for (let i = 0; i < table.weights.length; i++) {
+    place(
+      table.offsetsX[i],
+      table.offsetsY[i],
+      table.weights[i] * (1 + anisWeight * table.orientations[i]),
+    );
+  }
+  fft2d(real, imag, paddedWidth, paddedHeight);
+  const spectrum = { key, width: paddedWidth, height: paddedHeight, real, imag };
+  if (SPECTRAL_KERNEL_CACHE.size >= SPECTRAL_KERNEL_CACHE_LIMIT) {
+    const oldest = SPECTRAL_KERNEL_CACHE.keys().next().value;
+    if (oldest != null) SPECTRAL_KERNEL_CACHE.delete(oldest);
+  }
+  SPECTRAL_KERNEL_CACHE.set(key, spectrum);
+  return spectrum;
+};
+
+const ensureSpectralScratch = (paddedTexels: number, texels: number, componentCount: number) => {
+  if (spectralScratch.workReal.length !== paddedTexels) {
+    spectralScratch.workReal = new Float64Array(paddedTexels);
+    spectralScratch.workImag = new Float64Array(paddedTexels);
+  }
+  const planes = spectralScratch.planes;
+  for (let componentIndex = 0; componentIndex < componentCount; componentIndex++) {
+    const plane = planes[componentIndex];
+    if (!plane || plane.real.length !== texels) {
+      planes[componentIndex] = {
+        real: new Float32Array(texels),
+        imag: new Float32Array(texels),
+      };
+    }
+  }
+  return spectralScratch;
+};
+
+/**
+ * Evaluates the lattice part of the coupling sum for every site at once by FFT
+ * convolution. Cost is O(N log N) regardless of the stencil radius. Small-world edges are
+ * not included; they stay sparse and are added per site by the flux operator.
+ */
+const computeSpectralCoupling = (
+  field: OpticalFieldFrame,
+  table: CouplingKernelTable,
+  boundary: CouplingBoundary,
+  anisWeight: number,
+  fluxX: number,
+  fluxY: number,
+): readonly SpectralCouplingPlane[] => {
+  const { width, height } = field.resolution;
+  const kernel = getSpectralCouplingKernel(
+    table,
+    width,
+    height,
+    boundary,
+    anisWeight,
+    fluxX,
+    fluxY,
+  );
+  const pw = kernel.width;
+  const ph = kernel.height;
+  const texels = width * height;
+  const scratch = ensureSpectralScratch(pw * ph, texels, field.componentCount);
+  const { workReal, workImag } = scratch;
+  const gauge = boundary === 'periodic' && (fluxX !== 0 || fluxY !== 0);
+  for (let componentIndex = 0; componentIndex < field.componentCount; componentIndex++) {
+    const { real, imag } = field.components[componentIndex]!;
+    workReal.fill(0);
+    workImag.fill(0);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const src = y * width + x;
+        const dst = y * pw + x;
+        if (gauge) {
+          const angle = -((fluxX * x) / width + (fluxY * y) / height);
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          workReal[dst] = real[src] * cos - imag[src] * sin;
+          workImag[dst] = real[src] * sin + imag[src] * cos;
+        } else {
+          workReal[dst] = real[src];
+          workImag[dst] = imag[src];
+        }
+      }
+    }
+    fft2d(workReal, workImag, pw, ph);
+    const kr = kernel.real;
+    const ki = kernel.imag;
+    for (let i = 0; i < workReal.length; i++) {
+      const r = workReal[i];
+      const im = workImag[i];
+      workReal[i] = r * kr[i] - im * ki[i];
+      workImag[i] = r * ki[i] + im * kr[i];
+    }
+    fft2d(workReal, workImag, pw, ph, { inverse: true });
+    const plane = scratch.planes[componentIndex]!;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const src = y * pw + x;
+        const dst = y * width + x;
+        if (gauge) {
+          const angle = (fluxX * x) / width + (fluxY * y) / height;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          plane.real[dst] = workReal[src] * cos - workImag[src] * sin;
+          plane.imag[dst] = workReal[src] * sin + workImag[src] * cos;
+        } else {
+          plane.real[dst] = workReal[src];
+          plane.imag[dst] = workImag[src];
+        }
+      }
+    }
+  }
+  return scratch.planes;
+};
+
 const wrapIndex = (x: number, y: number, width: number, height: number) => {
   const xx = ((x % width) + width) % width;
   const yy = ((y % height) + height) % height;
@@ -544,12 +878,41 @@ export const createIrradianceFrameBuffer = (
   };
 };
 
+const createIntegratorTelemetry = (method: KuramotoIntegrator): KuramotoIntegratorTelemetry => ({
+  method,
+  substeps: 0,
+  rejections: 0,
+  forcedAcceptances: 0,
+  acceptedDt: 0,
+  errorEstimate: 0,
+});
+
+const createPlasticityTelemetry = (): KuramotoPlasticityTelemetry => ({
+  mode: 'off',
+  rate: 0,
+  mean: 0,
+  variance: 0,
+  min: 0,
+  max: 0,
+});
+
+const createNoiseTelemetry = (): KuramotoNoiseTelemetry => ({
+  model: 'off',
+  coupling: 'additive',
+  correlationTime: 0,
+  correlationLength: 0,
+  rms: 0,
+});
+
 export const createTelemetrySnapshot = (): KuramotoTelemetrySnapshot => ({
   frameId: -1,
   timestamp: 0,
   dt: 0,
   kernelVersion: 0,
   kernel: cloneKernelSpec(KERNEL_SPEC_DEFAULT),
+  integrator: createIntegratorTelemetry('euler'),
+  plasticity: createPlasticityTelemetry(),
+  noise: createNoiseTelemetry(),
   orderParameter: {
     magnitude: 0,
     phase: 0,
@@ -646,11 +1009,200 @@ const applyFluxPhaseMask = (
   }
 };
 
+type PlasticityConfig = {
+  rate: number;
+  mode: KuramotoPlasticityMode;
+  min: number;
+  max: number;
+};
+
+const PLASTICITY_DEFAULT_MIN = -1;
+const PLASTICITY_DEFAULT_MAX = 1;
+
+const resolvePlasticityConfig = (params: KuramotoParams): PlasticityConfig => {
+  const rate = params.plasticityRate;
+  const lo = params.plasticityMin;
+  const hi = params.plasticityMax;
+  const min = lo != null && Number.isFinite(lo) ? lo : PLASTICITY_DEFAULT_MIN;
+  const max =
+    hi != null && Number.isFinite(hi) ? Math.max(min, hi) : Math.max(min, PLASTICITY_DEFAULT_MAX);
+  return {
+    rate: rate != null && Number.isFinite(rate) ? Math.max(0, rate) : 0,
+    mode: params.plasticityMode === 'edge' ? 'edge' : 'offset',
+    min,
+    max,
+  };
+};
+
+const plasticityMatches = (
+  field: KuramotoPlasticityField,
+  table: CouplingKernelTable,
+  width: number,
+  height: number,
+) =>
+  field.kernelKey === table.key &&
+  field.taps === table.weights.length &&
+  field.width === width &&
+  field.height === height;
+
+const plasticityWeightCount = (
+  mode: KuramotoPlasticityMode,
+  taps: number,
+  width: number,
+  height: number,
+) => (mode === 'edge' ? width * height * taps : taps);
+
+/**
+ * Returns the learned field for the current stencil, (re)allocating it at the unbiased
+ * multiplier 1 (clamped into the bounds) when the mode, stencil or resolution changed.
+ */
+const ensurePlasticityField = (
+  state: KuramotoState,
+  table: CouplingKernelTable,
+  config: PlasticityConfig,
+): KuramotoPlasticityField => {
+  const existing = state.plasticity;
+  if (
+    existing &&
+    existing.mode === config.mode &&
+    plasticityMatches(existing, table, state.width, state.height)
+  ) {
+    return existing;
+  }
+  const taps = table.weights.length;
+  const weights = new Float32Array(
+    plasticityWeightCount(config.mode, taps, state.width, state.height),
+  );
+  weights.fill(clamp(1, config.min, config.max));
+  const field: KuramotoPlasticityField = {
+    mode: config.mode,
+    kernelKey: table.key,
+    taps,
+    width: state.width,
+    height: state.height,
+    weights,
+  };
+  state.plasticity = field;
+  return field;
+};
+
+/**
+ * One explicit step of `dK/dt = ε · (cos Δθ − K)` on the primary component, using the same
+ * neighbour lookup (boundary handling and flux twist) as the direct coupling sum. `offset`
+ * mode relaxes each tap towards the lattice-averaged `cos Δθ`.
+ */
+const updateCouplingPlasticity = (
+  state: KuramotoState,
+  params: KuramotoParams,
+  kernel: KernelSpec,
+  dt: number,
+  config: PlasticityConfig,
+) => {
+  const table = resolveCouplingKernelTable(kernel);
+  const field = ensurePlasticityField(state, table, config);
+  const { width, height } = state;
+  const { real, imag } = state.components[0]!;
+  const { offsetsX, offsetsY } = table;
+  const taps = field.taps;
+  const { fluxX = 0, fluxY = 0 } = params;
+  const zeroPadded = kernel.couplingBoundary === 'zeroPadded';
+  const gain = dt * config.rate;
+  const perSite = field.mode === 'edge';
+  const tapSums = perSite ? null : new Float64Array(taps);
+  const tapCounts = perSite ? null : new Uint32Array(taps);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const zr = real[idx];
+      const zi = imag[idx];
+      const selfAmp = Math.hypot(zr, zi);
+      for (let i = 0; i < taps; i++) {
+        const rawX = x + offsetsX[i];
+        const rawY = y + offsetsY[i];
+        if (zeroPadded && (rawX < 0 || rawX >= width || rawY < 0 || rawY >= height)) continue;
+        const wrapsX = Math.floor(rawX / width);
+        const wrapsY = Math.floor(rawY / height);
+        const nx = rawX - wrapsX * width;
+        const ny = rawY - wrapsY * height;
+        const neighborIdx = ny * width + nx;
+        let nr = real[neighborIdx];
+        let ni = imag[neighborIdx];
+        const phaseShift = wrapsX * fluxX + wrapsY * fluxY;
+        if (phaseShift !== 0) {
+          const cos = Math.cos(phaseShift);
+          const sin = Math.sin(phaseShift);
+          const rotR = nr * cos - ni * sin;
+          const rotI = nr * sin + ni * cos;
+          nr = rotR;
+          ni = rotI;
+        }
+        const norm = selfAmp * Math.hypot(nr, ni);
+        const cosDelta = norm > 1e-12 ? (zr * nr + zi * ni) / norm : 0;
+        if (perSite) {
+          const slot = idx * taps + i;
+          const current = field.weights[slot];
+          field.weights[slot] = clamp(
+            current + gain * (cosDelta - current),
+            config.min,
+            config.max,
+          );
+        } else {
+          tapSums![i] += cosDelta;
+          tapCounts![i] += 1;
+        }
+      }
+    }
+  }
+  if (tapSums && tapCounts) {
+    for (let i = 0; i < taps; i++) {
+      if (tapCounts[i] === 0) continue;
+      const current = field.weights[i];
+      const target = tapSums[i] / tapCounts[i];
+      field.weights[i] = clamp(current + gain * (target - current), config.min, config.max);
+    }
+  }
+};
+
+const summarizePlasticity = (
+  telemetry: KuramotoPlasticityTelemetry,
+  field: KuramotoPlasticityField | null | undefined,
+  rate: number,
+) => {
+  telemetry.rate = rate;
+  if (!field || field.weights.length === 0) {
+    telemetry.mode = 'off';
+    telemetry.mean = 0;
+    telemetry.variance = 0;
+    telemetry.min = 0;
+    telemetry.max = 0;
+    return;
+  }
+  const weights = field.weights;
+  let sum = 0;
+  let sumSq = 0;
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < weights.length; i++) {
+    const w = weights[i];
+    sum += w;
+    sumSq += w * w;
+    if (w < min) min = w;
+    if (w > max) max = w;
+  }
+  const mean = sum / weights.length;
+  telemetry.mode = field.mode;
+  telemetry.mean = mean;
+  telemetry.variance = Math.max(0, sumSq / weights.length - mean * mean);
+  telemetry.min = min;
+  telemetry.max = max;
+};
+
 const createFluxOperator = (
   field: OpticalFieldFrame,
   params: KuramotoParams,
   kernel: KernelSpec,
   gains: OperatorGains,
+  plasticity?: KuramotoPlasticityField | null,
 ): FluxOperator => {
   const { width, height } = field.resolution;
   const components = field.components;
@@ -678,10 +1230,11 @@ const createFluxOperator = (
     smallWorldRewiring && smallWorldRewiring.degree > 0
       ? smallWorldScale / smallWorldRewiring.degree
       : 0;
-  const couplingPreset = kernel.couplingPreset;
-  const couplingParams: CouplingKernelParams =
-    COUPLING_KERNEL_PRESETS[couplingPreset] ?? COUPLING_KERNEL_PRESETS.dmt;
-  const table = getCouplingKernelTable(couplingParams);
+  const table = resolveCouplingKernelTable(kernel);
+  const learned =
+    plasticity && plasticityMatches(plasticity, table, width, height) ? plasticity : null;
+  const learnedWeights = learned?.weights ?? null;
+  const learnedPerSite = learned?.mode === 'edge';
   const offsetsX = table.offsetsX;
   const offsetsY = table.offsetsY;
   const weights = table.weights;
@@ -690,6 +1243,18 @@ const createFluxOperator = (
   const anisBaseline = KERNEL_SPEC_DEFAULT.anisotropy;
   const anisBias = clamp(kernel.anisotropy - anisBaseline, -1, 1);
   const anisScale = 0.6;
+  const zeroPadded = kernel.couplingBoundary === 'zeroPadded';
+  const spectralPlanes =
+    kernel.couplingIntegrator === 'spectral' && !learned
+      ? computeSpectralCoupling(
+          field,
+          table,
+          kernel.couplingBoundary ?? 'periodic',
+          anisScale * anisBias,
+          fluxX,
+          fluxY,
+        )
+      : null;
   const couplingScratch = components.map(() => ({ Hr: 0, Hi: 0 }) as FluxCoupling);
 
   return {
@@ -699,53 +1264,67 @@ const createFluxOperator = (
         const { real, imag } = components[componentIndex]!;
         const selfR = real[idx];
         const selfI = imag[idx];
-        let sumR = selfWeight * selfR;
-        let sumI = selfWeight * selfI;
-        for (let i = 0; i < weights.length; i++) {
-          const baseWeight = weights[i];
-          const orientation = orientations[i];
-          const weight =
-            anisBias === 0 ? baseWeight : baseWeight * (1 + anisScale * anisBias * orientation);
-          let nx = x + offsetsX[i];
-          let ny = y + offsetsY[i];
-          let phaseShift = 0;
-          let wraps = 0;
-          while (nx < 0) {
-            nx += width;
-            wraps -= 1;
-          }
-          while (nx >= width) {
-            nx -= width;
-            wraps += 1;
-          }
-          if (wraps !== 0 && hasFluxX) {
-            phaseShift += wraps * fluxX;
-          }
-          wraps = 0;
-          while (ny < 0) {
-            ny += height;
-            wraps -= 1;
-          }
-          while (ny >= height) {
-            ny -= height;
-            wraps += 1;
+        let sumR: number;
+        let sumI: number;
+        if (spectralPlanes) {
+          const plane = spectralPlanes[componentIndex]!;
+          sumR = plane.real[idx];
+          sumI = plane.imag[idx];
+        } else {
+          sumR = selfWeight * selfR;
+          sumI = selfWeight * selfI;
+          const learnedBase = learnedPerSite ? idx * weights.length : 0;
+          for (let i = 0; i < weights.length; i++) {
+            const baseWeight = learnedWeights
+              ? weights[i] * learnedWeights[learnedBase + i]
+              : weights[i];
+            const orientation = orientations[i];
+            const weight =
+              anisBias === 0 ? baseWeight : baseWeight * (1 + anisScale * anisBias * orientation);
+            let nx = x + offsetsX[i];
+            let ny = y + offsetsY[i];
+            if (zeroPadded && (nx < 0 || nx >= width || ny < 0 || ny >= height)) {
+              continue;
+            }
+            let phaseShift = 0;
+            let wraps = 0;
+            while (nx < 0) {
+              nx += width;
+              wraps -= 1;
+            }
+            while (nx >= width) {
+              nx -= width;
+              wraps += 1;
+            }
+            if (wraps !== 0 && hasFluxX) {
+              phaseShift += wraps * fluxX;
+            }
+            wraps = 0;
+            while (ny < 0) {
+              ny += height;
+              wraps -= 1;
+            }
+            while (ny >= height) {
+              ny -= height;
+              wraps += 1;
+            }
+            if (wraps !== 0 && hasFluxY) {
+              phaseShift += wraps * fluxY;
+            }
+            const neighborIdx = ny * width + nx;
+            let nr = real[neighborIdx];
+            let ni = imag[neighborIdx];
+            if (phaseShift !== 0) {
+              const cos = Math.cos(phaseShift);
+              const sin = Math.sin(phaseShift);
+              const rotR = nr * cos - ni * sin;
+              const rotI = nr * sin + ni * cos;
+              nr = rotR;
+              ni = rotI;
+            }
+            sumR += weight * nr;
+            sumI += weight * ni;
           }
-          if (wraps !== 0 && hasFluxY) {
-            phaseShift += wraps * fluxY;
-          }
-          const neighborIdx = ny * width + nx;
-          let nr = real[neighborIdx];
-          let ni = imag[neighborIdx];
-          if (phaseShift !== 0) {
-            const cos = Math.cos(phaseShift);
-            const sin = Math.sin(phaseShift);
-            const rotR = nr * cos - ni * sin;
-            const rotI = nr * sin + ni * cos;
-            nr = rotR;
-            ni = rotI;
-          }
-          sumR += weight * nr;
-          sumI += weight * ni;
         }
         if (smallWorldRewiring && smallWorldFactor !== 0) {
           const offset = idx * smallWorldRewiring.degree;
@@ -952,6 +1531,9 @@ const executeThinElementSchedule = (
       case 'polarization':
         applyPolarizationTransform(ctx.field, step.spec);
         break;
+      case 'element':
+        applyOpticalElement(ctx.field, step.spec);
+        break;
       case 'beamSplit':
         executeBeamSplitStep(step, ctx);
         break;
@@ -961,6 +1543,23 @@ const executeThinElementSchedule = (
   }
 };
 
+/**
+ * Runs the polarization structure of `schedule` (polarization steps, optical elements and beam
+ * splits, which may nest them) on `field` in place. Scalar operators need derived phase fields
+ * and act equally on both Jones components, so they are skipped.
+ */
+export const applyPolarizationSchedule = (
+  field: OpticalFieldFrame,
+  schedule: ThinElementSchedule,
+) => {
+  executeThinElementSchedule(schedule, {
+    field,
+    kernel: KERNEL_SPEC_DEFAULT,
+    gains: { flux: 0, amplitude: 0, phase: 0, transparency: 1 },
+    scratch: {},
+  });
+};
+
 const DEFAULT_PHASE_SCHEDULE: ThinElementSchedule = [
   { kind: 'operator', operator: 'amplitude' },
   { kind: 'operator', operator: 'phase' },
@@ -980,6 +1579,15 @@ export const createWavePlateStep = (
   label,
 });
 
+export const createOpticalElementStep = (
+  spec: OpticalElementSpec,
+  label?: string,
+): OpticalElementStep => ({
+  kind: 'element',
+  spec,
+  label,
+});
+
 export const createPolarizerStep = (
   orientationRad: number,
   extinctionRatio = 0,
@@ -1080,13 +1688,30 @@ export const createDerivedViews = (
   };
 };
 
+/**
+ * Discards the coloured-noise history so the next step re-draws it from the stationary law
+ * using that step's `randn`. Call on timeline seeks so a frame's noise depends only on its seed.
+ */
+export const resetKuramotoNoise = (state: KuramotoState) => {
+  if (state.noise) state.noise.primed = false;
+};
+
+/**
+ * Resets oscillators to a `q`-twisted plane wave and clears telemetry. When `phase` carries a
+ * `theta` seed (see `optics/phaseRetrieval`) at the lattice resolution, the twist is added to
+ * the seed and `phase` is left as-is; otherwise `phase` is treated as a derived buffer and reset.
+ */
 export const initKuramotoState = (state: KuramotoState, q: number, phase?: PhaseField) => {
   const { width, height, components } = state;
+  const seed =
+    phase?.theta && phase.resolution.width === width && phase.resolution.height === height
+      ? phase.theta
+      : null;
   for (const { real, imag } of components) {
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const theta = (2 * Math.PI * q * x) / width;
         const idx = y * width + x;
+        const theta = (2 * Math.PI * q * x) / width + (seed ? seed[idx] : 0);
         real[idx] = Math.cos(theta);
         imag[idx] = Math.sin(theta);
       }
@@ -1099,6 +1724,9 @@ export const initKuramotoState = (state: KuramotoState, q: number, phase?: Phase
   telemetry.dt = 0;
   telemetry.kernelVersion = 0;
   telemetry.kernel = cloneKernelSpec(KERNEL_SPEC_DEFAULT);
+  telemetry.integrator = createIntegratorTelemetry('euler');
+  telemetry.noise = createNoiseTelemetry();
+  resetKuramotoNoise(state);
   telemetry.orderParameter.magnitude = 0;
   telemetry.orderParameter.phase = 0;
   telemetry.orderParameter.real = 0;
@@ -1116,7 +1744,7 @@ export const initKuramotoState = (state: KuramotoState, q: number, phase?: Phase
   irradiance.kernelVersion = 0;
   irradiance.kernel = cloneKernelSpec(KERNEL_SPEC_DEFAULT);
   irradiance.opticalMeta = cloneOpticalMeta(meta);
-  if (phase) {
+  if (phase && !seed) {
     phase.gradX.fill(0);
     phase.gradY.fill(0);
     phase.vort.fill(0);
@@ -1125,6 +1753,614 @@ export const initKuramotoState = (state: KuramotoState, q: number, phase?: Phase
   }
 };
 
+type IntegratorScratch = {
+  stage: OpticalFieldFrame;
+  state: Float64Array;
+  trial: Float64Array;
+  slopes: Float64Array[];
+  /** Last RK45 step size proposal carried across frames. */
+  nextStep: number;
+};
+
+type DerivativeContext = {
+  params: KuramotoParams;
+  kernel: KernelSpec;
+  gains: OperatorGains;
+  includeLinear: boolean;
+  detuning: Float32Array | null;
+  plasticity: KuramotoPlasticityField | null;
+};
+
+type ResolvedIntegrator = Required<KuramotoIntegratorOptions>;
+
+const INTEGRATOR_SCRATCH = new WeakMap<KuramotoState, IntegratorScratch>();
+const RK45_DEFAULT_TOLERANCE = 1e-4;
+const RK45_DEFAULT_MAX_SUBSTEPS = 64;
+const RK45_DEFAULT_MIN_STEP_FRACTION = 1e-4;
+
+// Dormand–Prince 5(4) tableau; the last row doubles as the fifth-order weights (FSAL).
+const DOPRI_A: readonly (readonly number[])[] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DOPRI_ERROR = [
+  71 / 57600,
+  0,
+  -71 / 16695,
+  71 / 1920,
+  -17253 / 339200,
+  22 / 525,
+  -1 / 40,
+] as const;
+
+const resolveIntegrator = (
+  value: KuramotoIntegrator | KuramotoIntegratorOptions | undefined,
+): ResolvedIntegrator => {
+  const options = typeof value === 'string' ? { method: value } : value;
+  const method =
+    options && KURAMOTO_INTEGRATORS.includes(options.method) ? options.method : 'euler';
+  const tolerance = options?.tolerance;
+  const maxSubsteps = options?.maxSubsteps;
+  const minStepFraction = options?.minStepFraction;
+  return {
+    method,
+    tolerance:
+      tolerance != null && Number.isFinite(tolerance) && tolerance > 0
+        ? tolerance
+        : RK45_DEFAULT_TOLERANCE,
+    maxSubsteps:
+      maxSubsteps != null && Number.isFinite(maxSubsteps)
+        ? Math.max(1, Math.floor(maxSubsteps))
+        : RK45_DEFAULT_MAX_SUBSTEPS,
+    minStepFraction:
+      minStepFraction != null && Number.isFinite(minStepFraction)
+        ? clamp(minStepFraction, 0, 1)
+        : RK45_DEFAULT_MIN_STEP_FRACTION,
+  };
+};
+
+const ensureIntegratorScratch = (state: KuramotoState, slopeCount: number): IntegratorScratch => {
+  const length = state.width * state.height * state.componentCount * 2;
+  let scratch = INTEGRATOR_SCRATCH.get(state);
+  if (
+    !scratch ||
+    scratch.state.length !== length ||
+    scratch.stage.componentCount !== state.componentCount
+  ) {
+    scratch = {
+      stage: new OpticalFieldFrame(state.field.resolution, {
+        componentCount: state.componentCount,
+      }),
+      state: new Float64Array(length),
+      trial: new Float64Array(length),
+      slopes: [],
+      nextStep: 0,
+    };
+    INTEGRATOR_SCRATCH.set(state, scratch);
+  }
+  while (scratch.slopes.length < slopeCount) {
+    scratch.slopes.push(new Float64Array(length));
+  }
+  return scratch;
+};
+
+/**
+ * Packs the lattice as interleaved `(re, im)` pairs, component-major, so every integrator
+ * can treat the state as one flat real vector.
+ */
+const loadPackedState = (state: KuramotoState, target: Float64Array) => {
+  const texels = state.width * state.height;
+  for (let componentIndex = 0; componentIndex < state.componentCount; componentIndex++) {
+    const { real, imag } = state.components[componentIndex]!;
+    const base = componentIndex * texels * 2;
+    for (let idx = 0; idx < texels; idx++) {
+      target[base + idx * 2] = real[idx];
+      target[base + idx * 2 + 1] = imag[idx];
+    }
+  }
+};
+
+const storePackedState = (source: Float64Array, frame: OpticalFieldFrame) => {
+  const { width, height } = frame.resolution;
+  const texels = width * height;
+  for (let componentIndex = 0; componentIndex < frame.componentCount; componentIndex++) {
+    const { real, imag } = frame.components[componentIndex]!;
+    const base = componentIndex * texels * 2;
+    for (let idx = 0; idx < texels; idx++) {
+      real[idx] = source[base + idx * 2];
+      imag[idx] = source[base + idx * 2 + 1];
+    }
+  }
+};
+
+/**
+ * Evaluates dZ/dt for every site from a frozen copy of `packed` (Jacobi-style, unlike the
+ * in-place Euler sweep). With `includeLinear` false only the coupling term is returned,
+ * which is what the exponential integrator needs.
+ */
+const evaluateDerivative = (
+  scratch: IntegratorScratch,
+  packed: Float64Array,
+  out: Float64Array,
+  ctx: DerivativeContext,
+) => {
+  const stage = scratch.stage;
+  storePackedState(packed, stage);
+  const { width, height } = stage.resolution;
+  const texels = width * height;
+  const componentCount = stage.componentCount;
+  const { alphaKur, gammaKur, omega0, K0 } = ctx.params;
+  const ca = Math.cos(alphaKur);
+  const sa = Math.sin(alphaKur);
+  const couplingGain = 0.5 * K0 * ctx.gains.phase;
+  const linearGamma = ctx.includeLinear ? gammaKur : 0;
+  const detuning = ctx.includeLinear ? ctx.detuning : null;
+  const fluxOperator = createFluxOperator(stage, ctx.params, ctx.kernel, ctx.gains, ctx.plasticity);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const couplings = fluxOperator.coupling(x, y, idx);
+      const linearOmega = ctx.includeLinear ? omega0 + (detuning ? detuning[idx] : 0) : 0;
+      for (let componentIndex = 0; componentIndex < componentCount; componentIndex++) {
+        const coupling = couplings[componentIndex] ?? couplings[0]!;
+        const Hr = coupling.Hr;
+        const Hi = coupling.Hi;
+        const offset = (componentIndex * texels + idx) * 2;
+        const Zre = packed[offset];
+        const Zim = packed[offset + 1];
+        const Z2r = Zre * Zre - Zim * Zim;
+        const Z2i = 2 * Zre * Zim;
+        const H1r = ca * Hr + sa * Hi;
+        const H1i = -sa * Hr + ca * Hi;
+        const Tr = Z2r * Hr + Z2i * Hi;
+        const Ti = -Z2r * Hi + Z2i * Hr;
+        const H2r = ca * Tr - sa * Ti;
+        const H2i = sa * Tr + ca * Ti;
+        out[offset] = -linearGamma * Zre - linearOmega * Zim + couplingGain * (H1r - H2r);
+        out[offset + 1] = -linearGamma * Zim + linearOmega * Zre + couplingGain * (H1i - H2i);
+      }
+    }
+  }
+};
+
+const combineSlopes = (
+  target: Float64Array,
+  origin: Float64Array,
+  slopes: readonly Float64Array[],
+  coefficients: readonly number[],
+  h: number,
+) => {
+  for (let i = 0; i < target.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < coefficients.length; j++) {
+      const c = coefficients[j];
+      if (c !== 0) sum += c * slopes[j]![i];
+    }
+    target[i] = origin[i] + h * sum;
+  }
+};
+
+const integrateRk4 = (scratch: IntegratorScratch, ctx: DerivativeContext, h: number) => {
+  const { state, trial, slopes } = scratch;
+  const [k1, k2, k3, k4] = slopes as [Float64Array, Float64Array, Float64Array, Float64Array];
+  evaluateDerivative(scratch, state, k1, ctx);
+  combineSlopes(trial, state, slopes, [0.5], h);
+  evaluateDerivative(scratch, trial, k2, ctx);
+  combineSlopes(trial, state, slopes, [0, 0.5], h);
+  evaluateDerivative(scratch, trial, k3, ctx);
+  combineSlopes(trial, state, slopes, [0, 0, 1], h);
+  evaluateDerivative(scratch, trial, k4, ctx);
+  combineSlopes(state, state, slopes, [1 / 6, 1 / 3, 1 / 3, 1 / 6], h);
+};
+
+type EtdCoefficients = {
+  expR: number;
+  expI: number;
+  phi1R: number;
+  phi1I: number;
+  phi2R: number;
+  phi2I: number;
+};
+
+/**
+ * `e^z`, `φ1(z) = (e^z − 1)/z` and `φ2(z) = (e^z − 1 − z)/z²` for the ETD2RK update. Small
+ * |z| falls back to the Taylor series to avoid cancellation.
+ */
+const computeEtdCoefficients = (zr: number, zi: number): EtdCoefficients => {
+  const mag = Math.hypot(zr, zi);
+  const expScale = Math.exp(zr);
+  const expR = expScale * Math.cos(zi);
+  const expI = expScale * Math.sin(zi);
+  if (mag < 1e-4) {
+    const z2r = zr * zr - zi * zi;
+    const z2i = 2 * zr * zi;
+    return {
+      expR,
+      expI,
+      phi1R: 1 + zr / 2 + z2r / 6,
+      phi1I: zi / 2 + z2i / 6,
+      phi2R: 0.5 + zr / 6 + z2r / 24,
+      phi2I: zi / 6 + z2i / 24,
+    };
+  }
+  const denom = zr * zr + zi * zi;
+  // (e^z − 1) / z
+  const ar = expR - 1;
+  const ai = expI;
+  const phi1R = (ar * zr + ai * zi) / denom;
+  const phi1I = (ai * zr - ar * zi) / denom;
+  // (φ1 − 1) / z
+  const br = phi1R - 1;
+  const bi = phi1I;
+  return {
+    expR,
+    expI,
+    phi1R,
+    phi1I,
+    phi2R: (br * zr + bi * zi) / denom,
+    phi2I: (bi * zr - br * zi) / denom,
+  };
+};
+
+/**
+ * Cox–Matthews ETD2RK: the linear rotation/damping `L = −gammaKur + i·omega0` is integrated
+ * exactly, the coupling term `N` with a second-order exponential Runge–Kutta correction.
+ */
+const integrateEtd = (scratch: IntegratorScratch, ctx: DerivativeContext, h: number) => {
+  const { state, trial, slopes } = scratch;
+  const [n0, n1] = slopes as [Float64Array, Float64Array];
+  const texels = scratch.stage.resolution.texels;
+  const detuning = ctx.detuning;
+  const uniform = computeEtdCoefficients(-ctx.params.gammaKur * h, ctx.params.omega0 * h);
+  // With heterogeneous ω the linear operator is still diagonal, just site dependent.
+  const coefficientsAt = (site: number) =>
+    detuning
+      ? computeEtdCoefficients(-ctx.params.gammaKur * h, (ctx.params.omega0 + detuning[site]) * h)
+      : uniform;
+  evaluateDerivative(scratch, state, n0, ctx);
+  for (let i = 0; i < state.length; i += 2) {
+    const { expR, expI, phi1R, phi1I } = coefficientsAt((i >> 1) % texels);
+    const zr = state[i];
+    const zi = state[i + 1];
+    const nr = n0[i];
+    const ni = n0[i + 1];
+    trial[i] = expR * zr - expI * zi + h * (phi1R * nr - phi1I * ni);
+    trial[i + 1] = expR * zi + expI * zr + h * (phi1R * ni + phi1I * nr);
+  }
+  evaluateDerivative(scratch, trial, n1, ctx);
+  for (let i = 0; i < state.length; i += 2) {
+    const { phi2R, phi2I } = coefficientsAt((i >> 1) % texels);
+    const dr = n1[i] - n0[i];
+    const di = n1[i + 1] - n0[i + 1];
+    state[i] = trial[i] + h * (phi2R * dr - phi2I * di);
+    state[i + 1] = trial[i + 1] + h * (phi2R * di + phi2I * dr);
+  }
+};
+
+const integrateRk45 = (
+  scratch: IntegratorScratch,
+  ctx: DerivativeContext,
+  dt: number,
+  options: ResolvedIntegrator,
+  report: KuramotoIntegratorTelemetry,
+) => {
+  const { state, trial, slopes } = scratch;
+  const tolerance = options.tolerance;
+  const minStep = dt * options.minStepFraction;
+  let h = scratch.nextStep > 0 ? Math.min(scratch.nextStep, dt) : dt;
+  let elapsed = 0;
+  let attempts = 0;
+  let haveFirstSlope = false;
+  while (elapsed < dt) {
+    const remaining = dt - elapsed;
+    attempts += 1;
+    const forced = attempts >= options.maxSubsteps;
+    const last = forced || h >= remaining * (1 - 1e-9);
+    if (last) {
+      h = remaining;
+    }
+    if (!haveFirstSlope) {
+      evaluateDerivative(scratch, state, slopes[0]!, ctx);
+      haveFirstSlope = true;
+    }
+    for (let stage = 1; stage < DOPRI_A.length; stage++) {
+      combineSlopes(trial, state, slopes, DOPRI_A[stage]!, h);
+      evaluateDerivative(scratch, trial, slopes[stage]!, ctx);
+    }
+    let errorSq = 0;
+    for (let i = 0; i < state.length; i++) {
+      let delta = 0;
+      for (let j = 0; j < DOPRI_ERROR.length; j++) {
+        const e = DOPRI_ERROR[j];
+        if (e !== 0) delta += e * slopes[j]![i];
+      }
+      const scale = tolerance * (1 + Math.max(Math.abs(state[i]), Math.abs(trial[i])));
+      const ratio = (h * delta) / scale;
+      errorSq += ratio * ratio;
+    }
+    const error = state.length > 0 ? Math.sqrt(errorSq / state.length) : 0;
+    const factor = error > 0 ? clamp(0.9 * Math.pow(error, -0.2), 0.2, 5) : 5;
+    if (error <= 1 || forced || h <= minStep) {
+      state.set(trial);
+      elapsed = last ? dt : elapsed + h;
+      report.substeps += 1;
+      if (error > 1) {
+        report.forcedAcceptances += 1;
+      }
+      report.acceptedDt = h;
+      report.errorEstimate = Math.max(report.errorEstimate, error);
+      // FSAL: the last stage was evaluated at the accepted state.
+      const first = slopes[0]!;
+      slopes[0] = slopes[DOPRI_A.length - 1]!;
+      slopes[DOPRI_A.length - 1] = first;
+      scratch.nextStep = Math.max(h * factor, minStep);
+      h = scratch.nextStep;
+    } else {
+      report.rejections += 1;
+      h = Math.max(h * factor, minStep);
+    }
+  }
+};
+
+type NoiseConfig = {
+  model: KuramotoNoiseModel;
+  coupling: KuramotoNoiseCoupling;
+  intensity: number;
+  correlationTime: number;
+  correlationLength: number;
+};
+
+type NoiseStep = {
+  scale: number;
+  randn: () => number;
+  /** Packed `dW` per site, component and quadrature; null for the inline white draw. */
+  increments: Float32Array | null;
+  multiplicative: boolean;
+  sumSq: number;
+};
+
+const resolveNoiseConfig = (params: KuramotoParams): NoiseConfig => {
+  const tau = params.noiseCorrelationTime;
+  const length = params.noiseCorrelationLength;
+  return {
+    model:
+      params.noiseModel && KURAMOTO_NOISE_MODELS.includes(params.noiseModel)
+        ? params.noiseModel
+        : 'white',
+    coupling: params.noiseCoupling === 'multiplicative' ? 'multiplicative' : 'additive',
+    intensity: Math.max(params.epsKur, 0),
+    correlationTime: tau != null && Number.isFinite(tau) ? Math.max(tau, 0) : 1,
+    correlationLength: length != null && Number.isFinite(length) ? Math.max(length, 0) : 2,
+  };
+};
+
+const ensureNoiseState = (state: KuramotoState, size: number): KuramotoNoiseState => {
+  const existing = state.noise;
+  if (existing && existing.increments.length === size) return existing;
+  const noise: KuramotoNoiseState = {
+    increments: new Float32Array(size),
+    colour: null,
+    primed: false,
+    blur: null,
+  };
+  state.noise = noise;
+  return noise;
+};
+
+/** Fills `target` in the inline sweep's draw order: site-major, then component, then re/im. */
+const drawPackedNormals = (
+  target: Float32Array,
+  texels: number,
+  componentCount: number,
+  scale: number,
+  randn: () => number,
+) => {
+  for (let idx = 0; idx < texels; idx++) {
+    for (let componentIndex = 0; componentIndex < componentCount; componentIndex++) {
+      const offset = (componentIndex * texels + idx) * 2;
+      target[offset] = scale * randn();
+      target[offset + 1] = scale * randn();
+    }
+  }
+};
+
+const gaussianTaps = (sigma: number, size: number) => {
+  const radius = Math.min(Math.ceil(3 * sigma), Math.floor((size - 1) / 2));
+  const taps = new Float64Array(radius * 2 + 1);
+  for (let i = -radius; i <= radius; i++) {
+    taps[i + radius] = Math.exp((-0.5 * i * i) / (sigma * sigma));
+  }
+  return taps;
+};
+
+/**
+ * Periodic separable Gaussian blur of every packed channel, rescaled so each site keeps unit
+ * variance. Radii are capped below half the lattice so no tap aliases onto another.
+ */
+const smoothPackedNoise = (
+  packed: Float32Array,
+  noise: KuramotoNoiseState,
+  width: number,
+  height: number,
+  componentCount: number,
+  sigma: number,
+) => {
+  const texels = width * height;
+  if (!noise.blur || noise.blur.length !== texels) {
+    noise.blur = new Float32Array(texels);
+  }
+  const tmp = noise.blur;
+  const tapsX = gaussianTaps(sigma, width);
+  const tapsY = gaussianTaps(sigma, height);
+  const rx = (tapsX.length - 1) / 2;
+  const ry = (tapsY.length - 1) / 2;
+  let energyX = 0;
+  let energyY = 0;
+  for (const w of tapsX) energyX += w * w;
+  for (const w of tapsY) energyY += w * w;
+  const norm = 1 / Math.sqrt(energyX * energyY);
+  for (let channel = 0; channel < componentCount * 2; channel++) {
+    const base = (channel >> 1) * texels * 2 + (channel & 1);
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let k = -rx; k <= rx; k++) {
+          const sx = (x + k + width) % width;
+          acc += tapsX[k + rx]! * packed[base + (row + sx) * 2];
+        }
+        tmp[row + x] = acc;
+      }
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let k = -ry; k <= ry; k++) {
+          const sy = (y + k + height) % height;
+          acc += tapsY[k + ry]! * tmp[sy * width + x];
+        }
+        packed[base + (y * width + x) * 2] = acc * norm;
+      }
+    }
+  }
+};
+
+/**
+ * Draws this step's increments for the coloured and spatial models (and for multiplicative
+ * white noise, which needs the draws before the sweep). Returns null when the plain additive
+ * white path can draw inline, which keeps that path bit-identical to earlier releases.
+ *
+ * The OU process `η` has `⟨η(t)η(s)⟩ = ε/(2τ) · e^{−|t−s|/τ}`, whose integral matches the white
+ * intensity `ε`; it is advanced exactly and contributes `η · dt`.
+ */
+const prepareNoiseIncrements = (
+  state: KuramotoState,
+  config: NoiseConfig,
+  dt: number,
+  randn: () => number,
+): Float32Array | null => {
+  if (config.intensity === 0) return null;
+  const spatial = config.model === 'spatial' && config.correlationLength > 0;
+  const coloured = config.model === 'ou' && config.correlationTime > 0;
+  if (!spatial && !coloured && config.coupling === 'additive') return null;
+  const { width, height, componentCount } = state;
+  const texels = width * height;
+  const noise = ensureNoiseState(state, texels * componentCount * 2);
+  const increments = noise.increments;
+  if (coloured) {
+    if (!noise.colour || noise.colour.length !== increments.length) {
+      noise.colour = new Float32Array(increments.length);
+      noise.primed = false;
+    }
+    const colour = noise.colour;
+    const stationary = Math.sqrt(config.intensity / (2 * config.correlationTime));
+    if (!noise.primed) {
+      drawPackedNormals(colour, texels, componentCount, stationary, randn);
+      noise.primed = true;
+    }
+    const rho = Math.exp(-dt / config.correlationTime);
+    drawPackedNormals(
+      increments,
+      texels,
+      componentCount,
+      stationary * Math.sqrt(Math.max(0, 1 - rho * rho)),
+      randn,
+    );
+    for (let i = 0; i < increments.length; i++) {
+      const next = rho * colour[i] + increments[i];
+      colour[i] = next;
+      increments[i] = next * dt;
+    }
+    return increments;
+  }
+  drawPackedNormals(increments, texels, componentCount, Math.sqrt(dt * config.intensity), randn);
+  if (spatial) {
+    smoothPackedNoise(increments, noise, width, height, componentCount, config.correlationLength);
+  }
+  return increments;
+};
+
+const summarizeNoise = (
+  telemetry: KuramotoNoiseTelemetry,
+  config: NoiseConfig,
+  step: NoiseStep,
+  samples: number,
+) => {
+  telemetry.model = config.intensity > 0 ? config.model : 'off';
+  telemetry.coupling = config.coupling;
+  telemetry.correlationTime = config.model === 'ou' ? config.correlationTime : 0;
+  telemetry.correlationLength = config.model === 'spatial' ? config.correlationLength : 0;
+  telemetry.rms = samples > 0 ? Math.sqrt(step.sumSq / samples) : 0;
+};
+
+/**
+ * Runs one of the whole-lattice integrators over `dt`, then adds the Euler–Maruyama noise
+ * increment in the same draw order as the in-place sweep.
+ */
+const integrateKuramotoState = (
+  state: KuramotoState,
+  ctx: DerivativeContext,
+  dt: number,
+  options: ResolvedIntegrator,
+  noise: NoiseStep,
+): KuramotoIntegratorTelemetry => {
+  const report = createIntegratorTelemetry(options.method);
+  const scratch = ensureIntegratorScratch(state, options.method === 'rk45' ? 7 : 4);
+  loadPackedState(state, scratch.state);
+  if (options.method === 'rk45') {
+    integrateRk45(scratch, ctx, dt, options, report);
+  } else {
+    if (options.method === 'etd') {
+      integrateEtd(scratch, { ...ctx, includeLinear: false }, dt);
+    } else {
+      integrateRk4(scratch, ctx, dt);
+    }
+    report.substeps = 1;
+    report.acceptedDt = dt;
+  }
+  const packed = scratch.state;
+  const increments = noise.increments;
+  if (increments) {
+    // Itô convention: multiplicative noise is evaluated at the pre-step envelope.
+    const texels = state.width * state.height;
+    for (let componentIndex = 0; componentIndex < state.componentCount; componentIndex++) {
+      const { real, imag } = state.components[componentIndex]!;
+      for (let idx = 0; idx < texels; idx++) {
+        const offset = (componentIndex * texels + idx) * 2;
+        let dR = increments[offset];
+        let dI = increments[offset + 1];
+        if (noise.multiplicative) {
+          const wr = dR;
+          dR = real[idx] * wr - imag[idx] * dI;
+          dI = real[idx] * dI + imag[idx] * wr;
+        }
+        packed[offset] += dR;
+        packed[offset + 1] += dI;
+        noise.sumSq += dR * dR + dI * dI;
+      }
+    }
+  } else if (noise.scale !== 0) {
+    const texels = state.width * state.height;
+    for (let idx = 0; idx < texels; idx++) {
+      for (let componentIndex = 0; componentIndex < state.componentCount; componentIndex++) {
+        const offset = (componentIndex * texels + idx) * 2;
+        const dR = noise.scale * noise.randn();
+        const dI = noise.scale * noise.randn();
+        packed[offset] += dR;
+        packed[offset + 1] += dI;
+        noise.sumSq += dR * dR + dI * dI;
+      }
+    }
+  }
+  storePackedState(packed, state.field);
+  return report;
+};
+
 export const stepKuramotoState = (
   state: KuramotoState,
   params: KuramotoParams,
@@ -1151,11 +2387,26 @@ export const stepKuramotoState = (
     });
   }
 
-  const fluxOperator = createFluxOperator(state.field, params, kernel, gains);
+  const integrator = resolveIntegrator(options?.integrator);
+  const detuning = options?.naturalFrequencies ?? null;
+  if (detuning && detuning.length !== width * height) {
+    throw new Error(
+      `[kuramotoCore] natural frequency field has ${detuning.length} entries; expected ${width * height}`,
+    );
+  }
   const ca = Math.cos(alphaKur);
   const sa = Math.sin(alphaKur);
   const couplingGain = 0.5 * K0 * gains.phase;
-  const noiseScale = Math.sqrt(Math.max(dt * epsKur, 0));
+  const noiseConfig = resolveNoiseConfig(params);
+  const noise: NoiseStep = {
+    scale: Math.sqrt(Math.max(dt * epsKur, 0)),
+    randn,
+    increments: prepareNoiseIncrements(state, noiseConfig, dt, randn),
+    multiplicative: noiseConfig.coupling === 'multiplicative',
+    sumSq: 0,
+  };
+  const noiseScale = noise.scale;
+  const increments = noise.increments;
 
   const irradiance = state.irradiance;
   const texels = width * height;
@@ -1172,37 +2423,79 @@ export const stepKuramotoState = (
   let energySum = 0;
   let energySumSq = 0;
   let energyMax = 0;
+  let integratorReport: KuramotoIntegratorTelemetry;
+
+  if (integrator.method !== 'euler') {
+    integratorReport = integrateKuramotoState(
+      state,
+      {
+        params,
+        kernel,
+        gains,
+        includeLinear: true,
+        detuning,
+        plasticity: state.plasticity ?? null,
+      },
+      dt,
+      integrator,
+      noise,
+    );
+  } else {
+    integratorReport = createIntegratorTelemetry('euler');
+    integratorReport.substeps = 1;
+    integratorReport.acceptedDt = dt;
+  }
 
+  const fluxOperator =
+    integrator.method === 'euler'
+      ? createFluxOperator(state.field, params, kernel, gains, state.plasticity)
+      : null;
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const idx = y * width + x;
-      const couplings = fluxOperator.coupling(x, y, idx);
+      const couplings = fluxOperator?.coupling(x, y, idx);
+      const omega = detuning ? omega0 + detuning[idx] : omega0;
       let pixelEnergy = 0;
       for (let componentIndex = 0; componentIndex < componentCount; componentIndex++) {
         const view = components[componentIndex]!;
-        const coupling = couplings[componentIndex] ?? couplings[0]!;
-        const Hr = coupling.Hr;
-        const Hi = coupling.Hi;
-        const Zre = view.real[idx];
-        const Zim = view.imag[idx];
-        const Z2r = Zre * Zre - Zim * Zim;
-        const Z2i = 2 * Zre * Zim;
-        const H1r = ca * Hr + sa * Hi;
-        const H1i = -sa * Hr + ca * Hi;
-        const HrConj = Hr;
-        const HiConj = -Hi;
-        const Tr = Z2r * HrConj - Z2i * HiConj;
-        const Ti = Z2r * HiConj + Z2i * HrConj;
-        const H2r = ca * Tr - sa * Ti;
-        const H2i = sa * Tr + ca * Ti;
-        const dZr = -gammaKur * Zre - omega0 * Zim + couplingGain * (H1r - H2r);
-        const dZi = -gammaKur * Zim + omega0 * Zre + couplingGain * (H1i - H2i);
-        const noiseR = noiseScale !== 0 ? noiseScale * randn() : 0;
-        const noiseI = noiseScale !== 0 ? noiseScale * randn() : 0;
-        const nextR = Zre + dt * dZr + noiseR;
-        const nextI = Zim + dt * dZi + noiseI;
-        view.real[idx] = nextR;
-        view.imag[idx] = nextI;
+        let nextR = view.real[idx];
+        let nextI = view.imag[idx];
+        if (couplings) {
+          const coupling = couplings[componentIndex] ?? couplings[0]!;
+          const Hr = coupling.Hr;
+          const Hi = coupling.Hi;
+          const Zre = nextR;
+          const Zim = nextI;
+          const Z2r = Zre * Zre - Zim * Zim;
+          const Z2i = 2 * Zre * Zim;
+          const H1r = ca * Hr + sa * Hi;
+          const H1i = -sa * Hr + ca * Hi;
+          const HrConj = Hr;
+          const HiConj = -Hi;
+          const Tr = Z2r * HrConj - Z2i * HiConj;
+          const Ti = Z2r * HiConj + Z2i * HrConj;
+          const H2r = ca * Tr - sa * Ti;
+          const H2i = sa * Tr + ca * Ti;
+          const dZr = -gammaKur * Zre - omega * Zim + couplingGain * (H1r - H2r);
+          const dZi = -gammaKur * Zim + omega * Zre + couplingGain * (H1i - H2i);
+          let noiseR = 0;
+          let noiseI = 0;
+          if (increments) {
+            const offset = (componentIndex * texels + idx) * 2;
+            const wr = increments[offset];
+            const wi = increments[offset + 1];
+            noiseR = noise.multiplicative ? Zre * wr - Zim * wi : wr;
+            noiseI = noise.multiplicative ? Zre * wi + Zim * wr : wi;
+          } else if (noiseScale !== 0) {
+            noiseR = noiseScale * randn();
+            noiseI = noiseScale * randn();
+          }
+          noise.sumSq += noiseR * noiseR + noiseI * noiseI;
+          nextR = Zre + dt * dZr + noiseR;
+          nextI = Zim + dt * dZi + noiseI;
+          view.real[idx] = nextR;
+          view.imag[idx] = nextI;
+        }
         const ampSq = nextR * nextR + nextI * nextI;
         pixelEnergy += ampSq;
         if (componentIndex === 0) {
@@ -1224,8 +2517,14 @@ export const stepKuramotoState = (
       }
     }
   }
+  const plasticity = resolvePlasticityConfig(params);
+  if (plasticity.rate > 0) {
+    updateCouplingPlasticity(state, params, kernel, dt, plasticity);
+  }
   const meta = state.manager.stampFrame(state.field, { dt, timestamp });
   const telemetry = state.telemetry;
+  summarizePlasticity(telemetry.plasticity, state.plasticity, plasticity.rate);
+  summarizeNoise(telemetry.noise, noiseConfig, noise, texels * componentCount);
   const invSamples = orderSamples > 0 ? 1 / orderSamples : 0;
   const avgReal = orderSumR * invSamples;
   const avgImag = orderSumI * invSamples;
@@ -1235,6 +2534,7 @@ export const stepKuramotoState = (
   const kernelVersion = telemetryRequest?.kernelVersion ?? telemetry.kernelVersion;
   telemetry.kernelVersion = kernelVersion;
   telemetry.kernel = cloneKernelSpec(kernel);
+  telemetry.integrator = integratorReport;
   telemetry.orderParameter.real = avgReal;
   telemetry.orderParameter.imag = avgImag;
   telemetry.orderParameter.magnitude = Math.hypot(avgReal, avgImag);
@@ -1267,6 +2567,9 @@ export const createKuramotoInstrumentationSnapshot = (
     dt: state.telemetry.dt,
     kernelVersion: state.telemetry.kernelVersion,
     kernel: cloneKernelSpec(state.telemetry.kernel),
+    integrator: { ...state.telemetry.integrator },
+    plasticity: { ...state.telemetry.plasticity },
+    noise: { ...state.telemetry.noise },
     orderParameter: {
       magnitude: state.telemetry.orderParameter.magnitude,
       phase: state.telemetry.orderParameter.phase,
@@ -1289,6 +2592,50 @@ export const createKuramotoInstrumentationSnapshot = (
   },
 });
 
+export const snapshotKuramotoPlasticity = (
+  state: KuramotoState,
+): KuramotoPlasticitySnapshot | null => {
+  const field = state.plasticity;
+  if (!field) return null;
+  return { ...field, weights: field.weights.slice() };
+};
+
+/**
+ * Installs a learned weight field (copied), or clears it with null. A snapshot learned on a
+ * different stencil is kept but stays inactive until that stencil is selected again, unless
+ * plasticity is running, in which case learning restarts from the unbiased field.
+ */
+export const restoreKuramotoPlasticity = (
+  state: KuramotoState,
+  snapshot: KuramotoPlasticitySnapshot | null,
+) => {
+  if (!snapshot) {
+    state.plasticity = null;
+    summarizePlasticity(state.telemetry.plasticity, null, state.telemetry.plasticity.rate);
+    return;
+  }
+  if (snapshot.width !== state.width || snapshot.height !== state.height) {
+    throw new Error(
+      `[kuramotoCore] plasticity snapshot is ${snapshot.width}x${snapshot.height}; expected ${state.width}x${state.height}`,
+    );
+  }
+  if (!KURAMOTO_PLASTICITY_MODES.includes(snapshot.mode)) {
+    throw new Error(`[kuramotoCore] unknown plasticity mode "${String(snapshot.mode)}"`);
+  }
+  const expected = plasticityWeightCount(snapshot.mode, snapshot.taps, state.width, state.height);
+  if (snapshot.weights.length !== expected) {
+    throw new Error(
+      `[kuramotoCore] plasticity snapshot has ${snapshot.weights.length} weights; expected ${expected}`,
+    );
+  }
+  state.plasticity = { ...snapshot, weights: Float32Array.from(snapshot.weights) };
+  summarizePlasticity(
+    state.telemetry.plasticity,
+    state.plasticity,
+    state.telemetry.plasticity.rate,
+  );
+};
+
 export const deriveKuramotoFields = (
   state: KuramotoState,
   phase: PhaseField,
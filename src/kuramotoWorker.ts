@@ -7,16 +7,36 @@ import {
   derivedBufferSize,
   deriveKuramotoFields,
   initKuramotoState,
+  resetKuramotoNoise,
   stepKuramotoState,
   createKuramotoInstrumentationSnapshot,
+  restoreKuramotoPlasticity,
+  snapshotKuramotoPlasticity,
   type KuramotoParams,
+  type KuramotoPlasticitySnapshot,
   type KuramotoState,
   type KuramotoInstrumentationSnapshot,
+  type KuramotoIntegrator,
+  type KuramotoIntegratorOptions,
   type ThinElementSchedule,
 } from './kuramotoCore';
-import { assertPhaseField } from './fields/contracts.js';
+import { assertPhaseField, type StokesField } from './fields/contracts.js';
+import { computeStokesField } from './optics/polarization.js';
 import { clampKernelSpec, KERNEL_SPEC_DEFAULT, type KernelSpec } from './kernel/kernelSpec';
 import type { OpticalFieldMetadata } from './fields/opticalField.js';
+import {
+  resolveNaturalFrequencyField,
+  type NaturalFrequencyInput,
+} from './kuramoto/naturalFrequency.js';
+import {
+  createMultiLayerPhaseFields,
+  deriveMultiLayerKuramotoFields,
+  stepMultiLayerKuramoto,
+  syncMultiLayerKuramoto,
+  type MultiLayerKuramotoState,
+  type MultiLayerKuramotoTelemetry,
+  type MultiLayerPhaseFields,
+} from './kuramoto/multiLayer.js';
 
 type InitMessage = {
   kind: 'init';
@@ -27,6 +47,7 @@ type InitMessage = {
   buffers: ArrayBuffer[];
   seed?: number;
   componentCount?: number;
+  naturalFrequencies?: NaturalFrequencyInput | null;
 };
 
 type TickMessage = {
@@ -35,6 +56,8 @@ type TickMessage = {
   timestamp: number;
   frameId: number;
   seed?: number;
+  /** Set on the first tick after a timeline seek: re-primes coloured noise from `seed`. */
+  resetNoise?: boolean;
   schedule?: ThinElementSchedule | null;
   componentCount?: number;
 };
@@ -42,6 +65,14 @@ type TickMessage = {
 type UpdateParamsMessage = {
   kind: 'updateParams';
   params: KuramotoParams;
+  /** Omit to keep the current distribution; null restores the homogeneous lattice. */
+  naturalFrequencies?: NaturalFrequencyInput | null;
+  /** Omit to keep the learned coupling weights; null clears them. */
+  plasticity?: KuramotoPlasticitySnapshot | null;
+};
+
+type PlasticitySnapshotRequest = {
+  kind: 'plasticitySnapshot';
 };
 
 type KernelSpecMessage = {
@@ -72,6 +103,8 @@ type SimulateMessage = {
   seed?: number;
   schedule?: ThinElementSchedule | null;
   componentCount?: number;
+  integrator?: KuramotoIntegrator | KuramotoIntegratorOptions;
+  naturalFrequencies?: NaturalFrequencyInput | null;
 };
 
 type IncomingMessage =
@@ -81,7 +114,8 @@ type IncomingMessage =
   | KernelSpecMessage
   | ResetMessage
   | ReturnBufferMessage
-  | SimulateMessage;
+  | SimulateMessage
+  | PlasticitySnapshotRequest;
 
 type FrameMessage = {
   kind: 'frame';
@@ -92,10 +126,18 @@ type FrameMessage = {
   meta: OpticalFieldMetadata;
   kernelVersion: number;
   instrumentation: KuramotoInstrumentationSnapshot;
+  /** Present while `params.layers` configures a layer stack; `buffer` holds the composite. */
+  layers?: MultiLayerKuramotoTelemetry;
+  /** Stokes maps of the Jones field, sent (and transferred) only for two-component frames. */
+  stokes?: StokesField;
 };
 
 type ReadyMessage = { kind: 'ready'; width: number; height: number };
 type LogMessage = { kind: 'log'; message: string };
+type PlasticityMessage = {
+  kind: 'plasticity';
+  snapshot: KuramotoPlasticitySnapshot | null;
+};
 type SimulateResultMessage = {
   kind: 'simulateResult';
   buffers: ArrayBuffer[];
@@ -115,9 +157,14 @@ let height = 0;
 let componentCount = 1;
 let kernelSpec: KernelSpec | null = null;
 let kernelSpecVersion = 0;
+let naturalFrequencyInput: NaturalFrequencyInput | null = null;
+let naturalFrequencies: Float32Array | null = null;
+let qInit = 0;
+let layerState: MultiLayerKuramotoState | null = null;
+let layerFields: MultiLayerPhaseFields | null = null;
 
 const post = (
-  message: FrameMessage | ReadyMessage | LogMessage | SimulateResultMessage,
+  message: FrameMessage | ReadyMessage | LogMessage | SimulateResultMessage | PlasticityMessage,
   transfer?: Transferable[],
 ) => {
   if (transfer) {
@@ -127,6 +174,20 @@ const post = (
   }
 };
 
+const applyNaturalFrequencies = (input: NaturalFrequencyInput | null) => {
+  naturalFrequencyInput = input;
+  naturalFrequencies = null;
+  if (!input || !state) return;
+  try {
+    naturalFrequencies = resolveNaturalFrequencyField(state.width, state.height, input);
+  } catch (error) {
+    post({
+      kind: 'log',
+      message: `[kur-worker] ignoring natural frequencies: ${(error as Error).message}`,
+    });
+  }
+};
+
 const ensureState = (w: number, h: number, requestedComponents: number) => {
   if (
     !state ||
@@ -134,11 +195,63 @@ const ensureState = (w: number, h: number, requestedComponents: number) => {
     state.height !== h ||
     state.componentCount !== requestedComponents
   ) {
+    const resized = !state || state.width !== w || state.height !== h;
+    const learned = !resized ? (state?.plasticity ?? null) : null;
     state = createKuramotoState(w, h, undefined, { componentCount: requestedComponents });
+    state.plasticity = learned;
     componentCount = requestedComponents;
+    if (resized) {
+      applyNaturalFrequencies(naturalFrequencyInput);
+    }
   }
 };
 
+const applyPlasticity = (snapshot: KuramotoPlasticitySnapshot | null) => {
+  if (!state) return;
+  try {
+    restoreKuramotoPlasticity(state, snapshot);
+  } catch (error) {
+    post({
+      kind: 'log',
+      message: `[kur-worker] ignoring plasticity snapshot: ${(error as Error).message}`,
+    });
+  }
+};
+
+const syncLayers = () => {
+  if (!state || !params) return null;
+  try {
+    layerState = syncMultiLayerKuramoto(state, params, layerState, {
+      qInit,
+      naturalFrequencies,
+    });
+  } catch (error) {
+    layerState = null;
+    post({ kind: 'log', message: `[kur-worker] ignoring layers: ${(error as Error).message}` });
+  }
+  return layerState;
+};
+
+const ensureLayerFields = (layers: MultiLayerKuramotoState) => {
+  if (
+    !layerFields ||
+    layerFields.layers.length !== layers.layers.length ||
+    layerFields.composite.resolution.width !== layers.width ||
+    layerFields.composite.resolution.height !== layers.height
+  ) {
+    layerFields = createMultiLayerPhaseFields(layers);
+  }
+  return layerFields.layers;
+};
+
+const handlePlasticitySnapshot = () => {
+  const snapshot = state ? snapshotKuramotoPlasticity(state) : null;
+  post(
+    { kind: 'plasticity', snapshot },
+    snapshot ? [snapshot.weights.buffer as ArrayBuffer] : undefined,
+  );
+};
+
 const ensureRand = (seed?: number) => {
   randn = createNormalGenerator(seed);
 };
@@ -166,19 +279,43 @@ const handleTick = (msg: TickMessage) => {
     ensureRand(msg.seed);
   }
   const activeKernel = kernelSpec ?? KERNEL_SPEC_DEFAULT;
-  stepKuramotoState(state, params, msg.dt, randn, msg.timestamp, {
-    kernel: activeKernel,
-    telemetry: { kernelVersion: kernelSpecVersion },
-    schedule: msg.schedule ?? undefined,
-  });
+  const schedule = msg.schedule ?? undefined;
+  const layers = syncLayers();
+  if (msg.resetNoise) {
+    resetKuramotoNoise(state);
+    layers?.layers.forEach((layer) => resetKuramotoNoise(layer.state));
+  }
+  if (layers) {
+    stepMultiLayerKuramoto(layers, msg.dt, randn, msg.timestamp, {
+      kernel: activeKernel,
+      telemetry: { kernelVersion: kernelSpecVersion },
+      schedule,
+    });
+  } else {
+    stepKuramotoState(state, params, msg.dt, randn, msg.timestamp, {
+      kernel: activeKernel,
+      telemetry: { kernelVersion: kernelSpecVersion },
+      schedule,
+      naturalFrequencies,
+    });
+  }
   const meta = state.field.getMeta();
   const derived = createDerivedViews(buffer, state.width, state.height);
   assertPhaseField(derived, 'worker:tick');
-  deriveKuramotoFields(state, derived, {
-    kernel: activeKernel,
-    schedule: msg.schedule ?? undefined,
-  });
+  if (layers) {
+    deriveMultiLayerKuramotoFields(
+      layers,
+      { layers: ensureLayerFields(layers), composite: derived },
+      { kernel: activeKernel, schedule },
+    );
+  } else {
+    deriveKuramotoFields(state, derived, {
+      kernel: activeKernel,
+      schedule,
+    });
+  }
   const instrumentation = createKuramotoInstrumentationSnapshot(state);
+  const stokes = state.field.componentCount > 1 ? computeStokesField(state.field) : undefined;
   post(
     {
       kind: 'frame',
@@ -189,8 +326,18 @@ const handleTick = (msg: TickMessage) => {
       kernelVersion: kernelSpecVersion,
       meta,
       instrumentation,
+      layers: layers?.telemetry,
+      stokes,
     },
-    [buffer],
+    stokes
+      ? [
+          buffer,
+          stokes.s0.buffer as ArrayBuffer,
+          stokes.s1.buffer as ArrayBuffer,
+          stokes.s2.buffer as ArrayBuffer,
+          stokes.s3.buffer as ArrayBuffer,
+        ]
+      : [buffer],
   );
 };
 
@@ -203,6 +350,9 @@ const handleInit = (msg: InitMessage) => {
   ensureRand(msg.seed);
   bufferPool = [...msg.buffers];
   if (!state) return;
+  applyNaturalFrequencies(msg.naturalFrequencies ?? null);
+  qInit = msg.qInit;
+  layerState = null;
   initKuramotoState(state, msg.qInit);
   post({ kind: 'ready', width: state.width, height: state.height });
 };
@@ -210,6 +360,8 @@ const handleInit = (msg: InitMessage) => {
 const handleReset = (msg: ResetMessage) => {
   if (!state) return;
   ensureRand(msg.seed);
+  qInit = msg.qInit;
+  layerState = null;
   initKuramotoState(state, msg.qInit);
 };
 
@@ -224,18 +376,57 @@ const handleSimulate = (msg: SimulateMessage) => {
   const buffers: ArrayBuffer[] = [];
   const activeKernel = kernelSpec ?? KERNEL_SPEC_DEFAULT;
   const schedule = msg.schedule ?? undefined;
-  for (let frame = 0; frame < msg.frameCount; frame++) {
-    stepKuramotoState(simState, simParams, msg.dt, simRand, msg.dt * (frame + 1), {
-      kernel: activeKernel,
-      schedule,
+  let simFrequencies = msg.width === width && msg.height === height ? naturalFrequencies : null;
+  if (msg.naturalFrequencies !== undefined) {
+    try {
+      simFrequencies = resolveNaturalFrequencyField(msg.width, msg.height, msg.naturalFrequencies);
+    } catch (error) {
+      simFrequencies = null;
+      post({
+        kind: 'log',
+        message: `[kur-worker] simulate ignoring natural frequencies: ${(error as Error).message}`,
+      });
+    }
+  }
+  const simLayers = syncMultiLayerKuramoto(simState, simParams, null, {
+    qInit: msg.qInit,
+    naturalFrequencies: simFrequencies,
+  });
+  if (simLayers) {
+    simLayers.layers.forEach((layer) => {
+      layer.integrator = msg.integrator;
     });
+  }
+  const simLayerFields = simLayers ? createMultiLayerPhaseFields(simLayers).layers : [];
+  for (let frame = 0; frame < msg.frameCount; frame++) {
+    if (simLayers) {
+      stepMultiLayerKuramoto(simLayers, msg.dt, simRand, msg.dt * (frame + 1), {
+        kernel: activeKernel,
+        schedule,
+      });
+    } else {
+      stepKuramotoState(simState, simParams, msg.dt, simRand, msg.dt * (frame + 1), {
+        kernel: activeKernel,
+        schedule,
+        integrator: msg.integrator,
+        naturalFrequencies: simFrequencies,
+      });
+    }
     const out = new ArrayBuffer(size);
     const derived = createDerivedViews(out, msg.width, msg.height);
     assertPhaseField(derived, 'worker:simulate');
-    deriveKuramotoFields(simState, derived, {
-      kernel: activeKernel,
-      schedule,
-    });
+    if (simLayers) {
+      deriveMultiLayerKuramotoFields(
+        simLayers,
+        { layers: simLayerFields, composite: derived },
+        { kernel: activeKernel, schedule },
+      );
+    } else {
+      deriveKuramotoFields(simState, derived, {
+        kernel: activeKernel,
+        schedule,
+      });
+    }
     buffers.push(out);
   }
   post(
@@ -261,6 +452,12 @@ ctx.onmessage = (event: MessageEvent<IncomingMessage>) => {
       break;
     case 'updateParams':
       params = { ...msg.params };
+      if (msg.naturalFrequencies !== undefined) {
+        applyNaturalFrequencies(msg.naturalFrequencies);
+      }
+      if (msg.plasticity !== undefined) {
+        applyPlasticity(msg.plasticity);
+      }
       break;
     case 'kernelSpec':
       kernelSpec = clampKernelSpec(msg.spec);
@@ -275,6 +472,9 @@ ctx.onmessage = (event: MessageEvent<IncomingMessage>) => {
     case 'simulate':
       handleSimulate(msg);
       break;
+    case 'plasticitySnapshot':
+      handlePlasticitySnapshot();
+      break;
     default:
       post({
         kind: 'log',
@@ -1,4 +1,5 @@
 import type {
+  ManifestPrimitive,
   ManifestTimelineClip,
   ManifestTimelineKeyframe,
   SceneManifest,
@@ -84,6 +85,7 @@ const mapClip = (clip: ManifestTimelineClip): TimelineClip => ({
   nodeId: clip.nodeId,
   parameterId: clip.parameterId,
   keyframes: clip.keyframes.map(mapKeyframe),
+  interpolation: clip.interpolation,
 });
 
 const DEFAULT_TIMELINE_DURATION = 12;
@@ -109,6 +111,50 @@ const createTimeline = (manifest: SceneManifest): TimelineState => {
   };
 };
 
+/**
+ * Value of `clip` at `time` seconds, held constant outside the keyframe range. Numeric
+ * keyframes interpolate per the clip (Catmull–Rom for 'spline'); other values step, as do clips
+ * without an interpolation, matching `evaluateTimeline` lanes.
+ */
+export function sampleTimelineClip(
+  clip: TimelineClip,
+  time: number,
+): ManifestPrimitive | undefined {
+  const keyframes = [...clip.keyframes].sort((a, b) => a.time - b.time);
+  if (keyframes.length === 0) {
+    return undefined;
+  }
+  const first = keyframes[0]!;
+  const last = keyframes[keyframes.length - 1]!;
+  if (time <= first.time) return first.value;
+  if (time >= last.time) return last.value;
+  let index = 0;
+  while (keyframes[index + 1]!.time <= time) index++;
+  const a = keyframes[index]!;
+  const b = keyframes[index + 1]!;
+  const interpolation = clip.interpolation ?? 'step';
+  if (interpolation === 'step' || typeof a.value !== 'number' || typeof b.value !== 'number') {
+    return a.value;
+  }
+  const t = (time - a.time) / (b.time - a.time);
+  if (interpolation === 'linear') {
+    return a.value + (b.value - a.value) * t;
+  }
+  const numeric = (frame: TimelineKeyframe | undefined, fallback: number) =>
+    typeof frame?.value === 'number' ? frame.value : fallback;
+  const p0 = numeric(keyframes[index - 1], a.value);
+  const p3 = numeric(keyframes[index + 2], b.value);
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    0.5 *
+    (2 * a.value +
+      (b.value - p0) * t +
+      (2 * p0 - 5 * a.value + 4 * b.value - p3) * t2 +
+      (3 * a.value - p0 - 3 * b.value + p3) * t3)
+  );
+}
+
 export interface ManifestRuntimeBundle {
   readonly scene: SceneGraphState;
   readonly timeline: TimelineState;
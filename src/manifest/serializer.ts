@@ -104,6 +104,7 @@ export const serializeSceneManifest = (
           value: keyframe.value,
           easing: keyframe.easing,
         })),
+        interpolation: clip.interpolation,
       })),
     },
     controls: manifestControls,
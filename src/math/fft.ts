@@ -0,0 +1,529 @@
+export type FloatPlane = Float32Array | Float64Array;
+
+export type ComplexPlane<T extends FloatPlane = Float32Array> = {
+  real: T;
+  imag: T;
+};
+
+export type FftAlgorithm = 'identity' | 'radix2' | 'mixedRadix' | 'bluestein';
+
+/**
+ * Cached twiddle/factorisation plan for one transform length. Plans own their scratch
+ * lines, so a plan must not be re-entered while a transform using it is in flight.
+ */
+export type FftPlan = {
+  readonly size: number;
+  readonly algorithm: FftAlgorithm;
+  readonly factors: readonly number[];
+  readonly cos: Float64Array;
+  readonly sin: Float64Array;
+  readonly bitReverse: Int32Array | null;
+  readonly bluestein: BluesteinPlan | null;
+  readonly lineReal: Float64Array;
+  readonly lineImag: Float64Array;
+  readonly scratchReal: Float64Array;
+  readonly scratchImag: Float64Array;
+  readonly radixReal: Float64Array;
+  readonly radixImag: Float64Array;
+};
+
+type BluesteinPlan = {
+  inner: FftPlan;
+  chirpReal: Float64Array;
+  chirpImag: Float64Array;
+  kernelReal: Float64Array;
+  kernelImag: Float64Array;
+  bufferReal: Float64Array;
+  bufferImag: Float64Array;
+};
+
+export type FftLineOptions = {
+  inverse?: boolean;
+  offset?: number;
+  stride?: number;
+  length?: number;
+};
+
+export type Fft2dOptions = {
+  inverse?: boolean;
+};
+
+const TAU = Math.PI * 2;
+
+/** Radices handled by the mixed-radix butterflies; larger prime factors route to Bluestein. */
+const MAX_DIRECT_RADIX = 13;
+
+const PLAN_CACHE = new Map<number, FftPlan>();
+
+const isPowerOfTwo = (value: number) => value > 0 && (value & (value - 1)) === 0;
+
+const nextPowerOfTwo = (value: number) => {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+};
+
+/**
+ * Smallest length ≥ `value` whose prime factors are all 2, 3 or 5. Padding to such a
+ * length keeps zero-padded convolutions on the mixed-radix path.
+ */
+export const nextFastLength = (value: number) => {
+  let candidate = Math.max(1, Math.ceil(value));
+  for (;;) {
+    let remaining = candidate;
+    for (const p of [2, 3, 5]) {
+      while (remaining % p === 0) remaining /= p;
+    }
+    if (remaining === 1) return candidate;
+    candidate += 1;
+  }
+};
+
+const assertLength = (size: number) => {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`[fft] transform length must be a positive integer (received ${size})`);
+  }
+};
+
+const factorize = (size: number): number[] => {
+  const factors: number[] = [];
+  let remaining = size;
+  while (remaining % 4 === 0) {
+    factors.push(4);
+    remaining /= 4;
+  }
+  for (let p = 2; p * p <= remaining; p++) {
+    while (remaining % p === 0) {
+      factors.push(p);
+      remaining /= p;
+    }
+  }
+  if (remaining > 1) factors.push(remaining);
+  return factors;
+};
+
+const buildBitReverse = (size: number) => {
+  const table = new Int32Array(size);
+  const bits = Math.round(Math.log2(size));
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) {
+      reversed |= ((i >> b) & 1) << (bits - 1 - b);
+    }
+    table[i] = reversed;
+  }
+  return table;
+};
+
+const buildBluesteinPlan = (size: number): BluesteinPlan => {
+  const innerSize = nextPowerOfTwo(2 * size - 1);
+  const inner = getFftPlan(innerSize);
+  const chirpReal = new Float64Array(size);
+  const chirpImag = new Float64Array(size);
+  const twoN = 2 * size;
+  for (let k = 0; k < size; k++) {
+    // k² mod 2n keeps the chirp argument small for long transforms.
+    const angle = (-Math.PI * ((k * k) % twoN)) / size;
+    chirpReal[k] = Math.cos(angle);
+    chirpImag[k] = Math.sin(angle);
+  }
+  const kernelReal = new Float64Array(innerSize);
+  const kernelImag = new Float64Array(innerSize);
+  kernelReal[0] = chirpReal[0];
+  kernelImag[0] = -chirpImag[0];
+  for (let k = 1; k < size; k++) {
+    kernelReal[k] = chirpReal[k];
+    kernelImag[k] = -chirpImag[k];
+    kernelReal[innerSize - k] = chirpReal[k];
+    kernelImag[innerSize - k] = -chirpImag[k];
+  }
+  transformLine(inner, kernelReal, kernelImag);
+  return {
+    inner,
+    chirpReal,
+    chirpImag,
+    kernelReal,
+    kernelImag,
+    bufferReal: new Float64Array(innerSize),
+    bufferImag: new Float64Array(innerSize),
+  };
+};
+
+/** Returns the cached plan for `size`, building twiddles and factorisation on first use. */
+export const getFftPlan = (size: number): FftPlan => {
+  assertLength(size);
+  const cached = PLAN_CACHE.get(size);
+  if (cached) return cached;
+  const factors = size === 1 ? [] : factorize(size);
+  const largestFactor = factors.reduce((max, factor) => Math.max(max, factor), 1);
+  const algorithm: FftAlgorithm =
+    size === 1
+      ? 'identity'
+      : isPowerOfTwo(size)
+        ? 'radix2'
+        : largestFactor <= MAX_DIRECT_RADIX
+          ? 'mixedRadix'
+          : 'bluestein';
+  const cos = new Float64Array(size);
+  const sin = new Float64Array(size);
+  for (let k = 0; k < size; k++) {
+    const angle = (-TAU * k) / size;
+    cos[k] = Math.cos(angle);
+    sin[k] = Math.sin(angle);
+  }
+  const plan: FftPlan = {
+    size,
+    algorithm,
+    factors,
+    cos,
+    sin,
+    bitReverse: algorithm === 'radix2' ? buildBitReverse(size) : null,
+    bluestein: algorithm === 'bluestein' ? buildBluesteinPlan(size) : null,
+    lineReal: new Float64Array(size),
+    lineImag: new Float64Array(size),
+    scratchReal: new Float64Array(size),
+    scratchImag: new Float64Array(size),
+    radixReal: new Float64Array(largestFactor),
+    radixImag: new Float64Array(largestFactor),
+  };
+  PLAN_CACHE.set(size, plan);
+  return plan;
+};
+
+export const clearFftPlanCache = () => {
+  PLAN_CACHE.clear();
+};
+
+const radix2 = (plan: FftPlan, real: Float64Array, imag: Float64Array) => {
+  const n = plan.size;
+  const rev = plan.bitReverse!;
+  for (let i = 0; i < n; i++) {
+    const j = rev[i];
+    if (j > i) {
+      const tr = real[i];
+      const ti = imag[i];
+      real[i] = real[j];
+      imag[i] = imag[j];
+      real[j] = tr;
+      imag[j] = ti;
+    }
+  }
+  for (let span = 2; span <= n; span <<= 1) {
+    const half = span >> 1;
+    const stride = n / span;
+    for (let start = 0; start < n; start += span) {
+      for (let k = 0; k < half; k++) {
+        const wr = plan.cos[k * stride];
+        const wi = plan.sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const br = real[b] * wr - imag[b] * wi;
+        const bi = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - br;
+        imag[b] = imag[a] - bi;
+        real[a] += br;
+        imag[a] += bi;
+      }
+    }
+  }
+};
+
+/**
+ * Recursive decimation-in-time Cooley–Tukey over the plan's factor list. Reads `n`
+ * samples from `in*` at `inOffset` with `inStride` and writes the transform contiguously
+ * into `out*` at `outOffset`.
+ */
+const mixedRadixPass = (
+  plan: FftPlan,
+  inReal: Float64Array,
+  inImag: Float64Array,
+  inOffset: number,
+  inStride: number,
+  outReal: Float64Array,
+  outImag: Float64Array,
+  outOffset: number,
+  n: number,
+  factorIndex: number,
+) => {
+  if (n === 1) {
+    outReal[outOffset] = inReal[inOffset];
+    outImag[outOffset] = inImag[inOffset];
+    return;
+  }
+  const p = plan.factors[factorIndex]!;
+  const m = n / p;
+  for (let q = 0; q < p; q++) {
+    mixedRadixPass(
+      plan,
+      inReal,
+      inImag,
+      inOffset + q * inStride,
+      inStride * p,
+      outReal,
+      outImag,
+      outOffset + q * m,
+      m,
+      factorIndex + 1,
+    );
+  }
+  const twiddleStep = plan.size / n;
+  const rootStep = plan.size / p;
+  const size = plan.size;
+  const tempReal = plan.radixReal;
+  const tempImag = plan.radixImag;
+  for (let k = 0; k < m; k++) {
+    for (let q = 0; q < p; q++) {
+      const idx = outOffset + q * m + k;
+      const t = (q * k * twiddleStep) % size;
+      const wr = plan.cos[t];
+      const wi = plan.sin[t];
+      const r = outReal[idx];
+      const im = outImag[idx];
+      tempReal[q] = r * wr - im * wi;
+      tempImag[q] = r * wi + im * wr;
+    }
+    for (let s = 0; s < p; s++) {
+      let sumR = 0;
+      let sumI = 0;
+      for (let q = 0; q < p; q++) {
+        const t = ((q * s) % p) * rootStep;
+        const wr = plan.cos[t];
+        const wi = plan.sin[t];
+        sumR += tempReal[q] * wr - tempImag[q] * wi;
+        sumI += tempReal[q] * wi + tempImag[q] * wr;
+      }
+      const idx = outOffset + s * m + k;
+      outReal[idx] = sumR;
+      outImag[idx] = sumI;
+    }
+  }
+};
+
+const bluestein = (plan: FftPlan, real: Float64Array, imag: Float64Array) => {
+  const n = plan.size;
+  const context = plan.bluestein!;
+  const { inner, chirpReal, chirpImag, kernelReal, kernelImag, bufferReal, bufferImag } = context;
+  bufferReal.fill(0);
+  bufferImag.fill(0);
+  for (let k = 0; k < n; k++) {
+    bufferReal[k] = real[k] * chirpReal[k] - imag[k] * chirpImag[k];
+    bufferImag[k] = real[k] * chirpImag[k] + imag[k] * chirpReal[k];
+  }
+  transformLine(inner, bufferReal, bufferImag);
+  for (let k = 0; k < inner.size; k++) {
+    const r = bufferReal[k];
+    const im = bufferImag[k];
+    // Conjugate the product so the forward inner plan performs the inverse transform.
+    bufferReal[k] = r * kernelReal[k] - im * kernelImag[k];
+    bufferImag[k] = -(r * kernelImag[k] + im * kernelReal[k]);
+  }
+  transformLine(inner, bufferReal, bufferImag);
+  const norm = 1 / inner.size;
+  for (let k = 0; k < n; k++) {
+    const r = bufferReal[k] * norm;
+    const im = -bufferImag[k] * norm;
+    real[k] = r * chirpReal[k] - im * chirpImag[k];
+    imag[k] = r * chirpImag[k] + im * chirpReal[k];
+  }
+};
+
+/** Unnormalised forward DFT of a contiguous Float64 line of length `plan.size`. */
+const transformLine = (plan: FftPlan, real: Float64Array, imag: Float64Array) => {
+  switch (plan.algorithm) {
+    case 'identity':
+      return;
+    case 'radix2':
+      radix2(plan, real, imag);
+      return;
+    case 'mixedRadix': {
+      const { scratchReal, scratchImag } = plan;
+      scratchReal.set(real.subarray(0, plan.size));
+      scratchImag.set(imag.subarray(0, plan.size));
+      mixedRadixPass(plan, scratchReal, scratchImag, 0, 1, real, imag, 0, plan.size, 0);
+      return;
+    }
+    case 'bluestein':
+      bluestein(plan, real, imag);
+      return;
+    default:
+      return;
+  }
+};
+
+/**
+ * In-place complex-to-complex transform of one line inside a larger plane. The forward
+ * transform is unnormalised; the inverse applies 1/n so a round trip is the identity.
+ */
+export const fft1d = (real: FloatPlane, imag: FloatPlane, options?: FftLineOptions) => {
+  const offset = options?.offset ?? 0;
+  const stride = options?.stride ?? 1;
+  const size = options?.length ?? Math.floor((real.length - offset - 1) / stride) + 1;
+  transformStridedLine(getFftPlan(size), real, imag, offset, stride, options?.inverse ?? false);
+};
+
+const transformStridedLine = (
+  plan: FftPlan,
+  real: FloatPlane,
+  imag: FloatPlane,
+  offset: number,
+  stride: number,
+  inverse: boolean,
+) => {
+  const n = plan.size;
+  const lineReal = plan.lineReal;
+  const lineImag = plan.lineImag;
+  // The inverse is computed as conj(DFT(conj(x))) / n so every path shares one kernel.
+  const sign = inverse ? -1 : 1;
+  for (let i = 0, j = offset; i < n; i++, j += stride) {
+    lineReal[i] = real[j];
+    lineImag[i] = sign * imag[j];
+  }
+  transformLine(plan, lineReal, lineImag);
+  const norm = inverse ? 1 / n : 1;
+  for (let i = 0, j = offset; i < n; i++, j += stride) {
+    real[j] = lineReal[i] * norm;
+    imag[j] = sign * lineImag[i] * norm;
+  }
+};
+
+/**
+ * In-place 2D complex-to-complex transform of a row-major `width × height` plane.
+ * Rows are transformed first, then columns; the inverse is normalised by 1/(width·height).
+ */
+export const fft2d = (
+  real: FloatPlane,
+  imag: FloatPlane,
+  width: number,
+  height: number,
+  options?: Fft2dOptions,
+) => {
+  const texels = width * height;
+  if (real.length < texels || imag.length < texels) {
+    throw new Error(
+      `[fft] plane length ${Math.min(real.length, imag.length)} is smaller than ${width}x${height}`,
+    );
+  }
+  const inverse = options?.inverse ?? false;
+  const rowPlan = getFftPlan(width);
+  const columnPlan = getFftPlan(height);
+  for (let y = 0; y < height; y++) {
+    transformStridedLine(rowPlan, real, imag, y * width, 1, inverse);
+  }
+  for (let x = 0; x < width; x++) {
+    transformStridedLine(columnPlan, real, imag, x, width, inverse);
+  }
+};
+
+/** Width of the Hermitian half spectrum produced by {@link rfft2d}. */
+export const halfSpectrumWidth = (width: number) => Math.floor(width / 2) + 1;
+
+/**
+ * Real-to-complex 2D transform. Returns the non-redundant `(floor(width/2)+1) × height`
+ * half spectrum; pairs of rows are packed into one complex FFT.
+ */
+export const rfft2d = (
+  input: FloatPlane,
+  width: number,
+  height: number,
+  out?: ComplexPlane,
+): ComplexPlane => {
+  if (input.length < width * height) {
+    throw new Error(`[fft] real plane length ${input.length} is smaller than ${width}x${height}`);
+  }
+  const halfWidth = halfSpectrumWidth(width);
+  const spectrum = out ?? {
+    real: new Float32Array(halfWidth * height),
+    imag: new Float32Array(halfWidth * height),
+  };
+  if (spectrum.real.length < halfWidth * height || spectrum.imag.length < halfWidth * height) {
+    throw new Error(`[fft] half spectrum buffer is smaller than ${halfWidth}x${height}`);
+  }
+  const plan = getFftPlan(width);
+  const lineReal = plan.lineReal;
+  const lineImag = plan.lineImag;
+  for (let y = 0; y < height; y += 2) {
+    const rowA = y * width;
+    const hasPair = y + 1 < height;
+    const rowB = rowA + width;
+    for (let x = 0; x < width; x++) {
+      lineReal[x] = input[rowA + x];
+      lineImag[x] = hasPair ? input[rowB + x] : 0;
+    }
+    transformLine(plan, lineReal, lineImag);
+    const outA = y * halfWidth;
+    const outB = outA + halfWidth;
+    for (let k = 0; k < halfWidth; k++) {
+      const mirror = k === 0 ? 0 : width - k;
+      const zr = lineReal[k];
+      const zi = lineImag[k];
+      const cr = lineReal[mirror];
+      const ci = -lineImag[mirror];
+      spectrum.real[outA + k] = 0.5 * (zr + cr);
+      spectrum.imag[outA + k] = 0.5 * (zi + ci);
+      if (hasPair) {
+        spectrum.real[outB + k] = 0.5 * (zi - ci);
+        spectrum.imag[outB + k] = -0.5 * (zr - cr);
+      }
+    }
+  }
+  const columnPlan = getFftPlan(height);
+  for (let x = 0; x < halfWidth; x++) {
+    transformStridedLine(columnPlan, spectrum.real, spectrum.imag, x, halfWidth, false);
+  }
+  return spectrum;
+};
+
+/**
+ * Inverse of {@link rfft2d}. The half spectrum is consumed as scratch and overwritten;
+ * the real plane is normalised by 1/(width·height).
+ */
+export const irfft2d = (
+  spectrum: ComplexPlane<FloatPlane>,
+  width: number,
+  height: number,
+  out?: FloatPlane,
+): FloatPlane => {
+  const halfWidth = halfSpectrumWidth(width);
+  if (spectrum.real.length < halfWidth * height || spectrum.imag.length < halfWidth * height) {
+    throw new Error(`[fft] half spectrum buffer is smaller than ${halfWidth}x${height}`);
+  }
+  const target = out ?? new Float32Array(width * height);
+  const columnPlan = getFftPlan(height);
+  for (let x = 0; x < halfWidth; x++) {
+    transformStridedLine(columnPlan, spectrum.real, spectrum.imag, x, halfWidth, true);
+  }
+  const plan = getFftPlan(width);
+  const lineReal = plan.lineReal;
+  const lineImag = plan.lineImag;
+  const norm = 1 / width;
+  for (let y = 0; y < height; y += 2) {
+    const rowA = y * halfWidth;
+    const hasPair = y + 1 < height;
+    const rowB = rowA + halfWidth;
+    // Z = A + iB for Hermitian spectra A and B, conjugated for the inverse transform.
+    for (let k = 0; k < width; k++) {
+      const mirrored = k >= halfWidth;
+      const src = mirrored ? width - k : k;
+      const ar = spectrum.real[rowA + src];
+      const ai = mirrored ? -spectrum.imag[rowA + src] : spectrum.imag[rowA + src];
+      let br = 0;
+      let bi = 0;
+      if (hasPair) {
+        br = spectrum.real[rowB + src];
+        bi = mirrored ? -spectrum.imag[rowB + src] : spectrum.imag[rowB + src];
+      }
+      lineReal[k] = ar - bi;
+      lineImag[k] = -(ai + br);
+    }
+    transformLine(plan, lineReal, lineImag);
+    const outA = y * width;
+    const outB = outA + width;
+    for (let x = 0; x < width; x++) {
+      target[outA + x] = lineReal[x] * norm;
+      if (hasPair) {
+        target[outB + x] = -lineImag[x] * norm;
+      }
+    }
+  }
+  return target;
+};
@@ -1,6 +1,8 @@
+import type { VolumeField } from '../fields/contracts.js';
 import type { MediaPipelineResult } from './mediaPipeline';
 
 const pipelineCache = new Map<string, MediaPipelineResult>();
+const depthCache = new Map<string, VolumeField>();
 
 export const storeMediaResult = (assetId: string, result: MediaPipelineResult): void => {
   pipelineCache.set(assetId, result);
@@ -12,8 +14,19 @@ export const getMediaResult = (assetId: string): MediaPipelineResult | undefined
 
 export const removeMediaResult = (assetId: string): void => {
   pipelineCache.delete(assetId);
+  depthCache.delete(assetId);
+};
+
+/** Depth assets skip the image pipeline; their normalised volume is cached instead. */
+export const storeDepthVolume = (assetId: string, volume: VolumeField): void => {
+  depthCache.set(assetId, volume);
+};
+
+export const getDepthVolume = (assetId: string): VolumeField | undefined => {
+  return depthCache.get(assetId);
 };
 
 export const clearMediaCache = (): void => {
   pipelineCache.clear();
+  depthCache.clear();
 };
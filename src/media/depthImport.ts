@@ -0,0 +1,390 @@
+import { makeResolution, type VolumeField } from '../fields/contracts.js';
+
+/**
+ * External depth data as a `VolumeField` source. Supported containers:
+ *
+ * - PNG, 8- or 16-bit, non-interlaced, any non-palette colour type (channel 0 is the depth)
+ * - PGM, binary (P5) or ASCII (P2), with any maxval up to 65535
+ * - PFM, greyscale (Pf) or colour (PF, channel 0), either endianness
+ *
+ * Raw samples keep their file units; `depthMapToVolumeField` maps `[near, far]` onto the
+ * contract's normalised `0 … 1` depth.
+ */
+
+export type DepthMapFormat = 'png' | 'pgm' | 'pfm';
+
+export type DepthMap = {
+  width: number;
+  height: number;
+  format: DepthMapFormat;
+  /** Row-major from the top row; non-finite samples mark holes. */
+  data: Float32Array;
+  /** Largest representable integer sample (null for PFM floats). */
+  maxValue: number | null;
+};
+
+export type DepthInflate = (bytes: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+export type DepthDecodeOptions = {
+  /** zlib inflater for PNG data; defaults to the platform `DecompressionStream`. */
+  inflate?: DepthInflate;
+};
+
+export type DepthPhaseOptions = {
+  wavelengthNm: number;
+  /** Physical span of the normalised near → far range. */
+  rangeMeters: number;
+  /** Path multiplier: 2 for reflected (round-trip) depth, 1 for transmission. */
+  pathFactor?: number;
+};
+
+export type DepthVolumeOptions = {
+  /** Raw value mapped to depth 0; defaults to the smallest finite sample. */
+  near?: number;
+  /** Raw value mapped to depth 1; defaults to the largest finite sample. */
+  far?: number;
+  /** Treat larger raw values as nearer (disparity and inverse-depth maps). */
+  invert?: boolean;
+  /** Derive phase as `k₀ · pathFactor · depth · rangeMeters` (wrapped); zero otherwise. */
+  phase?: DepthPhaseOptions | null;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const defaultInflate: DepthInflate = async (bytes) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('[depthImport] no zlib inflater available; pass options.inflate');
+  }
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const sniffFormat = (bytes: Uint8Array): DepthMapFormat | null => {
+  if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return 'png';
+  if (bytes[0] === 0x50 /* P */) {
+    if (bytes[1] === 0x35 /* 5 */ || bytes[1] === 0x32 /* 2 */) return 'pgm';
+    if (bytes[1] === 0x66 /* f */ || bytes[1] === 0x46 /* F */) return 'pfm';
+  }
+  return null;
+};
+
+const detectFormat = (bytes: Uint8Array): DepthMapFormat => {
+  const format = sniffFormat(bytes);
+  if (!format) {
+    throw new Error('[depthImport] unrecognised depth map (expected PNG, PGM or PFM)');
+  }
+  return format;
+};
+
+/**
+ * Classifies a file from its first 32 bytes: PGM and PFM are always depth, PNG only when its
+ * IHDR (always the first chunk) declares 16-bit samples, since 8-bit PNGs are usually pictures.
+ */
+export const sniffDepthMap = (bytes: Uint8Array): DepthMapFormat | null => {
+  const format = sniffFormat(bytes);
+  if (format !== 'png') return format;
+  return bytes[24] === 16 ? 'png' : null;
+};
+
+const assertResolution = (width: number, height: number) => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`[depthImport] invalid resolution ${width}x${height}`);
+  }
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const decodePng = async (bytes: Uint8Array, inflate: DepthInflate): Promise<DepthMap> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  const idat: Uint8Array[] = [];
+  while (offset + 8 <= bytes.byteLength) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (data.byteLength !== length) {
+      throw new Error(`[depthImport] truncated PNG chunk ${type}`);
+    }
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8]!;
+      colorType = data[9]!;
+      if (data[12] !== 0) {
+        throw new Error('[depthImport] interlaced PNG depth maps are not supported');
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  assertResolution(width, height);
+  const channels = PNG_CHANNELS[colorType];
+  if (channels == null || (bitDepth !== 8 && bitDepth !== 16)) {
+    throw new Error(
+      `[depthImport] unsupported PNG (colour type ${colorType}, ${bitDepth}-bit); expected 8/16-bit non-palette`,
+    );
+  }
+  let compressedLength = 0;
+  for (const part of idat) compressedLength += part.byteLength;
+  const compressed = new Uint8Array(compressedLength);
+  let cursor = 0;
+  for (const part of idat) {
+    compressed.set(part, cursor);
+    cursor += part.byteLength;
+  }
+  const raw = await inflate(compressed);
+  const sampleBytes = bitDepth / 8;
+  const pixelBytes = channels * sampleBytes;
+  const stride = width * pixelBytes;
+  if (raw.byteLength < height * (stride + 1)) {
+    throw new Error(
+      `[depthImport] PNG data holds ${raw.byteLength} bytes; expected ${height * (stride + 1)}`,
+    );
+  }
+  const data = new Float32Array(width * height);
+  let previous = new Uint8Array(stride);
+  let current = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    const filter = raw[rowStart]!;
+    for (let i = 0; i < stride; i++) {
+      const x = raw[rowStart + 1 + i]!;
+      const a = i >= pixelBytes ? current[i - pixelBytes]! : 0;
+      const b = previous[i]!;
+      const c = i >= pixelBytes ? previous[i - pixelBytes]! : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = x;
+          break;
+        case 1:
+          value = x + a;
+          break;
+        case 2:
+          value = x + b;
+          break;
+        case 3:
+          value = x + ((a + b) >> 1);
+          break;
+        case 4:
+          value = x + paeth(a, b, c);
+          break;
+        default:
+          throw new Error(`[depthImport] invalid PNG filter ${filter} on row ${y}`);
+      }
+      current[i] = value & 0xff;
+    }
+    for (let px = 0; px < width; px++) {
+      const base = px * pixelBytes;
+      data[y * width + px] =
+        sampleBytes === 2 ? (current[base]! << 8) | current[base + 1]! : current[base]!;
+    }
+    [previous, current] = [current, previous];
+  }
+  return { width, height, format: 'png', data, maxValue: bitDepth === 16 ? 65535 : 255 };
+};
+
+/** Splits a netpbm-style header into `count` whitespace tokens, skipping `#` comments. */
+const readHeaderTokens = (bytes: Uint8Array, count: number) => {
+  const tokens: string[] = [];
+  let offset = 0;
+  while (tokens.length < count) {
+    while (offset < bytes.byteLength) {
+      const ch = bytes[offset]!;
+      if (ch === 0x23 /* # */) {
+        while (offset < bytes.byteLength && bytes[offset] !== 0x0a) offset++;
+      } else if (ch === 0x20 || ch === 0x09 || ch === 0x0a || ch === 0x0d) {
+        offset++;
+      } else {
+        break;
+      }
+    }
+    const start = offset;
+    while (offset < bytes.byteLength && bytes[offset]! > 0x20) offset++;
+    if (start === offset) {
+      throw new Error('[depthImport] truncated header');
+    }
+    tokens.push(String.fromCharCode(...bytes.subarray(start, offset)));
+  }
+  // Exactly one whitespace byte separates the header from binary data.
+  return { tokens, dataOffset: offset + 1 };
+};
+
+const decodePgm = (bytes: Uint8Array): DepthMap => {
+  const { tokens, dataOffset } = readHeaderTokens(bytes, 4);
+  const [magic, w, h, max] = tokens as [string, string, string, string];
+  const width = Number(w);
+  const height = Number(h);
+  const maxValue = Number(max);
+  assertResolution(width, height);
+  if (!Number.isInteger(maxValue) || maxValue <= 0 || maxValue > 65535) {
+    throw new Error(`[depthImport] invalid PGM maxval ${max}`);
+  }
+  const texels = width * height;
+  const data = new Float32Array(texels);
+  if (magic === 'P2') {
+    const values = new TextDecoder()
+      .decode(bytes.subarray(dataOffset - 1))
+      .replace(/#[^\n]*/g, ' ')
+      .trim()
+      .split(/\s+/);
+    if (values.length < texels) {
+      throw new Error(`[depthImport] PGM holds ${values.length} samples; expected ${texels}`);
+    }
+    for (let i = 0; i < texels; i++) data[i] = Number(values[i]);
+  } else {
+    const sampleBytes = maxValue > 255 ? 2 : 1;
+    if (bytes.byteLength - dataOffset < texels * sampleBytes) {
+      throw new Error(
+        `[depthImport] PGM holds ${bytes.byteLength - dataOffset} bytes; expected ${texels * sampleBytes}`,
+      );
+    }
+    for (let i = 0; i < texels; i++) {
+      const at = dataOffset + i * sampleBytes;
+      // Netpbm stores 16-bit samples big-endian.
+      data[i] = sampleBytes === 2 ? (bytes[at]! << 8) | bytes[at + 1]! : bytes[at]!;
+    }
+  }
+  return { width, height, format: 'pgm', data, maxValue };
+};
+
+const decodePfm = (bytes: Uint8Array): DepthMap => {
+  const { tokens, dataOffset } = readHeaderTokens(bytes, 4);
+  const [magic, w, h, scale] = tokens as [string, string, string, string];
+  const width = Number(w);
+  const height = Number(h);
+  const endianScale = Number(scale);
+  assertResolution(width, height);
+  if (!Number.isFinite(endianScale) || endianScale === 0) {
+    throw new Error(`[depthImport] invalid PFM scale ${scale}`);
+  }
+  const channels = magic === 'PF' ? 3 : 1;
+  const littleEndian = endianScale < 0;
+  const expected = width * height * channels * 4;
+  if (bytes.byteLength - dataOffset < expected) {
+    throw new Error(
+      `[depthImport] PFM holds ${bytes.byteLength - dataOffset} bytes; expected ${expected}`,
+    );
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset + dataOffset, expected);
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    // PFM rows run bottom to top.
+    const srcRow = height - 1 - y;
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = view.getFloat32((srcRow * width + x) * channels * 4, littleEndian);
+    }
+  }
+  return { width, height, format: 'pfm', data, maxValue: null };
+};
+
+/** Decodes a PNG, PGM or PFM depth map; the container is sniffed from its leading bytes. */
+export const decodeDepthMap = async (
+  source: Uint8Array | ArrayBuffer,
+  options?: DepthDecodeOptions,
+): Promise<DepthMap> => {
+  const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+  switch (detectFormat(bytes)) {
+    case 'png':
+      return decodePng(bytes, options?.inflate ?? defaultInflate);
+    case 'pgm':
+      return decodePgm(bytes);
+    case 'pfm':
+      return decodePfm(bytes);
+  }
+};
+
+/** Nearest-neighbour resample, so depth discontinuities are not smeared into ramps. */
+export const resampleDepthMap = (map: DepthMap, width: number, height: number): DepthMap => {
+  assertResolution(width, height);
+  if (map.width === width && map.height === height) return map;
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(map.height - 1, Math.floor(((y + 0.5) * map.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(map.width - 1, Math.floor(((x + 0.5) * map.width) / width));
+      data[y * width + x] = map.data[sy * map.width + sx]!;
+    }
+  }
+  return { ...map, width, height, data };
+};
+
+/**
+ * Normalises a depth map into a `VolumeField`. Holes (non-finite samples) land on the far
+ * plane with zero intensity; every valid texel carries unit intensity.
+ */
+export const depthMapToVolumeField = (map: DepthMap, options?: DepthVolumeOptions): VolumeField => {
+  const { width, height, data } = map;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of data) {
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const near = options?.near ?? (Number.isFinite(min) ? min : 0);
+  const far = options?.far ?? (Number.isFinite(max) ? max : 1);
+  const span = far - near;
+  const phaseOptions = options?.phase ?? null;
+  if (
+    phaseOptions &&
+    !(phaseOptions.wavelengthNm > 0 && Number.isFinite(phaseOptions.rangeMeters))
+  ) {
+    throw new Error('[depthImport] phase derivation needs a positive wavelength and finite range');
+  }
+  const k =
+    phaseOptions != null
+      ? ((2 * Math.PI) / (phaseOptions.wavelengthNm * 1e-9)) *
+        phaseOptions.rangeMeters *
+        (phaseOptions.pathFactor ?? 1)
+      : 0;
+  const texels = width * height;
+  const phase = new Float32Array(texels);
+  const depth = new Float32Array(texels);
+  const intensity = new Float32Array(texels);
+  for (let i = 0; i < texels; i++) {
+    const value = data[i]!;
+    if (!Number.isFinite(value)) {
+      depth[i] = 1;
+      continue;
+    }
+    let d = span !== 0 ? (value - near) / span : 0;
+    d = Math.min(1, Math.max(0, d));
+    if (options?.invert) d = 1 - d;
+    depth[i] = d;
+    intensity[i] = 1;
+    if (k !== 0) {
+      const angle = k * d;
+      phase[i] = Math.atan2(Math.sin(angle), Math.cos(angle));
+    }
+  }
+  return { kind: 'volume', resolution: makeResolution(width, height), phase, depth, intensity };
+};
+
+/** Decode → resample to the scene resolution → normalise, in one call. */
+export const importDepthVolume = async (
+  source: Uint8Array | ArrayBuffer,
+  width: number,
+  height: number,
+  options?: DepthVolumeOptions & DepthDecodeOptions,
+): Promise<{ map: DepthMap; field: VolumeField }> => {
+  const map = await decodeDepthMap(source, options);
+  const field = depthMapToVolumeField(resampleDepthMap(map, width, height), options);
+  return { map, field };
+};
@@ -11,7 +11,18 @@ import {
 } from '../kuramotoCore.js';
 import { computeEdgeField, type ImageBuffer } from '../pipeline/edgeDetection.js';
 import { computePhaseField, type PhaseFieldResult } from '../pipeline/phaseField.js';
-import type { RimField } from '../fields/contracts.js';
+import { makeResolution, type RimField } from '../fields/contracts.js';
+import {
+  resolveNaturalFrequencyField,
+  type NaturalFrequencyInput,
+} from '../kuramoto/naturalFrequency.js';
+import {
+  createMultiLayerPhaseFields,
+  deriveMultiLayerKuramotoFields,
+  stepMultiLayerKuramoto,
+  syncMultiLayerKuramoto,
+  type MultiLayerKuramotoTelemetry,
+} from '../kuramoto/multiLayer.js';
 import type { MediaTelemetryDurations, MediaTelemetryMetrics } from '../state/types.js';
 
 const now = () =>
@@ -38,6 +49,11 @@ export interface KuramotoRunOptions {
   readonly seed?: number;
   readonly determinismSample?: boolean;
   readonly qInit?: number;
+  /**
+   * Per-site natural-frequency detuning. Surface-derived specs sample the input image,
+   * phase-derived specs sample the pipeline's own phase field.
+   */
+  readonly naturalFrequencies?: NaturalFrequencyInput;
 }
 
 export interface MediaPipelineOptions {
@@ -51,6 +67,8 @@ export interface MediaPipelineOptions {
 
 export interface KuramotoResult {
   readonly phase: PhaseField;
+  /** Per-layer telemetry when `params.layers` configures a stack; `phase` is the composite. */
+  readonly layers?: MultiLayerKuramotoTelemetry;
   readonly deterministic?: {
     readonly verified: boolean;
     readonly maxDelta?: number;
@@ -71,7 +89,8 @@ const simulateKuramotoPhase = (
   baseParams: KuramotoParams,
   resolution: { width: number; height: number },
   options: KuramotoRunOptions,
-): PhaseField => {
+  naturalFrequencies: Float32Array | null,
+): { phase: PhaseField; layers?: MultiLayerKuramotoTelemetry } => {
   const params: KuramotoParams = { ...baseParams, ...options.params };
   const steps = Math.max(1, Math.floor(options.steps ?? 8));
   const dt = options.dt ?? 0.016;
@@ -80,26 +99,37 @@ const simulateKuramotoPhase = (
   const phase = createDerivedViews(buffer, resolution.width, resolution.height);
   const state = createKuramotoState(resolution.width, resolution.height);
   initKuramotoState(state, qInit, phase);
+  const layers = syncMultiLayerKuramoto(state, params, null, { qInit, naturalFrequencies });
   const randn = createNormalGenerator(options.seed);
   for (let step = 0; step < steps; step++) {
     const timestamp = dt * (step + 1);
-    stepKuramotoState(state, params, dt, randn, timestamp, { params });
+    if (layers) {
+      stepMultiLayerKuramoto(layers, dt, randn, timestamp);
+    } else {
+      stepKuramotoState(state, params, dt, randn, timestamp, { params, naturalFrequencies });
+    }
+  }
+  if (!layers) {
+    deriveKuramotoFields(state, phase, { params });
+    return { phase };
   }
-  deriveKuramotoFields(state, phase, { params });
-  return phase;
+  const fields = createMultiLayerPhaseFields(layers);
+  deriveMultiLayerKuramotoFields(layers, { layers: fields.layers, composite: phase });
+  return { phase, layers: layers.telemetry };
 };
 
 const verifyDeterminism = (
   params: KuramotoParams,
   resolution: { width: number; height: number },
   options: KuramotoRunOptions,
+  naturalFrequencies: Float32Array | null,
   baseline: PhaseField,
 ): { verified: boolean; maxDelta?: number } => {
   const texels = resolution.width * resolution.height;
   if (!options.determinismSample && texels > 128 * 128) {
     return { verified: true, maxDelta: undefined };
   }
-  const comparison = simulateKuramotoPhase(params, resolution, options);
+  const comparison = simulateKuramotoPhase(params, resolution, options, naturalFrequencies).phase;
   let maxDelta = 0;
   for (let i = 0; i < texels; i++) {
     const delta =
@@ -155,18 +185,43 @@ export const runMediaPipeline = (
     options.onStage?.('kuramoto');
     const kurStart = now();
     const params: KuramotoParams = { ...DEFAULT_KURAMOTO_PARAMS, ...kurOptions?.params };
-    const phaseField = simulateKuramotoPhase(params, rim.resolution, kurOptions ?? {});
+    const naturalFrequencies = resolveNaturalFrequencyField(
+      rim.resolution.width,
+      rim.resolution.height,
+      kurOptions?.naturalFrequencies,
+      {
+        surface: {
+          kind: 'surface',
+          resolution: makeResolution(image.width, image.height),
+          rgba: image.data,
+        },
+        phase: phase.field,
+      },
+    );
+    const simulated = simulateKuramotoPhase(
+      params,
+      rim.resolution,
+      kurOptions ?? {},
+      naturalFrequencies,
+    );
     const kurEnd = now();
     durations.kuramotoMs = kurEnd - kurStart;
     let deterministic: KuramotoResult['deterministic'];
     try {
-      deterministic = verifyDeterminism(params, rim.resolution, kurOptions ?? {}, phaseField);
+      deterministic = verifyDeterminism(
+        params,
+        rim.resolution,
+        kurOptions ?? {},
+        naturalFrequencies,
+        simulated.phase,
+      );
     } catch (error) {
       console.warn('[mediaPipeline] Determinism check failed', error);
       deterministic = { verified: false };
     }
     kuramoto = {
-      phase: phaseField,
+      phase: simulated.phase,
+      layers: simulated.layers,
       deterministic,
     };
   }
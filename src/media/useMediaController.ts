@@ -11,7 +11,15 @@ import {
   type MediaPipelineOptions,
   type MediaPipelineResult,
 } from './mediaPipeline.js';
-import { storeMediaResult, removeMediaResult, getMediaResult } from './cache.js';
+import {
+  storeMediaResult,
+  removeMediaResult,
+  getMediaResult,
+  storeDepthVolume,
+  getDepthVolume,
+} from './cache.js';
+import { decodeDepthMap, depthMapToVolumeField, sniffDepthMap } from './depthImport.js';
+import type { VolumeField } from '../fields/contracts.js';
 
 const MAX_MEDIA_PIXELS = 3840 * 2160;
 const THUMBNAIL_SIZE = 256;
@@ -19,7 +27,18 @@ const THUMBNAIL_SIZE = 256;
 const now = () =>
   typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
 
-const detectMediaKind = (file: File): MediaAssetKind => {
+const DEPTH_FILE_PATTERN = /\.(pgm|pfm)$/i;
+
+/** Files the media drop zone hands to `importMedia`; PGM/PFM often arrive without a MIME type. */
+export const isImportableMediaFile = (file: File) =>
+  file.type.startsWith('image/') ||
+  file.type.startsWith('video/') ||
+  DEPTH_FILE_PATTERN.test(file.name);
+
+const detectMediaKind = async (file: File): Promise<MediaAssetKind> => {
+  if (sniffDepthMap(new Uint8Array(await file.slice(0, 32).arrayBuffer()))) {
+    return 'depth';
+  }
   if (file.type.startsWith('image/')) {
     return 'image';
   }
@@ -110,6 +129,26 @@ const createThumbnail = (element: CanvasImageSource, width: number, height: numb
   return canvas.toDataURL('image/png', 0.85);
 };
 
+/** Greyscale preview with near depth drawn bright; holes stay transparent. */
+const createDepthThumbnail = (volume: VolumeField): string => {
+  const { width, height } = volume.resolution;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  const image = ctx.createImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const grey = Math.round((1 - volume.depth[i]!) * 255);
+    image.data[i * 4] = grey;
+    image.data[i * 4 + 1] = grey;
+    image.data[i * 4 + 2] = grey;
+    image.data[i * 4 + 3] = volume.intensity[i]! > 0 ? 255 : 0;
+  }
+  ctx.putImageData(image, 0, 0);
+  return createThumbnail(canvas, width, height);
+};
+
 type DecodedMedia =
   | {
       kind: 'image';
@@ -241,7 +280,7 @@ export function useMediaController() {
   const importMedia = useCallback(
     async (files: readonly File[], pipelineOptions?: MediaPipelineOptions) => {
       for (const file of files) {
-        const kind = detectMediaKind(file);
+        const kind = await detectMediaKind(file);
         const assetId = createAssetId();
         const sourceUrl = URL.createObjectURL(file);
         const importedAt = Date.now();
@@ -263,6 +302,57 @@ export function useMediaController() {
         let status = initialProcessingStatus(assetId);
         setProcessingStatus(status);
         const decodeStart = now();
+        const nodePosition = {
+          x: 120 + scene.nodes.length * 40,
+          y: 120 + (scene.nodes.length % 4) * 60,
+        };
+        if (kind === 'depth') {
+          try {
+            const map = await decodeDepthMap(await file.arrayBuffer());
+            const volume = depthMapToVolumeField(map);
+            storeDepthVolume(assetId, volume);
+            updateAsset(assetId, {
+              status: 'ready',
+              width: map.width,
+              height: map.height,
+              previewUrl: createDepthThumbnail(volume),
+              metadata: { ...asset.metadata, depthFormat: map.format, maxValue: map.maxValue },
+            });
+            addNode({
+              id: `media-${assetId}`,
+              type: 'DepthSource',
+              label: asset.name,
+              position: nodePosition,
+              parameters: [
+                {
+                  id: 'resolution',
+                  label: 'Resolution',
+                  value: { kind: 'vector', size: 2, values: [map.width, map.height] },
+                },
+                { id: 'format', label: 'Format', value: map.format },
+              ],
+            });
+            setProcessingStatus({ stage: 'idle', progress: 0 });
+          } catch (error) {
+            console.error('[media] failed to import depth map', error);
+            updateAsset(assetId, {
+              status: 'error',
+              errorMessage: error instanceof Error ? error.message : String(error),
+            });
+            setProcessingStatus({
+              assetId,
+              stage: 'error',
+              progress: 1,
+              message: error instanceof Error ? error.message : String(error),
+              startedAt: status.startedAt ?? Date.now(),
+              finishedAt: Date.now(),
+              error: error instanceof Error ? error.message : String(error),
+            });
+            URL.revokeObjectURL(sourceUrl);
+            removeMediaResult(assetId);
+          }
+          continue;
+        }
         try {
           const decoded = await decodeMedia(file, sourceUrl, kind);
           const decodeEnd = now();
@@ -317,10 +407,6 @@ export function useMediaController() {
             },
           });
 
-          const nodePosition = {
-            x: 120 + scene.nodes.length * 40,
-            y: 120 + (scene.nodes.length % 4) * 60,
-          };
           addNode({
             id: `media-${assetId}`,
             type: kind === 'image' ? 'ImageSource' : 'VideoSource',
@@ -425,6 +511,7 @@ export function useMediaController() {
       deleteMedia,
       selectAsset,
       getPipelineResult: getMediaResult,
+      getDepthVolume,
     }),
     [deleteMedia, importMedia, media, selectAsset],
   );
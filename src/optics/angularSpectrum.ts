@@ -1,4 +1,5 @@
 import { OpticalFieldManager, type OpticalFieldFrame } from '../fields/opticalField.js';
+import { fft2d } from '../math/fft.js';
 
 export type AngularSpectrumConfig = {
   width: number;
@@ -7,54 +8,103 @@ export type AngularSpectrumConfig = {
   pixelPitchMeters: number;
   dzMeters: number;
   componentCount?: number;
+  /**
+   * Zero-padding factor applied to both axes before the forward transform.
+   * 1 keeps periodic boundaries; 2 turns the circular convolution into a linear one.
+   */
+  padding?: number;
+  /**
+   * Restrict the transfer function to the band that the sampled propagation kernel
+   * can represent without aliasing (Matsushima & Shimobaba band-limited ASM).
+   */
+  bandLimit?: boolean;
+  /**
+   * Number of transfer functions kept, keyed by (dz, wavelength). Spectral propagation
+   * alternates wavelengths every call and needs one entry per band to avoid rebuilding them.
+   */
+  transferCacheSize?: number;
+};
+
+export type AngularSpectrumPropagateOptions = {
+  dzMeters?: number;
+  timestamp?: number;
+  wavelengthNm?: number;
+};
+
+type TransferFunction = {
+  key: string;
+  real: Float64Array;
+  imag: Float64Array;
+};
+
+const TAU = Math.PI * 2;
+const MAX_PADDING = 4;
+
+const sanitizePadding = (value: number | undefined) => {
+  if (value == null || !Number.isFinite(value)) return 1;
+  return Math.min(MAX_PADDING, Math.max(1, value));
 };
 
 export class AngularSpectrumSolver {
   private manager: OpticalFieldManager;
   private readonly config: AngularSpectrumConfig;
   private componentCount: number;
+  private readonly paddedWidth: number;
+  private readonly paddedHeight: number;
+  private readonly workReal: Float64Array;
+  private readonly workImag: Float64Array;
+  private readonly transfers = new Map<string, TransferFunction>();
+  private readonly transferCacheSize: number;
 
   constructor(config: AngularSpectrumConfig) {
     this.config = config;
     this.componentCount = Math.max(1, config.componentCount ?? 1);
     this.manager = this.createManager(this.componentCount);
+    const padding = sanitizePadding(config.padding);
+    this.paddedWidth = Math.max(config.width, Math.ceil(config.width * padding));
+    this.paddedHeight = Math.max(config.height, Math.ceil(config.height * padding));
+    const texels = this.paddedWidth * this.paddedHeight;
+    this.workReal = new Float64Array(texels);
+    this.workImag = new Float64Array(texels);
+    this.transferCacheSize = Math.max(1, Math.floor(config.transferCacheSize ?? 1));
   }
 
   propagate(
     input: OpticalFieldFrame,
-    options?: { dzMeters?: number; timestamp?: number },
+    options?: AngularSpectrumPropagateOptions,
   ): OpticalFieldFrame {
     if (input.componentCount !== this.componentCount) {
       this.componentCount = input.componentCount;
       this.manager = this.createManager(this.componentCount);
     }
+    const dzMeters = options?.dzMeters ?? this.config.dzMeters;
+    const wavelengthNm = options?.wavelengthNm ?? this.config.wavelengthNm;
+    const spectralBand = input.getMeta().spectralBand;
     const frame = this.manager.acquireFrame({
-      dt: options?.dzMeters ?? this.config.dzMeters,
+      dt: dzMeters,
       timestamp: options?.timestamp,
       componentCount: this.componentCount,
+      wavelengthNm,
+      spectralBand,
     });
+    const transfer =
+      Math.abs(dzMeters) > 1e-15 ? this.getTransferFunction(dzMeters, wavelengthNm) : null;
     for (let componentIndex = 0; componentIndex < this.componentCount; componentIndex++) {
       const source = input.components[componentIndex] ?? input.components[0]!;
       const target = frame.components[componentIndex]!;
-      target.real.set(source.real);
-      target.imag.set(source.imag);
-    }
-    const shift = (options?.dzMeters ?? this.config.dzMeters) * 0.1;
-    if (Math.abs(shift) > 1e-12) {
-      const cos = Math.cos(shift);
-      const sin = Math.sin(shift);
-      for (const { real, imag } of frame.components) {
-        for (let i = 0; i < real.length; i++) {
-          const r = real[i];
-          const im = imag[i];
-          real[i] = r * cos - im * sin;
-          imag[i] = r * sin + im * cos;
-        }
+      if (!transfer) {
+        target.real.set(source.real);
+        target.imag.set(source.imag);
+        continue;
       }
+      this.propagateComponent(source.real, source.imag, target.real, target.imag, transfer);
     }
     this.manager.stampFrame(frame, {
-      dt: options?.dzMeters ?? this.config.dzMeters,
+      dt: dzMeters,
       timestamp: options?.timestamp,
+      wavelengthNm,
+      spectralBand,
+      pixelPitchMeters: this.config.pixelPitchMeters,
     });
     return frame;
   }
@@ -67,6 +117,100 @@ export class AngularSpectrumSolver {
     return this.manager;
   }
 
+  getPaddedResolution() {
+    return { width: this.paddedWidth, height: this.paddedHeight };
+  }
+
+  private propagateComponent(
+    sourceReal: Float32Array,
+    sourceImag: Float32Array,
+    targetReal: Float32Array,
+    targetImag: Float32Array,
+    transfer: TransferFunction,
+  ) {
+    const { width, height } = this.config;
+    const pw = this.paddedWidth;
+    const workReal = this.workReal;
+    const workImag = this.workImag;
+    workReal.fill(0);
+    workImag.fill(0);
+    for (let y = 0; y < height; y++) {
+      const src = y * width;
+      const dst = y * pw;
+      for (let x = 0; x < width; x++) {
+        workReal[dst + x] = sourceReal[src + x];
+        workImag[dst + x] = sourceImag[src + x];
+      }
+    }
+    fft2d(workReal, workImag, pw, this.paddedHeight);
+    const tr = transfer.real;
+    const ti = transfer.imag;
+    for (let i = 0; i < workReal.length; i++) {
+      const r = workReal[i];
+      const im = workImag[i];
+      workReal[i] = r * tr[i] - im * ti[i];
+      workImag[i] = r * ti[i] + im * tr[i];
+    }
+    fft2d(workReal, workImag, pw, this.paddedHeight, { inverse: true });
+    for (let y = 0; y < height; y++) {
+      const src = y * pw;
+      const dst = y * width;
+      for (let x = 0; x < width; x++) {
+        targetReal[dst + x] = workReal[src + x];
+        targetImag[dst + x] = workImag[src + x];
+      }
+    }
+  }
+
+  private getTransferFunction(dzMeters: number, wavelengthNm: number): TransferFunction {
+    const pitch = this.config.pixelPitchMeters;
+    const bandLimit = this.config.bandLimit ?? false;
+    const key = `${dzMeters}:${wavelengthNm}:${pitch}:${bandLimit}`;
+    const cached = this.transfers.get(key);
+    if (cached) {
+      // Re-insert so the Map's iteration order tracks recency.
+      this.transfers.delete(key);
+      this.transfers.set(key, cached);
+      return cached;
+    }
+    const pw = this.paddedWidth;
+    const ph = this.paddedHeight;
+    const lambda = wavelengthNm * 1e-9;
+    const invLambdaSq = 1 / (lambda * lambda);
+    const dfx = 1 / (pw * pitch);
+    const dfy = 1 / (ph * pitch);
+    const limitX = bandLimit
+      ? 1 / (lambda * Math.sqrt((2 * dfx * dzMeters) ** 2 + 1))
+      : Number.POSITIVE_INFINITY;
+    const limitY = bandLimit
+      ? 1 / (lambda * Math.sqrt((2 * dfy * dzMeters) ** 2 + 1))
+      : Number.POSITIVE_INFINITY;
+    const real = new Float64Array(pw * ph);
+    const imag = new Float64Array(pw * ph);
+    for (let y = 0; y < ph; y++) {
+      const fy = (y < ph / 2 ? y : y - ph) * dfy;
+      for (let x = 0; x < pw; x++) {
+        const fx = (x < pw / 2 ? x : x - pw) * dfx;
+        const idx = y * pw + x;
+        const argument = invLambdaSq - fx * fx - fy * fy;
+        // Evanescent components decay within a few wavelengths; drop them entirely.
+        if (argument <= 0 || Math.abs(fx) > limitX || Math.abs(fy) > limitY) {
+          continue;
+        }
+        const phase = TAU * dzMeters * Math.sqrt(argument);
+        real[idx] = Math.cos(phase);
+        imag[idx] = Math.sin(phase);
+      }
+    }
+    const transfer = { key, real, imag };
+    if (this.transfers.size >= this.transferCacheSize) {
+      const oldest = this.transfers.keys().next().value;
+      if (oldest != null) this.transfers.delete(oldest);
+    }
+    this.transfers.set(key, transfer);
+    return transfer;
+  }
+
   private createManager(componentCount: number) {
     return new OpticalFieldManager({
       solver: 'angularSpectrum',
@@ -0,0 +1,297 @@
+import { makeResolution, type SurfaceField, type VolumeField } from '../fields/contracts.js';
+import { OpticalFieldFrame } from '../fields/opticalField.js';
+import { AngularSpectrumSolver } from './angularSpectrum.js';
+
+export type BeamPropagationConfig = {
+  wavelengthNm?: number;
+  pixelPitchMeters?: number;
+  /** Number of refractive-index slices the stack is sampled into. */
+  sliceCount?: number;
+  /** Total stack thickness; each slice is `thicknessMeters / sliceCount` deep. */
+  thicknessMeters?: number;
+  /** Index of the homogeneous medium the slices perturb. */
+  backgroundIndex?: number;
+  /** Δn written by the luminance and depth builders for occupied voxels. */
+  indexContrast?: number;
+  padding?: number;
+  bandLimit?: boolean;
+};
+
+type ResolvedBeamPropagationConfig = Required<BeamPropagationConfig>;
+
+export type BeamPropagationVolumeState = {
+  width: number;
+  height: number;
+  config: ResolvedBeamPropagationConfig;
+  time: number;
+  /** Δn per voxel, slice-major: `index[slice · texels + idx]`, slice 0 nearest the source. */
+  index: Float32Array;
+  dirty: boolean;
+  phase: Float32Array;
+  depth: Float32Array;
+  intensity: Float32Array;
+  /** Exit-plane field of the last propagation, with the background carrier removed. */
+  exit: OpticalFieldFrame;
+  illumination: OpticalFieldFrame | null;
+  halfSolver: AngularSpectrumSolver;
+  fullSolver: AngularSpectrumSolver;
+};
+
+export type LuminanceIndexOptions = {
+  /** Treat dark pixels as tall instead of bright ones. */
+  invert?: boolean;
+};
+
+const DEFAULT_CONFIG: ResolvedBeamPropagationConfig = {
+  wavelengthNm: 550,
+  pixelPitchMeters: 2e-6,
+  sliceCount: 8,
+  thicknessMeters: 40e-6,
+  backgroundIndex: 1,
+  indexContrast: 0.02,
+  padding: 1,
+  bandLimit: false,
+};
+
+const TAU = Math.PI * 2;
+
+const positive = (value: number | undefined, fallback: number) =>
+  value != null && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const resolveConfig = (config?: BeamPropagationConfig): ResolvedBeamPropagationConfig => ({
+  wavelengthNm: positive(config?.wavelengthNm, DEFAULT_CONFIG.wavelengthNm),
+  pixelPitchMeters: positive(config?.pixelPitchMeters, DEFAULT_CONFIG.pixelPitchMeters),
+  sliceCount: Math.max(1, Math.round(positive(config?.sliceCount, DEFAULT_CONFIG.sliceCount))),
+  thicknessMeters: positive(config?.thicknessMeters, DEFAULT_CONFIG.thicknessMeters),
+  backgroundIndex: positive(config?.backgroundIndex, DEFAULT_CONFIG.backgroundIndex),
+  indexContrast:
+    config?.indexContrast != null && Number.isFinite(config.indexContrast)
+      ? config.indexContrast
+      : DEFAULT_CONFIG.indexContrast,
+  padding: config?.padding ?? DEFAULT_CONFIG.padding,
+  bandLimit: config?.bandLimit ?? DEFAULT_CONFIG.bandLimit,
+});
+
+const sliceDepth = (config: ResolvedBeamPropagationConfig) =>
+  config.thicknessMeters / config.sliceCount;
+
+const createSolver = (
+  width: number,
+  height: number,
+  config: ResolvedBeamPropagationConfig,
+  dzMeters: number,
+) =>
+  new AngularSpectrumSolver({
+    width,
+    height,
+    // The medium shortens the wavelength the transfer function sees.
+    wavelengthNm: config.wavelengthNm / config.backgroundIndex,
+    pixelPitchMeters: config.pixelPitchMeters,
+    dzMeters,
+    padding: config.padding,
+    bandLimit: config.bandLimit,
+  });
+
+export const createBeamPropagationVolume = (
+  width: number,
+  height: number,
+  config?: BeamPropagationConfig,
+): BeamPropagationVolumeState => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`[beamPropagation] invalid resolution ${width}x${height}`);
+  }
+  const resolved = resolveConfig(config);
+  const texels = width * height;
+  const dz = sliceDepth(resolved);
+  const state: BeamPropagationVolumeState = {
+    width,
+    height,
+    config: resolved,
+    time: 0,
+    index: new Float32Array(texels * resolved.sliceCount),
+    dirty: true,
+    phase: new Float32Array(texels),
+    depth: new Float32Array(texels),
+    intensity: new Float32Array(texels),
+    exit: new OpticalFieldFrame(makeResolution(width, height)),
+    illumination: null,
+    halfSolver: createSolver(width, height, resolved, dz / 2),
+    fullSolver: createSolver(width, height, resolved, dz),
+  };
+  propagateBeamVolume(state);
+  return state;
+};
+
+/** Replaces the whole Δn stack (`sliceCount · width · height`, slice-major). */
+export const setVolumeIndexSlices = (state: BeamPropagationVolumeState, slices: Float32Array) => {
+  if (slices.length !== state.index.length) {
+    throw new Error(
+      `[beamPropagation] index stack has ${slices.length} voxels; expected ${state.index.length}`,
+    );
+  }
+  state.index.set(slices);
+  state.dirty = true;
+};
+
+/**
+ * Treats Rec. 709 luma as a relief height: a pixel of luma `L` is filled with
+ * `indexContrast` for the first `L · sliceCount` slices, so brighter regions carry a thicker
+ * phase object.
+ */
+export const setVolumeIndexFromLuminance = (
+  state: BeamPropagationVolumeState,
+  surface: SurfaceField,
+  options?: LuminanceIndexOptions,
+) => {
+  const { width, height, index, config } = state;
+  if (surface.resolution.width !== width || surface.resolution.height !== height) {
+    throw new Error(
+      `[beamPropagation] surface is ${surface.resolution.width}x${surface.resolution.height}; expected ${width}x${height}`,
+    );
+  }
+  const texels = width * height;
+  const rgba = surface.rgba;
+  for (let idx = 0; idx < texels; idx++) {
+    const base = idx * 4;
+    const luma = (0.2126 * rgba[base] + 0.7152 * rgba[base + 1] + 0.0722 * rgba[base + 2]) / 255;
+    const relief = options?.invert ? 1 - luma : luma;
+    for (let slice = 0; slice < config.sliceCount; slice++) {
+      const z = (slice + 0.5) / config.sliceCount;
+      index[slice * texels + idx] = z < relief ? config.indexContrast : 0;
+    }
+  }
+  state.dirty = true;
+};
+
+/**
+ * Builds a solid scene from a normalised depth map (0 = nearest the source, 1 = exit plane):
+ * every voxel at or behind a pixel's depth is filled with `indexContrast`.
+ */
+export const setVolumeIndexFromDepth = (state: BeamPropagationVolumeState, depth: Float32Array) => {
+  const { width, height, index, config } = state;
+  const texels = width * height;
+  if (depth.length !== texels) {
+    throw new Error(`[beamPropagation] depth map has ${depth.length} texels; expected ${texels}`);
+  }
+  for (let idx = 0; idx < texels; idx++) {
+    const d = Number.isFinite(depth[idx]) ? depth[idx] : 1;
+    for (let slice = 0; slice < config.sliceCount; slice++) {
+      const z = (slice + 0.5) / config.sliceCount;
+      index[slice * texels + idx] = z >= d ? config.indexContrast : 0;
+    }
+  }
+  state.dirty = true;
+};
+
+/** Uses `frame` (component 0) as the entrance field; null restores the unit plane wave. */
+export const setVolumeIllumination = (
+  state: BeamPropagationVolumeState,
+  frame: OpticalFieldFrame | null,
+) => {
+  if (
+    frame &&
+    (frame.resolution.width !== state.width || frame.resolution.height !== state.height)
+  ) {
+    throw new Error(
+      `[beamPropagation] illumination is ${frame.resolution.width}x${frame.resolution.height}; expected ${state.width}x${state.height}`,
+    );
+  }
+  state.illumination = frame;
+  state.dirty = true;
+};
+
+/**
+ * Symmetric split-step beam propagation through the stack: a half step of free-space
+ * diffraction, then for each slice the thin phase screen `exp(i k₀ Δn dz)` followed by a full
+ * (or, after the last slice, half) diffraction step in the background medium.
+ *
+ * `phase` is the exit phase with the background carrier `k₀ n₀ L` removed, `intensity` the exit
+ * `|E|²` in units of the unit plane wave, and `depth` the `|E|² · |Δn|`-weighted mean slice
+ * position where the phase was picked up (1 where the beam met no structure).
+ */
+export const propagateBeamVolume = (state: BeamPropagationVolumeState) => {
+  const { width, height, config, index, halfSolver, fullSolver } = state;
+  const texels = width * height;
+  const dz = sliceDepth(config);
+  const k0 = TAU / (config.wavelengthNm * 1e-9);
+  const entrance = new OpticalFieldFrame(makeResolution(width, height));
+  if (state.illumination) {
+    entrance.real.set(state.illumination.real);
+    entrance.imag.set(state.illumination.imag);
+  } else {
+    entrance.real.fill(1);
+  }
+
+  const depthWeight = new Float64Array(texels);
+  const depthSum = new Float64Array(texels);
+  let field = halfSolver.propagate(entrance);
+  let owner = halfSolver;
+  for (let slice = 0; slice < config.sliceCount; slice++) {
+    const z = (slice + 0.5) / config.sliceCount;
+    const base = slice * texels;
+    const { real, imag } = field;
+    for (let idx = 0; idx < texels; idx++) {
+      const dn = index[base + idx];
+      if (dn === 0) continue;
+      const re = real[idx];
+      const im = imag[idx];
+      const weight = (re * re + im * im) * Math.abs(dn);
+      depthWeight[idx] += weight;
+      depthSum[idx] += weight * z;
+      const shift = k0 * dn * dz;
+      const c = Math.cos(shift);
+      const s = Math.sin(shift);
+      real[idx] = re * c - im * s;
+      imag[idx] = re * s + im * c;
+    }
+    const solver = slice === config.sliceCount - 1 ? halfSolver : fullSolver;
+    const next = solver.propagate(field);
+    owner.getManager().releaseFrame(field);
+    field = next;
+    owner = solver;
+  }
+
+  const carrier = k0 * config.backgroundIndex * config.thicknessMeters;
+  const cc = Math.cos(carrier);
+  const cs = Math.sin(carrier);
+  const exit = state.exit;
+  for (let idx = 0; idx < texels; idx++) {
+    const re = field.real[idx];
+    const im = field.imag[idx];
+    // Multiply by exp(−i · carrier) so a structureless stack leaves the phase at zero.
+    const outR = re * cc + im * cs;
+    const outI = im * cc - re * cs;
+    exit.real[idx] = outR;
+    exit.imag[idx] = outI;
+    state.phase[idx] = Math.atan2(outI, outR);
+    state.intensity[idx] = outR * outR + outI * outI;
+    state.depth[idx] = depthWeight[idx] > 1e-12 ? depthSum[idx] / depthWeight[idx] : 1;
+  }
+  owner.getManager().releaseFrame(field);
+  exit.updateMeta({
+    solver: 'beamPropagation',
+    solverInstanceId: 'beamPropagation-exit',
+    wavelengthNm: config.wavelengthNm,
+    pixelPitchMeters: config.pixelPitchMeters,
+    space: 'volumeSlice',
+    dt: config.thicknessMeters,
+    timestamp: state.time,
+  });
+  state.dirty = false;
+};
+
+/** Advances the clock and re-propagates only when the stack or illumination changed. */
+export const stepBeamPropagationVolume = (state: BeamPropagationVolumeState, dt: number) => {
+  state.time += dt;
+  if (state.dirty) {
+    propagateBeamVolume(state);
+  }
+};
+
+export const snapshotBeamPropagationVolume = (state: BeamPropagationVolumeState): VolumeField => ({
+  kind: 'volume',
+  resolution: makeResolution(state.width, state.height),
+  phase: state.phase,
+  depth: state.depth,
+  intensity: state.intensity,
+});
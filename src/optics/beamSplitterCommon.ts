@@ -0,0 +1,426 @@
+import type { MediaPipelineResult } from '../media/mediaPipeline.js';
+import {
+  parseBranches,
+  type BeamSplitterBranchOptics,
+  type BeamSplitterBranchSource,
+  type BeamSplitterTransformStep,
+} from '../state/beamSplitter.js';
+import type { BeamSplitterBranchMetrics, BeamSplitterDiagnosticsEntry } from '../state/types.js';
+import {
+  armJonesVector,
+  armPistonPhase,
+  armTiltWavenumbers,
+  createInterferometerInput,
+  interferometerDiagnostics,
+  traceInterferometer,
+  type InterferometerGeometry,
+} from './interferometer.js';
+
+/**
+ * Configuration, branch preparation and diagnostics shared by the WebGL and CPU beam-splitter
+ * renderers, so both backends agree on transforms, recombine modes and reported metrics.
+ */
+
+export const MAX_BRANCHES = 8;
+export const DIAGNOSTIC_GRID = 48;
+
+export type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+export const identityMat3 = (): Mat3 => [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const multiplyMat3 = (a: Mat3, b: Mat3): Mat3 => {
+  const result: Mat3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  result[0] = a[0] * b[0] + a[3] * b[1] + a[6] * b[2];
+  result[1] = a[1] * b[0] + a[4] * b[1] + a[7] * b[2];
+  result[2] = a[2] * b[0] + a[5] * b[1] + a[8] * b[2];
+  result[3] = a[0] * b[3] + a[3] * b[4] + a[6] * b[5];
+  result[4] = a[1] * b[3] + a[4] * b[4] + a[7] * b[5];
+  result[5] = a[2] * b[3] + a[5] * b[4] + a[8] * b[5];
+  result[6] = a[0] * b[6] + a[3] * b[7] + a[6] * b[8];
+  result[7] = a[1] * b[6] + a[4] * b[7] + a[7] * b[8];
+  result[8] = a[2] * b[6] + a[5] * b[7] + a[8] * b[8];
+  return result;
+};
+
+const translateMat3 = (tx: number, ty: number): Mat3 => [1, 0, 0, 0, 1, 0, tx, ty, 1];
+
+const scaleMat3 = (sx: number, sy: number): Mat3 => [sx, 0, 0, 0, sy, 0, 0, 0, 1];
+
+const rotateMat3 = (rad: number): Mat3 => {
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  return [c, s, 0, -s, c, 0, 0, 0, 1];
+};
+
+const CENTER_TRANSLATE = {
+  toOrigin: translateMat3(-0.5, -0.5),
+  toCenter: translateMat3(0.5, 0.5),
+};
+
+export const SOURCE_KIND: Record<BeamSplitterBranchSource, number> = {
+  source: 0,
+  edge: 1,
+  phase: 2,
+  oscillator: 3,
+  surface: 4,
+};
+
+export const RECOMBINE_KIND: Record<string, number> = {
+  sum: 0,
+  average: 1,
+  energy: 2,
+  priority: 3,
+  max: 4,
+  phase: 5,
+  interferometer: 6,
+};
+
+export const recombineModeName = (kind: number) =>
+  Object.keys(RECOMBINE_KIND).find((key) => RECOMBINE_KIND[key] === kind) ?? 'sum';
+
+export interface BeamSplitterBranchConfig {
+  readonly id: string;
+  readonly label: string;
+  readonly weight: number;
+  readonly priority: number;
+  readonly source: BeamSplitterBranchSource;
+  readonly transformStack: BeamSplitterTransformStep[];
+  readonly optics?: BeamSplitterBranchOptics;
+}
+
+export interface BeamSplitterInterferometerConfig {
+  readonly geometry?: InterferometerGeometry;
+  readonly wavelengthNm?: number;
+  /** Physical size of one asset pixel. */
+  readonly pixelPitchMeters?: number;
+}
+
+export interface BeamSplitterRendererConfig {
+  readonly canvasWidth: number;
+  readonly canvasHeight: number;
+  readonly nodeId?: string;
+  readonly asset?: {
+    readonly id: string;
+    readonly previewUrl: string;
+    readonly width: number;
+    readonly height: number;
+    /** Decoded RGBA8 pixels, row-major from the top row; used by the CPU renderer. */
+    readonly pixels?: Uint8Array | Uint8ClampedArray;
+  };
+  readonly pipeline?: MediaPipelineResult;
+  readonly branches: BeamSplitterBranchConfig[];
+  readonly recombine: string;
+  readonly interferometer?: BeamSplitterInterferometerConfig;
+}
+
+export type DiagnosticsPublisher = (entries: readonly BeamSplitterDiagnosticsEntry[]) => void;
+
+/** Branches and recombine mode of a `BeamSplitter` scene or manifest node. */
+export const beamSplitterConfigFromNode = (node: {
+  readonly id: string;
+  readonly parameters?: readonly { readonly id: string; readonly value: unknown }[];
+  readonly metadata?: unknown;
+}): Pick<BeamSplitterRendererConfig, 'nodeId' | 'branches' | 'recombine'> => {
+  const recombine = node.parameters?.find((entry) => entry.id === 'recombine')?.value;
+  return {
+    nodeId: node.id,
+    branches: parseBranches(node.metadata ?? {}).map((branch) => ({
+      id: branch.id,
+      label: branch.label,
+      weight: branch.weight ?? 1,
+      priority: branch.priority ?? 0,
+      source: branch.source ?? 'source',
+      transformStack: branch.transformStack.map((step) => ({ ...step })),
+      optics: branch.optics,
+    })),
+    recombine: typeof recombine === 'string' ? recombine : 'sum',
+  };
+};
+
+export const resolveInterferometerConfig = (
+  config: BeamSplitterInterferometerConfig | undefined,
+): Required<BeamSplitterInterferometerConfig> => ({
+  geometry: config?.geometry ?? 'machZehnder',
+  wavelengthNm: config?.wavelengthNm ?? 550,
+  pixelPitchMeters: config?.pixelPitchMeters ?? 1e-6,
+});
+
+export const toUint8Rgba = (data: Float32Array, width: number, height: number, scale = 1) => {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.max(0, Math.min(255, Math.round(data[i] * scale)));
+    const idx = i * 4;
+    pixels[idx + 0] = value;
+    pixels[idx + 1] = value;
+    pixels[idx + 2] = value;
+    pixels[idx + 3] = 255;
+  }
+  return pixels;
+};
+
+export const composeTransformMatrix = (stack: BeamSplitterTransformStep[]): Mat3 => {
+  let matrix = identityMat3();
+  for (const step of stack) {
+    if (step.kind === 'rotate') {
+      const rotation = multiplyMat3(
+        multiplyMat3(CENTER_TRANSLATE.toCenter, rotateMat3(((step.degrees ?? 0) * Math.PI) / 180)),
+        CENTER_TRANSLATE.toOrigin,
+      );
+      matrix = multiplyMat3(rotation, matrix);
+    } else if (step.kind === 'scale') {
+      const factor = Math.abs(step.factor ?? 1) <= 1e-4 ? 1 : (step.factor ?? 1);
+      const scaling = multiplyMat3(
+        multiplyMat3(CENTER_TRANSLATE.toCenter, scaleMat3(factor, factor)),
+        CENTER_TRANSLATE.toOrigin,
+      );
+      matrix = multiplyMat3(scaling, matrix);
+    } else if (step.kind === 'mirror') {
+      const sx = step.axis === 'y' ? 1 : -1;
+      const sy = step.axis === 'y' ? -1 : 1;
+      const mirror = multiplyMat3(
+        multiplyMat3(CENTER_TRANSLATE.toCenter, scaleMat3(sx, sy)),
+        CENTER_TRANSLATE.toOrigin,
+      );
+      matrix = multiplyMat3(mirror, matrix);
+    }
+  }
+  return matrix;
+};
+
+/** A branch resolved to the values the shader sees: matrix, source kind and optical uniforms. */
+export interface PreparedBeamSplitterBranch {
+  readonly id: string;
+  readonly label: string;
+  readonly weight: number;
+  readonly priority: number;
+  readonly source: BeamSplitterBranchSource;
+  readonly sourceKind: number;
+  readonly matrix: Mat3;
+  readonly optics?: BeamSplitterBranchOptics;
+  /** Piston phase of the interferometer arm. */
+  readonly phase: number;
+  /** Tilt phase ramp per unit of uv. */
+  readonly tilt: readonly [number, number];
+  /** Output Jones vector `(Ex.re, Ex.im, Ey.re, Ey.im)` for the diagonally polarized input. */
+  readonly jones: readonly [number, number, number, number];
+}
+
+export const prepareBeamSplitterBranches = (
+  branches: readonly BeamSplitterBranchConfig[],
+  interferometer: Required<BeamSplitterInterferometerConfig>,
+  assetWidth: number,
+  assetHeight: number,
+): PreparedBeamSplitterBranch[] =>
+  branches.slice(0, MAX_BRANCHES).map((branch, index) => {
+    const { geometry, wavelengthNm, pixelPitchMeters } = interferometer;
+    const { kx, ky } = armTiltWavenumbers(branch.optics, wavelengthNm, geometry);
+    const [x, y] = armJonesVector(branch.optics);
+    const source = branch.source ?? 'source';
+    return {
+      id: branch.id ?? `branch-${index}`,
+      label: branch.label ?? `Branch ${index + 1}`,
+      weight: branch.weight ?? 1,
+      priority: branch.priority ?? index,
+      source,
+      sourceKind: SOURCE_KIND[source] ?? SOURCE_KIND.source,
+      matrix: composeTransformMatrix(branch.transformStack ?? []),
+      optics: branch.optics,
+      phase: armPistonPhase(branch.optics, wavelengthNm, geometry),
+      // Tilt ramps are applied per unit of uv, so scale by the asset's physical extent.
+      tilt: [kx * assetWidth * pixelPitchMeters, ky * assetHeight * pixelPitchMeters],
+      jones: [x.re, x.im, y.re, y.im],
+    };
+  });
+
+const sampleNearest = (
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  uvX: number,
+  uvY: number,
+): [number, number, number] => {
+  const x = Math.min(width - 1, Math.max(0, Math.round(uvX * (width - 1))));
+  const y = Math.min(height - 1, Math.max(0, Math.round(uvY * (height - 1))));
+  const idx = (y * width + x) * 4;
+  return [pixels[idx] / 255, pixels[idx + 1] / 255, pixels[idx + 2] / 255];
+};
+
+const sampleFloatField = (
+  data: Float32Array,
+  width: number,
+  height: number,
+  uvX: number,
+  uvY: number,
+): number => {
+  const x = Math.min(width - 1, Math.max(0, Math.round(uvX * (width - 1))));
+  const y = Math.min(height - 1, Math.max(0, Math.round(uvY * (height - 1))));
+  const idx = y * width + x;
+  return data[idx];
+};
+
+/** Branch intensity at a (clamped) uv for a source kind, as the diagnostics measure it. */
+export type BeamSplitterIntensitySampler = (sourceKind: number, u: number, v: number) => number;
+
+export const createIntensitySampler = (
+  asset: { pixels: Uint8Array | Uint8ClampedArray; width: number; height: number } | null,
+  pipeline: MediaPipelineResult | undefined,
+): BeamSplitterIntensitySampler => {
+  const rim = pipeline?.rim;
+  const phase = pipeline?.phase.field;
+  return (sourceKind, u, v) => {
+    if (sourceKind === SOURCE_KIND.source || sourceKind === SOURCE_KIND.surface) {
+      if (!asset) {
+        return 0;
+      }
+      const color = sampleNearest(asset.pixels, asset.width, asset.height, u, v);
+      return (color[0] + color[1] + color[2]) / 3;
+    }
+    if (sourceKind === SOURCE_KIND.edge && rim) {
+      return sampleFloatField(rim.mag, rim.resolution.width, rim.resolution.height, u, v);
+    }
+    if (sourceKind === SOURCE_KIND.phase && phase) {
+      return sampleFloatField(phase.amp, phase.resolution.width, phase.resolution.height, u, v);
+    }
+    if (sourceKind === SOURCE_KIND.oscillator && phase) {
+      return sampleFloatField(phase.coh, phase.resolution.width, phase.resolution.height, u, v);
+    }
+    return 0;
+  };
+};
+
+const branchCoord = (matrix: Mat3, uvX: number, uvY: number) =>
+  [
+    Math.min(1, Math.max(0, matrix[0] * uvX + matrix[3] * uvY + matrix[6])),
+    Math.min(1, Math.max(0, matrix[1] * uvX + matrix[4] * uvY + matrix[7])),
+  ] as const;
+
+const computeBranchMetrics = (
+  branches: readonly PreparedBeamSplitterBranch[],
+  recombineMode: number,
+  sample: BeamSplitterIntensitySampler,
+): BeamSplitterBranchMetrics[] => {
+  const width = DIAGNOSTIC_GRID;
+  const height = DIAGNOSTIC_GRID;
+  const sampleCount = width * height;
+  const energy = new Float64Array(branches.length);
+  const coverage = new Uint32Array(branches.length);
+  const occluded = new Uint32Array(branches.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const uvX = (x + 0.5) / width;
+      const uvY = (y + 0.5) / height;
+      let bestPriority = Number.POSITIVE_INFINITY;
+      let bestIndex = -1;
+      let highestIntensity = -1;
+      for (let i = 0; i < branches.length; i++) {
+        const branch = branches[i];
+        const [u, v] = branchCoord(branch.matrix, uvX, uvY);
+        const weighted = sample(branch.sourceKind, u, v) * branch.weight;
+        if (weighted > 1e-3) {
+          energy[i] += weighted;
+          coverage[i] += 1;
+        }
+        if (recombineMode === RECOMBINE_KIND.priority) {
+          if (branch.priority < bestPriority && weighted > 1e-3) {
+            bestPriority = branch.priority;
+            bestIndex = i;
+          }
+        } else if (recombineMode === RECOMBINE_KIND.max) {
+          if (weighted > highestIntensity) {
+            highestIntensity = weighted;
+            bestIndex = i;
+          }
+        }
+      }
+      if (recombineMode === RECOMBINE_KIND.priority || recombineMode === RECOMBINE_KIND.max) {
+        for (let i = 0; i < branches.length; i++) {
+          if (i !== bestIndex && coverage[i] > 0) {
+            occluded[i] += 1;
+          }
+        }
+      }
+    }
+  }
+
+  let totalEnergy = 0;
+  for (let i = 0; i < branches.length; i++) {
+    totalEnergy += energy[i];
+  }
+
+  return branches.map((branch, i) => ({
+    branchId: branch.id,
+    label: branch.label,
+    energy: energy[i],
+    energyShare: totalEnergy > 0 ? energy[i] / totalEnergy : 0,
+    coverage: coverage[i] / sampleCount,
+    occlusion: coverage[i] > 0 ? Math.min(1, occluded[i] / Math.max(1, coverage[i])) : 0,
+    priority: branch.priority,
+    source: branch.source,
+    weight: branch.weight,
+  }));
+};
+
+/**
+ * Runs the CPU interferometer on a coarse grid with the asset's aspect ratio: each branch's
+ * transformed source intensity becomes the amplitude of a diagonally polarized input.
+ */
+const computeInterference = (
+  branches: readonly PreparedBeamSplitterBranch[],
+  sample: BeamSplitterIntensitySampler,
+  interferometer: Required<BeamSplitterInterferometerConfig>,
+  assetWidth: number,
+  assetHeight: number,
+  entry: { nodeId: string; frameId: number; updatedAt: number },
+): BeamSplitterDiagnosticsEntry => {
+  const width = DIAGNOSTIC_GRID;
+  const height = Math.max(1, Math.round((DIAGNOSTIC_GRID * assetHeight) / assetWidth));
+  const { geometry, wavelengthNm, pixelPitchMeters } = interferometer;
+  const inputs = branches.map((branch) => {
+    const amplitude = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const [u, v] = branchCoord(branch.matrix, (x + 0.5) / width, (y + 0.5) / height);
+        amplitude[y * width + x] = Math.sqrt(Math.max(0, sample(branch.sourceKind, u, v)));
+      }
+    }
+    return createInterferometerInput(amplitude, width, height, {
+      wavelengthNm,
+      pixelPitchMeters: (assetWidth * pixelPitchMeters) / width,
+    });
+  });
+  const result = traceInterferometer(inputs, branches, { geometry });
+  return interferometerDiagnostics(result, branches, entry);
+};
+
+/** Diagnostics entry for one frame; the interferometer mode adds coherent observables. */
+export const computeBeamSplitterDiagnostics = (
+  branches: readonly PreparedBeamSplitterBranch[],
+  recombineMode: number,
+  sample: BeamSplitterIntensitySampler,
+  options: {
+    nodeId: string;
+    frameId: number;
+    updatedAt: number;
+    interferometer: Required<BeamSplitterInterferometerConfig>;
+    assetWidth: number;
+    assetHeight: number;
+  },
+): BeamSplitterDiagnosticsEntry => {
+  const entry = { nodeId: options.nodeId, frameId: options.frameId, updatedAt: options.updatedAt };
+  if (recombineMode === RECOMBINE_KIND.interferometer) {
+    return computeInterference(
+      branches,
+      sample,
+      options.interferometer,
+      options.assetWidth,
+      options.assetHeight,
+      entry,
+    );
+  }
+  return {
+    ...entry,
+    branches: computeBranchMetrics(branches, recombineMode, sample),
+    recombineMode: recombineModeName(recombineMode),
+  };
+};
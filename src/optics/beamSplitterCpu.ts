@@ -0,0 +1,352 @@
+import type { MediaPipelineResult } from '../media/mediaPipeline.js';
+import type { BeamSplitterDiagnosticsEntry } from '../state/types.js';
+import {
+  RECOMBINE_KIND,
+  SOURCE_KIND,
+  computeBeamSplitterDiagnostics,
+  createIntensitySampler,
+  prepareBeamSplitterBranches,
+  resolveInterferometerConfig,
+  toUint8Rgba,
+  type BeamSplitterRendererConfig,
+  type DiagnosticsPublisher,
+  type PreparedBeamSplitterBranch,
+} from './beamSplitterCommon.js';
+
+/**
+ * Headless beam-splitter backend: evaluates the WebGL fragment shader per pixel on the CPU,
+ * including 8-bit textures with bilinear clamp-to-edge filtering, so the CLI, the API server
+ * and node tests can render beam-splitter scenes. Output matches `BeamSplitterRenderer`
+ * to within float32 rounding of the 8-bit result.
+ */
+
+export type CpuBeamSplitterAsset = {
+  width: number;
+  height: number;
+  /** RGBA8, row-major from the top row. */
+  pixels: Uint8Array | Uint8ClampedArray;
+};
+
+export type CpuBeamSplitterRendererOptions = {
+  publishDiagnostics?: DiagnosticsPublisher;
+  /** Decodes assets configured without `pixels`, e.g. by reading `previewUrl`. */
+  loadAsset?: (
+    asset: NonNullable<BeamSplitterRendererConfig['asset']>,
+  ) => Promise<CpuBeamSplitterAsset>;
+};
+
+type Texture = {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+};
+
+const EMPTY_TEXTURE: Texture = { width: 1, height: 1, data: Uint8Array.of(0, 0, 0, 255) };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const luminance = (r: number, g: number, b: number) => r * 0.299 + g * 0.587 + b * 0.114;
+
+/** `texture()` with LINEAR filtering and CLAMP_TO_EDGE wrapping on an RGBA8 texture. */
+const sampleLinear = (texture: Texture, u: number, v: number, out: Float64Array) => {
+  const { width, height, data } = texture;
+  const tx = u * width - 0.5;
+  const ty = v * height - 0.5;
+  const x0 = Math.floor(tx);
+  const y0 = Math.floor(ty);
+  const fx = tx - x0;
+  const fy = ty - y0;
+  const xa = Math.min(width - 1, Math.max(0, x0));
+  const xb = Math.min(width - 1, Math.max(0, x0 + 1));
+  const ya = Math.min(height - 1, Math.max(0, y0));
+  const yb = Math.min(height - 1, Math.max(0, y0 + 1));
+  const i00 = (ya * width + xa) * 4;
+  const i10 = (ya * width + xb) * 4;
+  const i01 = (yb * width + xa) * 4;
+  const i11 = (yb * width + xb) * 4;
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c]! * (1 - fx) + data[i10 + c]! * fx;
+    const bottom = data[i01 + c]! * (1 - fx) + data[i11 + c]! * fx;
+    out[c] = (top * (1 - fy) + bottom * fy) / 255;
+  }
+};
+
+export class CpuBeamSplitterRenderer {
+  private readonly options: CpuBeamSplitterRendererOptions;
+  private branches: PreparedBeamSplitterBranch[] = [];
+  private recombineMode = RECOMBINE_KIND.sum;
+  private interferometer = resolveInterferometerConfig(undefined);
+  private currentNodeId: string | undefined;
+  private asset: (CpuBeamSplitterAsset & { id: string; previewUrl: string }) | null = null;
+  private pipeline: MediaPipelineResult | undefined;
+  private sourceTexture: Texture | null = null;
+  private edgeTexture: Texture | null = null;
+  private phaseTexture: Texture | null = null;
+  private diagnosticsFrame = 0;
+
+  constructor(options: CpuBeamSplitterRendererOptions = {}) {
+    this.options = options;
+  }
+
+  async configure(config: BeamSplitterRendererConfig): Promise<void> {
+    this.currentNodeId = config.nodeId;
+    if (config.asset) {
+      const { id, previewUrl } = config.asset;
+      let asset = this.asset;
+      if (config.asset.pixels) {
+        asset = {
+          id,
+          previewUrl,
+          width: config.asset.width,
+          height: config.asset.height,
+          pixels: config.asset.pixels,
+        };
+      } else if (!asset || asset.id !== id || asset.previewUrl !== previewUrl) {
+        if (!this.options.loadAsset) {
+          throw new Error(`[beamSplitterCpu] asset ${id} has no pixels and no loadAsset hook`);
+        }
+        asset = { id, previewUrl, ...(await this.options.loadAsset(config.asset)) };
+      }
+      const expected = asset.width * asset.height * 4;
+      if (asset.pixels.length !== expected) {
+        throw new Error(
+          `[beamSplitterCpu] asset ${id} has ${asset.pixels.length} bytes; expected ${expected}`,
+        );
+      }
+      this.asset = asset;
+      this.sourceTexture = { width: asset.width, height: asset.height, data: asset.pixels };
+    } else {
+      this.asset = null;
+      this.sourceTexture = null;
+    }
+
+    if (config.pipeline && config.pipeline !== this.pipeline) {
+      this.pipeline = config.pipeline;
+      const { rim } = config.pipeline;
+      const phase = config.pipeline.phase.field;
+      this.edgeTexture = {
+        width: rim.resolution.width,
+        height: rim.resolution.height,
+        data: toUint8Rgba(rim.mag, rim.resolution.width, rim.resolution.height, 255),
+      };
+      this.phaseTexture = {
+        width: phase.resolution.width,
+        height: phase.resolution.height,
+        data: toUint8Rgba(phase.amp, phase.resolution.width, phase.resolution.height, 255),
+      };
+    }
+
+    this.interferometer = resolveInterferometerConfig(config.interferometer);
+    this.recombineMode = RECOMBINE_KIND[config.recombine] ?? RECOMBINE_KIND.sum;
+    this.branches = prepareBeamSplitterBranches(
+      config.branches,
+      this.interferometer,
+      this.asset?.width ?? 1,
+      this.asset?.height ?? 1,
+    );
+  }
+
+  /**
+   * Renders a `width × height` RGBA8 frame in `gl.readPixels` order: row `r` holds
+   * `v = (r + 0.5) / height`. Textures are uploaded unflipped, so this is also the source
+   * image's own row order. Publishes a diagnostics entry when a publisher is configured.
+   */
+  render(width: number, height: number): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(width * height * 4);
+    const sample = new Float64Array(4);
+    const mode = this.recombineMode;
+    for (let py = 0; py < height; py++) {
+      const vy = (py + 0.5) / height;
+      for (let px = 0; px < width; px++) {
+        const vx = (px + 0.5) / width;
+        let accumR = 0;
+        let accumG = 0;
+        let accumB = 0;
+        let accumAlpha = 0;
+        let weightSum = 0;
+        let weightSqSum = 0;
+        let bestPriority = 1e9;
+        let bestIntensity = -1;
+        let bestR = 0;
+        let bestG = 0;
+        let bestB = 0;
+        let bestAlpha = 0;
+        let fieldXr = 0;
+        let fieldXi = 0;
+        let fieldYr = 0;
+        let fieldYi = 0;
+
+        for (const branch of this.branches) {
+          this.sampleBranch(branch, vx, vy, sample);
+          const [r, g, b, a] = sample;
+          const weight = Math.max(0, branch.weight);
+          weightSum += weight;
+          weightSqSum += weight * weight;
+
+          if (mode === RECOMBINE_KIND.priority) {
+            if (branch.priority < bestPriority) {
+              bestPriority = branch.priority;
+              bestR = r! * weight;
+              bestG = g! * weight;
+              bestB = b! * weight;
+              bestAlpha = a! * weight;
+            }
+            continue;
+          }
+
+          if (mode === RECOMBINE_KIND.max) {
+            const intensity = luminance(r!, g!, b!) * weight;
+            if (intensity > bestIntensity) {
+              bestIntensity = intensity;
+              bestR = r! * weight;
+              bestG = g! * weight;
+              bestB = b! * weight;
+              bestAlpha = a! * weight;
+            }
+            continue;
+          }
+
+          if (mode === RECOMBINE_KIND.interferometer) {
+            const amp = Math.sqrt(Math.max(luminance(r!, g!, b!), 0)) * weight;
+            const phase = branch.phase + branch.tilt[0] * (vx - 0.5) + branch.tilt[1] * (vy - 0.5);
+            const cr = amp * Math.cos(phase);
+            const ci = amp * Math.sin(phase);
+            const [xr, xi, yr, yi] = branch.jones;
+            fieldXr += cr * xr - ci * xi;
+            fieldXi += cr * xi + ci * xr;
+            fieldYr += cr * yr - ci * yi;
+            fieldYi += cr * yi + ci * yr;
+            accumAlpha += a! * weight;
+            continue;
+          }
+
+          if (mode === RECOMBINE_KIND.phase) {
+            const amp = luminance(r!, g!, b!);
+            accumR += amp * weight;
+            accumG += amp * 0.7 * weight;
+            accumB += amp * 1.3 * weight;
+          } else {
+            accumR += r! * weight;
+            accumG += g! * weight;
+            accumB += b! * weight;
+          }
+          accumAlpha += a! * weight;
+        }
+
+        let finalR: number;
+        let finalG: number;
+        let finalB: number;
+        let finalAlpha: number;
+        if (mode === RECOMBINE_KIND.priority || mode === RECOMBINE_KIND.max) {
+          finalR = bestR;
+          finalG = bestG;
+          finalB = bestB;
+          finalAlpha = bestAlpha;
+        } else if (mode === RECOMBINE_KIND.interferometer) {
+          const norm = weightSum > 0 ? 1 / weightSum : 0;
+          const intensity =
+            (fieldXr * fieldXr + fieldXi * fieldXi + fieldYr * fieldYr + fieldYi * fieldYi) *
+            norm *
+            norm;
+          finalR = intensity;
+          finalG = intensity;
+          finalB = intensity;
+          finalAlpha = accumAlpha * norm;
+        } else {
+          let norm = 1;
+          if (mode === RECOMBINE_KIND.average && weightSum > 0) {
+            norm = 1 / weightSum;
+          } else if (mode === RECOMBINE_KIND.energy && weightSqSum > 0) {
+            norm = 1 / Math.sqrt(weightSqSum);
+          }
+          finalR = accumR * norm;
+          finalG = accumG * norm;
+          finalB = accumB * norm;
+          finalAlpha = accumAlpha * norm;
+        }
+
+        const idx = (py * width + px) * 4;
+        out[idx] = Math.round(clamp01(finalR) * 255);
+        out[idx + 1] = Math.round(clamp01(finalG) * 255);
+        out[idx + 2] = Math.round(clamp01(finalB) * 255);
+        out[idx + 3] = Math.round(clamp01(finalAlpha) * 255);
+      }
+    }
+
+    if (this.options.publishDiagnostics) {
+      const entry = this.diagnostics();
+      if (entry) {
+        this.options.publishDiagnostics([entry]);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Diagnostics for the current configuration, computed exactly as the WebGL renderer does;
+   * null without a node id, branches or an asset.
+   */
+  diagnostics(now = Date.now()): BeamSplitterDiagnosticsEntry | null {
+    if (!this.currentNodeId || this.branches.length === 0 || !this.asset) {
+      return null;
+    }
+    this.diagnosticsFrame += 1;
+    return computeBeamSplitterDiagnostics(
+      this.branches,
+      this.recombineMode,
+      createIntensitySampler(this.asset, this.pipeline),
+      {
+        nodeId: this.currentNodeId,
+        frameId: this.diagnosticsFrame,
+        updatedAt: now,
+        interferometer: this.interferometer,
+        assetWidth: this.asset.width,
+        assetHeight: this.asset.height,
+      },
+    );
+  }
+
+  dispose() {
+    this.asset = null;
+    this.pipeline = undefined;
+    this.sourceTexture = null;
+    this.edgeTexture = null;
+    this.phaseTexture = null;
+    this.branches = [];
+  }
+
+  private sampleBranch(
+    branch: PreparedBeamSplitterBranch,
+    uvX: number,
+    uvY: number,
+    out: Float64Array,
+  ) {
+    const { matrix } = branch;
+    const u = clamp01(matrix[0] * uvX + matrix[3] * uvY + matrix[6]);
+    const v = clamp01(matrix[1] * uvX + matrix[4] * uvY + matrix[7]);
+    switch (branch.sourceKind) {
+      case SOURCE_KIND.edge:
+      case SOURCE_KIND.phase:
+      case SOURCE_KIND.oscillator: {
+        const texture =
+          (branch.sourceKind === SOURCE_KIND.edge ? this.edgeTexture : this.phaseTexture) ??
+          EMPTY_TEXTURE;
+        sampleLinear(texture, u, v, out);
+        // Edge and phase read the red channel, oscillator the green one.
+        const value = branch.sourceKind === SOURCE_KIND.oscillator ? out[1]! : out[0]!;
+        out[0] = value;
+        out[1] = value;
+        out[2] = value;
+        out[3] = 1;
+        return;
+      }
+      case SOURCE_KIND.surface:
+        sampleLinear(this.sourceTexture ?? EMPTY_TEXTURE, u, v, out);
+        out[0] *= 0.8;
+        out[1] *= 0.9;
+        return;
+      default:
+        sampleLinear(this.sourceTexture ?? EMPTY_TEXTURE, u, v, out);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import type { BeamSplitterRendererConfig } from './beamSplitterCommon.js';
+import type { CpuBeamSplitterRenderer } from './beamSplitterCpu.js';
+
+/**
+ * Parity harness between the WebGL beam-splitter renderer and its CPU backend. Both frames are
+ * compared in `gl.readPixels` order; differences are per 8-bit channel. The viewport exposes it
+ * against the live `BeamSplitterRenderer` as `window.__runBeamSplitterParity(tolerance?)`.
+ */
+
+export type BeamSplitterFrameComparison = {
+  texels: number;
+  maxDifference: number;
+  meanDifference: number;
+  /** Texels where any channel differs by more than the tolerance. */
+  mismatchedTexels: number;
+  passed: boolean;
+};
+
+/** The parts of `BeamSplitterRenderer` the harness drives. */
+export type BeamSplitterParityTarget = {
+  configure(config: BeamSplitterRendererConfig): Promise<void>;
+  render(width: number, height: number): void;
+  readPixels(width: number, height: number): Uint8Array;
+};
+
+export const compareBeamSplitterFrames = (
+  reference: ArrayLike<number>,
+  candidate: ArrayLike<number>,
+  tolerance = 2,
+): BeamSplitterFrameComparison => {
+  if (reference.length !== candidate.length || reference.length % 4 !== 0) {
+    throw new Error(
+      `[beamSplitterParity] frame sizes differ (${reference.length} vs ${candidate.length} bytes)`,
+    );
+  }
+  const texels = reference.length / 4;
+  let maxDifference = 0;
+  let total = 0;
+  let mismatchedTexels = 0;
+  for (let texel = 0; texel < texels; texel++) {
+    let texelMax = 0;
+    for (let c = 0; c < 4; c++) {
+      const difference = Math.abs(reference[texel * 4 + c]! - candidate[texel * 4 + c]!);
+      texelMax = Math.max(texelMax, difference);
+      total += difference;
+    }
+    maxDifference = Math.max(maxDifference, texelMax);
+    if (texelMax > tolerance) mismatchedTexels++;
+  }
+  return {
+    texels,
+    maxDifference,
+    meanDifference: texels > 0 ? total / reference.length : 0,
+    mismatchedTexels,
+    passed: mismatchedTexels === 0,
+  };
+};
+
+/** Configures both backends identically, renders one frame each and compares them. */
+export const runBeamSplitterParity = async (
+  gpu: BeamSplitterParityTarget,
+  cpu: CpuBeamSplitterRenderer,
+  config: BeamSplitterRendererConfig,
+  width: number,
+  height: number,
+  tolerance = 2,
+): Promise<BeamSplitterFrameComparison> => {
+  await Promise.all([gpu.configure(config), cpu.configure(config)]);
+  gpu.render(width, height);
+  return compareBeamSplitterFrames(
+    gpu.readPixels(width, height),
+    cpu.render(width, height),
+    tolerance,
+  );
+};
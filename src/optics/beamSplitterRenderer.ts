@@ -1,59 +1,25 @@
 import type { MediaPipelineResult } from '../media/mediaPipeline';
-import type { BeamSplitterBranchSource, BeamSplitterTransformStep } from '../state/beamSplitter';
-import type { BeamSplitterBranchMetrics, BeamSplitterDiagnosticsEntry } from '../state/types';
-
-const MAX_BRANCHES = 8;
-const DIAGNOSTIC_GRID = 48;
-
-type Mat3 = [number, number, number, number, number, number, number, number, number];
-
-const identityMat3 = (): Mat3 => [1, 0, 0, 0, 1, 0, 0, 0, 1];
-
-const multiplyMat3 = (a: Mat3, b: Mat3): Mat3 => {
-  const result: Mat3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
-  result[0] = a[0] * b[0] + a[3] * b[1] + a[6] * b[2];
-  result[1] = a[1] * b[0] + a[4] * b[1] + a[7] * b[2];
-  result[2] = a[2] * b[0] + a[5] * b[1] + a[8] * b[2];
-  result[3] = a[0] * b[3] + a[3] * b[4] + a[6] * b[5];
-  result[4] = a[1] * b[3] + a[4] * b[4] + a[7] * b[5];
-  result[5] = a[2] * b[3] + a[5] * b[4] + a[8] * b[5];
-  result[6] = a[0] * b[6] + a[3] * b[7] + a[6] * b[8];
-  result[7] = a[1] * b[6] + a[4] * b[7] + a[7] * b[8];
-  result[8] = a[2] * b[6] + a[5] * b[7] + a[8] * b[8];
-  return result;
-};
-
-const translateMat3 = (tx: number, ty: number): Mat3 => [1, 0, 0, 0, 1, 0, tx, ty, 1];
-
-const scaleMat3 = (sx: number, sy: number): Mat3 => [sx, 0, 0, 0, sy, 0, 0, 0, 1];
-
-const rotateMat3 = (rad: number): Mat3 => {
-  const c = Math.cos(rad);
-  const s = Math.sin(rad);
-  return [c, s, 0, -s, c, 0, 0, 0, 1];
-};
-
-const CENTER_TRANSLATE = {
-  toOrigin: translateMat3(-0.5, -0.5),
-  toCenter: translateMat3(0.5, 0.5),
-};
-
-const SOURCE_KIND: Record<BeamSplitterBranchSource, number> = {
-  source: 0,
-  edge: 1,
-  phase: 2,
-  oscillator: 3,
-  surface: 4,
-};
-
-const RECOMBINE_KIND: Record<string, number> = {
-  sum: 0,
-  average: 1,
-  energy: 2,
-  priority: 3,
-  max: 4,
-  phase: 5,
-};
+import {
+  MAX_BRANCHES,
+  RECOMBINE_KIND,
+  SOURCE_KIND,
+  computeBeamSplitterDiagnostics,
+  createIntensitySampler,
+  identityMat3,
+  prepareBeamSplitterBranches,
+  resolveInterferometerConfig,
+  toUint8Rgba,
+  type BeamSplitterBranchConfig,
+  type BeamSplitterRendererConfig,
+  type DiagnosticsPublisher,
+  type PreparedBeamSplitterBranch,
+} from './beamSplitterCommon';
+
+export type {
+  BeamSplitterBranchConfig,
+  BeamSplitterInterferometerConfig,
+  BeamSplitterRendererConfig,
+} from './beamSplitterCommon';
 
 const VERTEX_SHADER_SRC = `#version 300 es
 precision highp float;
@@ -80,6 +46,9 @@ uniform mat3 uBranchMatrix[MAX_BRANCHES];
 uniform float uBranchWeight[MAX_BRANCHES];
 uniform int uBranchSource[MAX_BRANCHES];
 uniform float uBranchPriority[MAX_BRANCHES];
+uniform float uBranchPhase[MAX_BRANCHES];
+uniform vec2 uBranchTilt[MAX_BRANCHES];
+uniform vec4 uBranchJones[MAX_BRANCHES];
 uniform int uRecombineMode;
 
 in vec2 vUv;
@@ -122,6 +91,8 @@ void main() {
   float bestIntensity = -1.0;
   vec3 bestRgb = vec3(0.0);
   float bestAlpha = 0.0;
+  vec2 fieldX = vec2(0.0);
+  vec2 fieldY = vec2(0.0);
 
   for (int i = 0; i < MAX_BRANCHES; i++) {
     if (i >= uBranchCount) {
@@ -152,6 +123,17 @@ void main() {
       continue;
     }
 
+    if (uRecombineMode == 6) {
+      float amp = sqrt(max(luminance(sample.rgb), 0.0)) * weight;
+      float phase = uBranchPhase[i] + dot(uBranchTilt[i], vUv - 0.5);
+      vec2 carrier = amp * vec2(cos(phase), sin(phase));
+      vec4 jones = uBranchJones[i];
+      fieldX += vec2(carrier.x * jones.x - carrier.y * jones.y, carrier.x * jones.y + carrier.y * jones.x);
+      fieldY += vec2(carrier.x * jones.z - carrier.y * jones.w, carrier.x * jones.w + carrier.y * jones.z);
+      accumAlpha += sample.a * weight;
+      continue;
+    }
+
     if (uRecombineMode == 5) {
       float amp = luminance(sample.rgb);
       vec3 phased = vec3(amp, amp * 0.7, amp * 1.3);
@@ -169,6 +151,13 @@ void main() {
   if (uRecombineMode == 3 || uRecombineMode == 4) {
     finalRgb = bestRgb;
     finalAlpha = bestAlpha;
+  } else if (uRecombineMode == 6) {
+    // Amplitude divides by the weights on the way in and out of the splitter.
+    float norm = weightSum > 0.0 ? 1.0 / weightSum : 0.0;
+    fieldX *= norm;
+    fieldY *= norm;
+    finalRgb = vec3(dot(fieldX, fieldX) + dot(fieldY, fieldY));
+    finalAlpha = accumAlpha * norm;
   } else {
     if (uRecombineMode == 1 && weightSum > 0.0) {
       accumRgb /= weightSum;
@@ -186,32 +175,6 @@ void main() {
 }
 `;
 
-export interface BeamSplitterBranchConfig {
-  readonly id: string;
-  readonly label: string;
-  readonly weight: number;
-  readonly priority: number;
-  readonly source: BeamSplitterBranchSource;
-  readonly transformStack: BeamSplitterTransformStep[];
-}
-
-export interface BeamSplitterRendererConfig {
-  readonly canvasWidth: number;
-  readonly canvasHeight: number;
-  readonly nodeId?: string;
-  readonly asset?: {
-    readonly id: string;
-    readonly previewUrl: string;
-    readonly width: number;
-    readonly height: number;
-  };
-  readonly pipeline?: MediaPipelineResult;
-  readonly branches: BeamSplitterBranchConfig[];
-  readonly recombine: string;
-}
-
-type DiagnosticsPublisher = (entries: readonly BeamSplitterDiagnosticsEntry[]) => void;
-
 const createTexture = (gl: WebGL2RenderingContext): WebGLTexture => {
   const tex = gl.createTexture();
   if (!tex) {
@@ -283,80 +246,12 @@ const createQuad = (gl: WebGL2RenderingContext) => {
   return { vao, vbo };
 };
 
-const toUint8Rgba = (data: Float32Array, width: number, height: number, scale = 1) => {
-  const pixels = new Uint8Array(width * height * 4);
-  for (let i = 0; i < width * height; i++) {
-    const value = Math.max(0, Math.min(255, Math.round(data[i] * scale)));
-    const idx = i * 4;
-    pixels[idx + 0] = value;
-    pixels[idx + 1] = value;
-    pixels[idx + 2] = value;
-    pixels[idx + 3] = 255;
-  }
-  return pixels;
-};
-
 const toUint8RgbaFromClamped = (data: Uint8ClampedArray): Uint8Array => {
   const copy = new Uint8Array(data.length);
   copy.set(data);
   return copy;
 };
 
-const composeTransformMatrix = (stack: BeamSplitterTransformStep[]): Mat3 => {
-  let matrix = identityMat3();
-  for (const step of stack) {
-    if (step.kind === 'rotate') {
-      const rotation = multiplyMat3(
-        multiplyMat3(CENTER_TRANSLATE.toCenter, rotateMat3(((step.degrees ?? 0) * Math.PI) / 180)),
-        CENTER_TRANSLATE.toOrigin,
-      );
-      matrix = multiplyMat3(rotation, matrix);
-    } else if (step.kind === 'scale') {
-      const factor = Math.abs(step.factor ?? 1) <= 1e-4 ? 1 : (step.factor ?? 1);
-      const scaling = multiplyMat3(
-        multiplyMat3(CENTER_TRANSLATE.toCenter, scaleMat3(factor, factor)),
-        CENTER_TRANSLATE.toOrigin,
-      );
-      matrix = multiplyMat3(scaling, matrix);
-    } else if (step.kind === 'mirror') {
-      const sx = step.axis === 'y' ? 1 : -1;
-      const sy = step.axis === 'y' ? -1 : 1;
-      const mirror = multiplyMat3(
-        multiplyMat3(CENTER_TRANSLATE.toCenter, scaleMat3(sx, sy)),
-        CENTER_TRANSLATE.toOrigin,
-      );
-      matrix = multiplyMat3(mirror, matrix);
-    }
-  }
-  return matrix;
-};
-
-const sampleNearest = (
-  pixels: Uint8Array,
-  width: number,
-  height: number,
-  uvX: number,
-  uvY: number,
-): [number, number, number] => {
-  const x = Math.min(width - 1, Math.max(0, Math.round(uvX * (width - 1))));
-  const y = Math.min(height - 1, Math.max(0, Math.round(uvY * (height - 1))));
-  const idx = (y * width + x) * 4;
-  return [pixels[idx] / 255, pixels[idx + 1] / 255, pixels[idx + 2] / 255];
-};
-
-const sampleFloatField = (
-  data: Float32Array,
-  width: number,
-  height: number,
-  uvX: number,
-  uvY: number,
-): number => {
-  const x = Math.min(width - 1, Math.max(0, Math.round(uvX * (width - 1))));
-  const y = Math.min(height - 1, Math.max(0, Math.round(uvY * (height - 1))));
-  const idx = y * width + x;
-  return data[idx];
-};
-
 interface CachedAsset {
   id: string;
   previewUrl: string;
@@ -380,10 +275,14 @@ export class BeamSplitterRenderer {
   private branchWeight = new Float32Array(MAX_BRANCHES);
   private branchPriority = new Float32Array(MAX_BRANCHES);
   private branchSource = new Int32Array(MAX_BRANCHES);
+  private branchPhase = new Float32Array(MAX_BRANCHES);
+  private branchTilt = new Float32Array(2 * MAX_BRANCHES);
+  private branchJones = new Float32Array(4 * MAX_BRANCHES);
+  private interferometer = resolveInterferometerConfig(undefined);
   private branchCount = 0;
   private recombineMode = RECOMBINE_KIND.sum;
   private currentNodeId: string | undefined;
-  private branchMeta: BeamSplitterBranchConfig[] = [];
+  private branches: PreparedBeamSplitterBranch[] = [];
 
   private asset: CachedAsset | null = null;
   private pipeline: MediaPipelineResult | undefined;
@@ -398,6 +297,9 @@ export class BeamSplitterRenderer {
     branchWeight: WebGLUniformLocation;
     branchSource: WebGLUniformLocation;
     branchPriority: WebGLUniformLocation;
+    branchPhase: WebGLUniformLocation;
+    branchTilt: WebGLUniformLocation;
+    branchJones: WebGLUniformLocation;
     recombineMode: WebGLUniformLocation;
     sourceTex: WebGLUniformLocation;
     edgeTex: WebGLUniformLocation;
@@ -424,6 +326,9 @@ export class BeamSplitterRenderer {
       branchWeight: this.getUniform('uBranchWeight[0]'),
       branchSource: this.getUniform('uBranchSource[0]'),
       branchPriority: this.getUniform('uBranchPriority[0]'),
+      branchPhase: this.getUniform('uBranchPhase[0]'),
+      branchTilt: this.getUniform('uBranchTilt[0]'),
+      branchJones: this.getUniform('uBranchJones[0]'),
       recombineMode: this.getUniform('uRecombineMode'),
       sourceTex: this.getUniform('uSourceTex'),
       edgeTex: this.getUniform('uEdgeTex'),
@@ -474,6 +379,7 @@ export class BeamSplitterRenderer {
       this.uploadPhase(config.pipeline);
     }
 
+    this.interferometer = resolveInterferometerConfig(config.interferometer);
     this.prepareBranches(config.branches, config.recombine);
   }
 
@@ -500,6 +406,9 @@ export class BeamSplitterRenderer {
     gl.uniform1fv(this.uniforms.branchWeight, this.branchWeight);
     gl.uniform1iv(this.uniforms.branchSource, this.branchSource);
     gl.uniform1fv(this.uniforms.branchPriority, this.branchPriority);
+    gl.uniform1fv(this.uniforms.branchPhase, this.branchPhase);
+    gl.uniform2fv(this.uniforms.branchTilt, this.branchTilt);
+    gl.uniform4fv(this.uniforms.branchJones, this.branchJones);
     gl.uniform1i(this.uniforms.recombineMode, this.recombineMode);
 
     gl.drawArrays(gl.TRIANGLES, 0, 6);
@@ -595,27 +504,23 @@ export class BeamSplitterRenderer {
   }
 
   private prepareBranches(branches: BeamSplitterBranchConfig[], recombine: string) {
-    const limited = branches.slice(0, MAX_BRANCHES);
-    this.branchCount = limited.length;
     this.recombineMode = RECOMBINE_KIND[recombine] ?? RECOMBINE_KIND.sum;
-    this.branchMeta = limited.map((branch) => ({
-      ...branch,
-      transformStack: branch.transformStack?.map((step) => ({ ...step })) ?? [],
-    }));
+    this.branches = prepareBeamSplitterBranches(
+      branches,
+      this.interferometer,
+      this.asset?.width ?? 1,
+      this.asset?.height ?? 1,
+    );
+    this.branchCount = this.branches.length;
     for (let i = 0; i < MAX_BRANCHES; i++) {
-      if (i < limited.length) {
-        const branch = limited[i];
-        const matrix = composeTransformMatrix(branch.transformStack ?? []);
-        this.branchMatrix.set(matrix, i * 9);
-        this.branchWeight[i] = branch.weight ?? 1;
-        this.branchPriority[i] = branch.priority ?? i;
-        this.branchSource[i] = SOURCE_KIND[branch.source ?? 'source'] ?? SOURCE_KIND.source;
-      } else {
-        this.branchMatrix.set(identityMat3(), i * 9);
-        this.branchWeight[i] = 0;
-        this.branchPriority[i] = i;
-        this.branchSource[i] = SOURCE_KIND.source;
-      }
+      const branch = this.branches[i];
+      this.branchMatrix.set(branch?.matrix ?? identityMat3(), i * 9);
+      this.branchWeight[i] = branch?.weight ?? 0;
+      this.branchPriority[i] = branch?.priority ?? i;
+      this.branchSource[i] = branch?.sourceKind ?? SOURCE_KIND.source;
+      this.branchPhase[i] = branch?.phase ?? 0;
+      this.branchTilt.set(branch?.tilt ?? [0, 0], i * 2);
+      this.branchJones.set(branch?.jones ?? [0, 0, 0, 0], i * 4);
     }
   }
 
@@ -629,174 +534,35 @@ export class BeamSplitterRenderer {
     }
     this.lastDiagnosticsAt = now;
     this.diagnosticsFrame += 1;
-    const metrics = this.computeDiagnostics();
     this.updateDiagnostics([
-      {
-        nodeId: this.currentNodeId,
-        branches: metrics,
-        recombineMode:
-          Object.keys(RECOMBINE_KIND).find((key) => RECOMBINE_KIND[key] === this.recombineMode) ??
-          'sum',
-        frameId: this.diagnosticsFrame,
-        updatedAt: now,
-      },
+      computeBeamSplitterDiagnostics(
+        this.branches,
+        this.recombineMode,
+        createIntensitySampler(this.asset, this.pipeline),
+        {
+          nodeId: this.currentNodeId,
+          frameId: this.diagnosticsFrame,
+          updatedAt: now,
+          interferometer: this.interferometer,
+          assetWidth: this.asset.width,
+          assetHeight: this.asset.height,
+        },
+      ),
     ]);
   }
 
-  private computeDiagnostics(): BeamSplitterBranchMetrics[] {
-    const metrics: BeamSplitterBranchMetrics[] = [];
-    if (!this.asset) {
-      return metrics;
-    }
-    const width = DIAGNOSTIC_GRID;
-    const height = DIAGNOSTIC_GRID;
-    const sampleCount = width * height;
-    const branchesData: {
-      id: string;
-      label: string;
-      weight: number;
-      priority: number;
-      sourceKind: number;
-      matrix: Mat3;
-    }[] = [];
-
-    for (let i = 0; i < this.branchCount; i++) {
-      const start = i * 9;
-      const meta = this.branchMeta[i];
-      branchesData.push({
-        id: meta?.id ?? `branch-${i}`,
-        label: meta?.label ?? `Branch ${i + 1}`,
-        weight: meta?.weight ?? this.branchWeight[i],
-        priority: meta?.priority ?? this.branchPriority[i],
-        sourceKind: meta
-          ? (SOURCE_KIND[meta.source ?? 'source'] ?? this.branchSource[i])
-          : this.branchSource[i],
-        matrix: [
-          this.branchMatrix[start + 0],
-          this.branchMatrix[start + 1],
-          this.branchMatrix[start + 2],
-          this.branchMatrix[start + 3],
-          this.branchMatrix[start + 4],
-          this.branchMatrix[start + 5],
-          this.branchMatrix[start + 6],
-          this.branchMatrix[start + 7],
-          this.branchMatrix[start + 8],
-        ],
-      });
-    }
-
-    const energy = new Float64Array(this.branchCount);
-    const coverage = new Uint32Array(this.branchCount);
-    const occluded = new Uint32Array(this.branchCount);
-
-    const sourcePixels = this.asset.pixels;
-    const sourceWidth = this.asset.width;
-    const sourceHeight = this.asset.height;
-    const rim = this.pipeline?.rim;
-    const phase = this.pipeline?.phase.field;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const uvX = (x + 0.5) / width;
-        const uvY = (y + 0.5) / height;
-        let bestPriority = Number.POSITIVE_INFINITY;
-        let bestIndex = -1;
-        let highestIntensity = -1;
-        for (let i = 0; i < branchesData.length; i++) {
-          const branch = branchesData[i];
-          const coordX = branch.matrix[0] * uvX + branch.matrix[3] * uvY + branch.matrix[6];
-          const coordY = branch.matrix[1] * uvX + branch.matrix[4] * uvY + branch.matrix[7];
-          const u = Math.min(1, Math.max(0, coordX));
-          const v = Math.min(1, Math.max(0, coordY));
-          let intensity = 0;
-          if (
-            branch.sourceKind === SOURCE_KIND.source ||
-            branch.sourceKind === SOURCE_KIND.surface
-          ) {
-            const color = sampleNearest(sourcePixels, sourceWidth, sourceHeight, u, v);
-            intensity = (color[0] + color[1] + color[2]) / 3;
-          } else if (branch.sourceKind === SOURCE_KIND.edge && rim) {
-            intensity = sampleFloatField(
-              rim.mag,
-              rim.resolution.width,
-              rim.resolution.height,
-              u,
-              v,
-            );
-          } else if (branch.sourceKind === SOURCE_KIND.phase && phase) {
-            intensity = sampleFloatField(
-              phase.amp,
-              phase.resolution.width,
-              phase.resolution.height,
-              u,
-              v,
-            );
-          } else if (branch.sourceKind === SOURCE_KIND.oscillator && phase) {
-            intensity = sampleFloatField(
-              phase.coh,
-              phase.resolution.width,
-              phase.resolution.height,
-              u,
-              v,
-            );
-          }
-          const weighted = intensity * branch.weight;
-          if (weighted > 1e-3) {
-            energy[i] += weighted;
-            coverage[i] += 1;
-          }
-          if (this.recombineMode === RECOMBINE_KIND.priority) {
-            if (branch.priority < bestPriority && weighted > 1e-3) {
-              bestPriority = branch.priority;
-              bestIndex = i;
-            }
-          } else if (this.recombineMode === RECOMBINE_KIND.max) {
-            if (weighted > highestIntensity) {
-              highestIntensity = weighted;
-              bestIndex = i;
-            }
-          }
-        }
-        if (
-          this.recombineMode === RECOMBINE_KIND.priority ||
-          this.recombineMode === RECOMBINE_KIND.max
-        ) {
-          for (let i = 0; i < branchesData.length; i++) {
-            if (i !== bestIndex && coverage[i] > 0) {
-              occluded[i] += 1;
-            }
-          }
-        }
-      }
-    }
-
-    let totalEnergy = 0;
-    for (let i = 0; i < branchesData.length; i++) {
-      totalEnergy += energy[i];
-    }
-
-    for (let i = 0; i < branchesData.length; i++) {
-      const branch = branchesData[i];
-      const share = totalEnergy > 0 ? energy[i] / totalEnergy : 0;
-      const cover = coverage[i] / sampleCount;
-      const occ = coverage[i] > 0 ? Math.min(1, occluded[i] / Math.max(1, coverage[i])) : 0;
-      metrics.push({
-        branchId: branch.id,
-        label: branch.label,
-        energy: energy[i],
-        energyShare: share,
-        coverage: cover,
-        occlusion: occ,
-        priority: branch.priority,
-        source:
-          this.branchMeta[i]?.source ??
-          Object.keys(SOURCE_KIND).find(
-            (key) => SOURCE_KIND[key as BeamSplitterBranchSource] === branch.sourceKind,
-          ),
-        weight: branch.weight,
-      });
-    }
+  /** Reads back the last rendered frame as RGBA8, bottom row first (`gl.readPixels` order). */
+  readPixels(width: number, height: number): Uint8Array {
+    const { gl } = this;
+    const pixels = new Uint8Array(width * height * 4);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    return pixels;
+  }
 
-    return metrics;
+  /** The decoded source asset as uploaded to the texture, top row first. */
+  sourcePixels(): { width: number; height: number; pixels: Uint8Array } | null {
+    if (!this.asset) return null;
+    const { width, height, pixels } = this.asset;
+    return { width, height, pixels };
   }
 }
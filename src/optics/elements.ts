@@ -0,0 +1,579 @@
+import { makeResolution, type FieldResolution } from '../fields/contracts.js';
+import type { OpticalFieldFrame } from '../fields/opticalField.js';
+import { decodeDepthMap, resampleDepthMap, type DepthDecodeOptions } from '../media/depthImport.js';
+import { mulberry32 } from '../qcd/updateCpu.js';
+
+/**
+ * Parametric thin optical elements. Each spec compiles to a complex transmission mask
+ * `t(x, y)` at the frame's resolution, wavelength and pixel pitch; applying the element
+ * multiplies every component of an `OpticalFieldFrame` by `t`. Because the mask is compiled
+ * per wavelength, the bands of a spectral field see the element's chromatic behaviour.
+ *
+ * Coordinates are pixel centres measured from the frame centre, shifted by the element's
+ * optional offset. Phase conventions follow `AngularSpectrumSolver` (`exp(+ikz)`), so a
+ * positive focal length converges the beam.
+ */
+
+export type OpticalElementPlacement = {
+  offsetXMeters?: number;
+  offsetYMeters?: number;
+  /** Circular clear aperture; the element is opaque outside this radius. */
+  clearRadiusMeters?: number;
+};
+
+export type PhaseGratingProfile = 'sinusoidal' | 'binary' | 'blazed';
+
+export type ZonePlateMode = 'amplitude' | 'phase';
+
+/** Grey-level transmission image, row-major from the top row, values in `0 … 1`. */
+export type ApertureMask = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+/** Wrapped phase in radians, row-major from the top row. */
+export type PhaseMap = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+export type OpticalElementSpec = OpticalElementPlacement &
+  (
+    | { type: 'thinLens'; focalLengthMeters: number }
+    | {
+        type: 'axicon';
+        /** Deflection angle of the conical wavefront. */
+        coneAngleRad: number;
+      }
+    | {
+        type: 'phaseGrating';
+        periodMeters: number;
+        orientationRad?: number;
+        /** Peak-to-peak phase modulation. */
+        depthRad?: number;
+        profile?: PhaseGratingProfile;
+      }
+    | { type: 'zonePlate'; focalLengthMeters: number; mode?: ZonePlateMode }
+    | {
+        type: 'vortex';
+        /** Topological charge; rounded to an integer so the phase stays single-valued. */
+        charge: number;
+      }
+    | {
+        type: 'diffuser';
+        seed?: number;
+        /** Standard deviation of the phase screen. */
+        strengthRad?: number;
+        /** Gaussian correlation length of the phase screen, in pixels. */
+        correlationPx?: number;
+      }
+    | {
+        type: 'aperture';
+        /** Asset reference kept in manifests; resolved with `loadApertureMask`. */
+        source?: string;
+        mask?: ApertureMask;
+        /** Binarise the mask at this level instead of using it as a grey transmission. */
+        threshold?: number;
+        invert?: boolean;
+      }
+    | {
+        /** Arbitrary phase-only mask, e.g. a hologram from `retrievePhase`. */
+        type: 'phasePlate';
+        phase: PhaseMap;
+      }
+  );
+
+export type OpticalElementType = OpticalElementSpec['type'];
+
+export const OPTICAL_ELEMENT_TYPES: readonly OpticalElementType[] = [
+  'thinLens',
+  'axicon',
+  'phaseGrating',
+  'zonePlate',
+  'vortex',
+  'diffuser',
+  'aperture',
+  'phasePlate',
+] as const;
+
+export type OpticalElementContext = {
+  width: number;
+  height: number;
+  wavelengthNm: number;
+  pixelPitchMeters: number;
+};
+
+export type OpticalTransmissionMask = {
+  resolution: FieldResolution;
+  real: Float32Array;
+  imag: Float32Array;
+};
+
+const TAU = Math.PI * 2;
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const assertContext = (ctx: OpticalElementContext) => {
+  const { width, height, wavelengthNm, pixelPitchMeters } = ctx;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`[opticalElements] invalid resolution ${width}x${height}`);
+  }
+  if (!(wavelengthNm > 0) || !(pixelPitchMeters > 0)) {
+    throw new Error(
+      `[opticalElements] wavelength (${wavelengthNm} nm) and pixel pitch (${pixelPitchMeters} m) must be positive`,
+    );
+  }
+};
+
+/** Separable periodic Gaussian blur, in place. */
+const blurPeriodic = (data: Float64Array, width: number, height: number, sigma: number) => {
+  const radius = Math.min(Math.ceil(sigma * 3), Math.max(width, height));
+  const weights = new Float64Array(radius * 2 + 1);
+  let weightSum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    const w = Math.exp(-(k * k) / (2 * sigma * sigma));
+    weights[k + radius] = w;
+    weightSum += w;
+  }
+  const line = new Float64Array(Math.max(width, height));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = (((x + k) % width) + width) % width;
+        acc += data[y * width + sx]! * weights[k + radius]!;
+      }
+      line[x] = acc / weightSum;
+    }
+    data.set(line.subarray(0, width), y * width);
+  }
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = (((y + k) % height) + height) % height;
+        acc += data[sy * width + x]! * weights[k + radius]!;
+      }
+      line[y] = acc / weightSum;
+    }
+    for (let y = 0; y < height; y++) data[y * width + x] = line[y]!;
+  }
+};
+
+const diffuserPhase = (
+  width: number,
+  height: number,
+  seed: number,
+  strengthRad: number,
+  correlationPx: number,
+) => {
+  const rng = mulberry32(seed);
+  const screen = new Float64Array(width * height);
+  for (let i = 0; i < screen.length; i++) screen[i] = rng() - 0.5;
+  if (correlationPx > 0) blurPeriodic(screen, width, height, correlationPx);
+  let mean = 0;
+  for (let i = 0; i < screen.length; i++) mean += screen[i]!;
+  mean /= screen.length;
+  let variance = 0;
+  for (let i = 0; i < screen.length; i++) variance += (screen[i]! - mean) ** 2;
+  const std = Math.sqrt(variance / screen.length);
+  const scale = std > 0 ? strengthRad / std : 0;
+  for (let i = 0; i < screen.length; i++) screen[i] = (screen[i]! - mean) * scale;
+  return screen;
+};
+
+const gratingPhase = (fraction: number, depthRad: number, profile: PhaseGratingProfile) => {
+  switch (profile) {
+    case 'binary':
+      return fraction < 0.5 ? depthRad : 0;
+    case 'blazed':
+      return depthRad * fraction;
+    case 'sinusoidal':
+    default:
+      return 0.5 * depthRad * Math.sin(TAU * fraction);
+  }
+};
+
+/** Nearest-neighbour lookup, matching `resampleDepthMap`, so binary masks keep hard edges. */
+const sampleMask = (
+  mask: ApertureMask | PhaseMap,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => {
+  const sx = Math.min(mask.width - 1, Math.floor(((x + 0.5) * mask.width) / width));
+  const sy = Math.min(mask.height - 1, Math.floor(((y + 0.5) * mask.height) / height));
+  return mask.data[sy * mask.width + sx]!;
+};
+
+const buildMask = (
+  spec: OpticalElementSpec,
+  ctx: OpticalElementContext,
+): OpticalTransmissionMask => {
+  assertContext(ctx);
+  const { width, height, pixelPitchMeters: pitch } = ctx;
+  const lambda = ctx.wavelengthNm * 1e-9;
+  const k = TAU / lambda;
+  const resolution = makeResolution(width, height);
+  const real = new Float32Array(resolution.texels);
+  const imag = new Float32Array(resolution.texels);
+  const cx = finiteOr(spec.offsetXMeters, 0);
+  const cy = finiteOr(spec.offsetYMeters, 0);
+  const clearRadius = finiteOr(spec.clearRadiusMeters, Number.POSITIVE_INFINITY);
+  const clearRadiusSq = clearRadius * clearRadius;
+
+  let phaseScreen: Float64Array | null = null;
+  if (spec.type === 'diffuser') {
+    phaseScreen = diffuserPhase(
+      width,
+      height,
+      Math.trunc(finiteOr(spec.seed, 1)),
+      Math.max(0, finiteOr(spec.strengthRad, Math.PI)),
+      Math.max(0, finiteOr(spec.correlationPx, 0)),
+    );
+  }
+  if (spec.type === 'aperture') {
+    if (!spec.mask) {
+      throw new Error(
+        `[opticalElements] aperture ${spec.source ? `"${spec.source}" ` : ''}has no loaded mask`,
+      );
+    }
+    if (spec.mask.data.length !== spec.mask.width * spec.mask.height) {
+      throw new Error(
+        `[opticalElements] aperture mask has ${spec.mask.data.length} samples; expected ${spec.mask.width * spec.mask.height}`,
+      );
+    }
+  }
+  if (
+    spec.type === 'phasePlate' &&
+    spec.phase.data.length !== spec.phase.width * spec.phase.height
+  ) {
+    throw new Error(
+      `[opticalElements] phase plate has ${spec.phase.data.length} samples; expected ${spec.phase.width * spec.phase.height}`,
+    );
+  }
+  if (
+    (spec.type === 'thinLens' || spec.type === 'zonePlate') &&
+    !finiteOr(spec.focalLengthMeters, 0)
+  ) {
+    throw new Error(`[opticalElements] ${spec.type} needs a finite, non-zero focal length`);
+  }
+  if (spec.type === 'phaseGrating' && !(finiteOr(spec.periodMeters, 0) > 0)) {
+    throw new Error('[opticalElements] phaseGrating needs a positive period');
+  }
+
+  for (let y = 0; y < height; y++) {
+    const py = (y + 0.5 - height / 2) * pitch - cy;
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const px = (x + 0.5 - width / 2) * pitch - cx;
+      const rSq = px * px + py * py;
+      if (rSq > clearRadiusSq) continue;
+      let amplitude = 1;
+      let phase = 0;
+      switch (spec.type) {
+        case 'thinLens':
+          phase = (-k * rSq) / (2 * spec.focalLengthMeters);
+          break;
+        case 'axicon':
+          phase = -k * Math.sqrt(rSq) * Math.sin(finiteOr(spec.coneAngleRad, 0));
+          break;
+        case 'phaseGrating': {
+          const orientation = finiteOr(spec.orientationRad, 0);
+          const u = (px * Math.cos(orientation) + py * Math.sin(orientation)) / spec.periodMeters;
+          phase = gratingPhase(
+            u - Math.floor(u),
+            finiteOr(spec.depthRad, Math.PI),
+            spec.profile ?? 'sinusoidal',
+          );
+          break;
+        }
+        case 'zonePlate': {
+          // Zone n spans r² ∈ [nλf, (n + 1)λf); odd zones are blocked or retarded by π.
+          const zone = Math.floor(rSq / (lambda * Math.abs(spec.focalLengthMeters)));
+          if (zone % 2 === 1) {
+            if (spec.mode === 'phase') phase = Math.PI;
+            else amplitude = 0;
+          }
+          break;
+        }
+        case 'vortex':
+          phase = Math.round(finiteOr(spec.charge, 0)) * Math.atan2(py, px);
+          break;
+        case 'diffuser':
+          phase = phaseScreen![idx]!;
+          break;
+        case 'aperture': {
+          const value = sampleMask(spec.mask!, x, y, width, height);
+          const level = spec.threshold != null ? (value >= spec.threshold ? 1 : 0) : value;
+          amplitude = Math.min(1, Math.max(0, spec.invert ? 1 - level : level));
+          break;
+        }
+        case 'phasePlate':
+          phase = sampleMask(spec.phase, x, y, width, height);
+          break;
+      }
+      real[idx] = amplitude * Math.cos(phase);
+      imag[idx] = amplitude * Math.sin(phase);
+    }
+  }
+  return { resolution, real, imag };
+};
+
+const contextKey = (ctx: OpticalElementContext) =>
+  `${ctx.width}x${ctx.height}:${ctx.wavelengthNm}:${ctx.pixelPitchMeters}`;
+
+const maskCache = new WeakMap<OpticalElementSpec, Map<string, OpticalTransmissionMask>>();
+const MASK_CACHE_PER_SPEC = 16;
+
+/**
+ * Compiles `spec` to its transmission mask. Masks are cached per spec object and context, so
+ * schedules re-run every frame only pay for compilation once; treat specs as immutable.
+ */
+export const compileOpticalElement = (
+  spec: OpticalElementSpec,
+  ctx: OpticalElementContext,
+): OpticalTransmissionMask => {
+  const key = contextKey(ctx);
+  let entries = maskCache.get(spec);
+  const cached = entries?.get(key);
+  if (cached) return cached;
+  const mask = buildMask(spec, ctx);
+  if (!entries) {
+    entries = new Map();
+    maskCache.set(spec, entries);
+  }
+  if (entries.size >= MASK_CACHE_PER_SPEC) {
+    entries.delete(entries.keys().next().value!);
+  }
+  entries.set(key, mask);
+  return mask;
+};
+
+export const opticalElementContext = (frame: OpticalFieldFrame): OpticalElementContext => {
+  const meta = frame.getMeta();
+  return {
+    width: frame.resolution.width,
+    height: frame.resolution.height,
+    wavelengthNm: meta.wavelengthNm,
+    pixelPitchMeters: meta.pixelPitchMeters,
+  };
+};
+
+/** Multiplies every component of `frame` by the element's transmission, in place. */
+export const applyOpticalElement = (frame: OpticalFieldFrame, spec: OpticalElementSpec) => {
+  const mask = compileOpticalElement(spec, opticalElementContext(frame));
+  const texels = frame.resolution.texels;
+  for (const component of frame.components) {
+    const { real, imag } = component;
+    for (let i = 0; i < texels; i++) {
+      const re = real[i]!;
+      const im = imag[i]!;
+      const tr = mask.real[i]!;
+      const ti = mask.imag[i]!;
+      real[i] = re * tr - im * ti;
+      imag[i] = re * ti + im * tr;
+    }
+  }
+  return frame;
+};
+
+// --- Aperture images ------------------------------------------------------------------------
+
+/** Rec. 709 luma (or alpha) of RGBA pixels, e.g. canvas `ImageData`. */
+export const apertureMaskFromRgba = (
+  image: { width: number; height: number; data: Uint8ClampedArray | Uint8Array },
+  channel: 'luma' | 'alpha' = 'luma',
+): ApertureMask => {
+  const texels = image.width * image.height;
+  if (image.data.length !== texels * 4) {
+    throw new Error(
+      `[opticalElements] RGBA image has ${image.data.length} bytes; expected ${texels * 4}`,
+    );
+  }
+  const data = new Float32Array(texels);
+  for (let i = 0; i < texels; i++) {
+    const o = i * 4;
+    data[i] =
+      channel === 'alpha'
+        ? image.data[o + 3]! / 255
+        : (0.2126 * image.data[o]! + 0.7152 * image.data[o + 1]! + 0.0722 * image.data[o + 2]!) /
+          255;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+/**
+ * Decodes a PNG, PGM or PFM file into an aperture mask. Integer formats are scaled by their
+ * maxval; float maps are clamped to `0 … 1`, holes read as opaque.
+ */
+export const loadApertureMask = async (
+  source: Uint8Array | ArrayBuffer,
+  options?: DepthDecodeOptions & { width?: number; height?: number },
+): Promise<ApertureMask> => {
+  let map = await decodeDepthMap(source, options);
+  if (options?.width != null && options?.height != null) {
+    map = resampleDepthMap(map, options.width, options.height);
+  }
+  const scale = map.maxValue ? 1 / map.maxValue : 1;
+  const data = new Float32Array(map.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const value = map.data[i]!;
+    data[i] = Number.isFinite(value) ? Math.min(1, Math.max(0, value * scale)) : 0;
+  }
+  return { width: map.width, height: map.height, data };
+};
+
+// --- Manifest serialisation -----------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const placementFrom = (record: Record<string, unknown>): OpticalElementPlacement => {
+  const placement: OpticalElementPlacement = {};
+  const offsetX = optionalNumber(record.offsetXMeters);
+  const offsetY = optionalNumber(record.offsetYMeters);
+  const clearRadius = optionalNumber(record.clearRadiusMeters);
+  if (offsetX != null) placement.offsetXMeters = offsetX;
+  if (offsetY != null) placement.offsetYMeters = offsetY;
+  if (clearRadius != null && clearRadius > 0) placement.clearRadiusMeters = clearRadius;
+  return placement;
+};
+
+const parseInlineMap = (
+  value: unknown,
+  sanitise: (sample: number) => number,
+): ApertureMask | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.data)) return undefined;
+  const width = optionalNumber(value.width);
+  const height = optionalNumber(value.height);
+  if (!width || !height || value.data.length !== width * height) return undefined;
+  return { width, height, data: Float32Array.from(value.data, (v) => sanitise(finiteOr(v, 0))) };
+};
+
+const inlineMap = (map: ApertureMask | PhaseMap) => ({
+  width: map.width,
+  height: map.height,
+  data: Array.from(map.data),
+});
+
+/**
+ * Reads an element from manifest metadata. Unknown types and missing required parameters
+ * yield `null`; optional parameters fall back to the compile-time defaults.
+ */
+export const parseOpticalElement = (value: unknown): OpticalElementSpec | null => {
+  if (!isRecord(value) || typeof value.type !== 'string') {
+    return null;
+  }
+  const placement = placementFrom(value);
+  switch (value.type) {
+    case 'thinLens':
+    case 'zonePlate': {
+      const focalLengthMeters = optionalNumber(value.focalLengthMeters);
+      if (!focalLengthMeters) return null;
+      if (value.type === 'thinLens') return { type: 'thinLens', focalLengthMeters, ...placement };
+      return {
+        type: 'zonePlate',
+        focalLengthMeters,
+        mode: value.mode === 'phase' ? 'phase' : 'amplitude',
+        ...placement,
+      };
+    }
+    case 'axicon': {
+      const coneAngleRad = optionalNumber(value.coneAngleRad);
+      return coneAngleRad == null ? null : { type: 'axicon', coneAngleRad, ...placement };
+    }
+    case 'phaseGrating': {
+      const periodMeters = optionalNumber(value.periodMeters);
+      if (!periodMeters || periodMeters <= 0) return null;
+      return {
+        type: 'phaseGrating',
+        periodMeters,
+        orientationRad: optionalNumber(value.orientationRad) ?? 0,
+        depthRad: optionalNumber(value.depthRad) ?? Math.PI,
+        profile:
+          value.profile === 'binary' || value.profile === 'blazed' ? value.profile : 'sinusoidal',
+        ...placement,
+      };
+    }
+    case 'vortex': {
+      const charge = optionalNumber(value.charge);
+      return charge == null ? null : { type: 'vortex', charge: Math.round(charge), ...placement };
+    }
+    case 'diffuser':
+      return {
+        type: 'diffuser',
+        seed: Math.trunc(optionalNumber(value.seed) ?? 1),
+        strengthRad: Math.max(0, optionalNumber(value.strengthRad) ?? Math.PI),
+        correlationPx: Math.max(0, optionalNumber(value.correlationPx) ?? 0),
+        ...placement,
+      };
+    case 'aperture': {
+      const source = typeof value.source === 'string' && value.source ? value.source : undefined;
+      const mask = parseInlineMap(value.mask, (v) => Math.min(1, Math.max(0, v)));
+      if (!source && !mask) return null;
+      const threshold = optionalNumber(value.threshold);
+      return {
+        type: 'aperture',
+        ...(source ? { source } : {}),
+        ...(mask ? { mask } : {}),
+        ...(threshold != null ? { threshold } : {}),
+        invert: value.invert === true,
+        ...placement,
+      };
+    }
+    case 'phasePlate': {
+      const phase = parseInlineMap(value.phase, (v) => v);
+      return phase ? { type: 'phasePlate', phase, ...placement } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Plain-JSON form of an element. Phase plates are always written inline; aperture masks only
+ * when the element has no `source`, otherwise the asset reference is kept and the pixels are
+ * reloaded on import.
+ */
+export const serialiseOpticalElement = (spec: OpticalElementSpec): Record<string, unknown> => {
+  if (spec.type === 'phasePlate') {
+    return { ...spec, phase: inlineMap(spec.phase) };
+  }
+  if (spec.type !== 'aperture') {
+    return { ...spec };
+  }
+  const { mask, ...rest } = spec;
+  if (rest.source || !mask) {
+    return { ...rest };
+  }
+  return { ...rest, mask: inlineMap(mask) };
+};
+
+/** Elements of an `OpticalTrain` manifest node, read from `metadata.elements`. */
+export const parseOpticalTrain = (metadata: unknown): OpticalElementSpec[] => {
+  if (!isRecord(metadata) || !Array.isArray(metadata.elements)) {
+    return [];
+  }
+  const elements: OpticalElementSpec[] = [];
+  for (const entry of metadata.elements) {
+    const element = parseOpticalElement(entry);
+    if (element) {
+      elements.push(element);
+    }
+  }
+  return elements;
+};
+
+export const serialiseOpticalTrain = (
+  elements: readonly OpticalElementSpec[],
+): { elements: Record<string, unknown>[] } => ({
+  elements: elements.map(serialiseOpticalElement),
+});
@@ -0,0 +1,370 @@
+import { makeResolution } from '../fields/contracts.js';
+import { OpticalFieldFrame } from '../fields/opticalField.js';
+import {
+  applyPolarizationSchedule,
+  resolvePolarizationMatrix,
+  type ThinElementSchedule,
+} from '../kuramotoCore.js';
+import type { BeamSplitterBranchOptics } from '../state/beamSplitter.js';
+import type { BeamSplitterBranchMetrics, BeamSplitterDiagnosticsEntry } from '../state/types.js';
+
+/**
+ * CPU reference for the beam splitter's `interferometer` recombine mode. Every arm carries a
+ * copy of the input field, picks up `exp(i k L)` for its optical path, a linear phase ramp for
+ * its tilt and its polarization element, and the arms are summed coherently at the output port.
+ *
+ * The splitter divides amplitude in proportion to the arm weights on the way in and again on
+ * the way out, so arm `i` contributes `(w_i / Σw) E_i`: two equal arms give `cos²(Δφ / 2)` of
+ * the input at the bright port. In the Michelson geometry each arm is traversed twice, so path
+ * lengths and mirror tilts count double.
+ */
+
+export const INTERFEROMETER_GEOMETRIES = ['machZehnder', 'michelson'] as const;
+
+export type InterferometerGeometry = (typeof INTERFEROMETER_GEOMETRIES)[number];
+
+export type InterferometerArm = {
+  id: string;
+  label?: string;
+  weight?: number;
+  optics?: BeamSplitterBranchOptics;
+  /** Further thin elements in the arm, applied after its polarization element. */
+  steps?: ThinElementSchedule;
+};
+
+export type InterferometerOptions = {
+  geometry?: InterferometerGeometry;
+  /** Arm the phase differences are measured against; defaults to the first. */
+  referenceArm?: number;
+};
+
+export type InterferometerResult = {
+  geometry: InterferometerGeometry;
+  wavelengthNm: number;
+  referenceArm: number;
+  /** Recombined field at the output port. */
+  output: OpticalFieldFrame;
+  intensity: Float32Array;
+  /** Intensity each arm delivers to the output port on its own. */
+  armIntensity: Float32Array[];
+  /** `arg(E_ref† E_k)` per texel; all zero for the reference arm. */
+  phaseDifference: Float32Array[];
+  /** Field-weighted mean of `phaseDifference` for each arm. */
+  meanPhaseDifference: number[];
+  /**
+   * Per-texel fringe visibility `2 Σ_{i<j} |E_i† E_j| / ((N − 1) Σ I_i)`; for two arms this is
+   * the familiar `2 √(I₁ I₂) |γ| / (I₁ + I₂)` including polarization overlap.
+   */
+  visibility: Float32Array;
+  /** Visibility averaged with the summed arm intensity as weight. */
+  meanVisibility: number;
+  /** `(Imax − Imin) / (Imax + Imin)` of the output over illuminated texels. */
+  fringeContrast: number;
+};
+
+type JonesVector = readonly [{ re: number; im: number }, { re: number; im: number }];
+
+const TAU = Math.PI * 2;
+
+/** 45° linear polarization, so polarizers at 0° and 90° both pass half the power. */
+const DIAGONAL_JONES: JonesVector = [
+  { re: Math.SQRT1_2, im: 0 },
+  { re: Math.SQRT1_2, im: 0 },
+];
+
+const passes = (geometry: InterferometerGeometry) => (geometry === 'michelson' ? 2 : 1);
+
+/** Phase `k L` an arm accumulates, wrapped to `[0, 2π)` without losing precision for long arms. */
+export const armPistonPhase = (
+  optics: BeamSplitterBranchOptics | undefined,
+  wavelengthNm: number,
+  geometry: InterferometerGeometry = 'machZehnder',
+) => {
+  const waves = (passes(geometry) * (optics?.pathLengthMeters ?? 0)) / (wavelengthNm * 1e-9);
+  return TAU * (waves - Math.floor(waves));
+};
+
+/** Transverse wavenumbers `k sin θ` (rad/m) of a tilted arm. */
+export const armTiltWavenumbers = (
+  optics: BeamSplitterBranchOptics | undefined,
+  wavelengthNm: number,
+  geometry: InterferometerGeometry = 'machZehnder',
+) => {
+  const k = TAU / (wavelengthNm * 1e-9);
+  const factor = passes(geometry);
+  return {
+    kx: k * Math.sin(factor * (optics?.tiltXRad ?? 0)),
+    ky: k * Math.sin(factor * (optics?.tiltYRad ?? 0)),
+  };
+};
+
+/** Jones vector an arm's polarization element makes of `input`. */
+export const armJonesVector = (
+  optics: BeamSplitterBranchOptics | undefined,
+  input: JonesVector = DIAGONAL_JONES,
+): JonesVector => {
+  const matrix = optics?.polarization ? resolvePolarizationMatrix(optics.polarization) : null;
+  if (!matrix) {
+    return input;
+  }
+  const [x, y] = input;
+  return [
+    {
+      re: matrix.m00.re * x.re - matrix.m00.im * x.im + matrix.m01.re * y.re - matrix.m01.im * y.im,
+      im: matrix.m00.re * x.im + matrix.m00.im * x.re + matrix.m01.re * y.im + matrix.m01.im * y.re,
+    },
+    {
+      re: matrix.m10.re * x.re - matrix.m10.im * x.im + matrix.m11.re * y.re - matrix.m11.im * y.im,
+      im: matrix.m10.re * x.im + matrix.m10.im * x.re + matrix.m11.re * y.im + matrix.m11.im * y.re,
+    },
+  ];
+};
+
+/** Two-component (Jones) input field with the given amplitude, diagonally polarized by default. */
+export const createInterferometerInput = (
+  amplitude: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: { wavelengthNm?: number; pixelPitchMeters?: number; jones?: JonesVector } = {},
+) => {
+  const resolution = makeResolution(width, height);
+  if (amplitude.length !== resolution.texels) {
+    throw new Error(
+      `[interferometer] amplitude has ${amplitude.length} samples; expected ${resolution.texels}`,
+    );
+  }
+  const frame = new OpticalFieldFrame(resolution, { componentCount: 2 });
+  frame.updateMeta({
+    wavelengthNm: options.wavelengthNm ?? 550,
+    pixelPitchMeters: options.pixelPitchMeters ?? 1e-6,
+  });
+  const jones = options.jones ?? DIAGONAL_JONES;
+  frame.components.forEach(({ real, imag }, component) => {
+    for (let i = 0; i < resolution.texels; i++) {
+      real[i] = amplitude[i]! * jones[component]!.re;
+      imag[i] = amplitude[i]! * jones[component]!.im;
+    }
+  });
+  return frame;
+};
+
+/**
+ * Traces `input` through every arm and recombines the arms coherently. A single frame is
+ * shared by all arms; an array supplies one (already transformed) input per arm. Wavelength
+ * and pixel pitch come from the first input's metadata.
+ */
+export const traceInterferometer = (
+  input: OpticalFieldFrame | readonly OpticalFieldFrame[],
+  arms: readonly InterferometerArm[],
+  options: InterferometerOptions = {},
+): InterferometerResult => {
+  if (arms.length === 0) {
+    throw new Error('[interferometer] at least one arm is required');
+  }
+  const inputs: readonly OpticalFieldFrame[] =
+    input instanceof OpticalFieldFrame ? arms.map(() => input) : input;
+  if (inputs.length !== arms.length) {
+    throw new Error(`[interferometer] ${inputs.length} inputs supplied for ${arms.length} arms`);
+  }
+  const [first] = inputs;
+  const { width, height, texels } = first!.resolution;
+  const componentCount = first!.componentCount;
+  for (const frame of inputs) {
+    if (
+      frame.resolution.width !== width ||
+      frame.resolution.height !== height ||
+      frame.componentCount !== componentCount
+    ) {
+      throw new Error('[interferometer] arm inputs must share resolution and component count');
+    }
+  }
+  const weights = arms.map((arm) => Math.max(0, arm.weight ?? 1));
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(weightSum > 0)) {
+    throw new Error('[interferometer] arm weights must not all be zero');
+  }
+  const referenceArm = options.referenceArm ?? 0;
+  if (!Number.isInteger(referenceArm) || referenceArm < 0 || referenceArm >= arms.length) {
+    throw new Error(`[interferometer] reference arm ${referenceArm} out of range`);
+  }
+  const geometry = options.geometry ?? 'machZehnder';
+  const { wavelengthNm, pixelPitchMeters } = first!.getMeta();
+
+  const output = new OpticalFieldFrame(first!.resolution, { componentCount });
+  output.updateMeta({ wavelengthNm, pixelPitchMeters });
+  const fields = arms.map((arm, index) => {
+    const frame = new OpticalFieldFrame(first!.resolution, { componentCount });
+    frame.updateMeta({ wavelengthNm, pixelPitchMeters });
+    const piston = armPistonPhase(arm.optics, wavelengthNm, geometry);
+    const { kx, ky } = armTiltWavenumbers(arm.optics, wavelengthNm, geometry);
+    const scale = weights[index]! / weightSum;
+    inputs[index]!.components.forEach((source, component) => {
+      const target = frame.components[component]!;
+      for (let y = 0; y < height; y++) {
+        const py = (y + 0.5 - height / 2) * pixelPitchMeters;
+        for (let x = 0; x < width; x++) {
+          const px = (x + 0.5 - width / 2) * pixelPitchMeters;
+          const phase = piston + kx * px + ky * py;
+          const cos = scale * Math.cos(phase);
+          const sin = scale * Math.sin(phase);
+          const i = y * width + x;
+          target.real[i] = source.real[i]! * cos - source.imag[i]! * sin;
+          target.imag[i] = source.real[i]! * sin + source.imag[i]! * cos;
+        }
+      }
+    });
+    applyPolarizationSchedule(frame, [
+      ...(arm.optics?.polarization
+        ? [{ kind: 'polarization' as const, spec: arm.optics.polarization }]
+        : []),
+      ...(arm.steps ?? []),
+    ]);
+    output.components.forEach((target, component) => {
+      const { real, imag } = frame.components[component]!;
+      for (let i = 0; i < texels; i++) {
+        target.real[i] += real[i]!;
+        target.imag[i] += imag[i]!;
+      }
+    });
+    return frame;
+  });
+
+  // Hermitian inner product E_a† E_b over the Jones components at one texel.
+  const overlap = (a: OpticalFieldFrame, b: OpticalFieldFrame, i: number) => {
+    let re = 0;
+    let im = 0;
+    for (let component = 0; component < componentCount; component++) {
+      const u = a.components[component]!;
+      const v = b.components[component]!;
+      re += u.real[i]! * v.real[i]! + u.imag[i]! * v.imag[i]!;
+      im += u.real[i]! * v.imag[i]! - u.imag[i]! * v.real[i]!;
+    }
+    return { re, im };
+  };
+
+  const intensity = new Float32Array(texels);
+  for (let i = 0; i < texels; i++) intensity[i] = overlap(output, output, i).re;
+  const armIntensity = fields.map((frame) => {
+    const values = new Float32Array(texels);
+    for (let i = 0; i < texels; i++) values[i] = overlap(frame, frame, i).re;
+    return values;
+  });
+
+  const reference = fields[referenceArm]!;
+  const meanPhaseDifference: number[] = [];
+  const phaseDifference = fields.map((frame, index) => {
+    const values = new Float32Array(texels);
+    if (index === referenceArm) {
+      meanPhaseDifference.push(0);
+      return values;
+    }
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < texels; i++) {
+      const product = overlap(reference, frame, i);
+      values[i] = Math.atan2(product.im, product.re);
+      re += product.re;
+      im += product.im;
+    }
+    meanPhaseDifference.push(Math.atan2(im, re));
+    return values;
+  });
+
+  const visibility = new Float32Array(texels);
+  const armTotal = new Float64Array(texels);
+  let peak = 0;
+  let weightedVisibility = 0;
+  let totalEnergy = 0;
+  for (let i = 0; i < texels; i++) {
+    for (const values of armIntensity) armTotal[i] += values[i]!;
+    peak = Math.max(peak, armTotal[i]!);
+    if (fields.length < 2 || !(armTotal[i]! > 0)) continue;
+    let coherent = 0;
+    for (let a = 0; a < fields.length; a++) {
+      for (let b = a + 1; b < fields.length; b++) {
+        const product = overlap(fields[a]!, fields[b]!, i);
+        coherent += Math.hypot(product.re, product.im);
+      }
+    }
+    visibility[i] = Math.min(1, (2 * coherent) / ((fields.length - 1) * armTotal[i]!));
+    weightedVisibility += visibility[i]! * armTotal[i]!;
+    totalEnergy += armTotal[i]!;
+  }
+
+  let min = Number.POSITIVE_INFINITY;
+  let max = 0;
+  for (let i = 0; i < texels; i++) {
+    if (!(armTotal[i]! > peak * 1e-6)) continue;
+    min = Math.min(min, intensity[i]!);
+    max = Math.max(max, intensity[i]!);
+  }
+
+  return {
+    geometry,
+    wavelengthNm,
+    referenceArm,
+    output,
+    intensity,
+    armIntensity,
+    phaseDifference,
+    meanPhaseDifference,
+    visibility,
+    meanVisibility: totalEnergy > 0 ? weightedVisibility / totalEnergy : 0,
+    fringeContrast: max > 0 ? (max - min) / (max + min) : 0,
+  };
+};
+
+/** Diagnostics entry for an interferometer trace, as the renderers publish it. */
+export const interferometerDiagnostics = (
+  result: InterferometerResult,
+  arms: readonly InterferometerArm[],
+  entry: { nodeId: string; frameId: number; updatedAt: number },
+): BeamSplitterDiagnosticsEntry => {
+  const { width, height } = result.output.resolution;
+  const energies = result.armIntensity.map((values) => values.reduce((sum, v) => sum + v, 0));
+  const totalEnergy = energies.reduce((sum, energy) => sum + energy, 0);
+  const peak = result.armIntensity.reduce(
+    (best, values) => values.reduce((a, b) => Math.max(a, b), best),
+    0,
+  );
+  const branches: BeamSplitterBranchMetrics[] = arms.map((arm, index) => {
+    const values = result.armIntensity[index]!;
+    let covered = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i]! > peak * 1e-3) covered++;
+    }
+    return {
+      branchId: arm.id,
+      label: arm.label ?? `Branch ${index + 1}`,
+      energy: energies[index]!,
+      energyShare: totalEnergy > 0 ? energies[index]! / totalEnergy : 0,
+      coverage: covered / values.length,
+      occlusion: 0,
+      weight: arm.weight ?? 1,
+    };
+  });
+  return {
+    ...entry,
+    recombineMode: 'interferometer',
+    branches,
+    interference: {
+      geometry: result.geometry,
+      wavelengthNm: result.wavelengthNm,
+      referenceBranchId: arms[result.referenceArm]!.id,
+      visibility: result.meanVisibility,
+      fringeContrast: result.fringeContrast,
+      visibilityMap: { width, height, data: result.visibility },
+      phaseDifferences: arms.flatMap((arm, index) =>
+        index === result.referenceArm
+          ? []
+          : [
+              {
+                branchId: arm.id,
+                meanRad: result.meanPhaseDifference[index]!,
+                map: { width, height, data: result.phaseDifference[index]! },
+              },
+            ],
+      ),
+    },
+  };
+};
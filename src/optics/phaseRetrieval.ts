@@ -0,0 +1,280 @@
+import { makeResolution, type PhaseField } from '../fields/contracts.js';
+import { OpticalFieldFrame } from '../fields/opticalField.js';
+import { mulberry32 } from '../qcd/updateCpu.js';
+import { AngularSpectrumSolver } from './angularSpectrum.js';
+import type { OpticalElementSpec } from './elements.js';
+
+/**
+ * Gerchberg–Saxton phase retrieval: finds the phase-only mask that, under the source
+ * illumination, propagates over `dzMeters` into a target intensity. Each iteration propagates
+ * forward, imposes the target amplitude, propagates back and keeps only the phase.
+ *
+ * The weighted variant (Di Leonardo et al. 2007) rescales the imposed amplitude by
+ * `⟨|U|⟩ / |U|` inside the target support every iteration, which pushes the reconstruction
+ * towards uniform peaks instead of the plain error-reduction fixed point.
+ */
+
+export type PhaseRetrievalMethod = 'gs' | 'weighted';
+
+export type PhaseRetrievalOptions = {
+  dzMeters: number;
+  wavelengthNm?: number;
+  pixelPitchMeters?: number;
+  padding?: number;
+  bandLimit?: boolean;
+  iterations?: number;
+  method?: PhaseRetrievalMethod;
+  /** Stop once the reconstruction error falls to this level. */
+  tolerance?: number;
+  /** Illumination amplitude at the mask plane; uniform when omitted. */
+  sourceAmplitude?: ArrayLike<number>;
+  /** Starting phase; defaults to a uniform random phase drawn from `seed`. */
+  initialPhase?: ArrayLike<number>;
+  seed?: number;
+  /** Reused when its resolution and pitch match; must cache two transfer functions. */
+  solver?: AngularSpectrumSolver;
+};
+
+export type PhaseRetrievalTelemetry = {
+  method: PhaseRetrievalMethod;
+  iterations: number;
+  /** Error of the starting phase, before any update. */
+  initialError: number;
+  /**
+   * Normalised intensity error `‖sI − T‖ / ‖T‖` after each iteration, with `s` the
+   * least-squares scale between reconstruction `I` and target `T`.
+   */
+  errors: number[];
+  /** Fraction of the reconstructed energy that lands inside the target support. */
+  efficiency: number;
+  converged: boolean;
+};
+
+export type PhaseRetrievalResult = {
+  /** Hologram phase as a seeded `PhaseField`; `theta` holds the wrapped phase. */
+  phase: PhaseField;
+  /** Target-plane intensity produced by the final mask. */
+  reconstruction: Float32Array;
+  telemetry: PhaseRetrievalTelemetry;
+};
+
+const TAU = Math.PI * 2;
+
+const wrapAngle = (theta: number) => Math.atan2(Math.sin(theta), Math.cos(theta));
+
+const assertLength = (values: ArrayLike<number> | undefined, texels: number, label: string) => {
+  if (values && values.length !== texels) {
+    throw new Error(`[phaseRetrieval] ${label} has ${values.length} samples; expected ${texels}`);
+  }
+};
+
+/**
+ * Wraps a phase map as a `PhaseField`: central-difference gradients and plaquette vorticity as
+ * the Kuramoto phase operator computes them (unit gain), full coherence, and `theta` set so
+ * `initKuramotoState` seeds oscillators from it.
+ */
+export const phaseFieldFromTheta = (
+  theta: ArrayLike<number>,
+  width: number,
+  height: number,
+  amplitude?: ArrayLike<number>,
+): PhaseField => {
+  const resolution = makeResolution(width, height);
+  const texels = resolution.texels;
+  assertLength(theta, texels, 'phase');
+  assertLength(amplitude, texels, 'amplitude');
+  const wrapped = Float32Array.from(theta, wrapAngle);
+  const gradX = new Float32Array(texels);
+  const gradY = new Float32Array(texels);
+  const vort = new Float32Array(texels);
+  const at = (x: number, y: number) =>
+    wrapped[((y + height) % height) * width + ((x + width) % width)]!;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      gradX[idx] = 0.5 * wrapAngle(at(x + 1, y) - at(x - 1, y));
+      gradY[idx] = 0.5 * wrapAngle(at(x, y + 1) - at(x, y - 1));
+      const a = wrapAngle(at(x + 1, y) - at(x, y));
+      const b = wrapAngle(at(x + 1, y + 1) - at(x + 1, y));
+      const c = wrapAngle(at(x, y + 1) - at(x + 1, y + 1));
+      const d = wrapAngle(at(x, y) - at(x, y + 1));
+      vort[idx] = (a + b + c + d) / TAU;
+    }
+  }
+  return {
+    kind: 'phase',
+    resolution,
+    gradX,
+    gradY,
+    vort,
+    coh: new Float32Array(texels).fill(1),
+    amp: amplitude ? Float32Array.from(amplitude) : new Float32Array(texels).fill(1),
+    theta: wrapped,
+  };
+};
+
+/** Phase-plate element for a retrieved hologram, ready for a thin-element schedule. */
+export const phasePlateFromField = (field: PhaseField): OpticalElementSpec => {
+  if (!field.theta) {
+    throw new Error('[phaseRetrieval] phase field carries no theta channel');
+  }
+  return {
+    type: 'phasePlate',
+    phase: {
+      width: field.resolution.width,
+      height: field.resolution.height,
+      data: Float32Array.from(field.theta),
+    },
+  };
+};
+
+const reconstructionError = (intensity: Float32Array, target: ArrayLike<number>) => {
+  let cross = 0;
+  let selfSq = 0;
+  let targetSq = 0;
+  for (let i = 0; i < intensity.length; i++) {
+    cross += intensity[i]! * target[i]!;
+    selfSq += intensity[i]! * intensity[i]!;
+    targetSq += target[i]! * target[i]!;
+  }
+  const scale = selfSq > 0 ? cross / selfSq : 0;
+  let residual = 0;
+  for (let i = 0; i < intensity.length; i++) {
+    residual += (scale * intensity[i]! - target[i]!) ** 2;
+  }
+  return Math.sqrt(residual / targetSq);
+};
+
+export const retrievePhase = (
+  target: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: PhaseRetrievalOptions,
+): PhaseRetrievalResult => {
+  const resolution = makeResolution(width, height);
+  const texels = resolution.texels;
+  assertLength(target, texels, 'target');
+  assertLength(options.sourceAmplitude, texels, 'source amplitude');
+  assertLength(options.initialPhase, texels, 'initial phase');
+  let targetEnergy = 0;
+  for (let i = 0; i < texels; i++) {
+    if (!(target[i]! >= 0)) {
+      throw new Error(`[phaseRetrieval] target intensity must be finite and non-negative`);
+    }
+    targetEnergy += target[i]!;
+  }
+  if (targetEnergy <= 0) {
+    throw new Error('[phaseRetrieval] target intensity is empty');
+  }
+  if (!Number.isFinite(options.dzMeters) || options.dzMeters === 0) {
+    throw new Error('[phaseRetrieval] dzMeters must be finite and non-zero');
+  }
+
+  const method = options.method ?? 'gs';
+  const iterations = Math.max(0, Math.floor(options.iterations ?? 50));
+  const tolerance = options.tolerance ?? 0;
+  const dzMeters = options.dzMeters;
+  const wavelengthNm = options.wavelengthNm ?? 550;
+  const pixelPitchMeters = options.pixelPitchMeters ?? 1e-6;
+  const solver =
+    options.solver ??
+    new AngularSpectrumSolver({
+      width,
+      height,
+      wavelengthNm,
+      pixelPitchMeters,
+      dzMeters,
+      padding: options.padding,
+      bandLimit: options.bandLimit,
+      transferCacheSize: 2,
+    });
+  const manager = solver.getManager();
+
+  // Scale the target so its energy matches the illumination; amplitudes are then comparable.
+  let sourceEnergy = 0;
+  for (let i = 0; i < texels; i++) sourceEnergy += (options.sourceAmplitude?.[i] ?? 1) ** 2;
+  const targetAmplitude = new Float64Array(texels);
+  for (let i = 0; i < texels; i++) {
+    targetAmplitude[i] = Math.sqrt((target[i]! * sourceEnergy) / targetEnergy);
+  }
+  const weights = new Float64Array(texels).fill(1);
+
+  const theta = new Float32Array(texels);
+  if (options.initialPhase) {
+    theta.set(Array.from(options.initialPhase, wrapAngle));
+  } else {
+    const rng = mulberry32(options.seed ?? 1);
+    for (let i = 0; i < texels; i++) theta[i] = (rng() - 0.5) * TAU;
+  }
+
+  const mask = new OpticalFieldFrame(resolution);
+  mask.updateMeta({ wavelengthNm, pixelPitchMeters });
+  const intensity = new Float32Array(texels);
+  const forward = () => {
+    for (let i = 0; i < texels; i++) {
+      const a = options.sourceAmplitude?.[i] ?? 1;
+      mask.real[i] = a * Math.cos(theta[i]!);
+      mask.imag[i] = a * Math.sin(theta[i]!);
+    }
+    const out = solver.propagate(mask, { dzMeters, wavelengthNm });
+    for (let i = 0; i < texels; i++) intensity[i] = out.real[i]! ** 2 + out.imag[i]! ** 2;
+    return out;
+  };
+
+  let image = forward();
+  const initialError = reconstructionError(intensity, target);
+  const errors: number[] = [];
+  let converged = initialError <= tolerance;
+  for (let iteration = 0; iteration < iterations && !converged; iteration++) {
+    if (method === 'weighted') {
+      let meanMagnitude = 0;
+      let support = 0;
+      for (let i = 0; i < texels; i++) {
+        if (targetAmplitude[i]! > 0) {
+          meanMagnitude += Math.sqrt(intensity[i]!) / targetAmplitude[i]!;
+          support++;
+        }
+      }
+      meanMagnitude /= support;
+      for (let i = 0; i < texels; i++) {
+        if (!(targetAmplitude[i]! > 0)) continue;
+        const ratio = Math.sqrt(intensity[i]!) / targetAmplitude[i]!;
+        if (ratio > 0) weights[i] *= meanMagnitude / ratio;
+      }
+    }
+    for (let i = 0; i < texels; i++) {
+      const phase = Math.atan2(image.imag[i]!, image.real[i]!);
+      const amplitude = targetAmplitude[i]! * weights[i]!;
+      mask.real[i] = amplitude * Math.cos(phase);
+      mask.imag[i] = amplitude * Math.sin(phase);
+    }
+    manager.releaseFrame(image);
+    const back = solver.propagate(mask, { dzMeters: -dzMeters, wavelengthNm });
+    for (let i = 0; i < texels; i++) theta[i] = Math.atan2(back.imag[i]!, back.real[i]!);
+    manager.releaseFrame(back);
+    image = forward();
+    const error = reconstructionError(intensity, target);
+    errors.push(error);
+    converged = error <= tolerance;
+  }
+  manager.releaseFrame(image);
+
+  let inside = 0;
+  let total = 0;
+  for (let i = 0; i < texels; i++) {
+    total += intensity[i]!;
+    if (target[i]! > 0) inside += intensity[i]!;
+  }
+  return {
+    phase: phaseFieldFromTheta(theta, width, height, options.sourceAmplitude),
+    reconstruction: intensity,
+    telemetry: {
+      method,
+      iterations: errors.length,
+      initialError,
+      errors,
+      efficiency: total > 0 ? inside / total : 0,
+      converged,
+    },
+  };
+};
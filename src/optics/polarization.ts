@@ -0,0 +1,442 @@
+import { makeResolution, type StokesField } from '../fields/contracts.js';
+import { OpticalFieldFrame } from '../fields/opticalField.js';
+import {
+  applyPolarizationSchedule,
+  resolvePolarizationMatrix,
+  type PolarizationMatrix,
+  type PolarizationTransformSpec,
+  type ThinElementOperatorStep,
+  type ThinElementSchedule,
+} from '../kuramotoCore.js';
+import { compileOpticalElement } from './elements.js';
+
+/**
+ * Polarization observables for two-component (Jones) optical fields.
+ *
+ * Stokes parameters use `S_k = E† σ_k E` with σ₀ = I, σ₁ = diag(1, −1), σ₂ = [[0, 1], [1, 0]]
+ * and σ₃ = [[0, −i], [i, 0]], i.e. S1 = |Ex|² − |Ey|², S2 = 2 Re(Ex* Ey), S3 = 2 Im(Ex* Ey).
+ * Component 0 of an `OpticalFieldFrame` is Ex and component 1 is Ey.
+ */
+
+/** Row-major 4×4 Mueller matrix acting on `[S0, S1, S2, S3]`. */
+export type MuellerMatrix = Float64Array;
+
+export type MuellerElementSpec =
+  | PolarizationTransformSpec
+  | {
+      /** Partial depolarizer: scales S1–S3 by `1 − amount`. */
+      type: 'depolarizer';
+      amount: number;
+    }
+  | {
+      type: 'mueller';
+      /** 16 entries, row-major. */
+      matrix: ArrayLike<number>;
+    };
+
+export type MuellerOperatorStep = {
+  kind: 'mueller';
+  spec: MuellerElementSpec;
+  label?: string;
+};
+
+export type StokesScheduleStep =
+  | ThinElementOperatorStep
+  | MuellerOperatorStep
+  | {
+      kind: 'beamSplit';
+      branches: readonly { label?: string; weight?: number; steps: StokesSchedule }[];
+      recombine?: Extract<ThinElementOperatorStep, { kind: 'beamSplit' }>['recombine'];
+      label?: string;
+    };
+
+export type StokesSchedule = readonly StokesScheduleStep[];
+
+export type PolarizationMetrics = {
+  /** Degree of polarization √(S1² + S2² + S3²) / S0. */
+  dop: Float32Array;
+  /** Degree of linear polarization √(S1² + S2²) / S0. */
+  dolp: Float32Array;
+  /** Ellipse orientation ψ = ½ atan2(S2, S1), in (−π/2, π/2]. */
+  orientation: Float32Array;
+  /** Ellipticity angle χ = ½ asin(S3 / Ip), in [−π/4, π/4]; positive is S3 > 0. */
+  ellipticity: Float32Array;
+};
+
+export type StokesMapMode = 's0' | 's1' | 's2' | 's3' | 'dop' | 'ellipse';
+
+export const STOKES_MAP_MODES: readonly StokesMapMode[] = [
+  's0',
+  's1',
+  's2',
+  's3',
+  'dop',
+  'ellipse',
+];
+
+const EPSILON = 1e-12;
+
+export const createStokesField = (width: number, height: number): StokesField => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`[polarization] invalid resolution ${width}x${height}`);
+  }
+  const texels = width * height;
+  return {
+    kind: 'stokes',
+    resolution: makeResolution(width, height),
+    s0: new Float32Array(texels),
+    s1: new Float32Array(texels),
+    s2: new Float32Array(texels),
+    s3: new Float32Array(texels),
+  };
+};
+
+const assertTarget = (target: StokesField, width: number, height: number) => {
+  if (target.resolution.width !== width || target.resolution.height !== height) {
+    throw new Error(
+      `[polarization] Stokes target is ${target.resolution.width}x${target.resolution.height}; expected ${width}x${height}`,
+    );
+  }
+};
+
+/**
+ * Stokes parameters of a Jones field. Single-component frames are treated as horizontally
+ * polarized (S1 = S0).
+ */
+export const computeStokesField = (frame: OpticalFieldFrame, target?: StokesField): StokesField => {
+  const { width, height } = frame.resolution;
+  const out = target ?? createStokesField(width, height);
+  assertTarget(out, width, height);
+  const ex = frame.components[0]!;
+  const ey = frame.componentCount > 1 ? frame.components[1]! : null;
+  const texels = width * height;
+  for (let i = 0; i < texels; i++) {
+    const xr = ex.real[i]!;
+    const xi = ex.imag[i]!;
+    const ix = xr * xr + xi * xi;
+    if (!ey) {
+      out.s0[i] = ix;
+      out.s1[i] = ix;
+      out.s2[i] = 0;
+      out.s3[i] = 0;
+      continue;
+    }
+    const yr = ey.real[i]!;
+    const yi = ey.imag[i]!;
+    const iy = yr * yr + yi * yi;
+    out.s0[i] = ix + iy;
+    out.s1[i] = ix - iy;
+    // Ex* · Ey = (xr − i xi)(yr + i yi)
+    out.s2[i] = 2 * (xr * yr + xi * yi);
+    out.s3[i] = 2 * (xr * yi - xi * yr);
+  }
+  return out;
+};
+
+/** Runs the polarization steps of `schedule` on a copy of `input` and returns the exit field. */
+export const traceJonesSchedule = (
+  input: OpticalFieldFrame,
+  schedule: ThinElementSchedule,
+): OpticalFieldFrame => {
+  if (input.componentCount < 2) {
+    throw new Error('[polarization] Jones tracing needs a two-component field');
+  }
+  const frame = new OpticalFieldFrame(input.resolution, { componentCount: input.componentCount });
+  for (let c = 0; c < input.componentCount; c++) {
+    frame.components[c]!.real.set(input.components[c]!.real);
+    frame.components[c]!.imag.set(input.components[c]!.imag);
+  }
+  applyPolarizationSchedule(frame, schedule);
+  return frame;
+};
+
+export const computePolarizationMetrics = (
+  field: StokesField,
+  target?: PolarizationMetrics,
+): PolarizationMetrics => {
+  const texels = field.resolution.texels;
+  const out = target ?? {
+    dop: new Float32Array(texels),
+    dolp: new Float32Array(texels),
+    orientation: new Float32Array(texels),
+    ellipticity: new Float32Array(texels),
+  };
+  for (let i = 0; i < texels; i++) {
+    const s0 = field.s0[i]!;
+    const s1 = field.s1[i]!;
+    const s2 = field.s2[i]!;
+    const s3 = field.s3[i]!;
+    const linear = Math.hypot(s1, s2);
+    const polarized = Math.hypot(linear, s3);
+    out.dop[i] = s0 > EPSILON ? Math.min(1, polarized / s0) : 0;
+    out.dolp[i] = s0 > EPSILON ? Math.min(1, linear / s0) : 0;
+    out.orientation[i] = linear > EPSILON ? 0.5 * Math.atan2(s2, s1) : 0;
+    out.ellipticity[i] =
+      polarized > EPSILON ? 0.5 * Math.asin(Math.max(-1, Math.min(1, s3 / polarized))) : 0;
+  }
+  return out;
+};
+
+// --- Mueller calculus -------------------------------------------------------------------------
+
+type Complex2x2 = [number, number, number, number, number, number, number, number];
+
+/** Pauli basis as interleaved (re, im) 2×2 matrices in σ₀…σ₃ order. */
+const PAULI: readonly Complex2x2[] = [
+  [1, 0, 0, 0, 0, 0, 1, 0],
+  [1, 0, 0, 0, 0, 0, -1, 0],
+  [0, 0, 1, 0, 1, 0, 0, 0],
+  [0, 0, 0, -1, 0, 1, 0, 0],
+];
+
+const toComplex2x2 = (m: PolarizationMatrix): Complex2x2 => [
+  m.m00.re,
+  m.m00.im,
+  m.m01.re,
+  m.m01.im,
+  m.m10.re,
+  m.m10.im,
+  m.m11.re,
+  m.m11.im,
+];
+
+const mul2x2 = (a: Complex2x2, b: Complex2x2): Complex2x2 => {
+  const out = new Array(8).fill(0) as Complex2x2;
+  for (let r = 0; r < 2; r++) {
+    for (let c = 0; c < 2; c++) {
+      let re = 0;
+      let im = 0;
+      for (let k = 0; k < 2; k++) {
+        const ar = a[(r * 2 + k) * 2]!;
+        const ai = a[(r * 2 + k) * 2 + 1]!;
+        const br = b[(k * 2 + c) * 2]!;
+        const bi = b[(k * 2 + c) * 2 + 1]!;
+        re += ar * br - ai * bi;
+        im += ar * bi + ai * br;
+      }
+      out[(r * 2 + c) * 2] = re;
+      out[(r * 2 + c) * 2 + 1] = im;
+    }
+  }
+  return out;
+};
+
+const adjoint2x2 = (m: Complex2x2): Complex2x2 => [
+  m[0],
+  -m[1],
+  m[4],
+  -m[5],
+  m[2],
+  -m[3],
+  m[6],
+  -m[7],
+];
+
+/** `M_ij = ½ tr(J† σ_i J σ_j)`: the Mueller matrix of a deterministic (Jones) element. */
+export const muellerFromJones = (jones: PolarizationMatrix): MuellerMatrix => {
+  const j = toComplex2x2(jones);
+  const jDagger = adjoint2x2(j);
+  const out = new Float64Array(16);
+  for (let i = 0; i < 4; i++) {
+    const left = mul2x2(jDagger, mul2x2(PAULI[i]!, j));
+    for (let k = 0; k < 4; k++) {
+      const product = mul2x2(left, PAULI[k]!);
+      out[i * 4 + k] = 0.5 * (product[0] + product[6]);
+    }
+  }
+  return out;
+};
+
+export const resolveMuellerMatrix = (spec: MuellerElementSpec): MuellerMatrix | null => {
+  switch (spec.type) {
+    case 'depolarizer': {
+      const keep = 1 - Math.min(1, Math.max(0, Number.isFinite(spec.amount) ? spec.amount : 0));
+      const out = new Float64Array(16);
+      out[0] = 1;
+      out[5] = keep;
+      out[10] = keep;
+      out[15] = keep;
+      return out;
+    }
+    case 'mueller': {
+      if (spec.matrix.length !== 16) {
+        throw new Error(
+          `[polarization] Mueller matrix has ${spec.matrix.length} entries; expected 16`,
+        );
+      }
+      return Float64Array.from({ length: 16 }, (_, i) =>
+        Number.isFinite(spec.matrix[i]) ? spec.matrix[i]! : 0,
+      );
+    }
+    default: {
+      const jones = resolvePolarizationMatrix(spec);
+      return jones ? muellerFromJones(jones) : null;
+    }
+  }
+};
+
+export const applyMuellerMatrix = (field: StokesField, matrix: MuellerMatrix) => {
+  const texels = field.resolution.texels;
+  const { s0, s1, s2, s3 } = field;
+  for (let i = 0; i < texels; i++) {
+    const a = s0[i]!;
+    const b = s1[i]!;
+    const c = s2[i]!;
+    const d = s3[i]!;
+    s0[i] = matrix[0]! * a + matrix[1]! * b + matrix[2]! * c + matrix[3]! * d;
+    s1[i] = matrix[4]! * a + matrix[5]! * b + matrix[6]! * c + matrix[7]! * d;
+    s2[i] = matrix[8]! * a + matrix[9]! * b + matrix[10]! * c + matrix[11]! * d;
+    s3[i] = matrix[12]! * a + matrix[13]! * b + matrix[14]! * c + matrix[15]! * d;
+  }
+};
+
+const stokesPlanes = (field: StokesField) => [field.s0, field.s1, field.s2, field.s3] as const;
+
+const cloneStokes = (field: StokesField): StokesField => ({
+  kind: 'stokes',
+  resolution: field.resolution,
+  s0: Float32Array.from(field.s0),
+  s1: Float32Array.from(field.s1),
+  s2: Float32Array.from(field.s2),
+  s3: Float32Array.from(field.s3),
+});
+
+/**
+ * Propagates (partially polarized) Stokes maps through a schedule in place. Jones elements
+ * become their Mueller matrices, `mueller` steps add non-deterministic elements, and beam-split
+ * branches recombine incoherently: intensities add with weight², scaled by the square of the
+ * recombine norm the Jones path would use. Optical elements scale all four parameters by
+ * |t|², compiled for `optics` (Stokes maps carry no wavelength or pitch; the defaults match
+ * a fresh `OpticalFieldFrame`). Scalar operators are skipped, as in `applyPolarizationSchedule`.
+ */
+export const traceStokesSchedule = (
+  field: StokesField,
+  schedule: StokesSchedule,
+  optics: { wavelengthNm: number; pixelPitchMeters: number } = {
+    wavelengthNm: 550,
+    pixelPitchMeters: 1e-6,
+  },
+): StokesField => {
+  for (const step of schedule) {
+    switch (step.kind) {
+      case 'element': {
+        const { width, height, texels } = field.resolution;
+        const mask = compileOpticalElement(step.spec, { width, height, ...optics });
+        const planes = stokesPlanes(field);
+        for (let i = 0; i < texels; i++) {
+          const gain = mask.real[i]! ** 2 + mask.imag[i]! ** 2;
+          for (const plane of planes) plane[i] *= gain;
+        }
+        break;
+      }
+      case 'polarization':
+      case 'mueller': {
+        const matrix = resolveMuellerMatrix(step.spec);
+        if (matrix) applyMuellerMatrix(field, matrix);
+        break;
+      }
+      case 'beamSplit': {
+        if (!step.branches.length) break;
+        const texels = field.resolution.texels;
+        const accum = Array.from({ length: 4 }, () => new Float64Array(texels));
+        let weightSum = 0;
+        let weightSqSum = 0;
+        for (const branch of step.branches) {
+          const weight = branch.weight ?? 1;
+          weightSum += weight;
+          weightSqSum += weight * weight;
+          const out = traceStokesSchedule(cloneStokes(field), branch.steps, optics);
+          const intensity = weight * weight;
+          stokesPlanes(out).forEach((source, p) => {
+            const target = accum[p]!;
+            for (let i = 0; i < texels; i++) target[i] += source[i]! * intensity;
+          });
+        }
+        let norm = 1;
+        if (step.recombine === 'average' && weightSum !== 0) norm = 1 / weightSum;
+        if (step.recombine === 'energy' && weightSqSum !== 0) norm = 1 / Math.sqrt(weightSqSum);
+        const scale = norm * norm;
+        stokesPlanes(field).forEach((target, p) => {
+          const source = accum[p]!;
+          for (let i = 0; i < texels; i++) target[i] = source[i]! * scale;
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return field;
+};
+
+// --- Visualisation ----------------------------------------------------------------------------
+
+const hsvToRgb = (h: number, s: number, v: number): [number, number, number] => {
+  const sector = (((h % 1) + 1) % 1) * 6;
+  const i = Math.floor(sector);
+  const f = sector - i;
+  const p = v * (1 - s);
+  const q = v * (1 - s * f);
+  const t = v * (1 - s * (1 - f));
+  switch (i % 6) {
+    case 0:
+      return [v, t, p];
+    case 1:
+      return [q, v, p];
+    case 2:
+      return [p, v, t];
+    case 3:
+      return [p, q, v];
+    case 4:
+      return [t, p, v];
+    default:
+      return [v, p, q];
+  }
+};
+
+/**
+ * Paints a Stokes map into `out` (RGBA, `texels · 4`). `s0` and `dop` are grey ramps;
+ * `s1`–`s3` use a diverging blue–white–red scale of `S_k / S0`; `ellipse` encodes orientation
+ * as hue (2ψ), degree of polarization as saturation and normalised intensity as value.
+ */
+export const renderStokesMap = (
+  field: StokesField,
+  out: Uint8ClampedArray,
+  mode: StokesMapMode = 'ellipse',
+) => {
+  const texels = field.resolution.texels;
+  if (out.length !== texels * 4) {
+    throw new Error(`[polarization] output has ${out.length} bytes; expected ${texels * 4}`);
+  }
+  let maxS0 = 0;
+  for (let i = 0; i < texels; i++) maxS0 = Math.max(maxS0, field.s0[i]!);
+  const invMax = maxS0 > EPSILON ? 1 / maxS0 : 0;
+  const diverging = mode === 's1' ? field.s1 : mode === 's2' ? field.s2 : field.s3;
+  for (let i = 0; i < texels; i++) {
+    const s0 = field.s0[i]!;
+    let rgb: [number, number, number];
+    if (mode === 's0') {
+      const v = s0 * invMax;
+      rgb = [v, v, v];
+    } else if (mode === 'dop' || mode === 'ellipse') {
+      const s1 = field.s1[i]!;
+      const s2 = field.s2[i]!;
+      const s3 = field.s3[i]!;
+      const dop = s0 > EPSILON ? Math.min(1, Math.hypot(s1, s2, s3) / s0) : 0;
+      if (mode === 'dop') {
+        rgb = [dop, dop, dop];
+      } else {
+        const hue = (Math.atan2(s2, s1) / (2 * Math.PI) + 1) % 1;
+        rgb = hsvToRgb(hue, dop, s0 * invMax);
+      }
+    } else {
+      const n = s0 > EPSILON ? Math.max(-1, Math.min(1, diverging[i]! / s0)) : 0;
+      rgb = n >= 0 ? [1, 1 - n, 1 - n] : [1 + n, 1 + n, 1];
+    }
+    const base = i * 4;
+    out[base] = Math.round(rgb[0] * 255);
+    out[base + 1] = Math.round(rgb[1] * 255);
+    out[base + 2] = Math.round(rgb[2] * 255);
+    out[base + 3] = 255;
+  }
+};
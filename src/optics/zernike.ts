@@ -0,0 +1,438 @@
+import { makeResolution, type FieldResolution } from '../fields/contracts.js';
+import { OpticalFieldFrame } from '../fields/opticalField.js';
+import { fft2d, nextFastLength } from '../math/fft.js';
+
+/**
+ * Zernike wavefront aberrations on a circular pupil, Noll-indexed and Noll-normalised (every
+ * term has unit RMS over the pupil, so a coefficient is that term's RMS wavefront error).
+ * Coefficients are in micrometres of optical path, the ophthalmic convention, which makes the
+ * same aberration produce wavelength-dependent phase.
+ *
+ * The PSF is the squared modulus of the pupil's Fourier transform; its angular sampling is
+ * `λ / (N · pitch)` for an `N`-point transform of a pupil sampled at `pitch`.
+ */
+
+export type ZernikeAberration = {
+  /** Highest radial order n; terms j = 1 … (n + 1)(n + 2) / 2 are used. */
+  maxOrder: number;
+  /** Noll coefficients in micrometres, `coefficients[j - 1]` for term j (piston first). */
+  coefficients: ArrayLike<number>;
+  pupilRadiusMeters: number;
+};
+
+export type PupilFrameOptions = {
+  width: number;
+  height: number;
+  wavelengthNm: number;
+  pixelPitchMeters: number;
+  pupilRadiusMeters: number;
+};
+
+export type PointSpreadFunction = {
+  resolution: FieldResolution;
+  /** Centred intensity (DC at `width / 2`, `height / 2`), normalised to unit sum. */
+  intensity: Float32Array;
+  /** On-axis intensity relative to the unaberrated pupil. */
+  strehl: number;
+  sampleRadians: number;
+  wavelengthNm: number;
+};
+
+export type ModulationTransfer = {
+  resolution: FieldResolution;
+  /** Centred |OTF|, 1 at zero frequency. */
+  mtf: Float32Array;
+  /** Azimuthal average in one-sample rings from zero frequency outwards. */
+  radial: Float32Array;
+  sampleCyclesPerRadian: number;
+};
+
+export const MAX_ZERNIKE_ORDER = 20;
+
+export const zernikeTermCount = (maxOrder: number) => ((maxOrder + 1) * (maxOrder + 2)) / 2;
+
+/** Radial order n and signed azimuthal frequency m of Noll index j (m < 0 is the sine term). */
+export const nollToNm = (j: number): { n: number; m: number } => {
+  if (!Number.isInteger(j) || j < 1) {
+    throw new Error(`[zernike] Noll index must be a positive integer (got ${j})`);
+  }
+  let n = 0;
+  let remaining = j - 1;
+  while (remaining > n) {
+    n++;
+    remaining -= n;
+  }
+  const magnitude = (n % 2) + 2 * Math.floor((remaining + ((n + 1) % 2)) / 2);
+  return { n, m: j % 2 === 0 || magnitude === 0 ? magnitude : -magnitude };
+};
+
+const factorials = [1];
+const factorial = (k: number) => {
+  for (let i = factorials.length; i <= k; i++) factorials.push(factorials[i - 1]! * i);
+  return factorials[k]!;
+};
+
+const radialPolynomial = (n: number, m: number, rho: number) => {
+  const mm = Math.abs(m);
+  let sum = 0;
+  for (let k = 0; k <= (n - mm) / 2; k++) {
+    const c =
+      ((k % 2 === 0 ? 1 : -1) * factorial(n - k)) /
+      (factorial(k) * factorial((n + mm) / 2 - k) * factorial((n - mm) / 2 - k));
+    sum += c * rho ** (n - 2 * k);
+  }
+  return sum;
+};
+
+/** Noll-normalised Zernike term j at polar pupil coordinates (ρ ≤ 1). */
+export const zernike = (j: number, rho: number, theta: number) => {
+  const { n, m } = nollToNm(j);
+  const radial = radialPolynomial(n, m, rho);
+  if (m === 0) return Math.sqrt(n + 1) * radial;
+  const norm = Math.sqrt(2 * (n + 1));
+  return m > 0 ? norm * radial * Math.cos(m * theta) : norm * radial * Math.sin(-m * theta);
+};
+
+const assertAberration = (aberration: ZernikeAberration) => {
+  const { maxOrder, coefficients, pupilRadiusMeters } = aberration;
+  if (!Number.isInteger(maxOrder) || maxOrder < 0 || maxOrder > MAX_ZERNIKE_ORDER) {
+    throw new Error(`[zernike] maxOrder must be an integer in 0..${MAX_ZERNIKE_ORDER}`);
+  }
+  if (coefficients.length > zernikeTermCount(maxOrder)) {
+    throw new Error(
+      `[zernike] ${coefficients.length} coefficients exceed the ${zernikeTermCount(maxOrder)} terms of order ${maxOrder}`,
+    );
+  }
+  if (!(pupilRadiusMeters > 0)) {
+    throw new Error('[zernike] pupil radius must be positive');
+  }
+};
+
+/**
+ * Wavefront error in micrometres over a `width × height` grid centred on the pupil; texels
+ * outside the pupil are NaN.
+ */
+export const computeWavefront = (
+  aberration: ZernikeAberration,
+  width: number,
+  height: number,
+  pixelPitchMeters: number,
+): Float32Array => {
+  assertAberration(aberration);
+  const wavefront = new Float32Array(width * height);
+  const terms: number[] = [];
+  for (let j = 1; j <= aberration.coefficients.length; j++) {
+    if (aberration.coefficients[j - 1]) terms.push(j);
+  }
+  for (let y = 0; y < height; y++) {
+    const py = (y + 0.5 - height / 2) * pixelPitchMeters;
+    for (let x = 0; x < width; x++) {
+      const px = (x + 0.5 - width / 2) * pixelPitchMeters;
+      const rho = Math.hypot(px, py) / aberration.pupilRadiusMeters;
+      const idx = y * width + x;
+      if (rho > 1) {
+        wavefront[idx] = Number.NaN;
+        continue;
+      }
+      // Pupil y points up, image rows go down.
+      const theta = Math.atan2(-py, px);
+      let sum = 0;
+      for (const j of terms) sum += aberration.coefficients[j - 1]! * zernike(j, rho, theta);
+      wavefront[idx] = sum;
+    }
+  }
+  return wavefront;
+};
+
+/** Uniformly illuminated circular pupil, stamped as `space: 'pupil'`. */
+export const createPupilFrame = (options: PupilFrameOptions): OpticalFieldFrame => {
+  const { width, height, wavelengthNm, pixelPitchMeters, pupilRadiusMeters } = options;
+  const frame = new OpticalFieldFrame(makeResolution(width, height));
+  frame.updateMeta({ space: 'pupil', wavelengthNm, pixelPitchMeters });
+  const radiusSq = pupilRadiusMeters * pupilRadiusMeters;
+  for (let y = 0; y < height; y++) {
+    const py = (y + 0.5 - height / 2) * pixelPitchMeters;
+    for (let x = 0; x < width; x++) {
+      const px = (x + 0.5 - width / 2) * pixelPitchMeters;
+      if (px * px + py * py <= radiusSq) frame.real[y * width + x] = 1;
+    }
+  }
+  return frame;
+};
+
+/**
+ * Multiplies a pupil-space frame by `exp(2πi W / λ)` at the frame's wavelength and pitch; the
+ * pupil stop blocks everything outside `pupilRadiusMeters`.
+ */
+export const applyZernikeAberration = (frame: OpticalFieldFrame, aberration: ZernikeAberration) => {
+  const meta = frame.getMeta();
+  if (meta.space !== 'pupil') {
+    throw new Error(`[zernike] aberrations apply to pupil-space frames (got '${meta.space}')`);
+  }
+  const { width, height, texels } = frame.resolution;
+  const wavefront = computeWavefront(aberration, width, height, meta.pixelPitchMeters);
+  const waveNumber = (2 * Math.PI) / (meta.wavelengthNm * 1e-3);
+  for (const { real, imag } of frame.components) {
+    for (let i = 0; i < texels; i++) {
+      const w = wavefront[i]!;
+      if (Number.isNaN(w)) {
+        real[i] = 0;
+        imag[i] = 0;
+        continue;
+      }
+      const phase = waveNumber * w;
+      const c = Math.cos(phase);
+      const s = Math.sin(phase);
+      const re = real[i]!;
+      const im = imag[i]!;
+      real[i] = re * c - im * s;
+      imag[i] = re * s + im * c;
+    }
+  }
+  return frame;
+};
+
+const fftShift = (
+  source: Float64Array,
+  target: Float32Array,
+  width: number,
+  height: number,
+  scale: number,
+) => {
+  const hx = Math.floor(width / 2);
+  const hy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    const ty = (y + hy) % height;
+    for (let x = 0; x < width; x++) {
+      target[ty * width + ((x + hx) % width)] = source[y * width + x]! * scale;
+    }
+  }
+};
+
+/**
+ * Incoherent PSF of a pupil-space frame (component intensities add). `padding` zero-pads the
+ * pupil before the transform and sets the PSF sampling.
+ */
+export const computePointSpreadFunction = (
+  pupil: OpticalFieldFrame,
+  options?: { padding?: number },
+): PointSpreadFunction => {
+  const meta = pupil.getMeta();
+  if (meta.space !== 'pupil') {
+    throw new Error(`[zernike] PSFs are computed from pupil-space frames (got '${meta.space}')`);
+  }
+  const { width, height, texels } = pupil.resolution;
+  const padding = Math.max(1, options?.padding ?? 2);
+  const pw = nextFastLength(Math.ceil(width * padding));
+  const ph = nextFastLength(Math.ceil(height * padding));
+  const real = new Float64Array(pw * ph);
+  const imag = new Float64Array(pw * ph);
+  const accum = new Float64Array(pw * ph);
+  let coherentRe = 0;
+  let coherentIm = 0;
+  let incoherent = 0;
+  for (const component of pupil.components) {
+    real.fill(0);
+    imag.fill(0);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        real[y * pw + x] = component.real[i]!;
+        imag[y * pw + x] = component.imag[i]!;
+      }
+    }
+    for (let i = 0; i < texels; i++) {
+      coherentRe += component.real[i]!;
+      coherentIm += component.imag[i]!;
+      incoherent += Math.hypot(component.real[i]!, component.imag[i]!);
+    }
+    fft2d(real, imag, pw, ph);
+    for (let i = 0; i < accum.length; i++) accum[i] += real[i]! ** 2 + imag[i]! ** 2;
+  }
+  let total = 0;
+  for (let i = 0; i < accum.length; i++) total += accum[i]!;
+  const intensity = new Float32Array(pw * ph);
+  fftShift(accum, intensity, pw, ph, total > 0 ? 1 / total : 0);
+  const strehl =
+    incoherent > 0
+      ? (coherentRe * coherentRe + coherentIm * coherentIm) / (incoherent * incoherent)
+      : 0;
+  return {
+    resolution: makeResolution(pw, ph),
+    intensity,
+    strehl,
+    sampleRadians: (meta.wavelengthNm * 1e-9) / (pw * meta.pixelPitchMeters),
+    wavelengthNm: meta.wavelengthNm,
+  };
+};
+
+/** MTF as the normalised magnitude of the PSF's Fourier transform. */
+export const computeModulationTransfer = (psf: PointSpreadFunction): ModulationTransfer => {
+  const { width, height } = psf.resolution;
+  const real = new Float64Array(width * height);
+  const imag = new Float64Array(width * height);
+  // Undo the centring so the transform's phase ramp does not matter; only |OTF| is kept.
+  const hx = Math.floor(width / 2);
+  const hy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      real[y * width + x] = psf.intensity[((y + hy) % height) * width + ((x + hx) % width)]!;
+    }
+  }
+  fft2d(real, imag, width, height);
+  const dc = Math.hypot(real[0]!, imag[0]!);
+  const magnitude = new Float64Array(width * height);
+  for (let i = 0; i < magnitude.length; i++) {
+    magnitude[i] = Math.hypot(real[i]!, imag[i]!);
+  }
+  const mtf = new Float32Array(width * height);
+  fftShift(magnitude, mtf, width, height, dc > 0 ? 1 / dc : 0);
+
+  const rings = Math.floor(Math.min(width, height) / 2);
+  const sums = new Float64Array(rings);
+  const counts = new Uint32Array(rings);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ring = Math.round(Math.hypot(x - hx, y - hy));
+      if (ring >= rings) continue;
+      sums[ring] += mtf[y * width + x]!;
+      counts[ring]++;
+    }
+  }
+  const radial = new Float32Array(rings);
+  for (let r = 0; r < rings; r++) radial[r] = counts[r] ? sums[r]! / counts[r]! : 0;
+  return {
+    resolution: psf.resolution,
+    mtf,
+    radial,
+    sampleCyclesPerRadian: 1 / (width * psf.sampleRadians),
+  };
+};
+
+/**
+ * PSF of `aberration` for image convolution: a `size`-sample pupil stop (spanning half the frame)
+ * zero-padded 2×, so the diffraction-limited core covers a few samples.
+ */
+export const computeAberrationPointSpread = (
+  aberration: ZernikeAberration,
+  options?: { wavelengthNm?: number; size?: number },
+): PointSpreadFunction => {
+  const size = Math.max(8, Math.round(options?.size ?? 64));
+  const pupil = createPupilFrame({
+    width: size,
+    height: size,
+    wavelengthNm: options?.wavelengthNm ?? 555,
+    pixelPitchMeters: (4 * aberration.pupilRadiusMeters) / size,
+    pupilRadiusMeters: aberration.pupilRadiusMeters,
+  });
+  return computePointSpreadFunction(applyZernikeAberration(pupil, aberration));
+};
+
+/**
+ * The PSF bilinearly resampled onto image pixels of `radiansPerPixel`, cropped to the square
+ * holding all but `tail` of its energy and renormalised.
+ */
+const pointSpreadKernel = (psf: PointSpreadFunction, radiansPerPixel: number, tail = 0.002) => {
+  const { width, height } = psf.resolution;
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+  const scale = radiansPerPixel / psf.sampleRadians;
+  const maxHalf = Math.min(cx, cy) - 1;
+  let half = 0;
+  for (; half < maxHalf; half++) {
+    let inside = 0;
+    for (let y = cy - half; y <= cy + half; y++) {
+      for (let x = cx - half; x <= cx + half; x++) inside += psf.intensity[y * width + x]!;
+    }
+    if (inside >= 1 - tail) break;
+  }
+  const radius = Math.max(0, Math.min(Math.floor(maxHalf / scale), Math.ceil(half / scale)));
+  const side = 2 * radius + 1;
+  const weights = new Float64Array(side * side);
+  let total = 0;
+  for (let dy = -radius; dy <= radius; dy++) {
+    const sy = cy + dy * scale;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+    for (let dx = -radius; dx <= radius; dx++) {
+      const sx = cx + dx * scale;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+      const at = (x: number, y: number) =>
+        x >= 0 && x < width && y >= 0 && y < height ? psf.intensity[y * width + x]! : 0;
+      const value =
+        (1 - fy) * ((1 - fx) * at(x0, y0) + fx * at(x0 + 1, y0)) +
+        fy * ((1 - fx) * at(x0, y0 + 1) + fx * at(x0 + 1, y0 + 1));
+      weights[(dy + radius) * side + dx + radius] = value;
+      total += value;
+    }
+  }
+  if (total <= 0) {
+    weights.fill(0);
+    weights[radius * side + radius] = 1;
+  } else {
+    for (let i = 0; i < weights.length; i++) weights[i] /= total;
+  }
+  return { radius, weights };
+};
+
+/**
+ * Blurs the RGB channels of `rgba` in place by `psf`, taking one PSF sample per pixel unless
+ * `radiansPerPixel` says otherwise. Edges are clamped; alpha is left untouched.
+ */
+export const convolvePointSpread = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  psf: PointSpreadFunction,
+  radiansPerPixel = psf.sampleRadians,
+) => {
+  const { radius, weights } = pointSpreadKernel(psf, radiansPerPixel);
+  if (radius === 0) return rgba;
+  const side = 2 * radius + 1;
+  const pw = nextFastLength(width + 2 * radius);
+  const ph = nextFastLength(height + 2 * radius);
+  const kernelRe = new Float64Array(pw * ph);
+  const kernelIm = new Float64Array(pw * ph);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      kernelRe[((dy + ph) % ph) * pw + ((dx + pw) % pw)] =
+        weights[(dy + radius) * side + dx + radius]!;
+    }
+  }
+  fft2d(kernelRe, kernelIm, pw, ph);
+  const real = new Float64Array(pw * ph);
+  const imag = new Float64Array(pw * ph);
+  // The kernel is real, so two channels share one complex transform (one in each part).
+  for (const [a, b] of [
+    [0, 1],
+    [2, -1],
+  ] as const) {
+    for (let y = 0; y < ph; y++) {
+      const sy = Math.min(height - 1, Math.max(0, y - radius));
+      for (let x = 0; x < pw; x++) {
+        const sx = Math.min(width - 1, Math.max(0, x - radius));
+        const src = (sy * width + sx) * 4;
+        real[y * pw + x] = rgba[src + a]!;
+        imag[y * pw + x] = b >= 0 ? rgba[src + b]! : 0;
+      }
+    }
+    fft2d(real, imag, pw, ph);
+    for (let i = 0; i < real.length; i++) {
+      const re = real[i]!;
+      const im = imag[i]!;
+      real[i] = re * kernelRe[i]! - im * kernelIm[i]!;
+      imag[i] = re * kernelIm[i]! + im * kernelRe[i]!;
+    }
+    fft2d(real, imag, pw, ph, { inverse: true });
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const src = (y + radius) * pw + x + radius;
+        const dst = (y * width + x) * 4;
+        rgba[dst + a] = real[src]!;
+        if (b >= 0) rgba[dst + b] = imag[src]!;
+      }
+    }
+  }
+  return rgba;
+};
@@ -1,10 +1,20 @@
-import type { PhaseField, RimField, SurfaceField, VolumeField } from '../fields/contracts.js';
+import type {
+  PhaseField,
+  RimField,
+  StokesField,
+  SurfaceField,
+  VolumeField,
+} from '../fields/contracts.js';
 import { createHyperbolicAtlas, type HyperbolicAtlas } from '../hyperbolic/atlas.js';
 export type { RimField, PhaseField, SurfaceField, VolumeField } from '../fields/contracts.js';
 import { clampKernelSpec, cloneKernelSpec, type KernelSpec } from '../kernel/kernelSpec.js';
 import type { KuramotoTelemetrySnapshot } from '../kuramotoCore.js';
+import type { MultiLayerKuramotoTelemetry } from '../kuramoto/multiLayer.js';
 export type { KernelSpec } from '../kernel/kernelSpec.js';
 import type { FluxOverlayFrameData } from '../qcd/overlays.js';
+import type { SpectralRimField } from '../optics/spectral.js';
+import { renderStokesMap, type StokesMapMode } from '../optics/polarization.js';
+import { convolvePointSpread, type PointSpreadFunction } from '../optics/zernike.js';
 import { computeTextureDiagnostics } from './textureDiagnostics.js';
 import { embedToC7 } from './su7/embed.js';
 import {
@@ -451,6 +461,20 @@ export type RainbowFrameMetrics = {
     dt: number;
     kernelVersion: number;
     kernel: KernelSpec;
+    layers: Array<{
+      id: string;
+      weight: number;
+      orderMagnitude: number;
+      orderPhase: number;
+      interferenceMean: number;
+    }>;
+    interLayer: Array<{
+      source: string;
+      target: string;
+      strength: number;
+      locking: number;
+      phaseOffset: number;
+    }>;
   };
   texture: TextureMetrics;
   su7: Su7Telemetry;
@@ -532,6 +556,7 @@ export type RainbowFrameInput = {
   hyperbolicAtlas?: HyperbolicAtlas | null;
   kurEnabled: boolean;
   kurTelemetry?: KuramotoTelemetrySnapshot;
+  kurLayers?: MultiLayerKuramotoTelemetry;
   debug?: {
     rim?: RimDebugRequest;
     surface?: SurfaceDebugRequest;
@@ -541,6 +566,20 @@ export type RainbowFrameInput = {
   attentionHooks?: BranchAttentionHooks;
   guardrailOptions?: Su7GuardrailOptions;
   fluxOverlay?: FluxOverlayFrameData | null;
+  /**
+   * Cone signals from `computeSpectralRimField`. When present (and at frame resolution) the rim
+   * pass takes its L/M/S energies from real dispersion instead of the `lambdas` offsets.
+   */
+  spectralRim?: SpectralRimField | null;
+  /** Stokes maps of the polarized Kuramoto field (`computeStokesField`). */
+  stokes?: StokesField | null;
+  /** Blends a `renderStokesMap` view of `stokes` over the frame when `alpha > 0`. */
+  stokesOverlay?: { mode: StokesMapMode; alpha: number } | null;
+  /**
+   * Eye PSF from a `ZernikeAberration` (`computeAberrationPointSpread`), one sample per pixel.
+   * When present it blurs the finished frame and replaces the Gaussian `sigma` rim falloff.
+   */
+  pointSpread?: PointSpreadFunction | null;
 };
 
 export type RainbowFrameResult = {
@@ -555,6 +594,17 @@ export type RainbowFrameResult = {
 
 export const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
 
+/** Per-channel displacement (px, along the edge normal) of the heuristic dispersion model. */
+export const computeRimDispersionOffsets = (
+  lambdaRef: number,
+  lambdas: { L: number; M: number; S: number },
+  beta2: number,
+) => ({
+  L: beta2 * (lambdaRef / lambdas.L - 1),
+  M: beta2 * (lambdaRef / lambdas.M - 1),
+  S: beta2 * (lambdaRef / lambdas.S - 1),
+});
+
 const clamp01 = (v: number) => clamp(v, 0, 1);
 
 const gauss = (x: number, s: number) => Math.exp(-(x * x) / (2 * s * s + 1e-9));
@@ -1112,6 +1162,8 @@ export const kEff = (k: KernelSpec, d: number): KernelSpec => ({
   chirality: k.chirality + DMT_SENS.c1 * d,
   transparency: k.transparency + DMT_SENS.t1 * d,
   couplingPreset: k.couplingPreset,
+  couplingIntegrator: k.couplingIntegrator,
+  couplingBoundary: k.couplingBoundary,
 });
 
 export const groupOps = (kind: WallpaperGroup): Op[] => {
@@ -1405,6 +1457,10 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
     attentionHooks,
     guardrailOptions,
     fluxOverlay,
+    spectralRim,
+    stokes,
+    stokesOverlay,
+    pointSpread,
   } = input;
   const rimDebug = debug?.rim ?? null;
   const surfaceDebug = debug?.surface ?? null;
@@ -1577,6 +1633,8 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
       dt: 0,
       kernelVersion: 0,
       kernel: cloneKernelSpec(kernelSpec),
+      layers: [],
+      interLayer: [],
     },
     texture: {
       wallpapericity: 0,
@@ -1627,6 +1685,24 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
     metrics.kuramoto.kernelVersion = tele.kernelVersion;
     metrics.kuramoto.kernel = cloneKernelSpec(tele.kernel);
   }
+  if (input.kurLayers) {
+    metrics.kuramoto.layers = input.kurLayers.layers.map(({ id, weight, telemetry }) => ({
+      id,
+      weight,
+      orderMagnitude: telemetry.orderParameter.magnitude,
+      orderPhase: telemetry.orderParameter.phase,
+      interferenceMean: telemetry.interference.mean,
+    }));
+    metrics.kuramoto.interLayer = input.kurLayers.pairs.map(
+      ({ source, target, strength, locking, phaseOffset }) => ({
+        source,
+        target,
+        strength,
+        locking,
+        phaseOffset,
+      }),
+    );
+  }
 
   const [rimComposerGain, surfaceComposerGain] = computeComposerBlendGain(composerConfig);
 
@@ -1731,6 +1807,15 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
   let vort = phaseField?.vort ?? null;
   let coh = phaseField?.coh ?? null;
   let amp = phaseField?.amp ?? null;
+  const spectralRimActive =
+    spectralRim &&
+    spectralRim.resolution.width === width &&
+    spectralRim.resolution.height === height
+      ? spectralRim
+      : null;
+  let spectralL = spectralRimActive?.L ?? null;
+  let spectralM = spectralRimActive?.M ?? null;
+  let spectralS = spectralRimActive?.S ?? null;
   let su7Vectors: C7Vector[] | null = null;
   let su7Norms: Float32Array | null = null;
   const su7Projector = su7Params.projector;
@@ -1789,11 +1874,7 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
 
   metrics.compositor.effectiveBlend = effectiveBlend;
 
-  const baseOffsets = {
-    L: beta2 * (lambdaRef / lambdas.L - 1),
-    M: beta2 * (lambdaRef / lambdas.M - 1),
-    S: beta2 * (lambdaRef / lambdas.S - 1),
-  } as const;
+  const baseOffsets = computeRimDispersionOffsets(lambdaRef, lambdas, beta2);
 
   const jitterPhase = microsaccade ? timeSeconds * 6.0 : 0.0;
   const breath = alive ? 0.15 * Math.sin(2 * Math.PI * 0.55 * timeSeconds) : 0.0;
@@ -1905,6 +1986,10 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
     const volumeIntensityResampled = volumeIntensity
       ? new Float32Array(volumeIntensity.length)
       : null;
+    const spectralResampled =
+      spectralL && spectralM && spectralS
+        ? [spectralL, spectralM, spectralS].map((plane) => new Float32Array(plane.length))
+        : null;
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
@@ -1941,6 +2026,11 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
         if (volumeIntensityResampled && volumeIntensity) {
           volumeIntensityResampled[idx] = sampleScalar(volumeIntensity, sx, sy);
         }
+        if (spectralResampled && spectralL && spectralM && spectralS) {
+          spectralResampled[0]![idx] = sampleScalar(spectralL, sx, sy);
+          spectralResampled[1]![idx] = sampleScalar(spectralM, sx, sy);
+          spectralResampled[2]![idx] = sampleScalar(spectralS, sx, sy);
+        }
       }
     }
 
@@ -1981,6 +2071,11 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
     if (volumePhaseResampled) volumePhase = volumePhaseResampled;
     if (volumeDepthResampled) volumeDepth = volumeDepthResampled;
     if (volumeIntensityResampled) volumeIntensity = volumeIntensityResampled;
+    if (spectralResampled) {
+      spectralL = spectralResampled[0]!;
+      spectralM = spectralResampled[1]!;
+      spectralS = spectralResampled[2]!;
+    }
     surfaceFieldActive = surface
       ? { kind: 'surface', resolution: surface.resolution, rgba: baseResampled }
       : surfaceFieldActive;
@@ -2666,37 +2761,6 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
           );
         }
 
-        const pL = sampleScalar(
-          mag,
-          x + (offL + breath) * nx,
-          y + (offL + breath) * ny,
-          width,
-          height,
-        );
-        const pM = sampleScalar(
-          mag,
-          x + (offM + breath) * nx,
-          y + (offM + breath) * ny,
-          width,
-          height,
-        );
-        const pS = sampleScalar(
-          mag,
-          x + (offS + breath) * nx,
-          y + (offS + breath) * ny,
-          width,
-          height,
-        );
-
-        const gL = gauss(offL, sigmaEff) * ke.gain;
-        const gM = gauss(offM, sigmaEff) * ke.gain;
-        const gS = gauss(offS, sigmaEff) * ke.gain;
-
-        const QQ = 1 + 0.5 * ke.Q;
-        const modL = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offL)), QQ);
-        const modM = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offM)), QQ);
-        const modS = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offS)), QQ);
-
         const chiPhase = 2 * Math.PI * ke.k0 * (x * tx + y * ty) * 0.002 + hueShift;
         let chBase = ke.chirality;
         if (coupleKurChirality && vort) {
@@ -2709,9 +2773,54 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
         const chiS = 0.5 + 0.5 * Math.sin(chiPhase + 1.6) * chBase;
 
         const cont = contrast * frameGain;
-        const Lc = pL * gL * modL * chiL * polL * cont;
-        const Mc = pM * gM * modM * chiM * polM * cont;
-        const Sc = pS * gS * modS * chiS * polS * cont;
+        let Lc: number;
+        let Mc: number;
+        let Sc: number;
+        // Edge strength feeding the normalisation pin (`obsAverage`).
+        let obsSample: number;
+        if (spectralL && spectralM && spectralS) {
+          // Real dispersion already places each channel's fringes; skip the offset model.
+          Lc = spectralL[p] * ke.gain * chiL * polL * cont;
+          Mc = spectralM[p] * ke.gain * chiM * polM * cont;
+          Sc = spectralS[p] * ke.gain * chiS * polS * cont;
+          obsSample = magVal;
+        } else {
+          const pL = sampleScalar(
+            mag,
+            x + (offL + breath) * nx,
+            y + (offL + breath) * ny,
+            width,
+            height,
+          );
+          const pM = sampleScalar(
+            mag,
+            x + (offM + breath) * nx,
+            y + (offM + breath) * ny,
+            width,
+            height,
+          );
+          const pS = sampleScalar(
+            mag,
+            x + (offS + breath) * nx,
+            y + (offS + breath) * ny,
+            width,
+            height,
+          );
+
+          const gL = (pointSpread ? 1 : gauss(offL, sigmaEff)) * ke.gain;
+          const gM = (pointSpread ? 1 : gauss(offM, sigmaEff)) * ke.gain;
+          const gS = (pointSpread ? 1 : gauss(offS, sigmaEff)) * ke.gain;
+
+          const QQ = 1 + 0.5 * ke.Q;
+          const modL = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offL)), QQ);
+          const modM = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offM)), QQ);
+          const modS = Math.pow(0.5 * (1 + Math.cos(2 * Math.PI * ke.k0 * offS)), QQ);
+
+          Lc = pL * gL * modL * chiL * polL * cont;
+          Mc = pM * gM * modM * chiM * polM * cont;
+          Sc = pS * gS * modS * chiS * polS * cont;
+          obsSample = (pL + pM + pS) / 3;
+        }
 
         rimEnergy = (Lc + Mc + Sc) / Math.max(1e-6, cont);
 
@@ -2815,7 +2924,7 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
         if (rimEnergy > rimMax) rimMax = rimEnergy;
 
         if ((x & 7) === 0 && (y & 7) === 0) {
-          obsSum += (pL + pM + pS) / 3;
+          obsSum += obsSample;
           obsCount++;
         }
       } else if (rimDebug) {
@@ -3136,6 +3245,27 @@ export const renderRainbowFrame = (input: RainbowFrameInput): RainbowFrameResult
     metrics.su7.projectorEnergy = 0;
   }
 
+  if (pointSpread) {
+    convolvePointSpread(out, width, height, pointSpread);
+  }
+
+  if (
+    stokes &&
+    stokesOverlay &&
+    stokesOverlay.alpha > 0 &&
+    stokes.resolution.width === width &&
+    stokes.resolution.height === height
+  ) {
+    const overlayAlpha = clamp01(stokesOverlay.alpha);
+    const overlay = new Uint8ClampedArray(out.length);
+    renderStokesMap(stokes, overlay, stokesOverlay.mode);
+    for (let i = 0; i < out.length; i += 4) {
+      out[i] = mixScalar(out[i], overlay[i], overlayAlpha);
+      out[i + 1] = mixScalar(out[i + 1], overlay[i + 1], overlayAlpha);
+      out[i + 2] = mixScalar(out[i + 2], overlay[i + 2], overlayAlpha);
+    }
+  }
+
   metrics.qualia = computeQualiaMetrics({
     pixels: out,
     width,
@@ -1,4 +1,5 @@
 import type { SurfaceField } from '../fields/contracts.js';
+import { irfft2d, nextFastLength, rfft2d } from '../math/fft.js';
 
 export type TextureDiagnosticsConfig = {
   orientations: readonly number[];
@@ -78,55 +79,67 @@ const buildGaussianKernel = (sigma: number): Float32Array => {
   return kernel;
 };
 
-const applySeparableBlur = (
-  input: Float32Array,
+/**
+ * Sum of |DoG| over the scale bank. Each scale is one spectral product on the shared FFT;
+ * the plane is edge-padded by the widest kernel radius so the circular convolution matches
+ * clamp-to-edge sampling.
+ */
+const computeDoGEnergy = (
+  gray: Float32Array,
   width: number,
   height: number,
-  kernel: Float32Array,
+  sigmas: readonly number[],
+  factor = 1.6,
 ) => {
-  const radius = (kernel.length - 1) >> 1;
-  const temp = new Float32Array(width * height);
-  const output = new Float32Array(width * height);
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      let accum = 0;
-      for (let k = -radius; k <= radius; k++) {
-        const xx = Math.min(width - 1, Math.max(0, x + k));
-        accum += input[y * width + xx] * kernel[k + radius];
-      }
-      temp[y * width + x] = accum;
+  const kernels = sigmas.map((sigma) => ({
+    narrow: buildGaussianKernel(Math.max(sigma, EPS)),
+    wide: buildGaussianKernel(Math.max(sigma * factor, EPS)),
+  }));
+  const pad = kernels.reduce((max, { wide }) => Math.max(max, (wide.length - 1) >> 1), 0);
+  const paddedWidth = nextFastLength(width + 2 * pad);
+  const paddedHeight = nextFastLength(height + 2 * pad);
+  const padded = new Float32Array(paddedWidth * paddedHeight);
+  for (let y = 0; y < paddedHeight; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y - pad));
+    for (let x = 0; x < paddedWidth; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x - pad));
+      padded[y * paddedWidth + x] = gray[sy * width + sx];
     }
   }
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      let accum = 0;
-      for (let k = -radius; k <= radius; k++) {
-        const yy = Math.min(height - 1, Math.max(0, y + k));
-        accum += temp[yy * width + x] * kernel[k + radius];
+  const image = rfft2d(padded, paddedWidth, paddedHeight);
+  const kernelPlane = new Float32Array(paddedWidth * paddedHeight);
+  const response = new Float32Array(paddedWidth * paddedHeight);
+  const energy = new Float32Array(width * height);
+  for (const { narrow, wide } of kernels) {
+    kernelPlane.fill(0);
+    const radius = (wide.length - 1) >> 1;
+    const narrowRadius = (narrow.length - 1) >> 1;
+    for (let dy = -radius; dy <= radius; dy++) {
+      const row = ((dy + paddedHeight) % paddedHeight) * paddedWidth;
+      const ny = Math.abs(dy) <= narrowRadius ? narrow[dy + narrowRadius] : 0;
+      const wy = wide[dy + radius];
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = Math.abs(dx) <= narrowRadius ? narrow[dx + narrowRadius] : 0;
+        kernelPlane[row + ((dx + paddedWidth) % paddedWidth)] = ny * nx - wy * wide[dx + radius];
+      }
+    }
+    const spectrum = rfft2d(kernelPlane, paddedWidth, paddedHeight);
+    for (let i = 0; i < spectrum.real.length; i++) {
+      const kr = spectrum.real[i];
+      const ki = spectrum.imag[i];
+      spectrum.real[i] = kr * image.real[i] - ki * image.imag[i];
+      spectrum.imag[i] = kr * image.imag[i] + ki * image.real[i];
+    }
+    irfft2d(spectrum, paddedWidth, paddedHeight, response);
+    for (let y = 0; y < height; y++) {
+      const src = (y + pad) * paddedWidth + pad;
+      const dst = y * width;
+      for (let x = 0; x < width; x++) {
+        energy[dst + x] += Math.abs(response[src + x]);
       }
-      output[y * width + x] = accum;
     }
   }
-  return output;
-};
-
-const computeDoG = (
-  gray: Float32Array,
-  width: number,
-  height: number,
-  sigma: number,
-  factor = 1.6,
-) => {
-  const kernelA = buildGaussianKernel(Math.max(sigma, EPS));
-  const kernelB = buildGaussianKernel(Math.max(sigma * factor, EPS));
-  const blurA = applySeparableBlur(gray, width, height, kernelA);
-  const blurB = applySeparableBlur(gray, width, height, kernelB);
-  const total = width * height;
-  const result = new Float32Array(total);
-  for (let i = 0; i < total; i++) {
-    result[i] = blurA[i] - blurB[i];
-  }
-  return result;
+  return energy;
 };
 
 const computeGradients = (gray: Float32Array, width: number, height: number) => {
@@ -183,14 +196,7 @@ export const computeTextureDiagnostics = (
 
   const sigmas = [0.7, 1.2, 2.4];
   const scaleCount = sigmas.length;
-  const dogAbs = new Float32Array(total);
-  for (let s = 0; s < sigmas.length; s++) {
-    const dog = computeDoG(gray, width, height, sigmas[s]);
-    for (let i = 0; i < total; i++) {
-      const v = Math.abs(dog[i]);
-      dogAbs[i] += v;
-    }
-  }
+  const dogAbs = computeDoGEnergy(gray, width, height, sigmas);
 
   const orientations = config.orientations.length > 0 ? config.orientations : [0];
   const orientationCount = orientations.length;
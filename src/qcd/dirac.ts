@@ -0,0 +1,1105 @@
+/**
+ * Wilson–Dirac (optionally clover-improved) and staggered fermion operators on `GaugeLattice`.
+ *
+ * Unlike `diracStub.ts` these are the physical lattice operators:
+ *
+ *   Wilson     D ψ(x) = (m + d) ψ(x) + c_sw (i/2) Σ_{μ<ν} σ_μν F̂_μν ψ(x)
+ *                       − ½ Σ_μ [(1 − γ_μ) U_μ(x) ψ(x+μ̂) + (1 + γ_μ) U_μ†(x−μ̂) ψ(x−μ̂)]
+ *   staggered  D χ(x) = m χ(x) + ½ Σ_μ η_μ(x) [U_μ(x) χ(x+μ̂) − U_μ†(x−μ̂) χ(x−μ̂)]
+ *
+ * with d active axes, Euclidean DeGrand–Rossi γ matrices (γ5 = diag(1, 1, −1, −1)) assigned by
+ * axis name, η_μ(x) = (−1)^{Σ_{ν<μ} x_ν}, and antiperiodic boundaries along the temporal axis
+ * (`t`, or the last active axis on lower-dimensional lattices). Wilson spinors hold 4 spins × 3
+ * colours per site, staggered fields 3 colours, both as interleaved re/im Float64 pairs.
+ * Both operators are Γ-Hermitian (D† = Γ D Γ with Γ = γ5, resp. ε(x) = (−1)^{x+y+z+t}), which
+ * the solvers use for D† and the pion correlator uses to avoid a second inversion.
+ */
+
+import { GAUGE_LATTICE_AXES, GaugeLattice, type GaugeLinkAxis } from './lattice.js';
+import { resolveGaugeAction } from './gaugeAction.js';
+import { buildLinkField, cloverFieldStrength, type LinkField } from './linkField.js';
+import type { Complex3x3 } from './su3.js';
+import type { DiracSolveOptions, DiracStubSolution } from './diracStub.js';
+import type { ProbeTransportPoint } from './probeTransport.js';
+
+export type LatticeDiracKind = 'wilson' | 'staggered';
+
+export type LatticeDiracOptions = {
+  kind?: LatticeDiracKind;
+  /** Bare quark mass m (Wilson: κ = 1 / (2m + 2d)). */
+  mass?: number;
+  /** Sheikholeslami–Wohlert coefficient; 0 disables the clover term. Wilson only. */
+  csw?: number;
+  /** Antiperiodic temporal boundary for the fermions (default true). */
+  antiperiodic?: boolean;
+};
+
+export type LatticeDiracOperator = {
+  kind: LatticeDiracKind;
+  lattice: GaugeLattice;
+  mass: number;
+  csw: number;
+  antiperiodic: boolean;
+  /** Index into `lattice.axes` of the temporal direction. */
+  timeAxis: number;
+  /** Floats per site: 24 (Wilson) or 6 (staggered). */
+  siteFloats: number;
+  field: LinkField;
+  parity: Uint8Array;
+  /** Boundary sign × staggered phase per (site, axis) for forward and backward hops. */
+  forwardPhase: Float64Array;
+  backwardPhase: Float64Array;
+  /** γ matrix per active axis (Wilson only). */
+  gammas: Float64Array[];
+  /** Site-local 12×12 blocks (m + d + clover) and their inverses; null without clover. */
+  clover: { blocks: Float64Array; inverses: Float64Array } | null;
+};
+
+export type DiracSolverKind = 'cg' | 'bicgstab';
+
+export type LatticeDiracSolveOptions = DiracSolveOptions & {
+  /** `cg` runs CG on the normal equations D†D; `bicgstab` works on D directly. */
+  solver?: DiracSolverKind;
+  /** Solve the even-site Schur complement and reconstruct the odd sites. */
+  evenOdd?: boolean;
+};
+
+export type DiracHermiticityCheck = {
+  /** |⟨u, D v⟩ − ⟨Γ D Γ u, v⟩| / (|⟨u, D v⟩| + ε). */
+  relativeError: number;
+};
+
+export type PointSourcePropagator = {
+  origin: { x: number; y: number; z: number; t: number };
+  /** One solution per spin–colour (Wilson, 12) or colour (staggered, 3) source. */
+  columns: Float64Array[];
+  iterations: number;
+  converged: boolean;
+  maxResidual: number;
+};
+
+const DEFAULT_MASS = 0.1;
+const EPSILON = 1e-300;
+const SPINS = 4;
+const COLORS = 3;
+const BLOCK = SPINS * COLORS;
+
+type SpinMatrix = Float64Array;
+
+const spinMatrix = (entries: readonly (readonly [number, number])[][]): SpinMatrix => {
+  const matrix = new Float64Array(SPINS * SPINS * 2);
+  entries.forEach((row, r) =>
+    row.forEach(([re, im], c) => {
+      matrix[(r * SPINS + c) * 2] = re;
+      matrix[(r * SPINS + c) * 2 + 1] = im;
+    }),
+  );
+  return matrix;
+};
+
+const O = [0, 0] as const;
+const P1 = [1, 0] as const;
+const M1 = [-1, 0] as const;
+const PI = [0, 1] as const;
+const MI = [0, -1] as const;
+
+/** DeGrand–Rossi basis, Hermitian with {γ_μ, γ_ν} = 2δ_μν. */
+export const GAMMA_MATRICES: Readonly<Record<GaugeLinkAxis, SpinMatrix>> = {
+  x: spinMatrix([
+    [O, O, O, PI],
+    [O, O, PI, O],
+    [O, MI, O, O],
+    [MI, O, O, O],
+  ]),
+  y: spinMatrix([
+    [O, O, O, M1],
+    [O, O, P1, O],
+    [O, P1, O, O],
+    [M1, O, O, O],
+  ]),
+  z: spinMatrix([
+    [O, O, PI, O],
+    [O, O, O, MI],
+    [MI, O, O, O],
+    [O, PI, O, O],
+  ]),
+  t: spinMatrix([
+    [O, O, P1, O],
+    [O, O, O, P1],
+    [P1, O, O, O],
+    [O, P1, O, O],
+  ]),
+};
+
+const spinProduct = (a: SpinMatrix, b: SpinMatrix): SpinMatrix => {
+  const result = new Float64Array(SPINS * SPINS * 2);
+  for (let r = 0; r < SPINS; r++) {
+    for (let c = 0; c < SPINS; c++) {
+      let re = 0;
+      let im = 0;
+      for (let k = 0; k < SPINS; k++) {
+        const ar = a[(r * SPINS + k) * 2]!;
+        const ai = a[(r * SPINS + k) * 2 + 1]!;
+        const br = b[(k * SPINS + c) * 2]!;
+        const bi = b[(k * SPINS + c) * 2 + 1]!;
+        re += ar * br - ai * bi;
+        im += ar * bi + ai * br;
+      }
+      result[(r * SPINS + c) * 2] = re;
+      result[(r * SPINS + c) * 2 + 1] = im;
+    }
+  }
+  return result;
+};
+
+export const GAMMA_5: SpinMatrix = spinProduct(
+  spinProduct(GAMMA_MATRICES.x, GAMMA_MATRICES.y),
+  spinProduct(GAMMA_MATRICES.z, GAMMA_MATRICES.t),
+);
+
+/** σ_μν = (i/2)[γ_μ, γ_ν]. */
+const sigma = (mu: SpinMatrix, nu: SpinMatrix): SpinMatrix => {
+  const forward = spinProduct(mu, nu);
+  const backward = spinProduct(nu, mu);
+  const result = new Float64Array(forward.length);
+  for (let i = 0; i < result.length; i += 2) {
+    result[i] = -0.5 * (forward[i + 1]! - backward[i + 1]!);
+    result[i + 1] = 0.5 * (forward[i]! - backward[i]!);
+  }
+  return result;
+};
+
+const siteCountOf = (operator: LatticeDiracOperator) =>
+  operator.field.links.length / operator.field.axisCount;
+
+/** out[dst..] (+)= s · U ψ (or U† ψ) for one colour vector. */
+const accumulateColor = (
+  link: Complex3x3,
+  dagger: boolean,
+  source: Float64Array,
+  sourceOffset: number,
+  target: Float64Array,
+  targetOffset: number,
+  scale: number,
+) => {
+  for (let row = 0; row < COLORS; row++) {
+    let re = 0;
+    let im = 0;
+    for (let col = 0; col < COLORS; col++) {
+      const entry = dagger ? link[col][row] : link[row][col];
+      const ur = entry.re;
+      const ui = dagger ? -entry.im : entry.im;
+      const vr = source[sourceOffset + col * 2]!;
+      const vi = source[sourceOffset + col * 2 + 1]!;
+      re += ur * vr - ui * vi;
+      im += ur * vi + ui * vr;
+    }
+    target[targetOffset + row * 2] += scale * re;
+    target[targetOffset + row * 2 + 1] += scale * im;
+  }
+};
+
+/** target += scale · (1 + sign · γ) χ for a 4 × 3 spinor χ. */
+const accumulateProjected = (
+  gamma: SpinMatrix,
+  sign: number,
+  chi: Float64Array,
+  target: Float64Array,
+  targetOffset: number,
+  scale: number,
+) => {
+  for (let r = 0; r < SPINS; r++) {
+    for (let color = 0; color < COLORS; color++) {
+      let re = chi[(r * COLORS + color) * 2]!;
+      let im = chi[(r * COLORS + color) * 2 + 1]!;
+      for (let c = 0; c < SPINS; c++) {
+        const gr = gamma[(r * SPINS + c) * 2]!;
+        const gi = gamma[(r * SPINS + c) * 2 + 1]!;
+        if (gr === 0 && gi === 0) continue;
+        const vr = chi[(c * COLORS + color) * 2]!;
+        const vi = chi[(c * COLORS + color) * 2 + 1]!;
+        re += sign * (gr * vr - gi * vi);
+        im += sign * (gr * vi + gi * vr);
+      }
+      target[targetOffset + (r * COLORS + color) * 2] += scale * re;
+      target[targetOffset + (r * COLORS + color) * 2 + 1] += scale * im;
+    }
+  }
+};
+
+/** y = M x for a 12×12 complex block stored row-major. */
+const applyBlock = (
+  blocks: Float64Array,
+  blockOffset: number,
+  source: Float64Array,
+  sourceOffset: number,
+  target: Float64Array,
+  targetOffset: number,
+) => {
+  for (let r = 0; r < BLOCK; r++) {
+    let re = 0;
+    let im = 0;
+    for (let c = 0; c < BLOCK; c++) {
+      const mr = blocks[blockOffset + (r * BLOCK + c) * 2]!;
+      const mi = blocks[blockOffset + (r * BLOCK + c) * 2 + 1]!;
+      const vr = source[sourceOffset + c * 2]!;
+      const vi = source[sourceOffset + c * 2 + 1]!;
+      re += mr * vr - mi * vi;
+      im += mr * vi + mi * vr;
+    }
+    target[targetOffset + r * 2] = re;
+    target[targetOffset + r * 2 + 1] = im;
+  }
+};
+
+/** Gauss–Jordan inverse of one complex block with partial pivoting. */
+const invertBlock = (matrix: Float64Array): Float64Array => {
+  const n = BLOCK;
+  const a = Float64Array.from(matrix);
+  const inv = new Float64Array(n * n * 2);
+  for (let i = 0; i < n; i++) inv[(i * n + i) * 2] = 1;
+  const at = (r: number, c: number) => (r * n + c) * 2;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    let best = 0;
+    for (let r = col; r < n; r++) {
+      const magnitude = Math.hypot(a[at(r, col)]!, a[at(r, col) + 1]!);
+      if (magnitude > best) {
+        best = magnitude;
+        pivot = r;
+      }
+    }
+    if (best <= EPSILON) {
+      throw new RangeError('Clover block is singular');
+    }
+    if (pivot !== col) {
+      for (const m of [a, inv]) {
+        for (let c = 0; c < n * 2; c++) {
+          const tmp = m[col * n * 2 + c]!;
+          m[col * n * 2 + c] = m[pivot * n * 2 + c]!;
+          m[pivot * n * 2 + c] = tmp;
+        }
+      }
+    }
+    const pr = a[at(col, col)]!;
+    const pi = a[at(col, col) + 1]!;
+    const norm = pr * pr + pi * pi;
+    const sr = pr / norm;
+    const si = -pi / norm;
+    for (const m of [a, inv]) {
+      for (let c = 0; c < n; c++) {
+        const vr = m[at(col, c)]!;
+        const vi = m[at(col, c) + 1]!;
+        m[at(col, c)] = vr * sr - vi * si;
+        m[at(col, c) + 1] = vr * si + vi * sr;
+      }
+    }
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const fr = a[at(r, col)]!;
+      const fi = a[at(r, col) + 1]!;
+      if (fr === 0 && fi === 0) continue;
+      for (const m of [a, inv]) {
+        for (let c = 0; c < n; c++) {
+          const vr = m[at(col, c)]!;
+          const vi = m[at(col, c) + 1]!;
+          m[at(r, c)] -= fr * vr - fi * vi;
+          m[at(r, c) + 1] -= fr * vi + fi * vr;
+        }
+      }
+    }
+  }
+  return inv;
+};
+
+/** (m + d) 1 + c_sw (i/2) Σ_{μ<ν} σ_μν ⊗ F̂_μν at every site, with spin-major rows. */
+const buildCloverBlocks = (operator: LatticeDiracOperator) => {
+  const { field, lattice, csw, mass } = operator;
+  const siteCount = siteCountOf(operator);
+  const diagonal = mass + field.axisCount;
+  const blockSize = BLOCK * BLOCK * 2;
+  const blocks = new Float64Array(siteCount * blockSize);
+  const inverses = new Float64Array(siteCount * blockSize);
+  const planes: { mu: number; nu: number; sigma: SpinMatrix }[] = [];
+  for (let mu = 0; mu < field.axisCount; mu++) {
+    for (let nu = mu + 1; nu < field.axisCount; nu++) {
+      planes.push({
+        mu,
+        nu,
+        sigma: sigma(GAMMA_MATRICES[lattice.axes[mu]!], GAMMA_MATRICES[lattice.axes[nu]!]),
+      });
+    }
+  }
+  for (let site = 0; site < siteCount; site++) {
+    const block = new Float64Array(blockSize);
+    for (let i = 0; i < BLOCK; i++) block[(i * BLOCK + i) * 2] = diagonal;
+    for (const plane of planes) {
+      const strength = cloverFieldStrength(field, site, plane.mu, plane.nu);
+      for (let s1 = 0; s1 < SPINS; s1++) {
+        for (let s2 = 0; s2 < SPINS; s2++) {
+          // (i/2) c_sw σ entry, then ⊗ F̂.
+          const sr = -0.5 * csw * plane.sigma[(s1 * SPINS + s2) * 2 + 1]!;
+          const si = 0.5 * csw * plane.sigma[(s1 * SPINS + s2) * 2]!;
+          if (sr === 0 && si === 0) continue;
+          for (let c1 = 0; c1 < COLORS; c1++) {
+            for (let c2 = 0; c2 < COLORS; c2++) {
+              const f = strength[c1][c2];
+              const index = ((s1 * COLORS + c1) * BLOCK + s2 * COLORS + c2) * 2;
+              block[index] += sr * f.re - si * f.im;
+              block[index + 1] += sr * f.im + si * f.re;
+            }
+          }
+        }
+      }
+    }
+    blocks.set(block, site * blockSize);
+    inverses.set(invertBlock(block), site * blockSize);
+  }
+  return { blocks, inverses };
+};
+
+export const createLatticeDiracOperator = (
+  lattice: GaugeLattice,
+  options: LatticeDiracOptions = {},
+): LatticeDiracOperator => {
+  const kind = options.kind ?? 'wilson';
+  const mass = options.mass ?? DEFAULT_MASS;
+  if (!Number.isFinite(mass)) {
+    throw new RangeError(`Dirac mass must be finite (received ${options.mass})`);
+  }
+  if (kind === 'staggered' && mass <= 0) {
+    throw new RangeError(`Staggered mass must be positive (received ${mass})`);
+  }
+  const csw = kind === 'wilson' && Number.isFinite(options.csw) ? (options.csw as number) : 0;
+  const antiperiodic = options.antiperiodic ?? true;
+  const field = buildLinkField(lattice, resolveGaugeAction());
+  const { axisCount } = field;
+  const siteCount = lattice.siteCount;
+  const timeAxis = lattice.axes.includes('t') ? lattice.axes.indexOf('t') : axisCount - 1;
+
+  const parity = new Uint8Array(siteCount);
+  const forwardPhase = new Float64Array(siteCount * axisCount);
+  const backwardPhase = new Float64Array(siteCount * axisCount);
+  const { width, height, depth, temporalExtent } = lattice;
+  const extents: Record<GaugeLinkAxis, number> = {
+    x: width,
+    y: height,
+    z: depth,
+    t: temporalExtent,
+  };
+  let site = 0;
+  for (let t = 0; t < temporalExtent; t++) {
+    for (let z = 0; z < depth; z++) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++, site++) {
+          const coord: Record<GaugeLinkAxis, number> = { x, y, z, t };
+          parity[site] = (x + y + z + t) % 2;
+          lattice.axes.forEach((axis, a) => {
+            let eta = 1;
+            if (kind === 'staggered') {
+              let exponent = 0;
+              for (const previous of GAUGE_LATTICE_AXES.slice(
+                0,
+                GAUGE_LATTICE_AXES.indexOf(axis),
+              )) {
+                exponent += coord[previous];
+              }
+              eta = exponent % 2 === 0 ? 1 : -1;
+            }
+            const boundary = antiperiodic && a === timeAxis;
+            const forwardWrap = boundary && coord[axis] === extents[axis] - 1 ? -1 : 1;
+            const backwardWrap = boundary && coord[axis] === 0 ? -1 : 1;
+            forwardPhase[site * axisCount + a] = eta * forwardWrap;
+            backwardPhase[site * axisCount + a] = eta * backwardWrap;
+          });
+        }
+      }
+    }
+  }
+
+  const operator: LatticeDiracOperator = {
+    kind,
+    lattice,
+    mass,
+    csw,
+    antiperiodic,
+    timeAxis,
+    siteFloats: kind === 'wilson' ? BLOCK * 2 : COLORS * 2,
+    field,
+    parity,
+    forwardPhase,
+    backwardPhase,
+    gammas: lattice.axes.map((axis) => GAMMA_MATRICES[axis]),
+    clover: null,
+  };
+  if (csw !== 0) {
+    operator.clover = buildCloverBlocks(operator);
+  }
+  return operator;
+};
+
+export const createLatticeDiracVector = (operator: LatticeDiracOperator): Float64Array =>
+  new Float64Array(siteCountOf(operator) * operator.siteFloats);
+
+const assertVector = (operator: LatticeDiracOperator, vector: Float64Array) => {
+  const expected = siteCountOf(operator) * operator.siteFloats;
+  if (vector.length !== expected) {
+    throw new RangeError(
+      `Dirac vector length mismatch (expected ${expected}, received ${vector.length})`,
+    );
+  }
+};
+
+/**
+ * output = H input on sites of `targetParity` (all sites when null), where D = A + H splits
+ * into the site-local term A and the nearest-neighbour hopping H. Other sites are zeroed.
+ */
+const applyHopping = (
+  operator: LatticeDiracOperator,
+  input: Float64Array,
+  output: Float64Array,
+  targetParity: number | null,
+) => {
+  const { field, siteFloats, forwardPhase, backwardPhase, parity, gammas, kind } = operator;
+  const { axisCount, forward, backward } = field;
+  const siteCount = siteCountOf(operator);
+  const chi = new Float64Array(BLOCK * 2);
+  output.fill(0);
+  for (let site = 0; site < siteCount; site++) {
+    if (targetParity !== null && parity[site] !== targetParity) continue;
+    const base = site * siteFloats;
+    for (let mu = 0; mu < axisCount; mu++) {
+      const slot = site * axisCount + mu;
+      const up = forward[slot]!;
+      const down = backward[slot]!;
+      const upLink = field.links[slot]!;
+      const downLink = field.links[down * axisCount + mu]!;
+      if (kind === 'staggered') {
+        accumulateColor(
+          upLink,
+          false,
+          input,
+          up * siteFloats,
+          output,
+          base,
+          0.5 * forwardPhase[slot]!,
+        );
+        accumulateColor(
+          downLink,
+          true,
+          input,
+          down * siteFloats,
+          output,
+          base,
+          -0.5 * backwardPhase[slot]!,
+        );
+        continue;
+      }
+      chi.fill(0);
+      for (let spin = 0; spin < SPINS; spin++) {
+        accumulateColor(
+          upLink,
+          false,
+          input,
+          up * siteFloats + spin * COLORS * 2,
+          chi,
+          spin * COLORS * 2,
+          1,
+        );
+      }
+      accumulateProjected(gammas[mu]!, -1, chi, output, base, -0.5 * forwardPhase[slot]!);
+      chi.fill(0);
+      for (let spin = 0; spin < SPINS; spin++) {
+        accumulateColor(
+          downLink,
+          true,
+          input,
+          down * siteFloats + spin * COLORS * 2,
+          chi,
+          spin * COLORS * 2,
+          1,
+        );
+      }
+      accumulateProjected(gammas[mu]!, 1, chi, output, base, -0.5 * backwardPhase[slot]!);
+    }
+  }
+};
+
+/** output = A input (or A⁻¹ input) on sites of `targetParity`; other sites are zeroed. */
+const applyLocal = (
+  operator: LatticeDiracOperator,
+  input: Float64Array,
+  output: Float64Array,
+  targetParity: number | null,
+  inverse: boolean,
+) => {
+  const { siteFloats, parity, clover, kind, mass, field } = operator;
+  const siteCount = siteCountOf(operator);
+  const diagonal = kind === 'wilson' ? mass + field.axisCount : mass;
+  const blockSize = BLOCK * BLOCK * 2;
+  for (let site = 0; site < siteCount; site++) {
+    const base = site * siteFloats;
+    if (targetParity !== null && parity[site] !== targetParity) {
+      output.fill(0, base, base + siteFloats);
+      continue;
+    }
+    if (clover) {
+      applyBlock(
+        inverse ? clover.inverses : clover.blocks,
+        site * blockSize,
+        input,
+        base,
+        output,
+        base,
+      );
+      continue;
+    }
+    const scale = inverse ? 1 / diagonal : diagonal;
+    for (let i = 0; i < siteFloats; i++) {
+      output[base + i] = input[base + i]! * scale;
+    }
+  }
+};
+
+/** Γ = γ5 per site (Wilson) or ε(x) (staggered); Γ² = 1 and D† = Γ D Γ. */
+export const applyGamma5 = (
+  operator: LatticeDiracOperator,
+  input: Float64Array,
+  output: Float64Array,
+): void => {
+  assertVector(operator, input);
+  assertVector(operator, output);
+  const { siteFloats, parity, kind } = operator;
+  const siteCount = siteCountOf(operator);
+  for (let site = 0; site < siteCount; site++) {
+    const base = site * siteFloats;
+    for (let i = 0; i < siteFloats; i++) {
+      // DeGrand–Rossi γ5 = diag(1, 1, −1, −1): spins 2 and 3 flip sign.
+      const sign =
+        kind === 'staggered' ? (parity[site] === 0 ? 1 : -1) : i >= 2 * COLORS * 2 ? -1 : 1;
+      output[base + i] = sign * input[base + i]!;
+    }
+  }
+};
+
+export const applyLatticeDirac = (
+  operator: LatticeDiracOperator,
+  input: Float64Array,
+  output: Float64Array,
+): void => {
+  assertVector(operator, input);
+  assertVector(operator, output);
+  const local = new Float64Array(output.length);
+  applyLocal(operator, input, local, null, false);
+  applyHopping(operator, input, output, null);
+  for (let i = 0; i < output.length; i++) {
+    output[i] += local[i]!;
+  }
+};
+
+export const applyLatticeDiracDagger = (
+  operator: LatticeDiracOperator,
+  input: Float64Array,
+  output: Float64Array,
+): void => {
+  const rotated = new Float64Array(input.length);
+  applyGamma5(operator, input, rotated);
+  const applied = new Float64Array(input.length);
+  applyLatticeDirac(operator, rotated, applied);
+  applyGamma5(operator, applied, output);
+};
+
+type LinearOperator = {
+  apply: (input: Float64Array, output: Float64Array) => void;
+  applyDagger: (input: Float64Array, output: Float64Array) => void;
+  /** Hermitian positive definite: CG runs on the operator itself instead of A†A. */
+  hermitian: boolean;
+};
+
+const dot = (lhs: Float64Array, rhs: Float64Array): [number, number] => {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < lhs.length; i += 2) {
+    re += lhs[i]! * rhs[i]! + lhs[i + 1]! * rhs[i + 1]!;
+    im += lhs[i]! * rhs[i + 1]! - lhs[i + 1]! * rhs[i]!;
+  }
+  return [re, im];
+};
+
+const norm = (vector: Float64Array): number => Math.sqrt(Math.max(dot(vector, vector)[0], 0));
+
+/** target += (re + i·im) · vector. */
+const caxpy = (target: Float64Array, vector: Float64Array, re: number, im: number) => {
+  for (let i = 0; i < target.length; i += 2) {
+    const vr = vector[i]!;
+    const vi = vector[i + 1]!;
+    target[i] += re * vr - im * vi;
+    target[i + 1] += re * vi + im * vr;
+  }
+};
+
+const cdiv = ([ar, ai]: [number, number], [br, bi]: [number, number]): [number, number] => {
+  const denominator = br * br + bi * bi;
+  return [(ar * br + ai * bi) / denominator, (ai * br - ar * bi) / denominator];
+};
+
+const cmul = ([ar, ai]: [number, number], [br, bi]: [number, number]): [number, number] => [
+  ar * br - ai * bi,
+  ar * bi + ai * br,
+];
+
+/**
+ * CG, on the normal equations (CGLS) unless the operator is Hermitian positive definite; the
+ * reported residual is ‖b − A x‖ either way.
+ */
+const solveCgne = (
+  operator: LinearOperator,
+  source: Float64Array,
+  tolerance: number,
+  maxIterations: number,
+  initialGuess?: Float64Array,
+): DiracStubSolution => {
+  const size = source.length;
+  const solution = initialGuess ? Float64Array.from(initialGuess) : new Float64Array(size);
+  const residual = new Float64Array(size);
+  operator.apply(solution, residual);
+  for (let i = 0; i < size; i++) residual[i] = source[i]! - residual[i]!;
+  let residualNorm = norm(residual);
+  if (residualNorm <= tolerance) {
+    return { solution, iterations: 0, residual: residualNorm, converged: true };
+  }
+  const normal = new Float64Array(size);
+  const project = (input: Float64Array, output: Float64Array) =>
+    operator.hermitian ? output.set(input) : operator.applyDagger(input, output);
+  project(residual, normal);
+  const direction = Float64Array.from(normal);
+  const image = new Float64Array(size);
+  let normalSq = dot(normal, normal)[0];
+  let iterations = 0;
+  let converged = false;
+  while (iterations < maxIterations) {
+    operator.apply(direction, image);
+    const curvature = operator.hermitian ? dot(direction, image)[0] : dot(image, image)[0];
+    if (curvature <= EPSILON) break;
+    const alpha = normalSq / curvature;
+    caxpy(solution, direction, alpha, 0);
+    caxpy(residual, image, -alpha, 0);
+    residualNorm = norm(residual);
+    iterations += 1;
+    if (residualNorm <= tolerance) {
+      converged = true;
+      break;
+    }
+    project(residual, normal);
+    const nextNormalSq = dot(normal, normal)[0];
+    const beta = nextNormalSq / normalSq;
+    for (let i = 0; i < size; i++) {
+      direction[i] = normal[i]! + beta * direction[i]!;
+    }
+    normalSq = nextNormalSq;
+  }
+  return { solution, iterations, residual: residualNorm, converged };
+};
+
+const solveBiCgStab = (
+  operator: LinearOperator,
+  source: Float64Array,
+  tolerance: number,
+  maxIterations: number,
+  initialGuess?: Float64Array,
+): DiracStubSolution => {
+  const size = source.length;
+  const solution = initialGuess ? Float64Array.from(initialGuess) : new Float64Array(size);
+  const residual = new Float64Array(size);
+  operator.apply(solution, residual);
+  for (let i = 0; i < size; i++) residual[i] = source[i]! - residual[i]!;
+  let residualNorm = norm(residual);
+  if (residualNorm <= tolerance) {
+    return { solution, iterations: 0, residual: residualNorm, converged: true };
+  }
+  const shadow = Float64Array.from(residual);
+  const direction = new Float64Array(size);
+  const image = new Float64Array(size);
+  const intermediate = new Float64Array(size);
+  const intermediateImage = new Float64Array(size);
+  let rho: [number, number] = [1, 0];
+  let alpha: [number, number] = [1, 0];
+  let omega: [number, number] = [1, 0];
+  let iterations = 0;
+  let converged = false;
+  while (iterations < maxIterations) {
+    const nextRho = dot(shadow, residual);
+    if (Math.hypot(nextRho[0], nextRho[1]) <= EPSILON) break;
+    const beta = cmul(cdiv(nextRho, rho), cdiv(alpha, omega));
+    rho = nextRho;
+    // p = r + β (p − ω v)
+    caxpy(direction, image, -omega[0], -omega[1]);
+    for (let i = 0; i < size; i += 2) {
+      const pr = direction[i]!;
+      const pi = direction[i + 1]!;
+      direction[i] = residual[i]! + beta[0] * pr - beta[1] * pi;
+      direction[i + 1] = residual[i + 1]! + beta[0] * pi + beta[1] * pr;
+    }
+    operator.apply(direction, image);
+    const projection = dot(shadow, image);
+    if (Math.hypot(projection[0], projection[1]) <= EPSILON) break;
+    alpha = cdiv(rho, projection);
+    intermediate.set(residual);
+    caxpy(intermediate, image, -alpha[0], -alpha[1]);
+    iterations += 1;
+    if (norm(intermediate) <= tolerance) {
+      caxpy(solution, direction, alpha[0], alpha[1]);
+      residual.set(intermediate);
+      residualNorm = norm(residual);
+      converged = true;
+      break;
+    }
+    operator.apply(intermediate, intermediateImage);
+    const imageSq = dot(intermediateImage, intermediateImage)[0];
+    if (imageSq <= EPSILON) break;
+    const overlap = dot(intermediateImage, intermediate);
+    omega = [overlap[0] / imageSq, overlap[1] / imageSq];
+    caxpy(solution, direction, alpha[0], alpha[1]);
+    caxpy(solution, intermediate, omega[0], omega[1]);
+    residual.set(intermediate);
+    caxpy(residual, intermediateImage, -omega[0], -omega[1]);
+    residualNorm = norm(residual);
+    if (residualNorm <= tolerance) {
+      converged = true;
+      break;
+    }
+  }
+  return { solution, iterations, residual: residualNorm, converged };
+};
+
+const fullOperator = (operator: LatticeDiracOperator): LinearOperator => ({
+  apply: (input, output) => applyLatticeDirac(operator, input, output),
+  applyDagger: (input, output) => applyLatticeDiracDagger(operator, input, output),
+  hermitian: false,
+});
+
+/**
+ * Schur complement Ŝ = A_ee − H_eo A_oo⁻¹ H_oe on even sites; Ŝ† = Γ Ŝ Γ. For staggered fermions
+ * Γ is the identity on even sites and Ŝ = m + H_eo† H_oe / m is Hermitian positive definite.
+ */
+const schurOperator = (operator: LatticeDiracOperator): LinearOperator => {
+  const odd = createLatticeDiracVector(operator);
+  const oddScaled = createLatticeDiracVector(operator);
+  const local = createLatticeDiracVector(operator);
+  const apply = (input: Float64Array, output: Float64Array) => {
+    applyHopping(operator, input, odd, 1);
+    applyLocal(operator, odd, oddScaled, 1, true);
+    applyHopping(operator, oddScaled, output, 0);
+    applyLocal(operator, input, local, 0, false);
+    for (let i = 0; i < output.length; i++) {
+      output[i] = local[i]! - output[i]!;
+    }
+  };
+  const rotated = createLatticeDiracVector(operator);
+  const applied = createLatticeDiracVector(operator);
+  return {
+    apply,
+    applyDagger: (input, output) => {
+      applyGamma5(operator, input, rotated);
+      apply(rotated, applied);
+      applyGamma5(operator, applied, output);
+    },
+    hermitian: operator.kind === 'staggered',
+  };
+};
+
+export const solveLatticeDirac = (
+  operator: LatticeDiracOperator,
+  source: Float64Array,
+  options: LatticeDiracSolveOptions = {},
+): DiracStubSolution => {
+  assertVector(operator, source);
+  const tolerance = options.tolerance ?? 1e-8;
+  const maxIterations = Math.max(1, options.maxIterations ?? siteCountOf(operator) * 8);
+  const solve = options.solver === 'bicgstab' ? solveBiCgStab : solveCgne;
+  if (!options.evenOdd) {
+    return solve(fullOperator(operator), source, tolerance, maxIterations, options.initialGuess);
+  }
+  const { lattice } = operator;
+  lattice.axes.forEach((axis) => {
+    const extent = {
+      x: lattice.width,
+      y: lattice.height,
+      z: lattice.depth,
+      t: lattice.temporalExtent,
+    }[axis];
+    if (extent % 2 !== 0) {
+      throw new RangeError(`Even-odd preconditioning needs even extents (${axis} = ${extent})`);
+    }
+  });
+
+  // b̂_e = b_e − H_eo A_oo⁻¹ b_o
+  const oddSource = createLatticeDiracVector(operator);
+  applyLocal(operator, source, oddSource, 1, true);
+  const reduced = createLatticeDiracVector(operator);
+  applyHopping(operator, oddSource, reduced, 0);
+  for (let i = 0; i < reduced.length; i++) {
+    reduced[i] =
+      (operator.parity[Math.floor(i / operator.siteFloats)] === 0 ? source[i]! : 0) - reduced[i]!;
+  }
+  const evenGuess = options.initialGuess ? Float64Array.from(options.initialGuess) : undefined;
+  if (evenGuess) {
+    for (let site = 0; site < operator.parity.length; site++) {
+      if (operator.parity[site] === 1) {
+        evenGuess.fill(0, site * operator.siteFloats, (site + 1) * operator.siteFloats);
+      }
+    }
+  }
+  const even = solve(schurOperator(operator), reduced, tolerance, maxIterations, evenGuess);
+
+  // x_o = A_oo⁻¹ (b_o − H_oe x_e)
+  const hop = createLatticeDiracVector(operator);
+  applyHopping(operator, even.solution, hop, 1);
+  for (let i = 0; i < hop.length; i++) {
+    hop[i] = source[i]! - hop[i]!;
+  }
+  const oddSolution = createLatticeDiracVector(operator);
+  applyLocal(operator, hop, oddSolution, 1, true);
+  const solution = even.solution;
+  for (let site = 0; site < operator.parity.length; site++) {
+    if (operator.parity[site] === 1) {
+      const base = site * operator.siteFloats;
+      solution.set(oddSolution.subarray(base, base + operator.siteFloats), base);
+    }
+  }
+  const check = createLatticeDiracVector(operator);
+  applyLatticeDirac(operator, solution, check);
+  for (let i = 0; i < check.length; i++) {
+    check[i] = source[i]! - check[i]!;
+  }
+  const residual = norm(check);
+  return {
+    solution,
+    iterations: even.iterations,
+    residual,
+    converged: even.converged && residual <= tolerance * 10,
+  };
+};
+
+/** Compares ⟨u, D v⟩ with ⟨Γ D Γ u, v⟩ for random u, v drawn from `rng`. */
+export const checkGamma5Hermiticity = (
+  operator: LatticeDiracOperator,
+  rng: () => number,
+): DiracHermiticityCheck => {
+  const random = () => {
+    const vector = createLatticeDiracVector(operator);
+    for (let i = 0; i < vector.length; i++) vector[i] = rng() * 2 - 1;
+    return vector;
+  };
+  const u = random();
+  const v = random();
+  const dv = createLatticeDiracVector(operator);
+  applyLatticeDirac(operator, v, dv);
+  const ddu = createLatticeDiracVector(operator);
+  applyLatticeDiracDagger(operator, u, ddu);
+  const lhs = dot(u, dv);
+  const rhs = dot(ddu, v);
+  return {
+    relativeError: Math.hypot(lhs[0] - rhs[0], lhs[1] - rhs[1]) / (Math.hypot(...lhs) + 1e-30),
+  };
+};
+
+const siteIndexOf = (
+  lattice: GaugeLattice,
+  coord: { x: number; y: number; z: number; t: number },
+) => ((coord.t * lattice.depth + coord.z) * lattice.height + coord.y) * lattice.width + coord.x;
+
+/** Solves D S = δ_{x,origin} for every spin–colour (or colour) component of the source. */
+export const computePointPropagator = (
+  operator: LatticeDiracOperator,
+  origin: { x: number; y: number; z: number; t: number },
+  options: LatticeDiracSolveOptions = {},
+): PointSourcePropagator => {
+  const originSite = siteIndexOf(operator.lattice, origin);
+  const components = operator.siteFloats / 2;
+  const columns: Float64Array[] = [];
+  let iterations = 0;
+  let converged = true;
+  let maxResidual = 0;
+  for (let component = 0; component < components; component++) {
+    const source = createLatticeDiracVector(operator);
+    source[originSite * operator.siteFloats + component * 2] = 1;
+    const result = solveLatticeDirac(operator, source, options);
+    columns.push(result.solution);
+    iterations += result.iterations;
+    converged &&= result.converged;
+    maxResidual = Math.max(maxResidual, result.residual);
+  }
+  return { origin: { ...origin }, columns, iterations, converged, maxResidual };
+};
+
+/** Temporal coordinate of every site along the operator's time axis. */
+export const siteTimes = (operator: LatticeDiracOperator): Int32Array => {
+  const { lattice, timeAxis } = operator;
+  const axis = lattice.axes[timeAxis]!;
+  const times = new Int32Array(lattice.siteCount);
+  let site = 0;
+  for (let t = 0; t < lattice.temporalExtent; t++) {
+    for (let z = 0; z < lattice.depth; z++) {
+      for (let y = 0; y < lattice.height; y++) {
+        for (let x = 0; x < lattice.width; x++, site++) {
+          times[site] = { x, y, z, t }[axis];
+        }
+      }
+    }
+  }
+  return times;
+};
+
+/** Local meson interpolators: pseudoscalar ψ̄γ5ψ and the vector ψ̄γᵢψ averaged over spatial i. */
+export type MesonChannel = 'pion' | 'rho';
+
+export const MESON_CHANNELS: readonly MesonChannel[] = ['pion', 'rho'];
+
+const latticeExtent = (lattice: GaugeLattice, axis: GaugeLinkAxis) =>
+  ({ x: lattice.width, y: lattice.height, z: lattice.depth, t: lattice.temporalExtent })[axis];
+
+/** Σ_x Tr[Γ S Γγ5 S† γ5] on one site, with S the 12 × 12 spin–colour block at `base`. */
+const wilsonMesonTrace = (
+  columns: readonly Float64Array[],
+  base: number,
+  gamma: SpinMatrix,
+  gammaGamma5: SpinMatrix,
+): number => {
+  const entry = (row: number, col: number, part: 0 | 1) => columns[col]![base + row * 2 + part]!;
+  let sum = 0;
+  for (let s1 = 0; s1 < SPINS; s1++) {
+    const g5 = s1 < 2 ? 1 : -1;
+    for (let s4 = 0; s4 < SPINS; s4++) {
+      for (let c1 = 0; c1 < COLORS; c1++) {
+        for (let c2 = 0; c2 < COLORS; c2++) {
+          // X = Γ S (Γγ5) at row (s1, c1), column (s4, c2).
+          let xr = 0;
+          let xi = 0;
+          for (let s2 = 0; s2 < SPINS; s2++) {
+            const gr = gamma[(s1 * SPINS + s2) * 2]!;
+            const gi = gamma[(s1 * SPINS + s2) * 2 + 1]!;
+            if (gr === 0 && gi === 0) continue;
+            for (let s3 = 0; s3 < SPINS; s3++) {
+              const hr = gammaGamma5[(s3 * SPINS + s4) * 2]!;
+              const hi = gammaGamma5[(s3 * SPINS + s4) * 2 + 1]!;
+              if (hr === 0 && hi === 0) continue;
+              const row = s2 * COLORS + c1;
+              const col = s3 * COLORS + c2;
+              const sr = entry(row, col, 0);
+              const si = entry(row, col, 1);
+              const ar = gr * sr - gi * si;
+              const ai = gr * si + gi * sr;
+              xr += ar * hr - ai * hi;
+              xi += ar * hi + ai * hr;
+            }
+          }
+          const row = s1 * COLORS + c1;
+          const col = s4 * COLORS + c2;
+          // Re(X · conj(S)) γ5
+          sum += g5 * (xr * entry(row, col, 0) + xi * entry(row, col, 1));
+        }
+      }
+    }
+  }
+  return sum;
+};
+
+/**
+ * Zero-momentum meson correlator C(t) relative to the source time slice. Wilson fermions use
+ * C_Γ(t) = Σ_x Tr[Γ S(x,0) Γ γ5 S(x,0)† γ5] (Γ̄ = −Γ for γ5 and spatial γᵢ); staggered fermions use
+ * the local spin-taste phases, 1 for the Goldstone pion and (−1)^{xᵢ} for the vector. The pion is
+ * Σ |S|² in both cases.
+ */
+export const computeMesonCorrelator = (
+  operator: LatticeDiracOperator,
+  propagator: PointSourcePropagator,
+  channel: MesonChannel,
+): Float64Array => {
+  const { lattice, siteFloats, timeAxis } = operator;
+  const times = siteTimes(operator);
+  const axis = lattice.axes[timeAxis]!;
+  const extent = latticeExtent(lattice, axis);
+  const spatial = lattice.axes.filter((_, index) => index !== timeAxis);
+  const sourceTime = propagator.origin[axis];
+  const correlator = new Float64Array(extent);
+  const vectors = spatial.map((direction) => ({
+    direction,
+    gamma: GAMMA_MATRICES[direction],
+    gammaGamma5: spinProduct(GAMMA_MATRICES[direction], GAMMA_5),
+  }));
+  let site = 0;
+  for (let t = 0; t < lattice.temporalExtent; t++) {
+    for (let z = 0; z < lattice.depth; z++) {
+      for (let y = 0; y < lattice.height; y++) {
+        for (let x = 0; x < lattice.width; x++, site++) {
+          const slice = (times[site]! - sourceTime + extent) % extent;
+          const base = site * siteFloats;
+          let norm = 0;
+          for (const column of propagator.columns) {
+            for (let i = 0; i < siteFloats; i++) {
+              norm += column[base + i]! * column[base + i]!;
+            }
+          }
+          if (channel === 'pion') {
+            correlator[slice] += norm;
+            continue;
+          }
+          const coord = { x, y, z, t };
+          let sum = 0;
+          for (const vector of vectors) {
+            sum +=
+              operator.kind === 'staggered'
+                ? (coord[vector.direction] % 2 === 0 ? 1 : -1) * norm
+                : wilsonMesonTrace(propagator.columns, base, vector.gamma, vector.gammaGamma5);
+          }
+          correlator[slice] += sum / vectors.length;
+        }
+      }
+    }
+  }
+  return correlator;
+};
+
+/** C_π(t) = Σ_x Tr[S(x,0)† S(x,0)], which Γ-hermiticity makes the pseudoscalar correlator. */
+export const computePionCorrelator = (
+  operator: LatticeDiracOperator,
+  propagator: PointSourcePropagator,
+): Float64Array => computeMesonCorrelator(operator, propagator, 'pion');
+
+/**
+ * Colour content of the propagator on the source's (x, y) slice: component a carries
+ * √(Σ_{spin, source} |S_a(x)|²), ready for the probe-transport colour mapping.
+ */
+export const buildPropagatorProbePoints = (
+  operator: LatticeDiracOperator,
+  propagator: PointSourcePropagator,
+): ProbeTransportPoint[] => {
+  const { lattice, siteFloats } = operator;
+  const { z, t } = propagator.origin;
+  const spins = siteFloats / (COLORS * 2);
+  const points: ProbeTransportPoint[] = [];
+  for (let y = 0; y < lattice.height; y++) {
+    for (let x = 0; x < lattice.width; x++) {
+      const base = siteIndexOf(lattice, { x, y, z, t }) * siteFloats;
+      const weights = [0, 0, 0];
+      for (const column of propagator.columns) {
+        for (let spin = 0; spin < spins; spin++) {
+          for (let color = 0; color < COLORS; color++) {
+            const offset = base + (spin * COLORS + color) * 2;
+            weights[color] += column[offset]! ** 2 + column[offset + 1]! ** 2;
+          }
+        }
+      }
+      points.push({
+        coord: { x, y, z, t },
+        vector: [
+          { re: Math.sqrt(weights[0]!), im: 0 },
+          { re: Math.sqrt(weights[1]!), im: 0 },
+          { re: Math.sqrt(weights[2]!), im: 0 },
+        ],
+      });
+    }
+  }
+  return points;
+};
@@ -0,0 +1,214 @@
+/**
+ * Rectangle-improved gauge actions:
+ *
+ *   S = β Σₓ [ c0 Σ_{μ<ν} (1 − Re Tr Pμν / 3) + c1 Σ_{μ≠ν} (1 − Re Tr Rμν / 3) ],  c0 = 1 − 8 c1,
+ *
+ * where Rμν is the 2×1 rectangle with its long side along μ. Staples are described as link paths
+ * from x to x + μ̂ so the heat-bath, over-relaxation and HMC code can share them. Rectangles
+ * assume every active extent is at least 3; shorter periodic extents fold loops onto themselves.
+ */
+
+import { GaugeLattice, type GaugeLinkAxis } from './lattice.js';
+import { measureWilsonRectangle } from './observables.js';
+import { su3_conjugateTranspose, su3_mul, type Complex3x3 } from './su3.js';
+
+export const GAUGE_ACTIONS = ['wilson', 'symanzik', 'iwasaki', 'dbw2'] as const;
+export type GaugeActionKind = (typeof GAUGE_ACTIONS)[number];
+
+/** Rectangle coefficients: tree-level Symanzik, Iwasaki and DBW2 (QCDSF/Takaishi values). */
+export const GAUGE_ACTION_C1: Readonly<Record<GaugeActionKind, number>> = {
+  wilson: 0,
+  symanzik: -1 / 12,
+  iwasaki: -0.331,
+  dbw2: -1.4088,
+};
+
+export type GaugeActionConfig = {
+  kind: GaugeActionKind;
+  /** Overrides the preset rectangle coefficient; ignored for `wilson`. */
+  c1?: number;
+};
+
+export type GaugeAction = {
+  kind: GaugeActionKind;
+  c0: number;
+  c1: number;
+};
+
+/** One hop along `axis` (an index into `lattice.axes`), forwards or backwards. */
+export type GaugePathStep = readonly [axis: number, direction: 1 | -1];
+
+export type GaugeActionDensity = {
+  action: GaugeAction;
+  plaquette: number;
+  /** Mean 2×1 rectangle over every plane and orientation; 1 without a second axis. */
+  rectangle: number;
+  /** Action per site in units of β, so S = β · siteCount · density. */
+  density: number;
+};
+
+type LatticeCoord = { x: number; y: number; z: number; t: number };
+
+export const resolveGaugeAction = (config?: GaugeActionConfig | null): GaugeAction => {
+  const kind = config && GAUGE_ACTIONS.includes(config.kind) ? config.kind : 'wilson';
+  const c1 =
+    kind !== 'wilson' && Number.isFinite(config?.c1)
+      ? (config!.c1 as number)
+      : GAUGE_ACTION_C1[kind];
+  return { kind, c0: 1 - 8 * c1, c1 };
+};
+
+export const isImprovedGaugeAction = (action: GaugeAction): boolean => action.c1 !== 0;
+
+/**
+ * Weight of the combined staple on a cold configuration, 2(d − 1)(c0 + 3 c1): the improved
+ * counterpart of the 2(d − 1) plaquette staples the heat-bath normalises by.
+ */
+export const gaugeActionStapleMultiplicity = (action: GaugeAction, axisCount: number): number =>
+  Math.max(1, (axisCount - 1) * 2 * (action.c0 + 3 * action.c1));
+
+export const plaquetteStaplePaths = (mu: number, axisCount: number): GaugePathStep[][] => {
+  const paths: GaugePathStep[][] = [];
+  for (let nu = 0; nu < axisCount; nu++) {
+    if (nu === mu) continue;
+    for (const s of [1, -1] as const) {
+      paths.push([
+        [nu, s],
+        [mu, 1],
+        [nu, -s as 1 | -1],
+      ]);
+    }
+  }
+  return paths;
+};
+
+/** The six 2×1 rectangles through link μ per orthogonal axis: four along μ, two along ν. */
+export const rectangleStaplePaths = (mu: number, axisCount: number): GaugePathStep[][] => {
+  const paths: GaugePathStep[][] = [];
+  for (let nu = 0; nu < axisCount; nu++) {
+    if (nu === mu) continue;
+    for (const s of [1, -1] as const) {
+      const back = -s as 1 | -1;
+      paths.push(
+        [
+          [nu, s],
+          [mu, 1],
+          [mu, 1],
+          [nu, back],
+          [mu, -1],
+        ],
+        [
+          [mu, -1],
+          [nu, s],
+          [mu, 1],
+          [mu, 1],
+          [nu, back],
+        ],
+        [
+          [nu, s],
+          [nu, s],
+          [mu, 1],
+          [nu, back],
+          [nu, back],
+        ],
+      );
+    }
+  }
+  return paths;
+};
+
+const addScaled = (target: Complex3x3, term: Complex3x3, weight: number) => {
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      target[row][col].re += term[row][col].re * weight;
+      target[row][col].im += term[row][col].im * weight;
+    }
+  }
+};
+
+const zeroMatrix = (): Complex3x3 =>
+  [0, 1, 2].map(() => [0, 1, 2].map(() => ({ re: 0, im: 0 }))) as Complex3x3;
+
+/** Ordered link product along `path` starting at `origin`. */
+export const gaugePathProduct = (
+  lattice: GaugeLattice,
+  origin: LatticeCoord,
+  path: readonly GaugePathStep[],
+): Complex3x3 => {
+  let cursor = origin;
+  let matrix: Complex3x3 | null = null;
+  for (const [axisIndex, direction] of path) {
+    const axis = lattice.axes[axisIndex]!;
+    let link: Complex3x3;
+    if (direction === 1) {
+      link = lattice.getLinkMatrix(cursor.x, cursor.y, axis, cursor.z, cursor.t);
+      cursor = lattice.shiftCoordinate(cursor, axis, 1);
+    } else {
+      cursor = lattice.shiftCoordinate(cursor, axis, -1);
+      link = su3_conjugateTranspose(
+        lattice.getLinkMatrix(cursor.x, cursor.y, axis, cursor.z, cursor.t),
+      );
+    }
+    matrix = matrix ? su3_mul(matrix, link) : link;
+  }
+  return matrix ?? zeroMatrix();
+};
+
+/** Σ of the rectangle staples around link (coord, axis), unweighted. */
+export const computeRectangleStaple = (
+  lattice: GaugeLattice,
+  coord: LatticeCoord,
+  axis: GaugeLinkAxis,
+): Complex3x3 => {
+  const staple = zeroMatrix();
+  const mu = lattice.axes.indexOf(axis);
+  for (const path of rectangleStaplePaths(mu, lattice.axes.length)) {
+    addScaled(staple, gaugePathProduct(lattice, coord, path), 1);
+  }
+  return staple;
+};
+
+/** c0 · plaquette staple + c1 · rectangle staple, so the local action is −β/3 Re Tr(U A†). */
+export const combineGaugeActionStaple = (
+  action: GaugeAction,
+  plaquetteStaple: Complex3x3,
+  rectangleStaple: Complex3x3,
+): Complex3x3 => {
+  const staple = zeroMatrix();
+  addScaled(staple, plaquetteStaple, action.c0);
+  addScaled(staple, rectangleStaple, action.c1);
+  return staple;
+};
+
+export const computeGaugeActionDensity = (
+  lattice: GaugeLattice,
+  config?: GaugeActionConfig | GaugeAction | null,
+): GaugeActionDensity => {
+  const action = config && 'c0' in config ? config : resolveGaugeAction(config);
+  const axes = lattice.axes;
+  let plaquetteSum = 0;
+  let plaquetteCount = 0;
+  let rectangleSum = 0;
+  let rectangleCount = 0;
+  for (let i = 0; i < axes.length; i++) {
+    for (let j = i + 1; j < axes.length; j++) {
+      const pair: [GaugeLinkAxis, GaugeLinkAxis] = [axes[i]!, axes[j]!];
+      plaquetteSum += measureWilsonRectangle(lattice, 1, 1, pair).value;
+      plaquetteCount += 1;
+      if (isImprovedGaugeAction(action)) {
+        rectangleSum += measureWilsonRectangle(lattice, 2, 1, pair).value;
+        rectangleSum += measureWilsonRectangle(lattice, 1, 2, pair).value;
+        rectangleCount += 2;
+      }
+    }
+  }
+  const plaquette = plaquetteCount > 0 ? plaquetteSum / plaquetteCount : 0;
+  const rectangle = rectangleCount > 0 ? rectangleSum / rectangleCount : 1;
+  return {
+    action,
+    plaquette,
+    rectangle,
+    density:
+      action.c0 * plaquetteCount * (1 - plaquette) + action.c1 * rectangleCount * (1 - rectangle),
+  };
+};
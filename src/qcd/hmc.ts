@@ -0,0 +1,389 @@
+/**
+ * Hybrid Monte Carlo for the Wilson and rectangle-improved gauge actions.
+ *
+ * Links are evolved in Float64 along molecular-dynamics trajectories driven by Gaussian su(3)
+ * momenta, then accepted or rejected with a Metropolis test on ΔH so the update is exact for
+ * any step size. Conventions: P = Σₐ pₐ Tₐ with Tₐ = λₐ/2, K = ½ Σ pₐ², U ← exp(iεP) U, and
+ * S = β Σₚ (1 − Re Tr Uₚ / 3) over the same plaquettes as `computeAveragePlaquette`, plus the
+ * c1-weighted rectangles of `gaugeAction.ts` when an improved action is selected.
+ */
+
+import { GaugeLattice } from './lattice.js';
+import { su3_conjugateTranspose as conjugateTranspose, su3_exp, su3_mul } from './su3.js';
+import { resolveGaugeAction, type GaugeActionConfig } from './gaugeAction.js';
+import {
+  buildLinkField,
+  computeFieldAction,
+  computeFieldStaple,
+  writeLinkField,
+  type LinkField,
+} from './linkField.js';
+import { computeAveragePlaquette, initializeGaugeField, mulberry32Stream } from './updateCpu.js';
+
+export const HMC_INTEGRATORS = ['leapfrog', 'omelyan'] as const;
+export type HmcIntegrator = (typeof HMC_INTEGRATORS)[number];
+
+export type HmcOptions = {
+  beta: number;
+  integrator?: HmcIntegrator;
+  /** Molecular-dynamics steps per trajectory. */
+  steps?: number;
+  /** Trajectory length τ; the step size is τ / steps. */
+  trajectoryLength?: number;
+  /** Integrates back from the end point with flipped momenta and reports the mismatch. */
+  reversibilityCheck?: boolean;
+  gaugeAction?: GaugeActionConfig;
+};
+
+export type HmcReversibility = {
+  /** Largest element-wise deviation of the returned links from the starting links. */
+  maxLinkDeviation: number;
+  /** |H| mismatch after the round trip. */
+  hamiltonianError: number;
+};
+
+export type HmcTrajectoryResult = {
+  accepted: boolean;
+  deltaH: number;
+  initialH: number;
+  finalH: number;
+  acceptProbability: number;
+  forceEvaluations: number;
+  /** Average plaquette after the accept/reject step. */
+  plaquette: number;
+  reversibility?: HmcReversibility;
+};
+
+export type HmcTelemetry = {
+  trajectories: number;
+  accepted: number;
+  acceptanceRate: number;
+  lastDeltaH: number;
+  meanDeltaH: number;
+  /** Creutz equality: ⟨exp(−ΔH)⟩ = 1 for a correct, reversible integrator. */
+  meanExpMinusDeltaH: number;
+  maxReversibilityError: number | null;
+};
+
+export type CpuHmcUpdateOptions = Omit<HmcOptions, 'beta' | 'reversibilityCheck'> & {
+  betaSchedule: readonly number[];
+  trajectoriesPerBeta?: number;
+  thermalizationTrajectories?: number;
+  startMode?: 'cold' | 'hot';
+  seed?: number;
+  /** Run the reversibility check every N trajectories (0 disables it). */
+  reversibilityCheckInterval?: number;
+};
+
+export type CpuHmcUpdateResult = {
+  plaquetteHistory: number[];
+  deltaHHistory: number[];
+  totalTrajectories: number;
+  finalBeta: number;
+  telemetry: HmcTelemetry;
+};
+
+const DEFAULT_STEPS = 10;
+const DEFAULT_TRAJECTORY_LENGTH = 1;
+const DEFAULT_TRAJECTORIES_PER_BETA = 4;
+const DEFAULT_THERMALIZATION_TRAJECTORIES = 4;
+/** Omelyan–Mryglod–Folk 2MN parameter minimising the energy-error norm. */
+const OMELYAN_LAMBDA = 0.1931833275037836;
+const ALGEBRA_DIM = 8;
+const INV_SQRT3 = 1 / Math.sqrt(3);
+const EPSILON = 1e-300;
+
+const createGaussian = (rng: () => number): (() => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare != null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u <= EPSILON) {
+      u = rng();
+    }
+    const radius = Math.sqrt(-2 * Math.log(u));
+    const theta = 2 * Math.PI * rng();
+    spare = radius * Math.sin(theta);
+    return radius * Math.cos(theta);
+  };
+};
+
+/**
+ * ṗₐ = −∂S/∂ωₐ = (β/12) Tr(λₐ · i(Ω − Ω†)) with Ω = U A†, written out per Gell-Mann matrix.
+ */
+const accumulateForce = (
+  field: LinkField,
+  beta: number,
+  momenta: Float64Array,
+  stepSize: number,
+) => {
+  const { axisCount } = field;
+  const scale = (beta / 12) * stepSize * -2;
+  for (let index = 0; index < field.links.length; index++) {
+    const site = Math.floor(index / axisCount);
+    const mu = index % axisCount;
+    const omega = su3_mul(
+      field.links[index]!,
+      conjugateTranspose(computeFieldStaple(field, site, mu)),
+    );
+    const offset = index * ALGEBRA_DIM;
+    momenta[offset] += scale * (omega[0][1].im + omega[1][0].im);
+    momenta[offset + 1] += scale * (omega[0][1].re - omega[1][0].re);
+    momenta[offset + 2] += scale * (omega[0][0].im - omega[1][1].im);
+    momenta[offset + 3] += scale * (omega[0][2].im + omega[2][0].im);
+    momenta[offset + 4] += scale * (omega[0][2].re - omega[2][0].re);
+    momenta[offset + 5] += scale * (omega[1][2].im + omega[2][1].im);
+    momenta[offset + 6] += scale * (omega[1][2].re - omega[2][1].re);
+    momenta[offset + 7] +=
+      scale * (omega[0][0].im + omega[1][1].im - 2 * omega[2][2].im) * INV_SQRT3;
+  }
+};
+
+const drift = (field: LinkField, momenta: Float64Array, stepSize: number) => {
+  const coeffs = new Float64Array(ALGEBRA_DIM);
+  for (let index = 0; index < field.links.length; index++) {
+    for (let a = 0; a < ALGEBRA_DIM; a++) {
+      // exp(iεP) with P = Σ pₐ λₐ / 2.
+      coeffs[a] = 0.5 * stepSize * momenta[index * ALGEBRA_DIM + a]!;
+    }
+    field.links[index] = su3_mul(su3_exp(coeffs), field.links[index]!);
+  }
+};
+
+const kineticEnergy = (momenta: Float64Array): number => {
+  let sum = 0;
+  for (let i = 0; i < momenta.length; i++) {
+    sum += momenta[i]! * momenta[i]!;
+  }
+  return 0.5 * sum;
+};
+
+/** Runs one trajectory in place; returns the number of force evaluations. */
+const integrate = (
+  field: LinkField,
+  momenta: Float64Array,
+  beta: number,
+  integrator: HmcIntegrator,
+  steps: number,
+  stepSize: number,
+): number => {
+  if (integrator === 'omelyan') {
+    accumulateForce(field, beta, momenta, OMELYAN_LAMBDA * stepSize);
+    for (let step = 0; step < steps; step++) {
+      drift(field, momenta, stepSize / 2);
+      accumulateForce(field, beta, momenta, (1 - 2 * OMELYAN_LAMBDA) * stepSize);
+      drift(field, momenta, stepSize / 2);
+      const closing = step === steps - 1 ? 1 : 2;
+      accumulateForce(field, beta, momenta, closing * OMELYAN_LAMBDA * stepSize);
+    }
+    return 2 * steps + 1;
+  }
+  accumulateForce(field, beta, momenta, stepSize / 2);
+  for (let step = 0; step < steps; step++) {
+    drift(field, momenta, stepSize);
+    accumulateForce(field, beta, momenta, step === steps - 1 ? stepSize / 2 : stepSize);
+  }
+  return steps + 1;
+};
+
+const resolveSteps = (steps: number | undefined) =>
+  Number.isFinite(steps) ? Math.max(1, Math.floor(steps as number)) : DEFAULT_STEPS;
+
+const resolveTrajectoryLength = (length: number | undefined) =>
+  Number.isFinite(length) && (length as number) > 0
+    ? (length as number)
+    : DEFAULT_TRAJECTORY_LENGTH;
+
+/** Draws eight unit Gaussians per active link (the su(3) coefficients in the Tₐ basis). */
+export const generateHmcMomenta = (lattice: GaugeLattice, rng: () => number): Float64Array => {
+  const gaussian = createGaussian(rng);
+  const momenta = new Float64Array(lattice.siteCount * lattice.axes.length * ALGEBRA_DIM);
+  for (let i = 0; i < momenta.length; i++) {
+    momenta[i] = gaussian();
+  }
+  return momenta;
+};
+
+/** S for `beta` and the given action (plain Wilson by default), evaluated in Float64. */
+export const computeGaugeAction = (
+  lattice: GaugeLattice,
+  beta: number,
+  gaugeActionConfig?: GaugeActionConfig,
+): number =>
+  computeFieldAction(buildLinkField(lattice, resolveGaugeAction(gaugeActionConfig)), beta);
+
+/**
+ * One HMC trajectory: fresh momenta from `rng`, molecular dynamics, then a Metropolis test
+ * drawn from `acceptRng`. Rejected trajectories leave the lattice untouched.
+ */
+export const runHmcTrajectory = (
+  lattice: GaugeLattice,
+  options: HmcOptions,
+  rng: () => number,
+  acceptRng: () => number = rng,
+): HmcTrajectoryResult => {
+  const { beta } = options;
+  if (!Number.isFinite(beta) || beta < 0) {
+    throw new RangeError(`HMC beta must be a non-negative finite number (received ${beta})`);
+  }
+  const integrator = options.integrator ?? 'leapfrog';
+  if (!HMC_INTEGRATORS.includes(integrator)) {
+    throw new RangeError(`Unknown HMC integrator ${String(integrator)}`);
+  }
+  const steps = resolveSteps(options.steps);
+  const stepSize = resolveTrajectoryLength(options.trajectoryLength) / steps;
+
+  const field = buildLinkField(lattice, resolveGaugeAction(options.gaugeAction));
+  const start = options.reversibilityCheck ? field.links.slice() : null;
+  const momenta = generateHmcMomenta(lattice, rng);
+  const initialH = kineticEnergy(momenta) + computeFieldAction(field, beta);
+  const forceEvaluations = integrate(field, momenta, beta, integrator, steps, stepSize);
+  const finalH = kineticEnergy(momenta) + computeFieldAction(field, beta);
+  const deltaH = finalH - initialH;
+
+  let reversibility: HmcReversibility | undefined;
+  if (start) {
+    const reverse: LinkField = { ...field, links: field.links.slice() };
+    const flipped = momenta.map((value) => -value);
+    integrate(reverse, flipped, beta, integrator, steps, stepSize);
+    let maxLinkDeviation = 0;
+    reverse.links.forEach((matrix, index) => {
+      for (let row = 0; row < 3; row++) {
+        for (let col = 0; col < 3; col++) {
+          const original = start[index]![row][col];
+          maxLinkDeviation = Math.max(
+            maxLinkDeviation,
+            Math.abs(matrix[row][col].re - original.re),
+            Math.abs(matrix[row][col].im - original.im),
+          );
+        }
+      }
+    });
+    const returnedH = kineticEnergy(flipped) + computeFieldAction(reverse, beta);
+    reversibility = { maxLinkDeviation, hamiltonianError: Math.abs(returnedH - initialH) };
+  }
+
+  const acceptProbability = Math.min(1, Math.exp(-deltaH));
+  const accepted = acceptRng() < acceptProbability;
+  if (accepted) {
+    writeLinkField(lattice, field);
+  }
+  return {
+    accepted,
+    deltaH,
+    initialH,
+    finalH,
+    acceptProbability,
+    forceEvaluations,
+    plaquette: computeAveragePlaquette(lattice),
+    ...(reversibility ? { reversibility } : {}),
+  };
+};
+
+export const createHmcTelemetry = (): HmcTelemetry => ({
+  trajectories: 0,
+  accepted: 0,
+  acceptanceRate: 0,
+  lastDeltaH: 0,
+  meanDeltaH: 0,
+  meanExpMinusDeltaH: 0,
+  maxReversibilityError: null,
+});
+
+/** Folds a trajectory into running acceptance and ΔH statistics. */
+export const recordHmcTrajectory = (
+  telemetry: HmcTelemetry,
+  result: HmcTrajectoryResult,
+): HmcTelemetry => {
+  const trajectories = telemetry.trajectories + 1;
+  const accepted = telemetry.accepted + (result.accepted ? 1 : 0);
+  const reversibilityError = result.reversibility
+    ? Math.max(result.reversibility.maxLinkDeviation, result.reversibility.hamiltonianError)
+    : null;
+  return {
+    trajectories,
+    accepted,
+    acceptanceRate: accepted / trajectories,
+    lastDeltaH: result.deltaH,
+    meanDeltaH: telemetry.meanDeltaH + (result.deltaH - telemetry.meanDeltaH) / trajectories,
+    meanExpMinusDeltaH:
+      telemetry.meanExpMinusDeltaH +
+      (Math.exp(-result.deltaH) - telemetry.meanExpMinusDeltaH) / trajectories,
+    maxReversibilityError:
+      reversibilityError == null
+        ? telemetry.maxReversibilityError
+        : Math.max(telemetry.maxReversibilityError ?? 0, reversibilityError),
+  };
+};
+
+/**
+ * HMC counterpart of `runWilsonCpuUpdate`. Streams from `mulberry32Stream(seed)` drive the hot
+ * start, the momenta and the Metropolis tests separately, so runs are reproducible per seed.
+ */
+export const runHmcCpuUpdate = (
+  lattice: GaugeLattice,
+  options: CpuHmcUpdateOptions,
+): CpuHmcUpdateResult => {
+  const betaSchedule = Array.isArray(options.betaSchedule) ? options.betaSchedule : [];
+  if (betaSchedule.length === 0) {
+    throw new RangeError('CPU HMC update requires a non-empty beta schedule');
+  }
+  const trajectoriesPerBeta = Number.isFinite(options.trajectoriesPerBeta)
+    ? Math.max(1, Math.floor(options.trajectoriesPerBeta as number))
+    : DEFAULT_TRAJECTORIES_PER_BETA;
+  const thermalizationTrajectories = Number.isFinite(options.thermalizationTrajectories)
+    ? Math.max(0, Math.floor(options.thermalizationTrajectories as number))
+    : DEFAULT_THERMALIZATION_TRAJECTORIES;
+  const checkInterval = Number.isFinite(options.reversibilityCheckInterval)
+    ? Math.max(0, Math.floor(options.reversibilityCheckInterval as number))
+    : 0;
+
+  const seed = Number.isFinite(options.seed) ? Math.trunc(options.seed as number) : 0;
+  const [startRng, momentumRng, acceptRng] = mulberry32Stream(seed);
+  initializeGaugeField(lattice, options.startMode === 'hot' ? 'hot' : 'cold', startRng!);
+
+  let telemetry = createHmcTelemetry();
+  const deltaHHistory: number[] = [];
+  let totalTrajectories = 0;
+  const trajectory = (beta: number) => {
+    totalTrajectories += 1;
+    const result = runHmcTrajectory(
+      lattice,
+      {
+        beta,
+        integrator: options.integrator,
+        steps: options.steps,
+        trajectoryLength: options.trajectoryLength,
+        gaugeAction: options.gaugeAction,
+        reversibilityCheck: checkInterval > 0 && totalTrajectories % checkInterval === 0,
+      },
+      momentumRng!,
+      acceptRng!,
+    );
+    telemetry = recordHmcTrajectory(telemetry, result);
+    deltaHHistory.push(result.deltaH);
+  };
+
+  for (let i = 0; i < thermalizationTrajectories; i++) {
+    trajectory(betaSchedule[0]!);
+  }
+  const plaquetteHistory: number[] = [];
+  for (const beta of betaSchedule) {
+    for (let i = 0; i < trajectoriesPerBeta; i++) {
+      trajectory(beta);
+    }
+    plaquetteHistory.push(computeAveragePlaquette(lattice));
+  }
+
+  return {
+    plaquetteHistory,
+    deltaHHistory,
+    totalTrajectories,
+    finalBeta: betaSchedule[betaSchedule.length - 1] ?? 0,
+    telemetry,
+  };
+};
@@ -0,0 +1,210 @@
+/**
+ * Float64 working copy of a `GaugeLattice` for the integrators (HMC, gradient flow): links are
+ * flattened to `site * axisCount + axis` with periodic neighbour tables, and the staple paths of
+ * the selected gauge action are resolved once per axis.
+ */
+
+import { FLOATS_PER_MATRIX, GaugeLattice } from './lattice.js';
+import {
+  plaquetteStaplePaths,
+  rectangleStaplePaths,
+  type GaugeAction,
+  type GaugePathStep,
+} from './gaugeAction.js';
+import { su3_conjugateTranspose as conjugateTranspose, su3_mul, type Complex3x3 } from './su3.js';
+
+/** Float64 copy of the gauge field with periodic neighbour tables and per-axis staple paths. */
+export type LinkField = {
+  axisCount: number;
+  links: Complex3x3[];
+  forward: Int32Array;
+  backward: Int32Array;
+  action: GaugeAction;
+  staples: { weight: number; path: GaugePathStep[] }[][];
+};
+
+export const traceReal = (matrix: Complex3x3): number =>
+  matrix[0][0].re + matrix[1][1].re + matrix[2][2].re;
+
+export const buildLinkField = (lattice: GaugeLattice, action: GaugeAction): LinkField => {
+  const axisCount = lattice.axes.length;
+  const { width, height, depth, temporalExtent } = lattice;
+  const siteCount = lattice.siteCount;
+  const forward = new Int32Array(siteCount * axisCount);
+  const backward = new Int32Array(siteCount * axisCount);
+  const links: Complex3x3[] = new Array(siteCount * axisCount);
+  const siteIndex = (coord: { x: number; y: number; z: number; t: number }) =>
+    ((coord.t * depth + coord.z) * height + coord.y) * width + coord.x;
+  for (let t = 0; t < temporalExtent; t++) {
+    for (let z = 0; z < depth; z++) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const coord = { x, y, z, t };
+          const site = siteIndex(coord);
+          lattice.axes.forEach((axis, a) => {
+            forward[site * axisCount + a] = siteIndex(lattice.shiftCoordinate(coord, axis, 1));
+            backward[site * axisCount + a] = siteIndex(lattice.shiftCoordinate(coord, axis, -1));
+            links[site * axisCount + a] = lattice.getLinkMatrix(x, y, axis, z, t);
+          });
+        }
+      }
+    }
+  }
+  const staples = lattice.axes.map((_, mu) => [
+    ...plaquetteStaplePaths(mu, axisCount).map((path) => ({ weight: action.c0, path })),
+    ...(action.c1 !== 0
+      ? rectangleStaplePaths(mu, axisCount).map((path) => ({ weight: action.c1, path }))
+      : []),
+  ]);
+  return { axisCount, links, forward, backward, action, staples };
+};
+
+export const writeLinkField = (lattice: GaugeLattice, field: LinkField) => {
+  const { axisCount, links } = field;
+  for (let index = 0; index < links.length; index++) {
+    const site = Math.floor(index / axisCount);
+    const offset = site * lattice.siteStride + (index % axisCount) * FLOATS_PER_MATRIX;
+    const matrix = links[index]!;
+    let cursor = offset;
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        lattice.data[cursor++] = matrix[row][col].re;
+        lattice.data[cursor++] = matrix[row][col].im;
+      }
+    }
+  }
+};
+
+export const fieldLink = (field: LinkField, site: number, axis: number) =>
+  field.links[site * field.axisCount + axis]!;
+
+export const fieldPathProduct = (
+  field: LinkField,
+  site: number,
+  path: readonly GaugePathStep[],
+): Complex3x3 => {
+  const { axisCount, forward, backward } = field;
+  let cursor = site;
+  let matrix: Complex3x3 | null = null;
+  for (const [axis, direction] of path) {
+    let next: Complex3x3;
+    if (direction === 1) {
+      next = fieldLink(field, cursor, axis);
+      cursor = forward[cursor * axisCount + axis]!;
+    } else {
+      cursor = backward[cursor * axisCount + axis]!;
+      next = conjugateTranspose(fieldLink(field, cursor, axis));
+    }
+    matrix = matrix ? su3_mul(matrix, next) : next;
+  }
+  return matrix!;
+};
+
+/** Weighted staple sum around link (site, μ), so its action is −β/3 Re Tr(U A†). */
+export const computeFieldStaple = (field: LinkField, site: number, mu: number): Complex3x3 => {
+  const staple = [0, 1, 2].map(() => [0, 1, 2].map(() => ({ re: 0, im: 0 }))) as Complex3x3;
+  for (const { weight, path } of field.staples[mu]!) {
+    const term = fieldPathProduct(field, site, path);
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        staple[row][col].re += term[row][col].re * weight;
+        staple[row][col].im += term[row][col].im * weight;
+      }
+    }
+  }
+  return staple;
+};
+
+export const computeFieldAction = (field: LinkField, beta: number): number => {
+  const { axisCount, action } = field;
+  const siteCount = field.links.length / axisCount;
+  let plaquettes = 0;
+  let rectangles = 0;
+  for (let site = 0; site < siteCount; site++) {
+    for (let mu = 0; mu < axisCount; mu++) {
+      for (let nu = 0; nu < axisCount; nu++) {
+        if (nu === mu) continue;
+        if (nu > mu) {
+          const plaquette = fieldPathProduct(field, site, [
+            [mu, 1],
+            [nu, 1],
+            [mu, -1],
+            [nu, -1],
+          ]);
+          plaquettes += 1 - traceReal(plaquette) / 3;
+        }
+        if (action.c1 !== 0) {
+          const rectangle = fieldPathProduct(field, site, [
+            [mu, 1],
+            [mu, 1],
+            [nu, 1],
+            [mu, -1],
+            [mu, -1],
+            [nu, -1],
+          ]);
+          rectangles += 1 - traceReal(rectangle) / 3;
+        }
+      }
+    }
+  }
+  return beta * (action.c0 * plaquettes + action.c1 * rectangles);
+};
+
+const cloverLeaves = (mu: number, nu: number): GaugePathStep[][] => [
+  [
+    [mu, 1],
+    [nu, 1],
+    [mu, -1],
+    [nu, -1],
+  ],
+  [
+    [nu, 1],
+    [mu, -1],
+    [nu, -1],
+    [mu, 1],
+  ],
+  [
+    [mu, -1],
+    [nu, -1],
+    [mu, 1],
+    [nu, 1],
+  ],
+  [
+    [nu, -1],
+    [mu, 1],
+    [nu, 1],
+    [mu, -1],
+  ],
+];
+
+/** Anti-Hermitian traceless clover F_μν = [(Q − Q†) − ⅓ Tr(Q − Q†)] / 8. */
+export const cloverFieldStrength = (
+  field: LinkField,
+  site: number,
+  mu: number,
+  nu: number,
+): Complex3x3 => {
+  const clover = [0, 1, 2].map(() => [0, 1, 2].map(() => ({ re: 0, im: 0 }))) as Complex3x3;
+  for (const leaf of cloverLeaves(mu, nu)) {
+    const product = fieldPathProduct(field, site, leaf);
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        clover[row][col].re += product[row][col].re;
+        clover[row][col].im += product[row][col].im;
+      }
+    }
+  }
+  const strength = [0, 1, 2].map(() => [0, 1, 2].map(() => ({ re: 0, im: 0 }))) as Complex3x3;
+  let traceIm = 0;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      strength[row][col].re = (clover[row][col].re - clover[col][row].re) / 8;
+      strength[row][col].im = (clover[row][col].im + clover[col][row].im) / 8;
+    }
+    traceIm += strength[row][row].im;
+  }
+  for (let row = 0; row < 3; row++) {
+    strength[row][row].im -= traceIm / 3;
+  }
+  return strength;
+};
@@ -15,6 +15,8 @@ export type WilsonLoopMeasurement = {
   normalized: Complex;
   magnitude: number;
   value: number;
+  /** 1 − Re Tr W / 3, the per-loop contribution to the gauge action in units of β. */
+  actionDensity: number;
   sampleCount: number;
 };
 
@@ -224,6 +226,7 @@ export const measureWilsonRectangle = (
     normalized,
     magnitude: Math.hypot(normalized.re, normalized.im),
     value: normalized.re,
+    actionDensity: 1 - normalized.re,
     sampleCount: samples,
   };
 };
@@ -432,3 +435,453 @@ export const jackknife = (
     pseudoValues,
   };
 };
+
+export type BootstrapResult = {
+  estimate: number;
+  bootstrapMean: number;
+  error: number;
+  replicas: number[];
+};
+
+export const bootstrap = (
+  samples: readonly number[],
+  estimator: (values: readonly number[]) => number,
+  resamples: number,
+  rng: () => number,
+): BootstrapResult => {
+  if (samples.length < 2) {
+    throw new RangeError('Bootstrap requires at least two samples');
+  }
+  const count = Math.floor(resamples);
+  if (!(count >= 2)) {
+    throw new RangeError(`Bootstrap requires at least two resamples (received ${resamples})`);
+  }
+  const replicas: number[] = [];
+  const draw = new Array<number>(samples.length);
+  for (let replica = 0; replica < count; replica++) {
+    for (let idx = 0; idx < samples.length; idx++) {
+      draw[idx] = samples[Math.floor(rng() * samples.length)]!;
+    }
+    replicas.push(estimator(draw));
+  }
+  const bootstrapMean = replicas.reduce((sum, value) => sum + value, 0) / count;
+  const variance =
+    replicas.reduce((sum, value) => sum + (value - bootstrapMean) ** 2, 0) / (count - 1);
+  return {
+    estimate: estimator(samples),
+    bootstrapMean,
+    error: Math.sqrt(variance),
+    replicas,
+  };
+};
+
+export type EffectiveMassKind = 'log' | 'cosh';
+
+/**
+ * m_eff(t) from C(t)/C(t+1): `log` gives ln(C(t)/C(t+1)), `cosh` solves
+ * C(t)/C(t+1) = cosh(m(T/2 − t)) / cosh(m(T/2 − t − 1)) for a periodic extent T = C.length.
+ * Entries are null where the ratio has no solution (non-positive or non-decaying data).
+ */
+export const computeEffectiveMass = (
+  correlator: readonly number[],
+  kind: EffectiveMassKind = 'log',
+): (number | null)[] => {
+  const extent = correlator.length;
+  const masses: (number | null)[] = [];
+  for (let t = 0; t + 1 < extent; t++) {
+    const current = correlator[t]!;
+    const next = correlator[t + 1]!;
+    if (!(current > 0 && next > 0)) {
+      masses.push(null);
+      continue;
+    }
+    const ratio = current / next;
+    if (kind === 'log') {
+      masses.push(Math.log(ratio));
+      continue;
+    }
+    const distance = extent / 2 - t;
+    // The cosh ratio only decays on the first half of the lattice.
+    if (distance < 1 || ratio <= 1) {
+      masses.push(null);
+      continue;
+    }
+    const model = (mass: number) => Math.cosh(mass * distance) / Math.cosh(mass * (distance - 1));
+    let low = 0;
+    let high = Math.max(Math.log(ratio), 1e-6);
+    while (model(high) < ratio && high < 50) {
+      high *= 2;
+    }
+    if (model(high) < ratio) {
+      masses.push(null);
+      continue;
+    }
+    for (let iteration = 0; iteration < 80; iteration++) {
+      const mid = 0.5 * (low + high);
+      if (model(mid) < ratio) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    masses.push(0.5 * (low + high));
+  }
+  return masses;
+};
+
+/** Averages C(t) with C(T − t); the result covers t = 0 … T/2. */
+export const foldCorrelator = (correlator: readonly number[]): number[] => {
+  const extent = correlator.length;
+  const folded: number[] = [];
+  for (let t = 0; t <= Math.floor(extent / 2); t++) {
+    folded.push(0.5 * (correlator[t]! + correlator[(extent - t) % extent]!));
+  }
+  return folded;
+};
+
+export type CorrelatorFitForm = 'exp' | 'cosh';
+
+export type CorrelatorFitOptions = {
+  tMin: number;
+  tMax: number;
+  form?: CorrelatorFitForm;
+  /** Full covariance of the correlator (all t); only the diagonal is used when omitted. */
+  covariance?: readonly (readonly number[])[];
+  /** Per-t standard errors for an uncorrelated fit; unit weights when neither is given. */
+  errors?: readonly number[];
+  /** Starting guess for the mass; defaults to the log effective mass at tMin. */
+  initialMass?: number;
+};
+
+export type CorrelatorFitResult = {
+  amplitude: number;
+  mass: number;
+  chiSquared: number;
+  degreesOfFreedom: number;
+  iterations: number;
+};
+
+/** Inverse of a small symmetric positive-definite matrix via Cholesky; null when singular. */
+const invertSymmetric = (matrix: readonly (readonly number[])[]): number[][] | null => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i]![j]!;
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i]![k]! * lower[j]![k]!;
+      }
+      if (i === j) {
+        if (!(sum > MIN_POSITIVE * Math.max(1, Math.abs(matrix[i]![i]!)))) {
+          return null;
+        }
+        lower[i]![i] = Math.sqrt(sum);
+      } else {
+        lower[i]![j] = sum / lower[j]![j]!;
+      }
+    }
+  }
+  const inverse = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let column = 0; column < n; column++) {
+    const y = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      let sum = i === column ? 1 : 0;
+      for (let k = 0; k < i; k++) sum -= lower[i]![k]! * y[k]!;
+      y[i] = sum / lower[i]![i]!;
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = y[i]!;
+      for (let k = i + 1; k < n; k++) sum -= lower[k]![i]! * inverse[k]![column]!;
+      inverse[i]![column] = sum / lower[i]![i]!;
+    }
+  }
+  return inverse;
+};
+
+/**
+ * χ² fit of A e^{−mt} (`exp`) or A (e^{−mt} + e^{−m(T−t)}) (`cosh`, T = C.length) over
+ * tMin … tMax with Levenberg–Marquardt; throws when the covariance window is singular.
+ */
+export const fitCorrelator = (
+  correlator: readonly number[],
+  options: CorrelatorFitOptions,
+): CorrelatorFitResult => {
+  const extent = correlator.length;
+  const tMin = Math.floor(options.tMin);
+  const tMax = Math.floor(options.tMax);
+  if (!(tMin >= 0 && tMax < extent && tMax - tMin >= 1)) {
+    throw new RangeError(`Fit window [${options.tMin}, ${options.tMax}] needs two points in C`);
+  }
+  const form = options.form ?? 'exp';
+  const times: number[] = [];
+  for (let t = tMin; t <= tMax; t++) times.push(t);
+  const weight = options.covariance
+    ? invertSymmetric(times.map((a) => times.map((b) => options.covariance![a]![b]!)))
+    : times.map((a, i) =>
+        times.map((_, j) =>
+          i === j ? 1 / Math.max(options.errors?.[a] ?? 1, MIN_POSITIVE) ** 2 : 0,
+        ),
+      );
+  if (!weight) {
+    throw new RangeError('Correlator covariance is singular over the fit window');
+  }
+  const shape = (mass: number, t: number) =>
+    form === 'cosh' ? Math.exp(-mass * t) + Math.exp(-mass * (extent - t)) : Math.exp(-mass * t);
+  const shapeSlope = (mass: number, t: number) =>
+    form === 'cosh'
+      ? -t * Math.exp(-mass * t) - (extent - t) * Math.exp(-mass * (extent - t))
+      : -t * Math.exp(-mass * t);
+  const chiSquared = (amplitude: number, mass: number) => {
+    const residuals = times.map((t) => correlator[t]! - amplitude * shape(mass, t));
+    let sum = 0;
+    residuals.forEach((ri, i) => residuals.forEach((rj, j) => (sum += ri * weight[i]![j]! * rj)));
+    return sum;
+  };
+
+  const first = correlator[tMin]!;
+  const second = correlator[tMin + 1]!;
+  let mass =
+    options.initialMass ??
+    (first > 0 && second > 0 ? Math.max(Math.log(first / second), 0.05) : 0.5);
+  let amplitude = first / shape(mass, tMin);
+  let chi = chiSquared(amplitude, mass);
+  let lambda = 1e-3;
+  let iterations = 0;
+  for (; iterations < 200; iterations++) {
+    // Normal equations Jᵀ W J δ = Jᵀ W r for (A, m).
+    const residuals = times.map((t) => correlator[t]! - amplitude * shape(mass, t));
+    const jacobian = times.map((t) => [shape(mass, t), amplitude * shapeSlope(mass, t)]);
+    let a00 = 0;
+    let a01 = 0;
+    let a11 = 0;
+    let b0 = 0;
+    let b1 = 0;
+    for (let i = 0; i < times.length; i++) {
+      for (let j = 0; j < times.length; j++) {
+        const w = weight[i]![j]!;
+        a00 += jacobian[i]![0]! * w * jacobian[j]![0]!;
+        a01 += jacobian[i]![0]! * w * jacobian[j]![1]!;
+        a11 += jacobian[i]![1]! * w * jacobian[j]![1]!;
+        b0 += jacobian[i]![0]! * w * residuals[j]!;
+        b1 += jacobian[i]![1]! * w * residuals[j]!;
+      }
+    }
+    const d00 = a00 * (1 + lambda);
+    const d11 = a11 * (1 + lambda);
+    const determinant = d00 * d11 - a01 * a01;
+    if (!(Math.abs(determinant) > 0)) break;
+    const stepAmplitude = (b0 * d11 - b1 * a01) / determinant;
+    const stepMass = (d00 * b1 - a01 * b0) / determinant;
+    const nextChi = chiSquared(amplitude + stepAmplitude, mass + stepMass);
+    if (nextChi <= chi) {
+      amplitude += stepAmplitude;
+      mass += stepMass;
+      const converged = chi - nextChi <= 1e-12 * Math.max(1, chi);
+      chi = nextChi;
+      lambda = Math.max(lambda / 10, 1e-12);
+      if (converged) break;
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) break;
+    }
+  }
+  return {
+    amplitude,
+    mass,
+    chiSquared: chi,
+    degreesOfFreedom: times.length - 2,
+    iterations,
+  };
+};
+
+export type CorrelatorResampling = 'jackknife' | 'bootstrap';
+
+export type CorrelatorAnalysisOptions = {
+  effectiveMass?: EffectiveMassKind;
+  fit?: { tMin: number; tMax: number; form?: CorrelatorFitForm };
+  resampling?: CorrelatorResampling;
+  /** Number of bootstrap replicas. */
+  resamples?: number;
+  /** Required for bootstrap resampling. */
+  rng?: () => number;
+  /** Consecutive configurations averaged into one bin before resampling. */
+  binSize?: number;
+};
+
+export type CorrelatorTableRow = {
+  t: number;
+  mean: number;
+  error: number;
+  /** m_eff between t and t + 1; null on the last slice or where it is undefined. */
+  effectiveMass: number | null;
+  effectiveMassError: number | null;
+};
+
+export type CorrelatorFitSummary = {
+  form: CorrelatorFitForm;
+  tMin: number;
+  tMax: number;
+  mass: number;
+  massError: number;
+  amplitude: number;
+  amplitudeError: number;
+  chiSquaredPerDof: number;
+  /** False when too few bins forced an uncorrelated (diagonal) fit. */
+  correlated: boolean;
+};
+
+/** Plain-data result table, safe to serialise with the QCD observables. */
+export type CorrelatorAnalysis = {
+  extent: number;
+  configurations: number;
+  bins: number;
+  resampling: CorrelatorResampling;
+  effectiveMassKind: EffectiveMassKind;
+  rows: CorrelatorTableRow[];
+  fit: CorrelatorFitSummary | null;
+};
+
+const replicaError = (values: readonly number[], resampling: CorrelatorResampling): number => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const spread = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  return resampling === 'jackknife'
+    ? Math.sqrt(((values.length - 1) / values.length) * spread)
+    : Math.sqrt(spread / Math.max(values.length - 1, 1));
+};
+
+const averageCorrelators = (samples: readonly (readonly number[])[]): number[] =>
+  samples[0]!.map((_, t) => samples.reduce((sum, sample) => sum + sample[t]!, 0) / samples.length);
+
+/**
+ * Mean correlator, per-slice errors, effective masses and an optional fit, with errors from
+ * jackknife or bootstrap replicas of the (binned) per-configuration correlators. The fit is
+ * correlated when the window covariance is invertible and reuses the central covariance on
+ * every replica.
+ */
+export const analyzeCorrelator = (
+  samples: readonly (readonly number[])[],
+  options: CorrelatorAnalysisOptions = {},
+): CorrelatorAnalysis => {
+  if (samples.length === 0) {
+    throw new RangeError('Correlator analysis requires at least one sample');
+  }
+  const extent = samples[0]!.length;
+  if (samples.some((sample) => sample.length !== extent)) {
+    throw new RangeError('Correlator samples must share the same extent');
+  }
+  const binSize = Math.max(1, Math.floor(options.binSize ?? 1));
+  const binned =
+    binSize > 1
+      ? Array.from({ length: Math.floor(samples.length / binSize) }, (_, bin) =>
+          averageCorrelators(samples.slice(bin * binSize, (bin + 1) * binSize)),
+        )
+      : samples.map((sample) => [...sample]);
+  if (binned.length < 2) {
+    throw new RangeError('Correlator analysis requires at least two bins');
+  }
+  const resampling = options.resampling ?? 'jackknife';
+  const effectiveMassKind = options.effectiveMass ?? 'log';
+  const count = binned.length;
+  const mean = averageCorrelators(binned);
+
+  let replicas: number[][];
+  if (resampling === 'jackknife') {
+    replicas = binned.map((_, omitted) =>
+      averageCorrelators(binned.filter((__, i) => i !== omitted)),
+    );
+  } else {
+    if (!options.rng) {
+      throw new RangeError('Bootstrap resampling requires an rng');
+    }
+    const rng = options.rng;
+    const resamples = Math.max(2, Math.floor(options.resamples ?? 200));
+    replicas = Array.from({ length: resamples }, () =>
+      averageCorrelators(Array.from({ length: count }, () => binned[Math.floor(rng() * count)]!)),
+    );
+  }
+
+  const errors = mean.map((_, t) =>
+    replicaError(
+      replicas.map((replica) => replica[t]!),
+      resampling,
+    ),
+  );
+  const centralMasses = computeEffectiveMass(mean, effectiveMassKind);
+  const replicaMasses = replicas.map((replica) => computeEffectiveMass(replica, effectiveMassKind));
+  const rows: CorrelatorTableRow[] = mean.map((value, t) => {
+    const effectiveMass = centralMasses[t] ?? null;
+    const spread = replicaMasses.map((masses) => masses[t]);
+    const defined = spread.every((entry) => entry != null);
+    return {
+      t,
+      mean: value,
+      error: errors[t]!,
+      effectiveMass,
+      effectiveMassError:
+        effectiveMass != null && defined ? replicaError(spread as number[], resampling) : null,
+    };
+  });
+
+  let fit: CorrelatorFitSummary | null = null;
+  if (options.fit) {
+    const { tMin, tMax } = options.fit;
+    const form = options.fit.form ?? 'exp';
+    // Covariance of the mean: (N − 1)/N Σ for jackknife replicas, the plain spread for bootstrap.
+    const scale =
+      resampling === 'jackknife' ? (count - 1) / count : 1 / Math.max(replicas.length - 1, 1);
+    const replicaMean = averageCorrelators(replicas);
+    const covariance = mean.map((_, a) =>
+      mean.map(
+        (__, b) =>
+          scale *
+          replicas.reduce(
+            (sum, replica) =>
+              sum + (replica[a]! - replicaMean[a]!) * (replica[b]! - replicaMean[b]!),
+            0,
+          ),
+      ),
+    );
+    let correlated = true;
+    let central: CorrelatorFitResult;
+    const fitWith = (data: readonly number[], initialMass?: number) =>
+      correlated
+        ? fitCorrelator(data, { tMin, tMax, form, covariance, initialMass })
+        : fitCorrelator(data, { tMin, tMax, form, errors, initialMass });
+    try {
+      central = fitWith(mean);
+    } catch (error) {
+      if (!(error instanceof RangeError) || !/singular/.test(error.message)) throw error;
+      correlated = false;
+      central = fitWith(mean);
+    }
+    const replicaFits = replicas.map((replica) => fitWith(replica, central.mass));
+    fit = {
+      form,
+      tMin,
+      tMax,
+      mass: central.mass,
+      massError: replicaError(
+        replicaFits.map((result) => result.mass),
+        resampling,
+      ),
+      amplitude: central.amplitude,
+      amplitudeError: replicaError(
+        replicaFits.map((result) => result.amplitude),
+        resampling,
+      ),
+      chiSquaredPerDof:
+        central.degreesOfFreedom > 0 ? central.chiSquared / central.degreesOfFreedom : 0,
+      correlated,
+    };
+  }
+
+  return {
+    extent,
+    configurations: samples.length,
+    bins: count,
+    resampling,
+    effectiveMassKind,
+    rows,
+    fit,
+  };
+};
@@ -386,3 +386,30 @@ export const buildProbeTransportVisualization = (
   });
   return buildProbeTransportFrameData(lattice, transport);
 };
+
+/**
+ * Frame for a quark propagator: one node per site whose amplitude exceeds `threshold` × the
+ * peak, coloured by its colour content, with the point source first.
+ */
+export const buildPropagatorFrameData = (
+  lattice: GaugeLattice,
+  origin: ProbeLatticeCoord,
+  points: readonly ProbeTransportPoint[],
+  threshold = 1e-3,
+): ProbeTransportFrameData => {
+  const magnitudes = points.map((point) => Math.sqrt(vectorMagnitudeSquared(point.vector)));
+  const peak = Math.max(0, ...magnitudes);
+  const sameCoord = (coord: ProbeLatticeCoord) =>
+    coord.x === origin.x && coord.y === origin.y && coord.z === origin.z && coord.t === origin.t;
+  const visible = points
+    .map((point, index) => ({ point, magnitude: magnitudes[index]! }))
+    .filter(({ point, magnitude }) => sameCoord(point.coord) || magnitude > threshold * peak)
+    .sort((a, b) => Number(sameCoord(b.point.coord)) - Number(sameCoord(a.point.coord)));
+  return {
+    latticeWidth: lattice.width,
+    latticeHeight: lattice.height,
+    nodes: visible.map(({ point }, index) => toNode(point, index)),
+    segments: [],
+    closed: false,
+  };
+};
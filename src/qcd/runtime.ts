@@ -13,21 +13,51 @@ import {
   mulberry32,
   performSweep,
 } from './updateCpu.js';
+import {
+  createHmcTelemetry,
+  recordHmcTrajectory,
+  runHmcTrajectory,
+  type HmcIntegrator,
+  type HmcTelemetry,
+} from './hmc.js';
+import {
+  computeGaugeActionDensity,
+  isImprovedGaugeAction,
+  resolveGaugeAction,
+  type GaugeAction,
+  type GaugeActionConfig,
+} from './gaugeAction.js';
+import { measureTopologicalCharge, runWilsonFlow } from './wilsonFlow.js';
+import {
+  buildPropagatorProbePoints,
+  computeMesonCorrelator,
+  computePointPropagator,
+  createLatticeDiracOperator,
+  MESON_CHANNELS,
+  type DiracSolverKind,
+  type LatticeDiracKind,
+  type MesonChannel,
+} from './dirac.js';
 import { su3_mul } from './su3.js';
 import type { Complex3x3 } from './su3.js';
 import {
   RunningEstimate,
+  analyzeCorrelator,
   computeCreutzRatio,
   measurePolyakovLoop,
   measureWilsonLoopGrid,
   type PolyakovLoopMeasurement,
+  type CorrelatorAnalysis,
+  type CorrelatorResampling,
   type RunningEstimateSnapshot,
   type WilsonLoopMeasurement,
   type WilsonRectangle,
 } from './observables.js';
 import { computeFluxOverlayState, type FluxOverlayFrameData, type FluxSource } from './overlays.js';
 import {
+  buildPropagatorFrameData,
   buildProbeTransportVisualization,
+  deriveProbePathFromSources,
   type ProbeTransportFrameData,
 } from './probeTransport.js';
 import { hashCanonicalJson } from '../serialization/canonicalJson.js';
@@ -35,7 +65,7 @@ import { FLOATS_PER_MATRIX } from './lattice.js';
 
 const EPSILON = 1e-9;
 const SEED_AUDIT_INITIAL_HASH = '0000000000000000000000000000000000000000000000000000000000000000';
-export const QCD_SNAPSHOT_SCHEMA_VERSION = 2 as const;
+export const QCD_SNAPSHOT_SCHEMA_VERSION = 3 as const;
 
 const DEFAULT_WILSON_EXTENTS: readonly WilsonRectangle[] = [
   { extentX: 1, extentY: 1, axes: ['x', 'y'] },
@@ -195,8 +225,81 @@ export type QcdSmearingConfig = {
   iterations: number;
 };
 
+export type QcdUpdateMethod = 'heatbath' | 'hmc';
+
+export type QcdHmcConfig = {
+  integrator: HmcIntegrator;
+  steps: number;
+  trajectoryLength: number;
+};
+
+export type QcdFlowConfig = {
+  stepSize: number;
+  maxFlowTime: number;
+};
+
+/** Field the flux overlay visualises: plaquette energy, or q(x) of the last Wilson-flow run. */
+export type QcdOverlaySource = 'plaquette' | 'topology';
+
+export type QcdFlowSummary = {
+  flowTime: number;
+  t0: number | null;
+  w0: number | null;
+  topologicalCharge: number;
+  history: { flowTime: number; t2E: number; w: number; topologicalCharge: number }[];
+};
+
+export type QcdFermionConfig = {
+  kind: LatticeDiracKind;
+  mass: number;
+  /** Clover coefficient for Wilson fermions; 0 or omitted gives plain Wilson. */
+  csw?: number;
+  solver?: DiracSolverKind;
+  /** Defaults to on when every active extent is even. */
+  evenOdd?: boolean;
+  /** Hadron analysis over the accumulated configurations; cosh fit over [1, T/2] by default. */
+  analysis?: { tMin?: number; tMax?: number; resampling?: CorrelatorResampling };
+};
+
+export type QcdPropagatorSummary = {
+  kind: LatticeDiracKind;
+  solver: DiracSolverKind;
+  evenOdd: boolean;
+  iterations: number;
+  converged: boolean;
+  residual: number;
+  /** C_π(t) relative to the source time slice. */
+  pionCorrelator: number[];
+};
+
+export type QcdHadronChannel = {
+  channel: MesonChannel;
+  /** One correlator per measured configuration. */
+  samples: number[][];
+  /** Null until two configurations have been measured. */
+  analysis: CorrelatorAnalysis | null;
+};
+
+/** Meson correlators accumulated across configurations for a fixed fermion discretisation. */
+export type QcdHadronSpectrum = {
+  kind: LatticeDiracKind;
+  mass: number;
+  csw: number;
+  /** Sweep index of each measured configuration. */
+  sweeps: number[];
+  channels: QcdHadronChannel[];
+};
+
 export type QcdAnnealConfig = {
   beta: number;
+  /** CPU update; HMC runs one trajectory per sweep and always bypasses the GPU heat-bath. */
+  updateMethod?: QcdUpdateMethod;
+  hmc?: QcdHmcConfig;
+  /** Plain Wilson when omitted; rectangle-improved actions always run on the CPU. */
+  gaugeAction?: GaugeActionConfig;
+  flow?: QcdFlowConfig;
+  overlaySource?: QcdOverlaySource;
+  fermion?: QcdFermionConfig;
   overRelaxationSteps: number;
   smearing: QcdSmearingConfig;
   depth: number;
@@ -217,6 +320,12 @@ export type QcdObservables = {
     value: number;
   };
   polyakovSamples?: PolyakovLoopMeasurement[];
+  hmc?: HmcTelemetry;
+  /** Improved-action density per site in units of β; omitted for plain Wilson runs. */
+  actionDensity?: number;
+  flow?: QcdFlowSummary;
+  propagator?: QcdPropagatorSummary;
+  hadrons?: QcdHadronSpectrum;
 };
 
 export type QcdSnapshot = {
@@ -231,6 +340,8 @@ export type QcdSnapshot = {
   sources: FluxSource[];
   observables: QcdObservables;
   polyakovScan?: PolyakovLoopMeasurement[];
+  /** Action that produced the configuration; absent before schema 3, which implies Wilson. */
+  gaugeAction?: GaugeAction;
 };
 
 export type QcdRuntimeState = {
@@ -249,6 +360,9 @@ export type QcdRuntimeState = {
   gpuPlaneScratch: Float32Array | null;
   planeOrder: PlaneDescriptor[];
   gpuPlaneCursor: number;
+  hmcTelemetry: HmcTelemetry | null;
+  /** Smoothed copy from the most recent `runQcdWilsonFlow`; the Markov chain is never flowed. */
+  flowedLattice: GaugeLattice | null;
 };
 
 type PlaneDescriptor = { z: number; t: number };
@@ -460,6 +574,47 @@ const buildEnergyOverlay = (
   };
 };
 
+/** |q(x)| averaged over z and t drives the energy; the sign picks opposite hues via the direction. */
+const buildTopologicalOverlay = (
+  lattice: GaugeLattice,
+  width: number,
+  height: number,
+): FluxOverlayFrameData | null => {
+  const { density } = measureTopologicalCharge(lattice);
+  const planeSize = lattice.width * lattice.height;
+  const signed = new Float32Array(planeSize);
+  for (let site = 0; site < density.length; site++) {
+    signed[site % planeSize] += density[site]! / (lattice.depth * lattice.temporalExtent);
+  }
+  const magnitude = signed.map(Math.abs);
+  const max = magnitude.reduce((best, value) => Math.max(best, value), 0);
+  if (max <= EPSILON) {
+    return null;
+  }
+  const field = (values: Float32Array): EnergyField => ({
+    width: lattice.width,
+    height: lattice.height,
+    values,
+    max,
+  });
+  const energy = upsampleEnergyField(field(magnitude), width, height);
+  const sign = upsampleEnergyField(field(signed), width, height);
+  const direction = new Float32Array(width * height * 2);
+  let maxEnergy = 0;
+  for (let idx = 0; idx < energy.length; idx++) {
+    direction[idx * 2] = sign[idx]! >= 0 ? 1 : -1;
+    maxEnergy = Math.max(maxEnergy, energy[idx]!);
+  }
+  return {
+    width,
+    height,
+    energy,
+    direction,
+    energyScale: maxEnergy > 0 ? 1 / maxEnergy : 0,
+    maxEnergy,
+  };
+};
+
 const createQcdLattice = (shape: {
   width: number;
   height: number;
@@ -592,14 +747,17 @@ export const initializeQcdRuntime = (params: {
     gpuPlaneScratch: null,
     planeOrder,
     gpuPlaneCursor: 0,
+    hmcTelemetry: null,
+    flowedLattice: null,
   };
 };
 
 export const restoreQcdRuntime = (snapshot: QcdSnapshot): QcdRuntimeState => {
   const lattice = restoreGaugeLattice(snapshot.lattice);
+  const action = resolveGaugeAction(snapshot.gaugeAction);
   const runtime: QcdRuntimeState = {
     lattice,
-    config: snapshot.config,
+    config: { ...snapshot.config, gaugeAction: { kind: action.kind, c1: action.c1 } },
     baseSeed: snapshot.baseSeed,
     sweepIndex: snapshot.sweepIndex,
     substepIndex: snapshot.substepIndex,
@@ -613,6 +771,8 @@ export const restoreQcdRuntime = (snapshot: QcdSnapshot): QcdRuntimeState => {
     gpuPlaneScratch: null,
     planeOrder: [],
     gpuPlaneCursor: 0,
+    hmcTelemetry: snapshot.observables.hmc ?? null,
+    flowedLattice: null,
   };
   const planeOrder: PlaneDescriptor[] = [];
   forEachPlane(lattice, (plane) => planeOrder.push(plane));
@@ -655,6 +815,10 @@ const updateObservables = (runtime: QcdRuntimeState) => {
   } catch {
     creutzRatio = undefined;
   }
+  const action = resolveGaugeAction(runtime.config.gaugeAction);
+  const actionDensity = isImprovedGaugeAction(action)
+    ? computeGaugeActionDensity(runtime.lattice, action).density
+    : undefined;
   runtime.observables = {
     averagePlaquette,
     plaquetteHistory: [...runtime.plaquetteHistory],
@@ -665,6 +829,11 @@ const updateObservables = (runtime: QcdRuntimeState) => {
       runtime.polyakovScan.length > 0
         ? [...runtime.polyakovScan]
         : runtime.observables.polyakovSamples,
+    ...(runtime.hmcTelemetry ? { hmc: runtime.hmcTelemetry } : {}),
+    ...(actionDensity !== undefined ? { actionDensity } : {}),
+    ...(runtime.observables.flow ? { flow: runtime.observables.flow } : {}),
+    ...(runtime.observables.propagator ? { propagator: runtime.observables.propagator } : {}),
+    ...(runtime.observables.hadrons ? { hadrons: runtime.observables.hadrons } : {}),
   };
 };
 
@@ -699,7 +868,11 @@ export const runGpuSubstep = async (
   scope: string | number = 'interactive-qcd',
 ): Promise<boolean> => {
   const phase = getPhaseDescriptor(runtime);
-  if (!renderer.runQcdHeatbathSweep) {
+  if (
+    !renderer.runQcdHeatbathSweep ||
+    runtime.config.updateMethod === 'hmc' ||
+    isImprovedGaugeAction(resolveGaugeAction(runtime.config.gaugeAction))
+  ) {
     return false;
   }
   if (phase.axis !== 'x' && phase.axis !== 'y') {
@@ -789,7 +962,25 @@ export const runGpuSubstep = async (
 };
 
 export const runCpuSweep = (runtime: QcdRuntimeState, rng: () => number): void => {
-  performSweep(runtime.lattice, runtime.config.beta, rng, runtime.config.overRelaxationSteps);
+  if (runtime.config.updateMethod === 'hmc') {
+    const result = runHmcTrajectory(
+      runtime.lattice,
+      { beta: runtime.config.beta, ...runtime.config.hmc, gaugeAction: runtime.config.gaugeAction },
+      rng,
+    );
+    runtime.hmcTelemetry = recordHmcTrajectory(
+      runtime.hmcTelemetry ?? createHmcTelemetry(),
+      result,
+    );
+  } else {
+    performSweep(
+      runtime.lattice,
+      runtime.config.beta,
+      rng,
+      runtime.config.overRelaxationSteps,
+      runtime.config.gaugeAction,
+    );
+  }
   runtime.seedAuditHash = updateSeedAuditHash(runtime.seedAuditHash, {
     seed: deriveSubstepSeed(runtime.baseSeed, runtime.substepIndex, 'x', 0),
     axis: 'x',
@@ -808,7 +999,142 @@ export const buildQcdOverlay = (
   sources: readonly FluxSource[],
   width: number,
   height: number,
-): FluxOverlayFrameData | null => buildEnergyOverlay(runtime.lattice, width, height, sources);
+): FluxOverlayFrameData | null => {
+  if (runtime.config.overlaySource === 'topology' && runtime.flowedLattice) {
+    const overlay = buildTopologicalOverlay(runtime.flowedLattice, width, height);
+    if (overlay) {
+      return overlay;
+    }
+  }
+  return buildEnergyOverlay(runtime.lattice, width, height, sources);
+};
+
+/**
+ * Flows a copy of the current configuration and records t₀, w₀ and Q(t) in the observables.
+ * The flowed copy feeds the topology overlay.
+ */
+export const runQcdWilsonFlow = (runtime: QcdRuntimeState): QcdFlowSummary => {
+  const result = runWilsonFlow(runtime.lattice, runtime.config.flow);
+  const last = result.history[result.history.length - 1]!;
+  const summary: QcdFlowSummary = {
+    flowTime: last.flowTime,
+    t0: result.t0,
+    w0: result.w0,
+    topologicalCharge: last.topologicalCharge,
+    history: result.history.map(({ flowTime, t2E, w, topologicalCharge }) => ({
+      flowTime,
+      t2E,
+      w,
+      topologicalCharge,
+    })),
+  };
+  runtime.flowedLattice = result.lattice;
+  runtime.observables = { ...runtime.observables, flow: summary };
+  return summary;
+};
+
+/**
+ * Appends this configuration's meson correlators to the running spectrum (replacing a repeat
+ * measurement of the same sweep, restarting when the fermion changes) and re-runs the analysis.
+ */
+const accumulateHadronSpectrum = (
+  runtime: QcdRuntimeState,
+  fermion: QcdFermionConfig,
+  measure: (channel: MesonChannel) => number[],
+): QcdHadronSpectrum => {
+  const csw = fermion.kind === 'wilson' ? (fermion.csw ?? 0) : 0;
+  const previous = runtime.observables.hadrons;
+  const compatible =
+    previous &&
+    previous.kind === fermion.kind &&
+    previous.mass === fermion.mass &&
+    previous.csw === csw;
+  const sweeps = compatible ? [...previous.sweeps] : [];
+  const repeat = sweeps[sweeps.length - 1] === runtime.sweepIndex;
+  if (!repeat) {
+    sweeps.push(runtime.sweepIndex);
+  }
+  const analysis = fermion.analysis ?? {};
+  const tMin = analysis.tMin ?? 1;
+  const resampling = analysis.resampling ?? 'jackknife';
+  const channels = MESON_CHANNELS.map((channel): QcdHadronChannel => {
+    const earlier = compatible
+      ? (previous.channels.find((entry) => entry.channel === channel)?.samples ?? [])
+      : [];
+    const samples = repeat ? earlier.slice(0, -1) : [...earlier];
+    samples.push(measure(channel));
+    const tMax = analysis.tMax ?? Math.floor(samples[0]!.length / 2);
+    let result: CorrelatorAnalysis | null = null;
+    if (samples.length >= 2) {
+      try {
+        result = analyzeCorrelator(samples, {
+          effectiveMass: 'cosh',
+          fit: tMax - tMin >= 1 ? { tMin, tMax, form: 'cosh' } : undefined,
+          resampling,
+          rng: mulberry32(runtime.baseSeed + sweeps.length),
+        });
+      } catch (error) {
+        if (!(error instanceof RangeError)) throw error;
+      }
+    }
+    return { channel, samples, analysis: result };
+  });
+  return { kind: fermion.kind, mass: fermion.mass, csw, sweeps, channels };
+};
+
+/**
+ * Inverts the configured Dirac operator on a point source at the probe origin, adds the meson
+ * correlators to the hadron spectrum and returns the propagator's colour content as a probe frame.
+ */
+export const runQcdQuarkPropagator = (
+  runtime: QcdRuntimeState,
+  sources: readonly FluxSource[],
+): { summary: QcdPropagatorSummary; frame: ProbeTransportFrameData } => {
+  const fermion = runtime.config.fermion ?? { kind: 'wilson', mass: 0.1 };
+  const solver = fermion.solver ?? 'cg';
+  const { lattice } = runtime;
+  const extents = {
+    x: lattice.width,
+    y: lattice.height,
+    z: lattice.depth,
+    t: lattice.temporalExtent,
+  };
+  const evenOdd = fermion.evenOdd ?? lattice.axes.every((axis) => extents[axis] % 2 === 0);
+  const operator = createLatticeDiracOperator(runtime.lattice, {
+    kind: fermion.kind,
+    mass: fermion.mass,
+    csw: fermion.csw,
+  });
+  const { origin } = deriveProbePathFromSources(runtime.lattice, sources);
+  const propagator = computePointPropagator(operator, origin, {
+    solver,
+    evenOdd,
+    tolerance: 1e-7,
+  });
+  const summary: QcdPropagatorSummary = {
+    kind: operator.kind,
+    solver,
+    evenOdd,
+    iterations: propagator.iterations,
+    converged: propagator.converged,
+    residual: propagator.maxResidual,
+    pionCorrelator: Array.from(computeMesonCorrelator(operator, propagator, 'pion')),
+  };
+  const hadrons = accumulateHadronSpectrum(runtime, fermion, (channel) =>
+    channel === 'pion'
+      ? summary.pionCorrelator
+      : Array.from(computeMesonCorrelator(operator, propagator, channel)),
+  );
+  runtime.observables = { ...runtime.observables, propagator: summary, hadrons };
+  return {
+    summary,
+    frame: buildPropagatorFrameData(
+      runtime.lattice,
+      origin,
+      buildPropagatorProbePoints(operator, propagator),
+    ),
+  };
+};
 
 export const buildQcdProbeFrame = (
   runtime: QcdRuntimeState,
@@ -830,6 +1156,7 @@ export const buildQcdSnapshot = (
   sources: sources.map((source) => ({ ...source })),
   observables: runtime.observables,
   polyakovScan: runtime.polyakovScan,
+  gaugeAction: resolveGaugeAction(runtime.config.gaugeAction),
 });
 
 export const hashQcdSnapshot = (snapshot: QcdSnapshot): { hash: string; canonicalJson: string } => {
@@ -854,7 +1181,13 @@ export const runTemperatureScan = (
   );
   const rng = mulberry32(hash32(runtime.baseSeed ^ 0x5bf03635));
   betas.forEach((beta) => {
-    performSweep(latticeClone, beta, rng, runtime.config.overRelaxationSteps);
+    performSweep(
+      latticeClone,
+      beta,
+      rng,
+      runtime.config.overRelaxationSteps,
+      runtime.config.gaugeAction,
+    );
     const measurement = measurePolyakovLoop(latticeClone, axis);
     samples.push(measurement);
   });
@@ -1,5 +1,14 @@
 import { GaugeLattice, type GaugeLinkAxis } from './lattice.js';
 import { su3_mul, su3_project, su3_haar, su3_frobNorm, type Complex3x3 } from './su3.js';
+import {
+  combineGaugeActionStaple,
+  computeRectangleStaple,
+  gaugeActionStapleMultiplicity,
+  isImprovedGaugeAction,
+  resolveGaugeAction,
+  type GaugeAction,
+  type GaugeActionConfig,
+} from './gaugeAction.js';
 
 type Complex = { re: number; im: number };
 
@@ -10,6 +19,8 @@ export type CpuWilsonUpdateOptions = {
   overRelaxationSteps?: number;
   startMode?: 'cold' | 'hot';
   seed?: number;
+  /** Plaquette (default) or rectangle-improved action for the staples. */
+  gaugeAction?: GaugeActionConfig;
   apeSmearing?: {
     alpha: number;
     iterations?: number;
@@ -200,13 +211,25 @@ export const performSweep = (
   beta: number,
   rng: () => number,
   overRelaxationSteps: number,
+  gaugeAction?: GaugeActionConfig | GaugeAction | null,
 ): void => {
   const axes = lattice.axes;
-  const stapleMultiplicity = getStapleMultiplicity(axes.length);
+  const action = gaugeAction && 'c0' in gaugeAction ? gaugeAction : resolveGaugeAction(gaugeAction);
+  const improved = isImprovedGaugeAction(action);
+  const stapleMultiplicity = improved
+    ? gaugeActionStapleMultiplicity(action, axes.length)
+    : getStapleMultiplicity(axes.length);
   forEachSite(lattice, (coord) => {
     for (const axis of axes) {
       const current = getLink(lattice, coord, axis);
-      const staple = computeStaple(lattice, coord, axis);
+      const plaquetteStaple = computeStaple(lattice, coord, axis);
+      const staple = improved
+        ? combineGaugeActionStaple(
+            action,
+            plaquetteStaple,
+            computeRectangleStaple(lattice, coord, axis),
+          )
+        : plaquetteStaple;
       const updated = applyHeatbathApproximation(
         current,
         staple,
@@ -338,13 +361,14 @@ export const runWilsonCpuUpdate = (
 
   const seed = Number.isFinite(options.seed) ? Math.trunc(options.seed as number) : 0;
   const rng = mulberry32(seed);
+  const gaugeAction = resolveGaugeAction(options.gaugeAction);
 
   initializeGaugeField(lattice, options.startMode === 'hot' ? 'hot' : 'cold', rng);
 
   if (thermalizationSweeps > 0) {
     const beta = betaSchedule[0];
     for (let sweep = 0; sweep < thermalizationSweeps; sweep++) {
-      performSweep(lattice, beta, rng, overRelaxationSteps);
+      performSweep(lattice, beta, rng, overRelaxationSteps, gaugeAction);
     }
   }
 
@@ -353,7 +377,7 @@ export const runWilsonCpuUpdate = (
 
   for (const beta of betaSchedule) {
     for (let sweep = 0; sweep < sweepsPerBeta; sweep++) {
-      performSweep(lattice, beta, rng, overRelaxationSteps);
+      performSweep(lattice, beta, rng, overRelaxationSteps, gaugeAction);
       totalSweeps += 1;
       if (options.apeSmearing) {
         applyApeSmear(lattice, options.apeSmearing.alpha, options.apeSmearing.iterations ?? 1);
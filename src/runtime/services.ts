@@ -1,4 +1,4 @@
-import { mkdtemp, mkdir, readdir, rm } from 'node:fs/promises';
+import { mkdtemp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join, resolve } from 'node:path';
 
@@ -18,9 +18,26 @@ import {
   derivedBufferSize,
   initKuramotoState,
   stepKuramotoState,
+  type KuramotoIntegratorOptions,
+  type KuramotoIntegratorTelemetry,
   type KuramotoParams,
 } from '../kuramotoCore.js';
-import { makeResolution, type RimField } from '../fields/contracts.js';
+import {
+  createMultiLayerPhaseFields,
+  deriveMultiLayerKuramotoFields,
+  stepMultiLayerKuramoto,
+  syncMultiLayerKuramoto,
+  type MultiLayerKuramotoState,
+} from '../kuramoto/multiLayer.js';
+import { makeResolution, type RimField, type VolumeField } from '../fields/contracts.js';
+import {
+  createBeamPropagationVolume,
+  setVolumeIndexFromLuminance,
+  snapshotBeamPropagationVolume,
+  stepBeamPropagationVolume,
+} from '../optics/beamPropagation.js';
+import { VolumeRecordingReader, VolumeRecordingWriter } from '../volumeRecording.js';
+import { importDepthVolume, type DepthVolumeOptions } from '../media/depthImport.js';
 
 import {
   DEFAULT_COUPLING,
@@ -32,6 +49,14 @@ import {
 } from '../cli/utils/preset.js';
 import { decodeFrame, encodeImage, probeMedia } from '../cli/utils/ffmpeg.js';
 import { runCommand } from '../cli/utils/exec.js';
+import { deflateVolumeCodec } from '../cli/utils/volumeCodec.js';
+import { beamSplitterConfigFromNode } from '../optics/beamSplitterCommon.js';
+import { CpuBeamSplitterRenderer } from '../optics/beamSplitterCpu.js';
+import type { SceneManifest } from '../manifest/types.js';
+import { createRuntimeBundle } from '../manifest/runtime.js';
+import { computeAberrationPointSpread, type PointSpreadFunction } from '../optics/zernike.js';
+import { ZERNIKE_NODE_TYPE, zernikeAberrationFromNode } from '../state/zernikeAberration.js';
+import type { BeamSplitterBranchMetrics } from '../state/types.js';
 
 const ORIENTATION_ANGLES = [0, Math.PI / 2, Math.PI, (3 * Math.PI) / 2];
 const LAMBDA_REF = 520;
@@ -39,6 +64,7 @@ const LAMBDAS = { L: 560, M: 530, S: 420 } as const;
 
 export type RuntimeConfigResult = {
   config: ResolvedPresetConfig;
+  manifest?: SceneManifest;
   manifestPath?: string;
   presetId?: string;
 };
@@ -64,7 +90,83 @@ export const resolveRuntimeConfig = async (
   }
   const { manifest } = await loadManifest(manifestPath);
   const resolved = resolvePresetConfig(manifest, presetId);
-  return { config: resolved, manifestPath, presetId };
+  return { config: resolved, manifest, manifestPath, presetId };
+};
+
+export type BeamSplitterSummary = {
+  nodeId: string;
+  recombineMode: string;
+  branches: BeamSplitterBranchMetrics[];
+  visibility?: number;
+  fringeContrast?: number;
+};
+
+/**
+ * Renders the manifest's `BeamSplitter` node over `image` with the CPU backend, as the viewport
+ * does with WebGL. Returns null when the manifest has no beam splitter.
+ */
+const renderBeamSplitter = async (
+  manifest: SceneManifest | undefined,
+  image: ImageBuffer,
+  pipeline: ReturnType<typeof runMediaPipeline>,
+): Promise<{ pixels: Uint8ClampedArray; summary: BeamSplitterSummary } | null> => {
+  const node = manifest?.nodes.find((entry) => entry.type === 'BeamSplitter');
+  if (!node) {
+    return null;
+  }
+  const renderer = new CpuBeamSplitterRenderer();
+  await renderer.configure({
+    ...beamSplitterConfigFromNode(node),
+    canvasWidth: image.width,
+    canvasHeight: image.height,
+    asset: {
+      id: 'input',
+      previewUrl: '',
+      width: image.width,
+      height: image.height,
+      pixels: image.data,
+    },
+    pipeline,
+  });
+  const pixels = renderer.render(image.width, image.height);
+  const diagnostics = renderer.diagnostics();
+  renderer.dispose();
+  return {
+    pixels,
+    summary: {
+      nodeId: node.id,
+      recombineMode: diagnostics?.recombineMode ?? 'sum',
+      branches: [...(diagnostics?.branches ?? [])],
+      ...(diagnostics?.interference
+        ? {
+            visibility: diagnostics.interference.visibility,
+            fringeContrast: diagnostics.interference.fringeContrast,
+          }
+        : {}),
+    },
+  };
+};
+
+type PointSpreadSampler = (timeSeconds: number) => PointSpreadFunction | null;
+
+/**
+ * PSF of the manifest's `ZernikeAberration` node at a time in seconds, following its timeline
+ * clips; null without such a node. Unanimated aberrations are computed once.
+ */
+const createPointSpreadSampler = (manifest: SceneManifest | undefined): PointSpreadSampler => {
+  if (!manifest?.nodes.some((entry) => entry.type === ZERNIKE_NODE_TYPE)) {
+    return () => null;
+  }
+  const { scene, timeline } = createRuntimeBundle(manifest);
+  const node = scene.nodes.find((entry) => entry.type === ZERNIKE_NODE_TYPE)!;
+  const animated = timeline.clips.some((clip) => clip.nodeId === node.id);
+  let cached: PointSpreadFunction | null = null;
+  return (timeSeconds) => {
+    if (!cached || animated) {
+      cached = computeAberrationPointSpread(zernikeAberrationFromNode(node, timeline, timeSeconds));
+    }
+    return cached;
+  };
 };
 
 const cloneComposer = (config: ResolvedPresetConfig, frame: FrameParameters) => ({
@@ -110,6 +212,11 @@ export type ApplyOptions = {
   manifest?: string;
   preset?: string;
   bitDepth: 8 | 10 | 16;
+  /** PNG/PGM/PFM depth map fed to the composer's volume field (resampled to the input). */
+  depth?: string;
+  depthOptions?: DepthVolumeOptions;
+  /** Write the manifest's `BeamSplitter` render instead of the composer frame. */
+  beamSplitter?: boolean;
 };
 
 export type ApplyResult = {
@@ -118,7 +225,11 @@ export type ApplyResult = {
   height: number;
   manifest: string | null;
   preset: string | null;
+  depth?: { path: string; format: string; width: number; height: number };
+  /** Present when `beamSplitter` was requested and the manifest has a beam splitter. */
+  beamSplitter?: BeamSplitterSummary;
   telemetry: ReturnType<typeof runMediaPipeline>['telemetry'];
+  /** Composer frame metrics; `beamSplitter` carries the metrics of a beam-splitter output. */
   metrics: {
     rimMean: number;
     warpMean: number;
@@ -137,7 +248,7 @@ export const applyFrame = async (options: ApplyOptions): Promise<ApplyResult> =>
     height: probe.height,
   };
 
-  const { config, manifestPath, presetId } = await resolveRuntimeConfig(
+  const { config, manifest, manifestPath, presetId } = await resolveRuntimeConfig(
     options.manifest,
     options.preset,
   );
@@ -156,6 +267,15 @@ export const applyFrame = async (options: ApplyOptions): Promise<ApplyResult> =>
     rgba: pixelData,
   };
 
+  const depth = options.depth
+    ? await importDepthVolume(
+        new Uint8Array(await readFile(options.depth)),
+        image.width,
+        image.height,
+        options.depthOptions,
+      )
+    : null;
+
   const frame = config.frame;
   const composer = cloneComposer(config, frame);
   const outBuffer = new Uint8ClampedArray(image.width * image.height * 4);
@@ -167,7 +287,7 @@ export const applyFrame = async (options: ApplyOptions): Promise<ApplyResult> =>
     surface,
     rim,
     phase: phaseField,
-    volume: null,
+    volume: depth?.field ?? null,
     kernel: config.kernel,
     dmt: frame.dmt,
     arousal: frame.arousal,
@@ -203,16 +323,26 @@ export const applyFrame = async (options: ApplyOptions): Promise<ApplyResult> =>
     curvatureMode: frame.curvatureMode,
     hyperbolicAtlas: null,
     kurEnabled: frame.kurEnabled,
+    kurLayers: pipeline.kuramoto?.layers,
     su7: getDefaultSu7(),
     composer,
     attentionHooks: undefined,
     guardrailOptions: { emitGuardrailEvents: false },
     fluxOverlay: null,
+    pointSpread: createPointSpreadSampler(manifest)(0),
   });
 
-  await encodeImage(options.ffmpeg, outBuffer, image.width, image.height, options.output, {
-    bitDepth: options.bitDepth,
-  });
+  const beamSplitter = options.beamSplitter
+    ? await renderBeamSplitter(manifest, image, pipeline)
+    : null;
+  await encodeImage(
+    options.ffmpeg,
+    beamSplitter?.pixels ?? outBuffer,
+    image.width,
+    image.height,
+    options.output,
+    { bitDepth: options.bitDepth },
+  );
 
   return {
     output: resolve(process.cwd(), options.output),
@@ -220,6 +350,17 @@ export const applyFrame = async (options: ApplyOptions): Promise<ApplyResult> =>
     height: image.height,
     manifest: manifestPath ?? null,
     preset: presetId ?? null,
+    ...(depth && options.depth
+      ? {
+          depth: {
+            path: resolve(process.cwd(), options.depth),
+            format: depth.map.format,
+            width: depth.map.width,
+            height: depth.map.height,
+          },
+        }
+      : {}),
+    ...(beamSplitter ? { beamSplitter: beamSplitter.summary } : {}),
     telemetry: pipeline.telemetry,
     metrics: {
       rimMean: rainbow.metrics.rim.mean,
@@ -239,6 +380,17 @@ export type SimulationOptions = {
   frames: number;
   dt: number;
   seed: number;
+  integrator?: KuramotoIntegratorOptions;
+  /** IVOL recording replayed into the volume field, sampled at `frameIndex · dt`. */
+  volumeRecording?: string;
+  /** Writes the volume frames of the run (replayed, or the BPM tier of the input) as IVOL. */
+  recordVolume?: string;
+};
+
+export type SimulationVolumeSummary = {
+  source: 'recording' | 'beamPropagation';
+  recorded: string | null;
+  frames: number;
 };
 
 export type SimulationSummary = {
@@ -251,6 +403,17 @@ export type SimulationSummary = {
     cohMean: number;
     indraIndex: number;
   };
+  integrator?: SimulationIntegratorSummary;
+  volume?: SimulationVolumeSummary;
+};
+
+export type SimulationIntegratorSummary = {
+  method: KuramotoIntegratorTelemetry['method'];
+  substeps: number;
+  rejections: number;
+  forcedAcceptances: number;
+  minAcceptedDt: number;
+  maxErrorEstimate: number;
 };
 
 export const simulate = async (options: SimulationOptions): Promise<SimulationSummary> => {
@@ -258,15 +421,35 @@ export const simulate = async (options: SimulationOptions): Promise<SimulationSu
   const decoded = await decodeFrame(options.ffmpeg, options.input, probe.width, probe.height);
   const pixelData = Uint8ClampedArray.from(decoded);
   const image: ImageBuffer = { data: pixelData, width: probe.width, height: probe.height };
-  const { config, manifestPath, presetId } = await resolveRuntimeConfig(
+  const { config, manifest, manifestPath, presetId } = await resolveRuntimeConfig(
     options.manifest,
     options.preset,
   );
-  const { results } = await simulateFramesInternal(config, image, {
+  const volumeReader = options.volumeRecording
+    ? new VolumeRecordingReader(new Uint8Array(await readFile(options.volumeRecording)), {
+        codec: deflateVolumeCodec,
+      })
+    : null;
+  const volumeWriter = options.recordVolume
+    ? new VolumeRecordingWriter({
+        width: image.width,
+        height: image.height,
+        codec: deflateVolumeCodec,
+        metadata: { source: volumeReader ? 'recording' : 'beamPropagation', dt: options.dt },
+      })
+    : null;
+  const { results, integrator } = await simulateFramesInternal(config, image, {
     frames: options.frames,
     dt: options.dt,
     seed: options.seed,
+    integrator: options.integrator,
+    volumeReader,
+    volumeWriter,
+    pointSpreadAt: createPointSpreadSampler(manifest),
   });
+  if (volumeWriter && options.recordVolume) {
+    await writeFile(options.recordVolume, volumeWriter.finish());
+  }
   const summary = results.reduce(
     (acc, entry) => {
       acc.rimMean += entry.metrics.rim.mean;
@@ -292,6 +475,16 @@ export const simulate = async (options: SimulationOptions): Promise<SimulationSu
       cohMean: summary.cohMean,
       indraIndex: summary.indraIndex,
     },
+    ...(integrator ? { integrator } : {}),
+    ...(volumeReader || volumeWriter
+      ? {
+          volume: {
+            source: volumeReader ? ('recording' as const) : ('beamPropagation' as const),
+            recorded: options.recordVolume ?? null,
+            frames: options.frames,
+          },
+        }
+      : {}),
   };
 };
 
@@ -299,13 +492,43 @@ type SimulationInternalOptions = {
   frames: number;
   dt: number;
   seed: number;
+  integrator?: KuramotoIntegratorOptions;
+  volumeReader?: VolumeRecordingReader | null;
+  volumeWriter?: VolumeRecordingWriter | null;
+  pointSpreadAt?: PointSpreadSampler;
+};
+
+const accumulateIntegratorSummary = (
+  summary: SimulationIntegratorSummary | null,
+  report: KuramotoIntegratorTelemetry,
+): SimulationIntegratorSummary => {
+  if (!summary) {
+    return {
+      method: report.method,
+      substeps: report.substeps,
+      rejections: report.rejections,
+      forcedAcceptances: report.forcedAcceptances,
+      minAcceptedDt: report.acceptedDt,
+      maxErrorEstimate: report.errorEstimate,
+    };
+  }
+  summary.substeps += report.substeps;
+  summary.rejections += report.rejections;
+  summary.forcedAcceptances += report.forcedAcceptances;
+  summary.minAcceptedDt = Math.min(summary.minAcceptedDt, report.acceptedDt);
+  summary.maxErrorEstimate = Math.max(summary.maxErrorEstimate, report.errorEstimate);
+  return summary;
 };
 
 const simulateFramesInternal = async (
   config: ResolvedPresetConfig,
   image: ImageBuffer,
   options: SimulationInternalOptions,
-): Promise<{ frames: number; results: RainbowFrameResult[] }> => {
+): Promise<{
+  frames: number;
+  results: RainbowFrameResult[];
+  integrator: SimulationIntegratorSummary | null;
+}> => {
   const rim = runMediaPipeline(image, { kuramoto: { enabled: false } }).rim;
   const surface: SurfaceField = {
     kind: 'surface',
@@ -317,11 +540,20 @@ const simulateFramesInternal = async (
   let kurState: ReturnType<typeof createKuramotoState> | null = null;
   let derived: ReturnType<typeof createDerivedViews> | null = null;
   let derivedBuffer: ArrayBuffer | null = null;
+  let kurLayers: MultiLayerKuramotoState | null = null;
+  let kurLayerPhases: PhaseField[] = [];
   if (frame.kurEnabled) {
     kurState = createKuramotoState(image.width, image.height);
     derivedBuffer = new ArrayBuffer(derivedBufferSize(image.width, image.height));
     derived = createDerivedViews(derivedBuffer, image.width, image.height);
     initKuramotoState(kurState, 1, derived);
+    kurLayers = syncMultiLayerKuramoto(kurState, config.kuramoto, null, { qInit: 1 });
+    if (kurLayers) {
+      kurLayers.layers.forEach((layer) => {
+        layer.integrator = options.integrator;
+      });
+      kurLayerPhases = createMultiLayerPhaseFields(kurLayers).layers;
+    }
     deriveKuramotoFields(kurState, derived, { params: config.kuramoto });
     phaseField = buildPhaseFieldFromKuramoto(derived, image.width, image.height);
   } else {
@@ -332,21 +564,61 @@ const simulateFramesInternal = async (
   const composerBase = cloneComposer(config, frame);
   let lastObs = 1;
   const randSeed = options.seed >>> 0;
+  let integratorSummary: SimulationIntegratorSummary | null = null;
+
+  const volumeReader = options.volumeReader ?? null;
+  if (
+    volumeReader &&
+    (volumeReader.header.width !== image.width || volumeReader.header.height !== image.height)
+  ) {
+    throw new Error(
+      `[simulate] volume recording is ${volumeReader.header.width}x${volumeReader.header.height}; expected ${image.width}x${image.height}`,
+    );
+  }
+  // Recording without a replay source captures the BPM tier driven by the input luminance.
+  const volumeSolver =
+    !volumeReader && options.volumeWriter
+      ? createBeamPropagationVolume(image.width, image.height)
+      : null;
+  if (volumeSolver) {
+    setVolumeIndexFromLuminance(volumeSolver, surface);
+  }
+  let volumeField: VolumeField | null = null;
 
   for (let frameIndex = 0; frameIndex < options.frames; frameIndex++) {
     if (frame.kurEnabled && kurState && derived) {
       const randn = createNormalGenerator(randSeed + frameIndex);
-      stepKuramotoState(
-        kurState,
-        config.kuramoto,
-        options.dt,
-        randn,
-        (frameIndex + 1) * options.dt,
-        { params: config.kuramoto },
-      );
-      deriveKuramotoFields(kurState, derived, { params: config.kuramoto });
+      const timestamp = (frameIndex + 1) * options.dt;
+      if (kurLayers) {
+        stepMultiLayerKuramoto(kurLayers, options.dt, randn, timestamp);
+      } else {
+        stepKuramotoState(kurState, config.kuramoto, options.dt, randn, timestamp, {
+          params: config.kuramoto,
+          integrator: options.integrator,
+        });
+      }
+      if (options.integrator) {
+        integratorSummary = accumulateIntegratorSummary(
+          integratorSummary,
+          kurState.telemetry.integrator,
+        );
+      }
+      if (kurLayers) {
+        deriveMultiLayerKuramotoFields(kurLayers, { layers: kurLayerPhases, composite: derived });
+      } else {
+        deriveKuramotoFields(kurState, derived, { params: config.kuramoto });
+      }
       phaseField = buildPhaseFieldFromKuramoto(derived, image.width, image.height);
     }
+    if (volumeReader) {
+      volumeField = volumeReader.readAtTime(frameIndex * options.dt, volumeField ?? undefined);
+    } else if (volumeSolver) {
+      stepBeamPropagationVolume(volumeSolver, options.dt);
+      volumeField = snapshotBeamPropagationVolume(volumeSolver);
+    }
+    if (volumeField && options.volumeWriter) {
+      options.volumeWriter.append(volumeField, frameIndex * options.dt);
+    }
     const out = new Uint8ClampedArray(image.width * image.height * 4);
     const rainbow = renderRainbowFrame({
       width: image.width,
@@ -356,7 +628,7 @@ const simulateFramesInternal = async (
       surface,
       rim,
       phase: phaseField,
-      volume: null,
+      volume: volumeField,
       kernel: config.kernel,
       dmt: frame.dmt,
       arousal: frame.arousal,
@@ -392,10 +664,12 @@ const simulateFramesInternal = async (
       curvatureMode: frame.curvatureMode,
       hyperbolicAtlas: null,
       kurEnabled: frame.kurEnabled,
+      kurLayers: kurLayers?.telemetry,
       su7: getDefaultSu7(),
       composer: composerBase,
       guardrailOptions: { emitGuardrailEvents: false },
       fluxOverlay: null,
+      pointSpread: options.pointSpreadAt?.(frameIndex * options.dt) ?? null,
     });
     if (rainbow.obsAverage != null && Number.isFinite(rainbow.obsAverage)) {
       lastObs = rainbow.obsAverage;
@@ -403,7 +677,7 @@ const simulateFramesInternal = async (
     results.push(rainbow);
   }
 
-  return { frames: options.frames, results };
+  return { frames: options.frames, results, integrator: integratorSummary };
 };
 
 export type CaptureOptions = {
@@ -415,6 +689,8 @@ export type CaptureOptions = {
   preset?: string;
   framesLimit?: number;
   keepTemp: boolean;
+  /** Encode the manifest's `BeamSplitter` render of each frame instead of the composer frame. */
+  beamSplitter?: boolean;
 };
 
 export type CaptureSummary = {
@@ -444,7 +720,8 @@ export const captureVideo = async (options: CaptureOptions): Promise<CaptureSumm
       throw new Error('No frames decoded from input video.');
     }
 
-    const { config } = await resolveRuntimeConfig(options.manifest, options.preset);
+    const { config, manifest } = await resolveRuntimeConfig(options.manifest, options.preset);
+    const pointSpreadAt = createPointSpreadSampler(manifest);
     let processedCount = 0;
     const start = Date.now();
 
@@ -472,10 +749,11 @@ export const captureVideo = async (options: CaptureOptions): Promise<CaptureSumm
         (config.frame.kurEnabled && pipeline.kuramoto?.phase) || pipeline.phase.field;
       const composer = cloneComposer(config, config.frame);
       const out = new Uint8ClampedArray(info.width * info.height * 4);
+      const timeSeconds = index / Math.max(info.fps ?? 60, 1);
       renderRainbowFrame({
         width: info.width,
         height: info.height,
-        timeSeconds: index / Math.max(info.fps ?? 60, 1),
+        timeSeconds,
         out,
         surface,
         rim,
@@ -516,13 +794,25 @@ export const captureVideo = async (options: CaptureOptions): Promise<CaptureSumm
         curvatureMode: config.frame.curvatureMode,
         hyperbolicAtlas: null,
         kurEnabled: config.frame.kurEnabled,
+        kurLayers: pipeline.kuramoto?.layers,
         su7: getDefaultSu7(),
         composer,
         guardrailOptions: { emitGuardrailEvents: false },
         fluxOverlay: null,
+        pointSpread: pointSpreadAt(timeSeconds),
       });
+      const beamSplitter = options.beamSplitter
+        ? await renderBeamSplitter(manifest, image, pipeline)
+        : null;
       const outputFrame = join(processedDir, frameName);
-      await encodeImage(options.ffmpeg, out, info.width, info.height, outputFrame, { bitDepth: 8 });
+      await encodeImage(
+        options.ffmpeg,
+        beamSplitter?.pixels ?? out,
+        info.width,
+        info.height,
+        outputFrame,
+        { bitDepth: 8 },
+      );
       processedCount += 1;
     }
 
@@ -4,6 +4,7 @@ import { resolve } from 'node:path';
 import process from 'node:process';
 
 import { applyFrame, captureVideo, simulate } from '../runtime/services.js';
+import { KURAMOTO_INTEGRATORS, type KuramotoIntegrator } from '../kuramotoCore.js';
 
 type JsonValue = Record<string, unknown>;
 
@@ -105,6 +106,7 @@ export const startServer = (options: ServerOptions = {}) => {
           ffmpeg: typeof body.ffmpeg === 'string' ? body.ffmpeg : 'ffmpeg',
           ffprobe: typeof body.ffprobe === 'string' ? body.ffprobe : 'ffprobe',
           bitDepth,
+          beamSplitter: body.beamSplitter === true,
         });
         writeJson(res, 200, { status: 'ok', ...summary });
         return;
@@ -115,6 +117,18 @@ export const startServer = (options: ServerOptions = {}) => {
         if (typeof body.input !== 'string') {
           throw new Error('simulate requires an "input" image path.');
         }
+        if (
+          body.integrator !== undefined &&
+          !KURAMOTO_INTEGRATORS.includes(body.integrator as KuramotoIntegrator)
+        ) {
+          writeJson(res, 400, {
+            status: 'error',
+            message: `"integrator" must be one of ${KURAMOTO_INTEGRATORS.join(', ')}`,
+            integrators: KURAMOTO_INTEGRATORS,
+          });
+          return;
+        }
+        const integrator = body.integrator as KuramotoIntegrator | undefined;
         const summary = await simulate({
           input: body.input,
           manifest: typeof body.manifest === 'string' ? body.manifest : undefined,
@@ -131,6 +145,20 @@ export const startServer = (options: ServerOptions = {}) => {
             typeof body.seed === 'number' && Number.isFinite(body.seed)
               ? Math.floor(body.seed)
               : 1337,
+          integrator: integrator
+            ? {
+                method: integrator,
+                tolerance:
+                  typeof body.tolerance === 'number' &&
+                  Number.isFinite(body.tolerance) &&
+                  body.tolerance > 0
+                    ? body.tolerance
+                    : undefined,
+              }
+            : undefined,
+          volumeRecording:
+            typeof body.volumeRecording === 'string' ? body.volumeRecording : undefined,
+          recordVolume: typeof body.recordVolume === 'string' ? body.recordVolume : undefined,
           ffmpeg: typeof body.ffmpeg === 'string' ? body.ffmpeg : 'ffmpeg',
           ffprobe: typeof body.ffprobe === 'string' ? body.ffprobe : 'ffprobe',
         });
@@ -155,6 +183,7 @@ export const startServer = (options: ServerOptions = {}) => {
               ? Math.floor(body.frames)
               : undefined,
           keepTemp: Boolean(body.keepTemp),
+          beamSplitter: body.beamSplitter === true,
         });
         writeJson(res, 200, { status: 'ok', ...summary });
         return;
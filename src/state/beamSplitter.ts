@@ -1,3 +1,4 @@
+import type { PolarizationMatrix, PolarizationTransformSpec } from '../kuramotoCore.js';
 import type { SceneGraphState, SceneNode } from './types.js';
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -26,6 +27,17 @@ export type BeamSplitterTransformStep =
       factor: number;
     };
 
+/**
+ * Optical path of a branch in the `interferometer` recombine mode. Path lengths are one-way arm
+ * lengths in metres; tilts are the beam's angles about the y and x axes in radians.
+ */
+export type BeamSplitterBranchOptics = {
+  pathLengthMeters: number;
+  tiltXRad: number;
+  tiltYRad: number;
+  polarization?: PolarizationTransformSpec;
+};
+
 export type BeamSplitterBranch = {
   id: string;
   label: string;
@@ -34,6 +46,7 @@ export type BeamSplitterBranch = {
   priority?: number;
   source?: BeamSplitterBranchSource;
   transformStack: BeamSplitterTransformStep[];
+  optics?: BeamSplitterBranchOptics;
 };
 
 const clampDegrees = (degrees: unknown) => {
@@ -93,6 +106,61 @@ const parseTransformStack = (value: unknown): BeamSplitterTransformStep[] => {
   return stack.length > 0 ? stack : [];
 };
 
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const parseComplex = (value: unknown) => {
+  const record = isRecord(value) ? value : {};
+  return { re: finiteOr(record.re, 0), im: finiteOr(record.im, 0) };
+};
+
+const parsePolarization = (value: unknown): PolarizationTransformSpec | undefined => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  switch (value.type) {
+    case 'wavePlate':
+      return {
+        type: 'wavePlate',
+        phaseDelayRad: finiteOr(value.phaseDelayRad, 0),
+        orientationRad: finiteOr(value.orientationRad, 0),
+      };
+    case 'polarizer':
+      return {
+        type: 'polarizer',
+        orientationRad: finiteOr(value.orientationRad, 0),
+        extinctionRatio: Math.max(0, Math.min(1, finiteOr(value.extinctionRatio, 0))),
+      };
+    case 'matrix': {
+      const matrix = isRecord(value.matrix) ? value.matrix : {};
+      return {
+        type: 'matrix',
+        matrix: {
+          m00: parseComplex(matrix.m00),
+          m01: parseComplex(matrix.m01),
+          m10: parseComplex(matrix.m10),
+          m11: parseComplex(matrix.m11),
+        } satisfies PolarizationMatrix,
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+const parseBranchOptics = (value: unknown): BeamSplitterBranchOptics | undefined => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const polarization = parsePolarization(value.polarization);
+  return {
+    pathLengthMeters: finiteOr(value.pathLengthMeters, 0),
+    tiltXRad: finiteOr(value.tiltXRad, 0),
+    tiltYRad: finiteOr(value.tiltYRad, 0),
+    ...(polarization ? { polarization } : {}),
+  };
+};
+
 export const parseBranches = (metadata: unknown): BeamSplitterBranch[] => {
   if (!isRecord(metadata)) {
     return [];
@@ -106,6 +174,7 @@ export const parseBranches = (metadata: unknown): BeamSplitterBranch[] => {
       id = createId('branch');
     }
     seenIds.add(id);
+    const optics = parseBranchOptics(record.optics);
     return {
       id,
       label:
@@ -138,6 +207,7 @@ export const parseBranches = (metadata: unknown): BeamSplitterBranch[] => {
           },
         ];
       })(),
+      ...(optics ? { optics } : {}),
     };
   });
 };
@@ -185,6 +255,7 @@ export const serialiseBranches = (branches: BeamSplitterBranch[]): Record<string
               degrees: 0,
             },
           ],
+    ...(branch.optics ? { optics: parseBranchOptics(branch.optics) } : {}),
   }));
 
 export const adjustBeamSplitterBranches = (
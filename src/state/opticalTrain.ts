@@ -0,0 +1,66 @@
+import { createOpticalElementStep, type OpticalElementStep } from '../kuramotoCore.js';
+import type { ManifestNode } from '../manifest/types.js';
+import {
+  parseOpticalTrain,
+  serialiseOpticalTrain,
+  type OpticalElementSpec,
+} from '../optics/elements.js';
+import type { SceneNode } from './types.js';
+
+/**
+ * `OpticalTrain` nodes keep their ordered element list in `metadata.elements` (see
+ * `serialiseOpticalTrain`), since the specs carry nested maps that do not fit node parameters.
+ */
+
+export const OPTICAL_TRAIN_NODE_TYPE = 'OpticalTrain';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const opticalTrainFromNode = (node: SceneNode | ManifestNode): OpticalElementSpec[] => {
+  if (node.type !== OPTICAL_TRAIN_NODE_TYPE) {
+    throw new Error(`[opticalTrain] expected a ${OPTICAL_TRAIN_NODE_TYPE} node (got ${node.type})`);
+  }
+  return parseOpticalTrain(node.metadata);
+};
+
+export const createOpticalTrainNode = (
+  id: string,
+  elements: readonly OpticalElementSpec[],
+  label = 'Optical Train',
+): ManifestNode => ({
+  id,
+  type: OPTICAL_TRAIN_NODE_TYPE,
+  label,
+  parameters: [],
+  metadata: serialiseOpticalTrain(elements),
+});
+
+/**
+ * Elements from a loaded JSON document: a manifest (first `OpticalTrain` node), a single node,
+ * or bare `{ elements }` metadata.
+ */
+export const readOpticalTrain = (value: unknown): OpticalElementSpec[] => {
+  if (!isRecord(value)) {
+    return [];
+  }
+  if (Array.isArray(value.nodes)) {
+    const node = value.nodes.find(
+      (entry): entry is ManifestNode => isRecord(entry) && entry.type === OPTICAL_TRAIN_NODE_TYPE,
+    );
+    return node ? opticalTrainFromNode(node) : [];
+  }
+  if (value.type === OPTICAL_TRAIN_NODE_TYPE) {
+    return parseOpticalTrain(value.metadata);
+  }
+  return parseOpticalTrain(value);
+};
+
+/**
+ * Schedule steps for the train in order. Apertures that only reference a `source` are skipped
+ * until their mask has been loaded with `loadApertureMask`.
+ */
+export const opticalTrainSteps = (elements: readonly OpticalElementSpec[]): OpticalElementStep[] =>
+  elements
+    .filter((spec) => spec.type !== 'aperture' || spec.mask)
+    .map((spec) => createOpticalElementStep(spec, spec.type));
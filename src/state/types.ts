@@ -12,7 +12,7 @@ import type {
 
 export type PanelKey = 'presets' | 'inspector' | 'timeline';
 
-export type MediaAssetKind = 'image' | 'video';
+export type MediaAssetKind = 'image' | 'video' | 'depth';
 
 export type MediaAssetStatus = 'pending' | 'ready' | 'error';
 
@@ -139,6 +139,7 @@ export interface TimelineClip {
   readonly nodeId: string;
   readonly parameterId: string;
   readonly keyframes: TimelineKeyframe[];
+  readonly interpolation?: 'step' | 'linear' | 'spline';
 }
 
 export interface TimelineState {
@@ -161,12 +162,39 @@ export interface BeamSplitterBranchMetrics {
   readonly weight?: number;
 }
 
+export interface BeamSplitterFieldMap {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Float32Array;
+}
+
+export interface BeamSplitterPhaseDifference {
+  readonly branchId: string;
+  /** Phase of the branch relative to the reference branch, in radians. */
+  readonly meanRad: number;
+  readonly map: BeamSplitterFieldMap;
+}
+
+/** Coherent-recombination observables reported by the `interferometer` recombine mode. */
+export interface BeamSplitterInterferenceDiagnostics {
+  readonly geometry: string;
+  readonly wavelengthNm: number;
+  readonly referenceBranchId: string;
+  /** Intensity-weighted mean of the per-texel fringe visibility. */
+  readonly visibility: number;
+  /** `(Imax − Imin) / (Imax + Imin)` of the recombined intensity over illuminated texels. */
+  readonly fringeContrast: number;
+  readonly visibilityMap: BeamSplitterFieldMap;
+  readonly phaseDifferences: readonly BeamSplitterPhaseDifference[];
+}
+
 export interface BeamSplitterDiagnosticsEntry {
   readonly nodeId: string;
   readonly frameId: number;
   readonly recombineMode?: string;
   readonly updatedAt: number;
   readonly branches: readonly BeamSplitterBranchMetrics[];
+  readonly interference?: BeamSplitterInterferenceDiagnostics;
 }
 
 export interface BeamSplitterDiagnosticsState {
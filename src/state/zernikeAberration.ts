@@ -0,0 +1,116 @@
+import type { ManifestNode, ManifestNodeParameter } from '../manifest/types.js';
+import { sampleTimelineClip } from '../manifest/runtime.js';
+import {
+  MAX_ZERNIKE_ORDER,
+  nollToNm,
+  zernikeTermCount,
+  type ZernikeAberration,
+} from '../optics/zernike.js';
+import type { SceneNode, TimelineState } from './types.js';
+
+/**
+ * `ZernikeAberration` scene nodes carry one numeric parameter per Noll term (`z1`, `z2`, …, in
+ * micrometres) next to `maxOrder` and `pupilDiameterMm`, so every coefficient can be targeted
+ * by a timeline clip like any other node parameter.
+ */
+
+export const ZERNIKE_NODE_TYPE = 'ZernikeAberration';
+
+const TERM_NAMES: Record<number, string> = {
+  1: 'piston',
+  2: 'tilt X',
+  3: 'tilt Y',
+  4: 'defocus',
+  5: 'oblique astigmatism',
+  6: 'vertical astigmatism',
+  7: 'vertical coma',
+  8: 'horizontal coma',
+  9: 'vertical trefoil',
+  10: 'oblique trefoil',
+  11: 'spherical',
+};
+
+export const zernikeParameterId = (j: number) => `z${j}`;
+
+const termLabel = (j: number) => {
+  const { n, m } = nollToNm(j);
+  return `Z${j} ${TERM_NAMES[j] ?? `n=${n} m=${m}`}`;
+};
+
+const numericValue = (node: SceneNode, id: string, timeline?: TimelineState, time?: number) => {
+  if (timeline) {
+    const clip = timeline.clips.find(
+      (entry) => entry.nodeId === node.id && entry.parameterId === id,
+    );
+    const sampled = clip ? sampleTimelineClip(clip, time ?? timeline.currentTime) : undefined;
+    if (typeof sampled === 'number' && Number.isFinite(sampled)) {
+      return sampled;
+    }
+  }
+  const value = node.parameters.find((parameter) => parameter.id === id)?.value;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Aberration described by a `ZernikeAberration` node. With a timeline, keyframed parameters
+ * are sampled at `time` (default: the timeline's current time) and override the stored values.
+ */
+export const zernikeAberrationFromNode = (
+  node: SceneNode,
+  timeline?: TimelineState,
+  time?: number,
+): ZernikeAberration => {
+  if (node.type !== ZERNIKE_NODE_TYPE) {
+    throw new Error(`[zernikeAberration] expected a ${ZERNIKE_NODE_TYPE} node (got ${node.type})`);
+  }
+  const order = Math.round(numericValue(node, 'maxOrder', timeline, time) ?? 4);
+  const maxOrder = Math.max(0, Math.min(MAX_ZERNIKE_ORDER, order));
+  const coefficients = new Float64Array(zernikeTermCount(maxOrder));
+  for (let j = 1; j <= coefficients.length; j++) {
+    coefficients[j - 1] = numericValue(node, zernikeParameterId(j), timeline, time) ?? 0;
+  }
+  const diameterMm = numericValue(node, 'pupilDiameterMm', timeline, time) ?? 3;
+  return {
+    maxOrder,
+    coefficients,
+    pupilRadiusMeters: (Math.max(0.1, diameterMm) * 1e-3) / 2,
+  };
+};
+
+export const createZernikeAberrationNode = (
+  id: string,
+  aberration: ZernikeAberration,
+  label = 'Zernike Aberration',
+): ManifestNode => {
+  const slider = (min: number, max: number, step: number) =>
+    ({ kind: 'slider', min, max, step }) as const;
+  const parameters: ManifestNodeParameter[] = [
+    {
+      id: 'maxOrder',
+      label: 'Max radial order',
+      value: aberration.maxOrder,
+      description: 'Highest Zernike radial order; sets how many Noll terms are exposed.',
+      control: slider(0, MAX_ZERNIKE_ORDER, 1),
+      panel: 'aberration',
+    },
+    {
+      id: 'pupilDiameterMm',
+      label: 'Pupil diameter (mm)',
+      value: aberration.pupilRadiusMeters * 2e3,
+      description: 'Diameter over which the Zernike basis is normalised.',
+      control: slider(1, 8, 0.1),
+      panel: 'aberration',
+    },
+  ];
+  for (let j = 1; j <= zernikeTermCount(aberration.maxOrder); j++) {
+    parameters.push({
+      id: zernikeParameterId(j),
+      label: termLabel(j),
+      value: aberration.coefficients[j - 1] ?? 0,
+      description: `Noll term ${j} RMS wavefront error in micrometres.`,
+      control: slider(-2, 2, 0.01),
+      panel: 'aberration',
+    });
+  }
+  return { id, type: ZERNIKE_NODE_TYPE, label, parameters };
+};
@@ -16,11 +16,12 @@ import {
   type KernelSpec,
 } from '../kernel/kernelSpec.js';
 import {
-  createVolumeStubState,
-  snapshotVolumeStub,
-  stepVolumeStub,
-  type VolumeStubState,
-} from '../volumeStub.js';
+  createBeamPropagationVolume,
+  setVolumeIllumination,
+  setVolumeIndexFromLuminance,
+  snapshotBeamPropagationVolume,
+  stepBeamPropagationVolume,
+} from '../optics/beamPropagation.js';
 import {
   makeResolution,
   type FieldResolution,
@@ -35,6 +36,7 @@ import {
   type ComposerConfig,
 } from '../pipeline/rainbowFrame.js';
 import { createDefaultSu7RuntimeParams } from '../pipeline/su7/types.js';
+import type { VolumeRecordingReader } from '../volumeRecording.js';
 
 export type TierId = 'rim1p5D' | 'surface2D' | 'volume2p5D';
 
@@ -122,6 +124,8 @@ export type CrossTierScenarioOptions = {
   baselineNoise?: NoiseOptions;
   variantNoise?: NoiseOptions;
   enforceVariantKernel?: KernelSpec;
+  /** Replays recorded volume frames (sampled at `step · dt`) instead of solving the BPM tier. */
+  volumeRecording?: VolumeRecordingReader;
 };
 
 export type CrossTierAlert =
@@ -378,7 +382,17 @@ const simulateScenarioRun = (
   initKuramotoState(kurState, 1, phaseField);
   const kurRandom = createNormalGenerator(2024 + seedOffset);
 
-  const volumeStub: VolumeStubState = createVolumeStubState(width, height, 4040 + seedOffset);
+  const recording = options.volumeRecording ?? null;
+  if (recording && (recording.header.width !== width || recording.header.height !== height)) {
+    throw new Error(
+      `[crossTierValidation] volume recording is ${recording.header.width}x${recording.header.height}; expected ${width}x${height}`,
+    );
+  }
+  const volumeSolver = recording ? null : createBeamPropagationVolume(width, height);
+  if (volumeSolver) {
+    setVolumeIndexFromLuminance(volumeSolver, surfaceField);
+  }
+  let recordedVolume: VolumeField | undefined;
 
   const tiers: Record<TierId, TierSeries> = {
     rim1p5D: { raw: [], normalized: [], appliedScale: [], expectedHalfLife: halfLives.rim1p5D },
@@ -405,8 +419,17 @@ const simulateScenarioRun = (
       controls: { dmt },
     });
     deriveKuramotoFields(kurState, phaseField, { kernel, controls: { dmt } });
-    stepVolumeStub(volumeStub, dt);
-    const volumeField: VolumeField = snapshotVolumeStub(volumeStub);
+    // The Kuramoto envelope illuminates the luminance relief, so the volume tier tracks the
+    // kernel through the transmitted irradiance.
+    let volumeField: VolumeField;
+    if (volumeSolver) {
+      setVolumeIllumination(volumeSolver, kurState.field);
+      stepBeamPropagationVolume(volumeSolver, dt);
+      volumeField = snapshotBeamPropagationVolume(volumeSolver);
+    } else {
+      recordedVolume = recording!.readAtTime(t, recordedVolume);
+      volumeField = recordedVolume;
+    }
 
     const rimScale = computeScale(t, halfLives.rim1p5D);
     const surfaceScale = computeScale(t, halfLives.surface2D);
@@ -0,0 +1,582 @@
+import {
+  createKuramotoState,
+  createNormalGenerator,
+  initKuramotoState,
+  stepKuramotoState,
+  type KuramotoIntegrator,
+  type KuramotoIntegratorOptions,
+  type KuramotoParams,
+  type KuramotoState,
+} from '../kuramotoCore.js';
+import {
+  clampKernelSpec,
+  kernelSpecToJSON,
+  KERNEL_SPEC_DEFAULT,
+  type KernelSpec,
+} from '../kernel/kernelSpec.js';
+import {
+  resolveNaturalFrequencyField,
+  type NaturalFrequencySpec,
+} from '../kuramoto/naturalFrequency.js';
+import { mulberry32 } from '../qcd/updateCpu.js';
+import { hashCanonicalJson } from '../serialization/canonicalJson.js';
+
+export const SWEEP_KURAMOTO_KEYS = [
+  'alphaKur',
+  'gammaKur',
+  'omega0',
+  'K0',
+  'epsKur',
+  'fluxX',
+  'fluxY',
+  'smallWorldWeight',
+  'p_sw',
+] as const;
+export type SweepKuramotoKey = (typeof SWEEP_KURAMOTO_KEYS)[number];
+
+export const SWEEP_KERNEL_KEYS = [
+  'gain',
+  'k0',
+  'Q',
+  'anisotropy',
+  'chirality',
+  'transparency',
+] as const;
+export type SweepKernelKey = (typeof SWEEP_KERNEL_KEYS)[number];
+
+/** Kuramoto parameters are addressed by name, kernel fields with a `kernel.` prefix. */
+export type SweepParameterName = SweepKuramotoKey | `kernel.${SweepKernelKey}`;
+
+export type SweepAxis = {
+  name: SweepParameterName;
+  min: number;
+  max: number;
+  /** Grid resolution along this axis; ignored by Latin-hypercube sampling. */
+  steps?: number;
+};
+
+export type SweepSampling = 'grid' | 'latinHypercube';
+
+export const SWEEP_METRICS = [
+  'orderMean',
+  'orderVariance',
+  'chimeraIndex',
+  'settlingTime',
+] as const;
+export type SweepMetric = (typeof SWEEP_METRICS)[number];
+
+export type SweepOptions = {
+  axes: readonly SweepAxis[];
+  sampling?: SweepSampling;
+  /** Sample count for Latin-hypercube sampling (default 32). */
+  samples?: number;
+  width?: number;
+  height?: number;
+  steps?: number;
+  dt?: number;
+  seed?: number;
+  params?: Partial<KuramotoParams>;
+  kernel?: KernelSpec;
+  integrator?: KuramotoIntegrator | KuramotoIntegratorOptions;
+  naturalFrequencies?: NaturalFrequencySpec;
+  /** Twisted-state winding for the initial condition; random phases when omitted. */
+  qInit?: number;
+  /** Trailing fraction of the run used for the steady-state statistics (default 0.5). */
+  measureFraction?: number;
+  /** Chebyshev radius of the neighbourhood used for local coherence (default 2). */
+  localRadius?: number;
+  /** |R| band around the steady-state mean that counts as settled (default 0.02). */
+  settleTolerance?: number;
+  onPoint?: (point: SweepPoint, index: number, total: number) => void;
+};
+
+export type SweepPointMetrics = Record<SweepMetric, number>;
+
+export type SweepPoint = {
+  index: number;
+  seed: number;
+  values: Partial<Record<SweepParameterName, number>>;
+  metrics: SweepPointMetrics;
+};
+
+export type SweepTable = {
+  schema: 'indra.kuramotoSweep';
+  version: 1;
+  sampling: SweepSampling;
+  axes: SweepAxis[];
+  scenario: {
+    width: number;
+    height: number;
+    steps: number;
+    dt: number;
+    seed: number;
+    measureFraction: number;
+    localRadius: number;
+    settleTolerance: number;
+    qInit: number | null;
+    integrator: KuramotoIntegrator;
+    params: KuramotoParams;
+    kernel: KernelSpec;
+    naturalFrequencies: NaturalFrequencySpec | null;
+  };
+  points: SweepPoint[];
+};
+
+export type SweepResult = {
+  table: SweepTable;
+  json: string;
+  hash: string;
+};
+
+export type SweepHeatmap = {
+  xAxis: SweepAxis;
+  yAxis: SweepAxis;
+  metric: SweepMetric;
+  width: number;
+  height: number;
+  /** Row-major, y = 0 at the axis minimum; NaN marks cells without samples. */
+  values: Float64Array;
+  min: number;
+  max: number;
+};
+
+export type RgbImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+const DEFAULT_SIZE = 24;
+const DEFAULT_STEPS = 160;
+const DEFAULT_DT = 0.05;
+const DEFAULT_SEED = 1337;
+const DEFAULT_GRID_STEPS = 8;
+const DEFAULT_SAMPLES = 32;
+const DEFAULT_MEASURE_FRACTION = 0.5;
+const DEFAULT_LOCAL_RADIUS = 2;
+const DEFAULT_SETTLE_TOLERANCE = 0.02;
+
+const DEFAULT_SWEEP_PARAMS: KuramotoParams = {
+  alphaKur: 0.2,
+  gammaKur: 0.15,
+  omega0: 0,
+  K0: 0.6,
+  epsKur: 0.001,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+/** Per-point seed: a murmur-style finaliser over (base seed, point index). */
+const derivePointSeed = (seed: number, index: number) => {
+  let h = (seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const isKernelParameter = (name: SweepParameterName): name is `kernel.${SweepKernelKey}` =>
+  name.startsWith('kernel.');
+
+export const isSweepParameterName = (name: string): name is SweepParameterName =>
+  (SWEEP_KURAMOTO_KEYS as readonly string[]).includes(name) ||
+  (name.startsWith('kernel.') &&
+    (SWEEP_KERNEL_KEYS as readonly string[]).includes(name.slice('kernel.'.length)));
+
+/** Parses `name=min:max[:steps]`, the axis syntax used by `indra-cli sweep`. */
+export const parseSweepAxis = (text: string): SweepAxis => {
+  const [name, range] = text.split('=');
+  if (!name || !range || !isSweepParameterName(name)) {
+    throw new Error(
+      `[parameterSweep] invalid axis "${text}"; expected <param>=<min>:<max>[:steps]`,
+    );
+  }
+  const parts = range.split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some((value) => !Number.isFinite(value))) {
+    throw new Error(`[parameterSweep] invalid range in axis "${text}"`);
+  }
+  const [min, max, steps] = parts as [number, number, number | undefined];
+  return steps != null
+    ? { name, min, max, steps: Math.max(1, Math.floor(steps)) }
+    : { name, min, max };
+};
+
+const axisValue = (axis: SweepAxis, t: number) => axis.min + (axis.max - axis.min) * t;
+
+const gridFraction = (index: number, steps: number) => (steps > 1 ? index / (steps - 1) : 0.5);
+
+const buildGridSamples = (axes: readonly SweepAxis[]): number[][] => {
+  const counts = axes.map((axis) => Math.max(1, Math.floor(axis.steps ?? DEFAULT_GRID_STEPS)));
+  const total = counts.reduce((acc, count) => acc * count, 1);
+  const samples: number[][] = [];
+  for (let flat = 0; flat < total; flat++) {
+    const values = new Array<number>(axes.length);
+    let rest = flat;
+    // Last axis varies fastest, matching the nested-loop order of a hand-written sweep.
+    for (let a = axes.length - 1; a >= 0; a--) {
+      const count = counts[a]!;
+      values[a] = axisValue(axes[a]!, gridFraction(rest % count, count));
+      rest = Math.floor(rest / count);
+    }
+    samples.push(values);
+  }
+  return samples;
+};
+
+const buildLatinHypercubeSamples = (
+  axes: readonly SweepAxis[],
+  count: number,
+  seed: number,
+): number[][] => {
+  const rng = mulberry32(seed);
+  const samples = Array.from({ length: count }, () => new Array<number>(axes.length));
+  for (let a = 0; a < axes.length; a++) {
+    const strata = Array.from({ length: count }, (_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [strata[i], strata[j]] = [strata[j]!, strata[i]!];
+    }
+    for (let i = 0; i < count; i++) {
+      samples[i]![a] = axisValue(axes[a]!, (strata[i]! + rng()) / count);
+    }
+  }
+  return samples;
+};
+
+const randomizePhases = (state: KuramotoState, seed: number) => {
+  const rng = mulberry32(seed);
+  for (const { real, imag } of state.components) {
+    for (let i = 0; i < real.length; i++) {
+      const theta = 2 * Math.PI * rng();
+      real[i] = Math.cos(theta);
+      imag[i] = Math.sin(theta);
+    }
+  }
+};
+
+/**
+ * Spatial variance of the local order parameter `|⟨Z_j/|Z_j|⟩_{j∈N(i)}|` over a periodic
+ * Chebyshev neighbourhood (Shanahan's chimera index, with sites as communities). Zero for
+ * both full synchrony and uniform incoherence; large when coherent and incoherent domains
+ * coexist.
+ */
+const computeLocalCoherenceVariance = (
+  state: KuramotoState,
+  radius: number,
+  unitR: Float64Array,
+  unitI: Float64Array,
+) => {
+  const { width, height } = state;
+  const { real, imag } = state.components[0]!;
+  for (let i = 0; i < real.length; i++) {
+    const mag = Math.hypot(real[i], imag[i]);
+    unitR[i] = mag > 1e-12 ? real[i] / mag : 0;
+    unitI[i] = mag > 1e-12 ? imag[i] / mag : 0;
+  }
+  const span = (2 * radius + 1) * (2 * radius + 1);
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let accR = 0;
+      let accI = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const row = ((((y + dy) % height) + height) % height) * width;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const idx = row + ((((x + dx) % width) + width) % width);
+          accR += unitR[idx];
+          accI += unitI[idx];
+        }
+      }
+      const local = Math.hypot(accR, accI) / span;
+      sum += local;
+      sumSq += local * local;
+    }
+  }
+  const count = width * height;
+  const mean = sum / count;
+  return Math.max(0, sumSq / count - mean * mean);
+};
+
+const resolveAxes = (axes: readonly SweepAxis[]) => {
+  if (axes.length === 0) {
+    throw new Error('[parameterSweep] at least one axis is required');
+  }
+  const seen = new Set<string>();
+  return axes.map((axis) => {
+    if (!isSweepParameterName(axis.name)) {
+      throw new Error(`[parameterSweep] unknown sweep parameter "${axis.name}"`);
+    }
+    if (seen.has(axis.name)) {
+      throw new Error(`[parameterSweep] duplicate axis "${axis.name}"`);
+    }
+    if (!Number.isFinite(axis.min) || !Number.isFinite(axis.max)) {
+      throw new Error(`[parameterSweep] axis "${axis.name}" needs finite bounds`);
+    }
+    seen.add(axis.name);
+    return axis.steps != null
+      ? {
+          name: axis.name,
+          min: axis.min,
+          max: axis.max,
+          steps: Math.max(1, Math.floor(axis.steps)),
+        }
+      : { name: axis.name, min: axis.min, max: axis.max };
+  });
+};
+
+/**
+ * Runs `stepKuramotoState` for every sample of the parameter space and records steady-state
+ * order statistics. Each point owns a seed derived from `seed` and its index, so a table is
+ * reproducible bit for bit and individual points can be re-run in isolation.
+ */
+export const runParameterSweep = (options: SweepOptions): SweepResult => {
+  const axes = resolveAxes(options.axes);
+  const sampling = options.sampling ?? 'grid';
+  const width = Math.max(1, Math.floor(options.width ?? DEFAULT_SIZE));
+  const height = Math.max(1, Math.floor(options.height ?? DEFAULT_SIZE));
+  const steps = Math.max(1, Math.floor(options.steps ?? DEFAULT_STEPS));
+  const dt = options.dt ?? DEFAULT_DT;
+  const seed = (options.seed ?? DEFAULT_SEED) >>> 0;
+  const measureFraction = clamp(options.measureFraction ?? DEFAULT_MEASURE_FRACTION, 0.05, 1);
+  const localRadius = Math.max(1, Math.floor(options.localRadius ?? DEFAULT_LOCAL_RADIUS));
+  const settleTolerance = Math.max(0, options.settleTolerance ?? DEFAULT_SETTLE_TOLERANCE);
+  const baseParams: KuramotoParams = { ...DEFAULT_SWEEP_PARAMS, ...options.params };
+  const baseKernel = clampKernelSpec(options.kernel ?? KERNEL_SPEC_DEFAULT);
+  const integratorMethod =
+    typeof options.integrator === 'string'
+      ? options.integrator
+      : (options.integrator?.method ?? 'euler');
+  const naturalFrequencies = resolveNaturalFrequencyField(
+    width,
+    height,
+    options.naturalFrequencies,
+  );
+  const samples =
+    sampling === 'latinHypercube'
+      ? buildLatinHypercubeSamples(
+          axes,
+          Math.max(1, Math.floor(options.samples ?? DEFAULT_SAMPLES)),
+          seed,
+        )
+      : buildGridSamples(axes);
+
+  const measureStart = Math.min(steps - 1, Math.floor(steps * (1 - measureFraction)));
+  const orderSeries = new Float64Array(steps);
+  const unitR = new Float64Array(width * height);
+  const unitI = new Float64Array(width * height);
+  const points: SweepPoint[] = [];
+
+  samples.forEach((sample, index) => {
+    const params: KuramotoParams = { ...baseParams };
+    const kernelInit: Partial<KernelSpec> = { ...baseKernel };
+    const values: SweepPoint['values'] = {};
+    axes.forEach((axis, a) => {
+      const value = sample[a]!;
+      values[axis.name] = value;
+      if (isKernelParameter(axis.name)) {
+        kernelInit[axis.name.slice('kernel.'.length) as SweepKernelKey] = value;
+      } else {
+        params[axis.name] = value;
+      }
+    });
+    const kernel = clampKernelSpec(kernelInit);
+    const pointSeed = derivePointSeed(seed, index);
+    const state = createKuramotoState(width, height);
+    if (options.qInit != null) {
+      initKuramotoState(state, options.qInit);
+    } else {
+      initKuramotoState(state, 0);
+      randomizePhases(state, pointSeed);
+    }
+    const randn = createNormalGenerator(pointSeed);
+    let chimeraSum = 0;
+    for (let step = 0; step < steps; step++) {
+      const { telemetry } = stepKuramotoState(state, params, dt, randn, (step + 1) * dt, {
+        kernel,
+        params,
+        integrator: options.integrator,
+        naturalFrequencies,
+        telemetry: { captureIrradiance: false },
+      });
+      orderSeries[step] = telemetry.orderParameter.magnitude;
+      if (step >= measureStart) {
+        chimeraSum += computeLocalCoherenceVariance(state, localRadius, unitR, unitI);
+      }
+    }
+    const window = steps - measureStart;
+    let orderSum = 0;
+    let orderSumSq = 0;
+    for (let step = measureStart; step < steps; step++) {
+      orderSum += orderSeries[step];
+      orderSumSq += orderSeries[step] * orderSeries[step];
+    }
+    const orderMean = orderSum / window;
+    const orderVariance = Math.max(0, orderSumSq / window - orderMean * orderMean);
+    // Settled from the step after the last excursion outside the steady-state band.
+    let settledStep = 0;
+    for (let step = steps - 1; step >= 0; step--) {
+      if (Math.abs(orderSeries[step] - orderMean) > settleTolerance) {
+        settledStep = step + 1;
+        break;
+      }
+    }
+    const point: SweepPoint = {
+      index,
+      seed: pointSeed,
+      values,
+      metrics: {
+        orderMean,
+        orderVariance,
+        chimeraIndex: chimeraSum / window,
+        settlingTime: settledStep * dt,
+      },
+    };
+    points.push(point);
+    options.onPoint?.(point, index, samples.length);
+  });
+
+  const table: SweepTable = {
+    schema: 'indra.kuramotoSweep',
+    version: 1,
+    sampling,
+    axes,
+    scenario: {
+      width,
+      height,
+      steps,
+      dt,
+      seed,
+      measureFraction,
+      localRadius,
+      settleTolerance,
+      qInit: options.qInit ?? null,
+      integrator: integratorMethod,
+      params: baseParams,
+      kernel: kernelSpecToJSON(baseKernel),
+      naturalFrequencies: options.naturalFrequencies ?? null,
+    },
+    points,
+  };
+  const { json, hash } = hashCanonicalJson(table, { indent: 2 });
+  return { table, json, hash };
+};
+
+/**
+ * Projects a sweep onto one parameter pair by averaging `metric` over every other axis.
+ * Grid sweeps keep their native resolution; Latin-hypercube samples are binned into
+ * `bins × bins` cells (default `ceil(sqrt(samples))`).
+ */
+export const buildSweepHeatmap = (
+  table: SweepTable,
+  xName: SweepParameterName,
+  yName: SweepParameterName,
+  metric: SweepMetric = 'orderMean',
+  bins?: number,
+): SweepHeatmap => {
+  const xAxis = table.axes.find((axis) => axis.name === xName);
+  const yAxis = table.axes.find((axis) => axis.name === yName);
+  if (!xAxis || !yAxis || xAxis === yAxis) {
+    throw new Error(
+      `[parameterSweep] heatmap needs two distinct sweep axes, got ${xName}/${yName}`,
+    );
+  }
+  const fallbackBins = Math.max(1, Math.ceil(Math.sqrt(table.points.length)));
+  const resolutionFor = (axis: SweepAxis) =>
+    table.sampling === 'grid'
+      ? Math.max(1, Math.floor(axis.steps ?? DEFAULT_GRID_STEPS))
+      : Math.max(1, Math.floor(bins ?? fallbackBins));
+  const width = resolutionFor(xAxis);
+  const height = resolutionFor(yAxis);
+  const sums = new Float64Array(width * height);
+  const counts = new Uint32Array(width * height);
+  const cellOf = (axis: SweepAxis, value: number, cells: number) => {
+    const span = axis.max - axis.min;
+    const t = span !== 0 ? (value - axis.min) / span : 0.5;
+    const scaled = table.sampling === 'grid' ? Math.round(t * (cells - 1)) : Math.floor(t * cells);
+    return clamp(scaled, 0, cells - 1);
+  };
+  for (const point of table.points) {
+    const x = cellOf(xAxis, point.values[xName] ?? xAxis.min, width);
+    const y = cellOf(yAxis, point.values[yName] ?? yAxis.min, height);
+    sums[y * width + x] += point.metrics[metric];
+    counts[y * width + x] += 1;
+  }
+  const values = new Float64Array(width * height);
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < values.length; i++) {
+    if (counts[i] === 0) {
+      values[i] = Number.NaN;
+      continue;
+    }
+    const value = sums[i] / counts[i];
+    values[i] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min > max) {
+    min = 0;
+    max = 0;
+  }
+  return { xAxis, yAxis, metric, width, height, values, min, max };
+};
+
+// Viridis control points; intermediate colours are linearly interpolated.
+const VIRIDIS_STOPS: readonly (readonly [number, number, number])[] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+const EMPTY_CELL_RGB = [48, 48, 48] as const;
+
+const sampleViridis = (t: number, out: Uint8Array, offset: number) => {
+  const scaled = clamp(t, 0, 1) * (VIRIDIS_STOPS.length - 1);
+  const lo = Math.min(VIRIDIS_STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - lo;
+  const a = VIRIDIS_STOPS[lo]!;
+  const b = VIRIDIS_STOPS[lo + 1]!;
+  for (let c = 0; c < 3; c++) {
+    out[offset + c] = Math.round(a[c]! + (b[c]! - a[c]!) * f);
+  }
+};
+
+/**
+ * Rasterises a heatmap with the viridis ramp, `cellSize` pixels per cell. The image is
+ * flipped vertically so the y-axis minimum sits at the bottom, as in a plotted phase diagram.
+ */
+export const renderSweepHeatmap = (heatmap: SweepHeatmap, cellSize = 16): RgbImage => {
+  const size = Math.max(1, Math.floor(cellSize));
+  const width = heatmap.width * size;
+  const height = heatmap.height * size;
+  const data = new Uint8Array(width * height * 3);
+  const range = heatmap.max - heatmap.min;
+  for (let py = 0; py < height; py++) {
+    const cellY = heatmap.height - 1 - Math.floor(py / size);
+    for (let px = 0; px < width; px++) {
+      const value = heatmap.values[cellY * heatmap.width + Math.floor(px / size)];
+      const offset = (py * width + px) * 3;
+      if (!Number.isFinite(value)) {
+        data.set(EMPTY_CELL_RGB, offset);
+        continue;
+      }
+      sampleViridis(range > 0 ? (value - heatmap.min) / range : 0.5, data, offset);
+    }
+  }
+  return { width, height, data };
+};
+
+/** Binary PPM (P6) encoding; the header is plain ASCII so the format needs no dependencies. */
+export const encodePpm = (image: RgbImage): Uint8Array => {
+  const header = new TextEncoder().encode(`P6\n${image.width} ${image.height}\n255\n`);
+  const out = new Uint8Array(header.length + image.data.length);
+  out.set(header, 0);
+  out.set(image.data, header.length);
+  return out;
+};
@@ -0,0 +1,491 @@
+import { makeResolution, type VolumeField } from './fields/contracts.js';
+import type { TimelinePlayer } from './timeline/runtime.js';
+
+/**
+ * Binary multi-frame volume recordings ("IVOL"). Little-endian throughout:
+ *
+ *   magic "IVOL" · u16 version · u8 bytes-per-sample (2 | 4) · u8 codec (0 none, 1 deflate)
+ *   u32 width · u32 height · u32 frameCount · u32 framesPerChunk · u32 chunkCount
+ *   u32 metadata length · UTF-8 JSON metadata
+ *   f64 timestamp (seconds) × frameCount
+ *   u32 stored chunk length × chunkCount
+ *   chunks: per frame, the phase, depth and intensity planes (float16 or float32), compressed
+ *   as a whole chunk when a codec is set.
+ */
+
+export type VolumeRecordingPrecision = 'float16' | 'float32';
+
+export type VolumeChunkCodecId = 'deflate';
+
+/**
+ * Chunk compressor. The format only stores the codec id; hosts supply the implementation
+ * (`cli/utils/volumeCodec.ts` wraps `node:zlib`).
+ */
+export type VolumeChunkCodec = {
+  id: VolumeChunkCodecId;
+  compress: (bytes: Uint8Array) => Uint8Array;
+  decompress: (bytes: Uint8Array) => Uint8Array;
+};
+
+export type VolumeRecordingWriterOptions = {
+  width: number;
+  height: number;
+  precision?: VolumeRecordingPrecision;
+  framesPerChunk?: number;
+  codec?: VolumeChunkCodec | null;
+  metadata?: Record<string, unknown>;
+};
+
+export type VolumeRecordingReaderOptions = {
+  codec?: VolumeChunkCodec | null;
+};
+
+export type VolumeRecordingHeader = {
+  version: number;
+  width: number;
+  height: number;
+  frameCount: number;
+  framesPerChunk: number;
+  precision: VolumeRecordingPrecision;
+  codec: VolumeChunkCodecId | null;
+  metadata: Record<string, unknown>;
+};
+
+const MAGIC = [0x49, 0x56, 0x4f, 0x4c]; // "IVOL"
+const VERSION = 1;
+const FIXED_HEADER_BYTES = 32;
+const PLANES = 3;
+const CODEC_IDS: Record<VolumeChunkCodecId, number> = { deflate: 1 };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const float32Scratch = new Float32Array(1);
+const uint32Scratch = new Uint32Array(float32Scratch.buffer);
+
+/** Round-to-nearest-even float32 → IEEE 754 binary16, with overflow to ±Inf. */
+export const encodeFloat16 = (value: number): number => {
+  float32Scratch[0] = value;
+  const bits = uint32Scratch[0]!;
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  const mantissa = bits & 0x7fffff;
+  if (exponent === 0xff) {
+    return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+  }
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1f) {
+    return sign | 0x7c00;
+  }
+  if (halfExponent <= 0) {
+    if (halfExponent < -10) return sign;
+    const full = mantissa | 0x800000;
+    const shift = 14 - halfExponent;
+    let half = full >>> shift;
+    const remainder = full & ((1 << shift) - 1);
+    const midpoint = 1 << (shift - 1);
+    if (remainder > midpoint || (remainder === midpoint && half & 1)) half += 1;
+    return sign | half;
+  }
+  let half = (halfExponent << 10) | (mantissa >>> 13);
+  const remainder = mantissa & 0x1fff;
+  if (remainder > 0x1000 || (remainder === 0x1000 && half & 1)) half += 1;
+  return sign | half;
+};
+
+export const decodeFloat16 = (half: number): number => {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >>> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  if (exponent === 0) return sign * mantissa * 2 ** -24;
+  if (exponent === 0x1f) return mantissa ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+};
+
+const bytesPerSample = (precision: VolumeRecordingPrecision) => (precision === 'float16' ? 2 : 4);
+
+export class VolumeRecordingWriter {
+  readonly width: number;
+  readonly height: number;
+  readonly precision: VolumeRecordingPrecision;
+  readonly framesPerChunk: number;
+  private readonly codec: VolumeChunkCodec | null;
+  private readonly metadata: Record<string, unknown>;
+  private readonly timestamps: number[] = [];
+  private readonly chunks: Uint8Array[] = [];
+  private pending: DataView;
+  private pendingFrames = 0;
+  private finished = false;
+
+  constructor(options: VolumeRecordingWriterOptions) {
+    const { width, height } = options;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error(`[volumeRecording] invalid resolution ${width}x${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.precision = options.precision ?? 'float32';
+    this.framesPerChunk = Math.max(1, Math.floor(options.framesPerChunk ?? 8));
+    this.codec = options.codec ?? null;
+    this.metadata = options.metadata ?? {};
+    this.pending = new DataView(new ArrayBuffer(this.frameBytes * this.framesPerChunk));
+  }
+
+  get frameCount() {
+    return this.timestamps.length;
+  }
+
+  private get frameBytes() {
+    return this.width * this.height * PLANES * bytesPerSample(this.precision);
+  }
+
+  append(field: VolumeField, timestampSeconds: number) {
+    if (this.finished) {
+      throw new Error('[volumeRecording] writer already finished');
+    }
+    const { width, height } = field.resolution;
+    if (width !== this.width || height !== this.height) {
+      throw new Error(
+        `[volumeRecording] frame is ${width}x${height}; expected ${this.width}x${this.height}`,
+      );
+    }
+    const last = this.timestamps[this.timestamps.length - 1];
+    if (!Number.isFinite(timestampSeconds) || (last != null && timestampSeconds < last)) {
+      throw new Error(
+        `[volumeRecording] timestamps must be finite and non-decreasing (got ${timestampSeconds} after ${last})`,
+      );
+    }
+    const view = this.pending;
+    const texels = width * height;
+    let offset = this.pendingFrames * this.frameBytes;
+    for (const plane of [field.phase, field.depth, field.intensity]) {
+      if (this.precision === 'float16') {
+        for (let i = 0; i < texels; i++, offset += 2) {
+          view.setUint16(offset, encodeFloat16(plane[i]), true);
+        }
+      } else {
+        for (let i = 0; i < texels; i++, offset += 4) {
+          view.setFloat32(offset, plane[i], true);
+        }
+      }
+    }
+    this.timestamps.push(timestampSeconds);
+    this.pendingFrames += 1;
+    if (this.pendingFrames === this.framesPerChunk) {
+      this.flushChunk();
+    }
+  }
+
+  private flushChunk() {
+    if (this.pendingFrames === 0) return;
+    const raw = new Uint8Array(this.pending.buffer, 0, this.pendingFrames * this.frameBytes);
+    this.chunks.push(this.codec ? this.codec.compress(raw) : raw.slice());
+    this.pendingFrames = 0;
+  }
+
+  /** Seals the recording and returns the encoded bytes; the writer cannot be reused. */
+  finish(): Uint8Array {
+    if (this.finished) {
+      throw new Error('[volumeRecording] writer already finished');
+    }
+    this.flushChunk();
+    this.finished = true;
+    const metadata = textEncoder.encode(JSON.stringify(this.metadata));
+    const frameCount = this.timestamps.length;
+    const tableBytes = frameCount * 8 + this.chunks.length * 4;
+    let payloadBytes = 0;
+    for (const chunk of this.chunks) payloadBytes += chunk.byteLength;
+    const out = new Uint8Array(
+      FIXED_HEADER_BYTES + metadata.byteLength + tableBytes + payloadBytes,
+    );
+    const view = new DataView(out.buffer);
+    out.set(MAGIC, 0);
+    view.setUint16(4, VERSION, true);
+    view.setUint8(6, bytesPerSample(this.precision));
+    view.setUint8(7, this.codec ? CODEC_IDS[this.codec.id] : 0);
+    view.setUint32(8, this.width, true);
+    view.setUint32(12, this.height, true);
+    view.setUint32(16, frameCount, true);
+    view.setUint32(20, this.framesPerChunk, true);
+    view.setUint32(24, this.chunks.length, true);
+    view.setUint32(28, metadata.byteLength, true);
+    out.set(metadata, FIXED_HEADER_BYTES);
+    let offset = FIXED_HEADER_BYTES + metadata.byteLength;
+    for (const timestamp of this.timestamps) {
+      view.setFloat64(offset, timestamp, true);
+      offset += 8;
+    }
+    for (const chunk of this.chunks) {
+      view.setUint32(offset, chunk.byteLength, true);
+      offset += 4;
+    }
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return out;
+  }
+}
+
+const codecFromId = (id: number): VolumeChunkCodecId | null => {
+  if (id === 0) return null;
+  for (const [name, value] of Object.entries(CODEC_IDS) as [VolumeChunkCodecId, number][]) {
+    if (value === id) return name;
+  }
+  throw new Error(`[volumeRecording] unknown chunk codec ${id}`);
+};
+
+/**
+ * Seekable reader over an encoded recording. Frames decode lazily, one chunk at a time, so a
+ * sequential replay touches each chunk once.
+ */
+export class VolumeRecordingReader {
+  readonly header: VolumeRecordingHeader;
+  readonly timestamps: Float64Array;
+  private readonly bytes: Uint8Array;
+  private readonly codec: VolumeChunkCodec | null;
+  private readonly chunkOffsets: number[];
+  private readonly chunkLengths: number[];
+  private cachedChunk = -1;
+  private cachedView: DataView | null = null;
+
+  constructor(source: Uint8Array | ArrayBuffer, options?: VolumeRecordingReaderOptions) {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+    this.bytes = bytes;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.byteLength < FIXED_HEADER_BYTES || MAGIC.some((value, i) => bytes[i] !== value)) {
+      throw new Error('[volumeRecording] not an IVOL recording');
+    }
+    const version = view.getUint16(4, true);
+    if (version !== VERSION) {
+      throw new Error(`[volumeRecording] unsupported version ${version}`);
+    }
+    const sampleBytes = view.getUint8(6);
+    if (sampleBytes !== 2 && sampleBytes !== 4) {
+      throw new Error(`[volumeRecording] unsupported sample size ${sampleBytes}`);
+    }
+    const codec = codecFromId(view.getUint8(7));
+    const width = view.getUint32(8, true);
+    const height = view.getUint32(12, true);
+    const frameCount = view.getUint32(16, true);
+    const framesPerChunk = view.getUint32(20, true);
+    const chunkCount = view.getUint32(24, true);
+    const metadataLength = view.getUint32(28, true);
+    if (framesPerChunk === 0 || chunkCount !== Math.ceil(frameCount / framesPerChunk)) {
+      throw new Error(
+        `[volumeRecording] ${chunkCount} chunks cannot hold ${frameCount} frames of ${framesPerChunk}`,
+      );
+    }
+    if (codec && options?.codec?.id !== codec) {
+      throw new Error(`[volumeRecording] recording uses ${codec} chunks; pass a matching codec`);
+    }
+    this.codec = codec ? options!.codec! : null;
+    let offset = FIXED_HEADER_BYTES;
+    const tableEnd = offset + metadataLength + frameCount * 8 + chunkCount * 4;
+    if (tableEnd > bytes.byteLength) {
+      throw new Error('[volumeRecording] truncated header');
+    }
+    const metadataText = textDecoder.decode(bytes.subarray(offset, offset + metadataLength));
+    offset += metadataLength;
+    this.timestamps = new Float64Array(frameCount);
+    for (let i = 0; i < frameCount; i++, offset += 8) {
+      this.timestamps[i] = view.getFloat64(offset, true);
+    }
+    this.chunkLengths = [];
+    this.chunkOffsets = [];
+    let chunkOffset = tableEnd;
+    for (let i = 0; i < chunkCount; i++, offset += 4) {
+      const length = view.getUint32(offset, true);
+      this.chunkOffsets.push(chunkOffset);
+      this.chunkLengths.push(length);
+      chunkOffset += length;
+    }
+    if (chunkOffset > bytes.byteLength) {
+      throw new Error(
+        `[volumeRecording] truncated payload (${bytes.byteLength} of ${chunkOffset} bytes)`,
+      );
+    }
+    this.header = {
+      version,
+      width,
+      height,
+      frameCount,
+      framesPerChunk,
+      precision: sampleBytes === 2 ? 'float16' : 'float32',
+      codec,
+      metadata: metadataLength > 0 ? (JSON.parse(metadataText) as Record<string, unknown>) : {},
+    };
+  }
+
+  get frameCount() {
+    return this.header.frameCount;
+  }
+
+  get duration() {
+    const count = this.header.frameCount;
+    return count > 0 ? this.timestamps[count - 1]! - this.timestamps[0]! : 0;
+  }
+
+  /** Index of the last frame stamped at or before `timeSeconds` (sample-and-hold, clamped). */
+  frameIndexAtTime(timeSeconds: number): number {
+    const timestamps = this.timestamps;
+    if (timestamps.length === 0) {
+      throw new Error('[volumeRecording] recording has no frames');
+    }
+    let lo = 0;
+    let hi = timestamps.length - 1;
+    if (!(timeSeconds >= timestamps[0]!)) return 0;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (timestamps[mid]! <= timeSeconds) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  /**
+   * Decodes frame `index`. Pass `target` to stream into existing planes (e.g. the composer's
+   * volume field) without allocating.
+   */
+  readFrame(index: number, target?: VolumeField): VolumeField {
+    const { width, height, frameCount, framesPerChunk, precision } = this.header;
+    if (!Number.isInteger(index) || index < 0 || index >= frameCount) {
+      throw new Error(`[volumeRecording] frame ${index} out of range 0..${frameCount - 1}`);
+    }
+    const texels = width * height;
+    const field = target ?? {
+      kind: 'volume' as const,
+      resolution: makeResolution(width, height),
+      phase: new Float32Array(texels),
+      depth: new Float32Array(texels),
+      intensity: new Float32Array(texels),
+    };
+    if (field.resolution.width !== width || field.resolution.height !== height) {
+      throw new Error(
+        `[volumeRecording] target is ${field.resolution.width}x${field.resolution.height}; expected ${width}x${height}`,
+      );
+    }
+    const view = this.loadChunk(Math.floor(index / framesPerChunk));
+    const sampleBytes = bytesPerSample(precision);
+    let offset = (index % framesPerChunk) * texels * PLANES * sampleBytes;
+    for (const plane of [field.phase, field.depth, field.intensity]) {
+      if (sampleBytes === 2) {
+        for (let i = 0; i < texels; i++, offset += 2) {
+          plane[i] = decodeFloat16(view.getUint16(offset, true));
+        }
+      } else {
+        for (let i = 0; i < texels; i++, offset += 4) {
+          plane[i] = view.getFloat32(offset, true);
+        }
+      }
+    }
+    return field;
+  }
+
+  readAtTime(timeSeconds: number, target?: VolumeField): VolumeField {
+    return this.readFrame(this.frameIndexAtTime(timeSeconds), target);
+  }
+
+  /** Replays the frame shown at timeline frame `frame`, using the player's clock and clamping. */
+  readAtTimelineFrame(player: TimelinePlayer, frame: number, target?: VolumeField): VolumeField {
+    const clamped = Math.max(0, Math.min(player.durationFrames, Math.floor(frame)));
+    return this.readAtTime(clamped / player.fps, target);
+  }
+
+  private loadChunk(chunk: number): DataView {
+    if (chunk === this.cachedChunk && this.cachedView) {
+      return this.cachedView;
+    }
+    const start = this.chunkOffsets[chunk]!;
+    const stored = this.bytes.subarray(start, start + this.chunkLengths[chunk]!);
+    const raw = this.codec ? this.codec.decompress(stored) : stored;
+    const { width, height, frameCount, framesPerChunk, precision } = this.header;
+    const frames = Math.min(framesPerChunk, frameCount - chunk * framesPerChunk);
+    const expected = frames * width * height * PLANES * bytesPerSample(precision);
+    if (raw.byteLength !== expected) {
+      throw new Error(
+        `[volumeRecording] chunk ${chunk} holds ${raw.byteLength} bytes; expected ${expected}`,
+      );
+    }
+    this.cachedChunk = chunk;
+    this.cachedView = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+    return this.cachedView;
+  }
+}
+
+/** Convenience: records a whole `VolumeField` sequence with matching timestamps. */
+export const encodeVolumeRecording = (
+  frames: readonly VolumeField[],
+  timestamps: readonly number[],
+  options?: Omit<VolumeRecordingWriterOptions, 'width' | 'height'>,
+): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('[volumeRecording] cannot encode an empty recording');
+  }
+  if (timestamps.length !== frames.length) {
+    throw new Error(
+      `[volumeRecording] ${timestamps.length} timestamps for ${frames.length} frames`,
+    );
+  }
+  const { width, height } = frames[0]!.resolution;
+  const writer = new VolumeRecordingWriter({ ...options, width, height });
+  frames.forEach((frame, i) => writer.append(frame, timestamps[i]!));
+  return writer.finish();
+};
+
+/** Asynchronous zlib inflater, e.g. one built on `DecompressionStream`. */
+export type VolumeChunkInflate = (bytes: Uint8Array) => Promise<Uint8Array>;
+
+const streamInflate: VolumeChunkInflate = async (bytes) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('[volumeRecording] no zlib inflater available; pass one explicitly');
+  }
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Header-only stand-in so the reader validates a deflate recording without decoding it. */
+const storedDeflate: VolumeChunkCodec = {
+  id: 'deflate',
+  compress: (bytes) => bytes,
+  decompress: (bytes) => bytes,
+};
+
+/**
+ * Rewrites a deflate recording with stored chunks so `VolumeRecordingReader` can open it without
+ * a codec. Browsers only expose zlib asynchronously, which cannot back a `VolumeChunkCodec`;
+ * uncompressed recordings are returned as-is.
+ */
+export const inflateVolumeRecording = async (
+  source: Uint8Array | ArrayBuffer,
+  inflate: VolumeChunkInflate = streamInflate,
+): Promise<Uint8Array> => {
+  const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+  const { header } = new VolumeRecordingReader(bytes, { codec: storedDeflate });
+  if (!header.codec) return bytes;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunkCount = view.getUint32(24, true);
+  const tableStart = FIXED_HEADER_BYTES + view.getUint32(28, true) + header.frameCount * 8;
+  const payloadStart = tableStart + chunkCount * 4;
+  const chunks: Uint8Array[] = [];
+  let offset = payloadStart;
+  let payloadBytes = 0;
+  for (let i = 0; i < chunkCount; i++) {
+    const length = view.getUint32(tableStart + i * 4, true);
+    const chunk = await inflate(bytes.subarray(offset, offset + length));
+    chunks.push(chunk);
+    payloadBytes += chunk.byteLength;
+    offset += length;
+  }
+  const out = new Uint8Array(payloadStart + payloadBytes);
+  out.set(bytes.subarray(0, payloadStart));
+  const outView = new DataView(out.buffer);
+  outView.setUint8(7, 0);
+  offset = payloadStart;
+  chunks.forEach((chunk, i) => {
+    outView.setUint32(tableStart + i * 4, chunk.byteLength, true);
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return out;
+};
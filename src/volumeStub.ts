@@ -101,9 +101,9 @@ export const snapshotVolumeStub = (state: VolumeStubState): VolumeField => ({
 export type VolumeRecording = {
   width: number;
   height: number;
-  phase: number[];
-  depth: number[];
-  intensity: number[];
+  phase: ArrayLike<number>;
+  depth: ArrayLike<number>;
+  intensity: ArrayLike<number>;
 };
 
 export const ingestVolumeRecording = (recording: VolumeRecording): VolumeField => {
@@ -0,0 +1,171 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import { makeResolution } from '../src/fields/contracts.js';
+import { AngularSpectrumSolver } from '../src/optics/angularSpectrum.js';
+
+const makeFrame = (
+  width: number,
+  height: number,
+  fill: (x: number, y: number) => [number, number],
+): OpticalFieldFrame => {
+  const frame = new OpticalFieldFrame(makeResolution(width, height));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [re, im] = fill(x, y);
+      frame.real[y * width + x] = re;
+      frame.imag[y * width + x] = im;
+    }
+  }
+  return frame;
+};
+
+const energy = (frame: OpticalFieldFrame) => {
+  let sum = 0;
+  for (let i = 0; i < frame.real.length; i++) {
+    sum += frame.real[i] * frame.real[i] + frame.imag[i] * frame.imag[i];
+  }
+  return sum;
+};
+
+const intensityAt = (frame: OpticalFieldFrame, index: number) =>
+  frame.real[index] * frame.real[index] + frame.imag[index] * frame.imag[index];
+
+test('on-axis plane wave picks up exp(i k dz) and keeps unit amplitude', () => {
+  const width = 16;
+  const height = 8;
+  const wavelengthNm = 633;
+  const dzMeters = 3.2e-6;
+  const solver = new AngularSpectrumSolver({
+    width,
+    height,
+    wavelengthNm,
+    pixelPitchMeters: 2e-6,
+    dzMeters,
+  });
+  const input = makeFrame(width, height, () => [1, 0]);
+  const output = solver.propagate(input);
+  const expected = (2 * Math.PI * dzMeters) / (wavelengthNm * 1e-9);
+  const expectedR = Math.cos(expected);
+  const expectedI = Math.sin(expected);
+  for (let i = 0; i < output.real.length; i++) {
+    assert.ok(Math.abs(output.real[i] - expectedR) < 1e-5, `real[${i}]`);
+    assert.ok(Math.abs(output.imag[i] - expectedI) < 1e-5, `imag[${i}]`);
+  }
+  const meta = output.getMeta();
+  assert.equal(meta.wavelengthNm, wavelengthNm);
+  assert.equal(meta.pixelPitchMeters, 2e-6);
+  assert.equal(meta.dt, dzMeters);
+});
+
+test('propagation conserves energy and is undone by back-propagation', () => {
+  const width = 12;
+  const height = 10;
+  const solver = new AngularSpectrumSolver({
+    width,
+    height,
+    wavelengthNm: 550,
+    pixelPitchMeters: 1e-6,
+    dzMeters: 25e-6,
+  });
+  const input = makeFrame(width, height, (x, y) => {
+    const r = Math.hypot(x - 5.5, y - 4.5);
+    return [Math.exp(-0.2 * r * r), 0.3 * Math.sin(x * 0.7 + y)];
+  });
+  const forward = solver.propagate(input);
+  assert.ok(Math.abs(energy(forward) - energy(input)) < 1e-4 * energy(input));
+  let maxChange = 0;
+  for (let i = 0; i < input.real.length; i++) {
+    maxChange = Math.max(maxChange, Math.abs(intensityAt(forward, i) - intensityAt(input, i)));
+  }
+  assert.ok(maxChange > 1e-2, 'expected the field to diffract');
+  const restored = solver.propagate(forward, { dzMeters: -25e-6 });
+  for (let i = 0; i < input.real.length; i++) {
+    assert.ok(Math.abs(restored.real[i] - input.real[i]) < 1e-4, `real[${i}]`);
+    assert.ok(Math.abs(restored.imag[i] - input.imag[i]) < 1e-4, `imag[${i}]`);
+  }
+});
+
+test('amplitude grating self-images at the Talbot distance', () => {
+  const width = 32;
+  const height = 4;
+  const pitch = 1e-6;
+  const wavelengthNm = 500;
+  const period = 8 * pitch;
+  const lambda = wavelengthNm * 1e-9;
+  const talbot = 1 / (1 / lambda - Math.sqrt(1 / (lambda * lambda) - 1 / (period * period)));
+  const solver = new AngularSpectrumSolver({
+    width,
+    height,
+    wavelengthNm,
+    pixelPitchMeters: pitch,
+    dzMeters: talbot,
+  });
+  const grating = makeFrame(width, height, (x) => [0.5 + 0.5 * Math.cos((2 * Math.PI * x) / 8), 0]);
+  const revived = solver.propagate(grating);
+  for (let i = 0; i < width; i++) {
+    assert.ok(
+      Math.abs(intensityAt(revived, i) - intensityAt(grating, i)) < 1e-4,
+      `intensity[${i}]`,
+    );
+  }
+  const quarter = solver.propagate(grating, { dzMeters: talbot / 4 });
+  let deviation = 0;
+  for (let i = 0; i < width; i++) {
+    deviation = Math.max(deviation, Math.abs(intensityAt(quarter, i) - intensityAt(grating, i)));
+  }
+  assert.ok(deviation > 0.1, `expected a washed-out quarter-Talbot plane, got ${deviation}`);
+});
+
+test('evanescent spatial frequencies are cut off', () => {
+  const width = 8;
+  const height = 8;
+  const solver = new AngularSpectrumSolver({
+    width,
+    height,
+    wavelengthNm: 800,
+    pixelPitchMeters: 0.25e-6,
+    dzMeters: 1e-6,
+  });
+  // Nyquist checkerboard: |f| = sqrt(2) / (2 * pitch) > 1 / lambda
+  const input = makeFrame(width, height, (x, y) => [(x + y) % 2 === 0 ? 1 : -1, 0]);
+  const output = solver.propagate(input);
+  assert.ok(energy(output) < 1e-8, `expected evanescent field to vanish, got ${energy(output)}`);
+});
+
+test('zero padding and band limiting suppress wrap-around', () => {
+  const width = 32;
+  const height = 32;
+  const config = {
+    width,
+    height,
+    wavelengthNm: 550,
+    pixelPitchMeters: 1e-6,
+    dzMeters: 200e-6,
+  };
+  const periodic = new AngularSpectrumSolver(config);
+  const padded = new AngularSpectrumSolver({ ...config, padding: 2, bandLimit: true });
+  assert.deepEqual(padded.getPaddedResolution(), { width: 64, height: 64 });
+  const input = makeFrame(width, height, (x, y) => {
+    const r = Math.hypot(x - 2, y - 16);
+    return [r < 2 ? 1 : 0, 0];
+  });
+  const farEdge = (frame: OpticalFieldFrame) => {
+    let sum = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = width - 4; x < width; x++) {
+        sum += intensityAt(frame, y * width + x);
+      }
+    }
+    return sum;
+  };
+  const periodicOut = periodic.propagate(input);
+  const paddedOut = padded.propagate(input);
+  assert.equal(paddedOut.real.length, width * height);
+  assert.ok(
+    farEdge(paddedOut) < 0.5 * farEdge(periodicOut),
+    `padded edge ${farEdge(paddedOut)} vs periodic ${farEdge(periodicOut)}`,
+  );
+  assert.ok(energy(paddedOut) <= energy(input) + 1e-4);
+});
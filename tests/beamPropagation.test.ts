@@ -0,0 +1,143 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { assertVolumeField, makeResolution, type SurfaceField } from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import {
+  createBeamPropagationVolume,
+  propagateBeamVolume,
+  setVolumeIllumination,
+  setVolumeIndexFromDepth,
+  setVolumeIndexFromLuminance,
+  setVolumeIndexSlices,
+  snapshotBeamPropagationVolume,
+  stepBeamPropagationVolume,
+} from '../src/optics/beamPropagation.js';
+
+const config = {
+  wavelengthNm: 500,
+  pixelPitchMeters: 2e-6,
+  sliceCount: 8,
+  thicknessMeters: 16e-6,
+  backgroundIndex: 1.33,
+  indexContrast: 0.01,
+};
+
+const k0 = (2 * Math.PI) / (config.wavelengthNm * 1e-9);
+
+const wrap = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const graySurface = (width: number, height: number, value: (x: number, y: number) => number) => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const base = (y * width + x) * 4;
+      const v = value(x, y);
+      rgba[base] = v;
+      rgba[base + 1] = v;
+      rgba[base + 2] = v;
+      rgba[base + 3] = 255;
+    }
+  }
+  return { kind: 'surface', resolution: makeResolution(width, height), rgba } as SurfaceField;
+};
+
+test('an empty stack is transparent and a uniform slab adds k₀ Δn L', () => {
+  const state = createBeamPropagationVolume(16, 8, config);
+  const empty = snapshotBeamPropagationVolume(state);
+  assertVolumeField(empty, 'test:empty');
+  for (let i = 0; i < 16 * 8; i++) {
+    assert.ok(Math.abs(empty.phase[i]!) < 1e-4, `phase[${i}] ${empty.phase[i]}`);
+    assert.ok(Math.abs(empty.intensity[i]! - 1) < 1e-4);
+    assert.equal(empty.depth[i], 1);
+  }
+
+  setVolumeIndexSlices(state, new Float32Array(16 * 8 * 8).fill(0.01));
+  assert.equal(state.dirty, true);
+  stepBeamPropagationVolume(state, 0.1);
+  assert.equal(state.dirty, false);
+  const expected = wrap(k0 * 0.01 * config.thicknessMeters);
+  for (let i = 0; i < 16 * 8; i++) {
+    assert.ok(Math.abs(wrap(state.phase[i]! - expected)) < 1e-3, `slab phase ${state.phase[i]}`);
+    assert.ok(Math.abs(state.depth[i]! - 0.5) < 1e-5);
+  }
+  assert.equal(state.exit.getMeta().solver, 'beamPropagation');
+  assert.throws(() => setVolumeIndexSlices(state, new Float32Array(3)), /expected 1024/);
+});
+
+test('luminance relief and depth maps fill the expected slices', () => {
+  const width = 8;
+  const height = 4;
+  const state = createBeamPropagationVolume(width, height, config);
+  // Left half black, right half mid-grey: the grey half holds a four-slice-thick object.
+  setVolumeIndexFromLuminance(
+    state,
+    graySurface(width, height, (x) => (x < width / 2 ? 0 : 128)),
+  );
+  const relief = Array.from({ length: 8 }, (_, s) => state.index[s * width * height + width - 1]);
+  assert.deepEqual(relief, [0.01, 0.01, 0.01, 0.01, 0, 0, 0, 0].map(Math.fround));
+  assert.equal(state.index[0], 0);
+
+  const depth = new Float32Array(width * height).fill(0.75);
+  setVolumeIndexFromDepth(state, depth);
+  propagateBeamVolume(state);
+  const filled = Array.from({ length: 8 }, (_, s) => state.index[s * width * height] !== 0);
+  assert.deepEqual(filled, [false, false, false, false, false, false, true, true]);
+  // Slices 6 and 7 sit at 13/16 and 15/16 of the stack.
+  assert.ok(Math.abs(state.depth[0]! - 0.875) < 1e-5, `depth ${state.depth[0]}`);
+  assert.throws(() => setVolumeIndexFromDepth(state, new Float32Array(2)), /expected 32/);
+  assert.throws(
+    () =>
+      setVolumeIndexFromLuminance(
+        state,
+        graySurface(4, 4, () => 0),
+      ),
+    /expected 8x4/,
+  );
+});
+
+test('a phase grating diffracts into intensity fringes while conserving energy', () => {
+  const width = 32;
+  const height = 4;
+  const state = createBeamPropagationVolume(width, height, {
+    ...config,
+    sliceCount: 16,
+    thicknessMeters: 400e-6,
+    indexContrast: 0.002,
+  });
+  setVolumeIndexFromLuminance(
+    state,
+    graySurface(width, height, (x) => (x % 8 < 4 ? 255 : 0)),
+  );
+  propagateBeamVolume(state);
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of state.intensity) {
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  assert.ok(Math.abs(sum / state.intensity.length - 1) < 1e-3, 'lossless stack keeps energy');
+  assert.ok(max - min > 0.05, `grating contrast ${max - min}`);
+});
+
+test('custom illumination is propagated in absolute intensity units', () => {
+  const width = 8;
+  const height = 8;
+  const state = createBeamPropagationVolume(width, height, config);
+  const beam = new OpticalFieldFrame(makeResolution(width, height));
+  beam.real.fill(0);
+  beam.imag.fill(2);
+  setVolumeIllumination(state, beam);
+  stepBeamPropagationVolume(state, 0);
+  for (let i = 0; i < width * height; i++) {
+    assert.ok(Math.abs(state.intensity[i]! - 4) < 1e-3);
+    assert.ok(Math.abs(wrap(state.phase[i]! - Math.PI / 2)) < 1e-4);
+  }
+  assert.throws(
+    () => setVolumeIllumination(state, new OpticalFieldFrame(makeResolution(4, 4))),
+    /expected 8x8/,
+  );
+  assert.throws(() => createBeamPropagationVolume(0, 4), /invalid resolution/);
+});
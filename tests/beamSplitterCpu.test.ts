@@ -0,0 +1,215 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  beamSplitterConfigFromNode,
+  type BeamSplitterBranchConfig,
+  type BeamSplitterRendererConfig,
+} from '../src/optics/beamSplitterCommon.js';
+import { CpuBeamSplitterRenderer } from '../src/optics/beamSplitterCpu.js';
+import {
+  compareBeamSplitterFrames,
+  runBeamSplitterParity,
+  type BeamSplitterParityTarget,
+} from '../src/optics/beamSplitterParity.js';
+import type { BeamSplitterDiagnosticsEntry } from '../src/state/types.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+// 4×1 strip: red, green, blue, grey.
+const PIXELS = Uint8Array.of(200, 0, 0, 255, 0, 100, 0, 255, 0, 0, 50, 255, 80, 80, 80, 255);
+
+const branch = (
+  id: string,
+  extra: Partial<BeamSplitterBranchConfig> = {},
+): BeamSplitterBranchConfig => ({
+  id,
+  label: id,
+  weight: 1,
+  priority: 0,
+  source: 'source',
+  transformStack: [],
+  ...extra,
+});
+
+const MIRRORED = [
+  branch('a'),
+  branch('b', { priority: 1, transformStack: [{ kind: 'mirror', axis: 'x' }] }),
+];
+
+const config = (
+  recombine: string,
+  branches: BeamSplitterBranchConfig[] = MIRRORED,
+): BeamSplitterRendererConfig => ({
+  canvasWidth: 4,
+  canvasHeight: 1,
+  nodeId: 'splitter',
+  asset: { id: 'strip', previewUrl: '', width: 4, height: 1, pixels: PIXELS },
+  branches,
+  recombine,
+});
+
+const renderWith = async (recombine: string, branches?: BeamSplitterBranchConfig[]) => {
+  const renderer = new CpuBeamSplitterRenderer();
+  await renderer.configure(config(recombine, branches));
+  return { renderer, pixels: renderer.render(4, 1) };
+};
+
+const texel = (pixels: Uint8ClampedArray, index: number) =>
+  Array.from(pixels.subarray(index * 4, index * 4 + 4));
+
+test('every recombine mode matches the shader arithmetic on a mirrored pair', async () => {
+  // Texel 0 sees red (branch a) and grey (branch b, mirrored).
+  const expected: Record<string, number[]> = {
+    sum: [255, 80, 80, 255],
+    average: [140, 40, 40, 255],
+    energy: [198, 57, 57, 255],
+    priority: [200, 0, 0, 255],
+    max: [80, 80, 80, 255],
+    phase: [140, 98, 182, 255],
+  };
+  for (const [mode, rgba] of Object.entries(expected)) {
+    const { pixels } = await renderWith(mode);
+    texel(pixels, 0).forEach((value, c) => close(value, rgba[c]!, 1, `${mode} channel ${c}`));
+  }
+  const { pixels } = await renderWith('average');
+  assert.deepEqual(texel(pixels, 1), [0, 50, 25, 255], 'green meets blue');
+  const unknown = await renderWith('bogus');
+  assert.deepEqual(texel(unknown.pixels, 0), [255, 80, 80, 255], 'unknown modes fall back to sum');
+});
+
+test('diagnostics report energy, coverage and priority occlusion', async () => {
+  const published: (readonly BeamSplitterDiagnosticsEntry[])[] = [];
+  const renderer = new CpuBeamSplitterRenderer({
+    publishDiagnostics: (entries) => published.push(entries),
+  });
+  await renderer.configure(config('priority'));
+  renderer.render(4, 1);
+  assert.equal(published.length, 1);
+  const entry = published[0]![0]!;
+  assert.equal(entry.nodeId, 'splitter');
+  assert.equal(entry.recombineMode, 'priority');
+  const [a, b] = entry.branches;
+  close(a!.coverage, 1, 1e-9, 'a covers the frame');
+  close(b!.coverage, 1, 1e-9, 'b covers the frame');
+  close(a!.occlusion, 0, 1e-9, 'a wins every texel');
+  close(b!.occlusion, 1, 1e-9, 'b is always hidden');
+  close(a!.energyShare + b!.energyShare, 1, 1e-9, 'shares sum to one');
+  // The mirror permutes texels, so both branches integrate the same energy.
+  close(a!.energyShare, 0.5, 1e-9, 'mirrored energy');
+
+  const later = renderer.diagnostics(42)!;
+  assert.equal(later.updatedAt, 42);
+  assert.ok(later.frameId > entry.frameId, 'frame ids advance');
+  renderer.dispose();
+  assert.equal(renderer.diagnostics(), null, 'disposed renderers report nothing');
+});
+
+test('interferometer mode cancels half-wave arms and reports visibility', async () => {
+  const arm = (id: string, pathLengthMeters: number) =>
+    branch(id, { optics: { pathLengthMeters, tiltXRad: 0, tiltYRad: 0 } });
+  const bright = await renderWith('interferometer', [arm('a', 0.1), arm('b', 0.1)]);
+  // Equal arms rebuild the input intensity: luminance of red 200 ≈ 60.
+  assert.deepEqual(texel(bright.pixels, 0), [60, 60, 60, 255]);
+
+  const dark = await renderWith('interferometer', [arm('a', 0.1), arm('b', 0.1 + 275e-9)]);
+  for (let i = 0; i < 4; i++) {
+    assert.deepEqual(texel(dark.pixels, i).slice(0, 3), [0, 0, 0], `dark texel ${i}`);
+  }
+  const entry = dark.renderer.diagnostics()!;
+  assert.equal(entry.recombineMode, 'interferometer');
+  const interference = entry.interference!;
+  assert.equal(interference.geometry, 'machZehnder');
+  assert.equal(interference.wavelengthNm, 550);
+  close(interference.visibility, 1, 1e-6, 'matched arms interfere fully');
+  close(Math.abs(interference.phaseDifferences[0]!.meanRad), Math.PI, 1e-4, 'half-wave offset');
+});
+
+test('configure validates assets and loads them through the hook', async () => {
+  const renderer = new CpuBeamSplitterRenderer();
+  const { asset } = config('sum');
+  await assert.rejects(
+    renderer.configure({ ...config('sum'), asset: { ...asset!, pixels: PIXELS.subarray(4) } }),
+    /has 12 bytes; expected 16/,
+  );
+  await assert.rejects(
+    renderer.configure({ ...config('sum'), asset: { ...asset!, pixels: undefined } }),
+    /no loadAsset hook/,
+  );
+
+  let loads = 0;
+  const loading = new CpuBeamSplitterRenderer({
+    loadAsset: async (requested) => {
+      loads += 1;
+      return { width: requested.width, height: requested.height, pixels: PIXELS };
+    },
+  });
+  const withoutPixels = { ...config('sum'), asset: { ...asset!, pixels: undefined } };
+  await loading.configure(withoutPixels);
+  await loading.configure(withoutPixels);
+  assert.equal(loads, 1, 'the decoded asset is cached by id');
+  assert.deepEqual(texel(loading.render(4, 1), 0), [255, 80, 80, 255]);
+});
+
+test('parity harness compares the CPU frame against a GPU target', async () => {
+  const reference = Uint8Array.of(10, 20, 30, 255, 0, 0, 0, 255);
+  const near = compareBeamSplitterFrames(reference, Uint8Array.of(11, 20, 28, 255, 0, 0, 0, 255));
+  assert.equal(near.passed, true);
+  assert.equal(near.maxDifference, 2);
+  close(near.meanDifference, 3 / 8, 1e-12, 'mean per channel');
+  const far = compareBeamSplitterFrames(reference, Uint8Array.of(10, 20, 30, 255, 9, 0, 0, 255));
+  assert.equal(far.passed, false);
+  assert.equal(far.mismatchedTexels, 1);
+  assert.throws(() => compareBeamSplitterFrames(reference, reference.subarray(4)), /sizes differ/);
+
+  // Stand-in for the WebGL renderer: replays a CPU frame with a one-step rounding error.
+  const shadow = new CpuBeamSplitterRenderer();
+  const gpu: BeamSplitterParityTarget = {
+    configure: (next) => shadow.configure(next),
+    render() {},
+    readPixels(width, height) {
+      const frame = Uint8Array.from(shadow.render(width, height));
+      frame[0] = Math.max(0, frame[0]! - 1);
+      return frame;
+    },
+  };
+  const parity = await runBeamSplitterParity(
+    gpu,
+    new CpuBeamSplitterRenderer(),
+    config('average'),
+    4,
+    1,
+  );
+  assert.equal(parity.passed, true);
+  assert.equal(parity.maxDifference, 1);
+  assert.equal(parity.texels, 4);
+});
+
+test('manifest nodes resolve to renderer branches and recombine mode', () => {
+  const resolved = beamSplitterConfigFromNode({
+    id: 'node-7',
+    parameters: [{ id: 'recombine', value: 'energy' }],
+    metadata: {
+      branches: [
+        {
+          id: 'left',
+          label: 'Left',
+          weight: 0.5,
+          transformStack: [{ kind: 'rotate', degrees: 90 }],
+        },
+        { id: 'right', source: 'edge', transformStack: [{ kind: 'mirror', axis: 'y' }] },
+      ],
+    },
+  });
+  assert.equal(resolved.nodeId, 'node-7');
+  assert.equal(resolved.recombine, 'energy');
+  assert.deepEqual(
+    resolved.branches.map((entry) => [entry.id, entry.weight, entry.source, entry.transformStack]),
+    [
+      ['left', 0.5, 'source', [{ kind: 'rotate', degrees: 90 }]],
+      ['right', 1, 'edge', [{ kind: 'mirror', axis: 'y' }]],
+    ],
+  );
+  assert.equal(beamSplitterConfigFromNode({ id: 'bare' }).recombine, 'sum');
+});
@@ -0,0 +1,199 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync, inflateSync } from 'node:zlib';
+
+import { assertVolumeField } from '../src/fields/contracts.js';
+import {
+  decodeDepthMap,
+  depthMapToVolumeField,
+  importDepthVolume,
+  resampleDepthMap,
+  sniffDepthMap,
+} from '../src/media/depthImport.js';
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/** Grey 16-bit PNG whose row `y` uses filter `y % 5`; CRCs are left zero (the decoder skips them). */
+const encodeGray16Png = (width: number, height: number, values: number[]) => {
+  const stride = width * 2;
+  const raw = new Uint8Array(height * (stride + 1));
+  let previous = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(stride);
+    for (let x = 0; x < width; x++) {
+      row[x * 2] = values[y * width + x]! >> 8;
+      row[x * 2 + 1] = values[y * width + x]! & 0xff;
+    }
+    const filter = y % 5;
+    raw[y * (stride + 1)] = filter;
+    for (let i = 0; i < stride; i++) {
+      const a = i >= 2 ? row[i - 2]! : 0;
+      const b = previous[i]!;
+      const c = i >= 2 ? previous[i - 2]! : 0;
+      const predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter]!;
+      raw[y * (stride + 1) + 1 + i] = (row[i]! - predictor) & 0xff;
+    }
+    previous = row;
+  }
+  const chunk = (type: string, payload: Uint8Array) => {
+    const out = new Uint8Array(12 + payload.length);
+    new DataView(out.buffer).setUint32(0, payload.length);
+    out.set(
+      Array.from(type, (ch) => ch.charCodeAt(0)),
+      4,
+    );
+    out.set(payload, 8);
+    return out;
+  };
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, width);
+  new DataView(ihdr.buffer).setUint32(4, height);
+  ihdr[8] = 16;
+  const compressed = new Uint8Array(deflateSync(raw));
+  // Split the stream across two IDAT chunks, as large encoders do.
+  const half = compressed.length >> 1;
+  const parts = [
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', compressed.subarray(0, half)),
+    chunk('IDAT', compressed.subarray(half)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (ch) => ch.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+test('16-bit PNG depth maps decode through every row filter', async () => {
+  const width = 7;
+  const height = 10;
+  const values = Array.from({ length: width * height }, (_, i) => (i * 977 + 13) % 65536);
+  const png = encodeGray16Png(width, height, values);
+  const map = await decodeDepthMap(png);
+  assert.equal(map.format, 'png');
+  assert.equal(map.maxValue, 65535);
+  assert.deepEqual(Array.from(map.data), values);
+
+  const injected = await decodeDepthMap(png, {
+    inflate: (bytes) => new Uint8Array(inflateSync(bytes)),
+  });
+  assert.deepEqual(injected.data, map.data);
+});
+
+test('PGM maps decode in binary and ASCII forms', async () => {
+  const binary = concat(
+    ascii('P5\n# depth from stereo\n3 2\n1023\n'),
+    Uint8Array.from([0, 0, 0, 1, 1, 0, 2, 0, 3, 0xff, 0, 7]),
+  );
+  const map = await decodeDepthMap(binary);
+  assert.equal(map.format, 'pgm');
+  assert.equal(map.maxValue, 1023);
+  assert.deepEqual(Array.from(map.data), [0, 1, 256, 512, 1023, 7]);
+
+  const text = await decodeDepthMap(ascii('P2 2 2 255\n10 20 # row 0\n30 40\n'));
+  assert.deepEqual(Array.from(text.data), [10, 20, 30, 40]);
+
+  const eight = await decodeDepthMap(concat(ascii('P5 2 1 255 '), Uint8Array.from([9, 200])));
+  assert.deepEqual(Array.from(eight.data), [9, 200]);
+});
+
+test('PFM maps honour endianness, bottom-up rows and holes', async () => {
+  const encode = (magic: 'Pf' | 'PF', littleEndian: boolean, samples: number[]) => {
+    const payload = new Uint8Array(samples.length * 4);
+    const view = new DataView(payload.buffer);
+    samples.forEach((v, i) => view.setFloat32(i * 4, v, littleEndian));
+    return concat(ascii(`${magic}\n2 2\n${littleEndian ? '-1.0' : '1.0'}\n`), payload);
+  };
+  // Stored bottom row first.
+  const stored = [3.5, NaN, 1.25, 2];
+  for (const littleEndian of [true, false]) {
+    const map = await decodeDepthMap(encode('Pf', littleEndian, stored));
+    assert.equal(map.format, 'pfm');
+    assert.equal(map.maxValue, null);
+    assert.deepEqual(Array.from(map.data.subarray(0, 2)), [1.25, 2]);
+    assert.equal(map.data[2], 3.5);
+    assert.ok(Number.isNaN(map.data[3]));
+  }
+  const colour = await decodeDepthMap(encode('PF', true, [1, 9, 9, 2, 9, 9, 3, 9, 9, 4, 9, 9]));
+  assert.deepEqual(Array.from(colour.data), [3, 4, 1, 2]);
+
+  const field = depthMapToVolumeField(await decodeDepthMap(encode('Pf', true, stored)));
+  assertVolumeField(field, 'test:pfm');
+  assert.equal(field.depth[3], 1, 'holes sit on the far plane');
+  assert.equal(field.intensity[3], 0);
+  assert.equal(field.intensity[0], 1);
+});
+
+test('normalisation maps near/far onto 0…1 and derives wrapped phase', async () => {
+  const map = await decodeDepthMap(ascii('P2 4 1 1000\n100 300 500 900\n'));
+  const auto = depthMapToVolumeField(map);
+  assert.deepEqual(Array.from(auto.depth), [0, 0.25, 0.5, 1]);
+  assert.ok(auto.phase.every((v) => v === 0));
+
+  const clamped = depthMapToVolumeField(map, { near: 300, far: 500, invert: true });
+  assert.deepEqual(Array.from(clamped.depth), [1, 1, 0, 0]);
+
+  const wavelengthNm = 500;
+  const withPhase = depthMapToVolumeField(map, {
+    phase: { wavelengthNm, rangeMeters: 200e-9, pathFactor: 2 },
+  });
+  // Round trip over 200 nm at 500 nm: k₀ · 2 · 200 nm · depth = 1.6π · depth.
+  const expected = [0, 0.4 * Math.PI, 0.8 * Math.PI, 1.6 * Math.PI - 2 * Math.PI];
+  withPhase.phase.forEach((value, i) => {
+    assert.ok(Math.abs(value - expected[i]!) < 1e-5, `phase[${i}] ${value}`);
+  });
+  assert.throws(
+    () => depthMapToVolumeField(map, { phase: { wavelengthNm: 0, rangeMeters: 1 } }),
+    /positive wavelength/,
+  );
+});
+
+test('imports resample to the scene resolution and reject unknown data', async () => {
+  const map = await decodeDepthMap(ascii('P2 2 2 255\n0 85\n170 255\n'));
+  const up = resampleDepthMap(map, 4, 4);
+  assert.deepEqual(Array.from(up.data.subarray(0, 4)), [0, 0, 85, 85]);
+  assert.deepEqual(Array.from(up.data.subarray(12)), [170, 170, 255, 255]);
+  assert.equal(resampleDepthMap(map, 2, 2), map);
+
+  const { field } = await importDepthVolume(ascii('P2 2 2 255\n0 85\n170 255\n'), 3, 1);
+  assert.equal(field.resolution.width, 3);
+  assert.equal(field.resolution.height, 1);
+
+  await assert.rejects(decodeDepthMap(ascii('GIF89a')), /unrecognised depth map/);
+  await assert.rejects(decodeDepthMap(ascii('P5 2 2 255\n\x01')), /expected 4/);
+  await assert.rejects(decodeDepthMap(ascii('P2 0 2 255\n')), /invalid resolution/);
+});
+
+test('drops are sniffed as depth only for PGM, PFM and 16-bit PNG', () => {
+  const png16 = encodeGray16Png(2, 2, [0, 1, 2, 3]);
+  assert.equal(sniffDepthMap(png16.subarray(0, 32)), 'png');
+  const png8 = png16.slice(0, 32);
+  png8[24] = 8;
+  assert.equal(sniffDepthMap(png8), null, '8-bit PNGs stay pictures');
+  assert.equal(sniffDepthMap(ascii('P5 2 2 255\n')), 'pgm');
+  assert.equal(sniffDepthMap(ascii('Pf\n2 2\n-1\n')), 'pfm');
+  assert.equal(sniffDepthMap(ascii('GIF89a')), null);
+});
@@ -0,0 +1,152 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { fft1d, fft2d, getFftPlan, halfSpectrumWidth, irfft2d, rfft2d } from '../src/math/fft.js';
+
+const mulberry32 = (seed: number) => {
+  let t = seed >>> 0;
+  return () => {
+    t += 0x6d2b79f5;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomPlane = (length: number, seed: number) => {
+  const rng = mulberry32(seed);
+  const plane = new Float64Array(length);
+  for (let i = 0; i < length; i++) plane[i] = rng() * 2 - 1;
+  return plane;
+};
+
+const naiveDft2d = (
+  real: ArrayLike<number>,
+  imag: ArrayLike<number>,
+  width: number,
+  height: number,
+) => {
+  const outReal = new Float64Array(width * height);
+  const outImag = new Float64Array(width * height);
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      let sumR = 0;
+      let sumI = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const angle = -2 * Math.PI * ((u * x) / width + (v * y) / height);
+          const c = Math.cos(angle);
+          const s = Math.sin(angle);
+          const r = real[y * width + x];
+          const im = imag[y * width + x];
+          sumR += r * c - im * s;
+          sumI += r * s + im * c;
+        }
+      }
+      outReal[v * width + u] = sumR;
+      outImag[v * width + u] = sumI;
+    }
+  }
+  return { real: outReal, imag: outImag };
+};
+
+const maxAbsDiff = (a: ArrayLike<number>, b: ArrayLike<number>, length = a.length) => {
+  let max = 0;
+  for (let i = 0; i < length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+};
+
+test('plans pick radix-2, mixed-radix and Bluestein paths by factorisation', () => {
+  assert.equal(getFftPlan(1).algorithm, 'identity');
+  assert.equal(getFftPlan(64).algorithm, 'radix2');
+  assert.equal(getFftPlan(60).algorithm, 'mixedRadix');
+  assert.deepEqual(getFftPlan(60).factors, [4, 3, 5]);
+  assert.equal(getFftPlan(34).algorithm, 'bluestein');
+  assert.equal(getFftPlan(97).algorithm, 'bluestein');
+  assert.equal(getFftPlan(64), getFftPlan(64), 'plans are cached per length');
+});
+
+test('1D transforms match the naive DFT for every path', () => {
+  for (const size of [1, 2, 3, 8, 12, 15, 30, 49, 17, 34, 97, 128]) {
+    const real = randomPlane(size, size);
+    const imag = randomPlane(size, size + 1000);
+    const expected = naiveDft2d(real, imag, size, 1);
+    const outReal = Float64Array.from(real);
+    const outImag = Float64Array.from(imag);
+    fft1d(outReal, outImag);
+    const tolerance = 1e-9 * size;
+    assert.ok(maxAbsDiff(outReal, expected.real) < tolerance, `real mismatch for n=${size}`);
+    assert.ok(maxAbsDiff(outImag, expected.imag) < tolerance, `imag mismatch for n=${size}`);
+    fft1d(outReal, outImag, { inverse: true });
+    assert.ok(maxAbsDiff(outReal, real) < tolerance, `round trip real for n=${size}`);
+    assert.ok(maxAbsDiff(outImag, imag) < tolerance, `round trip imag for n=${size}`);
+  }
+});
+
+test('strided line transform only touches the selected samples', () => {
+  const width = 5;
+  const height = 6;
+  const real = randomPlane(width * height, 7);
+  const imag = new Float64Array(width * height);
+  const column = 2;
+  const original = Float64Array.from(real);
+  fft1d(real, imag, { offset: column, stride: width, length: height });
+  const colReal = new Float64Array(height);
+  for (let y = 0; y < height; y++) colReal[y] = original[y * width + column];
+  const expected = naiveDft2d(colReal, new Float64Array(height), height, 1);
+  for (let y = 0; y < height; y++) {
+    assert.ok(Math.abs(real[y * width + column] - expected.real[y]) < 1e-9);
+    assert.ok(Math.abs(imag[y * width + column] - expected.imag[y]) < 1e-9);
+    for (let x = 0; x < width; x++) {
+      if (x === column) continue;
+      assert.equal(real[y * width + x], original[y * width + x]);
+    }
+  }
+});
+
+test('2D complex transform matches the naive DFT on Float32 planes', () => {
+  for (const [width, height] of [
+    [8, 8],
+    [12, 10],
+    [7, 9],
+    [17, 6],
+  ] as const) {
+    const texels = width * height;
+    const real = Float32Array.from(randomPlane(texels, width * 31 + height));
+    const imag = Float32Array.from(randomPlane(texels, width * 17 + height));
+    const expected = naiveDft2d(real, imag, width, height);
+    const original = { real: Float32Array.from(real), imag: Float32Array.from(imag) };
+    fft2d(real, imag, width, height);
+    assert.ok(maxAbsDiff(real, expected.real) < 1e-4, `real mismatch ${width}x${height}`);
+    assert.ok(maxAbsDiff(imag, expected.imag) < 1e-4, `imag mismatch ${width}x${height}`);
+    fft2d(real, imag, width, height, { inverse: true });
+    assert.ok(maxAbsDiff(real, original.real) < 1e-5, `round trip ${width}x${height}`);
+    assert.ok(maxAbsDiff(imag, original.imag) < 1e-5, `round trip ${width}x${height}`);
+  }
+});
+
+test('real-to-complex transform returns the Hermitian half spectrum and inverts', () => {
+  for (const [width, height] of [
+    [8, 6],
+    [9, 5],
+    [10, 7],
+    [13, 4],
+  ] as const) {
+    const texels = width * height;
+    const input = Float32Array.from(randomPlane(texels, width + height * 101));
+    const expected = naiveDft2d(input, new Float64Array(texels), width, height);
+    const halfWidth = halfSpectrumWidth(width);
+    const spectrum = rfft2d(input, width, height);
+    assert.equal(spectrum.real.length, halfWidth * height);
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < halfWidth; u++) {
+        const idx = v * halfWidth + u;
+        const ref = v * width + u;
+        assert.ok(Math.abs(spectrum.real[idx] - expected.real[ref]) < 1e-4, `re(${u},${v})`);
+        assert.ok(Math.abs(spectrum.imag[idx] - expected.imag[ref]) < 1e-4, `im(${u},${v})`);
+      }
+    }
+    const restored = irfft2d(spectrum, width, height);
+    assert.ok(maxAbsDiff(restored, input) < 1e-5, `inverse mismatch ${width}x${height}`);
+  }
+});
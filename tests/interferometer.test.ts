@@ -0,0 +1,189 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createWavePlateStep } from '../src/kuramotoCore.js';
+import {
+  createInterferometerInput,
+  interferometerDiagnostics,
+  traceInterferometer,
+  type InterferometerArm,
+} from '../src/optics/interferometer.js';
+import { parseBranches, serialiseBranches } from '../src/state/beamSplitter.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const WAVELENGTH = 633e-9;
+const PITCH = 10e-6;
+const SIZE = 16;
+
+const plane = () =>
+  createInterferometerInput(new Float32Array(SIZE * SIZE).fill(1), SIZE, SIZE, {
+    wavelengthNm: 633,
+    pixelPitchMeters: PITCH,
+  });
+
+const arms = (delta: number, extra: Partial<InterferometerArm> = {}): InterferometerArm[] => [
+  { id: 'a', optics: { pathLengthMeters: 0.1, tiltXRad: 0, tiltYRad: 0 } },
+  { id: 'b', ...extra, optics: { pathLengthMeters: 0.1 + delta, tiltXRad: 0, tiltYRad: 0 } },
+];
+
+test('Mach–Zehnder output follows cos²(Δφ/2) of the path difference', () => {
+  const input = plane();
+  const bright = traceInterferometer(input, arms(WAVELENGTH));
+  const dark = traceInterferometer(input, arms(WAVELENGTH / 2));
+  const quarter = traceInterferometer(input, arms(WAVELENGTH / 4));
+  for (const i of [0, 37, SIZE * SIZE - 1]) {
+    close(bright.intensity[i]!, 1, 1e-4, `bright texel ${i}`);
+    close(dark.intensity[i]!, 0, 1e-4, `dark texel ${i}`);
+    close(quarter.intensity[i]!, 0.5, 1e-4, `quadrature texel ${i}`);
+    close(bright.armIntensity[1]![i]!, 0.25, 1e-6, 'each arm delivers a quarter');
+  }
+  close(Math.abs(dark.meanPhaseDifference[1]!), Math.PI, 1e-4, 'half-wave path difference');
+  close(quarter.meanPhaseDifference[1]!, Math.PI / 2, 1e-4, 'quarter-wave path difference');
+  assert.ok(
+    dark.phaseDifference[0]!.every((v) => v === 0),
+    'reference arm has no offset',
+  );
+  close(dark.meanVisibility, 1, 1e-6, 'equal arms interfere fully');
+
+  const unequal = traceInterferometer(input, [
+    { id: 'a', weight: 3 },
+    { id: 'b', weight: 1 },
+  ]);
+  // Arm intensities 9/16 and 1/16: V = 2√(I₁I₂)/(I₁+I₂) = 0.6.
+  close(unequal.meanVisibility, 0.6, 1e-6, 'unbalanced split');
+});
+
+test('a tilted arm produces straight fringes at λ / sin θ', () => {
+  const period = 8;
+  const tilt = Math.asin(WAVELENGTH / (period * PITCH));
+  const result = traceInterferometer(plane(), [
+    { id: 'a' },
+    { id: 'b', optics: { pathLengthMeters: 0, tiltXRad: tilt, tiltYRad: 0 } },
+  ]);
+  const row = 5;
+  for (let x = 0; x < SIZE - period; x++) {
+    const i = row * SIZE + x;
+    close(result.intensity[i]!, result.intensity[i + period]!, 1e-4, `period at x=${x}`);
+    close(result.intensity[i]!, result.intensity[x]!, 1e-5, 'fringes are vertical');
+  }
+  // Texel centres sit π/8 off the fringe extrema.
+  close(result.fringeContrast, Math.cos(Math.PI / 8), 1e-4, 'sampled contrast');
+  const differences = result.phaseDifference[1]!;
+  const step = Math.atan2(
+    Math.sin(differences[row * SIZE + 1]! - differences[row * SIZE]!),
+    Math.cos(differences[row * SIZE + 1]! - differences[row * SIZE]!),
+  );
+  close(step, (2 * Math.PI) / period, 1e-4, 'phase ramp per texel');
+});
+
+test('polarization elements control fringe visibility', () => {
+  const input = plane();
+  const polarized = (orientationRad: number, pathLengthMeters = 0) => ({
+    pathLengthMeters,
+    tiltXRad: 0,
+    tiltYRad: 0,
+    polarization: { type: 'polarizer' as const, orientationRad },
+  });
+  const crossed = traceInterferometer(input, [
+    { id: 'a', optics: polarized(0) },
+    { id: 'b', optics: polarized(Math.PI / 2, WAVELENGTH / 2) },
+  ]);
+  close(crossed.meanVisibility, 0, 1e-6, 'orthogonal polarizations do not interfere');
+  close(crossed.fringeContrast, 0, 1e-4, 'no fringes');
+  close(crossed.intensity[0]!, 0.25, 1e-5, 'intensities add');
+
+  const restored = traceInterferometer(input, [
+    { id: 'a', optics: polarized(0) },
+    {
+      id: 'b',
+      optics: polarized(Math.PI / 2),
+      steps: [createWavePlateStep(Math.PI, Math.PI / 4, 'Half-wave plate')],
+    },
+  ]);
+  close(restored.meanVisibility, 1, 1e-5, 'a half-wave plate realigns the arms');
+
+  const horizontal = createInterferometerInput([1, 1, 1, 1], 2, 2, {
+    wavelengthNm: 633,
+    jones: [
+      { re: 1, im: 0 },
+      { re: 0, im: 0 },
+    ],
+  });
+  close(traceInterferometer(horizontal, arms(WAVELENGTH / 2)).intensity[3]!, 0, 1e-4, 'x input');
+});
+
+test('Michelson arms count double and report diagnostics entries', () => {
+  const input = plane();
+  const michelson = traceInterferometer(input, arms(WAVELENGTH / 4), { geometry: 'michelson' });
+  close(michelson.intensity[10]!, 0, 1e-4, 'λ/4 mirror offset is a dark fringe');
+  close(Math.abs(michelson.meanPhaseDifference[1]!), Math.PI, 1e-4, 'round trip doubles phase');
+
+  const period = 8;
+  const mirrorTilt = Math.asin(WAVELENGTH / (period * PITCH)) / 2;
+  const tilted = traceInterferometer(
+    input,
+    [{ id: 'a' }, { id: 'b', optics: { pathLengthMeters: 0, tiltXRad: 0, tiltYRad: mirrorTilt } }],
+    { geometry: 'michelson' },
+  );
+  for (let y = 0; y < SIZE - period; y++) {
+    close(
+      tilted.intensity[y * SIZE]!,
+      tilted.intensity[(y + period) * SIZE]!,
+      1e-4,
+      `mirror tilt fringe period at y=${y}`,
+    );
+  }
+
+  const entry = interferometerDiagnostics(michelson, arms(0), {
+    nodeId: 'splitter',
+    frameId: 3,
+    updatedAt: 10,
+  });
+  assert.equal(entry.recombineMode, 'interferometer');
+  assert.deepEqual(
+    entry.branches.map((branch) => [branch.branchId, branch.energyShare, branch.coverage]),
+    [
+      ['a', 0.5, 1],
+      ['b', 0.5, 1],
+    ],
+  );
+  const interference = entry.interference!;
+  assert.equal(interference.geometry, 'michelson');
+  assert.equal(interference.referenceBranchId, 'a');
+  assert.equal(interference.phaseDifferences.length, 1);
+  assert.equal(interference.phaseDifferences[0]!.branchId, 'b');
+  assert.equal(interference.visibilityMap.data.length, SIZE * SIZE);
+
+  assert.throws(() => traceInterferometer(input, []), /at least one arm/);
+  assert.throws(() => traceInterferometer([input], arms(0)), /1 inputs supplied for 2 arms/);
+  assert.throws(() => traceInterferometer(input, arms(0), { referenceArm: 2 }), /out of range/);
+});
+
+test('branch optics round-trip through beam-splitter metadata', () => {
+  const [branch, plain] = parseBranches({
+    branches: [
+      {
+        id: 'arm',
+        optics: {
+          pathLengthMeters: 0.25,
+          tiltXRad: 0.001,
+          polarization: { type: 'polarizer', orientationRad: 1, extinctionRatio: 4 },
+        },
+      },
+      { id: 'plain' },
+    ],
+  });
+  assert.deepEqual(branch!.optics, {
+    pathLengthMeters: 0.25,
+    tiltXRad: 0.001,
+    tiltYRad: 0,
+    polarization: { type: 'polarizer', orientationRad: 1, extinctionRatio: 1 },
+  });
+  assert.equal(plain!.optics, undefined);
+  const serialised = serialiseBranches([branch!, plain!]);
+  assert.deepEqual(serialised[0]!.optics, branch!.optics);
+  assert.equal('optics' in serialised[1]!, false);
+  assert.deepEqual(parseBranches({ branches: serialised })[0]!.optics, branch!.optics);
+});
@@ -1,8 +1,73 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 
-import { computeCouplingWeight, computeCouplingWeights } from '../src/kuramotoCore.js';
-import { getCouplingKernelParams } from '../src/kernel/kernelSpec.js';
+import {
+  computeCouplingWeight,
+  computeCouplingWeights,
+  createKuramotoState,
+  createNormalGenerator,
+  stepKuramotoState,
+  type KuramotoParams,
+  type KuramotoState,
+} from '../src/kuramotoCore.js';
+import {
+  createKernelSpec,
+  getCouplingKernelParams,
+  type CouplingBoundary,
+  type CouplingIntegrator,
+} from '../src/kernel/kernelSpec.js';
+
+const couplingParams: KuramotoParams = {
+  alphaKur: 0.3,
+  gammaKur: 0.1,
+  omega0: 0.2,
+  K0: 2.5,
+  epsKur: 0,
+  fluxX: 0.7,
+  fluxY: -0.4,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const seedState = (width: number, height: number, componentCount: number, seed: number) => {
+  const state = createKuramotoState(width, height, { componentCount });
+  const randn = createNormalGenerator(seed);
+  for (const { real, imag } of state.components) {
+    for (let i = 0; i < real.length; i++) {
+      real[i] = randn();
+      imag[i] = randn();
+    }
+  }
+  return state;
+};
+
+const runCouplingStep = (
+  integrator: CouplingIntegrator,
+  boundary: CouplingBoundary,
+  params: KuramotoParams = couplingParams,
+): KuramotoState => {
+  const state = seedState(13, 9, 2, 42);
+  const kernel = createKernelSpec({
+    anisotropy: 1.1,
+    couplingIntegrator: integrator,
+    couplingBoundary: boundary,
+  });
+  stepKuramotoState(state, params, 1e-3, () => 0, 1e-3, { kernel });
+  return state;
+};
+
+const maxStateDiff = (a: KuramotoState, b: KuramotoState) => {
+  let max = 0;
+  for (let c = 0; c < a.componentCount; c++) {
+    const ca = a.components[c]!;
+    const cb = b.components[c]!;
+    for (let i = 0; i < ca.real.length; i++) {
+      max = Math.max(max, Math.abs(ca.real[i] - cb.real[i]), Math.abs(ca.imag[i] - cb.imag[i]));
+    }
+  }
+  return max;
+};
 
 test('DMT coupling kernel yields Mexican-hat profile', () => {
   const params = getCouplingKernelParams('dmt');
@@ -38,3 +103,33 @@ test('vectorized coupling path reuses provided buffer', () => {
   assert.ok(out[1] !== 0);
   assert.equal(out[2], 0);
 });
+
+test('spectral coupling matches the direct stencil on a flux-twisted periodic lattice', () => {
+  const direct = runCouplingStep('direct', 'periodic');
+  const spectral = runCouplingStep('spectral', 'periodic');
+  const diff = maxStateDiff(direct, spectral);
+  assert.ok(diff < 1e-4, `periodic spectral/direct mismatch ${diff}`);
+});
+
+test('spectral coupling matches the direct stencil with zero-padded boundaries', () => {
+  const direct = runCouplingStep('direct', 'zeroPadded');
+  const spectral = runCouplingStep('spectral', 'zeroPadded');
+  const diff = maxStateDiff(direct, spectral);
+  assert.ok(diff < 1e-4, `zero-padded spectral/direct mismatch ${diff}`);
+  const periodic = runCouplingStep('direct', 'periodic');
+  assert.ok(maxStateDiff(direct, periodic) > 5e-5, 'boundary choice should matter');
+});
+
+test('spectral coupling keeps small-world edges', () => {
+  const params: KuramotoParams = {
+    ...couplingParams,
+    smallWorldWeight: 2,
+    p_sw: 0.4,
+    smallWorldEnabled: true,
+    smallWorldSeed: 9,
+  };
+  const direct = runCouplingStep('direct', 'periodic', params);
+  const spectral = runCouplingStep('spectral', 'periodic', params);
+  const diff = maxStateDiff(direct, spectral);
+  assert.ok(diff < 1e-4, `small-world spectral/direct mismatch ${diff}`);
+});
@@ -0,0 +1,178 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createKuramotoState, type KuramotoParams } from '../src/kuramotoCore.js';
+import {
+  createBarabasiAlbertGraph,
+  createErdosRenyiGraph,
+  createGraphKuramotoState,
+  createGraphPixelMap,
+  createHyperbolicLatticeGraph,
+  createKuramotoGraph,
+  graphDegree,
+  graphEdgeCount,
+  initGraphKuramotoState,
+  parseKuramotoGraph,
+  projectGraphToLattice,
+  stepGraphKuramotoState,
+} from '../src/kuramoto/graph.js';
+
+const params: KuramotoParams = {
+  alphaKur: 0,
+  gammaKur: 0,
+  omega0: 0,
+  K0: 2,
+  epsKur: 0,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+test('JSON and CSV loaders agree on ids, weights and symmetry', () => {
+  const csv = parseKuramotoGraph(
+    ['# connectome excerpt', 'source,target,weight', 'V1,V2,0.5', 'V2;MT;2', 'MT\tV1'].join('\n'),
+  );
+  const json = parseKuramotoGraph(
+    JSON.stringify({
+      edges: [['V1', 'V2', 0.5], { source: 'V2', target: 'MT', weight: 2 }, ['MT', 'V1']],
+    }),
+  );
+  for (const graph of [csv, json]) {
+    assert.deepEqual(graph.ids, ['V1', 'V2', 'MT']);
+    assert.equal(graphEdgeCount(graph), 3);
+    assert.deepEqual(Array.from(graph.offsets), [0, 2, 4, 6]);
+    assert.deepEqual(Array.from(graph.neighbors), [1, 2, 0, 2, 0, 1]);
+    assert.deepEqual(Array.from(graph.weights), [0.5, 1, 0.5, 2, 1, 2]);
+  }
+
+  const adjacency = parseKuramotoGraph('{"directed":true,"adjacency":[[0,1],[0,0]]}', 'json');
+  assert.equal(adjacency.directed, true);
+  assert.equal(graphDegree(adjacency, 0), 1, 'row 0 is pulled by node 1');
+  assert.equal(graphDegree(adjacency, 1), 0);
+
+  const placed = parseKuramotoGraph(
+    JSON.stringify({
+      nodes: [
+        { id: 'a', x: 0.25, y: 0.5 },
+        { id: 'b', x: 0.75, y: 0.5 },
+      ],
+      edges: [['a', 'b']],
+    }),
+  );
+  assert.deepEqual(Array.from(placed.positions!), [0.25, 0.5, 0.75, 0.5]);
+  assert.throws(() => parseKuramotoGraph('a,b,heavy'), /invalid weight/);
+  assert.throws(() => parseKuramotoGraph('{"nodes":[]}'), /"edges" or "adjacency"/);
+  assert.throws(() => createKuramotoGraph(2, [[0, 2]]), /outside 0\.\.1/);
+});
+
+test('random generators are seeded and have the expected degree structure', () => {
+  const er = createErdosRenyiGraph(200, 0.05, 11);
+  assert.deepEqual(createErdosRenyiGraph(200, 0.05, 11).neighbors, er.neighbors);
+  assert.notDeepEqual(createErdosRenyiGraph(200, 0.05, 12).neighbors, er.neighbors);
+  const meanDegree = (2 * graphEdgeCount(er)) / er.nodeCount;
+  assert.ok(Math.abs(meanDegree - 0.05 * 199) < 1.5, `ER mean degree ${meanDegree}`);
+
+  const ba = createBarabasiAlbertGraph(300, 2, 5);
+  assert.equal(graphEdgeCount(ba), 3 + (300 - 3) * 2);
+  const degrees = Array.from({ length: ba.nodeCount }, (_, i) => graphDegree(ba, i));
+  assert.ok(Math.min(...degrees) >= 2);
+  assert.ok(Math.max(...degrees) > 20, 'preferential attachment grows hubs');
+  assert.throws(() => createBarabasiAlbertGraph(3, 3), /1 ≤ m < n/);
+});
+
+test('hyperbolic {7,3} lattice has regular interior vertices inside the disk', () => {
+  const central = createHyperbolicLatticeGraph({ p: 7, q: 3, depth: 0 });
+  assert.equal(central.nodeCount, 7);
+  assert.equal(graphEdgeCount(central), 7);
+
+  const graph = createHyperbolicLatticeGraph({ p: 7, q: 3, depth: 2 });
+  const degrees = Array.from({ length: graph.nodeCount }, (_, i) => graphDegree(graph, i));
+  assert.equal(Math.max(...degrees), 3);
+  // Every vertex of the central heptagon is surrounded by tiles after the first ring.
+  for (let i = 0; i < 7; i++) assert.equal(degrees[i], 3);
+  // First ring: 7 edge-neighbours plus 7 vertex-neighbours around the central tile.
+  const ringOne = createHyperbolicLatticeGraph({ p: 7, q: 3, depth: 1 });
+  assert.equal(ringOne.nodeCount, 7 + 7 * 5 - 7);
+  for (let i = 0; i < graph.nodeCount; i++) {
+    const dx = graph.positions![i * 2]! - 0.5;
+    const dy = graph.positions![i * 2 + 1]! - 0.5;
+    assert.ok(Math.hypot(dx, dy) < 0.5);
+  }
+  assert.throws(() => createHyperbolicLatticeGraph({ p: 4, q: 4, depth: 1 }), /not a hyperbolic/);
+});
+
+test('graph Kuramoto synchronises on a connected graph and rk4 matches the ODE', () => {
+  const graph = createErdosRenyiGraph(60, 0.2, 3);
+  const state = createGraphKuramotoState(graph);
+  initGraphKuramotoState(state, { seed: 4 });
+  const initial = state.telemetry.orderParameter.magnitude;
+  for (let i = 0; i < 200; i++) {
+    stepGraphKuramotoState(state, params, 0.05, () => 0, { method: 'rk4' });
+  }
+  assert.ok(initial < 0.4, `random start ${initial}`);
+  assert.ok(state.telemetry.orderParameter.magnitude > 0.99);
+
+  // Two nodes: φ = θ₁ − θ₀ obeys φ' = Δω − 2K sin φ, locking at asin(Δω / 2K).
+  const pair = createGraphKuramotoState(createKuramotoGraph(2, [[0, 1]]));
+  initGraphKuramotoState(pair, { phases: [0, 0] });
+  const detuning = Float32Array.from([-0.25, 0.25]);
+  for (let i = 0; i < 400; i++) {
+    stepGraphKuramotoState(pair, params, 0.05, () => 0, {
+      method: 'rk4',
+      naturalFrequencies: detuning,
+    });
+  }
+  const phi = Math.atan2(pair.Zi[1]!, pair.Zr[1]!) - Math.atan2(pair.Zi[0]!, pair.Zr[0]!);
+  assert.ok(Math.abs(phi - Math.asin(0.5 / (2 * params.K0))) < 1e-4, `locked offset ${phi}`);
+  assert.throws(
+    () =>
+      stepGraphKuramotoState(pair, params, 0.05, () => 0, {
+        naturalFrequencies: new Float32Array(3),
+      }),
+    /expected 2/,
+  );
+});
+
+test('pixel maps rasterise node phases onto a lattice state', () => {
+  const graph = createKuramotoGraph(2, [[0, 1]], {
+    positions: Float32Array.from([0.25, 0.5, 0.75, 0.5]),
+  });
+  const map = createGraphPixelMap(graph.positions!, 4, 2);
+  assert.deepEqual(Array.from(map), [0, 0, 1, 1, 0, 0, 1, 1]);
+  const clipped = createGraphPixelMap(graph.positions!, 4, 2, 0.1);
+  assert.deepEqual(Array.from(clipped), [-1, -1, -1, -1, -1, -1, -1, -1]);
+
+  const large = createBarabasiAlbertGraph(150, 2, 9);
+  const fast = createGraphPixelMap(large.positions!, 24, 24);
+  for (let idx = 0; idx < fast.length; idx++) {
+    const px = ((idx % 24) + 0.5) / 24;
+    const py = (Math.floor(idx / 24) + 0.5) / 24;
+    let best = -1;
+    let bestSq = Infinity;
+    for (let n = 0; n < large.nodeCount; n++) {
+      const d = (large.positions![n * 2]! - px) ** 2 + (large.positions![n * 2 + 1]! - py) ** 2;
+      if (d < bestSq) {
+        bestSq = d;
+        best = n;
+      }
+    }
+    assert.equal(fast[idx], best, `pixel ${idx}`);
+  }
+
+  const state = createGraphKuramotoState(graph);
+  initGraphKuramotoState(state, { phases: [0, Math.PI / 2] });
+  const lattice = createKuramotoState(4, 2, { componentCount: 2 });
+  projectGraphToLattice(state, map, lattice);
+  for (const view of lattice.components) {
+    assert.deepEqual(
+      Array.from(view.real, (v) => Math.round(v)),
+      [1, 1, 0, 0, 1, 1, 0, 0],
+    );
+    assert.deepEqual(
+      Array.from(view.imag, (v) => Math.round(v)),
+      [0, 0, 1, 1, 0, 0, 1, 1],
+    );
+  }
+});
@@ -0,0 +1,151 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createKuramotoInstrumentationSnapshot,
+  createKuramotoState,
+  createNormalGenerator,
+  stepKuramotoState,
+  type KuramotoIntegrator,
+  type KuramotoIntegratorOptions,
+  type KuramotoParams,
+  type KuramotoState,
+} from '../src/kuramotoCore.js';
+
+const baseParams: KuramotoParams = {
+  alphaKur: 0.2,
+  gammaKur: 0.15,
+  omega0: 0.4,
+  K0: 1.6,
+  epsKur: 0,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const seedState = (width: number, height: number, seed: number) => {
+  const state = createKuramotoState(width, height);
+  const randn = createNormalGenerator(seed);
+  const { real, imag } = state.components[0]!;
+  for (let i = 0; i < real.length; i++) {
+    const phase = Math.PI * randn();
+    const amp = 0.6 + 0.1 * randn();
+    real[i] = amp * Math.cos(phase);
+    imag[i] = amp * Math.sin(phase);
+  }
+  return state;
+};
+
+const advance = (
+  integrator: KuramotoIntegrator | KuramotoIntegratorOptions,
+  params: KuramotoParams,
+  dt: number,
+  steps: number,
+  state: KuramotoState = seedState(8, 6, 11),
+) => {
+  for (let i = 0; i < steps; i++) {
+    stepKuramotoState(state, params, dt, () => 0, (i + 1) * dt, { integrator });
+  }
+  return state;
+};
+
+const maxDiff = (a: KuramotoState, b: KuramotoState) => {
+  let max = 0;
+  for (let i = 0; i < a.Zr.length; i++) {
+    max = Math.max(max, Math.abs(a.Zr[i] - b.Zr[i]), Math.abs(a.Zi[i] - b.Zi[i]));
+  }
+  return max;
+};
+
+test('ETD integrates pure damping and rotation exactly', () => {
+  const params = { ...baseParams, K0: 0, gammaKur: 2, omega0: 3 };
+  const dt = 0.5;
+  const initial = seedState(5, 4, 3);
+  const state = seedState(5, 4, 3);
+  stepKuramotoState(state, params, dt, () => 0, dt, { integrator: 'etd' });
+  const decay = Math.exp(-params.gammaKur * dt);
+  const cos = Math.cos(params.omega0 * dt);
+  const sin = Math.sin(params.omega0 * dt);
+  for (let i = 0; i < state.Zr.length; i++) {
+    const expectedR = decay * (initial.Zr[i] * cos - initial.Zi[i] * sin);
+    const expectedI = decay * (initial.Zr[i] * sin + initial.Zi[i] * cos);
+    assert.ok(Math.abs(state.Zr[i] - expectedR) < 1e-6, `real[${i}]`);
+    assert.ok(Math.abs(state.Zi[i] - expectedI) < 1e-6, `imag[${i}]`);
+  }
+  assert.equal(state.telemetry.integrator.method, 'etd');
+  assert.equal(state.telemetry.integrator.substeps, 1);
+  assert.equal(state.telemetry.integrator.acceptedDt, dt);
+});
+
+test('higher-order integrators track a fine reference far better than Euler', () => {
+  const dt = 0.2;
+  const steps = 5;
+  const reference = advance('rk4', baseParams, dt / 32, steps * 32);
+  const errors = {
+    euler: maxDiff(advance('euler', baseParams, dt, steps), reference),
+    rk4: maxDiff(advance('rk4', baseParams, dt, steps), reference),
+    etd: maxDiff(advance('etd', baseParams, dt, steps), reference),
+    rk45: maxDiff(advance({ method: 'rk45', tolerance: 1e-6 }, baseParams, dt, steps), reference),
+  };
+  assert.ok(errors.euler > 1e-3, `euler error ${errors.euler}`);
+  assert.ok(errors.rk4 < errors.euler / 50, `rk4 error ${errors.rk4}`);
+  assert.ok(errors.rk45 < errors.euler / 50, `rk45 error ${errors.rk45}`);
+  assert.ok(errors.etd < errors.euler / 5, `etd error ${errors.etd}`);
+});
+
+test('RK45 rejects and shrinks steps on stiff settings and stays bounded', () => {
+  const params = { ...baseParams, gammaKur: 40, K0: 12 };
+  const dt = 0.25;
+  const euler = advance('euler', params, dt, 3);
+  const eulerBlewUp = Array.from(euler.Zr).some((v) => !Number.isFinite(v) || Math.abs(v) > 10);
+  assert.ok(eulerBlewUp, 'explicit Euler should blow up at this step size');
+
+  const state = seedState(8, 6, 11);
+  stepKuramotoState(state, params, dt, () => 0, dt, { integrator: 'rk45' });
+  const report = state.telemetry.integrator;
+  assert.equal(report.method, 'rk45');
+  assert.ok(report.rejections > 0, 'expected at least one rejected step');
+  assert.ok(report.substeps > 1, 'expected adaptive sub-stepping');
+  assert.ok(report.acceptedDt > 0 && report.acceptedDt < dt);
+  assert.ok(report.errorEstimate <= 1);
+  assert.equal(report.forcedAcceptances, 0);
+  for (let i = 0; i < state.Zr.length; i++) {
+    assert.ok(Number.isFinite(state.Zr[i]) && Math.abs(state.Zr[i]) < 1, `Zr[${i}]`);
+  }
+  const snapshot = createKuramotoInstrumentationSnapshot(state);
+  assert.deepEqual(snapshot.telemetry.integrator, report);
+  assert.notEqual(snapshot.telemetry.integrator, report);
+});
+
+test('RK45 honours the sub-step budget', () => {
+  const params = { ...baseParams, gammaKur: 40, K0: 12 };
+  const state = seedState(8, 6, 11);
+  stepKuramotoState(state, params, 0.25, () => 0, 0.25, {
+    integrator: { method: 'rk45', tolerance: 1e-10, maxSubsteps: 3 },
+  });
+  const report = state.telemetry.integrator;
+  assert.ok(report.substeps + report.rejections <= 3);
+  assert.equal(report.forcedAcceptances, 1, 'the capped final sub-step is reported');
+  assert.ok(report.errorEstimate > 1);
+});
+
+test('noise increments use the Euler draw order for every integrator', () => {
+  const params = { ...baseParams, K0: 0, gammaKur: 0, omega0: 0, epsKur: 0.01 };
+  const run = (integrator: KuramotoIntegrator) => {
+    const state = createKuramotoState(4, 3, { componentCount: 2 });
+    stepKuramotoState(state, params, 0.1, createNormalGenerator(5), 0.1, { integrator });
+    return state;
+  };
+  const euler = run('euler');
+  for (const method of ['rk4', 'rk45', 'etd'] as const) {
+    const other = run(method);
+    for (let c = 0; c < 2; c++) {
+      assert.deepEqual(other.components[c]!.real, euler.components[c]!.real, method);
+      assert.deepEqual(other.components[c]!.imag, euler.components[c]!.imag, method);
+    }
+  }
+  assert.equal(euler.telemetry.integrator.method, 'euler');
+  assert.equal(euler.telemetry.integrator.substeps, 1);
+});
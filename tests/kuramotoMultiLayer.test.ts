@@ -0,0 +1,259 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createKuramotoState,
+  initKuramotoState,
+  stepKuramotoState,
+  type KuramotoParams,
+} from '../src/kuramotoCore.js';
+import { runMediaPipeline } from '../src/media/mediaPipeline.js';
+import {
+  coerceKuramotoLayerConfig,
+  createMultiLayerKuramoto,
+  createMultiLayerPhaseFields,
+  deriveMultiLayerKuramotoFields,
+  initMultiLayerKuramoto,
+  resolveInterLayerCoupling,
+  setInterLayerCoupling,
+  stepMultiLayerKuramoto,
+  syncMultiLayerKuramoto,
+} from '../src/kuramoto/multiLayer.js';
+
+const params: KuramotoParams = {
+  alphaKur: 0,
+  gammaKur: 0,
+  omega0: 0,
+  K0: 0,
+  epsKur: 0,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const wrap = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+test('coupling matrices are validated and the diagonal is dropped', () => {
+  const { coupling, phaseLag } = resolveInterLayerCoupling(2, {
+    strength: [
+      [5, 1],
+      [2, 5],
+    ],
+    phaseLag: 0.3,
+  });
+  assert.deepEqual(Array.from(coupling), [0, 1, 2, 0]);
+  assert.deepEqual(Array.from(phaseLag), [0, 0.3, 0.3, 0]);
+  assert.throws(() => resolveInterLayerCoupling(3, { strength: [[0]] }), /expected 3/);
+  assert.throws(
+    () =>
+      createMultiLayerKuramoto(4, 4, [
+        { id: 'rim', params },
+        { id: 'rim', params },
+      ]),
+    /duplicate layer id/,
+  );
+});
+
+test('uncoupled layers evolve exactly like independent lattices', () => {
+  const rimParams = { ...params, K0: 0.6, omega0: 0.4, epsKur: 0.01 };
+  const surfaceParams = { ...params, K0: 1.2, omega0: -0.2, epsKur: 0.01 };
+  const multi = createMultiLayerKuramoto(8, 6, [
+    { id: 'rim', params: rimParams },
+    { id: 'surface', params: surfaceParams, integrator: 'rk4' },
+  ]);
+  initMultiLayerKuramoto(multi, [1, 2]);
+  const rim = createKuramotoState(8, 6);
+  const surface = createKuramotoState(8, 6);
+  initKuramotoState(rim, 1);
+  initKuramotoState(surface, 2);
+
+  let draws = 0;
+  const randn = () => Math.sin(++draws * 1.7);
+  for (let i = 0; i < 5; i++) stepMultiLayerKuramoto(multi, 0.05, randn);
+  draws = 0;
+  for (let i = 0; i < 5; i++) {
+    stepKuramotoState(rim, rimParams, 0.05, randn);
+    stepKuramotoState(surface, surfaceParams, 0.05, randn, undefined, { integrator: 'rk4' });
+  }
+  assert.deepEqual(multi.layers[0]!.state.Zr, rim.Zr);
+  assert.deepEqual(multi.layers[1]!.state.Zi, surface.Zi);
+  assert.equal(multi.telemetry.layers[1]!.telemetry.integrator.method, 'rk4');
+});
+
+test('inter-layer Sakaguchi coupling entrains detuned populations at the lag offset', () => {
+  const delta = 0.2;
+  const strength = 1;
+  const lag = 0.4;
+  const multi = createMultiLayerKuramoto(
+    6,
+    6,
+    [
+      { id: 'rim', params: { ...params, omega0: delta } },
+      { id: 'surface', params: { ...params, omega0: -delta } },
+    ],
+    null,
+  );
+  initMultiLayerKuramoto(multi, [0, 1]);
+  for (let i = 0; i < 200; i++) stepMultiLayerKuramoto(multi, 0.05, () => 0);
+  assert.ok(multi.telemetry.pairs[0]!.locking < 0.5, 'uncoupled twisted layers stay unlocked');
+
+  setInterLayerCoupling(multi, {
+    strength: [
+      [0, strength],
+      [strength, 0],
+    ],
+    phaseLag: lag,
+  });
+  initMultiLayerKuramoto(multi, 0);
+  for (let i = 0; i < 1200; i++) stepMultiLayerKuramoto(multi, 0.02, () => 0);
+  const pair = multi.telemetry.pairs[0]!;
+  // Phase-difference ODE φ = θ_rim − θ_surface: φ' = 2δ − 2K cos α sin φ.
+  const expected = Math.asin(delta / (strength * Math.cos(lag)));
+  assert.equal(pair.source, 'rim');
+  assert.equal(pair.target, 'surface');
+  assert.ok(pair.locking > 0.999, `locking ${pair.locking}`);
+  assert.ok(
+    Math.abs(wrap(pair.phaseOffset - expected)) < 0.02,
+    `offset ${pair.phaseOffset} vs ${expected}`,
+  );
+  assert.equal(pair.strength, strength);
+  assert.equal(pair.phaseLag, lag);
+});
+
+test('derived layer fields compose into the weighted kur field', () => {
+  const multi = createMultiLayerKuramoto(8, 8, [
+    { id: 'L', params: { ...params, K0: 0.5 }, weight: 3 },
+    { id: 'M', params: { ...params, K0: 0.5 }, weight: 1 },
+    { id: 'S', params, weight: 0 },
+  ]);
+  initMultiLayerKuramoto(multi, [1, 2, 3]);
+  stepMultiLayerKuramoto(multi, 0.05, () => 0);
+  const fields = createMultiLayerPhaseFields(multi);
+  const composite = deriveMultiLayerKuramotoFields(multi, fields);
+  assert.equal(composite, fields.composite);
+  const [l, m] = fields.layers;
+  let maxError = 0;
+  let spread = 0;
+  for (let i = 0; i < composite.gradX.length; i++) {
+    const expected = 0.75 * l!.gradX[i] + 0.25 * m!.gradX[i];
+    maxError = Math.max(maxError, Math.abs(composite.gradX[i] - expected));
+    spread = Math.max(spread, Math.abs(l!.gradX[i] - m!.gradX[i]));
+  }
+  assert.ok(spread > 1e-3, 'layers carry distinct phase gradients');
+  assert.ok(maxError < 1e-6, `composite error ${maxError}`);
+});
+
+test('params.layers stacks companions around the primary lattice', () => {
+  const primary = createKuramotoState(6, 4);
+  initKuramotoState(primary, 1);
+  assert.equal(syncMultiLayerKuramoto(primary, params, null), null);
+
+  const layered: KuramotoParams = {
+    ...params,
+    K0: 0.5,
+    layers: {
+      layers: [{ id: 'rim' }, { id: 'surface', weight: 2, params: { omega0: 0.3 } }],
+      coupling: {
+        strength: [
+          [0, 0.4],
+          [0.4, 0],
+        ],
+        phaseLag: 0.2,
+      },
+    },
+  };
+  const multi = syncMultiLayerKuramoto(primary, layered, null, { qInit: 2 })!;
+  assert.equal(multi.layers[0]!.state, primary, 'the primary lattice is layer 0');
+  assert.equal(multi.layers[1]!.params.omega0, 0.3);
+  assert.equal(multi.layers[1]!.params.K0, 0.5, 'overrides sit on top of the base params');
+  assert.equal(multi.layers[1]!.weight, 2);
+  assert.deepEqual(Array.from(multi.phaseLag), [0, 0.2, 0.2, 0]);
+
+  stepMultiLayerKuramoto(multi, 0.05, () => 0);
+  const surface = multi.layers[1]!.state;
+  const edited = { ...layered, layers: { ...layered.layers!, coupling: null } };
+  const resynced = syncMultiLayerKuramoto(primary, edited, multi)!;
+  assert.equal(resynced, multi, 'parameter edits keep the running stack');
+  assert.equal(resynced.layers[1]!.state, surface);
+  assert.deepEqual(Array.from(resynced.coupling), [0, 0, 0, 0]);
+
+  const renamed: KuramotoParams = {
+    ...layered,
+    layers: { layers: [{ id: 'rim' }, { id: 'lms-l' }] },
+  };
+  assert.notEqual(syncMultiLayerKuramoto(primary, renamed, multi), multi);
+});
+
+test('layer configs from untrusted JSON are validated', () => {
+  assert.deepEqual(
+    coerceKuramotoLayerConfig({
+      layers: [{ id: 'rim', params: { omega0: 0.1, noiseModel: 'ou' } }, { id: 'surface' }],
+      coupling: {
+        strength: [
+          [0, 1],
+          [1, 0],
+        ],
+      },
+    }),
+    {
+      layers: [
+        { id: 'rim', weight: undefined, params: { omega0: 0.1 } },
+        { id: 'surface', weight: undefined, params: {} },
+      ],
+      coupling: {
+        strength: [
+          [0, 1],
+          [1, 0],
+        ],
+      },
+    },
+  );
+  assert.equal(coerceKuramotoLayerConfig({ layers: [{ id: 'rim' }] }), undefined);
+  assert.equal(coerceKuramotoLayerConfig({ layers: [{ id: 'a' }, { id: 'a' }] }), undefined);
+  assert.equal(
+    coerceKuramotoLayerConfig({
+      layers: [{ id: 'a' }, { id: 'b' }],
+      coupling: { strength: [[0]] },
+    }),
+    undefined,
+  );
+});
+
+test('the media pipeline renders the composite and reports layer telemetry', () => {
+  const width = 12;
+  const height = 10;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = (i * 37) % 256;
+    data[i * 4 + 3] = 255;
+  }
+  const result = runMediaPipeline(
+    { data, width, height },
+    {
+      kuramoto: {
+        steps: 4,
+        seed: 3,
+        params: {
+          layers: {
+            layers: [{ id: 'rim' }, { id: 'surface', params: { omega0: 0.5 } }],
+            coupling: {
+              strength: [
+                [0, 0.6],
+                [0.6, 0],
+              ],
+            },
+          },
+        },
+      },
+    },
+  );
+  const layers = result.kuramoto!.layers!;
+  assert.deepEqual(
+    layers.layers.map((entry) => entry.id),
+    ['rim', 'surface'],
+  );
+  assert.equal(layers.pairs[0]!.strength, 0.6);
+  assert.ok(result.kuramoto!.deterministic!.verified);
+});
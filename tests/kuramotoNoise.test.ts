@@ -0,0 +1,206 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createKuramotoState,
+  createNormalGenerator,
+  initKuramotoState,
+  resetKuramotoNoise,
+  stepKuramotoState,
+  type KuramotoParams,
+  type KuramotoState,
+} from '../src/kuramotoCore.js';
+import { deriveSeedFromHash } from '../src/timeline/runtime.js';
+
+const params: KuramotoParams = {
+  alphaKur: 0,
+  gammaKur: 0,
+  omega0: 0,
+  K0: 0,
+  epsKur: 0.02,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const HASH_A = 'a1'.repeat(32);
+const HASH_B = 'b2'.repeat(32);
+
+const runTimeline = (
+  hash: string,
+  overrides: Partial<KuramotoParams>,
+  frames: number,
+  integrator: 'euler' | 'rk4' = 'euler',
+) => {
+  const state = createKuramotoState(16, 16);
+  initKuramotoState(state, 1);
+  for (let frame = 0; frame < frames; frame++) {
+    const randn = createNormalGenerator(deriveSeedFromHash(hash, 'kuramotoNoise', frame));
+    stepKuramotoState(state, { ...params, K0: 0.5, ...overrides }, 0.05, randn, frame, {
+      integrator,
+    });
+  }
+  return state;
+};
+
+const increments = (before: KuramotoState, after: KuramotoState) => {
+  const re = new Float64Array(after.Zr.length);
+  for (let i = 0; i < re.length; i++) re[i] = after.Zr[i]! - before.Zr[i]!;
+  return re;
+};
+
+const lagCorrelation = (values: Float64Array, width: number, height: number) => {
+  let mean = 0;
+  for (const v of values) mean += v;
+  mean /= values.length;
+  let variance = 0;
+  let lagged = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const a = values[y * width + x]! - mean;
+      const b = values[y * width + ((x + 1) % width)]! - mean;
+      variance += a * a;
+      lagged += a * b;
+    }
+  }
+  return { variance: variance / values.length, correlation: lagged / variance };
+};
+
+test('every noise model replays bit-for-bit from the timeline seed', () => {
+  for (const noiseModel of ['white', 'ou', 'spatial'] as const) {
+    for (const integrator of ['euler', 'rk4'] as const) {
+      const overrides = { noiseModel, noiseCoupling: 'multiplicative' as const };
+      const a = runTimeline(HASH_A, overrides, 6, integrator);
+      const b = runTimeline(HASH_A, overrides, 6, integrator);
+      const c = runTimeline(HASH_B, overrides, 6, integrator);
+      assert.deepEqual(a.Zr, b.Zr, `${noiseModel}/${integrator} replay`);
+      assert.deepEqual(a.Zi, b.Zi);
+      assert.notDeepEqual(a.Zr, c.Zr, `${noiseModel}/${integrator} ignores the seed`);
+      assert.equal(a.telemetry.noise.model, noiseModel);
+    }
+  }
+  const explicit = runTimeline(HASH_A, { noiseModel: 'white' }, 3);
+  const implicit = runTimeline(HASH_A, {}, 3);
+  assert.deepEqual(explicit.Zr, implicit.Zr, 'white additive is the default path');
+  assert.equal(implicit.telemetry.noise.coupling, 'additive');
+  assert.equal(runTimeline(HASH_A, { epsKur: 0 }, 1).telemetry.noise.model, 'off');
+});
+
+test('resetting OU noise makes the next frame depend only on its seed', () => {
+  const overrides = { noiseModel: 'ou' as const, noiseCorrelationTime: 2 };
+  const stepFrame = (state: KuramotoState, frame: number) =>
+    stepKuramotoState(
+      state,
+      { ...params, K0: 0.5, ...overrides },
+      0.05,
+      createNormalGenerator(deriveSeedFromHash(HASH_A, 'kuramotoNoise', frame)),
+      frame,
+    );
+  const seeked = () => {
+    // Same oscillators, different OU history: as after scrubbing from another timeline.
+    const state = runTimeline(HASH_B, overrides, 4);
+    const reference = runTimeline(HASH_A, overrides, 4);
+    state.Zr.set(reference.Zr);
+    state.Zi.set(reference.Zi);
+    return { state, reference };
+  };
+  const stale = seeked();
+  stepFrame(stale.state, 4);
+  stepFrame(stale.reference, 4);
+  assert.notDeepEqual(stale.state.Zr, stale.reference.Zr, 'OU history leaks across the seek');
+
+  const { state, reference } = seeked();
+  resetKuramotoNoise(state);
+  resetKuramotoNoise(reference);
+  stepFrame(state, 4);
+  stepFrame(reference, 4);
+  assert.deepEqual(state.Zr, reference.Zr);
+  assert.deepEqual(state.Zi, reference.Zi);
+});
+
+test('white noise has variance epsKur·dt per quadrature', () => {
+  const dt = 0.1;
+  const state = createKuramotoState(64, 64);
+  initKuramotoState(state, 0);
+  const before = createKuramotoState(64, 64);
+  before.Zr.set(state.Zr);
+  stepKuramotoState(state, params, dt, createNormalGenerator(3));
+  const { variance, correlation } = lagCorrelation(increments(before, state), 64, 64);
+  assert.ok(Math.abs(variance / (params.epsKur * dt) - 1) < 0.06, `variance ${variance}`);
+  assert.ok(Math.abs(correlation) < 0.05, `white lag correlation ${correlation}`);
+  const rms = state.telemetry.noise.rms;
+  assert.ok(Math.abs(rms / Math.sqrt(2 * params.epsKur * dt) - 1) < 0.03, `rms ${rms}`);
+});
+
+test('OU noise is stationary with correlation e^{−dt/τ}', () => {
+  const tau = 0.5;
+  const dt = 0.1;
+  const ou = { ...params, noiseModel: 'ou' as const, noiseCorrelationTime: tau };
+  const state = createKuramotoState(48, 48);
+  initKuramotoState(state, 0);
+  const randn = createNormalGenerator(11);
+  stepKuramotoState(state, ou, dt, randn);
+  const first = Float64Array.from(state.noise!.colour!);
+  for (let i = 0; i < 30; i++) stepKuramotoState(state, ou, dt, randn);
+  const settled = Float64Array.from(state.noise!.colour!);
+  stepKuramotoState(state, ou, dt, randn);
+  const next = state.noise!.colour!;
+
+  const stationary = params.epsKur / (2 * tau);
+  for (const sample of [first, settled]) {
+    let sumSq = 0;
+    for (const v of sample) sumSq += v * v;
+    const variance = sumSq / sample.length;
+    assert.ok(Math.abs(variance / stationary - 1) < 0.06, `OU variance ${variance}`);
+  }
+  let cross = 0;
+  let norm = 0;
+  for (let i = 0; i < settled.length; i++) {
+    cross += settled[i]! * next[i]!;
+    norm += settled[i]! * settled[i]!;
+  }
+  const rho = Math.exp(-dt / tau);
+  assert.ok(Math.abs(cross / norm - rho) < 0.02, `OU autocorrelation ${cross / norm}`);
+  assert.equal(state.telemetry.noise.correlationTime, tau);
+
+  initKuramotoState(state, 0);
+  assert.equal(state.noise!.primed, false, 'init re-draws the OU process');
+});
+
+test('spatial noise keeps its variance and correlates neighbours as exp(−d²/4σ²)', () => {
+  const dt = 0.1;
+  const sigma = 2;
+  const spatial = { ...params, noiseModel: 'spatial' as const, noiseCorrelationLength: sigma };
+  const state = createKuramotoState(64, 64);
+  initKuramotoState(state, 0);
+  const before = createKuramotoState(64, 64);
+  before.Zr.set(state.Zr);
+  stepKuramotoState(state, spatial, dt, createNormalGenerator(5));
+  const { variance, correlation } = lagCorrelation(increments(before, state), 64, 64);
+  assert.ok(Math.abs(variance / (params.epsKur * dt) - 1) < 0.25, `variance ${variance}`);
+  const expected = Math.exp(-1 / (4 * sigma * sigma));
+  assert.ok(Math.abs(correlation - expected) < 0.05, `lag-1 correlation ${correlation}`);
+  assert.equal(state.telemetry.noise.correlationLength, sigma);
+});
+
+test('multiplicative noise vanishes where the envelope does', () => {
+  for (const integrator of ['euler', 'rk4'] as const) {
+    const quiet = createKuramotoState(8, 8);
+    stepKuramotoState(
+      quiet,
+      { ...params, noiseCoupling: 'multiplicative' },
+      0.1,
+      createNormalGenerator(1),
+      0,
+      { integrator },
+    );
+    assert.ok(quiet.Zr.every((v) => v === 0) && quiet.Zi.every((v) => v === 0));
+    assert.equal(quiet.telemetry.noise.rms, 0);
+
+    const loud = createKuramotoState(8, 8);
+    stepKuramotoState(loud, params, 0.1, createNormalGenerator(1), 0, { integrator });
+    assert.ok(loud.telemetry.noise.rms > 0);
+  }
+});
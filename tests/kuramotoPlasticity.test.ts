@@ -0,0 +1,169 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createKuramotoInstrumentationSnapshot,
+  createKuramotoState,
+  initKuramotoState,
+  restoreKuramotoPlasticity,
+  snapshotKuramotoPlasticity,
+  stepKuramotoState,
+  type KuramotoParams,
+  type KuramotoState,
+} from '../src/kuramotoCore.js';
+
+const params: KuramotoParams = {
+  alphaKur: 0.1,
+  gammaKur: 0.05,
+  omega0: 0.3,
+  K0: 0.8,
+  epsKur: 0,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+const scramble = (state: KuramotoState, seed: number) => {
+  let t = seed >>> 0;
+  for (let i = 0; i < state.Zr.length; i++) {
+    t = (Math.imul(t, 1664525) + 1013904223) >>> 0;
+    const theta = (t / 4294967296) * 2 * Math.PI;
+    state.Zr[i] = Math.cos(theta);
+    state.Zi[i] = Math.sin(theta);
+  }
+};
+
+test('a synchronised lattice keeps unit weights and unchanged dynamics', () => {
+  const plastic = createKuramotoState(8, 8);
+  const fixed = createKuramotoState(8, 8);
+  initKuramotoState(plastic, 0);
+  initKuramotoState(fixed, 0);
+  for (let i = 0; i < 5; i++) {
+    stepKuramotoState(plastic, { ...params, plasticityRate: 0.5 }, 0.1, () => 0);
+    stepKuramotoState(fixed, params, 0.1, () => 0);
+  }
+  assert.deepEqual(plastic.Zr, fixed.Zr);
+  assert.deepEqual(plastic.Zi, fixed.Zi);
+  const telemetry = plastic.telemetry.plasticity;
+  assert.equal(telemetry.mode, 'offset', 'per-offset learning is the default');
+  assert.equal(telemetry.rate, 0.5);
+  assert.ok(Math.abs(telemetry.mean - 1) < 1e-6);
+  assert.ok(telemetry.variance < 1e-12);
+  assert.equal(fixed.telemetry.plasticity.mode, 'off');
+  assert.equal(fixed.plasticity ?? null, null);
+});
+
+test('weights relax towards cos Δθ of a frozen twist and respect their bounds', () => {
+  const width = 16;
+  const rate = 0.4;
+  const dt = 0.1;
+  const steps = 12;
+  const frozen = { ...params, K0: 0, omega0: 0, gammaKur: 0, plasticityRate: rate };
+  const decay = Math.pow(1 - rate * dt, steps);
+  const candidates = Array.from({ length: width }, (_, k) => {
+    const c = Math.cos((2 * Math.PI * k) / width);
+    return c + (1 - c) * decay;
+  });
+
+  const edge = createKuramotoState(width, 8);
+  const offset = createKuramotoState(width, 8);
+  initKuramotoState(edge, 1);
+  initKuramotoState(offset, 1);
+  for (let i = 0; i < steps; i++) {
+    stepKuramotoState(edge, { ...frozen, plasticityMode: 'edge' }, dt, () => 0);
+    stepKuramotoState(offset, frozen, dt, () => 0);
+  }
+  const edgeField = snapshotKuramotoPlasticity(edge)!;
+  const offsetField = snapshotKuramotoPlasticity(offset)!;
+  assert.equal(edgeField.mode, 'edge');
+  assert.equal(offsetField.mode, 'offset');
+  assert.equal(edgeField.weights.length, width * 8 * edgeField.taps);
+  assert.equal(offsetField.weights.length, offsetField.taps);
+  for (let tap = 0; tap < edgeField.taps; tap++) {
+    const value = offsetField.weights[tap]!;
+    assert.ok(
+      candidates.some((candidate) => Math.abs(candidate - value) < 1e-5),
+      `tap ${tap} weight ${value} is not a relaxed cos Δθ`,
+    );
+    for (let idx = 0; idx < width * 8; idx++) {
+      const learned = edgeField.weights[idx * edgeField.taps + tap]!;
+      assert.ok(Math.abs(learned - value) < 1e-5, `site ${idx} tap ${tap}`);
+    }
+  }
+  assert.ok(edge.telemetry.plasticity.variance > 1e-4);
+  assert.ok(edge.telemetry.plasticity.min < 0.9);
+
+  const bounded = createKuramotoState(width, 8);
+  initKuramotoState(bounded, 1);
+  for (let i = 0; i < steps; i++) {
+    stepKuramotoState(bounded, { ...frozen, plasticityMin: 0.2, plasticityMax: 0.6 }, dt, () => 0);
+  }
+  const { min, max } = bounded.telemetry.plasticity;
+  assert.ok(min >= 0.2 - 1e-6 && max <= 0.6 + 1e-6, `bounds [${min}, ${max}]`);
+});
+
+test('learned weights are held when frozen and change the dynamics of every integrator', () => {
+  const trained = createKuramotoState(10, 10);
+  scramble(trained, 5);
+  for (let i = 0; i < 20; i++) {
+    stepKuramotoState(
+      trained,
+      { ...params, plasticityRate: 0.3, plasticityMode: 'edge' },
+      0.1,
+      () => 0,
+    );
+  }
+  const learned = snapshotKuramotoPlasticity(trained)!;
+  assert.ok(trained.telemetry.plasticity.variance > 1e-4);
+
+  for (const integrator of ['euler', 'rk4'] as const) {
+    const recall = createKuramotoState(10, 10);
+    const naive = createKuramotoState(10, 10);
+    scramble(recall, 9);
+    scramble(naive, 9);
+    restoreKuramotoPlasticity(recall, learned);
+    for (let i = 0; i < 4; i++) {
+      stepKuramotoState(recall, params, 0.1, () => 0, 0, { integrator });
+      stepKuramotoState(naive, params, 0.1, () => 0, 0, { integrator });
+    }
+    assert.deepEqual(recall.plasticity!.weights, learned.weights, 'rate 0 freezes the field');
+    let delta = 0;
+    for (let i = 0; i < recall.Zr.length; i++) {
+      delta = Math.max(delta, Math.abs(recall.Zr[i]! - naive.Zr[i]!));
+    }
+    assert.ok(delta > 1e-3, `${integrator} ignored the learned weights (${delta})`);
+  }
+});
+
+test('snapshots round-trip, clear and validate their shape', () => {
+  const state = createKuramotoState(6, 6);
+  scramble(state, 2);
+  stepKuramotoState(
+    state,
+    { ...params, plasticityRate: 0.5, plasticityMode: 'edge' },
+    0.1,
+    () => 0,
+  );
+  const snapshot = snapshotKuramotoPlasticity(state)!;
+  snapshot.weights[0] = 0.123;
+  assert.notEqual(state.plasticity!.weights[0], 0.123, 'snapshots are copies');
+
+  const instrumentation = createKuramotoInstrumentationSnapshot(state);
+  assert.equal(instrumentation.telemetry.plasticity.mode, 'edge');
+
+  restoreKuramotoPlasticity(state, null);
+  assert.equal(state.plasticity, null);
+  assert.equal(state.telemetry.plasticity.mode, 'off');
+  restoreKuramotoPlasticity(state, snapshot);
+  assert.ok(Math.abs(state.plasticity!.weights[0]! - 0.123) < 1e-6);
+  assert.equal(state.telemetry.plasticity.mode, 'edge');
+
+  const other = createKuramotoState(4, 6);
+  assert.throws(() => restoreKuramotoPlasticity(other, snapshot), /expected 4x6/);
+  assert.throws(
+    () => restoreKuramotoPlasticity(state, { ...snapshot, weights: snapshot.weights.subarray(1) }),
+    /weights; expected/,
+  );
+});
@@ -0,0 +1,170 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createKuramotoState,
+  initKuramotoState,
+  stepKuramotoState,
+  type KuramotoIntegrator,
+  type KuramotoParams,
+} from '../src/kuramotoCore.js';
+import {
+  createNaturalFrequencyField,
+  resolveNaturalFrequencyField,
+  summarizeNaturalFrequencies,
+} from '../src/kuramoto/naturalFrequency.js';
+import { makeResolution, type SurfaceField } from '../src/fields/contracts.js';
+import { runMediaPipeline } from '../src/media/mediaPipeline.js';
+import type { ImageBuffer } from '../src/pipeline/edgeDetection.js';
+
+const params: KuramotoParams = {
+  alphaKur: 0.1,
+  gammaKur: 0.05,
+  omega0: 0.3,
+  K0: 0.8,
+  epsKur: 0,
+  fluxX: 0,
+  fluxY: 0,
+  smallWorldWeight: 0,
+  p_sw: 0,
+  smallWorldEnabled: false,
+};
+
+test('random distributions are seeded and match their moments', () => {
+  const gaussian = createNaturalFrequencyField(64, 64, { kind: 'gaussian', sigma: 0.5, seed: 7 });
+  const stats = summarizeNaturalFrequencies(gaussian);
+  assert.ok(Math.abs(stats.mean) < 0.03, `mean ${stats.mean}`);
+  assert.ok(Math.abs(stats.std - 0.5) < 0.03, `std ${stats.std}`);
+  assert.deepEqual(
+    createNaturalFrequencyField(64, 64, { kind: 'gaussian', sigma: 0.5, seed: 7 }),
+    gaussian,
+  );
+  assert.notDeepEqual(
+    createNaturalFrequencyField(64, 64, { kind: 'gaussian', sigma: 0.5, seed: 8 }),
+    gaussian,
+  );
+
+  const lorentzian = createNaturalFrequencyField(64, 64, { kind: 'lorentzian', width: 0.2 });
+  const magnitudes = Array.from(lorentzian, Math.abs).sort((a, b) => a - b);
+  const median = magnitudes[magnitudes.length >> 1]!;
+  assert.ok(Math.abs(median - 0.2) < 0.02, `Cauchy median |δω| ${median}`);
+  assert.ok(magnitudes[magnitudes.length - 1]! <= 8 * 0.2 + 1e-6, 'tails are truncated');
+
+  const bimodal = createNaturalFrequencyField(64, 64, {
+    kind: 'bimodal',
+    separation: 2,
+    sigma: 0.05,
+  });
+  const positive = Array.from(bimodal).filter((v) => v > 0).length / bimodal.length;
+  assert.ok(Math.abs(positive - 0.5) < 0.05, `peak balance ${positive}`);
+  assert.ok(Array.from(bimodal).every((v) => Math.abs(Math.abs(v) - 1) < 0.3));
+});
+
+test('surface and phase distributions map channels onto the requested range', () => {
+  const width = 3;
+  const height = 1;
+  const surface: SurfaceField = {
+    kind: 'surface',
+    resolution: makeResolution(width, height),
+    rgba: new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255, 255, 0, 0, 255]),
+  };
+  const field = createNaturalFrequencyField(
+    width,
+    height,
+    { kind: 'surface', min: -1, max: 1 },
+    { surface },
+  );
+  assert.ok(Math.abs(field[0] + 1) < 1e-6);
+  assert.ok(Math.abs(field[1] - 1) < 1e-6);
+  assert.ok(Math.abs(field[2] - (-1 + 2 * 0.2126)) < 1e-6);
+  assert.throws(
+    () => createNaturalFrequencyField(width, height, { kind: 'phase', min: 0, max: 1 }),
+    /requires a PhaseField/,
+  );
+  assert.throws(
+    () => createNaturalFrequencyField(4, 4, { kind: 'surface', min: 0, max: 1 }, { surface }),
+    /expected 4x4/,
+  );
+});
+
+test('resolve accepts prebuilt fields and treats uniform as homogeneous', () => {
+  assert.equal(resolveNaturalFrequencyField(4, 4, { kind: 'uniform' }), null);
+  assert.equal(resolveNaturalFrequencyField(4, 4, undefined), null);
+  const field = new Float32Array(16);
+  assert.equal(resolveNaturalFrequencyField(4, 4, field), field);
+  assert.throws(() => resolveNaturalFrequencyField(5, 4, field), /expected 20/);
+});
+
+test('a constant detuning field is equivalent to shifting omega0', () => {
+  for (const integrator of ['euler', 'rk4', 'etd'] as KuramotoIntegrator[]) {
+    const shifted = createKuramotoState(6, 4);
+    const detuned = createKuramotoState(6, 4);
+    initKuramotoState(shifted, 1);
+    initKuramotoState(detuned, 1);
+    const offset = new Float32Array(24).fill(0.25);
+    for (let i = 0; i < 5; i++) {
+      stepKuramotoState(shifted, { ...params, omega0: params.omega0 + 0.25 }, 0.05, () => 0, 0, {
+        integrator,
+      });
+      stepKuramotoState(detuned, params, 0.05, () => 0, 0, {
+        integrator,
+        naturalFrequencies: offset,
+      });
+    }
+    for (let i = 0; i < shifted.Zr.length; i++) {
+      assert.ok(Math.abs(shifted.Zr[i] - detuned.Zr[i]) < 1e-6, `${integrator} real[${i}]`);
+      assert.ok(Math.abs(shifted.Zi[i] - detuned.Zi[i]) < 1e-6, `${integrator} imag[${i}]`);
+    }
+  }
+  const state = createKuramotoState(6, 4);
+  assert.throws(
+    () =>
+      stepKuramotoState(state, params, 0.05, () => 0, 0, {
+        naturalFrequencies: new Float32Array(3),
+      }),
+    /expected 24/,
+  );
+});
+
+test('frequency spread dephases an uncoupled lattice while a homogeneous one stays locked', () => {
+  const run = (naturalFrequencies: Float32Array | null) => {
+    const state = createKuramotoState(16, 16);
+    initKuramotoState(state, 0);
+    for (let i = 0; i < 40; i++) {
+      stepKuramotoState(state, { ...params, K0: 0 }, 0.1, () => 0, 0, {
+        integrator: 'etd',
+        naturalFrequencies,
+      });
+    }
+    return state.telemetry.orderParameter.magnitude;
+  };
+  const locked = run(null);
+  const spread = run(createNaturalFrequencyField(16, 16, { kind: 'gaussian', sigma: 1, seed: 3 }));
+  assert.ok(locked > 0.999, `homogeneous order ${locked}`);
+  assert.ok(spread < 0.2, `dispersed order ${spread}`);
+});
+
+test('media pipeline consumes image-derived natural frequencies deterministically', () => {
+  const width = 10;
+  const height = 8;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = (i * 37) % 256;
+    data.set([value, value, value, 255], i * 4);
+  }
+  const image: ImageBuffer = { data, width, height };
+  const base = { seed: 9, steps: 6, dt: 0.05, params: { K0: 0.2 } };
+  const homogeneous = runMediaPipeline(image, { kuramoto: base });
+  const detuned = runMediaPipeline(image, {
+    kuramoto: { ...base, naturalFrequencies: { kind: 'surface', min: -2, max: 2 } },
+  });
+  assert.ok(detuned.kuramoto?.deterministic?.verified);
+  let maxDelta = 0;
+  for (let i = 0; i < width * height; i++) {
+    maxDelta = Math.max(
+      maxDelta,
+      Math.abs(detuned.kuramoto!.phase.gradX[i] - homogeneous.kuramoto!.phase.gradX[i]),
+    );
+  }
+  assert.ok(maxDelta > 1e-3, `expected detuning to change the phase field, got ${maxDelta}`);
+});
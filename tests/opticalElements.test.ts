@@ -0,0 +1,348 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeResolution } from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import { applyPolarizationSchedule, createOpticalElementStep } from '../src/kuramotoCore.js';
+import { AngularSpectrumSolver } from '../src/optics/angularSpectrum.js';
+import {
+  apertureMaskFromRgba,
+  applyOpticalElement,
+  compileOpticalElement,
+  loadApertureMask,
+  parseOpticalElement,
+  parseOpticalTrain,
+  serialiseOpticalTrain,
+  type OpticalElementContext,
+  type OpticalElementSpec,
+} from '../src/optics/elements.js';
+import { computeStokesField, traceStokesSchedule } from '../src/optics/polarization.js';
+import {
+  OPTICAL_TRAIN_NODE_TYPE,
+  createOpticalTrainNode,
+  opticalTrainFromNode,
+  opticalTrainSteps,
+  readOpticalTrain,
+} from '../src/state/opticalTrain.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const ctx = (width: number, height = width): OpticalElementContext => ({
+  width,
+  height,
+  wavelengthNm: 550,
+  pixelPitchMeters: 1e-6,
+});
+
+const phaseAt = (mask: { real: Float32Array; imag: Float32Array }, i: number) =>
+  Math.atan2(mask.imag[i]!, mask.real[i]!);
+
+const planeWave = (width: number, height = width, componentCount = 1) => {
+  const frame = new OpticalFieldFrame(makeResolution(width, height), { componentCount });
+  frame.components[0]!.real.fill(1);
+  return frame;
+};
+
+/** |DFT|² of row `y`, normalised by the row energy. */
+const rowSpectrum = (mask: { real: Float32Array; imag: Float32Array }, width: number, y = 0) => {
+  const power = new Float64Array(width);
+  let energy = 0;
+  for (let x = 0; x < width; x++) {
+    energy += mask.real[y * width + x]! ** 2 + mask.imag[y * width + x]! ** 2;
+  }
+  for (let k = 0; k < width; k++) {
+    let re = 0;
+    let im = 0;
+    for (let x = 0; x < width; x++) {
+      const angle = (-2 * Math.PI * k * x) / width;
+      const tr = mask.real[y * width + x]!;
+      const ti = mask.imag[y * width + x]!;
+      re += tr * Math.cos(angle) - ti * Math.sin(angle);
+      im += tr * Math.sin(angle) + ti * Math.cos(angle);
+    }
+    power[k] = (re * re + im * im) / (width * energy);
+  }
+  return power;
+};
+
+test('a thin lens brings a plane wave to focus at its focal length', () => {
+  const size = 64;
+  const focalLengthMeters = 200e-6;
+  const lens: OpticalElementSpec = { type: 'thinLens', focalLengthMeters };
+  const mask = compileOpticalElement(lens, ctx(size));
+  assert.equal(compileOpticalElement(lens, ctx(size)), mask, 'compiled masks are cached');
+  const k = (2 * Math.PI) / 550e-9;
+  // Texel (40, 32) sits 8.5 µm right and 0.5 µm below the optical axis.
+  const r2 = 8.5e-6 ** 2 + 0.5e-6 ** 2;
+  const expected = (-k * r2) / (2 * focalLengthMeters);
+  const wrapped = Math.atan2(Math.sin(expected), Math.cos(expected));
+  close(phaseAt(mask, 32 * size + 40), wrapped, 1e-3, 'paraxial lens phase');
+
+  const solver = new AngularSpectrumSolver({
+    width: size,
+    height: size,
+    wavelengthNm: 550,
+    pixelPitchMeters: 1e-6,
+    dzMeters: focalLengthMeters,
+    padding: 2,
+    bandLimit: true,
+  });
+  const intensity = (frame: OpticalFieldFrame, i: number) =>
+    frame.real[i]! ** 2 + frame.imag[i]! ** 2;
+  const focused = solver.propagate(
+    applyOpticalElement(planeWave(size), { ...lens, clearRadiusMeters: 30e-6 }),
+  );
+  const centre = 31 * size + 31;
+  assert.ok(intensity(focused, centre) > 100, `focal intensity ${intensity(focused, centre)}`);
+  assert.ok(intensity(focused, 4 * size + 4) < 1, 'light leaves the corners');
+
+  assert.throws(
+    () => compileOpticalElement({ type: 'thinLens', focalLengthMeters: 0 }, ctx(4)),
+    /non-zero focal length/,
+  );
+  assert.throws(() => compileOpticalElement(lens, { ...ctx(4), wavelengthNm: 0 }), /positive/);
+});
+
+test('axicon, vortex and zone plate follow their radial and azimuthal laws', () => {
+  const size = 32;
+  const vortex = compileOpticalElement({ type: 'vortex', charge: 3.2 }, ctx(size));
+  // Walk a square loop around the centre and add up wrapped phase steps.
+  const loop: [number, number][] = [];
+  for (let x = 8; x < 24; x++) loop.push([x, 8]);
+  for (let y = 8; y < 24; y++) loop.push([24, y]);
+  for (let x = 24; x > 8; x--) loop.push([x, 24]);
+  for (let y = 24; y > 8; y--) loop.push([8, y]);
+  let winding = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [ax, ay] = loop[i]!;
+    const [bx, by] = loop[(i + 1) % loop.length]!;
+    const d = phaseAt(vortex, by * size + bx) - phaseAt(vortex, ay * size + ax);
+    winding += Math.atan2(Math.sin(d), Math.cos(d));
+  }
+  close(winding / (2 * Math.PI), 3, 1e-4, 'topological charge rounds to 3');
+  close(Math.hypot(vortex.real[0]!, vortex.imag[0]!), 1, 1e-6, 'vortex is phase-only');
+
+  const axicon = compileOpticalElement({ type: 'axicon', coneAngleRad: 0.01 }, ctx(size));
+  const k = (2 * Math.PI) / 550e-9;
+  const expected = -k * Math.hypot(4.5e-6, 0.5e-6) * Math.sin(0.01);
+  close(phaseAt(axicon, 16 * size + 20), expected, 1e-4, 'conical phase');
+
+  // First zone boundary at r = √(λf) = 7.42 µm for f = 100 µm.
+  const zonePlate: OpticalElementSpec = { type: 'zonePlate', focalLengthMeters: 100e-6 };
+  const zones = compileOpticalElement(zonePlate, ctx(size));
+  assert.equal(zones.real[16 * size + 22], 1, 'r = 6.5 µm is in the open centre zone');
+  assert.equal(zones.real[16 * size + 24], 0, 'r = 8.5 µm is in the first blocked zone');
+  const phasePlate = compileOpticalElement({ ...zonePlate, mode: 'phase' }, ctx(size));
+  close(phasePlate.real[16 * size + 24]!, -1, 1e-6, 'phase plates retard the odd zones by π');
+
+  const clipped = compileOpticalElement(
+    { type: 'vortex', charge: 1, clearRadiusMeters: 4e-6, offsetXMeters: 4e-6 },
+    ctx(size),
+  );
+  assert.notEqual(clipped.real[16 * size + 22]! ** 2 + clipped.imag[16 * size + 22]! ** 2, 0);
+  assert.equal(clipped.real[16 * size + 12], 0, 'clear aperture follows the offset');
+});
+
+test('grating profiles distribute energy into the expected diffraction orders', () => {
+  const width = 32;
+  const periodMeters = 8e-6;
+  const orders = (spec: Partial<OpticalElementSpec>) =>
+    rowSpectrum(
+      compileOpticalElement({ type: 'phaseGrating', periodMeters, ...spec } as OpticalElementSpec, {
+        ...ctx(width, 1),
+      }),
+      width,
+    );
+  const blazed = orders({ profile: 'blazed', depthRad: 2 * Math.PI });
+  close(blazed[4]!, 1, 1e-6, 'a 2π blaze sends everything into order +1');
+  const binary = orders({ profile: 'binary', depthRad: Math.PI });
+  close(binary[0]!, 0, 1e-9, 'a π binary grating suppresses order 0');
+  close(binary[4]! + binary[28]!, 8 / Math.PI ** 2, 0.05, '±1 orders carry ~81%');
+  const sinusoidal = orders({ profile: 'sinusoidal', depthRad: 2 });
+  // J0(1)² for a peak-to-peak depth of 2 rad.
+  close(sinusoidal[0]!, 0.765198 ** 2, 1e-4, 'Raman–Nath zero order');
+
+  const rotated = compileOpticalElement(
+    { type: 'phaseGrating', periodMeters, orientationRad: Math.PI / 2, profile: 'blazed' },
+    ctx(8),
+  );
+  close(phaseAt(rotated, 0), phaseAt(rotated, 7), 1e-6, 'rotated grating is constant along x');
+  assert.throws(
+    () => compileOpticalElement({ type: 'phaseGrating', periodMeters: 0 }, ctx(4)),
+    /positive period/,
+  );
+});
+
+test('diffusers are seeded phase screens with a tunable correlation length', () => {
+  const size = 32;
+  const phases = (spec: OpticalElementSpec) => {
+    const mask = compileOpticalElement(spec, ctx(size));
+    return Array.from({ length: size * size }, (_, i) => phaseAt(mask, i));
+  };
+  const white = phases({ type: 'diffuser', seed: 7, strengthRad: 0.5 });
+  assert.deepEqual(phases({ type: 'diffuser', seed: 7, strengthRad: 0.5 }), white, 'seeded');
+  assert.notDeepEqual(phases({ type: 'diffuser', seed: 8, strengthRad: 0.5 }), white);
+  const std = Math.sqrt(white.reduce((acc, v) => acc + v * v, 0) / white.length);
+  close(std, 0.5, 1e-3, 'phase std equals the strength');
+
+  const neighbourCorrelation = (values: number[]) => {
+    let num = 0;
+    let den = 0;
+    for (let i = 0; i < values.length; i++) {
+      num += values[i]! * values[(i + 1) % values.length]!;
+      den += values[i]! ** 2;
+    }
+    return num / den;
+  };
+  const smooth = phases({ type: 'diffuser', seed: 7, strengthRad: 0.5, correlationPx: 3 });
+  assert.ok(Math.abs(neighbourCorrelation(white)) < 0.15, 'white screen is uncorrelated');
+  assert.ok(neighbourCorrelation(smooth) > 0.8, 'blurred screen is smooth');
+});
+
+test('apertures come from images and binarise on request', async () => {
+  const rgba = new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 128, 128, 128, 0]);
+  const mask = apertureMaskFromRgba({ width: 3, height: 1, data: rgba });
+  close(mask.data[2]!, 128 / 255, 1e-6, 'luma');
+  assert.equal(apertureMaskFromRgba({ width: 3, height: 1, data: rgba }, 'alpha').data[2], 0);
+
+  const grey = compileOpticalElement({ type: 'aperture', mask }, ctx(6, 1));
+  assert.deepEqual(Array.from(grey.real.subarray(0, 3)), [1, 1, 0], 'nearest-neighbour upsampling');
+  const binary = compileOpticalElement({ type: 'aperture', mask, threshold: 0.4 }, ctx(3, 1));
+  assert.deepEqual(Array.from(binary.real), [1, 0, 1]);
+  const inverted = compileOpticalElement(
+    { type: 'aperture', mask, threshold: 0.4, invert: true },
+    ctx(3, 1),
+  );
+  assert.deepEqual(Array.from(inverted.real), [0, 1, 0]);
+  assert.throws(
+    () => compileOpticalElement({ type: 'aperture', source: 'slit.png' }, ctx(3, 1)),
+    /"slit.png" has no loaded mask/,
+  );
+
+  const pgm = new TextEncoder().encode('P2\n2 2\n4\n0 4\n2 4\n');
+  const loaded = await loadApertureMask(pgm);
+  assert.deepEqual(Array.from(loaded.data), [0, 1, 0.5, 1]);
+  assert.equal((await loadApertureMask(pgm, { width: 4, height: 4 })).data.length, 16);
+});
+
+test('element steps run inside thin-element schedules and Stokes traces', () => {
+  const frame = planeWave(8, 8, 2);
+  frame.components[1]!.imag.fill(1);
+  const vortex: OpticalElementSpec = { type: 'vortex', charge: 1 };
+  applyPolarizationSchedule(frame, [
+    createOpticalElementStep(vortex, 'Vortex'),
+    {
+      kind: 'beamSplit',
+      recombine: 'sum',
+      branches: [{ steps: [createOpticalElementStep({ type: 'vortex', charge: -1 })] }],
+    },
+  ]);
+  // A +1 then −1 vortex cancels in both Jones components.
+  close(frame.components[0]!.real[9]!, 1, 1e-5, 'Ex restored');
+  close(frame.components[1]!.imag[9]!, 1, 1e-5, 'Ey restored');
+
+  // Masks compile at the frame's wavelength, so lens phase scales with 1/λ.
+  const lens: OpticalElementSpec = { type: 'thinLens', focalLengthMeters: 1e-3 };
+  const green = applyOpticalElement(planeWave(8), lens);
+  const red = planeWave(8);
+  red.updateMeta({ wavelengthNm: 1100 });
+  applyOpticalElement(red, lens);
+  close(
+    Math.atan2(red.imag[0]!, red.real[0]!),
+    Math.atan2(green.imag[0]!, green.real[0]!) / 2,
+    1e-5,
+    'chromatic lens phase',
+  );
+
+  const stokes = computeStokesField(planeWave(3, 1, 2));
+  const mask = apertureMaskFromRgba({
+    width: 3,
+    height: 1,
+    data: new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255]),
+  });
+  traceStokesSchedule(stokes, [createOpticalElementStep({ type: 'aperture', mask })]);
+  assert.deepEqual(Array.from(stokes.s0), [1, 0, 1]);
+  assert.deepEqual(Array.from(stokes.s1), [1, 0, 1]);
+});
+
+test('optical trains round-trip through manifest metadata', () => {
+  const elements: OpticalElementSpec[] = [
+    { type: 'thinLens', focalLengthMeters: 0.05, clearRadiusMeters: 2e-3 },
+    { type: 'axicon', coneAngleRad: 0.02 },
+    {
+      type: 'phaseGrating',
+      periodMeters: 1e-5,
+      orientationRad: 0.3,
+      depthRad: 2,
+      profile: 'binary',
+    },
+    { type: 'zonePlate', focalLengthMeters: 0.1, mode: 'phase' },
+    { type: 'vortex', charge: -2, offsetXMeters: 1e-4, offsetYMeters: -1e-4 },
+    { type: 'diffuser', seed: 11, strengthRad: 1.5, correlationPx: 2 },
+    { type: 'aperture', source: 'assets/slit.png', threshold: 0.5, invert: false },
+    {
+      type: 'aperture',
+      mask: { width: 2, height: 1, data: new Float32Array([0, 1]) },
+      invert: true,
+    },
+  ];
+  const metadata = JSON.parse(JSON.stringify(serialiseOpticalTrain(elements)));
+  assert.deepEqual(parseOpticalTrain(metadata), elements);
+
+  const withPixels = serialiseOpticalTrain([
+    { type: 'aperture', source: 'a.png', mask: { width: 1, height: 1, data: new Float32Array(1) } },
+  ]);
+  assert.equal(withPixels.elements[0]!.mask, undefined, 'sourced masks are reloaded, not inlined');
+
+  assert.deepEqual(
+    parseOpticalTrain({
+      elements: [
+        { type: 'thinLens' },
+        { type: 'prism', angle: 1 },
+        { type: 'aperture' },
+        { type: 'vortex', charge: 1.6 },
+        'lens',
+      ],
+    }),
+    [{ type: 'vortex', charge: 2 }],
+  );
+  assert.deepEqual(parseOpticalTrain(null), []);
+  assert.deepEqual(parseOpticalElement({ type: 'diffuser' }), {
+    type: 'diffuser',
+    seed: 1,
+    strengthRad: Math.PI,
+    correlationPx: 0,
+  });
+});
+
+test('OpticalTrain nodes load from manifests and compile to element steps', () => {
+  const elements: OpticalElementSpec[] = [
+    { type: 'vortex', charge: 1 },
+    { type: 'aperture', source: 'assets/slit.png', invert: false },
+    { type: 'thinLens', focalLengthMeters: 0.05 },
+  ];
+  const node = JSON.parse(JSON.stringify(createOpticalTrainNode('train', elements)));
+  assert.equal(node.type, OPTICAL_TRAIN_NODE_TYPE);
+  assert.deepEqual(opticalTrainFromNode(node), elements);
+  assert.deepEqual(
+    readOpticalTrain({ nodes: [{ id: 'k', type: 'OpticalKernel' }, node] }),
+    elements,
+  );
+  assert.deepEqual(readOpticalTrain(node.metadata), elements);
+  assert.throws(() => opticalTrainFromNode({ ...node, type: 'BeamSplitter' }), /OpticalTrain/);
+
+  const steps = opticalTrainSteps(elements);
+  assert.deepEqual(
+    steps.map((step) => step.label),
+    ['vortex', 'thinLens'],
+    'unloaded apertures are skipped',
+  );
+  const scheduled = planeWave(16);
+  applyPolarizationSchedule(scheduled, steps);
+  const direct = planeWave(16);
+  applyOpticalElement(direct, elements[0]!);
+  applyOpticalElement(direct, elements[2]!);
+  assert.deepEqual(scheduled.components[0]!.real, direct.components[0]!.real);
+  assert.deepEqual(scheduled.components[0]!.imag, direct.components[0]!.imag);
+});
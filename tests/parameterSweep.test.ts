@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildSweepHeatmap,
+  encodePpm,
+  parseSweepAxis,
+  renderSweepHeatmap,
+  runParameterSweep,
+} from '../src/validation/parameterSweep.js';
+
+const small = { width: 10, height: 10, steps: 60, dt: 0.1 };
+
+test('axis syntax parses ranges and rejects unknown parameters', () => {
+  assert.deepEqual(parseSweepAxis('K0=0:3:7'), { name: 'K0', min: 0, max: 3, steps: 7 });
+  assert.deepEqual(parseSweepAxis('kernel.gain=0.5:2'), { name: 'kernel.gain', min: 0.5, max: 2 });
+  assert.throws(() => parseSweepAxis('K1=0:1'), /invalid axis/);
+  assert.throws(() => parseSweepAxis('kernel.couplingPreset=0:1'), /invalid axis/);
+  assert.throws(() => parseSweepAxis('K0=0:x'), /invalid range/);
+});
+
+test('grid sweeps are reproducible and coherence grows with coupling', () => {
+  const options = {
+    ...small,
+    axes: [{ name: 'K0' as const, min: 0, max: 4, steps: 3 }],
+    params: { epsKur: 0.002 },
+  };
+  const a = runParameterSweep(options);
+  const b = runParameterSweep(options);
+  assert.equal(a.json, b.json);
+  assert.equal(a.hash, b.hash);
+  assert.equal(a.table.points.length, 3);
+  assert.deepEqual(
+    a.table.points.map((point) => point.values.K0),
+    [0, 2, 4],
+  );
+  const seeds = new Set(a.table.points.map((point) => point.seed));
+  assert.equal(seeds.size, 3, 'each point derives its own seed');
+  const [weak, , strong] = a.table.points.map((point) => point.metrics);
+  assert.ok(
+    strong!.orderMean > weak!.orderMean + 0.2,
+    `expected synchrony at high K0: ${weak!.orderMean} → ${strong!.orderMean}`,
+  );
+  for (const point of a.table.points) {
+    assert.ok(point.metrics.orderVariance >= 0);
+    assert.ok(point.metrics.chimeraIndex >= 0);
+    assert.ok(point.metrics.settlingTime >= 0 && point.metrics.settlingTime <= 6 + 1e-9);
+  }
+  const reseeded = runParameterSweep({ ...options, seed: 7 });
+  assert.notEqual(reseeded.hash, a.hash);
+});
+
+test('Latin-hypercube sampling stratifies every axis', () => {
+  const samples = 6;
+  const { table } = runParameterSweep({
+    ...small,
+    steps: 4,
+    sampling: 'latinHypercube',
+    samples,
+    axes: [
+      { name: 'K0', min: 0, max: 3 },
+      { name: 'kernel.gain', min: 0.5, max: 1.5 },
+    ],
+  });
+  assert.equal(table.points.length, samples);
+  for (const axis of table.axes) {
+    const strata = table.points
+      .map((point) =>
+        Math.floor(((point.values[axis.name]! - axis.min) / (axis.max - axis.min)) * samples),
+      )
+      .sort((x, y) => x - y);
+    assert.deepEqual(strata, [0, 1, 2, 3, 4, 5], `${axis.name} strata`);
+  }
+});
+
+test('heatmaps average over extra axes and rasterise to PPM', () => {
+  const { table } = runParameterSweep({
+    ...small,
+    steps: 4,
+    axes: [
+      { name: 'K0', min: 0, max: 2, steps: 3 },
+      { name: 'alphaKur', min: 0, max: 1, steps: 2 },
+      { name: 'epsKur', min: 0, max: 0.01, steps: 2 },
+    ],
+  });
+  assert.equal(table.points.length, 12);
+  const heatmap = buildSweepHeatmap(table, 'K0', 'alphaKur', 'orderMean');
+  assert.equal(heatmap.width, 3);
+  assert.equal(heatmap.height, 2);
+  const expected = table.points
+    .filter((point) => point.values.K0 === 0 && point.values.alphaKur === 1)
+    .reduce((acc, point) => acc + point.metrics.orderMean / 2, 0);
+  assert.ok(Math.abs(heatmap.values[1 * 3 + 0]! - expected) < 1e-12);
+  assert.throws(() => buildSweepHeatmap(table, 'K0', 'K0'), /two distinct/);
+
+  const image = renderSweepHeatmap(heatmap, 4);
+  assert.equal(image.width, 12);
+  assert.equal(image.height, 8);
+  const ppm = encodePpm(image);
+  const header = 'P6\n12 8\n255\n';
+  assert.equal(new TextDecoder().decode(ppm.subarray(0, header.length)), header);
+  assert.equal(ppm.length, header.length + 12 * 8 * 3);
+});
@@ -0,0 +1,163 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { assertPhaseField, makeResolution } from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import {
+  applyPolarizationSchedule,
+  createKuramotoState,
+  createOpticalElementStep,
+  initKuramotoState,
+} from '../src/kuramotoCore.js';
+import { AngularSpectrumSolver } from '../src/optics/angularSpectrum.js';
+import { parseOpticalElement, serialiseOpticalElement } from '../src/optics/elements.js';
+import {
+  phaseFieldFromTheta,
+  phasePlateFromField,
+  retrievePhase,
+  type PhaseRetrievalOptions,
+} from '../src/optics/phaseRetrieval.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const size = 32;
+const optics: PhaseRetrievalOptions = {
+  dzMeters: 500e-6,
+  wavelengthNm: 550,
+  pixelPitchMeters: 4e-6,
+  iterations: 40,
+  seed: 3,
+};
+
+const SPOTS = [
+  [8, 8],
+  [23, 10],
+  [12, 22],
+  [24, 24],
+] as const;
+
+/** Four 2×2 spots on a dark background. */
+const spotTarget = () => {
+  const target = new Float32Array(size * size);
+  for (const [x, y] of SPOTS) {
+    for (let dy = 0; dy < 2; dy++) {
+      for (let dx = 0; dx < 2; dx++) target[(y + dy) * size + x + dx] = 1;
+    }
+  }
+  return target;
+};
+
+const spotEnergies = (intensity: Float32Array) =>
+  SPOTS.map(([x, y]) => {
+    let sum = 0;
+    for (let dy = 0; dy < 2; dy++) {
+      for (let dx = 0; dx < 2; dx++) sum += intensity[(y + dy) * size + x + dx]!;
+    }
+    return sum;
+  });
+
+const spread = (values: number[]) =>
+  (Math.max(...values) - Math.min(...values)) / Math.max(...values);
+
+test('Gerchberg–Saxton converges towards the target intensity', () => {
+  const target = spotTarget();
+  const result = retrievePhase(target, size, size, optics);
+  const { telemetry } = result;
+  assert.equal(telemetry.method, 'gs');
+  assert.equal(telemetry.iterations, 40);
+  assert.equal(telemetry.errors.length, 40);
+  assert.ok(
+    telemetry.errors.at(-1)! < telemetry.initialError * 0.5,
+    `error ${telemetry.initialError} → ${telemetry.errors.at(-1)}`,
+  );
+  assert.ok(telemetry.errors.at(-1)! <= telemetry.errors[0]!, 'error falls over the run');
+  assert.ok(telemetry.efficiency > 0.7, `efficiency ${telemetry.efficiency}`);
+  assert.equal(telemetry.converged, false);
+  assertPhaseField(result.phase, 'test:gs');
+  assert.ok(result.phase.theta!.every((v) => v > -Math.PI - 1e-6 && v <= Math.PI + 1e-6));
+
+  const again = retrievePhase(target, size, size, optics);
+  assert.deepEqual(again.telemetry.errors, telemetry.errors, 'seeded runs are deterministic');
+
+  const early = retrievePhase(target, size, size, { ...optics, tolerance: telemetry.errors[4]! });
+  assert.equal(early.telemetry.iterations, 5);
+  assert.equal(early.telemetry.converged, true);
+});
+
+test('weighted GS evens out the spot intensities', () => {
+  const target = spotTarget();
+  const plain = retrievePhase(target, size, size, optics);
+  const weighted = retrievePhase(target, size, size, { ...optics, method: 'weighted' });
+  assert.equal(weighted.telemetry.method, 'weighted');
+  const plainSpread = spread(spotEnergies(plain.reconstruction));
+  const weightedSpread = spread(spotEnergies(weighted.reconstruction));
+  assert.ok(weightedSpread < plainSpread, `spot spread ${plainSpread} → ${weightedSpread}`);
+  assert.ok(weightedSpread < 0.1, `weighted spread ${weightedSpread}`);
+});
+
+test('the retrieved phase plate reproduces the reconstruction in a schedule', () => {
+  const result = retrievePhase(spotTarget(), size, size, { ...optics, iterations: 10 });
+  const plate = phasePlateFromField(result.phase);
+  const roundTrip = parseOpticalElement(JSON.parse(JSON.stringify(serialiseOpticalElement(plate))));
+  assert.ok(roundTrip && roundTrip.type === 'phasePlate');
+
+  const frame = new OpticalFieldFrame(makeResolution(size, size));
+  frame.updateMeta({ wavelengthNm: 550, pixelPitchMeters: 4e-6 });
+  frame.real.fill(1);
+  applyPolarizationSchedule(frame, [createOpticalElementStep(roundTrip, 'Hologram')]);
+  const solver = new AngularSpectrumSolver({
+    width: size,
+    height: size,
+    wavelengthNm: 550,
+    pixelPitchMeters: 4e-6,
+    dzMeters: optics.dzMeters,
+  });
+  const image = solver.propagate(frame);
+  for (const i of [8 * size + 8, 0, 17 * size + 5]) {
+    const intensity = image.real[i]! ** 2 + image.imag[i]! ** 2;
+    assert.ok(
+      Math.abs(intensity - result.reconstruction[i]!) < 1e-3 * (1 + intensity),
+      `texel ${i}: ${intensity} vs ${result.reconstruction[i]}`,
+    );
+  }
+  assert.throws(
+    () => phasePlateFromField({ ...result.phase, theta: undefined }),
+    /no theta channel/,
+  );
+});
+
+test('phase fields with theta seed Kuramoto oscillators directly', () => {
+  const width = 8;
+  const height = 4;
+  const theta = Array.from({ length: width * height }, (_, i) => ((i * 0.7) % 6) - 3);
+  const seed = phaseFieldFromTheta(theta, width, height);
+  close(seed.gradX[1]!, 0.7, 1e-6, 'central difference');
+  assert.ok(seed.coh.every((v) => v === 1));
+
+  const state = createKuramotoState(width, height);
+  initKuramotoState(state, 1, seed);
+  const [component] = state.components;
+  for (const i of [0, 5, 13, 31]) {
+    const x = i % width;
+    const expected = theta[i]! + (2 * Math.PI * x) / width;
+    close(Math.cos(expected), component!.real[i]!, 1e-6, `seeded real ${i}`);
+    close(Math.sin(expected), component!.imag[i]!, 1e-6, `seeded imag ${i}`);
+  }
+  close(seed.gradX[1]!, 0.7, 1e-6, 'seed buffers are not reset');
+
+  const mismatched = phaseFieldFromTheta(new Float32Array(4), 2, 2);
+  initKuramotoState(state, 0, mismatched);
+  assert.equal(component!.real[5], 1, 'other resolutions fall back to the plane wave');
+  assert.ok(
+    mismatched.coh.every((v) => v === 0.5),
+    'and reset the buffer as before',
+  );
+
+  assert.throws(() => retrievePhase(new Float32Array(4), 2, 2, optics), /empty/);
+  assert.throws(() => retrievePhase(new Float32Array(3), 2, 2, optics), /expected 4/);
+  assert.throws(
+    () => retrievePhase(Float32Array.of(1, 0, 0, 0), 2, 2, { ...optics, dzMeters: 0 }),
+    /non-zero/,
+  );
+});
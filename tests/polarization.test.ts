@@ -0,0 +1,315 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  assertStokesField,
+  FIELD_CONTRACTS,
+  FIELD_KIND_CODES,
+  makeResolution,
+} from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import { createKernelSpec } from '../src/kernel/kernelSpec.js';
+import { resolvePolarizationMatrix, type ThinElementSchedule } from '../src/kuramotoCore.js';
+import {
+  computePolarizationMetrics,
+  computeStokesField,
+  createStokesField,
+  muellerFromJones,
+  renderStokesMap,
+  traceJonesSchedule,
+  traceStokesSchedule,
+  type StokesSchedule,
+} from '../src/optics/polarization.js';
+import { renderRainbowFrame, type RainbowFrameInput } from '../src/pipeline/rainbowFrame.js';
+import { createDefaultSu7RuntimeParams } from '../src/pipeline/su7/types.js';
+
+const SQRT1_2 = Math.SQRT1_2;
+
+/** One texel per Jones vector `[exRe, exIm, eyRe, eyIm]`. */
+const jonesFrame = (vectors: number[][]) => {
+  const frame = new OpticalFieldFrame(makeResolution(vectors.length, 1), { componentCount: 2 });
+  const [ex, ey] = frame.components;
+  vectors.forEach(([xr, xi, yr, yi], i) => {
+    ex!.real[i] = xr!;
+    ex!.imag[i] = xi!;
+    ey!.real[i] = yr!;
+    ey!.imag[i] = yi!;
+  });
+  return frame;
+};
+
+const close = (actual: number, expected: number, label: string, tol = 1e-5) =>
+  assert.ok(Math.abs(actual - expected) < tol, `${label}: ${actual} vs ${expected}`);
+
+const stokesAt = (field: ReturnType<typeof createStokesField>, i: number) => [
+  field.s0[i]!,
+  field.s1[i]!,
+  field.s2[i]!,
+  field.s3[i]!,
+];
+
+test('Stokes parameters of the canonical polarization states', () => {
+  const field = computeStokesField(
+    jonesFrame([
+      [1, 0, 0, 0],
+      [0, 0, 1, 0],
+      [SQRT1_2, 0, SQRT1_2, 0],
+      [SQRT1_2, 0, 0, SQRT1_2],
+      [0, 0, 0, 0],
+    ]),
+  );
+  assertStokesField(field, 'test:stokes');
+  const expected = [
+    [1, 1, 0, 0],
+    [1, -1, 0, 0],
+    [1, 0, 1, 0],
+    [1, 0, 0, 1],
+    [0, 0, 0, 0],
+  ];
+  expected.forEach((row, i) =>
+    row.forEach((value, k) => close(stokesAt(field, i)[k]!, value, `texel ${i} S${k}`)),
+  );
+
+  const metrics = computePolarizationMetrics(field);
+  close(metrics.dop[0]!, 1, 'H dop');
+  close(metrics.orientation[2]!, Math.PI / 4, '45° orientation');
+  close(metrics.dolp[3]!, 0, 'circular dolp');
+  close(metrics.ellipticity[3]!, Math.PI / 4, 'circular ellipticity');
+  assert.equal(metrics.dop[4], 0, 'dark texels report zero');
+
+  const scalar = computeStokesField(new OpticalFieldFrame(makeResolution(2, 1)));
+  assert.deepEqual(
+    Array.from(scalar.s1),
+    Array.from(scalar.s0),
+    'scalar fields read as horizontal',
+  );
+});
+
+test('Jones tracing: quarter-wave plate and Malus law', () => {
+  const diagonal = jonesFrame([[SQRT1_2, 0, SQRT1_2, 0]]);
+  const quarterWave: ThinElementSchedule = [
+    {
+      kind: 'polarization',
+      spec: { type: 'wavePlate', phaseDelayRad: Math.PI / 2, orientationRad: 0 },
+    },
+  ];
+  const circular = computeStokesField(traceJonesSchedule(diagonal, quarterWave));
+  close(Math.abs(circular.s3[0]!), 1, 'QWP at 0° turns 45° light circular');
+  close(circular.s1[0]!, 0, 'S1');
+  close(circular.s2[0]!, 0, 'S2');
+  close(diagonal.components[0]!.real[0]!, SQRT1_2, 'input frame is untouched');
+
+  const horizontal = jonesFrame([[1, 0, 0, 0]]);
+  for (const angle of [0, Math.PI / 6, Math.PI / 3, Math.PI / 2]) {
+    const out = computeStokesField(
+      traceJonesSchedule(horizontal, [
+        { kind: 'polarization', spec: { type: 'polarizer', orientationRad: angle } },
+      ]),
+    );
+    close(out.s0[0]!, Math.cos(angle) ** 2, `Malus at ${angle}`);
+  }
+  assert.throws(
+    () => traceJonesSchedule(new OpticalFieldFrame(makeResolution(1, 1)), quarterWave),
+    /two-component/,
+  );
+});
+
+test('Mueller matrices agree with Jones propagation', () => {
+  const specs = [
+    { type: 'wavePlate', phaseDelayRad: 1.1, orientationRad: 0.4 },
+    { type: 'polarizer', orientationRad: -0.7, extinctionRatio: 200 },
+  ] as const;
+  const input = jonesFrame([
+    [0.3, -0.2, 0.8, 0.4],
+    [1, 0, 0, 0],
+    [SQRT1_2, 0, 0, -SQRT1_2],
+  ]);
+  for (const spec of specs) {
+    const schedule: ThinElementSchedule = [{ kind: 'polarization', spec }];
+    const viaJones = computeStokesField(traceJonesSchedule(input, schedule));
+    const viaMueller = traceStokesSchedule(computeStokesField(input), schedule);
+    for (let i = 0; i < 3; i++) {
+      stokesAt(viaJones, i).forEach((value, k) =>
+        close(stokesAt(viaMueller, i)[k]!, value, `${spec.type} texel ${i} S${k}`),
+      );
+    }
+  }
+  const identity = muellerFromJones(
+    resolvePolarizationMatrix({
+      type: 'wavePlate',
+      phaseDelayRad: 0,
+      orientationRad: 0.3,
+    })!,
+  );
+  identity.forEach((value, i) => close(value, i % 5 === 0 ? 1 : 0, `identity[${i}]`));
+});
+
+const horizontalStokes = () => computeStokesField(jonesFrame([[1, 0, 0, 0]]));
+
+test('partially polarized light: depolarizers and incoherent beam splits', () => {
+  const depolarized = traceStokesSchedule(horizontalStokes(), [
+    { kind: 'mueller', spec: { type: 'depolarizer', amount: 0.75 } },
+  ]);
+  close(computePolarizationMetrics(depolarized).dop[0]!, 0.25, 'depolarizer dop');
+  close(depolarized.s0[0]!, 1, 'depolarizer keeps intensity');
+
+  // H and V arms recombined incoherently yield unpolarized light.
+  const split: StokesSchedule = [
+    {
+      kind: 'beamSplit',
+      recombine: 'energy',
+      branches: [
+        { steps: [] },
+        {
+          steps: [
+            {
+              kind: 'polarization',
+              spec: { type: 'wavePlate', phaseDelayRad: Math.PI, orientationRad: Math.PI / 4 },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+  const mixed = traceStokesSchedule(horizontalStokes(), split);
+  close(mixed.s0[0]!, 1, 'energy recombine conserves intensity');
+  close(computePolarizationMetrics(mixed).dop[0]!, 0, 'mixed dop');
+
+  assert.throws(
+    () =>
+      traceStokesSchedule(horizontalStokes(), [
+        { kind: 'mueller', spec: { type: 'mueller', matrix: [1, 0, 0] } },
+      ]),
+    /expected 16/,
+  );
+});
+
+test('Stokes maps follow the field contract and render to RGBA', () => {
+  assert.equal(FIELD_KIND_CODES.stokes, 4);
+  assert.deepEqual(
+    FIELD_CONTRACTS.stokes.channels.map((channel) => channel.id),
+    ['s0', 's1', 's2', 's3'],
+  );
+  const field = computeStokesField(
+    jonesFrame([
+      [1, 0, 0, 0],
+      [0, 0, 1, 0],
+      [0.5, 0, 0, 0],
+    ]),
+  );
+  const rgba = new Uint8ClampedArray(12);
+  renderStokesMap(field, rgba, 's1');
+  assert.deepEqual(Array.from(rgba.subarray(0, 8)), [255, 0, 0, 255, 0, 0, 255, 255]);
+  renderStokesMap(field, rgba, 'ellipse');
+  assert.deepEqual(Array.from(rgba.subarray(0, 4)), [255, 0, 0, 255], 'horizontal is red hue');
+  assert.equal(rgba[8], 64, 'value follows normalised S0');
+  assert.throws(() => renderStokesMap(field, new Uint8ClampedArray(4)), /expected 12/);
+
+  const broken = createStokesField(2, 2);
+  broken.s2 = new Float32Array(3);
+  assert.throws(() => assertStokesField(broken, 'test:broken'));
+  assert.throws(
+    () => computeStokesField(jonesFrame([[1, 0, 0, 0]]), createStokesField(2, 1)),
+    /expected 1x1/,
+  );
+});
+
+test('renderRainbowFrame blends the Stokes map overlay at frame resolution', () => {
+  const width = 4;
+  const height = 1;
+  const texels = width * height;
+  const stokes = computeStokesField(
+    jonesFrame([
+      [1, 0, 0, 0],
+      [0, 0, 1, 0],
+      [SQRT1_2, 0, SQRT1_2, 0],
+      [SQRT1_2, 0, 0, SQRT1_2],
+    ]),
+  );
+  const input = (overlay: RainbowFrameInput['stokesOverlay']): RainbowFrameInput => ({
+    width,
+    height,
+    timeSeconds: 0,
+    out: new Uint8ClampedArray(texels * 4),
+    surface: {
+      kind: 'surface',
+      resolution: makeResolution(width, height),
+      rgba: new Uint8ClampedArray(texels * 4).fill(128),
+    },
+    rim: {
+      kind: 'rim',
+      resolution: makeResolution(width, height),
+      gx: new Float32Array(texels),
+      gy: new Float32Array(texels),
+      mag: new Float32Array(texels),
+    },
+    phase: null,
+    volume: null,
+    kernel: createKernelSpec({ gain: 1, k0: 0.2, Q: 3, anisotropy: 0, chirality: 0 }),
+    dmt: 0,
+    arousal: 0,
+    blend: 0,
+    normPin: false,
+    normTarget: 0.6,
+    lastObs: 0.6,
+    lambdaRef: 520,
+    lambdas: { L: 560, M: 530, S: 420 },
+    beta2: 0,
+    microsaccade: false,
+    alive: false,
+    phasePin: false,
+    edgeThreshold: 0.5,
+    wallpaperGroup: 'off',
+    surfEnabled: false,
+    orientationAngles: [0],
+    thetaMode: 'gradient',
+    thetaGlobal: 0,
+    polBins: 0,
+    jitter: 0,
+    coupling: {
+      rimToSurfaceBlend: 0,
+      rimToSurfaceAlign: 0,
+      surfaceToRimOffset: 0,
+      surfaceToRimSigma: 0,
+      surfaceToRimHue: 0,
+      kurToTransparency: 0,
+      kurToOrientation: 0,
+      kurToChirality: 0,
+      volumePhaseToHue: 0,
+      volumeDepthToWarp: 0,
+    },
+    sigma: 2,
+    contrast: 1,
+    rimAlpha: 1,
+    rimEnabled: false,
+    displayMode: 'color',
+    surfaceBlend: 0,
+    surfaceRegion: 'both',
+    warpAmp: 0,
+    curvatureStrength: 0,
+    curvatureMode: 'poincare',
+    kurEnabled: false,
+    su7: createDefaultSu7RuntimeParams(),
+    stokes,
+    stokesOverlay: overlay,
+  });
+  const base = input(null);
+  renderRainbowFrame(base);
+  const hidden = input({ mode: 's1', alpha: 0 });
+  renderRainbowFrame(hidden);
+  assert.deepEqual(hidden.out, base.out, 'zero alpha leaves the frame untouched');
+
+  const expected = new Uint8ClampedArray(texels * 4);
+  renderStokesMap(stokes, expected, 's1');
+  const full = input({ mode: 's1', alpha: 1 });
+  renderRainbowFrame(full);
+  for (let i = 0; i < texels * 4; i += 4) {
+    assert.deepEqual(
+      Array.from(full.out.subarray(i, i + 3)),
+      Array.from(expected.subarray(i, i + 3)),
+    );
+  }
+  const half = input({ mode: 's1', alpha: 0.5 });
+  renderRainbowFrame(half);
+  close(half.out[0]!, (base.out[0]! + expected[0]!) / 2, 'half blend', 1);
+});
@@ -0,0 +1,312 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  GAMMA_5,
+  GAMMA_MATRICES,
+  applyLatticeDirac,
+  checkGamma5Hermiticity,
+  computePionCorrelator,
+  computePointPropagator,
+  createLatticeDiracOperator,
+  createLatticeDiracVector,
+  solveLatticeDirac,
+  type LatticeDiracOptions,
+} from '../src/qcd/dirac.js';
+import { GaugeLattice } from '../src/qcd/lattice.js';
+import { buildPropagatorFrameData } from '../src/qcd/probeTransport.js';
+import { initializeQcdRuntime, runQcdQuarkPropagator } from '../src/qcd/runtime.js';
+import { su3_haar, su3_mul, su3_conjugateTranspose, type Complex3x3 } from '../src/qcd/su3.js';
+import { initializeGaugeField, mulberry32 } from '../src/qcd/updateCpu.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const hotLattice = (seed = 11, extents = { width: 4, height: 4, depth: 2, temporalExtent: 4 }) => {
+  const lattice = new GaugeLattice(extents);
+  initializeGaugeField(lattice, 'hot', mulberry32(seed));
+  return lattice;
+};
+
+const forEachSite = (
+  lattice: GaugeLattice,
+  visit: (x: number, y: number, z: number, t: number) => void,
+) => {
+  for (let t = 0; t < lattice.temporalExtent; t++) {
+    for (let z = 0; z < lattice.depth; z++) {
+      for (let y = 0; y < lattice.height; y++) {
+        for (let x = 0; x < lattice.width; x++) {
+          visit(x, y, z, t);
+        }
+      }
+    }
+  }
+};
+
+const randomVector = (length: number, seed: number) => {
+  const rng = mulberry32(seed);
+  return Float64Array.from({ length }, () => rng() * 2 - 1);
+};
+
+const distance = (a: Float64Array, b: Float64Array) =>
+  Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]!) ** 2, 0));
+
+const spinEntry = (matrix: Float64Array, r: number, c: number) => [
+  matrix[(r * 4 + c) * 2]!,
+  matrix[(r * 4 + c) * 2 + 1]!,
+];
+
+const spinProduct = (a: Float64Array, b: Float64Array) => {
+  const result = new Float64Array(32);
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      for (let k = 0; k < 4; k++) {
+        const [ar, ai] = spinEntry(a, r, k);
+        const [br, bi] = spinEntry(b, k, c);
+        result[(r * 4 + c) * 2] += ar! * br! - ai! * bi!;
+        result[(r * 4 + c) * 2 + 1] += ar! * bi! + ai! * br!;
+      }
+    }
+  }
+  return result;
+};
+
+test('gamma matrices satisfy the Euclidean Clifford algebra', () => {
+  const gammas = Object.values(GAMMA_MATRICES);
+  gammas.forEach((mu, i) => {
+    gammas.forEach((nu, j) => {
+      const anticommutator = spinProduct(mu, nu).map((value, k) => value + spinProduct(nu, mu)[k]!);
+      for (let r = 0; r < 4; r++) {
+        for (let c = 0; c < 4; c++) {
+          const [re, im] = spinEntry(anticommutator, r, c);
+          close(re!, i === j && r === c ? 2 : 0, 1e-12, `{γ${i}, γ${j}} re`);
+          close(im!, 0, 1e-12, `{γ${i}, γ${j}} im`);
+        }
+      }
+    });
+  });
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      const [re, im] = spinEntry(GAMMA_5, r, c);
+      close(re!, r === c ? (r < 2 ? 1 : -1) : 0, 1e-12, 'γ5 = diag(1, 1, −1, −1)');
+      close(im!, 0, 1e-12, 'γ5 is real');
+    }
+  }
+});
+
+test('Wilson, clover and staggered operators are Γ-Hermitian', () => {
+  const lattice = hotLattice();
+  const variants: LatticeDiracOptions[] = [
+    { kind: 'wilson', mass: 0.2 },
+    { kind: 'wilson', mass: 0.2, csw: 1 },
+    { kind: 'staggered', mass: 0.1 },
+  ];
+  for (const options of variants) {
+    const operator = createLatticeDiracOperator(lattice, options);
+    const { relativeError } = checkGamma5Hermiticity(operator, mulberry32(4));
+    assert.ok(relativeError < 1e-12, `${options.kind} csw ${options.csw ?? 0}: ${relativeError}`);
+  }
+  assert.throws(
+    () => createLatticeDiracOperator(lattice, { kind: 'staggered', mass: 0 }),
+    /Staggered mass must be positive/,
+  );
+});
+
+test('CG and BiCGStab agree with and without even-odd preconditioning', () => {
+  const lattice = hotLattice(5);
+  for (const options of [
+    { kind: 'wilson', mass: 0.3, csw: 1 },
+    { kind: 'staggered', mass: 0.2 },
+  ] as LatticeDiracOptions[]) {
+    const operator = createLatticeDiracOperator(lattice, options);
+    const source = randomVector(createLatticeDiracVector(operator).length, 9);
+    const reference = solveLatticeDirac(operator, source, { tolerance: 1e-10 });
+    assert.ok(reference.converged, `${options.kind} CG converges`);
+    const check = createLatticeDiracVector(operator);
+    applyLatticeDirac(operator, reference.solution, check);
+    assert.ok(distance(check, source) < 1e-9, `${options.kind} D x = b`);
+    for (const solver of ['cg', 'bicgstab'] as const) {
+      for (const evenOdd of [false, true]) {
+        const result = solveLatticeDirac(operator, source, { solver, evenOdd, tolerance: 1e-10 });
+        assert.ok(result.converged, `${options.kind} ${solver} evenOdd=${evenOdd}`);
+        assert.ok(
+          distance(result.solution, reference.solution) < 1e-7,
+          `${options.kind} ${solver} evenOdd=${evenOdd} matches`,
+        );
+      }
+    }
+    // Staggered even-odd keeps the iteration count and halves the vectors instead.
+    if (options.kind === 'wilson') {
+      const preconditioned = solveLatticeDirac(operator, source, {
+        evenOdd: true,
+        tolerance: 1e-10,
+      });
+      assert.ok(
+        preconditioned.iterations < reference.iterations,
+        'even-odd needs fewer iterations',
+      );
+    }
+  }
+  const odd = createLatticeDiracOperator(
+    new GaugeLattice({ width: 3, height: 4, depth: 1, temporalExtent: 4 }),
+  );
+  assert.throws(
+    () => solveLatticeDirac(odd, createLatticeDiracVector(odd), { evenOdd: true }),
+    /needs even extents/,
+  );
+});
+
+test('free pion correlators are symmetric and the boundary is antiperiodic', () => {
+  const lattice = new GaugeLattice({ width: 4, height: 4, depth: 1, temporalExtent: 8 });
+  lattice.fillIdentity();
+  const origin = { x: 0, y: 0, z: 0, t: 0 };
+  for (const kind of ['wilson', 'staggered'] as const) {
+    const operator = createLatticeDiracOperator(lattice, { kind, mass: 0.4 });
+    const propagator = computePointPropagator(operator, origin, { evenOdd: true });
+    assert.ok(propagator.converged);
+    assert.equal(propagator.columns.length, kind === 'wilson' ? 12 : 3);
+    const correlator = computePionCorrelator(operator, propagator);
+    assert.equal(correlator.length, 8);
+    for (let t = 1; t < 8; t++) {
+      close(
+        correlator[t]!,
+        correlator[8 - t]!,
+        1e-8 * correlator[0]!,
+        `${kind} C(${t}) = C(8−${t})`,
+      );
+    }
+    assert.ok(correlator.every((value) => value >= 0));
+    // The staggered correlator carries an oscillating parity partner, so only Wilson is monotonic.
+    for (let t = 1; t <= 4 && kind === 'wilson'; t++) {
+      assert.ok(correlator[t]! < correlator[t - 1]!, `${kind} C decays towards T/2`);
+    }
+  }
+
+  // Antiperiodic D on links e^{iθ} is gauge-equivalent to periodic D on links e^{i(θ + π/T)}:
+  // D_p (g ψ) = g D_a ψ with g(t) = e^{−iπt/T}.
+  const temporalExtent = 4;
+  const twisted = (phase: number) => {
+    const twist = new GaugeLattice({ width: 2, height: 2, depth: 2, temporalExtent });
+    twist.fillIdentity();
+    const diagonal = { re: Math.cos(phase), im: Math.sin(phase) };
+    const zero = { re: 0, im: 0 };
+    const link: Complex3x3 = [
+      [diagonal, zero, zero],
+      [zero, diagonal, zero],
+      [zero, zero, diagonal],
+    ];
+    forEachSite(twist, (x, y, z, t) => twist.setLinkMatrix(x, y, 't', link, z, t));
+    return twist;
+  };
+  const gauge = (vector: Float64Array) => {
+    const rotated = new Float64Array(vector.length);
+    const siteFloats = 24;
+    const sitesPerSlice = 8;
+    for (let i = 0; i < vector.length; i += 2) {
+      const t = Math.floor(i / siteFloats / sitesPerSlice);
+      const angle = (-Math.PI * t) / temporalExtent;
+      rotated[i] = Math.cos(angle) * vector[i]! - Math.sin(angle) * vector[i + 1]!;
+      rotated[i + 1] = Math.sin(angle) * vector[i]! + Math.cos(angle) * vector[i + 1]!;
+    }
+    return rotated;
+  };
+  const antiperiodic = createLatticeDiracOperator(twisted(0.3), { mass: 0.2 });
+  const periodic = createLatticeDiracOperator(twisted(0.3 + Math.PI / temporalExtent), {
+    mass: 0.2,
+    antiperiodic: false,
+  });
+  const source = randomVector(createLatticeDiracVector(antiperiodic).length, 2);
+  const [a, b] = [createLatticeDiracVector(antiperiodic), createLatticeDiracVector(periodic)];
+  applyLatticeDirac(antiperiodic, source, a);
+  applyLatticeDirac(periodic, gauge(source), b);
+  assert.ok(distance(b, gauge(a)) < 1e-5, 'boundary twist is a π/T link phase');
+  const untwisted = createLatticeDiracOperator(twisted(0.3), { mass: 0.2, antiperiodic: false });
+  const c = createLatticeDiracVector(untwisted);
+  applyLatticeDirac(untwisted, source, c);
+  assert.ok(distance(a, c) > 1e-3, 'the boundary condition changes D');
+});
+
+test('the pion correlator is gauge invariant and feeds the probe frame', () => {
+  const lattice = hotLattice(3, { width: 4, height: 4, depth: 1, temporalExtent: 4 });
+  const origin = { x: 1, y: 2, z: 0, t: 0 };
+  const correlator = (gauge: GaugeLattice) => {
+    const operator = createLatticeDiracOperator(gauge, { mass: 0.5, csw: 1 });
+    return computePionCorrelator(operator, computePointPropagator(operator, origin));
+  };
+  const rotated = new GaugeLattice({ width: 4, height: 4, depth: 1, temporalExtent: 4 });
+  const rng = mulberry32(8);
+  const transforms = new Map<string, Complex3x3>();
+  forEachSite(rotated, (x, y, z, t) => transforms.set(`${x},${y},${z},${t}`, su3_haar(1, rng)));
+  forEachSite(rotated, (x, y, z, t) => {
+    for (const axis of rotated.axes) {
+      const next = rotated.shiftCoordinate({ x, y, z, t }, axis, 1);
+      const g = transforms.get(`${x},${y},${z},${t}`)!;
+      const gNext = transforms.get(`${next.x},${next.y},${next.z},${next.t}`)!;
+      rotated.setLinkMatrix(
+        x,
+        y,
+        axis,
+        su3_mul(su3_mul(g, lattice.getLinkMatrix(x, y, axis, z, t)), su3_conjugateTranspose(gNext)),
+        z,
+        t,
+      );
+    }
+  });
+  const before = correlator(lattice);
+  const after = correlator(rotated);
+  before.forEach((value, t) => close(after[t]!, value, 1e-4 * before[0]!, `C(${t})`));
+
+  const frame = buildPropagatorFrameData(lattice, origin, [
+    {
+      coord: { x: 0, y: 0, z: 0, t: 0 },
+      vector: [
+        { re: 1e-6, im: 0 },
+        { re: 0, im: 0 },
+        { re: 0, im: 0 },
+      ],
+    },
+    {
+      coord: origin,
+      vector: [
+        { re: 0, im: 0 },
+        { re: 2, im: 0 },
+        { re: 0, im: 0 },
+      ],
+    },
+    {
+      coord: { x: 3, y: 3, z: 0, t: 0 },
+      vector: [
+        { re: 0.1, im: 0 },
+        { re: 0, im: 0 },
+        { re: 0.1, im: 0 },
+      ],
+    },
+  ]);
+  assert.deepEqual(
+    frame.nodes.map((node) => node.coord),
+    [origin, { x: 3, y: 3, z: 0, t: 0 }],
+  );
+  assert.deepEqual(frame.nodes[0]!.rgb, [0, 1, 0]);
+
+  const runtime = initializeQcdRuntime({
+    latticeSize: { width: 4, height: 4 },
+    config: {
+      beta: 5.5,
+      fermion: { kind: 'staggered', mass: 0.3, solver: 'bicgstab', evenOdd: true },
+      overRelaxationSteps: 0,
+      smearing: { alpha: 0, iterations: 0 },
+      depth: 1,
+      temporalExtent: 4,
+      batchLayers: 1,
+      temperatureSchedule: [],
+    },
+    baseSeed: 1,
+    startMode: 'hot',
+  });
+  const { summary, frame: runtimeFrame } = runQcdQuarkPropagator(runtime, []);
+  assert.ok(summary.converged);
+  assert.equal(summary.pionCorrelator.length, 4);
+  assert.equal(runtime.observables.propagator, summary);
+  assert.ok(runtimeFrame.nodes.length > 1);
+  assert.deepEqual(runtimeFrame.nodes[0]!.coord, { x: 2, y: 2, z: 0, t: 0 });
+});
@@ -0,0 +1,180 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  GAUGE_ACTIONS,
+  combineGaugeActionStaple,
+  computeGaugeActionDensity,
+  computeRectangleStaple,
+  gaugePathProduct,
+  plaquetteStaplePaths,
+  resolveGaugeAction,
+} from '../src/qcd/gaugeAction.js';
+import { computeGaugeAction, runHmcTrajectory } from '../src/qcd/hmc.js';
+import { GaugeLattice } from '../src/qcd/lattice.js';
+import { measureWilsonRectangle } from '../src/qcd/observables.js';
+import {
+  QCD_SNAPSHOT_SCHEMA_VERSION,
+  buildQcdSnapshot,
+  initializeQcdRuntime,
+  restoreQcdRuntime,
+  runCpuSweep,
+  runGpuSubstep,
+  type QcdAnnealConfig,
+} from '../src/qcd/runtime.js';
+import { su3_conjugateTranspose, su3_haar, su3_mul, type Complex3x3 } from '../src/qcd/su3.js';
+import { initializeGaugeField, mulberry32, runWilsonCpuUpdate } from '../src/qcd/updateCpu.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const BETA = 4.2;
+
+const hotLattice = (seed = 13) => {
+  const lattice = new GaugeLattice({ width: 3, height: 3, depth: 3, temporalExtent: 3 });
+  initializeGaugeField(lattice, 'hot', mulberry32(seed));
+  return lattice;
+};
+
+const traceReal = (matrix: Complex3x3) => matrix[0][0].re + matrix[1][1].re + matrix[2][2].re;
+
+test('presets satisfy the normalisation c0 + 8 c1 = 1', () => {
+  for (const kind of GAUGE_ACTIONS) {
+    const action = resolveGaugeAction({ kind });
+    close(action.c0 + 8 * action.c1, 1, 1e-12, `${kind} normalisation`);
+  }
+  close(resolveGaugeAction({ kind: 'symanzik' }).c0, 5 / 3, 1e-12, 'Symanzik c0');
+  assert.deepEqual(resolveGaugeAction(), { kind: 'wilson', c0: 1, c1: 0 });
+  assert.equal(resolveGaugeAction({ kind: 'wilson', c1: -1 }).c1, 0, 'Wilson ignores c1');
+  assert.equal(resolveGaugeAction({ kind: 'iwasaki', c1: -0.25 }).c1, -0.25);
+});
+
+test('action density agrees with the HMC action and the loop measurements', () => {
+  const lattice = hotLattice();
+  for (const kind of GAUGE_ACTIONS) {
+    const { density } = computeGaugeActionDensity(lattice, { kind });
+    close(
+      computeGaugeAction(lattice, BETA, { kind }),
+      BETA * lattice.siteCount * density,
+      1e-6 * lattice.siteCount,
+      `${kind} S = β V density`,
+    );
+  }
+  const plaquette = measureWilsonRectangle(lattice, 1, 1, ['x', 'y']);
+  close(plaquette.actionDensity, 1 - plaquette.value, 1e-12, 'loop action density');
+  lattice.fillIdentity();
+  close(computeGaugeActionDensity(lattice, { kind: 'dbw2' }).density, 0, 1e-6, 'cold start');
+  close(measureWilsonRectangle(lattice, 2, 1).actionDensity, 0, 1e-6, 'cold rectangle');
+});
+
+test('combined staples reproduce the local change of the improved action', () => {
+  const action = resolveGaugeAction({ kind: 'iwasaki' });
+  const lattice = hotLattice(5);
+  const coord = { x: 1, y: 2, z: 0, t: 1 };
+  const mu = 2;
+  const axis = lattice.axes[mu]!;
+  let plaquetteStaple = gaugePathProduct(lattice, coord, plaquetteStaplePaths(mu, 4)[0]!);
+  for (const path of plaquetteStaplePaths(mu, 4).slice(1)) {
+    const term = gaugePathProduct(lattice, coord, path);
+    plaquetteStaple = plaquetteStaple.map((row, r) =>
+      row.map((entry, c) => ({ re: entry.re + term[r][c].re, im: entry.im + term[r][c].im })),
+    ) as Complex3x3;
+  }
+  const staple = combineGaugeActionStaple(
+    action,
+    plaquetteStaple,
+    computeRectangleStaple(lattice, coord, axis),
+  );
+  const localAction = () => {
+    const link = lattice.getLinkMatrix(coord.x, coord.y, axis, coord.z, coord.t);
+    return (-BETA / 3) * traceReal(su3_mul(link, su3_conjugateTranspose(staple)));
+  };
+  const before = computeGaugeAction(lattice, BETA, action);
+  const localBefore = localAction();
+  const rotated = su3_mul(
+    lattice.getLinkMatrix(coord.x, coord.y, axis, coord.z, coord.t),
+    su3_haar(1, mulberry32(99)),
+  );
+  lattice.setLinkMatrix(coord.x, coord.y, axis, rotated, coord.z, coord.t);
+  close(
+    computeGaugeAction(lattice, BETA, action) - before,
+    localAction() - localBefore,
+    1e-4,
+    'ΔS from the staple',
+  );
+});
+
+test('HMC with an improved action conserves H and stays reversible', () => {
+  const trajectory = (steps: number) =>
+    runHmcTrajectory(
+      hotLattice(),
+      {
+        beta: BETA,
+        integrator: 'leapfrog',
+        steps,
+        trajectoryLength: 0.4,
+        reversibilityCheck: true,
+        gaugeAction: { kind: 'symanzik' },
+      },
+      mulberry32(21),
+      () => 1,
+    );
+  const coarse = trajectory(6);
+  const fine = trajectory(12);
+  close(coarse.deltaH / fine.deltaH, 4, 0.8, 'leapfrog ΔH scales as ε²');
+  assert.ok(coarse.reversibility!.maxLinkDeviation < 1e-10, 'links return');
+  assert.ok(coarse.reversibility!.hamiltonianError < 1e-8, 'H returns');
+});
+
+test('heat-bath sweeps with rectangles order a hot start', () => {
+  const run = (kind: 'wilson' | 'iwasaki') => {
+    const lattice = new GaugeLattice({ width: 4, height: 4, depth: 1, temporalExtent: 1 });
+    return runWilsonCpuUpdate(lattice, {
+      betaSchedule: [2.5],
+      sweepsPerBeta: 4,
+      thermalizationSweeps: 2,
+      startMode: 'hot',
+      seed: 8,
+      gaugeAction: { kind },
+    });
+  };
+  const wilson = run('wilson');
+  const iwasaki = run('iwasaki');
+  assert.ok(iwasaki.plaquetteHistory[0]! > 0.2, `Iwasaki ⟨P⟩ ${iwasaki.plaquetteHistory[0]}`);
+  assert.notDeepEqual(iwasaki.plaquetteHistory, wilson.plaquetteHistory);
+});
+
+test('QCD snapshots record the gauge action and older snapshots restore as Wilson', async () => {
+  const config: QcdAnnealConfig = {
+    beta: BETA,
+    gaugeAction: { kind: 'dbw2' },
+    overRelaxationSteps: 1,
+    smearing: { alpha: 0, iterations: 0 },
+    depth: 1,
+    temporalExtent: 1,
+    batchLayers: 1,
+    temperatureSchedule: [],
+  };
+  const runtime = initializeQcdRuntime({
+    latticeSize: { width: 4, height: 4 },
+    config,
+    baseSeed: 3,
+    startMode: 'hot',
+  });
+  const handled = await runGpuSubstep(runtime, { runQcdHeatbathSweep: async () => true });
+  assert.equal(handled, false, 'improved actions bypass the GPU heat-bath');
+  runCpuSweep(runtime, mulberry32(3));
+  assert.ok(runtime.observables.actionDensity! > 0, 'improved runs report the density');
+
+  const snapshot = buildQcdSnapshot(runtime, []);
+  assert.equal(snapshot.schemaVersion, QCD_SNAPSHOT_SCHEMA_VERSION);
+  assert.deepEqual(snapshot.gaugeAction, resolveGaugeAction({ kind: 'dbw2' }));
+  assert.equal(restoreQcdRuntime(snapshot).config.gaugeAction?.kind, 'dbw2');
+
+  const { gaugeAction: _action, ...legacy } = { ...snapshot, schemaVersion: 2 };
+  const { gaugeAction: _config, ...legacyConfig } = snapshot.config;
+  const restored = restoreQcdRuntime({ ...legacy, config: legacyConfig });
+  assert.deepEqual(restored.config.gaugeAction, { kind: 'wilson', c1: 0 });
+  runCpuSweep(restored, mulberry32(4));
+  assert.equal(restored.observables.actionDensity, undefined);
+});
@@ -0,0 +1,234 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  computeMesonCorrelator,
+  computePointPropagator,
+  createLatticeDiracOperator,
+} from '../src/qcd/dirac.js';
+import { GaugeLattice } from '../src/qcd/lattice.js';
+import {
+  analyzeCorrelator,
+  bootstrap,
+  computeEffectiveMass,
+  fitCorrelator,
+  foldCorrelator,
+  jackknife,
+} from '../src/qcd/observables.js';
+import {
+  buildQcdSnapshot,
+  initializeQcdRuntime,
+  restoreQcdRuntime,
+  runCpuSweep,
+  runQcdQuarkPropagator,
+  type QcdAnnealConfig,
+} from '../src/qcd/runtime.js';
+import { mulberry32 } from '../src/qcd/updateCpu.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const T = 16;
+const MASS = 0.45;
+const AMPLITUDE = 2.5;
+
+const coshCorrelator = (mass = MASS, amplitude = AMPLITUDE) =>
+  Array.from(
+    { length: T },
+    (_, t) => amplitude * (Math.exp(-mass * t) + Math.exp(-mass * (T - t))),
+  );
+
+/** Per-configuration correlators with a shared multiplicative fluctuation per sample. */
+const noisySamples = (count: number, seed: number) => {
+  const rng = mulberry32(seed);
+  const exact = coshCorrelator();
+  return Array.from({ length: count }, () => {
+    const common = 1 + 0.04 * (rng() - 0.5);
+    return exact.map((value) => value * common * (1 + 0.02 * (rng() - 0.5)));
+  });
+};
+
+test('effective masses recover the mass of a periodic correlator', () => {
+  const correlator = coshCorrelator();
+  const cosh = computeEffectiveMass(correlator, 'cosh');
+  assert.equal(cosh.length, T - 1);
+  for (let t = 0; t < T / 2; t++) {
+    close(cosh[t]!, MASS, 1e-9, `cosh m_eff(${t})`);
+  }
+  assert.equal(cosh[T / 2], null, 'cosh mass is undefined past T/2');
+  const log = computeEffectiveMass(correlator, 'log');
+  close(log[1]!, MASS, 5e-3, 'log mass far from the midpoint');
+  assert.ok(log[T / 2 - 2]! < MASS, 'backward state pulls the log mass down');
+  assert.deepEqual(computeEffectiveMass([1, -1, 0.5]), [null, null]);
+
+  const folded = foldCorrelator(correlator);
+  assert.equal(folded.length, T / 2 + 1);
+  close(folded[3]!, correlator[3]!, 1e-12, 'symmetric data folds onto itself');
+  assert.deepEqual(foldCorrelator([4, 1, 2, 3]), [4, 2, 2]);
+});
+
+test('fits reproduce exact exponentials and reject singular covariances', () => {
+  const exp = Array.from({ length: T }, (_, t) => AMPLITUDE * Math.exp(-MASS * t));
+  const expFit = fitCorrelator(exp, { tMin: 2, tMax: 8 });
+  close(expFit.mass, MASS, 1e-8, 'exp mass');
+  close(expFit.amplitude, AMPLITUDE, 1e-7, 'exp amplitude');
+  assert.equal(expFit.degreesOfFreedom, 5);
+
+  const coshFit = fitCorrelator(coshCorrelator(), {
+    tMin: 1,
+    tMax: T / 2,
+    form: 'cosh',
+    initialMass: 1.2,
+    errors: coshCorrelator().map((value) => 0.01 * value),
+  });
+  close(coshFit.mass, MASS, 1e-8, 'cosh mass from a poor start');
+  close(coshFit.chiSquared, 0, 1e-12, 'exact data has χ² = 0');
+
+  const singular = Array.from({ length: T }, () => new Array<number>(T).fill(1));
+  assert.throws(
+    () => fitCorrelator(exp, { tMin: 1, tMax: 4, covariance: singular }),
+    /covariance is singular/,
+  );
+  assert.throws(() => fitCorrelator(exp, { tMin: 3, tMax: 3 }), /needs two points/);
+});
+
+test('jackknife and bootstrap errors agree with the standard error', () => {
+  const samples = noisySamples(40, 5);
+  const jack = analyzeCorrelator(samples, {
+    effectiveMass: 'cosh',
+    fit: { tMin: 2, tMax: T / 2, form: 'cosh' },
+  });
+  assert.equal(jack.configurations, 40);
+  assert.equal(jack.bins, 40);
+  // The jackknife error of a mean is exactly the standard error.
+  const values = samples.map((sample) => sample[4]!);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / 39;
+  close(jack.rows[4]!.error, Math.sqrt(variance / 40), 1e-12, 'jackknife error of C(4)');
+  close(
+    jack.rows[4]!.error,
+    jackknife(values, (v) => v.reduce((a, b) => a + b, 0) / v.length).error,
+    1e-12,
+    'matches the scalar jackknife',
+  );
+
+  const fit = jack.fit!;
+  assert.ok(fit.correlated, '40 configurations invert a 7-point covariance');
+  assert.ok(
+    Math.abs(fit.mass - MASS) < 4 * fit.massError + 1e-3,
+    `m ${fit.mass} ± ${fit.massError}`,
+  );
+  assert.ok(fit.massError > 0 && fit.massError < 0.05);
+  const plateau = jack.rows.slice(2, T / 2).map((row) => row.effectiveMass!);
+  plateau.forEach((value, i) => close(value, MASS, 0.05, `plateau ${i + 2}`));
+  assert.ok(jack.rows.slice(2, T / 2).every((row) => row.effectiveMassError! > 0));
+  assert.equal(jack.rows.at(-1)!.effectiveMass, null);
+
+  const boot = analyzeCorrelator(samples, {
+    fit: { tMin: 2, tMax: T / 2, form: 'cosh' },
+    resampling: 'bootstrap',
+    resamples: 400,
+    rng: mulberry32(7),
+  });
+  close(boot.rows[4]!.error / jack.rows[4]!.error, 1, 0.2, 'bootstrap vs jackknife error');
+  close(boot.fit!.mass, fit.mass, 1e-3, 'central fits agree across covariance estimates');
+  const scalar = bootstrap(
+    values,
+    (v) => v.reduce((a, b) => a + b, 0) / v.length,
+    400,
+    mulberry32(3),
+  );
+  close(scalar.error / Math.sqrt(variance / 40), 1, 0.2, 'scalar bootstrap error');
+  assert.throws(() => analyzeCorrelator(samples, { resampling: 'bootstrap' }), /requires an rng/);
+
+  const binned = analyzeCorrelator(samples, { binSize: 4 });
+  assert.equal(binned.bins, 10);
+  close(binned.rows[0]!.mean, jack.rows[0]!.mean, 1e-12, 'binning keeps the mean');
+
+  const few = analyzeCorrelator(samples.slice(0, 4), { fit: { tMin: 1, tMax: T / 2 } });
+  assert.equal(few.fit!.correlated, false, 'four samples fall back to an uncorrelated fit');
+  assert.throws(() => analyzeCorrelator(samples.slice(0, 1)), /at least two bins/);
+});
+
+test('meson correlators are symmetric and bounded by the pion', () => {
+  const lattice = new GaugeLattice({ width: 4, height: 4, depth: 4, temporalExtent: 8 });
+  lattice.fillIdentity();
+  const origin = { x: 0, y: 0, z: 0, t: 0 };
+  for (const kind of ['wilson', 'staggered'] as const) {
+    const operator = createLatticeDiracOperator(lattice, { kind, mass: 0.3 });
+    const propagator = computePointPropagator(operator, origin, { evenOdd: true });
+    const pion = computeMesonCorrelator(operator, propagator, 'pion');
+    const rho = computeMesonCorrelator(operator, propagator, 'rho');
+    for (let t = 1; t < 8; t++) {
+      close(rho[t]!, rho[8 - t]!, 1e-8 * Math.abs(rho[0]!), `${kind} ρ(${t}) symmetric`);
+      assert.ok(rho[t]! <= pion[t]! + 1e-12, `${kind} |ρ(${t})| is bounded by π(${t})`);
+    }
+    if (kind === 'wilson') {
+      assert.ok(
+        rho.every((value) => value > 0),
+        'Wilson vector correlator is positive',
+      );
+    }
+  }
+});
+
+test('the runtime accumulates hadron tables that survive a snapshot round trip', () => {
+  const config: QcdAnnealConfig = {
+    beta: 6,
+    fermion: { kind: 'wilson', mass: 0.4, solver: 'bicgstab' },
+    overRelaxationSteps: 0,
+    smearing: { alpha: 0, iterations: 0 },
+    depth: 1,
+    temporalExtent: 8,
+    batchLayers: 1,
+    temperatureSchedule: [],
+  };
+  const runtime = initializeQcdRuntime({
+    latticeSize: { width: 4, height: 4 },
+    config,
+    baseSeed: 12,
+    startMode: 'cold',
+  });
+  const rng = mulberry32(12);
+  runCpuSweep(runtime, rng);
+  runQcdQuarkPropagator(runtime, []);
+  runQcdQuarkPropagator(runtime, []);
+  let hadrons = runtime.observables.hadrons!;
+  assert.deepEqual(hadrons.sweeps, [runtime.sweepIndex], 'repeat measurements replace');
+  assert.deepEqual(
+    hadrons.channels.map((entry) => [entry.channel, entry.samples.length, entry.analysis]),
+    [
+      ['pion', 1, null],
+      ['rho', 1, null],
+    ],
+  );
+
+  runCpuSweep(runtime, rng);
+  runQcdQuarkPropagator(runtime, []);
+  hadrons = runtime.observables.hadrons!;
+  assert.equal(hadrons.sweeps.length, 2);
+  const pion = hadrons.channels[0]!.analysis!;
+  assert.equal(pion.configurations, 2);
+  assert.equal(pion.rows.length, 8);
+  assert.equal(pion.fit!.tMax, 4);
+
+  const snapshot = JSON.parse(JSON.stringify(buildQcdSnapshot(runtime, [])));
+  assert.deepEqual(snapshot.observables.hadrons, hadrons);
+  const restored = restoreQcdRuntime(snapshot);
+  runCpuSweep(restored, rng);
+  runQcdQuarkPropagator(restored, []);
+  assert.equal(
+    restored.observables.hadrons!.channels[0]!.samples.length,
+    3,
+    'restored runs extend',
+  );
+
+  restored.config = { ...restored.config, fermion: { kind: 'staggered', mass: 0.4 } };
+  runQcdQuarkPropagator(restored, []);
+  assert.equal(restored.observables.hadrons!.kind, 'staggered');
+  assert.equal(
+    restored.observables.hadrons!.channels[0]!.samples.length,
+    1,
+    'new fermion restarts',
+  );
+});
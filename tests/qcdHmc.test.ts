@@ -0,0 +1,162 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { GaugeLattice } from '../src/qcd/lattice.js';
+import {
+  computeGaugeAction,
+  runHmcCpuUpdate,
+  runHmcTrajectory,
+  type HmcOptions,
+} from '../src/qcd/hmc.js';
+import {
+  buildQcdSnapshot,
+  initializeQcdRuntime,
+  restoreQcdRuntime,
+  runCpuSweep,
+  runGpuSubstep,
+  type QcdAnnealConfig,
+} from '../src/qcd/runtime.js';
+import { computeAveragePlaquette, initializeGaugeField, mulberry32 } from '../src/qcd/updateCpu.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const BETA = 5.5;
+
+const hotLattice = (seed = 7) => {
+  const lattice = new GaugeLattice({ width: 2, height: 2, depth: 2, temporalExtent: 2 });
+  initializeGaugeField(lattice, 'hot', mulberry32(seed));
+  return lattice;
+};
+
+/** ΔH of one trajectory from a fixed start and fixed momenta, always rejected. */
+const energyError = (options: Omit<HmcOptions, 'beta'>) =>
+  runHmcTrajectory(hotLattice(), { beta: BETA, ...options }, mulberry32(99), () => 1).deltaH;
+
+test('integrators conserve H to their order and Omelyan beats leapfrog', () => {
+  const coarse = energyError({ integrator: 'leapfrog', steps: 8, trajectoryLength: 0.5 });
+  const fine = energyError({ integrator: 'leapfrog', steps: 16, trajectoryLength: 0.5 });
+  close(coarse / fine, 4, 0.6, 'leapfrog ΔH scales as ε²');
+  const omelyan = energyError({ integrator: 'omelyan', steps: 8, trajectoryLength: 0.5 });
+  assert.ok(
+    Math.abs(omelyan) < Math.abs(coarse) / 4,
+    `Omelyan |ΔH| ${omelyan} vs leapfrog ${coarse}`,
+  );
+});
+
+test('trajectories are reversible and rejection leaves the lattice untouched', () => {
+  for (const integrator of ['leapfrog', 'omelyan'] as const) {
+    const lattice = hotLattice();
+    const before = Float32Array.from(lattice.data);
+    const result = runHmcTrajectory(
+      lattice,
+      { beta: BETA, integrator, steps: 6, trajectoryLength: 0.6, reversibilityCheck: true },
+      mulberry32(3),
+      () => 1,
+    );
+    assert.ok(result.reversibility!.maxLinkDeviation < 1e-10, `${integrator} links return`);
+    assert.ok(result.reversibility!.hamiltonianError < 1e-9, `${integrator} H returns`);
+    assert.equal(result.accepted, false);
+    assert.deepEqual(lattice.data, before, `${integrator} rejection restores the start`);
+    assert.equal(result.forceEvaluations, integrator === 'omelyan' ? 13 : 7);
+    close(result.initialH - result.finalH, -result.deltaH, 1e-9, 'ΔH bookkeeping');
+  }
+
+  const lattice = hotLattice();
+  const action = computeGaugeAction(lattice, BETA);
+  const accepted = runHmcTrajectory(lattice, { beta: BETA, steps: 6 }, mulberry32(3), () => 0);
+  assert.equal(accepted.accepted, true);
+  assert.notEqual(computeGaugeAction(lattice, BETA), action, 'accepted links are written back');
+  close(accepted.plaquette, computeAveragePlaquette(lattice), 1e-12, 'reported plaquette');
+  assert.throws(() => runHmcTrajectory(lattice, { beta: -1 }, Math.random), /non-negative/);
+});
+
+test('Wilson action matches the average plaquette', () => {
+  const lattice = hotLattice(11);
+  const planes = 6 * lattice.siteCount;
+  close(
+    computeGaugeAction(lattice, BETA),
+    BETA * planes * (1 - computeAveragePlaquette(lattice)),
+    1e-6,
+    'S = β Σ (1 − P)',
+  );
+  lattice.fillIdentity();
+  close(computeGaugeAction(lattice, BETA), 0, 1e-6, 'cold start has zero action');
+});
+
+test('HMC updates are deterministic per seed and report telemetry', () => {
+  const run = (seed: number) => {
+    const lattice = new GaugeLattice({ width: 2, height: 2, depth: 2, temporalExtent: 2 });
+    const result = runHmcCpuUpdate(lattice, {
+      betaSchedule: [BETA, 6],
+      trajectoriesPerBeta: 2,
+      thermalizationTrajectories: 1,
+      startMode: 'hot',
+      seed,
+      integrator: 'omelyan',
+      steps: 6,
+      trajectoryLength: 1,
+      reversibilityCheckInterval: 5,
+    });
+    return { lattice, result };
+  };
+  const first = run(42);
+  const second = run(42);
+  assert.deepEqual(second.lattice.data, first.lattice.data);
+  assert.deepEqual(second.result.deltaHHistory, first.result.deltaHHistory);
+  assert.notDeepEqual(run(43).result.deltaHHistory, first.result.deltaHHistory);
+
+  const { telemetry, totalTrajectories, plaquetteHistory } = first.result;
+  assert.equal(totalTrajectories, 5);
+  assert.equal(telemetry.trajectories, 5);
+  assert.equal(plaquetteHistory.length, 2);
+  assert.ok(telemetry.acceptanceRate > 0.5, `acceptance ${telemetry.acceptanceRate}`);
+  assert.ok(Math.abs(telemetry.lastDeltaH) < 1, `ΔH ${telemetry.lastDeltaH}`);
+  assert.ok(
+    telemetry.maxReversibilityError != null && telemetry.maxReversibilityError < 1e-9,
+    'fifth trajectory runs the reversibility check',
+  );
+  assert.throws(
+    () => runHmcCpuUpdate(first.lattice, { betaSchedule: [] }),
+    /non-empty beta schedule/,
+  );
+});
+
+test('QCD runtime selects HMC from the anneal config', async () => {
+  const config: QcdAnnealConfig = {
+    beta: BETA,
+    updateMethod: 'hmc',
+    hmc: { integrator: 'leapfrog', steps: 6, trajectoryLength: 0.5 },
+    overRelaxationSteps: 1,
+    smearing: { alpha: 0, iterations: 0 },
+    depth: 1,
+    temporalExtent: 1,
+    batchLayers: 1,
+    temperatureSchedule: [],
+  };
+  const runtime = initializeQcdRuntime({
+    latticeSize: { width: 4, height: 4 },
+    config,
+    baseSeed: 5,
+    startMode: 'hot',
+  });
+  let gpuCalls = 0;
+  const handled = await runGpuSubstep(runtime, {
+    runQcdHeatbathSweep: async () => {
+      gpuCalls += 1;
+      return true;
+    },
+  });
+  assert.equal(handled, false, 'the GPU heat-bath is bypassed');
+  assert.equal(gpuCalls, 0);
+
+  const rng = mulberry32(5);
+  runCpuSweep(runtime, rng);
+  runCpuSweep(runtime, rng);
+  assert.equal(runtime.sweepIndex, 2);
+  assert.equal(runtime.observables.hmc?.trajectories, 2);
+  const restored = restoreQcdRuntime(buildQcdSnapshot(runtime, []));
+  assert.deepEqual(restored.hmcTelemetry, runtime.hmcTelemetry);
+  runCpuSweep(restored, rng);
+  assert.equal(restored.observables.hmc?.trajectories, 3);
+});
@@ -0,0 +1,160 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { GaugeLattice, type GaugeLinkAxis } from '../src/qcd/lattice.js';
+import type { Complex3x3 } from '../src/qcd/su3.js';
+import { computeAveragePlaquette, initializeGaugeField, mulberry32 } from '../src/qcd/updateCpu.js';
+import { measureTopologicalCharge, runWilsonFlow } from '../src/qcd/wilsonFlow.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+const L = 4;
+
+const hotLattice = (seed = 17) => {
+  const lattice = new GaugeLattice({ width: 3, height: 3, depth: 3, temporalExtent: 3 });
+  initializeGaugeField(lattice, 'hot', mulberry32(seed));
+  return lattice;
+};
+
+const u1 = (phase: number): Complex3x3 => [
+  [
+    { re: Math.cos(phase), im: Math.sin(phase) },
+    { re: 0, im: 0 },
+    { re: 0, im: 0 },
+  ],
+  [
+    { re: 0, im: 0 },
+    { re: Math.cos(phase), im: -Math.sin(phase) },
+    { re: 0, im: 0 },
+  ],
+  [
+    { re: 0, im: 0 },
+    { re: 0, im: 0 },
+    { re: 1, im: 0 },
+  ],
+];
+
+/**
+ * Constant abelian flux: n quanta through every (x, y) plane and m through every (z, t) plane,
+ * embedded along diag(1, −1, 0). The continuum charge is 2nm; the clover sees sin θ instead of θ.
+ */
+const fluxLattice = (n: number, m: number) => {
+  const lattice = new GaugeLattice({ width: L, height: L, depth: L, temporalExtent: L });
+  const flux = (quanta: number, a: number, b: number) => ({
+    first: (-2 * Math.PI * quanta * b) / (L * L),
+    second: b === L - 1 ? (2 * Math.PI * quanta * a) / L : 0,
+  });
+  for (let t = 0; t < L; t++) {
+    for (let z = 0; z < L; z++) {
+      for (let y = 0; y < L; y++) {
+        for (let x = 0; x < L; x++) {
+          const xy = flux(n, x, y);
+          const zt = flux(m, z, t);
+          const phases: Record<GaugeLinkAxis, number> = {
+            x: xy.first,
+            y: xy.second,
+            z: zt.first,
+            t: zt.second,
+          };
+          for (const axis of lattice.axes) {
+            lattice.setLinkMatrix(x, y, axis, u1(phases[axis]), z, t);
+          }
+        }
+      }
+    }
+  }
+  return lattice;
+};
+
+test('the flow smooths a hot configuration and leaves the input untouched', () => {
+  const lattice = hotLattice();
+  const before = Float32Array.from(lattice.data);
+  const result = runWilsonFlow(lattice, { stepSize: 0.05, maxFlowTime: 0.5, measureInterval: 2 });
+  assert.deepEqual(lattice.data, before);
+  assert.equal(result.steps, 10);
+  assert.deepEqual(
+    result.history.map((entry) => Number(entry.flowTime.toFixed(6))),
+    [0, 0.1, 0.2, 0.3, 0.4, 0.5],
+  );
+  for (let i = 1; i < result.history.length; i++) {
+    const [previous, current] = [result.history[i - 1]!, result.history[i]!];
+    assert.ok(current.plaquette > previous.plaquette, `plaquette grows at t = ${current.flowTime}`);
+  }
+  // Random clover leaves cancel, so E only starts falling once the links are correlated.
+  const peak = Math.max(...result.history.map((entry) => entry.energyDensity));
+  assert.ok(result.history.at(-1)!.energyDensity < peak);
+  close(result.history[0]!.plaquette, computeAveragePlaquette(lattice), 1e-5, 'start plaquette');
+  close(
+    result.history.at(-1)!.plaquette,
+    computeAveragePlaquette(result.lattice),
+    1e-5,
+    'flowed lattice is returned',
+  );
+
+  const cold = new GaugeLattice({ width: 3, height: 3, depth: 3, temporalExtent: 3 });
+  const frozen = runWilsonFlow(cold, { stepSize: 0.1, maxFlowTime: 0.3 });
+  assert.ok(frozen.history.every((entry) => Math.abs(entry.energyDensity) < 1e-9));
+  assert.equal(frozen.t0, null);
+  assert.throws(() => runWilsonFlow(cold, { stepSize: 0 }), /step size must be positive/);
+});
+
+const hotPlane = (seed: number) => {
+  const lattice = new GaugeLattice({ width: 4, height: 4, depth: 1, temporalExtent: 1 });
+  initializeGaugeField(lattice, 'hot', mulberry32(seed));
+  return lattice;
+};
+
+test('the Runge–Kutta integrator is third order in the step size', () => {
+  const lattice = hotPlane(3);
+  const flowTo = (stepSize: number) =>
+    runWilsonFlow(lattice, { stepSize, maxFlowTime: 0.24, measureInterval: 1000 }).history.at(-1)!
+      .energyDensity;
+  const reference = flowTo(0.005);
+  const coarse = flowTo(0.04) - reference;
+  const fine = flowTo(0.02) - reference;
+  close(coarse / fine, 8, 1.5, 'error ratio for halved ε');
+});
+
+test('t0 and w0 interpolate the reference crossings', () => {
+  const result = runWilsonFlow(hotPlane(9), {
+    stepSize: 0.02,
+    maxFlowTime: 0.4,
+    measureInterval: 2,
+    t0Reference: 0.01,
+    w0Reference: 0.02,
+  });
+  const bracket = (
+    reference: number,
+    value: (entry: (typeof result.history)[number]) => number,
+  ) => {
+    const after = result.history.findIndex((entry) => value(entry) >= reference);
+    assert.ok(after > 0, `crosses ${reference}`);
+    return [result.history[after - 1]!.flowTime, result.history[after]!.flowTime];
+  };
+  const [t0Low, t0High] = bracket(0.01, (entry) => entry.t2E);
+  assert.ok(result.t0! > t0Low && result.t0! <= t0High, `t0 ${result.t0}`);
+  const [wLow, wHigh] = bracket(0.02, (entry) => entry.w);
+  assert.ok(result.w0! ** 2 > wLow && result.w0! ** 2 <= wHigh, `w0 ${result.w0}`);
+});
+
+test('clover charge recovers the flux quanta of an abelian background', () => {
+  const theta = (2 * Math.PI) / (L * L);
+  const lattice = (2 * Math.sin(theta) ** 2) / theta ** 2;
+  const positive = measureTopologicalCharge(fluxLattice(1, 1));
+  close(positive.charge, lattice, 1e-4, 'Q for n = m = 1');
+  close(
+    positive.density.reduce((sum, q) => sum + q, 0),
+    positive.charge,
+    1e-9,
+    'density sums to Q',
+  );
+  close(measureTopologicalCharge(fluxLattice(1, -1)).charge, -lattice, 1e-4, 'anti-self-dual');
+  close(measureTopologicalCharge(fluxLattice(1, 0)).charge, 0, 1e-9, 'no zt flux');
+
+  const flat = new GaugeLattice({ width: 4, height: 4, depth: 4, temporalExtent: 1 });
+  initializeGaugeField(flat, 'hot', mulberry32(2));
+  const threeD = measureTopologicalCharge(flat);
+  assert.equal(threeD.charge, 0, 'Q needs all four axes');
+  assert.ok(threeD.energyDensity > 0);
+});
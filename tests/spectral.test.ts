@@ -0,0 +1,240 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeResolution, type RimField, type SurfaceField } from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import { createKernelSpec } from '../src/kernel/kernelSpec.js';
+import { AngularSpectrumSolver } from '../src/optics/angularSpectrum.js';
+import {
+  cauchyIndex,
+  cieColorMatching,
+  compareRimDispersion,
+  computeSpectralRimField,
+  createSpectralOpticalField,
+  createSpectralSampling,
+  integrateSpectralField,
+  integrateSpectralPlanes,
+  propagateSpectralField,
+  reliefFromSurface,
+  xyzToLms,
+} from '../src/optics/spectral.js';
+import {
+  computeRimDispersionOffsets,
+  renderRainbowFrame,
+  type RainbowFrameInput,
+} from '../src/pipeline/rainbowFrame.js';
+import { createDefaultSu7RuntimeParams } from '../src/pipeline/su7/types.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+test('sampling and CIE colour matching integrate a flat spectrum to white', () => {
+  const sampling = createSpectralSampling();
+  assert.equal(sampling.wavelengthsNm.length, 16);
+  assert.equal(sampling.bandwidthNm, 18.75);
+  close(sampling.wavelengthsNm[0]!, 409.375, 1e-9, 'first centre');
+  close(sampling.wavelengthsNm[15]!, 690.625, 1e-9, 'last centre');
+  assert.throws(() => createSpectralSampling({ count: 0 }), /positive integer/);
+  assert.throws(() => createSpectralSampling({ minNm: 700, maxNm: 400 }), /invalid wavelength/);
+
+  close(cieColorMatching(555)[1], 1, 0.03, 'ȳ peak');
+  close(cieColorMatching(600)[0], 1.06, 0.03, 'x̄ red lobe');
+  close(cieColorMatching(445)[2], 1.78, 0.05, 'z̄ peak');
+
+  const fine = createSpectralSampling({ count: 300, minNm: 380, maxNm: 780 });
+  const resolution = makeResolution(1, 1);
+  const flat = Array.from(fine.wavelengthsNm, () => [1]);
+  const white = integrateSpectralPlanes(flat, fine, resolution);
+  close(white.Y[0]!, 1, 1e-6, 'flat spectrum Y');
+  // Illuminant E sits at X = Y = Z.
+  close(white.X[0]!, 1, 0.03, 'flat spectrum X');
+  close(white.Z[0]!, 1, 0.03, 'flat spectrum Z');
+  const [l, m, s] = xyzToLms(white.X[0]!, white.Y[0]!, white.Z[0]!);
+  assert.ok(Math.abs(l - m) < 0.1 && Math.abs(m - s) < 0.12, `near-neutral cones ${l} ${m} ${s}`);
+
+  const red = integrateSpectralPlanes(
+    Array.from(fine.wavelengthsNm, (lambda) => [lambda > 620 ? 1 : 0]),
+    fine,
+    resolution,
+  );
+  const [rl, rm, rs] = xyzToLms(red.X[0]!, red.Y[0]!, red.Z[0]!);
+  assert.ok(rl > rm && rm > rs, `long-wave light excites L most: ${rl} ${rm} ${rs}`);
+  assert.throws(() => integrateSpectralPlanes([[1]], fine, resolution), /300 bands/);
+});
+
+test('spectral frames propagate every band at its own wavelength', () => {
+  const sampling = createSpectralSampling({ count: 4, minNm: 450, maxNm: 650 });
+  const field = createSpectralOpticalField({ width: 8, height: 4 }, sampling);
+  field.bands.forEach((frame, index) => {
+    const meta = frame.getMeta();
+    assert.equal(meta.wavelengthNm, sampling.wavelengthsNm[index]);
+    assert.deepEqual(meta.spectralBand, { index, count: 4, bandwidthNm: 50 });
+    frame.real.fill(1);
+  });
+
+  const dzMeters = 2.5e-6;
+  const solver = new AngularSpectrumSolver({
+    width: 8,
+    height: 4,
+    wavelengthNm: 550,
+    pixelPitchMeters: 1e-6,
+    dzMeters,
+    transferCacheSize: 4,
+  });
+  // Twice through the same solver: cached transfer functions must stay per wavelength.
+  for (let pass = 0; pass < 2; pass++) {
+    const exit = propagateSpectralField(field, { dzMeters, solver });
+    exit.bands.forEach((frame, index) => {
+      const lambda = sampling.wavelengthsNm[index]!;
+      const expected = (2 * Math.PI * dzMeters) / (lambda * 1e-9);
+      close(frame.real[5]!, Math.cos(expected), 1e-5, `band ${index} real`);
+      close(frame.imag[5]!, Math.sin(expected), 1e-5, `band ${index} imag`);
+      assert.equal(frame.getMeta().wavelengthNm, lambda);
+      assert.equal(frame.getMeta().spectralBand?.index, index);
+      solver.getManager().releaseFrame(frame);
+    });
+  }
+
+  const xyz = integrateSpectralField(field);
+  close(xyz.Y[0]!, 1, 1e-6, 'unit field integrates to Y = 1');
+  const scalar = new OpticalFieldFrame(makeResolution(2, 2));
+  assert.equal(scalar.getMeta().spectralBand, undefined);
+  assert.ok(cauchyIndex(400) > cauchyIndex(700), 'normal dispersion');
+});
+
+const stepRelief = (width: number, height: number, from: number, to: number) => {
+  const relief = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = from; x < to; x++) relief[y * width + x] = 1;
+  }
+  return relief;
+};
+
+const stepRim = (width: number, height: number, from: number, to: number): RimField => {
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const mag = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    gx[y * width + from] = 1;
+    mag[y * width + from] = 1;
+    gx[y * width + to] = -1;
+    mag[y * width + to] = 1;
+  }
+  return { kind: 'rim', resolution: makeResolution(width, height), gx, gy, mag };
+};
+
+test('a dispersive step spreads long-wave fringes furthest', () => {
+  const width = 64;
+  const height = 8;
+  const spectral = computeSpectralRimField(stepRelief(width, height, 16, 48), width, height);
+  assert.ok(spectral.peak > 0);
+  assert.equal(Math.max(...spectral.L, ...spectral.M, ...spectral.S), 1, 'normalised to peak');
+  assert.ok(spectral.L[16]! > 0.1 && spectral.L[0]! < 0.05, 'energy hugs the edges');
+
+  const comparison = compareRimDispersion(
+    spectral,
+    stepRim(width, height, 16, 48),
+    computeRimDispersionOffsets(520, { L: 560, M: 530, S: 420 }, 1.4),
+  );
+  assert.equal(comparison.samples, 16);
+  const { L, M, S } = comparison.spectral;
+  assert.ok(L > M && M > S, `fringe spread follows √(λz): ${L} ${M} ${S}`);
+  // The heuristic shifts S furthest (λref / λ − 1 is largest for 420 nm).
+  assert.ok(comparison.heuristic.S > comparison.heuristic.L);
+  assert.equal(comparison.rankAgreement, 1 / 3);
+
+  const flat = computeSpectralRimField(new Float32Array(width * height), width, height);
+  assert.ok(flat.peak < 1e-6);
+  assert.ok(flat.L.every((v) => v === 0));
+  assert.throws(() => computeSpectralRimField(new Float32Array(3), width, height), /expected 512/);
+  assert.throws(
+    () => compareRimDispersion(spectral, stepRim(8, 8, 2, 6), { L: 0, M: 0, S: 0 }),
+    /expected 64x8/,
+  );
+});
+
+test('renderRainbowFrame takes rim colour from spectral cone signals', () => {
+  const width = 32;
+  const height = 16;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const v = i % width >= 8 && i % width < 24 ? 200 : 40;
+    rgba.fill(v, i * 4, i * 4 + 3);
+    rgba[i * 4 + 3] = 255;
+  }
+  const surface: SurfaceField = {
+    kind: 'surface',
+    resolution: makeResolution(width, height),
+    rgba,
+  };
+  const rim = stepRim(width, height, 8, 24);
+  const spectral = computeSpectralRimField(reliefFromSurface(surface), width, height);
+
+  const input = (spectralRim: RainbowFrameInput['spectralRim']): RainbowFrameInput => ({
+    width,
+    height,
+    timeSeconds: 0.5,
+    out: new Uint8ClampedArray(width * height * 4),
+    surface,
+    rim,
+    phase: null,
+    volume: null,
+    kernel: createKernelSpec({ gain: 2, k0: 0.2, Q: 3, anisotropy: 0.4, chirality: 0.5 }),
+    dmt: 0,
+    arousal: 0,
+    blend: 0.4,
+    normPin: false,
+    normTarget: 0.6,
+    lastObs: 0.6,
+    lambdaRef: 520,
+    lambdas: { L: 560, M: 530, S: 420 },
+    beta2: 1.4,
+    microsaccade: false,
+    alive: false,
+    phasePin: false,
+    edgeThreshold: 0.5,
+    wallpaperGroup: 'off',
+    surfEnabled: false,
+    orientationAngles: [0, Math.PI / 2],
+    thetaMode: 'gradient',
+    thetaGlobal: 0,
+    polBins: 0,
+    jitter: 0,
+    coupling: {
+      rimToSurfaceBlend: 0,
+      rimToSurfaceAlign: 0,
+      surfaceToRimOffset: 0,
+      surfaceToRimSigma: 0,
+      surfaceToRimHue: 0,
+      kurToTransparency: 0,
+      kurToOrientation: 0,
+      kurToChirality: 0,
+      volumePhaseToHue: 0,
+      volumeDepthToWarp: 0,
+    },
+    sigma: 2,
+    contrast: 1,
+    rimAlpha: 1,
+    rimEnabled: true,
+    displayMode: 'color',
+    surfaceBlend: 0,
+    surfaceRegion: 'both',
+    warpAmp: 0,
+    curvatureStrength: 0,
+    curvatureMode: 'poincare',
+    kurEnabled: false,
+    su7: createDefaultSu7RuntimeParams(),
+    spectralRim,
+  });
+
+  const heuristic = input(null);
+  const withSpectral = input(spectral);
+  const heuristicResult = renderRainbowFrame(heuristic);
+  const spectralResult = renderRainbowFrame(withSpectral);
+  assert.equal(spectralResult.metrics.rim.count, heuristicResult.metrics.rim.count);
+  assert.notDeepEqual(withSpectral.out, heuristic.out, 'spectral signals replace the offsets');
+
+  const mismatched = input(computeSpectralRimField(new Float32Array(16), 4, 4));
+  renderRainbowFrame(mismatched);
+  assert.deepEqual(mismatched.out, heuristic.out, 'other resolutions fall back to the heuristic');
+});
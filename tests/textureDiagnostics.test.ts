@@ -99,6 +99,46 @@ test('texture diagnostics wallpapericity rises for striped surface', () => {
   assert.ok(result.beatEnergyMean >= 0);
 });
 
+test('spectral DoG bank matches a clamp-to-edge spatial blur', () => {
+  const width = 23;
+  const height = 17;
+  const surface = createSurfaceFromFn(
+    width,
+    height,
+    (x, y) => 0.5 + 0.4 * Math.sin(0.7 * x + 0.3 * y) * Math.cos(0.5 * y),
+  );
+  const gray = Array.from({ length: width * height }, (_, i) => surface.rgba[i * 4] / 255);
+  const blur = (input: number[], sigma: number) => {
+    const radius = Math.max(1, Math.floor(sigma * 3));
+    const weights = Array.from({ length: radius * 2 + 1 }, (_, k) =>
+      Math.exp(-((k - radius) ** 2) / (2 * sigma * sigma + 1e-6)),
+    );
+    const norm = weights.reduce((sum, w) => sum + w, 0);
+    const pass = (src: number[], horizontal: boolean) =>
+      src.map((_, i) => {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        let accum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const xx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const yy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          accum += src[yy * width + xx] * weights[k + radius];
+        }
+        return accum / norm;
+      });
+    return pass(pass(input, true), false);
+  };
+  const energy = new Array<number>(width * height).fill(0);
+  for (const sigma of [0.7, 1.2, 2.4]) {
+    const narrow = blur(gray, sigma);
+    const wide = blur(gray, sigma * 1.6);
+    narrow.forEach((value, i) => (energy[i] += Math.abs(value - wide[i])));
+  }
+  const expected = energy.reduce((sum, value) => sum + value / 3, 0) / energy.length;
+  const result = computeTextureDiagnostics(surface, { orientations: [0] });
+  assert.ok(Math.abs(result.dogMean - expected) < 1e-6, `${result.dogMean} vs ${expected}`);
+});
+
 test('texture diagnostics beat energy spikes for near-resonant stripes', () => {
   const baseSurface = createStripeSurface(64, 64, 0, 6);
   const beatSurface = createBeatSurface(64, 64, 6, Math.PI / 7);
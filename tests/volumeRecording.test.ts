@@ -0,0 +1,200 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeResolution, type VolumeField } from '../src/fields/contracts.js';
+import { deflateVolumeCodec } from '../src/cli/utils/volumeCodec.js';
+import { TimelinePlayer } from '../src/timeline/index.js';
+import { runCrossTierValidation } from '../src/validation/crossTierValidation.js';
+import { ingestVolumeRecording } from '../src/volumeStub.js';
+import {
+  decodeFloat16,
+  encodeFloat16,
+  encodeVolumeRecording,
+  inflateVolumeRecording,
+  VolumeRecordingReader,
+  VolumeRecordingWriter,
+} from '../src/volumeRecording.js';
+
+const makeFrame = (width: number, height: number, frame: number): VolumeField => {
+  const texels = width * height;
+  const phase = new Float32Array(texels);
+  const depth = new Float32Array(texels);
+  const intensity = new Float32Array(texels);
+  for (let i = 0; i < texels; i++) {
+    phase[i] = Math.sin(0.37 * i + frame) * Math.PI;
+    depth[i] = ((i + frame) % 17) / 16;
+    intensity[i] = 0.5 + 0.25 * Math.cos(0.11 * i * (frame + 1));
+  }
+  return { kind: 'volume', resolution: makeResolution(width, height), phase, depth, intensity };
+};
+
+const frames = (count: number, width = 6, height = 5) =>
+  Array.from({ length: count }, (_, frame) => makeFrame(width, height, frame));
+
+test('float32 recordings round-trip exactly across chunk boundaries', () => {
+  const source = frames(7);
+  const timestamps = source.map((_, i) => i * 0.1);
+  const bytes = encodeVolumeRecording(source, timestamps, {
+    framesPerChunk: 3,
+    metadata: { scene: 'unit' },
+  });
+  const reader = new VolumeRecordingReader(bytes);
+  assert.equal(reader.frameCount, 7);
+  assert.equal(reader.header.precision, 'float32');
+  assert.equal(reader.header.codec, null);
+  assert.deepEqual(reader.header.metadata, { scene: 'unit' });
+  assert.deepEqual(Array.from(reader.timestamps), timestamps);
+  // Out-of-order seeks hop between chunks.
+  for (const index of [6, 0, 4, 2, 5, 1, 3]) {
+    const frame = reader.readFrame(index);
+    assert.deepEqual(frame.phase, source[index]!.phase, `phase ${index}`);
+    assert.deepEqual(frame.depth, source[index]!.depth);
+    assert.deepEqual(frame.intensity, source[index]!.intensity);
+  }
+  const ingested = ingestVolumeRecording({
+    width: 6,
+    height: 5,
+    ...reader.readFrame(2),
+  });
+  assert.deepEqual(ingested.phase, source[2]!.phase);
+});
+
+test('float16 halves the payload and stays within half-precision error', () => {
+  for (const value of [0, 1, -2.5, 65504, 6.1e-5, 3e-7, Math.PI]) {
+    const decoded = decodeFloat16(encodeFloat16(value));
+    assert.ok(Math.abs(decoded - value) <= Math.abs(value) * 2 ** -11 + 2 ** -25, `${value}`);
+  }
+  assert.equal(decodeFloat16(encodeFloat16(1e6)), Infinity);
+  assert.ok(Number.isNaN(decodeFloat16(encodeFloat16(NaN))));
+
+  const source = frames(4);
+  const timestamps = [0, 1, 2, 3];
+  const full = encodeVolumeRecording(source, timestamps);
+  const half = encodeVolumeRecording(source, timestamps, { precision: 'float16' });
+  assert.ok(half.byteLength < full.byteLength * 0.55, `${half.byteLength} vs ${full.byteLength}`);
+  const reader = new VolumeRecordingReader(half);
+  assert.equal(reader.header.precision, 'float16');
+  const frame = reader.readFrame(3);
+  for (let i = 0; i < frame.phase.length; i++) {
+    assert.ok(Math.abs(frame.phase[i]! - source[3]!.phase[i]!) < 2e-3);
+    assert.ok(Math.abs(frame.intensity[i]! - source[3]!.intensity[i]!) < 1e-3);
+  }
+});
+
+test('deflate chunks compress static scenes and need the codec to decode', () => {
+  const still = makeFrame(16, 16, 0);
+  const writer = new VolumeRecordingWriter({
+    width: 16,
+    height: 16,
+    framesPerChunk: 4,
+    codec: deflateVolumeCodec,
+  });
+  for (let i = 0; i < 10; i++) writer.append(still, i / 30);
+  assert.equal(writer.frameCount, 10);
+  const bytes = writer.finish();
+  assert.ok(bytes.byteLength < 10 * 16 * 16 * 3 * 4 * 0.5, `compressed ${bytes.byteLength}`);
+  assert.throws(() => writer.finish(), /already finished/);
+
+  assert.throws(() => new VolumeRecordingReader(bytes), /uses deflate chunks/);
+  const reader = new VolumeRecordingReader(bytes, { codec: deflateVolumeCodec });
+  assert.equal(reader.header.codec, 'deflate');
+  const target = makeFrame(16, 16, 5);
+  const frame = reader.readFrame(9, target);
+  assert.equal(frame, target, 'decodes in place');
+  assert.deepEqual(frame.depth, still.depth);
+});
+
+test('deflate recordings inflate asynchronously for codec-less hosts', async () => {
+  const source = frames(5);
+  const timestamps = source.map((_, i) => i / 24);
+  const options = { framesPerChunk: 2, precision: 'float16' as const, metadata: { scene: 'web' } };
+  const plain = encodeVolumeRecording(source, timestamps, options);
+  const packed = encodeVolumeRecording(source, timestamps, {
+    ...options,
+    codec: deflateVolumeCodec,
+  });
+  const inflated = await inflateVolumeRecording(packed);
+  assert.deepEqual(inflated, plain, 'DecompressionStream restores the stored layout');
+  const viaCodec = await inflateVolumeRecording(packed, async (bytes) =>
+    deflateVolumeCodec.decompress(bytes),
+  );
+  assert.deepEqual(viaCodec, plain);
+  const reader = new VolumeRecordingReader(inflated);
+  assert.equal(reader.header.codec, null);
+  assert.deepEqual(reader.header.metadata, { scene: 'web' });
+  assert.deepEqual(reader.readFrame(3).phase, new VolumeRecordingReader(plain).readFrame(3).phase);
+  assert.equal(await inflateVolumeRecording(plain), plain, 'stored recordings pass through');
+});
+
+test('time lookups hold the last frame and follow the timeline clock', () => {
+  const source = frames(5);
+  const reader = new VolumeRecordingReader(encodeVolumeRecording(source, [0, 0.5, 1, 1, 2]));
+  assert.equal(reader.duration, 2);
+  assert.equal(reader.frameIndexAtTime(-1), 0);
+  assert.equal(reader.frameIndexAtTime(0.49), 0);
+  assert.equal(reader.frameIndexAtTime(0.5), 1);
+  assert.equal(reader.frameIndexAtTime(1), 3, 'ties resolve to the latest frame');
+  assert.equal(reader.frameIndexAtTime(1.99), 3);
+  assert.equal(reader.frameIndexAtTime(50), 4);
+  assert.deepEqual(reader.readAtTime(0.75).phase, source[1]!.phase);
+
+  const player = new TimelinePlayer({
+    version: 1,
+    fps: 4,
+    durationFrames: 6,
+    lanes: [],
+    seeds: [],
+  });
+  assert.deepEqual(reader.readAtTimelineFrame(player, 2).phase, source[1]!.phase);
+  assert.deepEqual(reader.readAtTimelineFrame(player, 5).phase, source[3]!.phase);
+  // Frames past the timeline's end clamp to its last frame (1.5 s).
+  assert.deepEqual(reader.readAtTimelineFrame(player, 40).phase, source[3]!.phase);
+});
+
+test('malformed input and inconsistent frames are rejected', () => {
+  const writer = new VolumeRecordingWriter({ width: 6, height: 5 });
+  writer.append(makeFrame(6, 5, 0), 1);
+  assert.throws(() => writer.append(makeFrame(6, 5, 1), 0.5), /non-decreasing/);
+  assert.throws(() => writer.append(makeFrame(5, 5, 1), 2), /expected 6x5/);
+  assert.throws(() => new VolumeRecordingWriter({ width: 0, height: 5 }), /invalid resolution/);
+  const bytes = writer.finish();
+
+  const reader = new VolumeRecordingReader(bytes);
+  assert.throws(() => reader.readFrame(1), /out of range/);
+  assert.throws(() => reader.readFrame(0, makeFrame(5, 6, 0)), /expected 6x5/);
+  assert.throws(() => new VolumeRecordingReader(bytes.slice(0, bytes.byteLength - 4)), /truncated/);
+  const corrupt = bytes.slice();
+  corrupt[0] = 0;
+  assert.throws(() => new VolumeRecordingReader(corrupt), /not an IVOL recording/);
+  assert.throws(() => encodeVolumeRecording([], []), /empty recording/);
+});
+
+test('the validation harness replays a recorded volume tier', () => {
+  const steps = 12;
+  const dt = 1 / 30;
+  const recorded = Array.from({ length: steps }, (_, i) => {
+    const frame = makeFrame(32, 32, i);
+    frame.intensity.fill(0.2 + 0.05 * i);
+    return frame;
+  });
+  const reader = new VolumeRecordingReader(
+    encodeVolumeRecording(
+      recorded,
+      recorded.map((_, i) => i * dt),
+      { codec: deflateVolumeCodec },
+    ),
+    { codec: deflateVolumeCodec },
+  );
+  const solved = runCrossTierValidation({ steps, dt });
+  const replayed = runCrossTierValidation({ steps, dt, volumeRecording: reader });
+  assert.notDeepEqual(
+    replayed.baseline.volume2p5D.raw,
+    solved.baseline.volume2p5D.raw,
+    'recording replaced the solver',
+  );
+  // Both runs see the same recording, so the kernel change cannot move the volume tier.
+  assert.equal(replayed.kernelDelta.perTier.volume2p5D.delta, 0);
+
+  const small = new VolumeRecordingReader(encodeVolumeRecording(frames(1), [0]));
+  assert.throws(() => runCrossTierValidation({ volumeRecording: small }), /expected 32x32/);
+});
@@ -0,0 +1,391 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeResolution } from '../src/fields/contracts.js';
+import { OpticalFieldFrame } from '../src/fields/opticalField.js';
+import { createRuntimeBundle, sampleTimelineClip } from '../src/manifest/runtime.js';
+import { serializeSceneManifest } from '../src/manifest/serializer.js';
+import { createKernelSpec } from '../src/kernel/kernelSpec.js';
+import { renderRainbowFrame, type RainbowFrameInput } from '../src/pipeline/rainbowFrame.js';
+import { createDefaultSu7RuntimeParams } from '../src/pipeline/su7/types.js';
+import {
+  applyZernikeAberration,
+  computeAberrationPointSpread,
+  computeModulationTransfer,
+  computePointSpreadFunction,
+  computeWavefront,
+  convolvePointSpread,
+  createPupilFrame,
+  nollToNm,
+  zernike,
+  zernikeTermCount,
+  type PointSpreadFunction,
+  type ZernikeAberration,
+} from '../src/optics/zernike.js';
+import {
+  createZernikeAberrationNode,
+  zernikeAberrationFromNode,
+} from '../src/state/zernikeAberration.js';
+import type { TimelineClip } from '../src/state/types.js';
+
+const close = (actual: number, expected: number, tol: number, label: string) =>
+  assert.ok(Math.abs(actual - expected) <= tol, `${label}: ${actual} vs ${expected}`);
+
+/** 32-sample pupil diameter on a 40×40 grid: 3 mm pupil at 94 µm pitch. */
+const PUPIL = {
+  width: 40,
+  height: 40,
+  wavelengthNm: 550,
+  pixelPitchMeters: 3e-3 / 32,
+  pupilRadiusMeters: 1.5e-3,
+};
+
+const aberrated = (coefficients: number[]) => {
+  const aberration: ZernikeAberration = {
+    maxOrder: 4,
+    coefficients,
+    pupilRadiusMeters: PUPIL.pupilRadiusMeters,
+  };
+  return computePointSpreadFunction(applyZernikeAberration(createPupilFrame(PUPIL), aberration));
+};
+
+const secondMoments = (psf: PointSpreadFunction) => {
+  const { width, height } = psf.resolution;
+  let xx = 0;
+  let yy = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = psf.intensity[y * width + x]!;
+      xx += w * (x - width / 2) ** 2;
+      yy += w * (y - height / 2) ** 2;
+    }
+  }
+  return { xx, yy };
+};
+
+test('Noll indexing and orthonormality of the Zernike basis', () => {
+  const expected = [
+    [0, 0],
+    [1, 1],
+    [1, -1],
+    [2, 0],
+    [2, -2],
+    [2, 2],
+    [3, -1],
+    [3, 1],
+    [3, -3],
+    [3, 3],
+    [4, 0],
+  ];
+  expected.forEach(([n, m], index) => assert.deepEqual(nollToNm(index + 1), { n, m }));
+  assert.equal(zernikeTermCount(4), 15);
+  assert.throws(() => nollToNm(0), /positive integer/);
+  close(zernike(4, 1, 0), Math.sqrt(3), 1e-12, 'defocus edge');
+  close(zernike(11, 0, 0), Math.sqrt(5), 1e-12, 'spherical centre');
+
+  // Midpoint quadrature over the unit disk.
+  const samples = 160;
+  const terms = [1, 2, 4, 5, 6, 8, 11, 12];
+  const gram = terms.map(() => terms.map(() => 0));
+  let area = 0;
+  for (let y = 0; y < samples; y++) {
+    for (let x = 0; x < samples; x++) {
+      const px = ((x + 0.5) / samples) * 2 - 1;
+      const py = ((y + 0.5) / samples) * 2 - 1;
+      const rho = Math.hypot(px, py);
+      if (rho > 1) continue;
+      area++;
+      const theta = Math.atan2(py, px);
+      const values = terms.map((j) => zernike(j, rho, theta));
+      values.forEach((a, i) => values.forEach((b, k) => (gram[i]![k]! += a * b)));
+    }
+  }
+  gram.forEach((row, i) =>
+    row.forEach((value, k) =>
+      close(value / area, i === k ? 1 : 0, 0.02, `⟨Z${terms[i]}, Z${terms[k]}⟩`),
+    ),
+  );
+});
+
+test('pupil wavefronts, Strehl ratio and astigmatic PSFs', () => {
+  const wavefront = computeWavefront(
+    { maxOrder: 2, coefficients: [0, 0, 0, 0.5], pupilRadiusMeters: PUPIL.pupilRadiusMeters },
+    PUPIL.width,
+    PUPIL.height,
+    PUPIL.pixelPitchMeters,
+  );
+  assert.ok(Number.isNaN(wavefront[0]!), 'outside the pupil');
+  close(wavefront[20 * 40 + 20]!, -0.5 * Math.sqrt(3), 0.01, 'defocus is −√3 c at the centre');
+  assert.throws(
+    () =>
+      computeWavefront({ maxOrder: 1, coefficients: [0, 0, 0, 1], pupilRadiusMeters: 1 }, 2, 2, 1),
+    /exceed the 3 terms/,
+  );
+
+  const perfect = aberrated([]);
+  close(perfect.strehl, 1, 1e-9, 'diffraction-limited Strehl');
+  const { width, height } = perfect.resolution;
+  assert.equal(width, 80);
+  const peak = perfect.intensity.indexOf(Math.max(...perfect.intensity));
+  assert.equal(peak, (height / 2) * width + width / 2, 'PSF is centred');
+  close(
+    perfect.intensity.reduce((a, b) => a + b, 0),
+    1,
+    1e-5,
+    'unit energy',
+  );
+  close(perfect.sampleRadians, 550e-9 / (80 * PUPIL.pixelPitchMeters), 1e-15, 'sampling');
+
+  // Maréchal: S ≈ exp(−(2πσ/λ)²) for σ = 0.03 µm RMS.
+  const defocused = aberrated([0, 0, 0, 0.03]);
+  close(defocused.strehl, Math.exp(-(((2 * Math.PI * 0.03) / 0.55) ** 2)), 0.02, 'Maréchal');
+  assert.ok(defocused.intensity[peak]! < perfect.intensity[peak]!, 'blur lowers the peak');
+
+  const round = secondMoments(aberrated([0, 0, 0, 0.15]));
+  close(round.xx / round.yy, 1, 0.02, 'defocus blurs isotropically');
+  const astigmatic = secondMoments(aberrated([0, 0, 0, 0.15, 0, 0.15]));
+  assert.ok(
+    Math.abs(astigmatic.xx / astigmatic.yy - 1) > 0.2,
+    `astigmatism elongates the PSF: ${astigmatic.xx} / ${astigmatic.yy}`,
+  );
+
+  const screen = new OpticalFieldFrame(makeResolution(4, 4));
+  assert.throws(
+    () => applyZernikeAberration(screen, { maxOrder: 0, coefficients: [], pupilRadiusMeters: 1 }),
+    /pupil-space/,
+  );
+  assert.throws(() => computePointSpreadFunction(screen), /pupil-space/);
+});
+
+test('MTF matches the diffraction-limited circular-pupil curve', () => {
+  const mtf = computeModulationTransfer(aberrated([]));
+  close(mtf.mtf[40 * 80 + 40]!, 1, 1e-6, 'unit DC response');
+  // Lags are in pupil samples; the 32-sample pupil cuts off at a lag of 32.
+  const diffractionLimited = (nu: number) =>
+    (2 / Math.PI) * (Math.acos(nu) - nu * Math.sqrt(1 - nu * nu));
+  for (const lag of [8, 16, 24]) {
+    close(mtf.radial[lag]!, diffractionLimited(lag / 32), 0.03, `MTF at ν = ${lag / 32}`);
+  }
+  assert.ok(mtf.radial[34]! < 1e-3, 'nothing passes beyond cutoff');
+  close(
+    mtf.sampleCyclesPerRadian,
+    PUPIL.pixelPitchMeters / 550e-9,
+    1e-6 * mtf.sampleCyclesPerRadian,
+    'one sample per pupil pitch over λ',
+  );
+
+  const blurred = computeModulationTransfer(aberrated([0, 0, 0, 0.15]));
+  assert.ok(blurred.radial[16]! < mtf.radial[16]! * 0.8, 'defocus lowers mid frequencies');
+});
+
+test('ZernikeAberration nodes round-trip through manifests and keyframes', () => {
+  const node = createZernikeAberrationNode('eye', {
+    maxOrder: 2,
+    coefficients: [0, 0, 0, 0.25, 0, -0.1],
+    pupilRadiusMeters: 2e-3,
+  });
+  assert.deepEqual(
+    node.parameters!.map((parameter) => parameter.id),
+    ['maxOrder', 'pupilDiameterMm', 'z1', 'z2', 'z3', 'z4', 'z5', 'z6'],
+  );
+  assert.equal(node.parameters![5]!.label, 'Z4 defocus');
+
+  const clip: TimelineClip = {
+    id: 'defocus-sweep',
+    nodeId: 'eye',
+    parameterId: 'z4',
+    keyframes: [
+      { time: 0, value: 0 },
+      { time: 2, value: 1 },
+    ],
+    interpolation: 'linear',
+  };
+  const bundle = createRuntimeBundle({
+    schemaVersion: '1.0.0',
+    metadata: { name: 'eye' },
+    nodes: [node],
+    links: [],
+    timeline: { duration: 2, fps: 30, clips: [clip] },
+  });
+  const [sceneNode] = bundle.scene.nodes;
+  const stored = zernikeAberrationFromNode(sceneNode!);
+  assert.deepEqual(Array.from(stored.coefficients), [0, 0, 0, 0.25, 0, -0.1]);
+  close(stored.pupilRadiusMeters, 2e-3, 1e-12, 'pupil radius');
+
+  const animated = zernikeAberrationFromNode(sceneNode!, bundle.timeline, 0.5);
+  close(animated.coefficients[3]!, 0.25, 1e-12, 'keyframed defocus at t = 0.5 s');
+  close(animated.coefficients[5]!, -0.1, 1e-12, 'unanimated terms keep their value');
+
+  const manifest = serializeSceneManifest(
+    bundle.scene,
+    bundle.timeline,
+    { name: 'eye' },
+    undefined,
+    undefined,
+  );
+  assert.equal(manifest.nodes[0]!.type, 'ZernikeAberration');
+  assert.equal(manifest.timeline!.clips[0]!.parameterId, 'z4');
+  assert.throws(
+    () => zernikeAberrationFromNode({ ...sceneNode!, type: 'BeamSplitter' }),
+    /expected a ZernikeAberration node/,
+  );
+});
+
+test('timeline clips interpolate linearly, by step or by spline', () => {
+  const clip: TimelineClip = {
+    id: 'c',
+    nodeId: 'n',
+    parameterId: 'p',
+    keyframes: [
+      { time: 2, value: 4 },
+      { time: 0, value: 0 },
+      { time: 3, value: 'hold' },
+    ],
+    interpolation: 'linear',
+  };
+  assert.equal(sampleTimelineClip(clip, -1), 0);
+  assert.equal(sampleTimelineClip(clip, 1), 2);
+  assert.equal(sampleTimelineClip(clip, 2.5), 4, 'non-numeric neighbours step');
+  assert.equal(sampleTimelineClip(clip, 5), 'hold');
+  assert.equal(sampleTimelineClip({ ...clip, interpolation: 'step' }, 1.5), 0);
+  assert.equal(
+    sampleTimelineClip({ ...clip, interpolation: undefined }, 1.5),
+    0,
+    'clips without an interpolation step like timeline lanes',
+  );
+  assert.equal(sampleTimelineClip({ ...clip, keyframes: [] }, 1), undefined);
+
+  const ramp: TimelineClip = {
+    ...clip,
+    interpolation: 'spline',
+    keyframes: [0, 1, 2, 3].map((time) => ({ time, value: time * 2 })),
+  };
+  close(sampleTimelineClip(ramp, 1.25) as number, 2.5, 1e-12, 'Catmull–Rom keeps straight lines');
+});
+
+test('eye PSFs blur rendered frames in place of the Gaussian rim falloff', () => {
+  const eye = (defocus: number) =>
+    computeAberrationPointSpread({
+      maxOrder: 2,
+      coefficients: [0, 0, 0, defocus],
+      pupilRadiusMeters: 1.5e-3,
+    });
+  close(eye(0).strehl, 1, 1e-6, 'diffraction-limited Strehl');
+  const blurred = eye(0.3);
+  assert.ok(blurred.strehl < 0.5, `defocus Strehl ${blurred.strehl}`);
+
+  const size = 24;
+  const point = new Uint8ClampedArray(size * size * 4);
+  for (let i = 3; i < point.length; i += 4) point[i] = 255;
+  point[(12 * size + 12) * 4] = 255;
+  convolvePointSpread(point, size, size, blurred);
+  let red = 0;
+  for (let i = 0; i < point.length; i += 4) {
+    red += point[i]!;
+    assert.equal(point[i + 3], 255, 'alpha is untouched');
+  }
+  assert.ok(point[(12 * size + 12) * 4]! < 128, 'the point spreads out');
+  close(red, 255, size * size * 0.5, 'energy is conserved up to rounding');
+
+  const flat = new Uint8ClampedArray(size * size * 4).fill(90);
+  convolvePointSpread(flat, size, size, blurred);
+  assert.ok(
+    flat.every((value) => Math.abs(value - 90) <= 1),
+    'clamped edges keep flat frames flat',
+  );
+
+  const width = 16;
+  const height = 4;
+  const texels = width * height;
+  const gx = new Float32Array(texels);
+  const mag = new Float32Array(texels);
+  for (let y = 0; y < height; y++) {
+    gx[y * width + 8] = 1;
+    mag[y * width + 8] = 1;
+  }
+  const render = (sigma: number, pointSpread: PointSpreadFunction | null) => {
+    const input: RainbowFrameInput = {
+      width,
+      height,
+      timeSeconds: 0,
+      out: new Uint8ClampedArray(texels * 4),
+      surface: {
+        kind: 'surface',
+        resolution: makeResolution(width, height),
+        rgba: new Uint8ClampedArray(texels * 4).fill(128),
+      },
+      rim: {
+        kind: 'rim',
+        resolution: makeResolution(width, height),
+        gx,
+        gy: new Float32Array(texels),
+        mag,
+      },
+      phase: null,
+      volume: null,
+      kernel: createKernelSpec({ gain: 1, k0: 0.2, Q: 3, anisotropy: 0, chirality: 0 }),
+      dmt: 0,
+      arousal: 0,
+      blend: 0,
+      normPin: false,
+      normTarget: 0.6,
+      lastObs: 0.6,
+      lambdaRef: 520,
+      lambdas: { L: 560, M: 530, S: 420 },
+      beta2: 6,
+      microsaccade: false,
+      alive: false,
+      phasePin: false,
+      edgeThreshold: 0.1,
+      wallpaperGroup: 'off',
+      surfEnabled: false,
+      orientationAngles: [0],
+      thetaMode: 'gradient',
+      thetaGlobal: 0,
+      polBins: 0,
+      jitter: 0,
+      coupling: {
+        rimToSurfaceBlend: 0,
+        rimToSurfaceAlign: 0,
+        surfaceToRimOffset: 0,
+        surfaceToRimSigma: 0,
+        surfaceToRimHue: 0,
+        kurToTransparency: 0,
+        kurToOrientation: 0,
+        kurToChirality: 0,
+        volumePhaseToHue: 0,
+        volumeDepthToWarp: 0,
+      },
+      sigma,
+      contrast: 1,
+      rimAlpha: 1,
+      rimEnabled: true,
+      displayMode: 'color',
+      surfaceBlend: 0,
+      surfaceRegion: 'both',
+      warpAmp: 0,
+      curvatureStrength: 0,
+      curvatureMode: 'poincare',
+      kurEnabled: false,
+      su7: createDefaultSu7RuntimeParams(),
+      pointSpread,
+    };
+    renderRainbowFrame(input);
+    return input.out;
+  };
+  assert.notDeepEqual(render(0.5, null), render(4, null), 'σ shapes the rim without a PSF');
+  const delta: PointSpreadFunction = {
+    resolution: makeResolution(8, 8),
+    intensity: new Float32Array(64).fill(0).map((_, i) => (i === 36 ? 1 : 0)),
+    strehl: 1,
+    sampleRadians: 1e-4,
+    wavelengthNm: 555,
+  };
+  assert.deepEqual(render(0.5, delta), render(4, delta), 'a PSF replaces the σ falloff');
+  const sharp = render(1, delta);
+  const soft = render(1, blurred);
+  assert.ok(
+    Math.abs(soft[8 * 4]! - 128) < Math.abs(sharp[8 * 4]! - 128),
+    'the PSF spreads the rim into the background',
+  );
+});